@@ -5,6 +5,8 @@ const config = {
   testPathIgnorePatterns: ['<rootDir>/node_modules/', '<rootDir>/.next/'],
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
+    // exceljs requires uuid; jsdom would otherwise pick its ESM browser build
+    '^uuid$': require.resolve('uuid'),
   },
   transform: {
     '^.+\\.(ts|tsx)$': ['ts-jest', {
@@ -13,6 +13,14 @@ const nextConfig: NextConfig = {
       },
     ],
   },
+
+  // Vendor draw requests upload invoices and lien waivers through a server action
+  // (up to 5 files of 10MB each)
+  experimental: {
+    serverActions: {
+      bodySizeLimit: '52mb',
+    },
+  },
 };
 
 export default nextConfig;
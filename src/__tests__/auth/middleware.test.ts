@@ -56,7 +56,7 @@ describe('Authentication Middleware Logic', () => {
   });
 
   describe('Public Routes', () => {
-    const publicRoutes = ['/auth/login', '/auth/signup', '/auth/callback'];
+    const publicRoutes = ['/auth/login', '/auth/signup', '/auth/callback', '/draw-request/'];
 
     publicRoutes.forEach((route) => {
       it(`should allow unauthenticated access to ${route}`, async () => {
@@ -86,7 +86,7 @@ describe('Authentication Middleware Logic', () => {
         
         // Simulate middleware logic
         const { data: { user } } = await mockSupabaseAuth.getUser();
-        const publicRoutes = ['/auth/login', '/auth/signup', '/auth/callback'];
+        const publicRoutes = ['/auth/login', '/auth/signup', '/auth/callback', '/draw-request/'];
         const isPublicRoute = publicRoutes.some((r) => route.startsWith(r));
         
         // Should redirect to login
@@ -0,0 +1,135 @@
+/**
+ * Tests for bid scopes and the side-by-side bid comparison
+ */
+
+import {
+  buildBidComparison,
+  getBidScopeItems,
+  getCategoryScopeItemIds,
+  isComparableBid,
+  toBidLineEntries,
+} from '@/lib/bids';
+import type { BidStatus, BidWithLines, BudgetCategory, BudgetItem } from '@/types';
+import { createMockBudgetItem } from '../utils/test-utils';
+
+function item(id: string, category: BudgetCategory, underwriting: number, forecast = 0, sortOrder = 0): BudgetItem {
+  return createMockBudgetItem({
+    id,
+    category,
+    item: `Item ${id}`,
+    rate: underwriting,
+    underwriting_amount: underwriting,
+    forecast_amount: forecast,
+    sort_order: sortOrder,
+  });
+}
+
+function bid(id: string, status: BidStatus, lines: Record<string, number>): BidWithLines {
+  return {
+    id,
+    bid_request_id: 'r1',
+    vendor_id: `vendor-${id}`,
+    status,
+    exclusions: null,
+    notes: null,
+    received_at: status === 'requested' ? null : '2026-02-01',
+    created_at: '2026-01-15',
+    updated_at: '2026-01-15',
+    bid_line_items: Object.entries(lines).map(([budget_item_id, amount]) => ({
+      id: `${id}-${budget_item_id}`,
+      bid_id: id,
+      budget_item_id,
+      amount,
+      notes: null,
+    })),
+  };
+}
+
+const BUDGET_ITEMS = [
+  item('cabinets', 'kitchen', 8000, 0, 2),
+  item('counters', 'kitchen', 4000, 4500, 1),
+  item('rough', 'plumbing', 6000),
+  item('demo', 'demo', 3000),
+];
+
+describe('bid scope', () => {
+  it('picks a category in budget order', () => {
+    expect(getCategoryScopeItemIds(BUDGET_ITEMS, 'kitchen')).toEqual(['counters', 'cabinets']);
+    expect(getCategoryScopeItemIds(BUDGET_ITEMS, 'hvac')).toEqual([]);
+  });
+
+  it('orders scope lines by category then sort order and drops deleted lines', () => {
+    const scope = getBidScopeItems(
+      [{ budget_item_id: 'cabinets' }, { budget_item_id: 'demo' }, { budget_item_id: 'counters' }, { budget_item_id: 'gone' }],
+      BUDGET_ITEMS
+    );
+
+    expect(scope.map((i) => i.id)).toEqual(['demo', 'counters', 'cabinets']);
+  });
+});
+
+describe('buildBidComparison', () => {
+  const scope = getBidScopeItems(
+    [{ budget_item_id: 'counters' }, { budget_item_id: 'cabinets' }],
+    BUDGET_ITEMS
+  );
+
+  it('budgets each line at forecast, else underwriting', () => {
+    const comparison = buildBidComparison(scope, []);
+
+    expect(comparison.lines.map((l) => l.budgeted)).toEqual([4500, 8000]);
+    expect(comparison.budgetedTotal).toBe(12500);
+    expect(comparison.lowBidId).toBeNull();
+  });
+
+  it('finds the low line and the low complete bid', () => {
+    const comparison = buildBidComparison(scope, [
+      bid('a', 'received', { counters: 4200, cabinets: 7800 }),
+      bid('b', 'received', { counters: 3900, cabinets: 8400 }),
+    ]);
+
+    expect(comparison.lines[0].lowBidId).toBe('b');
+    expect(comparison.lines[1].lowBidId).toBe('a');
+    expect(comparison.totals.a).toEqual({ bidId: 'a', total: 12000, missingCount: 0, varianceToBudget: -500 });
+    expect(comparison.totals.b.total).toBe(12300);
+    expect(comparison.lowBidId).toBe('a');
+  });
+
+  it('does not let a bid with unpriced lines be the low bid', () => {
+    const comparison = buildBidComparison(scope, [
+      bid('a', 'received', { counters: 4200, cabinets: 7800 }),
+      bid('partial', 'received', { counters: 3000 }),
+    ]);
+
+    expect(comparison.totals.partial).toMatchObject({ total: 3000, missingCount: 1 });
+    expect(comparison.lines[0].lowBidId).toBe('partial');
+    expect(comparison.lowBidId).toBe('a');
+  });
+
+  it('ignores requested, declined and not-awarded bids when picking the low price', () => {
+    const comparison = buildBidComparison(scope, [
+      bid('a', 'received', { counters: 4200, cabinets: 7800 }),
+      bid('declined', 'declined', { counters: 100, cabinets: 100 }),
+      bid('pending', 'requested', {}),
+    ]);
+
+    expect(comparison.lines.every((l) => l.lowBidId === 'a')).toBe(true);
+    expect(comparison.lowBidId).toBe('a');
+    expect(comparison.totals.declined.total).toBe(200);
+    expect(comparison.totals.pending.missingCount).toBe(2);
+  });
+
+  it('keeps comparing an awarded bid', () => {
+    expect(isComparableBid({ status: 'awarded' })).toBe(true);
+    expect(isComparableBid({ status: 'not_awarded' })).toBe(false);
+  });
+});
+
+describe('toBidLineEntries', () => {
+  it('drops blank lines but keeps zero prices', () => {
+    expect(toBidLineEntries({ counters: 4200, cabinets: null, demo: 0, rough: undefined })).toEqual([
+      { budget_item_id: 'counters', amount: 4200 },
+      { budget_item_id: 'demo', amount: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for budget snapshot diffs
+ */
+
+import {
+  CURRENT_BUDGET_VERSION_ID,
+  currentBudgetVersion,
+  diffBudgetVersions,
+  snapshotToVersion,
+  type BudgetVersion,
+} from '@/lib/budget-snapshots';
+import { analyzeProject } from '@/lib/deal-analysis';
+import {
+  DEFAULT_CALCULATION_SETTINGS,
+  type BudgetCategory,
+  type BudgetItem,
+  type BudgetSnapshot,
+  type BudgetSnapshotFinancials,
+} from '@/types';
+import { createMockBudgetItem } from '../utils/test-utils';
+
+function item(
+  id: string,
+  category: BudgetCategory,
+  name: string,
+  underwriting: number,
+  forecast = 0,
+  overrides: Partial<BudgetItem> = {}
+): BudgetItem {
+  return createMockBudgetItem({
+    id,
+    category,
+    item: name,
+    rate: underwriting,
+    underwriting_amount: underwriting,
+    forecast_amount: forecast,
+    ...overrides,
+  });
+}
+
+const FINANCIALS: BudgetSnapshotFinancials = {
+  arv: 350000,
+  purchase_price: 200000,
+  closing_costs: 5000,
+  holding_costs_monthly: 1500,
+  hold_months: 5,
+  selling_cost_percent: 8,
+  contingency_percent: 10,
+};
+
+const OFFER: BudgetVersion = {
+  id: 's1',
+  name: 'Offer',
+  financials: FINANCIALS,
+  items: [
+    item('k1', 'kitchen', 'Cabinets', 12000),
+    item('k2', 'kitchen', 'Countertops', 4000),
+    item('r1', 'exterior', 'Tear-off', 9000),
+    item('d1', 'demo', 'Dumpster', 800),
+  ],
+};
+
+const GC_BID: BudgetVersion = {
+  id: 's2',
+  name: 'GC bid v2',
+  financials: { ...FINANCIALS, purchase_price: 195000 },
+  items: [
+    item('k1', 'kitchen', 'Cabinets', 12000, 14500),
+    item('k2', 'kitchen', 'Countertops', 4000, 4000),
+    // Re-created during the re-bid: same line, new id
+    item('r9', 'exterior', 'Tear-Off ', 9000, 8000),
+    item('p1', 'plumbing', 'Water heater', 0, 1800),
+  ],
+};
+
+const settings = DEFAULT_CALCULATION_SETTINGS;
+
+describe('diffBudgetVersions', () => {
+  const diff = diffBudgetVersions(OFFER, GC_BID, settings);
+
+  it('classifies added, removed and changed lines', () => {
+    const byName = Object.fromEntries(diff.items.map((i) => [i.name, i]));
+
+    expect(byName['Water heater'].type).toBe('added');
+    expect(byName['Dumpster'].type).toBe('removed');
+    expect(byName['Cabinets'].type).toBe('changed');
+    expect(byName['Cabinets'].changedFields).toEqual(['forecast_amount']);
+  });
+
+  it('matches a re-created line by category and name', () => {
+    const tearOff = diff.items.filter((i) => i.category === 'exterior');
+
+    expect(tearOff).toHaveLength(1);
+    expect(tearOff[0]).toMatchObject({ type: 'changed', from: { id: 'r1' }, to: { id: 'r9' } });
+    expect(tearOff[0].changedFields).toEqual(['item', 'forecast_amount']);
+  });
+
+  it('values each version at its own primary scenario', () => {
+    // Offer has no forecast, so underwriting; the bid has forecasts
+    const cabinets = diff.items.find((i) => i.name === 'Cabinets')!;
+    expect(cabinets).toMatchObject({ fromAmount: 12000, toAmount: 14500, delta: 2500 });
+
+    // Countertops moved from underwriting 4000 to forecast 4000 - only the forecast field changed
+    const counters = diff.items.find((i) => i.name === 'Countertops')!;
+    expect(counters.delta).toBe(0);
+  });
+
+  it('omits lines that did not change', () => {
+    const same = diffBudgetVersions(OFFER, { ...OFFER, id: 's3' }, settings);
+    expect(same.items).toEqual([]);
+    expect(same.totals.delta).toBe(0);
+  });
+
+  it('totals by category in BUDGET_CATEGORIES order', () => {
+    expect(diff.categories.map((c) => c.category)).toEqual(['demo', 'plumbing', 'kitchen', 'exterior']);
+    expect(diff.categories.find((c) => c.category === 'kitchen')).toMatchObject({
+      from: 16000,
+      to: 18500,
+      delta: 2500,
+    });
+    expect(diff.totals).toEqual({ from: 25800, to: 28300, delta: 2500 });
+  });
+
+  it('runs the deal analysis on each version', () => {
+    expect(diff.analysis.from).toEqual(analyzeProject(OFFER.financials, OFFER.items, settings));
+    expect(diff.analysis.to).toEqual(analyzeProject(GC_BID.financials, GC_BID.items, settings));
+    expect(diff.analysis.to.primaryScenario).toBe('forecast');
+  });
+});
+
+describe('versions', () => {
+  it('builds the live version from the project financials', () => {
+    const version = currentBudgetVersion({ ...FINANCIALS }, OFFER.items);
+
+    expect(version.id).toBe(CURRENT_BUDGET_VERSION_ID);
+    expect(version.financials).toEqual(FINANCIALS);
+    expect(version.items).toBe(OFFER.items);
+  });
+
+  it('reads a stored snapshot', () => {
+    const snapshot: BudgetSnapshot = {
+      id: 's1',
+      project_id: 'p1',
+      name: 'Offer',
+      notes: null,
+      project_financials: FINANCIALS,
+      budget_items: OFFER.items,
+      underwriting_total: 25800,
+      forecast_total: 0,
+      actual_total: 0,
+      item_count: 4,
+      created_by: null,
+      created_at: '2026-01-01',
+    };
+
+    expect(snapshotToVersion(snapshot)).toEqual(OFFER);
+  });
+});
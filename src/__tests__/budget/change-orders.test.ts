@@ -0,0 +1,160 @@
+/**
+ * Tests for change order lines, validation and forecast variance attribution
+ */
+
+import {
+  buildChangeOrderLines,
+  buildChangeOrderVariance,
+  formatChangeOrderNumber,
+  getChangeOrderFilename,
+  getChangeOrderTotal,
+  getNegativeChangeOrderLines,
+  toChangeOrderLineEntries,
+  validateChangeOrderInput,
+} from '@/lib/change-orders';
+import type {
+  BudgetCategory,
+  BudgetItem,
+  ChangeOrderReason,
+  ChangeOrderStatus,
+  ChangeOrderWithItems,
+} from '@/types';
+import { createMockBudgetItem } from '../utils/test-utils';
+
+function item(id: string, category: BudgetCategory, underwriting: number, forecast = 0, sortOrder = 0): BudgetItem {
+  return createMockBudgetItem({
+    id,
+    category,
+    item: `Item ${id}`,
+    rate: underwriting,
+    underwriting_amount: underwriting,
+    forecast_amount: forecast,
+    sort_order: sortOrder,
+  });
+}
+
+function changeOrder(
+  number: number,
+  status: ChangeOrderStatus,
+  reason: ChangeOrderReason,
+  deltas: Record<string, number>
+): ChangeOrderWithItems {
+  return {
+    id: `co${number}`,
+    project_id: 'p1',
+    number,
+    title: `Change ${number}`,
+    reason_code: reason,
+    description: null,
+    vendor_id: null,
+    status,
+    submitted_at: null,
+    decided_at: null,
+    decided_by: null,
+    rejection_reason: null,
+    created_by: null,
+    created_at: '2026-01-01',
+    updated_at: '2026-01-01',
+    change_order_items: Object.entries(deltas).map(([budgetItemId, delta]) => ({
+      id: `${number}-${budgetItemId}`,
+      change_order_id: `co${number}`,
+      budget_item_id: budgetItemId,
+      delta,
+      notes: null,
+    })),
+  };
+}
+
+describe('change order basics', () => {
+  it('numbers, totals and names the PDF', () => {
+    expect(formatChangeOrderNumber(3)).toBe('CO #3');
+    expect(getChangeOrderTotal(changeOrder(1, 'draft', 'owner_requested', { a: 500, b: -200 }))).toBe(300);
+    expect(getChangeOrderFilename('12 Oak St.', 4)).toBe('12_Oak_St_Change_Order_4.pdf');
+  });
+
+  it('drops blank and zero deltas', () => {
+    expect(toChangeOrderLineEntries({ a: 250, b: null, c: 0, d: -75, e: undefined })).toEqual([
+      { budget_item_id: 'a', delta: 250 },
+      { budget_item_id: 'd', delta: -75 },
+    ]);
+  });
+
+  it('requires a title and at least one line', () => {
+    expect(validateChangeOrderInput({ title: ' ', lines: [{ budget_item_id: 'a', delta: 1 }] })).toBe(
+      'Describe the change'
+    );
+    expect(validateChangeOrderInput({ title: 'Subfloor', lines: [] })).toBe('Change at least one budget line');
+    expect(validateChangeOrderInput({ title: 'Subfloor', lines: [{ budget_item_id: 'a', delta: 1 }] })).toBeNull();
+  });
+
+  it('flags lines that would go below zero', () => {
+    const items = [item('a', 'plumbing', 1000, 800), item('b', 'electrical', 500)];
+    expect(
+      getNegativeChangeOrderLines(
+        [
+          { budget_item_id: 'a', delta: -900 },
+          { budget_item_id: 'b', delta: -500 },
+        ],
+        items
+      )
+    ).toEqual(['a']);
+  });
+});
+
+describe('buildChangeOrderLines', () => {
+  const items = [item('a', 'plumbing', 1000, 1500, 1), item('b', 'demo', 400, 0, 0)];
+
+  it('shows a pending change against the current budget, in budget order', () => {
+    const lines = buildChangeOrderLines(changeOrder(1, 'submitted', 'hidden_condition', { a: 300, b: -100 }), items);
+
+    expect(lines.map((l) => l.budgetItemId)).toEqual(['b', 'a']);
+    expect(lines[1]).toMatchObject({ before: 1500, delta: 300, after: 1800, categoryLabel: 'Plumbing' });
+    expect(lines[0]).toMatchObject({ before: 400, after: 300 });
+  });
+
+  it('backs an approved change out of the budget it was applied to', () => {
+    const [line] = buildChangeOrderLines(changeOrder(1, 'approved', 'hidden_condition', { a: 300 }), items);
+    expect(line).toMatchObject({ before: 1200, delta: 300, after: 1500 });
+  });
+
+  it('drops lines deleted from the budget', () => {
+    expect(buildChangeOrderLines(changeOrder(1, 'draft', 'owner_requested', { gone: 100 }), items)).toEqual([]);
+  });
+});
+
+describe('buildChangeOrderVariance', () => {
+  // Underwriting 3,000; budget now 3,900
+  const items = [item('a', 'plumbing', 1000, 1500), item('b', 'electrical', 2000, 2400)];
+  const changeOrders = [
+    changeOrder(1, 'approved', 'hidden_condition', { a: 300 }),
+    changeOrder(2, 'approved', 'owner_requested', { a: 100, b: 250 }),
+    changeOrder(3, 'submitted', 'code_requirement', { b: 700 }),
+    changeOrder(4, 'rejected', 'owner_requested', { a: 5000 }),
+    changeOrder(5, 'draft', 'owner_requested', { b: 40 }),
+  ];
+
+  it('splits the forecast movement into change orders by reason and other revisions', () => {
+    const variance = buildChangeOrderVariance(items, changeOrders);
+
+    expect(variance.underwritingTotal).toBe(3000);
+    expect(variance.budgetedTotal).toBe(3900);
+    expect(variance.approvedByReason).toEqual({ owner_requested: 350, hidden_condition: 300, code_requirement: 0 });
+    expect(variance.approvedTotal).toBe(650);
+    expect(variance.otherRevisions).toBe(250);
+    expect(variance.pendingTotal).toBe(700);
+  });
+
+  it('attributes each touched line', () => {
+    const { lines } = buildChangeOrderVariance(items, changeOrders);
+
+    expect(lines.map((l) => l.budgetItem.id)).toEqual(['a', 'b']);
+    expect(lines[0]).toMatchObject({ underwriting: 1000, changeOrders: 400, otherRevisions: 100, budgeted: 1500 });
+    expect(lines[1]).toMatchObject({ changeOrders: 250, otherRevisions: 150 });
+  });
+
+  it('ignores lines deleted from the budget', () => {
+    const variance = buildChangeOrderVariance(items, [changeOrder(1, 'approved', 'owner_requested', { gone: 900 })]);
+    expect(variance.approvedTotal).toBe(0);
+    expect(variance.lines).toEqual([]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for the monthly cash flow projection and its CSV export
+ */
+
+import {
+  buildCashFlowCsv,
+  getCashFlowCsvFilename,
+  getExpectedSaleMonth,
+  portfolioCashFlow,
+  projectCashFlow,
+  type CashFlowDraw,
+  type CashFlowProjectFields,
+} from '@/lib/cash-flow';
+import type { ProjectDealAnalysis } from '@/lib/deal-analysis';
+import type { ProjectFinancing } from '@/lib/financing';
+
+const MARCH_15 = new Date(2026, 2, 15);
+
+type CashFlowAnalysis = Pick<ProjectDealAnalysis, 'primary' | 'actualTotal' | 'financing'>;
+
+function fields(overrides: Partial<CashFlowProjectFields>): CashFlowProjectFields {
+  return {
+    id: 'p1',
+    name: 'Oak St',
+    status: 'in_rehab',
+    close_date: null,
+    rehab_start_date: null,
+    target_complete_date: null,
+    list_date: null,
+    sale_date: null,
+    hold_months: 4,
+    ...overrides,
+  };
+}
+
+function analysis(primary: Partial<ProjectDealAnalysis['primary']>, extra: Partial<CashFlowAnalysis> = {}): CashFlowAnalysis {
+  return {
+    primary: { financingCosts: 0, ...primary } as ProjectDealAnalysis['primary'],
+    actualTotal: 0,
+    financing: null,
+    ...extra,
+  };
+}
+
+function draw(amount: number, status: CashFlowDraw['status'], dateRequested: string, loanId: string | null = null): CashFlowDraw {
+  return { amount, status, date_requested: dateRequested, loan_id: loanId };
+}
+
+// Closes in April, rehabs through June, sells two months after target completion
+const underContract = projectCashFlow(
+  fields({ id: 'a', name: 'Oak St', status: 'under_contract', close_date: '2026-04-10', target_complete_date: '2026-06-20' }),
+  analysis({
+    purchasePrice: 200000,
+    closingCosts: 5000,
+    rehabWithContingency: 30000,
+    holdMonths: 4,
+    holdingCosts: 4000,
+    arv: 300000,
+    sellingCosts: 24000,
+  }),
+  [],
+  MARCH_15
+);
+
+// Mid-rehab on a loan with 20,000 of holdback left, listed in April
+const financing = {
+  loans: [{ undrawnHoldback: 20000 }],
+  loanAmount: 120000,
+  monthlyPayment: 1000,
+} as ProjectFinancing;
+const inRehab = projectCashFlow(
+  fields({
+    id: 'b',
+    name: 'Elm Ave',
+    close_date: '2026-01-05',
+    rehab_start_date: '2026-01-10',
+    target_complete_date: '2026-04-10',
+    list_date: '2026-04-20',
+  }),
+  analysis(
+    {
+      rehabWithContingency: 40000,
+      holdMonths: 4,
+      holdingCosts: 6000,
+      financingCosts: 2000,
+      arv: 250000,
+      sellingCosts: 20000,
+    },
+    { actualTotal: 10000, financing }
+  ),
+  [
+    draw(12000, 'paid', '2026-01-20'),
+    draw(8000, 'pending', '2026-02-20', 'loan-1'),
+    draw(5000, 'approved', '2026-04-02'),
+  ],
+  MARCH_15
+);
+
+describe('projectCashFlow', () => {
+  it('projects closing, rehab, holding and the sale by month', () => {
+    const [mar, apr, may, jun, jul, aug] = underContract.months;
+
+    expect(underContract.months).toHaveLength(12);
+    expect(mar).toMatchObject({ month: '2026-03', net: 0 });
+    expect(apr).toMatchObject({ month: '2026-04', acquisition: -205000, rehab: -10000, holding: -1000, net: -216000 });
+    expect(may.net).toBe(-11000);
+    expect(jun.net).toBe(-11000);
+    expect(jul.net).toBe(-1000);
+    expect(aug).toMatchObject({ sale: 276000, net: 275000, cumulative: 36000 });
+    expect(underContract.saleMonth).toBe('2026-08');
+  });
+
+  it('finds the peak capital requirement', () => {
+    expect(underContract.peakCapital).toBe(239000);
+    expect(underContract.peakMonth).toBe('2026-07');
+  });
+
+  it('draws on the loan holdback before cash and nets the payoff from the sale', () => {
+    const [mar, apr, may, jun] = inRehab.months;
+
+    // The pending draw and half the remaining budget come out of the holdback
+    expect(mar).toMatchObject({ rehab: 0, holding: -1000, interest: -1000, net: -2000 });
+    // The approved cash draw plus what the holdback can't cover
+    expect(apr).toMatchObject({ rehab: -8000, net: -10000 });
+    expect(may).toMatchObject({ sale: 110000, net: 108000 });
+    expect(jun.net).toBe(0);
+  });
+});
+
+describe('getExpectedSaleMonth', () => {
+  it('uses the sale date, then listing, then target completion, then the hold period', () => {
+    expect(getExpectedSaleMonth(fields({ sale_date: '2026-09-01', list_date: '2026-04-01' }), MARCH_15)).toBe('2026-09');
+    expect(getExpectedSaleMonth(fields({ list_date: '2026-04-01' }), MARCH_15)).toBe('2026-05');
+    expect(getExpectedSaleMonth(fields({ target_complete_date: '2026-04-01' }), MARCH_15)).toBe('2026-06');
+    expect(getExpectedSaleMonth(fields({ close_date: '2026-02-01', hold_months: 6 }), MARCH_15)).toBe('2026-08');
+  });
+
+  it('lands overdue sales this month', () => {
+    expect(getExpectedSaleMonth(fields({ list_date: '2025-11-01' }), MARCH_15)).toBe('2026-03');
+  });
+});
+
+describe('portfolioCashFlow', () => {
+  const portfolio = portfolioCashFlow([underContract, inRehab], MARCH_15);
+
+  it('adds the projects up month by month', () => {
+    expect(portfolio.months.slice(0, 6).map((row) => row.net)).toEqual([-2000, -226000, 97000, -11000, -1000, 275000]);
+    expect(portfolio.months[5].cumulative).toBe(132000);
+  });
+
+  it('peaks where the combined running total is lowest', () => {
+    expect(portfolio.peakCapital).toBe(228000);
+    expect(portfolio.peakMonth).toBe('2026-04');
+  });
+
+  it('reports no peak when cash never goes out', () => {
+    expect(portfolioCashFlow([], MARCH_15)).toMatchObject({ peakCapital: 0, peakMonth: null });
+  });
+
+  it('exports the portfolio and each project to CSV', () => {
+    const lines = buildCashFlowCsv(portfolio).trim().split('\r\n');
+
+    expect(lines).toHaveLength(1 + 12 * 3);
+    expect(lines[0]).toBe('Month,Project,Acquisition,Rehab,Holding,Interest,Sale Proceeds,Net,Cumulative');
+    expect(lines[2]).toBe('2026-04,Portfolio,-205000.00,-18000.00,-2000.00,-1000.00,0.00,-226000.00,-228000.00');
+    expect(lines[13]).toMatch(/^2026-03,Oak St,/);
+    expect(getCashFlowCsvFilename(portfolio)).toBe('cash-flow_2026-03.csv');
+  });
+
+  it('keeps project names a spreadsheet would read as a formula as text', () => {
+    const renamed = portfolioCashFlow([{ ...inRehab, name: '=HYPERLINK("x")' }], MARCH_15);
+    const lines = buildCashFlowCsv(renamed).trim().split('\r\n');
+
+    expect(lines[13]).toMatch(/^2026-03,"'=HYPERLINK\(""x""\)",/);
+    expect(lines[2]).toBe('2026-04,Portfolio,0.00,-8000.00,-1000.00,-1000.00,0.00,-10000.00,-12000.00');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for the realized P&L of a closed-out project and how it compares
+ * with the underwriting projection
+ */
+
+import {
+  buildCloseoutVariance,
+  calculateRealizedPnl,
+  getActualHoldDays,
+  getCloseoutDefaults,
+  getCloseoutProjection,
+  getLockedCloseout,
+  toCloseoutResults,
+  validateCloseoutInput,
+  type CloseoutFields,
+} from '@/lib/closeout';
+import type { DealAnalysis } from '@/lib/deal-analysis';
+import type { ProjectFinancing } from '@/lib/financing';
+import { DEFAULT_CALCULATION_SETTINGS, type ProjectCloseout } from '@/types';
+
+// Bought Jan 10 and settled Jun 9: 150 days
+const project = { close_date: '2026-01-10', hold_months: 5 };
+
+const fields: CloseoutFields = {
+  sale_date: '2026-06-09',
+  sale_price: 300000,
+  commissions: 15000,
+  seller_concessions: 3000,
+  title_transfer_fees: 2000,
+  loan_payoff: 125000,
+  purchase_price: 180000,
+  closing_costs: 4000,
+  rehab_cost: 40000,
+  holding_costs_paid: 6000,
+  financing_fees: 2400,
+  loan_principal: 120000,
+  notes: null,
+};
+
+const underwriting = {
+  arv: 310000,
+  sellingCosts: 24800,
+  purchasePrice: 180000,
+  closingCosts: 4000,
+  rehabWithContingency: 44000,
+  holdingCosts: 12000,
+  grossProfit: 45200,
+  roi: 18.9,
+} as DealAnalysis;
+
+describe('calculateRealizedPnl', () => {
+  const realized = calculateRealizedPnl(fields, project, DEFAULT_CALCULATION_SETTINGS);
+
+  it('nets selling costs from the sale and splits interest out of the payoff', () => {
+    expect(realized.sellingCosts).toBe(20000);
+    expect(realized.netProceeds).toBe(280000);
+    expect(realized.payoffInterest).toBe(5000);
+    expect(realized.holdingCosts).toBe(13400);
+    expect(realized.totalInvestment).toBe(237400);
+    expect(realized.profit).toBe(42600);
+  });
+
+  it('returns the cash left after the payoff and leaves principal out of cash invested', () => {
+    expect(realized.cashReturned).toBe(155000);
+    expect(realized.cashInvested).toBe(117400);
+  });
+
+  it("uses the project's ROI method over the actual hold", () => {
+    expect(realized.holdDays).toBe(150);
+    expect(realized.roi).toBeCloseTo((42600 / 237400) * 100, 6);
+
+    const cashOnCash = { ...DEFAULT_CALCULATION_SETTINGS, roi_method: 'cash_on_cash' as const };
+    expect(calculateRealizedPnl(fields, project, cashOnCash).roi).toBeCloseTo((42600 / 117400) * 100, 6);
+
+    const annualized = { ...DEFAULT_CALCULATION_SETTINGS, roi_method: 'annualized' as const };
+    expect(calculateRealizedPnl(fields, project, annualized).roi).toBeCloseTo((42600 / 237400) * 100 * (365 / 150), 6);
+  });
+
+  it('falls back to the projected hold without a close date', () => {
+    expect(getActualHoldDays('2026-06-09', null)).toBeNull();
+    expect(calculateRealizedPnl(fields, { close_date: null, hold_months: 5 }, DEFAULT_CALCULATION_SETTINGS).holdDays).toBe(152);
+  });
+});
+
+describe('buildCloseoutVariance', () => {
+  const projection = getCloseoutProjection(project, { underwriting });
+  const realized = calculateRealizedPnl(fields, project, DEFAULT_CALCULATION_SETTINGS);
+
+  it('judges the closeout against the underwriting', () => {
+    expect(projection).toEqual({
+      salePrice: 310000,
+      sellingCosts: 24800,
+      acquisitionCosts: 184000,
+      rehabCost: 44000,
+      holdingCosts: 12000,
+      profit: 45200,
+      roi: 18.9,
+      holdDays: 152,
+    });
+  });
+
+  it('marks lower income and higher costs as unfavorable', () => {
+    const lines = buildCloseoutVariance(realized, projection);
+    const byLabel = Object.fromEntries(lines.map((line) => [line.label, line]));
+
+    expect(lines.map((line) => line.label)).toEqual([
+      'Sale Price',
+      'Selling Costs',
+      'Purchase & Closing',
+      'Rehab',
+      'Holding & Financing',
+      'Profit',
+    ]);
+    expect(byLabel['Sale Price']).toMatchObject({ variance: -10000, favorable: false });
+    expect(byLabel['Selling Costs']).toMatchObject({ variance: -4800, favorable: true });
+    expect(byLabel['Rehab']).toMatchObject({ variance: -4000, favorable: true });
+    expect(byLabel['Holding & Financing']).toMatchObject({ variance: 1400, favorable: false });
+    expect(byLabel['Profit']).toMatchObject({ variance: -2600, favorable: false });
+  });
+
+  it('reads the same results back from a locked closeout', () => {
+    const closeout = {
+      ...fields,
+      ...toCloseoutResults(realized, projection),
+      locked_at: '2026-06-12T15:00:00Z',
+    } as ProjectCloseout;
+    const locked = getLockedCloseout(closeout)!;
+
+    expect(locked.projection).toEqual(projection);
+    expect(locked.realized).toEqual(realized);
+    expect(getLockedCloseout({ ...closeout, locked_at: null })).toBeNull();
+  });
+});
+
+describe('getCloseoutDefaults', () => {
+  it('starts the cost basis from the project, actual rehab spend and loans', () => {
+    const financing = {
+      pointsAndFees: 2400,
+      loans: [
+        { loan: { purchase_amount: 100000 }, drawnHoldback: 20000 },
+        { loan: { purchase_amount: 15000 }, drawnHoldback: 0 },
+      ],
+    } as ProjectFinancing;
+    const defaults = getCloseoutDefaults(
+      { purchase_price: 180000, closing_costs: 4000, sale_date: null },
+      { actualTotal: 38500, financing },
+      new Date(2026, 5, 9)
+    );
+
+    expect(defaults).toMatchObject({
+      sale_date: '2026-06-09',
+      sale_price: 0,
+      purchase_price: 180000,
+      closing_costs: 4000,
+      rehab_cost: 38500,
+      financing_fees: 2400,
+      loan_principal: 135000,
+    });
+  });
+});
+
+describe('validateCloseoutInput', () => {
+  it('accepts a complete settlement', () => {
+    expect(validateCloseoutInput(fields, project.close_date)).toBeNull();
+  });
+
+  it('rejects a missing sale, an early settlement, negatives and a short payoff', () => {
+    expect(validateCloseoutInput({ ...fields, sale_price: 0 }, null)).toBe('Enter the sale price');
+    expect(validateCloseoutInput({ ...fields, sale_date: '2026-01-01' }, project.close_date)).toMatch(/before/);
+    expect(validateCloseoutInput({ ...fields, commissions: -1 }, null)).toMatch(/negative/);
+    expect(validateCloseoutInput({ ...fields, loan_payoff: 100000 }, null)).toMatch(/principal/);
+  });
+});
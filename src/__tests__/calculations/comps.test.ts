@@ -0,0 +1,218 @@
+/**
+ * Tests for comparable sales: adjustments to the subject, the indicated ARV
+ * and its range, and reading comps from an MLS CSV export
+ */
+
+import {
+  getCompAdjustments,
+  guessCompColumnMapping,
+  parseCompCondition,
+  parseCompDate,
+  parseCompNumber,
+  parseCompRows,
+  parseCsv,
+  validateCompInput,
+  valueFromComps,
+  type CompAdjustments,
+} from '@/lib/comps';
+import type { ProjectComp } from '@/types';
+
+const subject = { sqft: 1500, beds: 3, baths: 2 };
+
+const adjustments: CompAdjustments = { sqftRate: 100, bedRate: 5000, bathRate: 7500, conditionPercent: 5 };
+
+const makeComp = (overrides: Partial<ProjectComp> = {}): ProjectComp => ({
+  id: 'comp-1',
+  project_id: 'project-1',
+  address: '1 Oak St',
+  sale_date: '2026-01-15',
+  sale_price: 300000,
+  sqft: 1500,
+  beds: 3,
+  baths: 2,
+  distance_miles: 0.4,
+  condition: 'renovated',
+  is_selected: true,
+  notes: null,
+  created_at: '2026-01-20T00:00:00Z',
+  updated_at: '2026-01-20T00:00:00Z',
+  ...overrides,
+});
+
+describe('valueFromComps', () => {
+  it('leaves a matching renovated comp unadjusted', () => {
+    const valuation = valueFromComps(subject, [makeComp()], adjustments)!;
+
+    expect(valuation.comps[0].adjustedPrice).toBe(300000);
+    expect(valuation.perSqft).toBe(200);
+    expect(valuation.arv).toBe(300000);
+    expect(valuation.low).toBe(300000);
+    expect(valuation.high).toBe(300000);
+  });
+
+  it('adjusts for size, beds, baths and condition', () => {
+    const comp = makeComp({ sqft: 1400, beds: 2, baths: 1.5, condition: 'dated', sale_price: 250000 });
+    const [adjusted] = valueFromComps(subject, [comp], adjustments)!.comps;
+
+    expect(adjusted.sqftAdjustment).toBe(10000);
+    expect(adjusted.bedAdjustment).toBe(5000);
+    expect(adjusted.bathAdjustment).toBe(3750);
+    // Dated is three steps below renovated
+    expect(adjusted.conditionAdjustment).toBeCloseTo(250000 * 0.05 * 3, 6);
+    expect(adjusted.adjustedPrice).toBeCloseTo(306250, 6);
+    expect(adjusted.pricePerSqft).toBeCloseTo(250000 / 1400, 6);
+  });
+
+  it('skips bed and bath adjustments when either side is unknown', () => {
+    const [adjusted] = valueFromComps({ ...subject, beds: null }, [makeComp({ baths: null, beds: 4 })], adjustments)!
+      .comps;
+    expect(adjusted.bedAdjustment).toBe(0);
+    expect(adjusted.bathAdjustment).toBe(0);
+  });
+
+  it('defaults the size rate to half the median $/sqft', () => {
+    const comps = [
+      makeComp({ id: 'a', sale_price: 280000, sqft: 1400 }),
+      makeComp({ id: 'b', sale_price: 330000, sqft: 1500 }),
+      makeComp({ id: 'c', sale_price: 400000, sqft: 1600 }),
+    ];
+    const valuation = valueFromComps(subject, comps, { ...adjustments, sqftRate: null })!;
+
+    expect(valuation.sqftRate).toBe(110);
+    expect(valuation.comps[0].sqftAdjustment).toBe(11000);
+  });
+
+  it('takes the mean adjusted $/sqft with a one standard deviation range', () => {
+    const comps = [
+      makeComp({ id: 'a', sale_price: 285000 }),
+      makeComp({ id: 'b', sale_price: 300000 }),
+      makeComp({ id: 'c', sale_price: 315000 }),
+    ];
+    const valuation = valueFromComps(subject, comps, adjustments)!;
+
+    expect(valuation.perSqft).toBeCloseTo(200, 6);
+    expect(valuation.arv).toBe(300000);
+    expect(valuation.low).toBe(285000);
+    expect(valuation.high).toBe(315000);
+    expect(valuation.spread).toBeCloseTo(0.05, 6);
+    expect(valuation.confidence).toBe('high');
+  });
+
+  it('grades confidence by spread and comp count', () => {
+    const spread = (prices: number[]) =>
+      valueFromComps(
+        subject,
+        prices.map((price, i) => makeComp({ id: String(i), sale_price: price })),
+        adjustments
+      )!.confidence;
+
+    expect(spread([270000, 300000, 330000])).toBe('medium');
+    expect(spread([240000, 300000, 360000])).toBe('low');
+    // Two tight comps still aren't enough
+    expect(spread([300000, 301000])).toBe('low');
+  });
+
+  it('ignores unselected comps and coerces NUMERIC strings', () => {
+    const comps = [
+      makeComp({ id: 'a', sale_price: '300000' as unknown as number, baths: '2.0' as unknown as number }),
+      makeComp({ id: 'b', sale_price: 500000, is_selected: false }),
+    ];
+    const valuation = valueFromComps(subject, comps, adjustments)!;
+
+    expect(valuation.comps).toHaveLength(1);
+    expect(valuation.comps[0].bathAdjustment).toBe(0);
+    expect(valuation.arv).toBe(300000);
+  });
+
+  it('returns null without subject sqft or selected comps', () => {
+    expect(valueFromComps({ ...subject, sqft: null }, [makeComp()], adjustments)).toBeNull();
+    expect(valueFromComps(subject, [makeComp({ is_selected: false })], adjustments)).toBeNull();
+  });
+});
+
+describe('getCompAdjustments', () => {
+  it('reads the project rates and keeps a blank size rate', () => {
+    expect(
+      getCompAdjustments({
+        comp_sqft_adjustment: null,
+        comp_bed_adjustment: '5000' as unknown as number,
+        comp_bath_adjustment: 7500,
+        comp_condition_adjustment: 5,
+      })
+    ).toEqual({ sqftRate: null, bedRate: 5000, bathRate: 7500, conditionPercent: 5 });
+  });
+});
+
+describe('validateCompInput', () => {
+  it('requires an address, price and sqft', () => {
+    const base = makeComp();
+    expect(validateCompInput(base)).toBeNull();
+    expect(validateCompInput({ ...base, address: ' ' })).toBe('Enter the address');
+    expect(validateCompInput({ ...base, sale_price: 0 })).toBe('Enter the sale price');
+    expect(validateCompInput({ ...base, sqft: 0 })).toBe('Enter the square footage');
+    expect(validateCompInput({ ...base, beds: -1 })).toMatch(/negative/);
+  });
+});
+
+describe('CSV import', () => {
+  it('splits quoted cells, doubled quotes and CRLF line endings', () => {
+    expect(parseCsv('Address,Price\r\n"12 Elm St, Unit 2","$310,000"\r\n\r\n"The ""Oak"" House",1\n')).toEqual([
+      ['Address', 'Price'],
+      ['12 Elm St, Unit 2', '$310,000'],
+      ['The "Oak" House', '1'],
+    ]);
+  });
+
+  it('guesses columns from common MLS headers', () => {
+    expect(
+      guessCompColumnMapping(['MLS #', 'Full Address', 'Close Date', 'Close Price', 'Living Area', 'Beds', 'Total Baths', 'Distance'])
+    ).toEqual({ address: 1, sale_date: 2, sale_price: 3, sqft: 4, beds: 5, baths: 6, distance_miles: 7 });
+  });
+
+  it('reads numbers, dates and conditions from export text', () => {
+    expect(parseCompNumber('$310,500')).toBe(310500);
+    expect(parseCompNumber('0.6 mi')).toBe(0.6);
+    expect(parseCompNumber('')).toBeNull();
+    expect(parseCompDate('2026-03-04T00:00:00')).toBe('2026-03-04');
+    expect(parseCompDate('3/4/26')).toBe('2026-03-04');
+    expect(parseCompDate('13/4/2026')).toBeNull();
+    expect(parseCompCondition('Updated')).toBe('updated');
+    expect(parseCompCondition('Fully remodeled')).toBe('renovated');
+    expect(parseCompCondition('Sold as-is')).toBe('distressed');
+    expect(parseCompCondition('')).toBe('average');
+  });
+
+  it('matches condition keywords at the start of a word', () => {
+    expect(parseCompCondition('Fully updated')).toBe('updated');
+    expect(parseCompCondition('Updated kitchen')).toBe('updated');
+    expect(parseCompCondition('Dated, original baths')).toBe('dated');
+    expect(parseCompCondition('Renewed roof')).toBe('average');
+    expect(parseCompCondition('New construction')).toBe('renovated');
+  });
+
+  it('turns rows into comps and flags the ones that cannot import', () => {
+    const rows = parseCsv(
+      ['Address,Sold Price,SqFt,Beds,Baths,Sold Date', '1 Oak St,"$300,000",1500,3,2,01/15/2026', '2 Elm St,,1400,3,2,'].join('\n')
+    );
+    const [first, second] = parseCompRows(rows, guessCompColumnMapping(rows[0]));
+
+    expect(first).toEqual({
+      rowNumber: 2,
+      fields: {
+        address: '1 Oak St',
+        sale_date: '2026-01-15',
+        sale_price: 300000,
+        sqft: 1500,
+        beds: 3,
+        baths: 2,
+        distance_miles: null,
+        condition: 'average',
+        is_selected: true,
+        notes: null,
+      },
+      error: null,
+    });
+    expect(second.rowNumber).toBe(3);
+    expect(second.error).toBe('Enter the sale price');
+  });
+});
@@ -0,0 +1,593 @@
+/**
+ * Golden tests for the deal analysis engine
+ *
+ * Pins the engine's output for every mao/roi/contingency/holding method
+ * combination. The project_summary view (analyze_deal() in SQL) must produce
+ * the same numbers, so a change here needs a matching migration.
+ */
+
+import {
+  analyzeDeal,
+  analyzeProject,
+  buildProjectSummary,
+  calculateBreakEvenArv,
+  calculateMaxPurchasePrice,
+  type DealAnalysisInputs,
+} from '@/lib/deal-analysis';
+import {
+  DEFAULT_CALCULATION_SETTINGS,
+  MAO_METHOD_LABELS,
+  ROI_METHOD_LABELS,
+  CONTINGENCY_METHOD_LABELS,
+  HOLDING_COST_METHOD_LABELS,
+  type BudgetItem,
+  type CalculationSettingsInput,
+  type ContingencyMethod,
+  type HoldingCostMethod,
+  type MaoMethod,
+  type Project,
+  type RoiMethod,
+} from '@/types';
+
+const DEAL: DealAnalysisInputs = {
+  arv: 350000,
+  purchasePrice: 200000,
+  rehabBudget: 50000,
+  closingCosts: 5000,
+  holdMonths: 5,
+  categoryBudgets: {
+    kitchen: 15000,
+    bathrooms: 10000,
+    flooring: 8000,
+    interior_paint: 5000,
+    plumbing: 4000,
+    electrical: 4000,
+    exterior: 4000,
+  },
+};
+
+// Flat monthly differs from the itemized total (1,500/mo) so the methods are distinguishable
+const SETTINGS: CalculationSettingsInput = {
+  ...DEFAULT_CALCULATION_SETTINGS,
+  holding_cost_default_monthly: 1200,
+};
+
+// [contingency, holdingCosts, totalInvestment, grossProfit, roi, mao]
+type Golden = [number, number, number, number, number, number];
+
+const GOLDEN: Record<string, Golden> = {
+  'seventy_rule/simple/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 151000.00],
+  'seventy_rule/simple/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 147000.00],
+  'seventy_rule/simple/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 149500.00],
+  'seventy_rule/simple/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 143500.00],
+  'seventy_rule/simple/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 20.97, 150820.00],
+  'seventy_rule/simple/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 19.18, 146820.00],
+  'seventy_rule/simple/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 20.29, 149320.00],
+  'seventy_rule/simple/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 17.66, 143320.00],
+  'seventy_rule/simple/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 20.60, 150000.00],
+  'seventy_rule/simple/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 18.82, 146000.00],
+  'seventy_rule/simple/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 19.93, 148500.00],
+  'seventy_rule/simple/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 17.30, 142500.00],
+  'seventy_rule/simple/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 151000.00],
+  'seventy_rule/simple/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 147000.00],
+  'seventy_rule/simple/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 149500.00],
+  'seventy_rule/simple/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 143500.00],
+  'seventy_rule/cash_on_cash/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 151000.00],
+  'seventy_rule/cash_on_cash/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 147000.00],
+  'seventy_rule/cash_on_cash/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 149500.00],
+  'seventy_rule/cash_on_cash/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 143500.00],
+  'seventy_rule/cash_on_cash/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 20.97, 150820.00],
+  'seventy_rule/cash_on_cash/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 19.18, 146820.00],
+  'seventy_rule/cash_on_cash/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 20.29, 149320.00],
+  'seventy_rule/cash_on_cash/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 17.66, 143320.00],
+  'seventy_rule/cash_on_cash/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 20.60, 150000.00],
+  'seventy_rule/cash_on_cash/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 18.82, 146000.00],
+  'seventy_rule/cash_on_cash/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 19.93, 148500.00],
+  'seventy_rule/cash_on_cash/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 17.30, 142500.00],
+  'seventy_rule/cash_on_cash/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 151000.00],
+  'seventy_rule/cash_on_cash/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 147000.00],
+  'seventy_rule/cash_on_cash/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 149500.00],
+  'seventy_rule/cash_on_cash/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 143500.00],
+  'seventy_rule/annualized/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 50.53, 151000.00],
+  'seventy_rule/annualized/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 46.22, 147000.00],
+  'seventy_rule/annualized/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 48.90, 149500.00],
+  'seventy_rule/annualized/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 42.56, 143500.00],
+  'seventy_rule/annualized/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 50.33, 150820.00],
+  'seventy_rule/annualized/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 46.03, 146820.00],
+  'seventy_rule/annualized/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 48.70, 149320.00],
+  'seventy_rule/annualized/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 42.37, 143320.00],
+  'seventy_rule/annualized/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 49.44, 150000.00],
+  'seventy_rule/annualized/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 45.17, 146000.00],
+  'seventy_rule/annualized/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 47.82, 148500.00],
+  'seventy_rule/annualized/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 41.53, 142500.00],
+  'seventy_rule/annualized/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 50.53, 151000.00],
+  'seventy_rule/annualized/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 46.22, 147000.00],
+  'seventy_rule/annualized/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 48.90, 149500.00],
+  'seventy_rule/annualized/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 42.56, 143500.00],
+  'seventy_rule/irr_simplified/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 58.18, 151000.00],
+  'seventy_rule/irr_simplified/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 52.61, 147000.00],
+  'seventy_rule/irr_simplified/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 56.05, 149500.00],
+  'seventy_rule/irr_simplified/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 47.96, 143500.00],
+  'seventy_rule/irr_simplified/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 57.92, 150820.00],
+  'seventy_rule/irr_simplified/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 52.37, 146820.00],
+  'seventy_rule/irr_simplified/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 55.80, 149320.00],
+  'seventy_rule/irr_simplified/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 47.73, 143320.00],
+  'seventy_rule/irr_simplified/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 56.76, 150000.00],
+  'seventy_rule/irr_simplified/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 51.26, 146000.00],
+  'seventy_rule/irr_simplified/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 54.66, 148500.00],
+  'seventy_rule/irr_simplified/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 46.67, 142500.00],
+  'seventy_rule/irr_simplified/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 58.18, 151000.00],
+  'seventy_rule/irr_simplified/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 52.61, 147000.00],
+  'seventy_rule/irr_simplified/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 56.05, 149500.00],
+  'seventy_rule/irr_simplified/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 47.96, 143500.00],
+  'custom_percentage/simple/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 151000.00],
+  'custom_percentage/simple/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 147000.00],
+  'custom_percentage/simple/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 149500.00],
+  'custom_percentage/simple/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 143500.00],
+  'custom_percentage/simple/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 20.97, 150820.00],
+  'custom_percentage/simple/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 19.18, 146820.00],
+  'custom_percentage/simple/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 20.29, 149320.00],
+  'custom_percentage/simple/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 17.66, 143320.00],
+  'custom_percentage/simple/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 20.60, 150000.00],
+  'custom_percentage/simple/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 18.82, 146000.00],
+  'custom_percentage/simple/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 19.93, 148500.00],
+  'custom_percentage/simple/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 17.30, 142500.00],
+  'custom_percentage/simple/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 151000.00],
+  'custom_percentage/simple/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 147000.00],
+  'custom_percentage/simple/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 149500.00],
+  'custom_percentage/simple/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 143500.00],
+  'custom_percentage/cash_on_cash/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 151000.00],
+  'custom_percentage/cash_on_cash/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 147000.00],
+  'custom_percentage/cash_on_cash/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 149500.00],
+  'custom_percentage/cash_on_cash/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 143500.00],
+  'custom_percentage/cash_on_cash/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 20.97, 150820.00],
+  'custom_percentage/cash_on_cash/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 19.18, 146820.00],
+  'custom_percentage/cash_on_cash/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 20.29, 149320.00],
+  'custom_percentage/cash_on_cash/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 17.66, 143320.00],
+  'custom_percentage/cash_on_cash/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 20.60, 150000.00],
+  'custom_percentage/cash_on_cash/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 18.82, 146000.00],
+  'custom_percentage/cash_on_cash/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 19.93, 148500.00],
+  'custom_percentage/cash_on_cash/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 17.30, 142500.00],
+  'custom_percentage/cash_on_cash/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 151000.00],
+  'custom_percentage/cash_on_cash/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 147000.00],
+  'custom_percentage/cash_on_cash/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 149500.00],
+  'custom_percentage/cash_on_cash/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 143500.00],
+  'custom_percentage/annualized/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 50.53, 151000.00],
+  'custom_percentage/annualized/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 46.22, 147000.00],
+  'custom_percentage/annualized/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 48.90, 149500.00],
+  'custom_percentage/annualized/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 42.56, 143500.00],
+  'custom_percentage/annualized/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 50.33, 150820.00],
+  'custom_percentage/annualized/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 46.03, 146820.00],
+  'custom_percentage/annualized/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 48.70, 149320.00],
+  'custom_percentage/annualized/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 42.37, 143320.00],
+  'custom_percentage/annualized/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 49.44, 150000.00],
+  'custom_percentage/annualized/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 45.17, 146000.00],
+  'custom_percentage/annualized/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 47.82, 148500.00],
+  'custom_percentage/annualized/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 41.53, 142500.00],
+  'custom_percentage/annualized/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 50.53, 151000.00],
+  'custom_percentage/annualized/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 46.22, 147000.00],
+  'custom_percentage/annualized/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 48.90, 149500.00],
+  'custom_percentage/annualized/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 42.56, 143500.00],
+  'custom_percentage/irr_simplified/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 58.18, 151000.00],
+  'custom_percentage/irr_simplified/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 52.61, 147000.00],
+  'custom_percentage/irr_simplified/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 56.05, 149500.00],
+  'custom_percentage/irr_simplified/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 47.96, 143500.00],
+  'custom_percentage/irr_simplified/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 57.92, 150820.00],
+  'custom_percentage/irr_simplified/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 52.37, 146820.00],
+  'custom_percentage/irr_simplified/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 55.80, 149320.00],
+  'custom_percentage/irr_simplified/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 47.73, 143320.00],
+  'custom_percentage/irr_simplified/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 56.76, 150000.00],
+  'custom_percentage/irr_simplified/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 51.26, 146000.00],
+  'custom_percentage/irr_simplified/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 54.66, 148500.00],
+  'custom_percentage/irr_simplified/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 46.67, 142500.00],
+  'custom_percentage/irr_simplified/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 58.18, 151000.00],
+  'custom_percentage/irr_simplified/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 52.61, 147000.00],
+  'custom_percentage/irr_simplified/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 56.05, 149500.00],
+  'custom_percentage/irr_simplified/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 47.96, 143500.00],
+  'arv_minus_all/simple/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 226000.00],
+  'arv_minus_all/simple/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 222000.00],
+  'arv_minus_all/simple/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 224500.00],
+  'arv_minus_all/simple/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 218500.00],
+  'arv_minus_all/simple/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 20.97, 225820.00],
+  'arv_minus_all/simple/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 19.18, 221820.00],
+  'arv_minus_all/simple/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 20.29, 224320.00],
+  'arv_minus_all/simple/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 17.66, 218320.00],
+  'arv_minus_all/simple/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 20.60, 225000.00],
+  'arv_minus_all/simple/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 18.82, 221000.00],
+  'arv_minus_all/simple/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 19.93, 223500.00],
+  'arv_minus_all/simple/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 17.30, 217500.00],
+  'arv_minus_all/simple/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 226000.00],
+  'arv_minus_all/simple/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 222000.00],
+  'arv_minus_all/simple/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 224500.00],
+  'arv_minus_all/simple/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 218500.00],
+  'arv_minus_all/cash_on_cash/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 226000.00],
+  'arv_minus_all/cash_on_cash/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 222000.00],
+  'arv_minus_all/cash_on_cash/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 224500.00],
+  'arv_minus_all/cash_on_cash/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 218500.00],
+  'arv_minus_all/cash_on_cash/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 20.97, 225820.00],
+  'arv_minus_all/cash_on_cash/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 19.18, 221820.00],
+  'arv_minus_all/cash_on_cash/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 20.29, 224320.00],
+  'arv_minus_all/cash_on_cash/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 17.66, 218320.00],
+  'arv_minus_all/cash_on_cash/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 20.60, 225000.00],
+  'arv_minus_all/cash_on_cash/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 18.82, 221000.00],
+  'arv_minus_all/cash_on_cash/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 19.93, 223500.00],
+  'arv_minus_all/cash_on_cash/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 17.30, 217500.00],
+  'arv_minus_all/cash_on_cash/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 226000.00],
+  'arv_minus_all/cash_on_cash/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 222000.00],
+  'arv_minus_all/cash_on_cash/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 224500.00],
+  'arv_minus_all/cash_on_cash/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 218500.00],
+  'arv_minus_all/annualized/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 50.53, 226000.00],
+  'arv_minus_all/annualized/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 46.22, 222000.00],
+  'arv_minus_all/annualized/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 48.90, 224500.00],
+  'arv_minus_all/annualized/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 42.56, 218500.00],
+  'arv_minus_all/annualized/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 50.33, 225820.00],
+  'arv_minus_all/annualized/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 46.03, 221820.00],
+  'arv_minus_all/annualized/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 48.70, 224320.00],
+  'arv_minus_all/annualized/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 42.37, 218320.00],
+  'arv_minus_all/annualized/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 49.44, 225000.00],
+  'arv_minus_all/annualized/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 45.17, 221000.00],
+  'arv_minus_all/annualized/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 47.82, 223500.00],
+  'arv_minus_all/annualized/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 41.53, 217500.00],
+  'arv_minus_all/annualized/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 50.53, 226000.00],
+  'arv_minus_all/annualized/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 46.22, 222000.00],
+  'arv_minus_all/annualized/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 48.90, 224500.00],
+  'arv_minus_all/annualized/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 42.56, 218500.00],
+  'arv_minus_all/irr_simplified/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 58.18, 226000.00],
+  'arv_minus_all/irr_simplified/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 52.61, 222000.00],
+  'arv_minus_all/irr_simplified/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 56.05, 224500.00],
+  'arv_minus_all/irr_simplified/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 47.96, 218500.00],
+  'arv_minus_all/irr_simplified/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 57.92, 225820.00],
+  'arv_minus_all/irr_simplified/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 52.37, 221820.00],
+  'arv_minus_all/irr_simplified/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 55.80, 224320.00],
+  'arv_minus_all/irr_simplified/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 47.73, 218320.00],
+  'arv_minus_all/irr_simplified/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 56.76, 225000.00],
+  'arv_minus_all/irr_simplified/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 51.26, 221000.00],
+  'arv_minus_all/irr_simplified/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 54.66, 223500.00],
+  'arv_minus_all/irr_simplified/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 46.67, 217500.00],
+  'arv_minus_all/irr_simplified/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 58.18, 226000.00],
+  'arv_minus_all/irr_simplified/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 52.61, 222000.00],
+  'arv_minus_all/irr_simplified/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 56.05, 224500.00],
+  'arv_minus_all/irr_simplified/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 47.96, 218500.00],
+  'gross_margin/simple/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 203500.00],
+  'gross_margin/simple/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 199500.00],
+  'gross_margin/simple/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 202000.00],
+  'gross_margin/simple/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 196000.00],
+  'gross_margin/simple/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 20.97, 203320.00],
+  'gross_margin/simple/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 19.18, 199320.00],
+  'gross_margin/simple/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 20.29, 201820.00],
+  'gross_margin/simple/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 17.66, 195820.00],
+  'gross_margin/simple/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 20.60, 202500.00],
+  'gross_margin/simple/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 18.82, 198500.00],
+  'gross_margin/simple/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 19.93, 201000.00],
+  'gross_margin/simple/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 17.30, 195000.00],
+  'gross_margin/simple/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 203500.00],
+  'gross_margin/simple/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 199500.00],
+  'gross_margin/simple/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 202000.00],
+  'gross_margin/simple/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 196000.00],
+  'gross_margin/cash_on_cash/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 203500.00],
+  'gross_margin/cash_on_cash/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 199500.00],
+  'gross_margin/cash_on_cash/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 202000.00],
+  'gross_margin/cash_on_cash/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 196000.00],
+  'gross_margin/cash_on_cash/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 20.97, 203320.00],
+  'gross_margin/cash_on_cash/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 19.18, 199320.00],
+  'gross_margin/cash_on_cash/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 20.29, 201820.00],
+  'gross_margin/cash_on_cash/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 17.66, 195820.00],
+  'gross_margin/cash_on_cash/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 20.60, 202500.00],
+  'gross_margin/cash_on_cash/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 18.82, 198500.00],
+  'gross_margin/cash_on_cash/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 19.93, 201000.00],
+  'gross_margin/cash_on_cash/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 17.30, 195000.00],
+  'gross_margin/cash_on_cash/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 203500.00],
+  'gross_margin/cash_on_cash/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 199500.00],
+  'gross_margin/cash_on_cash/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 202000.00],
+  'gross_margin/cash_on_cash/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 196000.00],
+  'gross_margin/annualized/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 50.53, 203500.00],
+  'gross_margin/annualized/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 46.22, 199500.00],
+  'gross_margin/annualized/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 48.90, 202000.00],
+  'gross_margin/annualized/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 42.56, 196000.00],
+  'gross_margin/annualized/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 50.33, 203320.00],
+  'gross_margin/annualized/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 46.03, 199320.00],
+  'gross_margin/annualized/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 48.70, 201820.00],
+  'gross_margin/annualized/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 42.37, 195820.00],
+  'gross_margin/annualized/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 49.44, 202500.00],
+  'gross_margin/annualized/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 45.17, 198500.00],
+  'gross_margin/annualized/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 47.82, 201000.00],
+  'gross_margin/annualized/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 41.53, 195000.00],
+  'gross_margin/annualized/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 50.53, 203500.00],
+  'gross_margin/annualized/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 46.22, 199500.00],
+  'gross_margin/annualized/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 48.90, 202000.00],
+  'gross_margin/annualized/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 42.56, 196000.00],
+  'gross_margin/irr_simplified/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 58.18, 203500.00],
+  'gross_margin/irr_simplified/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 52.61, 199500.00],
+  'gross_margin/irr_simplified/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 56.05, 202000.00],
+  'gross_margin/irr_simplified/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 47.96, 196000.00],
+  'gross_margin/irr_simplified/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 57.92, 203320.00],
+  'gross_margin/irr_simplified/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 52.37, 199320.00],
+  'gross_margin/irr_simplified/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 55.80, 201820.00],
+  'gross_margin/irr_simplified/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 47.73, 195820.00],
+  'gross_margin/irr_simplified/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 56.76, 202500.00],
+  'gross_margin/irr_simplified/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 51.26, 198500.00],
+  'gross_margin/irr_simplified/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 54.66, 201000.00],
+  'gross_margin/irr_simplified/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 46.67, 195000.00],
+  'gross_margin/irr_simplified/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 58.18, 203500.00],
+  'gross_margin/irr_simplified/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 52.61, 199500.00],
+  'gross_margin/irr_simplified/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 56.05, 202000.00],
+  'gross_margin/irr_simplified/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 47.96, 196000.00],
+  'net_profit_target/simple/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 226000.00],
+  'net_profit_target/simple/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 222000.00],
+  'net_profit_target/simple/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 224500.00],
+  'net_profit_target/simple/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 218500.00],
+  'net_profit_target/simple/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 20.97, 225820.00],
+  'net_profit_target/simple/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 19.18, 221820.00],
+  'net_profit_target/simple/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 20.29, 224320.00],
+  'net_profit_target/simple/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 17.66, 218320.00],
+  'net_profit_target/simple/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 20.60, 225000.00],
+  'net_profit_target/simple/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 18.82, 221000.00],
+  'net_profit_target/simple/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 19.93, 223500.00],
+  'net_profit_target/simple/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 17.30, 217500.00],
+  'net_profit_target/simple/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 226000.00],
+  'net_profit_target/simple/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 222000.00],
+  'net_profit_target/simple/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 224500.00],
+  'net_profit_target/simple/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 218500.00],
+  'net_profit_target/cash_on_cash/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 226000.00],
+  'net_profit_target/cash_on_cash/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 222000.00],
+  'net_profit_target/cash_on_cash/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 224500.00],
+  'net_profit_target/cash_on_cash/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 218500.00],
+  'net_profit_target/cash_on_cash/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 20.97, 225820.00],
+  'net_profit_target/cash_on_cash/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 19.18, 221820.00],
+  'net_profit_target/cash_on_cash/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 20.29, 224320.00],
+  'net_profit_target/cash_on_cash/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 17.66, 218320.00],
+  'net_profit_target/cash_on_cash/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 20.60, 225000.00],
+  'net_profit_target/cash_on_cash/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 18.82, 221000.00],
+  'net_profit_target/cash_on_cash/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 19.93, 223500.00],
+  'net_profit_target/cash_on_cash/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 17.30, 217500.00],
+  'net_profit_target/cash_on_cash/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 21.05, 226000.00],
+  'net_profit_target/cash_on_cash/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 19.26, 222000.00],
+  'net_profit_target/cash_on_cash/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 20.37, 224500.00],
+  'net_profit_target/cash_on_cash/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 17.73, 218500.00],
+  'net_profit_target/annualized/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 50.53, 226000.00],
+  'net_profit_target/annualized/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 46.22, 222000.00],
+  'net_profit_target/annualized/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 48.90, 224500.00],
+  'net_profit_target/annualized/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 42.56, 218500.00],
+  'net_profit_target/annualized/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 50.33, 225820.00],
+  'net_profit_target/annualized/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 46.03, 221820.00],
+  'net_profit_target/annualized/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 48.70, 224320.00],
+  'net_profit_target/annualized/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 42.37, 218320.00],
+  'net_profit_target/annualized/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 49.44, 225000.00],
+  'net_profit_target/annualized/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 45.17, 221000.00],
+  'net_profit_target/annualized/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 47.82, 223500.00],
+  'net_profit_target/annualized/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 41.53, 217500.00],
+  'net_profit_target/annualized/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 50.53, 226000.00],
+  'net_profit_target/annualized/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 46.22, 222000.00],
+  'net_profit_target/annualized/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 48.90, 224500.00],
+  'net_profit_target/annualized/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 42.56, 218500.00],
+  'net_profit_target/irr_simplified/flat_percent/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 58.18, 226000.00],
+  'net_profit_target/irr_simplified/flat_percent/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 52.61, 222000.00],
+  'net_profit_target/irr_simplified/flat_percent/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 56.05, 224500.00],
+  'net_profit_target/irr_simplified/flat_percent/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 47.96, 218500.00],
+  'net_profit_target/irr_simplified/category_weighted/flat_monthly': [5180.00, 6000.00, 266180.00, 55820.00, 57.92, 225820.00],
+  'net_profit_target/irr_simplified/category_weighted/percentage_of_loan': [5180.00, 10000.00, 270180.00, 51820.00, 52.37, 221820.00],
+  'net_profit_target/irr_simplified/category_weighted/itemized': [5180.00, 7500.00, 267680.00, 54320.00, 55.80, 224320.00],
+  'net_profit_target/irr_simplified/category_weighted/hybrid': [5180.00, 13500.00, 273680.00, 48320.00, 47.73, 218320.00],
+  'net_profit_target/irr_simplified/tiered/flat_monthly': [6000.00, 6000.00, 267000.00, 55000.00, 56.76, 225000.00],
+  'net_profit_target/irr_simplified/tiered/percentage_of_loan': [6000.00, 10000.00, 271000.00, 51000.00, 51.26, 221000.00],
+  'net_profit_target/irr_simplified/tiered/itemized': [6000.00, 7500.00, 268500.00, 53500.00, 54.66, 223500.00],
+  'net_profit_target/irr_simplified/tiered/hybrid': [6000.00, 13500.00, 274500.00, 47500.00, 46.67, 217500.00],
+  'net_profit_target/irr_simplified/scope_based/flat_monthly': [5000.00, 6000.00, 266000.00, 56000.00, 58.18, 226000.00],
+  'net_profit_target/irr_simplified/scope_based/percentage_of_loan': [5000.00, 10000.00, 270000.00, 52000.00, 52.61, 222000.00],
+  'net_profit_target/irr_simplified/scope_based/itemized': [5000.00, 7500.00, 267500.00, 54500.00, 56.05, 224500.00],
+  'net_profit_target/irr_simplified/scope_based/hybrid': [5000.00, 13500.00, 273500.00, 48500.00, 47.96, 218500.00],
+};
+
+const MAO_METHODS = Object.keys(MAO_METHOD_LABELS) as MaoMethod[];
+const ROI_METHODS = Object.keys(ROI_METHOD_LABELS) as RoiMethod[];
+const CONTINGENCY_METHODS = Object.keys(CONTINGENCY_METHOD_LABELS) as ContingencyMethod[];
+const HOLDING_METHODS = Object.keys(HOLDING_COST_METHOD_LABELS) as HoldingCostMethod[];
+
+const COMBINATIONS = MAO_METHODS.flatMap((mao) =>
+  ROI_METHODS.flatMap((roi) =>
+    CONTINGENCY_METHODS.flatMap((contingency) =>
+      HOLDING_METHODS.map((holding) => [mao, roi, contingency, holding] as const)
+    )
+  )
+);
+
+describe('analyzeDeal golden outputs', () => {
+  it('covers every method combination', () => {
+    expect(COMBINATIONS).toHaveLength(5 * 4 * 4 * 4);
+    expect(Object.keys(GOLDEN).sort()).toEqual(COMBINATIONS.map((c) => c.join('/')).sort());
+  });
+
+  it.each(COMBINATIONS)('%s / %s / %s / %s', (mao, roi, contingency, holding) => {
+    const result = analyzeDeal(DEAL, {
+      ...SETTINGS,
+      mao_method: mao,
+      roi_method: roi,
+      contingency_method: contingency,
+      holding_cost_method: holding,
+    });
+    const [expContingency, expHolding, expInvestment, expProfit, expRoi, expMao] =
+      GOLDEN[`${mao}/${roi}/${contingency}/${holding}`];
+
+    expect(result.contingency).toBeCloseTo(expContingency, 2);
+    expect(result.holdingCosts).toBeCloseTo(expHolding, 2);
+    expect(result.totalInvestment).toBeCloseTo(expInvestment, 2);
+    expect(result.grossProfit).toBeCloseTo(expProfit, 2);
+    expect(result.roi).toBeCloseTo(expRoi, 2);
+    expect(result.mao).toBeCloseTo(expMao, 2);
+  });
+});
+
+describe('analyzeDeal', () => {
+  it('breaks down the default profile by hand', () => {
+    const result = analyzeDeal(DEAL, DEFAULT_CALCULATION_SETTINGS);
+
+    expect(result.contingency).toBe(5000);
+    expect(result.holdingCosts).toBe(7500); // 1,500/mo x 5
+    expect(result.sellingCosts).toBe(28000); // 8% of ARV
+    expect(result.totalInvestment).toBe(267500);
+    expect(result.totalCosts).toBe(295500);
+    expect(result.grossProfit).toBe(54500);
+    expect(result.mao).toBeCloseTo(149500, 6); // 245,000 - (55,000 + 7,500 + 28,000 + 5,000)
+    expect(result.spread).toBeCloseTo(-50500, 6);
+  });
+
+  it('lets project assumptions replace the profile flat values', () => {
+    const result = analyzeDeal(
+      { ...DEAL, contingencyPercent: 15, holdingCostsMonthly: 2000, sellingCostPercent: 6 },
+      DEFAULT_CALCULATION_SETTINGS
+    );
+
+    expect(result.contingency).toBe(7500);
+    expect(result.holdingCosts).toBe(10000);
+    expect(result.sellingCosts).toBe(21000);
+    expect(result.sellingCostPercent).toBe(6);
+  });
+
+  it('keeps profile-specific methods when project assumptions are set', () => {
+    const result = analyzeDeal(
+      { ...DEAL, contingencyPercent: 15, holdingCostsMonthly: 2000 },
+      { ...DEFAULT_CALCULATION_SETTINGS, contingency_method: 'tiered', holding_cost_method: 'itemized' }
+    );
+
+    expect(result.contingency).toBe(6000);
+    expect(result.holdingCosts).toBe(7500);
+  });
+
+  it('applies no contingency to actual spend', () => {
+    const result = analyzeDeal({ ...DEAL, includeContingency: false }, DEFAULT_CALCULATION_SETTINGS);
+
+    expect(result.contingency).toBe(0);
+    expect(result.rehabWithContingency).toBe(50000);
+  });
+
+  it('uses cash invested for cash-on-cash ROI', () => {
+    const result = analyzeDeal(
+      { ...DEAL, cashInvested: 100000 },
+      { ...DEFAULT_CALCULATION_SETTINGS, roi_method: 'cash_on_cash' }
+    );
+
+    expect(result.roi).toBeCloseTo(54.5, 2);
+  });
+
+  it('annualizes simple ROI and subtracts the matching opportunity cost', () => {
+    const simple = analyzeDeal(DEAL, {
+      ...DEFAULT_CALCULATION_SETTINGS,
+      roi_include_opportunity_cost: true,
+    });
+    const annualized = analyzeDeal(DEAL, {
+      ...DEFAULT_CALCULATION_SETTINGS,
+      roi_annualize: true,
+      roi_include_opportunity_cost: true,
+    });
+
+    const periodRoi = (54500 / 267500) * 100;
+    expect(simple.roi).toBeCloseTo(periodRoi - 5 * (5 / 12), 6);
+    expect(annualized.roi).toBeCloseTo(periodRoi * (12 / 5) - 5, 6);
+  });
+
+  it('returns zero ROI when nothing is invested', () => {
+    const result = analyzeDeal(
+      { arv: 0, purchasePrice: 0, rehabBudget: 0, closingCosts: 0, holdMonths: 4, holdingCostsMonthly: 0 },
+      DEFAULT_CALCULATION_SETTINGS
+    );
+
+    expect(result.roi).toBe(0);
+  });
+});
+
+describe('deal thresholds', () => {
+  it('finds the ARV where profit is zero', () => {
+    const breakEven = calculateBreakEvenArv(DEAL, DEFAULT_CALCULATION_SETTINGS);
+
+    expect(analyzeDeal({ ...DEAL, arv: breakEven }, DEFAULT_CALCULATION_SETTINGS).grossProfit).toBeCloseTo(0, 6);
+  });
+
+  it('finds the purchase price that hits a target ROI, including loan-based holding costs', () => {
+    const settings: CalculationSettingsInput = {
+      ...DEFAULT_CALCULATION_SETTINGS,
+      holding_cost_method: 'percentage_of_loan',
+    };
+    const maxPurchase = calculateMaxPurchasePrice(DEAL, settings, 20);
+    const result = analyzeDeal({ ...DEAL, purchasePrice: maxPurchase }, settings);
+
+    expect(result.roi).toBeCloseTo(20, 6);
+  });
+});
+
+describe('analyzeProject', () => {
+  const project = {
+    arv: 350000,
+    purchase_price: 200000,
+    closing_costs: 5000,
+    holding_costs_monthly: 1500,
+    hold_months: 4,
+    selling_cost_percent: 8,
+    contingency_percent: 10,
+  };
+
+  const item = (
+    category: BudgetItem['category'],
+    underwriting: number,
+    forecast: number,
+    actual: number | null
+  ) => ({
+    category,
+    underwriting_amount: underwriting,
+    forecast_amount: forecast,
+    actual_amount: actual,
+  });
+
+  it('uses underwriting until a forecast exists', () => {
+    const analysis = analyzeProject(project, [item('kitchen', 20000, 0, null)], DEFAULT_CALCULATION_SETTINGS);
+
+    expect(analysis.primaryScenario).toBe('underwriting');
+    expect(analysis.activeScenario).toBe('underwriting');
+    expect(analysis.primary.rehabBudget).toBe(20000);
+  });
+
+  it('prefers the forecast and judges MAO on underwriting', () => {
+    const analysis = analyzeProject(
+      project,
+      [item('kitchen', 20000, 25000, null), item('flooring', 10000, 0, null)],
+      DEFAULT_CALCULATION_SETTINGS
+    );
+
+    expect(analysis.primaryScenario).toBe('forecast');
+    expect(analysis.primary.rehabBudget).toBe(25000);
+    expect(analysis.mao).toBe(analysis.underwriting.mao);
+    expect(analysis.underwriting.rehabBudget).toBe(30000);
+  });
+
+  it('marks actual as active once spend is recorded', () => {
+    const analysis = analyzeProject(
+      project,
+      [item('kitchen', 20000, 25000, 12000)],
+      DEFAULT_CALCULATION_SETTINGS
+    );
+
+    expect(analysis.activeScenario).toBe('actual');
+    expect(analysis.actual.contingency).toBe(0);
+    expect(analysis.actualTotal).toBe(12000);
+  });
+
+  it('builds a project_summary row from the primary scenario', () => {
+    const items = [
+      { ...item('kitchen', 20000, 25000, 12000), status: 'complete' },
+      { ...item('flooring', 10000, 0, null), status: 'in_progress' },
+    ] as BudgetItem[];
+    const summary = buildProjectSummary(
+      { ...project, id: 'project-1', name: 'Test' } as Project,
+      items,
+      DEFAULT_CALCULATION_SETTINGS
+    );
+    const analysis = analyzeProject(project, items, DEFAULT_CALCULATION_SETTINGS);
+
+    expect(summary.rehab_budget).toBe(25000);
+    expect(summary.total_investment).toBe(analysis.primary.totalInvestment);
+    expect(summary.gross_profit).toBe(analysis.primary.grossProfit);
+    expect(summary.roi).toBe(analysis.primary.roi);
+    expect(summary.mao).toBe(analysis.mao);
+    expect(summary.completed_items).toBe(1);
+    expect(summary.in_progress_items).toBe(1);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Tests for the Monte Carlo deal risk simulation: seeded sampling, ranges
+ * from the cost reference and deal history, and the simulation outputs
+ */
+
+import {
+  buildRiskHistory,
+  buildSimulationRanges,
+  createRandom,
+  percentile,
+  runDealSimulation,
+  sampleTriangular,
+} from '@/lib/deal-simulation';
+import { analyzeDeal, type DealAnalysisInputs } from '@/lib/deal-analysis';
+import { DEFAULT_CALCULATION_SETTINGS } from '@/types';
+
+const settings = DEFAULT_CALCULATION_SETTINGS;
+
+const inputs: DealAnalysisInputs = {
+  arv: 300000,
+  purchasePrice: 180000,
+  rehabBudget: 50000,
+  categoryBudgets: { kitchen: 30000, flooring: 20000 },
+  closingCosts: 4000,
+  holdMonths: 5,
+  holdingCostsMonthly: 1500,
+  sellingCostPercent: 8,
+  contingencyPercent: 10,
+};
+
+describe('seeded sampling', () => {
+  it('repeats the same sequence for a seed', () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const draws = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(draws);
+    expect(draws.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(createRandom(43)()).not.toBe(draws[0]);
+  });
+
+  it('maps the triangular ends and mode', () => {
+    const range = { low: 0.9, mode: 1, high: 1.2 };
+    expect(sampleTriangular(range, 0)).toBeCloseTo(0.9, 10);
+    expect(sampleTriangular(range, 1 / 3)).toBeCloseTo(1, 10);
+    expect(sampleTriangular(range, 0.999999)).toBeCloseTo(1.2, 3);
+    expect(sampleTriangular({ low: 2, mode: 2, high: 2 }, 0.5)).toBe(2);
+  });
+
+  it('interpolates percentiles', () => {
+    expect(percentile([0, 10, 20, 30, 40], 50)).toBe(20);
+    expect(percentile([0, 10], 10)).toBe(1);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('buildSimulationRanges', () => {
+  it('gives each budgeted category its own range from the cost reference', () => {
+    const ranges = buildSimulationRanges(inputs, settings, {
+      costReference: [
+        { category: 'kitchen', low: 8000, mid: 10000, high: 15000 },
+        { category: 'kitchen', low: 900, mid: 1000, high: 1300 },
+        { category: 'plumbing', low: 1, mid: 2, high: 3 },
+      ],
+    });
+
+    expect(ranges.rehab.map(({ category, budget }) => [category, budget])).toEqual([
+      ['flooring', 20000],
+      ['kitchen', 30000],
+    ]);
+    expect(ranges.rehab[1].range).toEqual({ low: expect.closeTo(0.85, 10), mode: 1, high: 1.4 });
+    // No reference items for flooring: the default range
+    expect(ranges.rehab[0].range).toEqual({ low: 0.95, mode: 1, high: 1.2 });
+    expect(ranges.concessionPercent).toEqual({
+      low: 0,
+      mode: settings.selling_cost_buyer_concessions,
+      high: settings.selling_cost_buyer_concessions + 3,
+    });
+  });
+
+  it('widens ranges and moves the mode to the historical median', () => {
+    const history = buildRiskHistory(
+      [
+        { project_id: 'a', sale_price: 240000, seller_concessions: 4800, actual_hold_days: 213, projected_sale_price: 300000, projected_hold_days: 152 },
+        { project_id: 'b', sale_price: 285000, seller_concessions: 0, actual_hold_days: 152, projected_sale_price: 300000, projected_hold_days: 152 },
+        { project_id: 'c', sale_price: 297000, seller_concessions: 2970, actual_hold_days: 182, projected_sale_price: 300000, projected_hold_days: 152 },
+      ],
+      [
+        { project_id: 'a', category: 'kitchen', underwriting_amount: 10000, actual_amount: 12000 },
+        { project_id: 'a', category: 'kitchen', underwriting_amount: 10000, actual_amount: 13000 },
+        { project_id: 'b', category: 'kitchen', underwriting_amount: 20000, actual_amount: 30000 },
+        { project_id: 'c', category: 'kitchen', underwriting_amount: 15000, actual_amount: 15000 },
+        { project_id: 'c', category: 'flooring', underwriting_amount: 5000, actual_amount: null },
+      ]
+    );
+
+    expect(history.arvVariance).toEqual([expect.closeTo(-0.2, 10), expect.closeTo(-0.05, 10), expect.closeTo(-0.01, 10)]);
+    expect(history.categoryOverrun).toEqual({ kitchen: [0.25, 0.5, 0] });
+    expect(history.concessionPercent).toEqual([2, 0, 1]);
+
+    const ranges = buildSimulationRanges(inputs, settings, { history });
+    expect(ranges.arv.low).toBeCloseTo(0.8, 10);
+    expect(ranges.arv.mode).toBeCloseTo(0.95, 10);
+    expect(ranges.arv.high).toBe(1.05);
+    expect(ranges.rehab.find((line) => line.category === 'kitchen')!.range).toEqual({ low: 0.95, mode: 1.25, high: 1.5 });
+    expect(ranges.holdMonths.high).toBeCloseTo(61 / (365 / 12), 10);
+  });
+
+  it('leaves the defaults alone with too little history', () => {
+    const history = { arvVariance: [-0.5], holdOverrunMonths: [], concessionPercent: [], categoryOverrun: {} };
+    expect(buildSimulationRanges(inputs, settings, { history }).arv).toEqual({ low: 0.9, mode: 1, high: 1.05 });
+  });
+
+  it('simulates the total rehab budget without categories', () => {
+    const ranges = buildSimulationRanges({ ...inputs, categoryBudgets: undefined }, settings);
+    expect(ranges.rehab).toEqual([{ category: null, label: 'Rehab', budget: 50000, range: { low: 0.95, mode: 1, high: 1.2 } }]);
+  });
+});
+
+describe('runDealSimulation', () => {
+  const ranges = buildSimulationRanges(inputs, settings);
+  const simulation = runDealSimulation(inputs, settings, ranges, { trials: 1000, seed: 7 });
+
+  it('is deterministic under a seed', () => {
+    expect(runDealSimulation(inputs, settings, ranges, { trials: 1000, seed: 7 })).toEqual(simulation);
+    expect(runDealSimulation(inputs, settings, ranges, { trials: 1000, seed: 8 }).profit.p50).not.toBe(
+      simulation.profit.p50
+    );
+  });
+
+  it('prices the most likely trial like the deal analysis', () => {
+    expect(simulation.baseProfit).toBeCloseTo(analyzeDeal(inputs, settings).grossProfit, 6);
+  });
+
+  it('matches the deal analysis when nothing varies, with a selling cost override', () => {
+    const overridden = { ...inputs, sellingCostPercent: 6.5 };
+    const planned = { low: 1, mode: 1, high: 1 };
+    const concessions = settings.selling_cost_buyer_concessions;
+    const fixed = runDealSimulation(
+      overridden,
+      settings,
+      {
+        arv: planned,
+        rehab: buildSimulationRanges(overridden, settings).rehab.map((line) => ({ ...line, range: planned })),
+        holdMonths: { low: 0, mode: 0, high: 0 },
+        concessionPercent: { low: concessions, mode: concessions, high: concessions },
+      },
+      { trials: 20 }
+    );
+
+    const expected = analyzeDeal(overridden, settings).grossProfit;
+    expect(fixed.baseProfit).toBeCloseTo(expected, 6);
+    expect(fixed.profit.p10).toBeCloseTo(expected, 6);
+    expect(fixed.profit.p90).toBeCloseTo(expected, 6);
+  });
+
+  it('puts every trial in the histogram and orders the percentiles', () => {
+    expect(simulation.histogram).toHaveLength(20);
+    expect(simulation.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(1000);
+    expect(simulation.profit.p10).toBeLessThan(simulation.profit.p50);
+    expect(simulation.profit.p50).toBeLessThan(simulation.profit.p90);
+    expect(simulation.roi.p10).toBeLessThan(simulation.roi.p90);
+    expect(simulation.probabilityOfLoss).toBeGreaterThanOrEqual(0);
+    expect(simulation.probabilityOfLoss).toBeLessThan(0.5);
+  });
+
+  it('ranks ARV as the biggest swing', () => {
+    const arv = simulation.tornado[0];
+    expect(arv.key).toBe('arv');
+    // 90% to 105% of ARV, less the 8% selling costs on it
+    expect(arv.highProfit - arv.lowProfit).toBeCloseTo(300000 * 0.15 * 0.92, 6);
+    expect(simulation.tornado.map((bar) => bar.key)).toEqual(
+      expect.arrayContaining(['rehab:kitchen', 'rehab:flooring', 'hold', 'concessions'])
+    );
+    simulation.tornado.slice(1).forEach((bar, index) => {
+      expect(bar.swing).toBeLessThanOrEqual(simulation.tornado[index].swing);
+    });
+  });
+
+  it('prorates loan interest to the simulated hold', () => {
+    const financed = { ...inputs, financingCosts: 9000, financingInterest: 6000, loanAmount: 150000 };
+    const financedRanges = buildSimulationRanges(financed, settings);
+    const hold = runDealSimulation(financed, settings, financedRanges, { trials: 10 }).tornado.find(
+      (bar) => bar.key === 'hold'
+    )!;
+
+    // Two extra months on a five month hold: 2/5 more interest, fees unchanged
+    const longest = analyzeDeal(
+      {
+        ...financed,
+        holdMonths: 7,
+        financingCosts: 9000 + 6000 * 0.4,
+      },
+      settings
+    ).grossProfit;
+    expect(hold.lowProfit).toBeGreaterThan(hold.highProfit);
+    expect(hold.highProfit).toBeCloseTo(longest, 6);
+  });
+
+  it('finds a certain loss on a deal under water', () => {
+    const underWater = { ...inputs, purchasePrice: 320000 };
+    const result = runDealSimulation(underWater, settings, buildSimulationRanges(underWater, settings), { trials: 200 });
+    expect(result.probabilityOfLoss).toBe(1);
+  });
+});
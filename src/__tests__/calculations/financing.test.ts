@@ -0,0 +1,216 @@
+/**
+ * Tests for project loan costs and how they feed the deal analysis
+ *
+ * project_financing() in SQL mirrors calculateLoanCost(), so a change here
+ * needs a matching migration.
+ */
+
+import { analyzeDeal, analyzeProject, buildProjectSummary, type DealAnalysisInputs } from '@/lib/deal-analysis';
+import {
+  calculateLoanCost,
+  calculateProjectFinancing,
+  getLoanPayoffDate,
+  validateLoanInput,
+  type FinancingProjectFields,
+  type LoanDraw,
+} from '@/lib/financing';
+import { DEFAULT_CALCULATION_SETTINGS, type Project, type ProjectLoan } from '@/types';
+
+function loan(overrides: Partial<ProjectLoan> = {}): ProjectLoan {
+  return {
+    id: 'hml',
+    project_id: 'p1',
+    lender_name: 'Acme Capital',
+    loan_type: 'hard_money',
+    lien_position: 1,
+    purchase_amount: 100000,
+    rehab_holdback: 40000,
+    interest_rate: 12,
+    interest_basis: 'drawn_balance',
+    points: 2,
+    lender_fees: 1500,
+    funded_date: null,
+    term_months: 12,
+    notes: null,
+    sort_order: 0,
+    created_at: '2026-01-01',
+    updated_at: '2026-01-01',
+    ...overrides,
+  };
+}
+
+function draw(id: string, amount: number, datePaid: string | null, loanId: string | null = 'hml'): LoanDraw {
+  return { id, loan_id: loanId, amount, status: datePaid ? 'paid' : 'pending', date_paid: datePaid };
+}
+
+// Closes Jan 1 and sells Jul 20: 200 days of interest
+const project = {
+  purchase_price: 150000,
+  closing_costs: 5000,
+  close_date: '2026-01-01',
+  sale_date: '2026-07-20',
+  hold_months: 6,
+} satisfies FinancingProjectFields;
+
+const JUNE_1 = new Date(2026, 5, 1);
+const MARCH_1 = new Date(2026, 2, 1);
+
+describe('calculateLoanCost', () => {
+  it('accrues interest on each draw from the day it is paid', () => {
+    const draws = [
+      draw('d1', 20000, '2026-03-01'), // 141 days
+      draw('d2', 30000, '2026-05-01'), // 80 days, capped at the 20,000 left
+      draw('d3', 5000, null),
+      draw('d4', 9000, '2026-02-01', 'other-loan'),
+    ];
+    const cost = calculateLoanCost(loan(), draws, project, JUNE_1);
+
+    // (100,000 x 200 + 20,000 x 141 + 20,000 x 80) x 12% / 365
+    expect(cost.interest).toBeCloseTo(8028.49, 2);
+    expect(cost.pointsCost).toBe(2800);
+    expect(cost.totalCost).toBeCloseTo(12328.49, 2);
+    expect(cost.drawnHoldback).toBe(40000);
+    expect(cost.undrawnHoldback).toBe(0);
+    expect(cost.monthlyPayment).toBe(1400);
+  });
+
+  it('projects the undrawn holdback evenly from today to payoff', () => {
+    const cost = calculateLoanCost(loan(), [], project, MARCH_1);
+
+    // 40,000 over the last 141 days averages half the holdback
+    expect(cost.interest).toBeCloseTo(7502.47, 2);
+    expect(cost.balance).toBe(100000);
+    expect(cost.monthlyPayment).toBe(1000);
+  });
+
+  it('charges a full-balance loan on the whole amount from funding', () => {
+    const cost = calculateLoanCost(loan({ interest_basis: 'full_balance' }), [draw('d1', 10000, '2026-03-01')], project, MARCH_1);
+
+    expect(cost.interest).toBeCloseTo(9205.48, 2);
+    expect(cost.drawnHoldback).toBe(10000);
+    expect(cost.balance).toBe(140000);
+  });
+
+  it('pays off at closing plus the hold period before a sale', () => {
+    expect(getLoanPayoffDate({ ...project, sale_date: null })).toBe('2026-07-03');
+    expect(getLoanPayoffDate({ ...project, close_date: null, sale_date: null }, MARCH_1)).toBe('2026-08-31');
+  });
+});
+
+describe('calculateProjectFinancing', () => {
+  const second = loan({
+    id: 'private',
+    lender_name: 'Uncle Bob',
+    loan_type: 'private',
+    lien_position: 2,
+    purchase_amount: 30000,
+    rehab_holdback: 0,
+    interest_rate: 10,
+    points: 0,
+    lender_fees: 0,
+    funded_date: '2026-01-15',
+  });
+
+  it('returns null without loans', () => {
+    expect(calculateProjectFinancing(project, [], [], JUNE_1)).toBeNull();
+  });
+
+  it('totals the loans in lien order', () => {
+    const financing = calculateProjectFinancing(project, [second, loan()], [], JUNE_1)!;
+
+    expect(financing.loans.map((cost) => cost.loan.id)).toEqual(['hml', 'private']);
+    expect(financing.loans[1].interest).toBeCloseTo(1528.77, 2);
+    expect(financing.loanAmount).toBe(170000);
+    expect(financing.purchaseFunding).toBe(130000);
+    expect(financing.pointsAndFees).toBe(4300);
+    expect(financing.financingCosts).toBeCloseTo(
+      financing.loans.reduce((sum, cost) => sum + cost.totalCost, 0),
+      6
+    );
+  });
+
+  it('needs the purchase, closing costs, points and fees less what the loans fund', () => {
+    expect(calculateProjectFinancing(project, [loan()], [], JUNE_1)!.cashNeededAtClosing).toBe(59300);
+    expect(calculateProjectFinancing(project, [loan(), second], [], JUNE_1)!.cashNeededAtClosing).toBe(29300);
+  });
+});
+
+describe('financing in the deal analysis', () => {
+  const DEAL: DealAnalysisInputs = {
+    arv: 350000,
+    purchasePrice: 200000,
+    rehabBudget: 50000,
+    closingCosts: 5000,
+    holdMonths: 5,
+  };
+
+  it('adds the cost of capital to holding costs and MAO', () => {
+    const without = analyzeDeal(DEAL, DEFAULT_CALCULATION_SETTINGS);
+    const withLoans = analyzeDeal({ ...DEAL, financingCosts: 12000, loanAmount: 240000 }, DEFAULT_CALCULATION_SETTINGS);
+
+    expect(withLoans.financingCosts).toBe(12000);
+    expect(withLoans.holdingCosts).toBe(without.holdingCosts + 12000);
+    expect(withLoans.totalInvestment).toBe(without.totalInvestment + 12000);
+    expect(withLoans.mao).toBe(without.mao - 12000);
+  });
+
+  it("replaces the profile's assumed loan interest", () => {
+    const percentOfLoan = { ...DEFAULT_CALCULATION_SETTINGS, holding_cost_method: 'percentage_of_loan' as const };
+    expect(analyzeDeal({ ...DEAL, financingCosts: 12000 }, percentOfLoan).holdingCosts).toBe(12000);
+
+    const itemized = { ...DEFAULT_CALCULATION_SETTINGS, holding_cost_method: 'itemized' as const };
+    const assumed = analyzeDeal(DEAL, itemized).holdingCosts;
+    const loanInterest = DEFAULT_CALCULATION_SETTINGS.holding_cost_items.loan_interest * DEAL.holdMonths;
+    expect(analyzeDeal({ ...DEAL, financingCosts: 12000 }, itemized).holdingCosts).toBe(assumed - loanInterest + 12000);
+  });
+
+  it('leaves the loan out of cash invested', () => {
+    const cashOnCash = { ...DEFAULT_CALCULATION_SETTINGS, roi_method: 'cash_on_cash' as const };
+    const result = analyzeDeal({ ...DEAL, financingCosts: 12000, loanAmount: 240000 }, cashOnCash);
+
+    expect(result.roi).toBeCloseTo((result.grossProfit / (result.totalInvestment - 240000)) * 100, 6);
+  });
+
+  it('carries financing into the project analysis and summary row', () => {
+    const fields = {
+      ...project,
+      id: 'p1',
+      name: 'Test',
+      arv: 250000,
+      holding_costs_monthly: 1000,
+      selling_cost_percent: 8,
+      contingency_percent: 10,
+    } as Project;
+    const financing = calculateProjectFinancing(fields, [loan()], [], JUNE_1);
+    const analysis = analyzeProject(fields, [], DEFAULT_CALCULATION_SETTINGS, financing);
+    const summary = buildProjectSummary(fields, [], DEFAULT_CALCULATION_SETTINGS, financing);
+
+    expect(analysis.financing).toBe(financing);
+    expect(analysis.primary.financingCosts).toBe(financing!.financingCosts);
+    expect(summary.loan_amount).toBe(140000);
+    expect(summary.financing_costs).toBe(financing!.financingCosts);
+    expect(buildProjectSummary(fields, [], DEFAULT_CALCULATION_SETTINGS).loan_amount).toBeNull();
+  });
+});
+
+describe('validateLoanInput', () => {
+  const input = {
+    lender_name: 'Acme',
+    purchase_amount: 100000,
+    rehab_holdback: 0,
+    interest_rate: 12,
+    points: 2,
+    lender_fees: 0,
+  };
+
+  it('accepts a complete loan', () => {
+    expect(validateLoanInput(input)).toBeNull();
+  });
+
+  it('rejects a missing lender, an empty or negative loan and negative terms', () => {
+    expect(validateLoanInput({ ...input, lender_name: ' ' })).toBe('Enter the lender');
+    expect(validateLoanInput({ ...input, purchase_amount: 0 })).toMatch(/purchase funding/);
+    expect(validateLoanInput({ ...input, rehab_holdback: -1 })).toMatch(/negative/);
+    expect(validateLoanInput({ ...input, points: -1 })).toMatch(/negative/);
+  });
+});
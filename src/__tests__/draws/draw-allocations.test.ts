@@ -0,0 +1,146 @@
+/**
+ * Tests for draw retainage and the paid-allocation actuals roll-up
+ */
+
+import {
+  calculateRetainage,
+  getDefaultRetainagePercent,
+  getDrawPayment,
+  getOverAllocationAlertLevel,
+  rollUpPaidActuals,
+  summarizeRetainage,
+} from '@/lib/draw-allocations';
+import { DEFAULT_CALCULATION_SETTINGS } from '@/types';
+import type { Draw, DrawAllocation, DrawMilestone, DrawStatus } from '@/types';
+
+type TestAllocation = Pick<DrawAllocation, 'draw_id' | 'budget_item_id' | 'vendor_id' | 'amount' | 'retainage_percent'>;
+
+function draw(
+  id: string,
+  draw_number: number,
+  amount: number,
+  status: DrawStatus,
+  milestone: DrawMilestone | null = null
+): Pick<Draw, 'id' | 'draw_number' | 'amount' | 'status' | 'milestone'> {
+  return { id, draw_number, amount, status, milestone };
+}
+
+function allocation(
+  draw_id: string,
+  budget_item_id: string,
+  vendor_id: string | null,
+  amount: number,
+  retainage_percent = 0
+): TestAllocation {
+  return { draw_id, budget_item_id, vendor_id, amount, retainage_percent };
+}
+
+const DRAWS = [
+  draw('d1', 1, 10000, 'paid', 'rough_in'),
+  draw('d2', 2, 5000, 'approved', 'drywall'),
+  draw('d3', 3, 3000, 'pending', 'final'),
+];
+
+const ALLOCATIONS = [
+  allocation('d1', 'plumbing', 'v-plumber', 6000, 10),
+  allocation('d1', 'electrical', 'v-electric', 4000, 5),
+  allocation('d2', 'plumbing', 'v-plumber', 5000, 10),
+  allocation('d3', 'plumbing', 'v-plumber', 3000, 0),
+];
+
+describe('calculateRetainage', () => {
+  it('rounds to cents', () => {
+    expect(calculateRetainage(6000, 10)).toBe(600);
+    expect(calculateRetainage(333.33, 7.5)).toBe(25);
+    expect(calculateRetainage(100, 0)).toBe(0);
+  });
+});
+
+describe('getDefaultRetainagePercent', () => {
+  it("uses the vendor's retainage except on a final draw", () => {
+    expect(getDefaultRetainagePercent({ milestone: 'rough_in' }, { retainage_percent: 10 })).toBe(10);
+    expect(getDefaultRetainagePercent({ milestone: 'final' }, { retainage_percent: 10 })).toBe(0);
+    expect(getDefaultRetainagePercent({ milestone: null }, null)).toBe(0);
+  });
+});
+
+describe('getDrawPayment', () => {
+  it('withholds retainage from a progress draw', () => {
+    expect(getDrawPayment(DRAWS[0], DRAWS, ALLOCATIONS)).toEqual({
+      gross: 10000,
+      retainage: 800,
+      released: 0,
+      net: 9200,
+    });
+  });
+
+  it("releases retainage held from the final draw's vendors", () => {
+    // 600 + 500 held from the plumber on draws 1 and 2; the electrician is not on this draw
+    expect(getDrawPayment(DRAWS[2], DRAWS, ALLOCATIONS)).toEqual({
+      gross: 3000,
+      retainage: 0,
+      released: 1100,
+      net: 4100,
+    });
+  });
+});
+
+describe('summarizeRetainage', () => {
+  it('holds retainage until the final draw is paid', () => {
+    const summary = summarizeRetainage(DRAWS, ALLOCATIONS);
+
+    expect(summary.find((v) => v.vendorId === 'v-plumber')).toEqual({
+      vendorId: 'v-plumber',
+      retained: 1100,
+      released: 0,
+      held: 1100,
+    });
+    expect(summary.find((v) => v.vendorId === 'v-electric')?.held).toBe(200);
+  });
+
+  it('releases it once the final draw is paid', () => {
+    const paidDraws = DRAWS.map((d) => (d.id === 'd3' ? { ...d, status: 'paid' as const } : d));
+    const plumber = summarizeRetainage(paidDraws, ALLOCATIONS).find((v) => v.vendorId === 'v-plumber');
+
+    expect(plumber).toMatchObject({ retained: 1100, released: 1100, held: 0 });
+  });
+
+  it('ignores allocations without a vendor', () => {
+    expect(summarizeRetainage(DRAWS, [allocation('d1', 'demo', null, 1000, 10)])).toEqual([]);
+  });
+});
+
+describe('rollUpPaidActuals', () => {
+  it('sums paid allocations gross of retainage', () => {
+    const actuals = rollUpPaidActuals(DRAWS, ALLOCATIONS);
+
+    expect(actuals.get('plumbing')).toBe(6000);
+    expect(actuals.get('electrical')).toBe(4000);
+  });
+
+  it('leaves out lines only on unpaid draws', () => {
+    const actuals = rollUpPaidActuals(DRAWS, [allocation('d2', 'drywall', null, 2500)]);
+
+    expect(actuals.has('drywall')).toBe(false);
+    expect(actuals.has('plumbing')).toBe(false);
+  });
+});
+
+describe('getOverAllocationAlertLevel', () => {
+  const settings = { ...DEFAULT_CALCULATION_SETTINGS, variance_warning_percent: 10, variance_critical_percent: 20 };
+
+  it('never alerts within budget', () => {
+    expect(getOverAllocationAlertLevel(10000, 10000, settings)).toBe('none');
+    expect(getOverAllocationAlertLevel(10000, 5000, settings)).toBe('none');
+  });
+
+  it('uses the variance thresholds once over budget', () => {
+    expect(getOverAllocationAlertLevel(10000, 10500, settings)).toBe('none');
+    expect(getOverAllocationAlertLevel(10000, 11000, settings)).toBe('warning');
+    expect(getOverAllocationAlertLevel(10000, 12500, settings)).toBe('critical');
+  });
+
+  it('respects disabled alerts', () => {
+    expect(getOverAllocationAlertLevel(10000, 20000, { ...settings, variance_alert_enabled: false })).toBe('none');
+  });
+});
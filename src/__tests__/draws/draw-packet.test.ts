@@ -0,0 +1,137 @@
+/**
+ * Tests for the draw packet schedule of values
+ */
+
+import {
+  buildScheduleOfValues,
+  getBudgetedAmount,
+  getUnallocatedAmount,
+  selectDrawPacketPhotos,
+} from '@/lib/draw-packet';
+import type { BudgetCategory, BudgetItem, DrawAllocation, PhotoType } from '@/types';
+import { createMockBudgetItem } from '../utils/test-utils';
+
+function item(id: string, category: BudgetCategory, underwriting: number, forecast = 0): BudgetItem {
+  return createMockBudgetItem({
+    id,
+    category,
+    item: `Item ${id}`,
+    rate: underwriting,
+    underwriting_amount: underwriting,
+    forecast_amount: forecast,
+  });
+}
+
+function allocation(draw_id: string, budget_item_id: string, amount: number): Pick<DrawAllocation, 'draw_id' | 'budget_item_id' | 'amount'> {
+  return { draw_id, budget_item_id, amount };
+}
+
+const BUDGET_ITEMS = [
+  item('plumb-rough', 'plumbing', 6000),
+  item('plumb-finish', 'plumbing', 4000, 5000),
+  item('demo-all', 'demo', 3000),
+  item('kitchen', 'kitchen', 0),
+];
+
+const DRAWS = [
+  { id: 'd1', draw_number: 1 },
+  { id: 'd2', draw_number: 2 },
+  { id: 'd3', draw_number: 3 },
+];
+
+const ALLOCATIONS = [
+  allocation('d1', 'demo-all', 3000),
+  allocation('d1', 'plumb-rough', 1000),
+  allocation('d2', 'plumb-rough', 2000),
+  allocation('d2', 'plumb-finish', 500),
+  allocation('d3', 'plumb-finish', 4500),
+];
+
+describe('getBudgetedAmount', () => {
+  it('uses forecast once set, otherwise underwriting', () => {
+    expect(getBudgetedAmount({ underwriting_amount: 4000, forecast_amount: 5000 })).toBe(5000);
+    expect(getBudgetedAmount({ underwriting_amount: 4000, forecast_amount: 0 })).toBe(4000);
+  });
+});
+
+describe('getUnallocatedAmount', () => {
+  it('subtracts the draw allocations from its amount', () => {
+    expect(getUnallocatedAmount({ id: 'd2', amount: 3000 }, ALLOCATIONS)).toBe(500);
+    expect(getUnallocatedAmount({ id: 'd3', amount: 4000 }, ALLOCATIONS)).toBe(-500);
+  });
+});
+
+describe('buildScheduleOfValues', () => {
+  const schedule = buildScheduleOfValues(DRAWS[1], DRAWS, BUDGET_ITEMS, ALLOCATIONS);
+
+  it('orders categories by BUDGET_CATEGORIES and drops empty ones', () => {
+    expect(schedule.rows.map((r) => r.category)).toEqual(['demo', 'plumbing']);
+  });
+
+  it('splits earlier draws from this draw and ignores later ones', () => {
+    const plumbing = schedule.rows.find((r) => r.category === 'plumbing')!;
+
+    expect(plumbing.budgeted).toBe(11000);
+    expect(plumbing.previouslyDrawn).toBe(1000);
+    expect(plumbing.thisDraw).toBe(2500);
+    expect(plumbing.totalDrawn).toBe(3500);
+    expect(plumbing.percentComplete).toBeCloseTo((3500 / 11000) * 100);
+    expect(plumbing.balanceToFinish).toBe(7500);
+  });
+
+  it('reports line-level amounts', () => {
+    const plumbing = schedule.rows.find((r) => r.category === 'plumbing')!;
+    const finish = plumbing.lines.find((l) => l.budgetItemId === 'plumb-finish')!;
+
+    expect(finish).toMatchObject({ budgeted: 5000, previouslyDrawn: 0, thisDraw: 500, percentComplete: 10 });
+  });
+
+  it('totals across categories', () => {
+    expect(schedule.totals).toMatchObject({
+      budgeted: 14000,
+      previouslyDrawn: 4000,
+      thisDraw: 2500,
+      totalDrawn: 6500,
+      balanceToFinish: 7500,
+    });
+  });
+
+  it('lists the line items this draw covers', () => {
+    expect(schedule.coveredBudgetItemIds.sort()).toEqual(['plumb-finish', 'plumb-rough']);
+  });
+
+  it('keeps an unbudgeted line when it has been drawn against', () => {
+    const result = buildScheduleOfValues(DRAWS[0], DRAWS, BUDGET_ITEMS, [allocation('d1', 'kitchen', 800)]);
+    const kitchen = result.rows.find((r) => r.category === 'kitchen')!;
+
+    expect(kitchen.thisDraw).toBe(800);
+    expect(kitchen.percentComplete).toBe(0);
+    expect(kitchen.balanceToFinish).toBe(-800);
+  });
+
+  it('handles a draw with no allocations', () => {
+    const result = buildScheduleOfValues({ id: 'd4', draw_number: 4 }, DRAWS, BUDGET_ITEMS, ALLOCATIONS);
+
+    expect(result.totals.thisDraw).toBe(0);
+    expect(result.totals.previouslyDrawn).toBe(11000);
+    expect(result.coveredBudgetItemIds).toEqual([]);
+  });
+});
+
+describe('selectDrawPacketPhotos', () => {
+  const photo = (line_item_id: string, photo_type: PhotoType) => ({ line_item_id, photo_type });
+
+  it('keeps receipt and progress photos for covered line items', () => {
+    const photos = [
+      photo('plumb-rough', 'receipt'),
+      photo('plumb-rough', 'progress'),
+      photo('plumb-rough', 'before'),
+      photo('demo-all', 'receipt'),
+    ];
+
+    expect(selectDrawPacketPhotos(photos, ['plumb-rough'])).toEqual([
+      photo('plumb-rough', 'receipt'),
+      photo('plumb-rough', 'progress'),
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for the vendor draw request portal: token helpers, attachment
+ * checks and submission validation.
+ */
+
+import { webcrypto } from 'crypto';
+import { TextEncoder } from 'util';
+import {
+  DRAW_ATTACHMENT_MAX_FILE_SIZE,
+  buildDrawAttachmentPath,
+  buildDrawRequestUrl,
+  generateDrawRequestToken,
+  getDrawRequestExpiry,
+  getDrawRequestTokenStatus,
+  hashDrawRequestToken,
+  isWellFormedDrawRequestToken,
+  validateDrawAttachment,
+} from '@/lib/draw-requests';
+import { drawRequestSubmissionSchema } from '@/lib/validations/draw-request';
+
+// jsdom's crypto has no subtle/randomUUID; browsers and Node both do
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto });
+Object.assign(globalThis, { TextEncoder });
+
+describe('draw request tokens', () => {
+  it('generates unique, URL-safe tokens', () => {
+    const tokens = new Set(Array.from({ length: 50 }, () => generateDrawRequestToken()));
+
+    expect(tokens.size).toBe(50);
+    tokens.forEach((token) => {
+      expect(isWellFormedDrawRequestToken(token)).toBe(true);
+      expect(encodeURIComponent(token)).toBe(token);
+    });
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(isWellFormedDrawRequestToken('')).toBe(false);
+    expect(isWellFormedDrawRequestToken('123e4567-e89b-12d3-a456-426614174000')).toBe(false);
+    expect(isWellFormedDrawRequestToken(`${generateDrawRequestToken()}x`)).toBe(false);
+    expect(isWellFormedDrawRequestToken('a'.repeat(42) + '/')).toBe(false);
+  });
+
+  it('hashes tokens to hex SHA-256', async () => {
+    // echo -n abc | sha256sum
+    await expect(hashDrawRequestToken('abc')).resolves.toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+
+    const token = generateDrawRequestToken();
+    const hash = await hashDrawRequestToken(token);
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    await expect(hashDrawRequestToken(token)).resolves.toBe(hash);
+  });
+
+  it('computes expiry from the issue time', () => {
+    const now = new Date('2026-01-10T12:00:00.000Z');
+    expect(getDrawRequestExpiry(14, now)).toBe('2026-01-24T12:00:00.000Z');
+  });
+
+  describe('getDrawRequestTokenStatus', () => {
+    const now = new Date('2026-01-10T12:00:00.000Z');
+
+    it('is active before expiry', () => {
+      expect(
+        getDrawRequestTokenStatus({ expires_at: '2026-01-11T00:00:00.000Z', revoked_at: null }, now)
+      ).toBe('active');
+    });
+
+    it('is expired at or after expiry', () => {
+      expect(
+        getDrawRequestTokenStatus({ expires_at: '2026-01-10T12:00:00.000Z', revoked_at: null }, now)
+      ).toBe('expired');
+    });
+
+    it('reports revoked ahead of expired', () => {
+      expect(
+        getDrawRequestTokenStatus(
+          { expires_at: '2026-01-01T00:00:00.000Z', revoked_at: '2025-12-30T00:00:00.000Z' },
+          now
+        )
+      ).toBe('revoked');
+    });
+  });
+
+  it('builds the portal URL', () => {
+    expect(buildDrawRequestUrl('https://app.example.com/', 'abc')).toBe(
+      'https://app.example.com/draw-request/abc'
+    );
+  });
+});
+
+describe('draw attachments', () => {
+  it('accepts images and PDFs up to 10MB', () => {
+    expect(validateDrawAttachment({ type: 'application/pdf', size: 1024 })).toBeNull();
+    expect(validateDrawAttachment({ type: 'image/jpeg', size: DRAW_ATTACHMENT_MAX_FILE_SIZE })).toBeNull();
+  });
+
+  it('rejects other types and oversized files', () => {
+    expect(validateDrawAttachment({ type: 'text/html', size: 10 })).toMatch(/Invalid file type/);
+    expect(
+      validateDrawAttachment({ type: 'application/pdf', size: DRAW_ATTACHMENT_MAX_FILE_SIZE + 1 })
+    ).toMatch(/too large/);
+  });
+
+  it('stores uploads under the token hash folder', () => {
+    const path = buildDrawAttachmentPath('f00d', 'Lien Waiver.PDF');
+    expect(path).toMatch(/^f00d\/[0-9a-f-]{36}\.pdf$/);
+    expect(buildDrawAttachmentPath('f00d', 'invoice')).toMatch(/\.bin$/);
+  });
+});
+
+describe('drawRequestSubmissionSchema', () => {
+  it('parses form values', () => {
+    const result = drawRequestSubmissionSchema.parse({
+      amount: '2500.50',
+      milestone: 'rough_in',
+      percent_complete: '40',
+      description: '  Rough plumbing complete  ',
+    });
+
+    expect(result).toEqual({
+      amount: 2500.5,
+      milestone: 'rough_in',
+      percent_complete: 40,
+      description: 'Rough plumbing complete',
+    });
+  });
+
+  it('treats blank optional fields as missing', () => {
+    const result = drawRequestSubmissionSchema.parse({
+      amount: '100',
+      milestone: '',
+      percent_complete: '',
+      description: ' ',
+    });
+
+    expect(result).toEqual({ amount: 100 });
+  });
+
+  it.each([
+    [{ amount: '' }, 'Please enter a valid amount'],
+    [{ amount: '0' }, 'Please enter a valid amount'],
+    [{ amount: '100', percent_complete: '120' }, '% complete must be between 0 and 100'],
+    [{ amount: '100', milestone: 'roof' }, undefined],
+  ])('rejects %j', (input, message) => {
+    const result = drawRequestSubmissionSchema.safeParse(input);
+
+    expect(result.success).toBe(false);
+    if (message && !result.success) {
+      expect(result.error.issues[0]?.message).toBe(message);
+    }
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for the stored project report helpers: report types, titles,
+ * filenames, storage paths and which photos can be embedded.
+ */
+
+import {
+  PROJECT_REPORT_TYPES,
+  buildProjectReportPath,
+  getAttachmentDisposition,
+  getProjectReportFilename,
+  getProjectReportTitle,
+  isDrawReportType,
+  isEmbeddablePhoto,
+  isProjectReportType,
+} from '@/lib/pdf/reports';
+
+describe('report types', () => {
+  it('accepts every known report type', () => {
+    expect(PROJECT_REPORT_TYPES).toContain('executive-summary');
+    expect(PROJECT_REPORT_TYPES).toContain('draw-packet');
+    PROJECT_REPORT_TYPES.forEach((type) => expect(isProjectReportType(type)).toBe(true));
+  });
+
+  it('rejects unknown values', () => {
+    expect(isProjectReportType('balance-sheet')).toBe(false);
+    expect(isProjectReportType('toString')).toBe(false);
+    expect(isProjectReportType(undefined)).toBe(false);
+    expect(isProjectReportType(42)).toBe(false);
+  });
+
+  it('only requires a draw for draw packets', () => {
+    expect(isDrawReportType('draw-packet')).toBe(true);
+    expect(isDrawReportType('draw-schedule')).toBe(false);
+  });
+});
+
+describe('getProjectReportTitle', () => {
+  it('uses the report label', () => {
+    expect(getProjectReportTitle('executive-summary')).toBe('Executive Summary');
+    expect(getProjectReportTitle('draw-schedule', 2)).toBe('Draw Schedule');
+  });
+
+  it('names draw packets after the draw', () => {
+    expect(getProjectReportTitle('draw-packet', 3)).toBe('Draw #3 Packet');
+  });
+});
+
+describe('getProjectReportFilename', () => {
+  const generatedAt = new Date('2026-03-09T15:00:00Z');
+
+  it('joins the project, title and date', () => {
+    expect(getProjectReportFilename('Maple St Flip', 'Executive Summary', generatedAt)).toBe(
+      'Maple_St_Flip_Executive_Summary_2026-03-09.pdf'
+    );
+  });
+
+  it('strips punctuation and falls back when the name is empty', () => {
+    expect(getProjectReportFilename('12 Oak Ave. #4', 'Draw #3 Packet', generatedAt)).toBe(
+      '12_Oak_Ave_4_Draw_3_Packet_2026-03-09.pdf'
+    );
+    expect(getProjectReportFilename('!!!', 'Detailed Budget', generatedAt)).toBe(
+      'Project_Detailed_Budget_2026-03-09.pdf'
+    );
+  });
+});
+
+describe('storage', () => {
+  it('stores reports under the project folder', () => {
+    expect(buildProjectReportPath('project-1', 'report-1')).toBe('project-1/report-1.pdf');
+  });
+
+  it('only embeds JPEG and PNG photos', () => {
+    expect(isEmbeddablePhoto('p/photo.jpg')).toBe(true);
+    expect(isEmbeddablePhoto('p/photo.JPEG')).toBe(true);
+    expect(isEmbeddablePhoto('p/photo.png')).toBe(true);
+    expect(isEmbeddablePhoto('p/photo.webp')).toBe(false);
+    expect(isEmbeddablePhoto('p/photo.heic')).toBe(false);
+  });
+
+  it('builds a download disposition with an ASCII fallback', () => {
+    expect(getAttachmentDisposition('Report.pdf')).toBe(
+      'attachment; filename="Report.pdf"; filename*=UTF-8\'\'Report.pdf'
+    );
+    expect(getAttachmentDisposition('Café "A".pdf')).toBe(
+      'attachment; filename="Caf_ _A_.pdf"; filename*=UTF-8\'\'Caf%C3%A9%20%22A%22.pdf'
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for audit log formatting and activity feed filters
+ */
+
+import {
+  AUDIT_SYSTEM_ACTOR,
+  DEFAULT_AUDIT_LOG_FILTERS,
+  describeAuditEntry,
+  filterAuditEntries,
+  formatAuditValue,
+  getAuditActorName,
+  getAuditFieldDiffs,
+  groupAuditEntriesByDay,
+} from '@/lib/audit-log';
+import type { AuditLogEntryWithActor } from '@/types';
+
+function entry(overrides: Partial<AuditLogEntryWithActor> = {}): AuditLogEntryWithActor {
+  return {
+    id: 'a1',
+    workspace_id: 'w1',
+    project_id: 'p1',
+    table_name: 'budget_items',
+    record_id: 'b1',
+    record_label: 'Kitchen cabinets',
+    action: 'update',
+    changes: { forecast_amount: { old: 4000, new: 4500 } },
+    actor_id: 'u1',
+    created_at: '2026-03-15T15:30:00Z',
+    actor: { email: 'pat@example.com', full_name: 'Pat Lee' },
+    ...overrides,
+  };
+}
+
+describe('formatAuditValue', () => {
+  it('formats money, percents and booleans', () => {
+    expect(formatAuditValue('budget_items', 'forecast_amount', 4500)).toBe('$4,500.00');
+    expect(formatAuditValue('vendors', 'retainage_percent', 10)).toBe('10.0%');
+    expect(formatAuditValue('vendors', 'w9_on_file', true)).toBe('Yes');
+    expect(formatAuditValue('draws', 'date_paid', null)).toBe('-');
+  });
+
+  it('uses the app labels for statuses and categories', () => {
+    expect(formatAuditValue('budget_items', 'status', 'in_progress')).toBe('In Progress');
+    expect(formatAuditValue('projects', 'status', 'under_contract')).toBe('Under Contract');
+    expect(formatAuditValue('draws', 'status', 'approved')).toBe('Approved');
+    expect(formatAuditValue('budget_items', 'category', 'plumbing')).toBe('Plumbing');
+  });
+
+  it('resolves vendor ids from the context', () => {
+    const context = { vendorNames: { v1: 'ABC Plumbing' } };
+    expect(formatAuditValue('draws', 'vendor_id', 'v1', context)).toBe('ABC Plumbing');
+    expect(formatAuditValue('draws', 'vendor_id', 'gone', context)).toBe('Removed vendor');
+  });
+});
+
+describe('getAuditFieldDiffs', () => {
+  it('labels each change and lists known fields first', () => {
+    const diffs = getAuditFieldDiffs(
+      entry({
+        changes: {
+          notes: { old: null, new: 'Upgraded to shaker' },
+          status: { old: 'not_started', new: 'in_progress' },
+          forecast_amount: { old: 4000, new: 4500 },
+        },
+      })
+    );
+
+    expect(diffs.map((d) => d.label)).toEqual(['Forecast', 'Status', 'Notes']);
+    expect(diffs[0]).toEqual({ field: 'forecast_amount', label: 'Forecast', before: '$4,000.00', after: '$4,500.00' });
+    expect(diffs[2].before).toBe('-');
+  });
+});
+
+describe('describeAuditEntry', () => {
+  it('names the action and the record', () => {
+    expect(describeAuditEntry(entry())).toBe('changed budget item "Kitchen cabinets"');
+    expect(describeAuditEntry(entry({ table_name: 'draws', action: 'delete', record_label: 'Draw #3' }))).toBe(
+      'deleted draw "Draw #3"'
+    );
+    expect(describeAuditEntry(entry({ table_name: 'line_item_photos', action: 'insert', record_label: null }))).toBe(
+      'added photo'
+    );
+  });
+});
+
+describe('getAuditActorName', () => {
+  it('prefers the name, then the email', () => {
+    expect(getAuditActorName(entry())).toBe('Pat Lee');
+    expect(getAuditActorName(entry({ actor: { email: 'pat@example.com', full_name: null } }))).toBe('pat@example.com');
+  });
+
+  it('explains changes without a user', () => {
+    expect(getAuditActorName(entry({ actor_id: null, actor: null, table_name: 'draws', action: 'insert' }))).toBe(
+      'Vendor portal'
+    );
+    expect(getAuditActorName(entry({ actor_id: null, actor: null }))).toBe('System');
+    expect(getAuditActorName(entry({ actor: null }))).toBe('Former member');
+  });
+});
+
+describe('filterAuditEntries', () => {
+  const entries = [
+    entry({ id: 'a1' }),
+    entry({ id: 'a2', table_name: 'draws', action: 'insert', actor_id: null, actor: null, changes: { amount: { old: null, new: 5000 } } }),
+    entry({ id: 'a3', actor_id: 'u2', changes: { status: { old: 'not_started', new: 'complete' } } }),
+  ];
+
+  it('keeps everything by default', () => {
+    expect(filterAuditEntries(entries, DEFAULT_AUDIT_LOG_FILTERS)).toHaveLength(3);
+  });
+
+  it('filters by type, change, person and field', () => {
+    const ids = (filters: Parameters<typeof filterAuditEntries>[1]) =>
+      filterAuditEntries(entries, filters).map((e) => e.id);
+
+    expect(ids({ ...DEFAULT_AUDIT_LOG_FILTERS, table: 'draws' })).toEqual(['a2']);
+    expect(ids({ ...DEFAULT_AUDIT_LOG_FILTERS, action: 'update' })).toEqual(['a1', 'a3']);
+    expect(ids({ ...DEFAULT_AUDIT_LOG_FILTERS, actorId: AUDIT_SYSTEM_ACTOR })).toEqual(['a2']);
+    expect(ids({ ...DEFAULT_AUDIT_LOG_FILTERS, actorId: 'u2' })).toEqual(['a3']);
+    expect(ids({ ...DEFAULT_AUDIT_LOG_FILTERS, field: 'forecast_amount' })).toEqual(['a1']);
+  });
+});
+
+describe('groupAuditEntriesByDay', () => {
+  it('groups by day, newest first', () => {
+    const groups = groupAuditEntriesByDay([
+      entry({ id: 'old', created_at: '2026-03-10T12:00:00' }),
+      entry({ id: 'late', created_at: '2026-03-15T18:00:00' }),
+      entry({ id: 'early', created_at: '2026-03-15T09:00:00' }),
+    ]);
+
+    expect(groups.map((g) => g.day)).toEqual(['2026-03-15', '2026-03-10']);
+    expect(groups[0].entries.map((e) => e.id)).toEqual(['late', 'early']);
+  });
+});
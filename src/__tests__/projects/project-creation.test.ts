@@ -0,0 +1,43 @@
+/**
+ * Tests for project creation error mapping
+ */
+
+import {
+  CREATE_PROJECT_ERROR_MESSAGES,
+  CreateProjectError,
+  toCreateProjectError,
+} from '@/lib/project-creation';
+
+describe('toCreateProjectError', () => {
+  it('reads the code from the RPC hint', () => {
+    const error = toCreateProjectError({
+      code: 'P0001',
+      message: 'Budget template not found',
+      hint: 'budget_template_not_found',
+    });
+
+    expect(error).toBeInstanceOf(CreateProjectError);
+    expect(error.code).toBe('budget_template_not_found');
+    expect(error.message).toBe(CREATE_PROJECT_ERROR_MESSAGES.budget_template_not_found);
+  });
+
+  it('maps constraint and permission errors from the insert', () => {
+    expect(toCreateProjectError({ code: '23514', message: 'check', hint: null }).code).toBe('invalid_project');
+    expect(toCreateProjectError({ code: '22P02', message: 'enum', hint: null }).code).toBe('invalid_project');
+    expect(toCreateProjectError({ code: '42501', message: 'rls', hint: null }).code).toBe('permission_denied');
+  });
+
+  it('falls back to unknown and keeps the original error', () => {
+    const original = new Error('Failed to fetch');
+    const error = toCreateProjectError(original);
+
+    expect(error.code).toBe('unknown');
+    expect(error.cause).toBe(original);
+    expect(toCreateProjectError(null).code).toBe('unknown');
+  });
+
+  it('passes a CreateProjectError through', () => {
+    const error = new CreateProjectError('invalid_project');
+    expect(toCreateProjectError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for construction schedule dates, critical path, rescheduling and template seeding
+ */
+
+import {
+  buildScheduleSeed,
+  computeSchedule,
+  getChangedScheduleDates,
+  getScheduleAnchor,
+  getTaskFinish,
+  rescheduleTask,
+  wouldCreateCycle,
+  type ScheduleTemplateTask,
+} from '@/lib/schedule';
+import { scheduleToTimelineEvents } from '@/lib/timeline-utils';
+import type { ProjectSummary, ScheduleTask, ScheduleTaskDependency } from '@/types';
+
+function task(id: string, durationDays: number, startDate: string | null = null, sortOrder = 0): ScheduleTask {
+  return {
+    id,
+    project_id: 'p1',
+    name: `Task ${id}`,
+    category: null,
+    vendor_id: null,
+    start_date: startDate,
+    duration_days: durationDays,
+    completed_at: null,
+    sort_order: sortOrder,
+    notes: null,
+    created_at: '2026-01-01',
+    updated_at: '2026-01-01',
+  };
+}
+
+function dep(taskId: string, predecessorId: string): ScheduleTaskDependency {
+  return { task_id: taskId, predecessor_id: predecessorId };
+}
+
+// demo -> plumbing (3d) and electrical (1d) in parallel -> drywall
+const tasks = [
+  task('demo', 2, '2026-03-02', 0),
+  task('plumbing', 3, null, 1),
+  task('electrical', 1, null, 2),
+  task('drywall', 4, null, 3),
+];
+const dependencies = [
+  dep('plumbing', 'demo'),
+  dep('electrical', 'demo'),
+  dep('drywall', 'plumbing'),
+  dep('drywall', 'electrical'),
+];
+
+describe('computeSchedule', () => {
+  it('starts each task the day after its last predecessor finishes', () => {
+    const schedule = computeSchedule(tasks, dependencies, '2026-03-01');
+    const byId = Object.fromEntries(schedule.tasks.map((t) => [t.task.id, t]));
+
+    expect(byId.demo).toMatchObject({ start: '2026-03-02', finish: '2026-03-03' });
+    expect(byId.plumbing).toMatchObject({ start: '2026-03-04', finish: '2026-03-06' });
+    expect(byId.electrical).toMatchObject({ start: '2026-03-04', finish: '2026-03-04' });
+    expect(byId.drywall).toMatchObject({ start: '2026-03-07', finish: '2026-03-10' });
+    expect(schedule).toMatchObject({ start: '2026-03-02', finish: '2026-03-10', durationDays: 9 });
+  });
+
+  it('finds the critical path and the slack off it', () => {
+    const schedule = computeSchedule(tasks, dependencies, '2026-03-01');
+    const byId = Object.fromEntries(schedule.tasks.map((t) => [t.task.id, t]));
+
+    expect(schedule.criticalTaskIds).toEqual(['demo', 'plumbing', 'drywall']);
+    expect(byId.electrical.totalFloat).toBe(2);
+    expect(byId.electrical.isCritical).toBe(false);
+  });
+
+  it('orders by dependency before sort order', () => {
+    const reversed = [task('b', 1, null, 0), task('a', 1, '2026-03-02', 1)];
+    const schedule = computeSchedule(reversed, [dep('b', 'a')], '2026-03-01');
+    expect(schedule.tasks.map((t) => t.task.id)).toEqual(['a', 'b']);
+  });
+
+  it('flags tasks a predecessor has pushed past their saved start', () => {
+    const saved = [task('a', 5, '2026-03-02'), task('b', 1, '2026-03-04')];
+    const schedule = computeSchedule(saved, [dep('b', 'a')], '2026-03-01');
+
+    expect(schedule.tasks[1]).toMatchObject({ start: '2026-03-07', isPushed: true });
+    expect(getChangedScheduleDates(schedule)).toEqual([{ id: 'b', start_date: '2026-03-07' }]);
+  });
+
+  it('starts unscheduled tasks on the anchor date and handles an empty schedule', () => {
+    expect(computeSchedule([task('a', 2)], [], '2026-05-01').tasks[0].start).toBe('2026-05-01');
+    expect(computeSchedule([], [], '2026-05-01')).toMatchObject({ start: null, finish: null, durationDays: 0 });
+  });
+});
+
+describe('rescheduleTask', () => {
+  const saved = computeSchedule(tasks, dependencies, '2026-03-01').tasks.map((t) => ({
+    ...t.task,
+    start_date: t.start,
+  }));
+
+  it('pushes dependents when a task moves later', () => {
+    const { schedule, changed } = rescheduleTask(saved, dependencies, '2026-03-01', 'demo', '2026-03-05');
+
+    expect(schedule.finish).toBe('2026-03-13');
+    expect(changed.map((d) => d.id)).toEqual(['demo', 'plumbing', 'electrical', 'drywall']);
+  });
+
+  it('moves a task with slack without touching the finish', () => {
+    const { schedule, changed } = rescheduleTask(saved, dependencies, '2026-03-01', 'electrical', '2026-03-06');
+
+    expect(changed).toEqual([{ id: 'electrical', start_date: '2026-03-06' }]);
+    expect(schedule.finish).toBe('2026-03-10');
+  });
+
+  it("won't start a task before its predecessors finish", () => {
+    const { changed } = rescheduleTask(saved, dependencies, '2026-03-01', 'drywall', '2026-03-01');
+    expect(changed).toEqual([]);
+  });
+});
+
+describe('schedule helpers', () => {
+  it('counts the start day in a task duration', () => {
+    expect(getTaskFinish('2026-03-30', 3)).toBe('2026-04-01');
+    expect(getTaskFinish('2026-03-30', 1)).toBe('2026-03-30');
+  });
+
+  it('anchors on rehab start, then closing, then today', () => {
+    expect(getScheduleAnchor({ rehab_start_date: '2026-02-10', close_date: '2026-02-01' })).toBe('2026-02-10');
+    expect(getScheduleAnchor({ rehab_start_date: null, close_date: '2026-02-01' })).toBe('2026-02-01');
+    expect(getScheduleAnchor({ rehab_start_date: null, close_date: null }, new Date(2026, 5, 3))).toBe('2026-06-03');
+  });
+
+  it('detects dependencies that would close a loop', () => {
+    expect(wouldCreateCycle(dependencies, 'demo', 'drywall')).toBe(true);
+    expect(wouldCreateCycle(dependencies, 'demo', 'demo')).toBe(true);
+    expect(wouldCreateCycle(dependencies, 'electrical', 'plumbing')).toBe(false);
+  });
+
+  it('turns scheduled tasks into timeline events', () => {
+    const project = { id: 'p1', address: '12 Oak St', status: 'in_rehab', arv: 300000 } as ProjectSummary;
+    const events = scheduleToTimelineEvents(project, computeSchedule(tasks, dependencies, '2026-03-01'));
+
+    expect(events).toHaveLength(4);
+    expect(events[3]).toMatchObject({ id: 'drywall', type: 'task', isCritical: true, dependencies: ['plumbing', 'electrical'] });
+  });
+});
+
+describe('buildScheduleSeed', () => {
+  const template: ScheduleTemplateTask[] = [
+    { key: 'demo', name: 'Demo', category: 'demo', durationDays: 2, after: [] },
+    { key: 'hvac', name: 'HVAC', category: 'hvac', durationDays: 2, after: ['demo'] },
+    { key: 'inspection', name: 'Inspection', category: null, durationDays: 1, after: ['hvac'] },
+    { key: 'paint', name: 'Paint', category: 'interior_paint', durationDays: 3, after: ['inspection'] },
+  ];
+
+  it('skips trades not in the budget and links around them', () => {
+    const seed = buildScheduleSeed(
+      [
+        { category: 'demo', vendor_id: 'v1' },
+        { category: 'interior_paint', vendor_id: 'v2' },
+        { category: 'interior_paint', vendor_id: 'v3' },
+        { category: 'interior_paint', vendor_id: 'v3' },
+      ],
+      '2026-03-02',
+      template
+    );
+
+    expect(seed.map((t) => t.key)).toEqual(['demo', 'inspection', 'paint']);
+    expect(seed[1].predecessor_keys).toEqual(['demo']);
+    expect(seed[0]).toMatchObject({ vendor_id: 'v1', start_date: '2026-03-02' });
+    expect(seed[2]).toMatchObject({ vendor_id: 'v3', start_date: null });
+  });
+
+  it('uses the whole template for an empty budget', () => {
+    expect(buildScheduleSeed([], '2026-03-02', template)).toHaveLength(4);
+  });
+});
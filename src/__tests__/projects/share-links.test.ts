@@ -0,0 +1,74 @@
+/**
+ * Tests for project share link helpers
+ */
+
+import {
+  buildShareLinkUrl,
+  generateShareToken,
+  getSharedBudgetTotals,
+  isShareLinkPath,
+  validateShareLinkInput,
+  type ShareLinkInput,
+} from '@/lib/share-links';
+
+describe('isShareLinkPath', () => {
+  const token = generateShareToken();
+
+  it('accepts the share page for a well-formed token', () => {
+    expect(isShareLinkPath(`/share/${token}`)).toBe(true);
+    expect(isShareLinkPath(`/share/${token}/`)).toBe(true);
+  });
+
+  it('rejects anything else under or next to /share', () => {
+    expect(isShareLinkPath('/share')).toBe(false);
+    expect(isShareLinkPath('/share/')).toBe(false);
+    expect(isShareLinkPath('/share/not-a-token')).toBe(false);
+    expect(isShareLinkPath(`/share/${token}/edit`)).toBe(false);
+    expect(isShareLinkPath(`/shared/${token}`)).toBe(false);
+    expect(isShareLinkPath(`/projects/share/${token}`)).toBe(false);
+    expect(isShareLinkPath(`/share/${token.slice(0, 42)}!`)).toBe(false);
+  });
+});
+
+describe('validateShareLinkInput', () => {
+  const valid: ShareLinkInput = {
+    label: 'First Street Capital',
+    sections: ['deal_summary', 'budget', 'photos'],
+    budgetColumns: ['forecast', 'actual'],
+    photoIds: ['p1'],
+  };
+
+  it('accepts a complete link', () => {
+    expect(validateShareLinkInput(valid)).toBeNull();
+  });
+
+  it('requires a label and at least one section', () => {
+    expect(validateShareLinkInput({ ...valid, label: '  ' })).toBe('Enter who the link is for');
+    expect(validateShareLinkInput({ ...valid, sections: [] })).toBe('Share at least one section');
+  });
+
+  it('requires budget columns and photos only when those sections are shared', () => {
+    expect(validateShareLinkInput({ ...valid, budgetColumns: [] })).toBe('Pick at least one budget column');
+    expect(validateShareLinkInput({ ...valid, photoIds: [] })).toBe('Pick the photos to share');
+    expect(validateShareLinkInput({ ...valid, sections: ['deal_summary'], budgetColumns: [], photoIds: [] })).toBeNull();
+  });
+});
+
+describe('buildShareLinkUrl', () => {
+  it('builds the link to send', () => {
+    expect(buildShareLinkUrl('https://app.example.com/', 'abc123')).toBe('https://app.example.com/share/abc123');
+  });
+});
+
+describe('getSharedBudgetTotals', () => {
+  it('totals only the shared columns', () => {
+    const budget = [
+      { category: 'demo' as const, forecast: 4000, actual: 3500 },
+      { category: 'plumbing' as const, forecast: 6000, actual: 1200 },
+    ];
+
+    expect(getSharedBudgetTotals(budget, ['forecast', 'actual'])).toEqual({ forecast: 10000, actual: 4700 });
+    expect(getSharedBudgetTotals(budget, ['actual'])).toEqual({ actual: 4700 });
+    expect(getSharedBudgetTotals([], ['forecast'])).toEqual({ forecast: 0 });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for calculation settings profile resolution
+ */
+
+import {
+  toCalculationSettingsInput,
+  resolveCalculationSettings,
+} from '@/lib/calculation-settings';
+import { DEFAULT_CALCULATION_SETTINGS, type CalculationSettings } from '@/types';
+
+function createProfile(overrides: Partial<CalculationSettings> = {}): CalculationSettings {
+  return {
+    ...DEFAULT_CALCULATION_SETTINGS,
+    id: 'profile-1',
+    user_id: 'user-1',
+    is_default: false,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('toCalculationSettingsInput', () => {
+  it('returns the built-in defaults when there is no row', () => {
+    expect(toCalculationSettingsInput(null)).toEqual(DEFAULT_CALCULATION_SETTINGS);
+  });
+
+  it('strips row metadata', () => {
+    const result = toCalculationSettingsInput(createProfile()) as unknown as Record<string, unknown>;
+
+    expect(result.id).toBeUndefined();
+    expect(result.user_id).toBeUndefined();
+    expect(result.created_at).toBeUndefined();
+  });
+
+  it('fills null columns from the defaults', () => {
+    const row = createProfile({
+      mao_arv_multiplier: null as unknown as number,
+      mao_method: 'custom_percentage',
+    });
+
+    const result = toCalculationSettingsInput(row);
+
+    expect(result.mao_method).toBe('custom_percentage');
+    expect(result.mao_arv_multiplier).toBe(DEFAULT_CALCULATION_SETTINGS.mao_arv_multiplier);
+  });
+
+  it('merges partial JSON columns key by key', () => {
+    const row = createProfile({
+      holding_cost_items: { taxes: 400 } as CalculationSettings['holding_cost_items'],
+    });
+
+    const result = toCalculationSettingsInput(row);
+
+    expect(result.holding_cost_items.taxes).toBe(400);
+    expect(result.holding_cost_items.insurance).toBe(DEFAULT_CALCULATION_SETTINGS.holding_cost_items.insurance);
+  });
+});
+
+describe('resolveCalculationSettings', () => {
+  const conservative = createProfile({ id: 'conservative', name: 'Conservative lender', mao_arv_multiplier: 0.65 });
+  const aggressive = createProfile({ id: 'aggressive', name: 'Aggressive wholesale', mao_arv_multiplier: 0.8, is_default: true });
+
+  it('uses the profile assigned to the project', () => {
+    const result = resolveCalculationSettings([conservative, aggressive], 'conservative');
+    expect(result.name).toBe('Conservative lender');
+  });
+
+  it('falls back to the default profile when none is assigned', () => {
+    const result = resolveCalculationSettings([conservative, aggressive], null);
+    expect(result.name).toBe('Aggressive wholesale');
+  });
+
+  it('falls back to the default profile when the assigned one no longer exists', () => {
+    const result = resolveCalculationSettings([conservative, aggressive], 'deleted');
+    expect(result.mao_arv_multiplier).toBe(0.8);
+  });
+
+  it('falls back to the built-in defaults when the user has no profiles', () => {
+    expect(resolveCalculationSettings([], null)).toEqual(DEFAULT_CALCULATION_SETTINGS);
+  });
+
+  it("uses the project owner's default, not a teammate's", () => {
+    const ownerDefault = createProfile({ id: 'owner', user_id: 'owner-1', name: 'Owner default', is_default: true });
+    const teammateDefault = createProfile({ id: 'mine', user_id: 'pm-1', name: 'PM default', is_default: true });
+
+    expect(resolveCalculationSettings([teammateDefault, ownerDefault], null, 'owner-1').name).toBe('Owner default');
+    // The owner's default isn't readable: built-in defaults, as in project_summary
+    expect(resolveCalculationSettings([teammateDefault], null, 'owner-1')).toEqual(DEFAULT_CALCULATION_SETTINGS);
+  });
+});
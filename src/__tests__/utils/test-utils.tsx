@@ -2,6 +2,7 @@ import React, { type ReactElement, type ReactNode } from 'react';
 import { render, type RenderOptions } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import type { User, Session } from '@supabase/supabase-js';
+import type { BudgetItem, Vendor } from '@/types';
 
 // ============================================================================
 // Mock Supabase Client Factory
@@ -94,6 +95,69 @@ export function createMockSession(user?: User, overrides?: Partial<Session>): Se
   };
 }
 
+// ============================================================================
+// Mock Record Factories
+// ============================================================================
+
+export function createMockBudgetItem(overrides?: Partial<BudgetItem>): BudgetItem {
+  return {
+    id: 'test-item-id',
+    project_id: 'p1',
+    vendor_id: null,
+    category: 'kitchen',
+    item: 'Test item',
+    description: null,
+    room_area: null,
+    qty: 1,
+    unit: 'ls',
+    rate: 0,
+    underwriting_amount: 0,
+    forecast_amount: 0,
+    actual_amount: null,
+    actual_from_draws: false,
+    manual_actual_amount: null,
+    forecast_variance: null,
+    actual_variance: null,
+    total_variance: null,
+    cost_type: 'both',
+    status: 'not_started',
+    priority: 'medium',
+    completed_at: null,
+    sort_order: 0,
+    notes: null,
+    created_at: '2026-01-01',
+    updated_at: '2026-01-01',
+    ...overrides,
+  };
+}
+
+export function createMockVendor(overrides?: Partial<Vendor>): Vendor {
+  return {
+    id: 'test-vendor-id',
+    user_id: 'u1',
+    workspace_id: 'w1',
+    name: 'Test Vendor',
+    trade: 'general_contractor',
+    contact_name: null,
+    phone: null,
+    email: null,
+    website: null,
+    address: null,
+    licensed: true,
+    insured: true,
+    w9_on_file: true,
+    retainage_percent: 0,
+    rating: null,
+    reliability: null,
+    price_level: null,
+    status: 'active',
+    notes: null,
+    created_at: '2026-01-01',
+    updated_at: '2026-01-01',
+    ...overrides,
+  };
+}
+
 // ============================================================================
 // Test Query Client
 // ============================================================================
@@ -0,0 +1,256 @@
+/**
+ * Tests for the 1099-NEC vendor payment report and filing CSV
+ */
+
+import {
+  build1099NecCsv,
+  build1099Report,
+  get1099StatementFilename,
+  getRetainageProjectIds,
+  getTaxYearOptions,
+  splitVendorAddress,
+  toTax1099Payments,
+  type Tax1099DrawRow,
+  type Tax1099Payment,
+} from '@/lib/tax-1099';
+import type { PaymentMethod, Vendor } from '@/types';
+import { createMockVendor } from '../utils/test-utils';
+
+function vendor(id: string, name: string, overrides: Partial<Vendor> = {}): Vendor {
+  return createMockVendor({ id, name, ...overrides });
+}
+
+let drawNumber = 0;
+function payment(
+  vendorId: string | null,
+  amount: number,
+  datePaid: string | null,
+  method: PaymentMethod | null = 'check',
+  projectId = 'p1'
+): Tax1099Payment {
+  drawNumber += 1;
+  return {
+    id: `d${drawNumber}`,
+    project_id: projectId,
+    vendor_id: vendorId,
+    draw_number: drawNumber,
+    amount,
+    date_paid: datePaid,
+    payment_method: method,
+    project_name: projectId === 'p1' ? 'Maple St' : 'Oak Ave',
+  };
+}
+
+describe('build1099Report', () => {
+  const plumber = vendor('v1', 'Pat Plumbing', { w9_on_file: false });
+  const electrician = vendor('v2', 'Sparks Electric');
+  const painter = vendor('v3', 'Fresh Coat');
+
+  it('totals paid draws by vendor across projects within the tax year', () => {
+    const report = build1099Report(
+      2025,
+      [
+        payment('v2', 400, '2025-02-10', 'check', 'p1'),
+        payment('v2', 350.5, '2025-11-30', 'zelle', 'p2'),
+        payment('v2', 9000, '2024-12-31'),
+        payment('v2', 9000, '2026-01-01'),
+      ],
+      [electrician]
+    );
+
+    expect(report.vendors).toHaveLength(1);
+    expect(report.vendors[0].total).toBe(750.5);
+    expect(report.vendors[0].payments.map((p) => p.date_paid)).toEqual(['2025-02-10', '2025-11-30']);
+    expect(report.reportableTotal).toBe(750.5);
+  });
+
+  it('leaves card payments out of the total but reports them separately', () => {
+    const report = build1099Report(
+      2025,
+      [payment('v2', 500, '2025-03-01'), payment('v2', 800, '2025-04-01', 'credit_card')],
+      [electrician]
+    );
+
+    expect(report.vendors[0].total).toBe(500);
+    expect(report.vendors[0].excludedTotal).toBe(800);
+    expect(report.vendors[0].reportable).toBe(false);
+  });
+
+  it('flags reportable vendors without a W-9', () => {
+    const report = build1099Report(
+      2025,
+      [payment('v1', 600, '2025-05-01'), payment('v2', 2000, '2025-05-01'), payment('v3', 599.99, '2025-05-01')],
+      [plumber, electrician, painter]
+    );
+
+    const byId = Object.fromEntries(report.vendors.map((s) => [s.vendor.id, s]));
+    expect(byId.v1.reportable).toBe(true);
+    expect(byId.v1.needsW9).toBe(true);
+    expect(byId.v2.needsW9).toBe(false);
+    expect(byId.v3.reportable).toBe(false);
+    expect(report.reportableCount).toBe(2);
+    expect(report.needsW9Count).toBe(1);
+  });
+
+  it('does not flag a missing W-9 under the threshold', () => {
+    const report = build1099Report(2025, [payment('v1', 100, '2025-05-01')], [plumber]);
+    expect(report.vendors[0].needsW9).toBe(false);
+  });
+
+  it('sorts reportable vendors first, largest total first', () => {
+    const report = build1099Report(
+      2025,
+      [payment('v3', 200, '2025-01-05'), payment('v1', 700, '2025-01-05'), payment('v2', 5000, '2025-01-05')],
+      [plumber, electrician, painter]
+    );
+    expect(report.vendors.map((s) => s.vendor.id)).toEqual(['v2', 'v1', 'v3']);
+  });
+
+  it('skips draws without a vendor, date paid or known vendor', () => {
+    const report = build1099Report(
+      2025,
+      [payment(null, 1000, '2025-01-05'), payment('v2', 1000, null), payment('gone', 1000, '2025-01-05')],
+      [electrician]
+    );
+    expect(report.vendors).toHaveLength(0);
+  });
+});
+
+describe('toTax1099Payments', () => {
+  function drawRow(overrides: Partial<Tax1099DrawRow> = {}): Tax1099DrawRow {
+    return {
+      id: 'd1',
+      project_id: 'p1',
+      vendor_id: 'v1',
+      draw_number: 1,
+      milestone: 'rough_in',
+      status: 'paid',
+      amount: 10000,
+      date_paid: '2025-06-01',
+      payment_method: 'check',
+      projects: { name: 'Maple St' },
+      draw_allocations: [],
+      ...overrides,
+    };
+  }
+
+  function allocation(drawId: string, vendorId: string | null, amount: number, retainagePercent: number) {
+    return { draw_id: drawId, budget_item_id: 'b1', vendor_id: vendorId, amount, retainage_percent: retainagePercent };
+  }
+
+  it('flattens the joined project name and coerces amounts', () => {
+    const [row] = toTax1099Payments([drawRow({ amount: '1250.00' as unknown as number })]);
+    expect(row.amount).toBe(1250);
+    expect(row.project_name).toBe('Maple St');
+    expect(row).not.toHaveProperty('projects');
+    expect(row).not.toHaveProperty('draw_allocations');
+  });
+
+  it('pays each allocation vendor their share less retainage', () => {
+    const payments = toTax1099Payments([
+      drawRow({
+        draw_allocations: [
+          allocation('d1', 'v1', '6000.00' as unknown as number, 10),
+          allocation('d1', 'v2', 3000, 5),
+          allocation('d1', null, 1000, 10),
+        ],
+      }),
+    ]);
+
+    expect(payments.map((p) => [p.vendor_id, p.amount])).toEqual([
+      ['v1', 6300],
+      ['v2', 2850],
+    ]);
+
+    const report = build1099Report(2025, payments, [vendor('v1', 'Pat Plumbing'), vendor('v2', 'Sparks Electric')]);
+    expect(report.vendors.map((s) => [s.vendor.id, s.total])).toEqual([
+      ['v1', 6300],
+      ['v2', 2850],
+    ]);
+    expect(report.reportableTotal).toBe(9150);
+  });
+
+  it('pays out retainage held on earlier draws with the final draw', () => {
+    const progress = drawRow({
+      date_paid: '2024-11-15',
+      draw_allocations: [allocation('d1', 'v1', 6000, 10), allocation('d1', 'v2', 4000, 10)],
+    });
+    const final = drawRow({
+      id: 'd2',
+      draw_number: 2,
+      milestone: 'final',
+      amount: 2000,
+      date_paid: '2025-03-01',
+      draw_allocations: [allocation('d2', 'v1', 2000, 0)],
+    });
+
+    expect(getRetainageProjectIds([final])).toEqual(['p1']);
+
+    const payments = toTax1099Payments([final], [progress, final]);
+    expect(payments.map((p) => [p.vendor_id, p.amount])).toEqual([['v1', 2600]]);
+  });
+
+  it('releases nothing without the project draws', () => {
+    const final = drawRow({ milestone: 'final', draw_allocations: [allocation('d1', 'v1', 2000, 0)] });
+    expect(toTax1099Payments([final]).map((p) => p.amount)).toEqual([2000]);
+  });
+});
+
+describe('splitVendorAddress', () => {
+  it('splits a one-line US address', () => {
+    expect(splitVendorAddress('123 Main St, Suite 4, Minneapolis, mn 55401-1234')).toEqual({
+      street: '123 Main St, Suite 4',
+      city: 'Minneapolis',
+      state: 'MN',
+      zip: '55401-1234',
+    });
+  });
+
+  it('keeps an address it cannot parse whole', () => {
+    expect(splitVendorAddress('PO Box 12')).toEqual({ street: 'PO Box 12', city: '', state: '', zip: '' });
+    expect(splitVendorAddress(null).street).toBe('');
+  });
+});
+
+describe('build1099NecCsv', () => {
+  it('writes one row per reportable vendor with quoted fields', () => {
+    const report = build1099Report(
+      2025,
+      [payment('v1', 1234.5, '2025-07-01'), payment('v2', 50, '2025-07-01')],
+      [
+        vendor('v1', 'Smith, "Pat" Builders', {
+          address: '9 Elm St, Austin, TX 78701',
+          email: 'pat@example.com',
+        }),
+        vendor('v2', 'Small Job LLC'),
+      ]
+    );
+
+    const lines = build1099NecCsv(report).split('\r\n');
+    expect(lines[0]).toBe(
+      'Tax Year,Account Number,Recipient Name,Recipient TIN,Address,City,State,ZIP,Email,' +
+        'Box 1 Nonemployee Compensation,Box 4 Federal Income Tax Withheld'
+    );
+    expect(lines[1]).toBe('2025,v1,"Smith, ""Pat"" Builders",,9 Elm St,Austin,TX,78701,pat@example.com,1234.50,0.00');
+    expect(lines).toHaveLength(3); // header, one vendor, trailing newline
+  });
+
+  it('keeps names a spreadsheet would read as a formula as text', () => {
+    const report = build1099Report(2025, [payment('v1', 900, '2025-07-01')], [vendor('v1', '@SUM(A1:A9)')]);
+
+    expect(build1099NecCsv(report).split('\r\n')[1]).toMatch(/^2025,v1,'@SUM\(A1:A9\),/);
+  });
+});
+
+describe('getTaxYearOptions', () => {
+  it('defaults to the prior year until April', () => {
+    expect(getTaxYearOptions(new Date(2026, 1, 15))).toEqual({ years: [2026, 2025, 2024, 2023], defaultYear: 2025 });
+    expect(getTaxYearOptions(new Date(2026, 3, 1)).defaultYear).toBe(2026);
+  });
+});
+
+describe('get1099StatementFilename', () => {
+  it('makes the vendor name safe for a file name', () => {
+    expect(get1099StatementFilename('A&B Roofing, LLC', 2025)).toBe('A_B_Roofing_LLC_1099_Statement_2025.pdf');
+  });
+});
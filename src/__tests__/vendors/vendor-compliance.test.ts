@@ -0,0 +1,172 @@
+/**
+ * Tests for vendor compliance documents and the draw approval gate
+ */
+
+import {
+  VendorInsuranceLapsedError,
+  buildVendorDocumentPath,
+  getDocumentExpiryStatus,
+  getExpiringDocuments,
+  getLatestVendorDocuments,
+  getVendorInsurance,
+  isVendorInsuranceLapsed,
+  toDrawStatusError,
+} from '@/lib/vendor-compliance';
+import type { Vendor, VendorDocument, VendorDocumentType } from '@/types';
+import { createMockVendor } from '../utils/test-utils';
+
+const AS_OF = new Date(2026, 2, 15); // Mar 15, 2026
+
+function vendor(id: string, name: string, status: Vendor['status'] = 'active'): Vendor {
+  return createMockVendor({ id, name, status });
+}
+
+function doc(
+  id: string,
+  vendorId: string,
+  type: VendorDocumentType,
+  expiration: string | null,
+  createdAt = '2026-01-01T00:00:00Z'
+): VendorDocument {
+  return {
+    id,
+    vendor_id: vendorId,
+    document_type: type,
+    document_number: `#${id}`,
+    issuer: null,
+    per_occurrence_limit: null,
+    aggregate_limit: null,
+    effective_date: null,
+    expiration_date: expiration,
+    notes: null,
+    storage_path: `${vendorId}/${id}.pdf`,
+    file_name: `${id}.pdf`,
+    file_size: 1024,
+    content_type: 'application/pdf',
+    created_at: createdAt,
+    updated_at: createdAt,
+  };
+}
+
+describe('getDocumentExpiryStatus', () => {
+  it('is still good on the day it expires', () => {
+    expect(getDocumentExpiryStatus({ expiration_date: '2026-03-15' }, AS_OF)).toBe('expiring_soon');
+    expect(getDocumentExpiryStatus({ expiration_date: '2026-03-14' }, AS_OF)).toBe('expired');
+  });
+
+  it('flags documents inside the expiring-soon window', () => {
+    expect(getDocumentExpiryStatus({ expiration_date: '2026-04-14' }, AS_OF)).toBe('expiring_soon');
+    expect(getDocumentExpiryStatus({ expiration_date: '2026-04-15' }, AS_OF)).toBe('current');
+    expect(getDocumentExpiryStatus({ expiration_date: '2026-04-15' }, AS_OF, 45)).toBe('expiring_soon');
+  });
+
+  it('treats a missing expiration as never expiring', () => {
+    expect(getDocumentExpiryStatus({ expiration_date: null }, AS_OF)).toBe('no_expiry');
+  });
+});
+
+describe('getLatestVendorDocuments', () => {
+  it('keeps the document that runs out last for each type', () => {
+    const latest = getLatestVendorDocuments([
+      doc('old-coi', 'v1', 'coi', '2026-01-31'),
+      doc('new-coi', 'v1', 'coi', '2027-01-31'),
+      doc('w9-a', 'v1', 'w9', null, '2025-06-01T00:00:00Z'),
+      doc('w9-b', 'v1', 'w9', null, '2026-02-01T00:00:00Z'),
+    ]);
+
+    expect(latest.coi?.id).toBe('new-coi');
+    expect(latest.w9?.id).toBe('w9-b');
+    expect(latest.license).toBeUndefined();
+  });
+});
+
+describe('getVendorInsurance', () => {
+  it('reports missing insurance without blocking draws', () => {
+    const docs = [doc('w9', 'v1', 'w9', null)];
+
+    expect(getVendorInsurance(docs, AS_OF)).toEqual({ status: 'missing', expiresOn: null });
+    expect(isVendorInsuranceLapsed(docs, AS_OF)).toBe(false);
+  });
+
+  it('is lapsed once the latest certificate has expired', () => {
+    const docs = [doc('coi-1', 'v1', 'coi', '2025-12-31'), doc('coi-2', 'v1', 'coi', '2026-03-01')];
+
+    expect(getVendorInsurance(docs, AS_OF)).toEqual({ status: 'lapsed', expiresOn: '2026-03-01' });
+    expect(isVendorInsuranceLapsed(docs, AS_OF)).toBe(true);
+  });
+
+  it('is current when a renewal replaces an expired certificate', () => {
+    const docs = [doc('coi-1', 'v1', 'coi', '2026-03-01'), doc('coi-2', 'v1', 'coi', '2027-03-01')];
+
+    expect(getVendorInsurance(docs, AS_OF).status).toBe('current');
+    expect(isVendorInsuranceLapsed(docs, AS_OF)).toBe(false);
+  });
+
+  it('warns before the certificate runs out', () => {
+    expect(getVendorInsurance([doc('coi', 'v1', 'coi', '2026-03-20')], AS_OF).status).toBe('expiring_soon');
+  });
+});
+
+describe('getExpiringDocuments', () => {
+  const vendors = [vendor('v1', 'Acme Electric'), vendor('v2', 'Best Plumbing'), vendor('v3', 'Dropped Co', 'do_not_use')];
+
+  it('lists expired and expiring documents soonest first', () => {
+    const rows = getExpiringDocuments(
+      vendors,
+      [
+        doc('v1-coi', 'v1', 'coi', '2026-04-01'),
+        doc('v1-license', 'v1', 'license', '2026-12-31'),
+        doc('v2-coi', 'v2', 'coi', '2026-03-10'),
+        doc('v2-license', 'v2', 'license', '2026-03-20'),
+      ],
+      AS_OF
+    );
+
+    expect(rows.map((r) => [r.document.id, r.status, r.daysRemaining])).toEqual([
+      ['v2-coi', 'expired', -5],
+      ['v2-license', 'expiring_soon', 5],
+      ['v1-coi', 'expiring_soon', 17],
+    ]);
+    expect(rows[0].vendor.name).toBe('Best Plumbing');
+  });
+
+  it('leaves out superseded documents and do-not-use vendors', () => {
+    const rows = getExpiringDocuments(
+      vendors,
+      [
+        doc('v1-old', 'v1', 'coi', '2026-03-01'),
+        doc('v1-new', 'v1', 'coi', '2027-03-01'),
+        doc('v3-coi', 'v3', 'coi', '2026-03-01'),
+        doc('orphan', 'gone', 'coi', '2026-03-01'),
+      ],
+      AS_OF
+    );
+
+    expect(rows).toEqual([]);
+  });
+});
+
+describe('buildVendorDocumentPath', () => {
+  it('files documents under the vendor id', () => {
+    expect(buildVendorDocumentPath('v1', 'abc', 'Acme COI 2026.PDF')).toBe('v1/abc.pdf');
+    expect(buildVendorDocumentPath('v1', 'abc', 'w9.png')).toBe('v1/abc.png');
+  });
+});
+
+describe('toDrawStatusError', () => {
+  it('maps the compliance gate to VendorInsuranceLapsedError', () => {
+    const error = toDrawStatusError({
+      code: 'P0001',
+      hint: 'vendor_insurance_lapsed',
+      message: "Acme Electric's certificate of insurance expired on Mar 01, 2026",
+    });
+
+    expect(error).toBeInstanceOf(VendorInsuranceLapsedError);
+    expect((error as Error).message).toBe("Acme Electric's certificate of insurance expired on Mar 01, 2026");
+  });
+
+  it('passes other errors through', () => {
+    const original = { code: '42501', hint: null, message: 'permission denied' };
+    expect(toDrawStatusError(original)).toBe(original);
+  });
+});
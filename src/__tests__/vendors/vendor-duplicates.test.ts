@@ -0,0 +1,123 @@
+/**
+ * Tests for duplicate vendor detection and merge field picks
+ */
+
+import {
+  buildMergedVendorFields,
+  findDuplicateVendors,
+  getDefaultFieldPicks,
+  getDuplicateReasons,
+  getNameSimilarity,
+  normalizePhone,
+  normalizeVendorName,
+} from '@/lib/vendor-duplicates';
+import type { Vendor } from '@/types';
+import { createMockVendor } from '../utils/test-utils';
+
+function vendor(id: string, name: string, overrides: Partial<Vendor> = {}): Vendor {
+  return createMockVendor({
+    id,
+    name,
+    trade: 'plumber',
+    licensed: false,
+    insured: false,
+    w9_on_file: false,
+    ...overrides,
+  });
+}
+
+describe('normalizePhone', () => {
+  it('formats any 10-digit number the same way', () => {
+    expect(normalizePhone('612.555.0142')).toBe('(612) 555-0142');
+    expect(normalizePhone('+1 612 555 0142')).toBe('(612) 555-0142');
+  });
+
+  it('ignores numbers that are not 10 digits', () => {
+    expect(normalizePhone('555-0142')).toBeNull();
+    expect(normalizePhone(null)).toBeNull();
+  });
+});
+
+describe('normalizeVendorName', () => {
+  it('drops punctuation and business suffixes', () => {
+    expect(normalizeVendorName('A.B.C. Plumbing, LLC')).toBe('abc plumbing');
+    expect(normalizeVendorName("Joe's Heating & Air Inc.")).toBe('joes heating and air');
+  });
+});
+
+describe('getNameSimilarity', () => {
+  it('treats names that normalize the same as identical', () => {
+    expect(getNameSimilarity('ABC Plumbing LLC', 'A.B.C. Plumbing')).toBe(1);
+  });
+
+  it('scores small typos high and different businesses low', () => {
+    expect(getNameSimilarity('Smith Plumbing', 'Smith Plumbng')).toBeGreaterThan(0.85);
+    expect(getNameSimilarity('Smith Plumbing', 'Jones Electric')).toBeLessThan(0.3);
+  });
+});
+
+describe('getDuplicateReasons', () => {
+  it('matches on phone, email and name independently', () => {
+    const a = vendor('v1', 'Smith Plumbing', { phone: '612-555-0142', email: 'Office@Smith.com ' });
+    const b = vendor('v2', 'Northside Pipes', { phone: '(612) 555-0142', email: 'office@smith.com' });
+    expect(getDuplicateReasons(a, b)).toEqual(['phone', 'email']);
+    expect(getDuplicateReasons(a, vendor('v3', 'Smith Plumbing LLC'))).toEqual(['name']);
+  });
+
+  it('does not match on missing contact details', () => {
+    expect(getDuplicateReasons(vendor('v1', 'Alpha Roofing'), vendor('v2', 'Beta Drywall'))).toEqual([]);
+  });
+});
+
+describe('findDuplicateVendors', () => {
+  it('chains matches into one group with the most complete vendor first, then by name', () => {
+    const vendors = [
+      vendor('v1', 'Smith Plumbing', { phone: '6125550142' }),
+      vendor('v2', 'Smith Plumbing LLC', { email: 'pat@smith.com', contact_name: 'Pat', created_at: '2026-02-01' }),
+      vendor('v3', 'Northside Pipes', { phone: '(612) 555-0142' }),
+      vendor('v4', 'Jones Electric'),
+    ];
+
+    const groups = findDuplicateVendors(vendors);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].vendors.map((v) => v.id)).toEqual(['v2', 'v3', 'v1']);
+    expect(groups[0].reasons).toEqual(['phone', 'name']);
+  });
+
+  it('returns nothing when every vendor is distinct', () => {
+    expect(findDuplicateVendors([vendor('v1', 'Alpha Roofing'), vendor('v2', 'Beta Drywall')])).toEqual([]);
+  });
+});
+
+describe('merge field picks', () => {
+  const survivor = vendor('v1', 'Smith Plumbing', { phone: '6125550142', rating: 4 });
+  const duplicate = vendor('v2', 'Smith Plumbing LLC', {
+    phone: '612-555-9999',
+    email: 'pat@smith.com',
+    w9_on_file: true,
+    notes: 'Imported',
+  });
+
+  it("keeps the survivor's values and fills its gaps from the others", () => {
+    const picks = getDefaultFieldPicks([survivor, duplicate], 'v1');
+    expect(picks.name).toBe('v1');
+    expect(picks.phone).toBe('v1');
+    expect(picks.email).toBe('v2');
+    expect(picks.w9_on_file).toBe('v2');
+    expect(picks.rating).toBe('v1');
+  });
+
+  it('builds the merged fields with a normalized phone', () => {
+    const picks = getDefaultFieldPicks([survivor, duplicate], 'v1');
+    const fields = buildMergedVendorFields([survivor, duplicate], { ...picks, name: 'v2' });
+    expect(fields).toMatchObject({
+      name: 'Smith Plumbing LLC',
+      phone: '(612) 555-0142',
+      email: 'pat@smith.com',
+      w9_on_file: true,
+      rating: 4,
+      notes: 'Imported',
+    });
+    expect(fields).not.toHaveProperty('id');
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Tests for vendor scorecards and the trade leaderboard
+ */
+
+import {
+  buildVendorScorecards,
+  getLeaderboardTrades,
+  getQuoteResponseTimes,
+  getTradeLeaderboard,
+  isItemLate,
+  toScorecardItems,
+  type ScorecardContact,
+  type ScorecardDraw,
+  type ScorecardItem,
+} from '@/lib/vendor-scorecard';
+import type { Vendor, VendorTrade } from '@/types';
+import { createMockVendor } from '../utils/test-utils';
+
+function vendor(id: string, name: string, trade: VendorTrade = 'plumber'): Vendor {
+  return createMockVendor({ id, name, trade });
+}
+
+let itemCount = 0;
+function item(vendorId: string, overrides: Partial<ScorecardItem> = {}): ScorecardItem {
+  itemCount += 1;
+  return {
+    id: `b${itemCount}`,
+    project_id: 'p1',
+    vendor_id: vendorId,
+    status: 'in_progress',
+    forecast_amount: 1000,
+    actual_amount: null,
+    actual_variance: null,
+    completed_at: null,
+    target_complete_date: null,
+    ...overrides,
+  };
+}
+
+function contact(
+  type: ScorecardContact['contact_type'],
+  date: string,
+  projectId: string | null = 'p1',
+  vendorId = 'v1'
+): ScorecardContact {
+  return { vendor_id: vendorId, project_id: projectId, contact_type: type, contact_date: date };
+}
+
+function draw(overrides: Partial<ScorecardDraw> = {}): ScorecardDraw {
+  return {
+    id: 'd1',
+    project_id: 'p1',
+    vendor_id: 'v1',
+    draw_number: 1,
+    milestone: 'rough_in',
+    amount: 0,
+    status: 'paid',
+    draw_allocations: [],
+    ...overrides,
+  };
+}
+
+function allocation(drawId: string, vendorId: string, amount: number, retainagePercent: number) {
+  return { draw_id: drawId, budget_item_id: 'b1', vendor_id: vendorId, amount, retainage_percent: retainagePercent };
+}
+
+describe('isItemLate', () => {
+  it('compares the completion date with the project target', () => {
+    expect(isItemLate({ completed_at: '2026-03-02T15:00:00', target_complete_date: '2026-03-01' })).toBe(true);
+    expect(isItemLate({ completed_at: '2026-03-01T15:00:00', target_complete_date: '2026-03-01' })).toBe(false);
+  });
+
+  it('has no answer without both dates', () => {
+    expect(isItemLate({ completed_at: null, target_complete_date: '2026-03-01' })).toBeNull();
+    expect(isItemLate({ completed_at: '2026-03-01T15:00:00', target_complete_date: null })).toBeNull();
+  });
+});
+
+describe('getQuoteResponseTimes', () => {
+  it('pairs each request with the next quote received on the same project', () => {
+    const result = getQuoteResponseTimes([
+      contact('quote_received', '2026-01-04T12:00:00Z'),
+      contact('quote_request', '2026-01-01T12:00:00Z'),
+      contact('quote_request', '2026-01-02T00:00:00Z', 'p2'),
+      contact('quote_received', '2026-01-03T00:00:00Z', 'p2'),
+    ]);
+    expect(result.responseDays).toEqual([1, 3]);
+    expect(result.openRequests).toBe(0);
+  });
+
+  it('answers the oldest request first and counts unanswered ones', () => {
+    const result = getQuoteResponseTimes([
+      contact('quote_request', '2026-01-01T00:00:00Z'),
+      contact('quote_request', '2026-01-05T00:00:00Z'),
+      contact('quote_received', '2026-01-06T00:00:00Z'),
+      contact('phone_call', '2026-01-07T00:00:00Z'),
+    ]);
+    expect(result.responseDays).toEqual([5]);
+    expect(result.openRequests).toBe(1);
+  });
+
+  it('ignores a quote with no request before it', () => {
+    expect(getQuoteResponseTimes([contact('quote_received', '2026-01-01T00:00:00Z')]).responseDays).toEqual([]);
+  });
+});
+
+describe('buildVendorScorecards', () => {
+  const vendors = [vendor('v1', 'Pat Plumbing'), vendor('v2', 'Drip Fix')];
+
+  it('scores cost execution on items with actuals', () => {
+    const scorecards = buildVendorScorecards(
+      vendors,
+      [
+        item('v1', { actual_amount: 1200, actual_variance: 200 }),
+        item('v1', { actual_amount: 900, actual_variance: -100, project_id: 'p2' }),
+        item('v1'),
+        item('v1', { status: 'cancelled', actual_amount: 5000, actual_variance: 4000 }),
+      ],
+      [],
+      []
+    );
+
+    const scorecard = scorecards.get('v1')!;
+    expect(scorecard.itemCount).toBe(3);
+    expect(scorecard.projectCount).toBe(2);
+    expect(scorecard.costedItemCount).toBe(2);
+    expect(scorecard.actualVariance).toBe(100);
+    expect(scorecard.actualVariancePercent).toBe(5);
+  });
+
+  it('scores late finishes against the project target date', () => {
+    const scorecards = buildVendorScorecards(
+      vendors,
+      [
+        item('v1', { completed_at: '2026-05-10T10:00:00', target_complete_date: '2026-05-01' }),
+        item('v1', { completed_at: '2026-04-20T10:00:00', target_complete_date: '2026-05-01' }),
+        item('v1', { completed_at: '2026-04-20T10:00:00', target_complete_date: null }),
+      ],
+      [],
+      []
+    );
+
+    const scorecard = scorecards.get('v1')!;
+    expect(scorecard.scheduledItemCount).toBe(2);
+    expect(scorecard.lateItemCount).toBe(1);
+    expect(scorecard.lateRate).toBe(50);
+  });
+
+  it('totals paid draws and averages quote response times', () => {
+    const scorecards = buildVendorScorecards(
+      vendors,
+      [],
+      [
+        contact('quote_request', '2026-01-01T00:00:00Z'),
+        contact('quote_received', '2026-01-02T00:00:00Z'),
+        contact('quote_request', '2026-02-01T00:00:00Z'),
+        contact('quote_received', '2026-02-03T12:00:00Z'),
+        contact('quote_request', '2026-01-01T00:00:00Z', 'p1', 'v2'),
+      ],
+      [
+        draw({ id: 'd1', vendor_id: 'v1', amount: 2500 }),
+        draw({ id: 'd2', vendor_id: 'v1', amount: 1000, status: 'pending' }),
+        draw({ id: 'd3', vendor_id: 'v2', amount: 300, draw_allocations: null }),
+      ]
+    );
+
+    expect(scorecards.get('v1')!.avgResponseDays).toBe(1.8);
+    expect(scorecards.get('v1')!.totalPaid).toBe(2500);
+    expect(scorecards.get('v2')!.avgResponseDays).toBeNull();
+    expect(scorecards.get('v2')!.openQuoteRequests).toBe(1);
+  });
+
+  it('credits split draws to each allocation vendor net of retainage', () => {
+    const scorecards = buildVendorScorecards(vendors, [], [], [
+      draw({
+        amount: 10000,
+        draw_allocations: [
+          allocation('d1', 'v1', 6000, 10),
+          allocation('d1', 'v2', '4000.00' as unknown as number, 5),
+        ],
+      }),
+    ]);
+
+    expect(scorecards.get('v1')!.totalPaid).toBe(5400);
+    expect(scorecards.get('v2')!.totalPaid).toBe(3800);
+  });
+
+  it('adds retainage released on the final draw', () => {
+    const progress = draw({
+      amount: 10000,
+      draw_allocations: [allocation('d1', 'v1', 6000, 10), allocation('d1', 'v2', 4000, 5)],
+    });
+    const final = draw({
+      id: 'd2',
+      draw_number: 2,
+      milestone: 'final',
+      amount: 1000,
+      draw_allocations: [allocation('d2', 'v1', 1000, 0)],
+    });
+
+    const scorecards = buildVendorScorecards(vendors, [], [], [progress, final]);
+
+    expect(scorecards.get('v1')!.totalPaid).toBe(5400 + 1000 + 600);
+    expect(scorecards.get('v2')!.totalPaid).toBe(3800);
+    expect(buildVendorScorecards(vendors, [], [], [progress, { ...final, status: 'pending' }]).get('v1')!.totalPaid)
+      .toBe(5400);
+  });
+
+  it('gives vendors without history an empty scorecard', () => {
+    const scorecard = buildVendorScorecards(vendors, [], [], []).get('v2')!;
+    expect(scorecard.itemCount).toBe(0);
+    expect(scorecard.actualVariancePercent).toBeNull();
+    expect(scorecard.lateRate).toBeNull();
+  });
+});
+
+describe('toScorecardItems', () => {
+  it('flattens the project target date and coerces numerics', () => {
+    const [row] = toScorecardItems([
+      {
+        id: 'b1',
+        project_id: 'p1',
+        vendor_id: 'v1',
+        status: 'complete',
+        forecast_amount: '1000' as unknown as number,
+        actual_amount: '1100.50' as unknown as number,
+        actual_variance: '100.50' as unknown as number,
+        completed_at: '2026-01-10T00:00:00Z',
+        projects: { target_complete_date: '2026-02-01' },
+      },
+    ]);
+    expect(row).toMatchObject({ forecast_amount: 1000, actual_amount: 1100.5, actual_variance: 100.5 });
+    expect(row.target_complete_date).toBe('2026-02-01');
+    expect(row).not.toHaveProperty('projects');
+  });
+});
+
+describe('getTradeLeaderboard', () => {
+  const vendors = [
+    vendor('v1', 'Over Budget Co'),
+    vendor('v2', 'On Target LLC'),
+    vendor('v3', 'No Actuals Inc'),
+    vendor('v4', 'Idle Plumbing'),
+    vendor('v5', 'Sparks', 'electrician'),
+  ];
+  const scorecards = buildVendorScorecards(
+    vendors,
+    [
+      item('v1', { actual_amount: 1300, actual_variance: 300 }),
+      item('v2', { actual_amount: 950, actual_variance: -50 }),
+      item('v3'),
+      item('v3'),
+      item('v5', { actual_amount: 1000, actual_variance: 0 }),
+    ],
+    [],
+    [draw({ vendor_id: 'v1', amount: 8000 }), draw({ id: 'd2', vendor_id: 'v2', amount: 2000 })]
+  );
+
+  it('ranks vendors in the trade with history, best first', () => {
+    const rows = getTradeLeaderboard(vendors, scorecards, 'plumber', 'variance');
+    expect(rows.map((row) => row.vendor.id)).toEqual(['v2', 'v1', 'v3']);
+  });
+
+  it('keeps vendors without a value last in either direction', () => {
+    const rows = getTradeLeaderboard(vendors, scorecards, 'plumber', 'variance', 'desc');
+    expect(rows.map((row) => row.vendor.id)).toEqual(['v1', 'v2', 'v3']);
+  });
+
+  it('sorts by total paid, highest first', () => {
+    const rows = getTradeLeaderboard(vendors, scorecards, 'plumber', 'paid');
+    expect(rows.map((row) => row.vendor.id)).toEqual(['v1', 'v2', 'v3']);
+  });
+
+  it('lists trades with at least one scored vendor', () => {
+    expect(getLeaderboardTrades(vendors, scorecards).sort()).toEqual(['electrician', 'plumber']);
+  });
+});
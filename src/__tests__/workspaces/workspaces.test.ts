@@ -0,0 +1,175 @@
+/**
+ * Tests for workspace roles, permission errors and invitations
+ */
+
+import {
+  ROLE_CAPABILITIES,
+  WorkspaceError,
+  WorkspacePermissionError,
+  assertCapability,
+  buildInvitationUrl,
+  countOwners,
+  getBudgetItemUpdateCapability,
+  getDrawStatusCapability,
+  getInvitationStatus,
+  getWorkspaceErrorMessage,
+  hasCapability,
+  isValidInvitationEmail,
+  pickActiveMembership,
+  toWorkspaceError,
+} from '@/lib/workspaces';
+import type { WorkspaceMembership, WorkspaceRole } from '@/types';
+
+function membership(workspaceId: string, role: WorkspaceRole, createdAt: string): WorkspaceMembership {
+  return {
+    id: `m-${workspaceId}`,
+    workspace_id: workspaceId,
+    user_id: 'u1',
+    role,
+    invited_by: null,
+    created_at: createdAt,
+    updated_at: createdAt,
+    workspace: {
+      id: workspaceId,
+      name: `Workspace ${workspaceId}`,
+      created_by: null,
+      created_at: createdAt,
+      updated_at: createdAt,
+    },
+  };
+}
+
+describe('role capabilities', () => {
+  it('lets a bookkeeper mark draws paid but not edit underwriting or approve draws', () => {
+    expect(hasCapability('bookkeeper', getDrawStatusCapability('paid'))).toBe(true);
+    expect(hasCapability('bookkeeper', getDrawStatusCapability('approved'))).toBe(false);
+    expect(hasCapability('bookkeeper', 'edit_projects')).toBe(false);
+    expect(hasCapability('bookkeeper', 'manage_vendors')).toBe(true);
+  });
+
+  it('keeps the team with owners and everything else from investors', () => {
+    expect(hasCapability('owner', 'manage_members')).toBe(true);
+    expect(hasCapability('project_manager', 'manage_members')).toBe(false);
+    expect(hasCapability('project_manager', 'approve_draws')).toBe(true);
+    expect(ROLE_CAPABILITIES.investor).toEqual([]);
+  });
+
+  it('grants nothing without a membership', () => {
+    expect(hasCapability(null, 'view_all_projects')).toBe(false);
+  });
+});
+
+describe('assertCapability', () => {
+  it('throws a permission error naming the capability', () => {
+    expect(() => assertCapability('owner', 'manage_members')).not.toThrow();
+
+    try {
+      assertCapability('investor', 'edit_projects');
+      throw new Error('expected a permission error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(WorkspacePermissionError);
+      expect((error as WorkspacePermissionError).capability).toBe('edit_projects');
+      expect((error as Error).message).toMatch(/cannot change projects/);
+    }
+  });
+
+  it('says so when the user has no membership', () => {
+    expect(() => assertCapability(null, 'manage_draws')).toThrow('You are not a member of this workspace.');
+  });
+});
+
+describe('getBudgetItemUpdateCapability', () => {
+  it('treats recording an actual cost as bookkeeping', () => {
+    expect(getBudgetItemUpdateCapability({ actual_amount: 1200 })).toBe('manage_draws');
+  });
+
+  it('treats any other change as editing the budget', () => {
+    expect(getBudgetItemUpdateCapability({ actual_amount: 1200, forecast_amount: 1500 })).toBe('edit_projects');
+    expect(getBudgetItemUpdateCapability({ sort_order: 2 })).toBe('edit_projects');
+    expect(getBudgetItemUpdateCapability({})).toBe('edit_projects');
+  });
+});
+
+describe('toWorkspaceError', () => {
+  it('maps role violations raised by the database and RLS', () => {
+    const raised = toWorkspaceError({ hint: 'workspace_permission', message: 'Only approved draws can be marked paid' });
+    expect(raised).toBeInstanceOf(WorkspacePermissionError);
+    expect((raised as Error).message).toBe('Only approved draws can be marked paid');
+
+    expect(toWorkspaceError({ code: '42501', message: 'new row violates row-level security policy' })).toBeInstanceOf(
+      WorkspacePermissionError
+    );
+  });
+
+  it('maps team and invitation hints to a WorkspaceError', () => {
+    const error = toWorkspaceError({ hint: 'last_workspace_owner', message: 'raw' });
+    expect(error).toBeInstanceOf(WorkspaceError);
+    expect((error as WorkspaceError).code).toBe('last_workspace_owner');
+    expect((error as Error).message).toMatch(/at least one owner/);
+
+    const wrongEmail = toWorkspaceError({ hint: 'invitation_wrong_email', message: 'Sent to pat@example.com' });
+    expect((wrongEmail as Error).message).toBe('Sent to pat@example.com');
+  });
+
+  it('passes other errors through', () => {
+    const other = { code: '23505', message: 'duplicate key' };
+    expect(toWorkspaceError(other)).toBe(other);
+  });
+});
+
+describe('getWorkspaceErrorMessage', () => {
+  it('explains role errors and falls back for anything else', () => {
+    expect(getWorkspaceErrorMessage({ code: '42501' }, 'Failed to save')).toBe('Your role does not allow this change.');
+    expect(getWorkspaceErrorMessage(new Error('network'), 'Failed to save')).toBe('Failed to save');
+  });
+});
+
+describe('pickActiveMembership', () => {
+  const memberships = [
+    membership('w1', 'bookkeeper', '2026-01-01'),
+    membership('w2', 'owner', '2026-02-01'),
+    membership('w3', 'investor', '2026-01-15'),
+  ];
+
+  it('uses the workspace picked in the app', () => {
+    expect(pickActiveMembership(memberships, 'w3')?.workspace_id).toBe('w3');
+  });
+
+  it('falls back to a workspace the user owns, then the oldest', () => {
+    expect(pickActiveMembership(memberships, null)?.workspace_id).toBe('w2');
+    expect(pickActiveMembership(memberships, 'gone')?.workspace_id).toBe('w2');
+    expect(pickActiveMembership([memberships[0], memberships[2]], null)?.workspace_id).toBe('w1');
+  });
+
+  it('returns null without memberships', () => {
+    expect(pickActiveMembership([], 'w1')).toBeNull();
+  });
+});
+
+describe('countOwners', () => {
+  it('counts owners only', () => {
+    expect(countOwners([{ role: 'owner' }, { role: 'bookkeeper' }, { role: 'owner' }])).toBe(2);
+  });
+});
+
+describe('invitations', () => {
+  const now = new Date('2026-03-15T12:00:00Z');
+  const pending = { accepted_at: null, revoked_at: null, expires_at: '2026-03-20T12:00:00Z' };
+
+  it('reports the invitation status', () => {
+    expect(getInvitationStatus(pending, now)).toBe('pending');
+    expect(getInvitationStatus({ ...pending, expires_at: '2026-03-15T12:00:00Z' }, now)).toBe('expired');
+    expect(getInvitationStatus({ ...pending, revoked_at: '2026-03-14T00:00:00Z' }, now)).toBe('revoked');
+    expect(getInvitationStatus({ ...pending, accepted_at: '2026-03-14T00:00:00Z' }, now)).toBe('accepted');
+  });
+
+  it('validates invitation emails', () => {
+    expect(isValidInvitationEmail('  Pat@Example.com ')).toBe(true);
+    expect(isValidInvitationEmail('pat@example')).toBe(false);
+    expect(isValidInvitationEmail('')).toBe(false);
+  });
+
+  it('builds the link to send', () => {
+    expect(buildInvitationUrl('https://app.example.com/', 'abc123')).toBe('https://app.example.com/invite/abc123');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for mapping and diffing a GC bid spreadsheet
+ */
+
+import {
+  detectHeaderRow,
+  diffBidAgainstBudget,
+  guessColumnMapping,
+  parseBidCategory,
+  parseBidNumber,
+  parseBidRows,
+  parseBidUnit,
+  summarizeBidImport,
+  type BidCellValue,
+} from '@/lib/xlsx/bid-import';
+import type { BudgetCategory, BudgetItem } from '@/types';
+import { createMockBudgetItem } from '../utils/test-utils';
+
+function budgetItem(id: string, category: BudgetCategory, name: string, forecast: number): BudgetItem {
+  return createMockBudgetItem({ id, category, item: name, underwriting_amount: forecast, forecast_amount: forecast });
+}
+
+// A typical GC bid: title block, header, section headings and a total line
+const BID: BidCellValue[][] = [
+  ['Smith Construction - Bid #1042', null, null, null, null],
+  ['123 Main St', null, null, null, null],
+  [],
+  ['Scope of Work', 'Qty', 'UOM', 'Unit Price', 'Total'],
+  ['PLUMBING', null, null, null, null],
+  ['Water heater', 1, 'EA', 1800, 1800],
+  ['Re-pipe', 1, 'Lump Sum', null, '$4,250.00'],
+  ['Kitchen', null, null, null, null],
+  ['Cabinets', 1, 'ls', null, 14500],
+  ['LVP flooring', 1200, 'sq ft', 4.5, null],
+  [],
+  ['Total', null, null, null, 25950],
+];
+
+describe('cell parsing', () => {
+  it('parses money text', () => {
+    expect(parseBidNumber('$4,250.00')).toBe(4250);
+    expect(parseBidNumber('(500)')).toBe(-500);
+    expect(parseBidNumber(12)).toBe(12);
+    expect(parseBidNumber('TBD')).toBeNull();
+    expect(parseBidNumber(null)).toBeNull();
+  });
+
+  it('maps trades to categories by label or keyword', () => {
+    expect(parseBidCategory('Insulation/Drywall')).toBe('insulation_drywall');
+    expect(parseBidCategory('kitchen')).toBe('kitchen');
+    expect(parseBidCategory('Roofing')).toBe('exterior');
+    expect(parseBidCategory('Electrical rough-in')).toBe('electrical');
+    expect(parseBidCategory('Mobilization')).toBeNull();
+  });
+
+  it('maps units with a lump-sum fallback', () => {
+    expect(parseBidUnit('SF')).toBe('sf');
+    expect(parseBidUnit('sq ft')).toBe('sf');
+    expect(parseBidUnit('Each')).toBe('ea');
+    expect(parseBidUnit('Opening')).toBe('opening');
+    expect(parseBidUnit('allowance')).toBe('ls');
+  });
+});
+
+describe('column mapping', () => {
+  it('finds the header row below a title block', () => {
+    expect(detectHeaderRow(BID)).toBe(3);
+    expect(detectHeaderRow([['no header here'], [1, 2]])).toBe(0);
+  });
+
+  it('guesses columns from header text', () => {
+    expect(guessColumnMapping(BID[3])).toEqual({ item: 0, qty: 1, unit: 2, rate: 3, amount: 4 });
+  });
+
+  it('uses a description column as the item when there is no item column', () => {
+    expect(guessColumnMapping(['Description', 'Amount'])).toEqual({ item: 0, amount: 1 });
+  });
+});
+
+describe('parseBidRows', () => {
+  const rows = parseBidRows(BID, 3, guessColumnMapping(BID[3]), 'soft_costs');
+
+  it('reads priced lines and skips headings, blanks and totals', () => {
+    expect(rows.map((row) => row.item)).toEqual(['Water heater', 'Re-pipe', 'Cabinets', 'LVP flooring']);
+    expect(rows[0].rowNumber).toBe(6);
+  });
+
+  it('takes the category from the section heading above', () => {
+    expect(rows.map((row) => row.category)).toEqual(['plumbing', 'plumbing', 'kitchen', 'kitchen']);
+  });
+
+  it('prices lines without an amount at qty x rate', () => {
+    expect(rows[3]).toMatchObject({ qty: 1200, unit: 'sf', rate: 4.5, amount: 5400 });
+    expect(rows[1]).toMatchObject({ unit: 'ls', amount: 4250 });
+  });
+
+  it('prefers a mapped category column, then the default', () => {
+    const sheet: BidCellValue[][] = [
+      ['Trade', 'Item', 'Amount'],
+      ['Electrical', 'Panel upgrade', 3200],
+      ['Misc', 'Permit runner', 150],
+    ];
+    const parsed = parseBidRows(sheet, 0, guessColumnMapping(sheet[0]), 'soft_costs');
+
+    expect(parsed.map((row) => row.category)).toEqual(['electrical', 'soft_costs']);
+  });
+
+  it('returns nothing until an item column is mapped', () => {
+    expect(parseBidRows(BID, 3, { amount: 4 }, 'soft_costs')).toEqual([]);
+  });
+});
+
+describe('diffBidAgainstBudget', () => {
+  const budget = [
+    budgetItem('b1', 'plumbing', 'Water Heater', 1500),
+    budgetItem('b2', 'kitchen', 'Cabinets', 14500),
+    budgetItem('b3', 'demo', 'Dumpster', 800),
+  ];
+  const rows = parseBidRows(BID, 3, guessColumnMapping(BID[3]), 'soft_costs');
+  const changes = diffBidAgainstBudget(rows, budget);
+
+  it('updates matched lines and adds the rest', () => {
+    expect(changes.map((change) => [change.row.item, change.type])).toEqual([
+      ['Water heater', 'update'],
+      ['Re-pipe', 'new'],
+      ['Cabinets', 'unchanged'],
+      ['LVP flooring', 'new'],
+    ]);
+    expect(changes[0]).toMatchObject({ budgetItem: { id: 'b1' }, fromForecast: 1500, toForecast: 1800, delta: 300 });
+  });
+
+  it('matches each budget line at most once', () => {
+    const twice = diffBidAgainstBudget([rows[0], rows[0]], budget);
+    expect(twice.map((change) => change.type)).toEqual(['update', 'new']);
+  });
+
+  it('summarizes the forecast before and after', () => {
+    const applied = changes.filter((change) => change.type !== 'unchanged');
+
+    expect(summarizeBidImport(applied, budget)).toEqual({
+      newCount: 2,
+      updateCount: 1,
+      from: 16800,
+      to: 26750,
+      delta: 9950,
+    });
+  });
+});
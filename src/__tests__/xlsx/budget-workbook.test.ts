@@ -0,0 +1,135 @@
+/**
+ * Tests for the XLSX budget workbook export
+ */
+
+import type ExcelJS from 'exceljs';
+import { BUDGET_WORKBOOK_SHEETS, buildBudgetWorkbook } from '@/lib/xlsx/budget-workbook';
+import { readBidWorkbook } from '@/lib/xlsx/read-bid-workbook';
+import {
+  DEFAULT_CALCULATION_SETTINGS,
+  type BudgetCategory,
+  type BudgetItem,
+  type Draw,
+  type Project,
+} from '@/types';
+import { createMockBudgetItem, createMockVendor } from '../utils/test-utils';
+
+function item(id: string, category: BudgetCategory, name: string, overrides: Partial<BudgetItem> = {}): BudgetItem {
+  return createMockBudgetItem({ id, category, item: name, ...overrides });
+}
+
+const project = {
+  id: 'p1',
+  name: '123 Main St',
+  address: '123 Main St',
+  city: 'Minneapolis',
+  state: 'MN',
+  zip: '55401',
+  sqft: 1400,
+  arv: 350000,
+  purchase_price: 200000,
+  closing_costs: 5000,
+  holding_costs_monthly: 1500,
+  hold_months: 5,
+  selling_cost_percent: 8,
+  contingency_percent: 10,
+  status: 'in_rehab',
+} as Project;
+
+const vendor = createMockVendor({ id: 'v1', name: 'Pipe Pros', trade: 'plumber' });
+
+const budgetItems = [
+  item('k2', 'kitchen', 'Countertops', { underwriting_amount: 4000, forecast_amount: 4200, sort_order: 2 }),
+  item('k1', 'kitchen', 'Cabinets', { underwriting_amount: 12000, forecast_amount: 14500, actual_amount: 14000, sort_order: 1 }),
+  item('p1', 'plumbing', 'Water heater', { underwriting_amount: 1500, forecast_amount: 1800, vendor_id: 'v1' }),
+];
+
+const draws = [
+  { id: 'd1', draw_number: 1, vendor_id: 'v1', amount: 900, status: 'paid', milestone: 'rough_in' },
+  { id: 'd2', draw_number: 2, vendor_id: 'v1', amount: 900, status: 'pending', milestone: 'final' },
+] as Draw[];
+
+const workbook = buildBudgetWorkbook({
+  project,
+  budgetItems,
+  draws,
+  vendors: [vendor, createMockVendor({ id: 'v2', name: 'Not On This Job', trade: 'painter' })],
+  settings: DEFAULT_CALCULATION_SETTINGS,
+  exportedAt: new Date('2026-02-01T12:00:00Z'),
+});
+
+const formula = (cell: ExcelJS.Cell) => cell.value as ExcelJS.CellFormulaValue;
+
+describe('buildBudgetWorkbook', () => {
+  const budget = workbook.getWorksheet(BUDGET_WORKBOOK_SHEETS.budget)!;
+
+  it('has summary, budget, draws and vendors sheets in order', () => {
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual(['Summary', 'Budget', 'Draws', 'Vendors']);
+  });
+
+  it('groups lines by category in budget order with SUM subtotals', () => {
+    // Row 1 header, then Plumbing (heading, line, subtotal), then Kitchen
+    expect(budget.getCell('A2').value).toBe('Plumbing');
+    expect(budget.getCell('B3').value).toBe('Water heater');
+    expect(formula(budget.getCell('G4'))).toEqual({ formula: 'SUM(G3:G3)', result: 1500 });
+
+    expect(budget.getCell('A5').value).toBe('Kitchen');
+    expect(budget.getCell('B6').value).toBe('Cabinets');
+    expect(budget.getCell('B7').value).toBe('Countertops');
+    expect(formula(budget.getCell('H8'))).toEqual({ formula: 'SUM(H6:H7)', result: 18700 });
+  });
+
+  it('writes variances as row formulas', () => {
+    expect(formula(budget.getCell('J6'))).toEqual({ formula: 'H6-G6', result: 2500 });
+    expect(formula(budget.getCell('K6'))).toEqual({ formula: 'IF(I6="","",I6-H6)', result: -500 });
+    expect(formula(budget.getCell('K7')).result).toBeUndefined();
+  });
+
+  it('totals the subtotals', () => {
+    expect(budget.getCell('B9').value).toBe('Total Rehab Budget');
+    expect(formula(budget.getCell('G9'))).toEqual({ formula: 'SUM(G4,G8)', result: 17500 });
+    expect(formula(budget.getCell('I9')).result).toBe(14000);
+  });
+
+  it('links the summary budget totals to the Budget sheet', () => {
+    const summary = workbook.getWorksheet(BUDGET_WORKBOOK_SHEETS.summary)!;
+    const cells: ExcelJS.CellFormulaValue[] = [];
+    summary.eachRow((row) => {
+      if (row.getCell(1).value === 'Budget Total') {
+        [2, 3, 4].forEach((col) => cells.push(formula(row.getCell(col))));
+      }
+    });
+
+    expect(cells).toEqual([
+      { formula: 'Budget!G9', result: 17500 },
+      { formula: 'Budget!H9', result: 20500 },
+      { formula: 'Budget!I9', result: 14000 },
+    ]);
+  });
+
+  it('totals draws and paid draws', () => {
+    const sheet = workbook.getWorksheet(BUDGET_WORKBOOK_SHEETS.draws)!;
+
+    expect(sheet.getCell('B2').value).toBe('Rough-In');
+    expect(formula(sheet.getCell('I4'))).toEqual({ formula: 'SUM(I2:I3)', result: 1800 });
+    expect(formula(sheet.getCell('I5'))).toEqual({ formula: 'SUMIF(H2:H3,"Paid",I2:I3)', result: 900 });
+  });
+
+  it('lists only vendors on the project, with SUMIFS roll-ups', () => {
+    const sheet = workbook.getWorksheet(BUDGET_WORKBOOK_SHEETS.vendors)!;
+
+    expect(sheet.rowCount).toBe(2);
+    expect(sheet.getCell('A2').value).toBe('Pipe Pros');
+    expect(formula(sheet.getCell('F2'))).toEqual({ formula: 'SUMIFS(Budget!H:H,Budget!L:L,A2)', result: 1800 });
+    expect(formula(sheet.getCell('G2')).result).toBe(900);
+  });
+
+  it('round-trips through an .xlsx file', async () => {
+    const buffer = await workbook.xlsx.writeBuffer();
+    const sheets = await readBidWorkbook(buffer as ArrayBuffer);
+    const budgetRows = sheets.find((sheet) => sheet.name === 'Budget')!.rows;
+
+    expect(budgetRows[5].slice(0, 2)).toEqual(['Kitchen', 'Cabinets']);
+    expect(budgetRows[8][6]).toBe(17500);
+  });
+});
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { renderChangeOrder, ReportNotFoundError } from '@/lib/pdf/render-report';
+import { PDF_MIME_TYPE, getAttachmentDisposition } from '@/lib/pdf/reports';
+
+// react-pdf needs Node APIs (Buffer, zlib) to write the file
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string; changeOrderId: string }>;
+}
+
+/**
+ * Render a change order for the vendor's signature. Rebuilt from the
+ * change order and budget on each request and not stored.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id: projectId, changeOrderId } = await params;
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  let rendered;
+  try {
+    rendered = await renderChangeOrder(supabase, projectId, changeOrderId);
+  } catch (error) {
+    if (error instanceof ReportNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Error rendering change order:', error);
+    return NextResponse.json({ error: 'Failed to render change order' }, { status: 500 });
+  }
+
+  return new NextResponse(new Uint8Array(rendered.buffer), {
+    headers: {
+      'Content-Type': PDF_MIME_TYPE,
+      'Content-Disposition': getAttachmentDisposition(rendered.fileName),
+      'Content-Length': String(rendered.buffer.length),
+    },
+  });
+}
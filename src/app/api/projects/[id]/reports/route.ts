@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { renderProjectReport, ReportNotFoundError } from '@/lib/pdf/render-report';
+import {
+  PDF_MIME_TYPE,
+  PROJECT_REPORT_BUCKET,
+  buildProjectReportPath,
+  getAttachmentDisposition,
+  getProjectReportFilename,
+  isDrawReportType,
+  isProjectReportType,
+} from '@/lib/pdf/reports';
+
+// react-pdf needs Node APIs (Buffer, zlib) to write the file
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Render a project report to PDF, store it with the project and return it.
+ *
+ * Body: `{ type: ProjectReportType, drawId?: string }`. The file is uploaded
+ * to the project-reports bucket and recorded in project_reports so it can be
+ * downloaded again later; the new row id is returned in `X-Report-Id`.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id: projectId } = await params;
+  const body = await request.json().catch(() => null);
+  const type = body?.type;
+  const drawId = typeof body?.drawId === 'string' ? body.drawId : null;
+
+  if (!isProjectReportType(type)) {
+    return NextResponse.json({ error: 'Unknown report type' }, { status: 400 });
+  }
+  if (isDrawReportType(type) && !drawId) {
+    return NextResponse.json({ error: 'A draw is required for this report' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  let report;
+  try {
+    report = await renderProjectReport(supabase, projectId, type, drawId);
+  } catch (error) {
+    if (error instanceof ReportNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Error rendering report:', error);
+    return NextResponse.json({ error: 'Failed to render report' }, { status: 500 });
+  }
+
+  const reportId = crypto.randomUUID();
+  const storagePath = buildProjectReportPath(projectId, reportId);
+  const fileName = getProjectReportFilename(report.projectName, report.title);
+
+  const { error: uploadError } = await supabase.storage
+    .from(PROJECT_REPORT_BUCKET)
+    .upload(storagePath, report.buffer, { contentType: PDF_MIME_TYPE });
+
+  if (uploadError) {
+    console.error('Error storing report:', uploadError);
+    return NextResponse.json({ error: 'Failed to store report' }, { status: 500 });
+  }
+
+  const { error: insertError } = await supabase.from('project_reports').insert({
+    id: reportId,
+    project_id: projectId,
+    report_type: type,
+    draw_id: report.drawId,
+    title: report.title,
+    storage_path: storagePath,
+    file_name: fileName,
+    file_size: report.buffer.length,
+  });
+
+  if (insertError) {
+    console.error('Error recording report:', insertError);
+    await supabase.storage.from(PROJECT_REPORT_BUCKET).remove([storagePath]);
+    return NextResponse.json({ error: 'Failed to store report' }, { status: 500 });
+  }
+
+  return new NextResponse(new Uint8Array(report.buffer), {
+    headers: {
+      'Content-Type': PDF_MIME_TYPE,
+      'Content-Disposition': getAttachmentDisposition(fileName),
+      'Content-Length': String(report.buffer.length),
+      'X-Report-Id': reportId,
+    },
+  });
+}
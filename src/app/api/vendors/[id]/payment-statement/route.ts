@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { renderVendorPaymentStatement, ReportNotFoundError } from '@/lib/pdf/render-report';
+import { PDF_MIME_TYPE, getAttachmentDisposition } from '@/lib/pdf/reports';
+
+// react-pdf needs Node APIs (Buffer, zlib) to write the file
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Render a vendor's payment statement for a tax year: `?year=2025`.
+ * Statements are rebuilt from paid draws on each request and not stored.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id: vendorId } = await params;
+  const year = Number(new URL(request.url).searchParams.get('year'));
+
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    return NextResponse.json({ error: 'A tax year is required' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  let statement;
+  try {
+    statement = await renderVendorPaymentStatement(supabase, vendorId, year);
+  } catch (error) {
+    if (error instanceof ReportNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Error rendering payment statement:', error);
+    return NextResponse.json({ error: 'Failed to render statement' }, { status: 500 });
+  }
+
+  return new NextResponse(new Uint8Array(statement.buffer), {
+    headers: {
+      'Content-Type': PDF_MIME_TYPE,
+      'Content-Disposition': getAttachmentDisposition(statement.fileName),
+      'Content-Length': String(statement.buffer.length),
+    },
+  });
+}
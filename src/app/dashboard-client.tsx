@@ -1,11 +1,12 @@
 'use client';
 
-import { PortfolioHealth, AttentionNeeded, FinancialPerformance, BudgetInsights, type ProjectCardData, type TimelineProject, type AlertProject, type FinancialProject, type BudgetProject, type CategorySpend } from '@/components/dashboard';
+import { PortfolioHealth, AttentionNeeded, FinancialPerformance, CashFlowForecast, BudgetInsights, type ProjectCardData, type TimelineProject, type AlertProject, type FinancialProject, type BudgetProject, type CategorySpend } from '@/components/dashboard';
 import { Card, CardContent } from '@/components/ui/card';
 import { IconHome, IconPlus } from '@tabler/icons-react';
 import { Button } from '@/components/ui/button';
 import { ErrorBoundary, CompactErrorFallback } from '@/components/error-boundary';
 import Link from 'next/link';
+import type { PortfolioCashFlow } from '@/lib/cash-flow';
 
 interface DashboardClientProps {
   projects: (ProjectCardData & TimelineProject & AlertProject & FinancialProject & BudgetProject)[];
@@ -21,6 +22,7 @@ interface DashboardClientProps {
     sold: number;
   };
   categorySpends: CategorySpend[];
+  cashFlow: PortfolioCashFlow;
 }
 
 export function DashboardClient({
@@ -30,6 +32,7 @@ export function DashboardClient({
   averageROI,
   projectCounts,
   categorySpends,
+  cashFlow,
 }: DashboardClientProps) {
   if (projects.length === 0) {
     return (
@@ -79,6 +82,13 @@ export function DashboardClient({
         <FinancialPerformance projects={projects} />
       </ErrorBoundary>
 
+      {/* Cash Flow Forecast */}
+      <ErrorBoundary
+        fallback={<CompactErrorFallback message="Failed to load cash flow forecast" />}
+      >
+        <CashFlowForecast cashFlow={cashFlow} />
+      </ErrorBoundary>
+
       {/* Budget Insights */}
       <ErrorBoundary
         fallback={<CompactErrorFallback message="Failed to load budget insights" />}
@@ -0,0 +1,134 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import {
+  DRAW_ATTACHMENT_BUCKET,
+  DRAW_ATTACHMENT_MAX_FILES,
+  buildDrawAttachmentPath,
+  hashDrawRequestToken,
+  isWellFormedDrawRequestToken,
+  validateDrawAttachment,
+} from '@/lib/draw-requests';
+import { drawRequestSubmissionSchema } from '@/lib/validations/draw-request';
+import type { DrawAttachmentType } from '@/types';
+
+export interface SubmitDrawRequestResult {
+  success: boolean;
+  error?: string;
+}
+
+const INVALID_LINK_ERROR = 'This draw request link is invalid, expired or has been revoked.';
+
+// Form file inputs and the attachment type each one records
+const ATTACHMENT_FIELDS: Record<string, DrawAttachmentType> = {
+  invoices: 'invoice',
+  lien_waivers: 'lien_waiver',
+};
+
+/**
+ * Submit a vendor draw request from the public portal.
+ *
+ * The token is the only credential: it is re-validated here and again inside
+ * submit_vendor_draw_request(), which writes the draw against the token's
+ * project and vendor. Attachments are uploaded first under the token hash
+ * folder and recorded by the same RPC.
+ *
+ * @param token - Raw token from the /draw-request/[token] URL
+ * @param formData - amount, milestone, percent_complete, description, invoices[], lien_waivers[]
+ */
+export async function submitDrawRequest(
+  token: string,
+  formData: FormData
+): Promise<SubmitDrawRequestResult> {
+  if (!isWellFormedDrawRequestToken(token)) {
+    return { success: false, error: INVALID_LINK_ERROR };
+  }
+
+  const parsed = drawRequestSubmissionSchema.safeParse({
+    amount: formData.get('amount'),
+    milestone: formData.get('milestone') ?? undefined,
+    percent_complete: formData.get('percent_complete') ?? undefined,
+    description: formData.get('description') ?? undefined,
+  });
+
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Invalid draw request' };
+  }
+
+  const files = Object.entries(ATTACHMENT_FIELDS).flatMap(([field, attachmentType]) =>
+    formData
+      .getAll(field)
+      .filter((value): value is File => value instanceof File && value.size > 0)
+      .map((file) => ({ file, attachmentType }))
+  );
+
+  if (files.length > DRAW_ATTACHMENT_MAX_FILES) {
+    return { success: false, error: `Attach at most ${DRAW_ATTACHMENT_MAX_FILES} files` };
+  }
+
+  for (const { file } of files) {
+    const fileError = validateDrawAttachment(file);
+    if (fileError) {
+      return { success: false, error: `${file.name}: ${fileError}` };
+    }
+  }
+
+  const supabase = await createClient();
+  const tokenHash = await hashDrawRequestToken(token);
+
+  // Check the link before uploading anything
+  const { data: invite, error: inviteError } = await supabase
+    .rpc('get_draw_request_invite', { p_token_hash: tokenHash })
+    .maybeSingle();
+
+  if (inviteError) {
+    console.error('Error validating draw request token:', inviteError);
+    return { success: false, error: 'Failed to submit draw request. Please try again.' };
+  }
+  if (!invite) {
+    return { success: false, error: INVALID_LINK_ERROR };
+  }
+
+  const attachments = [];
+  for (const { file, attachmentType } of files) {
+    const storagePath = buildDrawAttachmentPath(tokenHash, file.name);
+
+    const { error: uploadError } = await supabase.storage
+      .from(DRAW_ATTACHMENT_BUCKET)
+      .upload(storagePath, file, {
+        contentType: file.type,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      console.error('Storage upload error:', uploadError);
+      return { success: false, error: `Failed to upload ${file.name}. Please try again.` };
+    }
+
+    attachments.push({
+      storage_path: storagePath,
+      file_name: file.name,
+      file_size: file.size,
+      content_type: file.type,
+      attachment_type: attachmentType,
+    });
+  }
+
+  const { milestone, amount, percent_complete, description } = parsed.data;
+  const { error } = await supabase.rpc('submit_vendor_draw_request', {
+    p_token_hash: tokenHash,
+    p_amount: amount,
+    p_milestone: milestone ?? null,
+    p_percent_complete: percent_complete ?? null,
+    p_description: description ?? null,
+    p_attachments: attachments,
+  });
+
+  if (error) {
+    // Uploaded files stay under the token folder; only project owners can read them
+    console.error('Error submitting draw request:', error);
+    return { success: false, error: 'Failed to submit draw request. Please try again.' };
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { toast, Toaster } from 'sonner';
+import {
+  IconCheck,
+  IconLoader2,
+  IconBuildingStore,
+  IconReceipt,
+  IconPaperclip,
+} from '@tabler/icons-react';
+import { formatDate } from '@/lib/utils';
+import {
+  DRAW_ATTACHMENT_ACCEPTED_TYPES,
+  DRAW_ATTACHMENT_MAX_FILES,
+  validateDrawAttachment,
+} from '@/lib/draw-requests';
+import type { DrawMilestone, DrawRequestInvite } from '@/types';
+import { submitDrawRequest } from './actions';
+
+interface VendorDrawRequestFormProps {
+  token: string;
+  invite: DrawRequestInvite;
+}
+
+const MILESTONE_LABELS: Record<DrawMilestone, string> = {
+  project_start: 'Project Start',
+  demo_complete: 'Demo Complete',
+  rough_in: 'Rough-In',
+  drywall: 'Drywall',
+  finishes: 'Finishes',
+  final: 'Final',
+};
+
+export function VendorDrawRequestForm({ token, invite }: VendorDrawRequestFormProps) {
+  const formRef = useRef<HTMLFormElement>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.currentTarget);
+
+    const amount = Number(formData.get('amount'));
+    if (!amount || amount <= 0) {
+      toast.error('Please enter a valid amount');
+      return;
+    }
+
+    const files = [...formData.getAll('invoices'), ...formData.getAll('lien_waivers')].filter(
+      (value): value is File => value instanceof File && value.size > 0
+    );
+    if (files.length > DRAW_ATTACHMENT_MAX_FILES) {
+      toast.error(`Attach at most ${DRAW_ATTACHMENT_MAX_FILES} files`);
+      return;
+    }
+    for (const file of files) {
+      const fileError = validateDrawAttachment(file);
+      if (fileError) {
+        toast.error(`${file.name}: ${fileError}`);
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const result = await submitDrawRequest(token, formData);
+
+      if (!result.success) {
+        toast.error(result.error || 'Failed to submit draw request. Please try again.');
+        return;
+      }
+
+      setIsSubmitted(true);
+      toast.success('Draw request submitted successfully!');
+    } catch (err) {
+      console.error('Error submitting draw request:', err);
+      toast.error('Failed to submit draw request. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isSubmitted) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <div className="text-center max-w-md mx-auto p-6">
+          <div className="h-16 w-16 rounded-full bg-green-100 flex items-center justify-center mx-auto mb-4">
+            <IconCheck className="h-8 w-8 text-green-600" />
+          </div>
+          <h1 className="text-xl font-semibold mb-2">Request Submitted</h1>
+          <p className="text-muted-foreground mb-4">
+            Your draw request has been submitted successfully. The project owner will review and process your request.
+          </p>
+          <button
+            onClick={() => {
+              setIsSubmitted(false);
+              formRef.current?.reset();
+            }}
+            className="text-primary hover:underline"
+          >
+            Submit another request
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const location = [invite.project_address, invite.project_city, invite.project_state]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <div className="min-h-screen bg-muted/30 py-8 px-4">
+      <Toaster position="top-center" />
+
+      <div className="max-w-lg mx-auto">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="h-14 w-14 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-4">
+            <IconReceipt className="h-7 w-7 text-primary" />
+          </div>
+          <h1 className="text-2xl font-bold">Submit Draw Request</h1>
+          <p className="text-muted-foreground mt-1">{location}</p>
+        </div>
+
+        {/* Form */}
+        <form ref={formRef} onSubmit={handleSubmit} className="space-y-6">
+          <div className="rounded-lg border bg-card p-6 space-y-2">
+            <h2 className="font-medium flex items-center gap-2">
+              <IconBuildingStore className="h-4 w-4" />
+              {invite.vendor_name}
+            </h2>
+            <p className="text-xs text-muted-foreground">
+              This link was issued to {invite.vendor_name} and expires {formatDate(invite.expires_at)}.
+            </p>
+          </div>
+
+          <div className="rounded-lg border bg-card p-6 space-y-4">
+            <h2 className="font-medium flex items-center gap-2">
+              <IconReceipt className="h-4 w-4" />
+              Draw Details
+            </h2>
+
+            <div>
+              <label className="text-sm font-medium">
+                Amount Requested <span className="text-red-500">*</span>
+              </label>
+              <div className="relative mt-1">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                <input
+                  name="amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  className="w-full p-3 pl-7 rounded-lg border text-sm"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium">Milestone</label>
+                <select name="milestone" defaultValue="" className="w-full mt-1 p-3 rounded-lg border text-sm">
+                  <option value="">Select...</option>
+                  {Object.entries(MILESTONE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm font-medium">% Complete</label>
+                <input
+                  name="percent_complete"
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="0"
+                  className="w-full mt-1 p-3 rounded-lg border text-sm"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Description of Work Completed</label>
+              <textarea
+                name="description"
+                placeholder="Describe the work completed for this draw request..."
+                rows={3}
+                maxLength={2000}
+                className="w-full mt-1 p-3 rounded-lg border text-sm resize-none"
+              />
+            </div>
+          </div>
+
+          <div className="rounded-lg border bg-card p-6 space-y-4">
+            <h2 className="font-medium flex items-center gap-2">
+              <IconPaperclip className="h-4 w-4" />
+              Attachments
+            </h2>
+
+            <div>
+              <label className="text-sm font-medium">Invoice</label>
+              <input
+                name="invoices"
+                type="file"
+                multiple
+                accept={DRAW_ATTACHMENT_ACCEPTED_TYPES.join(',')}
+                className="w-full mt-1 text-sm file:mr-3 file:rounded-lg file:border file:bg-muted file:px-3 file:py-2 file:text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Lien Waiver</label>
+              <input
+                name="lien_waivers"
+                type="file"
+                multiple
+                accept={DRAW_ATTACHMENT_ACCEPTED_TYPES.join(',')}
+                className="w-full mt-1 text-sm file:mr-3 file:rounded-lg file:border file:bg-muted file:px-3 file:py-2 file:text-sm"
+              />
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              JPG, PNG, WebP or PDF up to 10MB each, {DRAW_ATTACHMENT_MAX_FILES} files max.
+            </p>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full inline-flex items-center justify-center gap-2 rounded-lg bg-primary px-4 py-3 text-sm font-medium text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {isSubmitting ? (
+              <>
+                <IconLoader2 className="h-4 w-4 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              <>
+                <IconCheck className="h-4 w-4" />
+                Submit Draw Request
+              </>
+            )}
+          </button>
+
+          <p className="text-xs text-center text-muted-foreground">
+            By submitting this request, you confirm that the work described has been completed
+            and you are requesting payment as agreed.
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
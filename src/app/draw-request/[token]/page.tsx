@@ -0,0 +1,55 @@
+import { IconAlertCircle } from '@tabler/icons-react';
+import { createClient } from '@/lib/supabase/server';
+import { hashDrawRequestToken, isWellFormedDrawRequestToken } from '@/lib/draw-requests';
+import type { DrawRequestInvite } from '@/types';
+import { VendorDrawRequestForm } from './draw-request-form';
+
+interface VendorDrawRequestPageProps {
+  params: Promise<{ token: string }>;
+}
+
+async function getInvite(token: string): Promise<DrawRequestInvite | null> {
+  if (!isWellFormedDrawRequestToken(token)) return null;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .rpc('get_draw_request_invite', { p_token_hash: await hashDrawRequestToken(token) })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading draw request invite:', error);
+    return null;
+  }
+
+  return (data as DrawRequestInvite | null) ?? null;
+}
+
+/**
+ * Public vendor portal for submitting a draw request.
+ *
+ * Access is granted by the per-vendor token in the URL, not by a session;
+ * middleware lets /draw-request/* through without login.
+ *
+ * @param params - A promise resolving to the raw `token` from the vendor link
+ */
+export default async function VendorDrawRequestPage({ params }: VendorDrawRequestPageProps) {
+  const { token } = await params;
+  const invite = await getInvite(token);
+
+  if (!invite) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <div className="text-center max-w-md mx-auto p-6">
+          <IconAlertCircle className="h-12 w-12 mx-auto text-red-500 mb-4" />
+          <h1 className="text-xl font-semibold mb-2">Invalid Link</h1>
+          <p className="text-muted-foreground">
+            This draw request link is invalid, has expired or has been revoked.
+            Please ask the project owner for a new link.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <VendorDrawRequestForm token={token} invite={invite} />;
+}
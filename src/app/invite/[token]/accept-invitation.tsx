@@ -0,0 +1,59 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { IconAlertCircle, IconUsersGroup } from '@tabler/icons-react';
+import { Button } from '@/components/ui/button';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { getWorkspaceErrorMessage, isWellFormedInvitationToken } from '@/lib/workspaces';
+import { useAuth } from '@/hooks/use-auth';
+import { useAcceptInvitation } from '@/hooks/use-workspaces';
+
+interface AcceptInvitationProps {
+  token: string;
+}
+
+export function AcceptInvitation({ token }: AcceptInvitationProps) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const acceptInvitation = useAcceptInvitation();
+
+  const error = !isWellFormedInvitationToken(token)
+    ? 'This invitation link is invalid. Ask for a new link.'
+    : acceptInvitation.error
+      ? getWorkspaceErrorMessage(acceptInvitation.error, 'Failed to accept the invitation. Please try again.')
+      : null;
+
+  const handleAccept = () => {
+    acceptInvitation.mutate(token, {
+      onSuccess: () => {
+        toast.success('You joined the workspace');
+        router.push('/');
+      },
+    });
+  };
+
+  return (
+    <div className="text-center max-w-md mx-auto p-6 space-y-4">
+      {error ? (
+        <IconAlertCircle className="h-12 w-12 mx-auto text-red-500" />
+      ) : (
+        <IconUsersGroup className="h-12 w-12 mx-auto text-primary" />
+      )}
+      <h1 className="text-xl font-semibold">{error ? 'Invitation Not Accepted' : 'Join Workspace'}</h1>
+      <p className="text-muted-foreground">
+        {error ?? `You have been invited to a workspace. Accept to join it as ${user?.email ?? 'this user'}.`}
+      </p>
+      <div className="flex justify-center gap-2">
+        <Button variant="outline" onClick={() => router.push('/')}>
+          {error ? 'Go to Dashboard' : 'Not Now'}
+        </Button>
+        {!error && (
+          <LoadingButton onClick={handleAccept} isLoading={acceptInvitation.isPending} loadingText="Joining...">
+            Accept Invitation
+          </LoadingButton>
+        )}
+      </div>
+    </div>
+  );
+}
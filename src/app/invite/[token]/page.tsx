@@ -0,0 +1,23 @@
+import { AcceptInvitation } from './accept-invitation';
+
+interface InvitePageProps {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * Landing page for a workspace invitation link.
+ *
+ * Unlike the vendor portal this route requires a session: middleware sends
+ * signed-out visitors to login and back here afterwards.
+ *
+ * @param params - A promise resolving to the raw `token` from the invitation link
+ */
+export default async function InvitePage({ params }: InvitePageProps) {
+  const { token } = await params;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30">
+      <AcceptInvitation token={token} />
+    </div>
+  );
+}
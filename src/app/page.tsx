@@ -11,6 +11,7 @@ export default async function HomePage() {
     averageROI,
     projectCounts,
     categorySpends,
+    cashFlow,
   } = await getDashboardData();
 
   return (
@@ -39,6 +40,7 @@ export default async function HomePage() {
             averageROI={averageROI}
             projectCounts={projectCounts}
             categorySpends={categorySpends}
+            cashFlow={cashFlow}
           />
         </div>
       </main>
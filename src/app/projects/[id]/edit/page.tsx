@@ -13,7 +13,7 @@ import {
   transformDatabaseToForm,
   type ProjectFormValues,
 } from '@/lib/validations/project';
-import type { Project } from '@/types';
+import type { BudgetCategory, Project } from '@/types';
 
 /**
  * Edit Project page component that provides a UI for viewing and editing a single project's details.
@@ -28,6 +28,7 @@ export default function EditProjectPage() {
   const projectId = params.id as string;
 
   const [project, setProject] = useState<Project | null>(null);
+  const [categoryBudgets, setCategoryBudgets] = useState<Partial<Record<BudgetCategory, number>>>();
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -36,13 +37,20 @@ export default function EditProjectPage() {
     async function fetchProject() {
       try {
         const supabase = getSupabaseClient();
-        const { data, error } = await supabase
-          .from('projects')
-          .select('*')
-          .eq('id', projectId)
-          .single();
+        const [{ data, error }, { data: budgetItems, error: budgetError }] = await Promise.all([
+          supabase.from('projects').select('*').eq('id', projectId).single(),
+          supabase.from('budget_items').select('category, underwriting_amount').eq('project_id', projectId),
+        ]);
 
         if (error) throw error;
+        if (budgetError) throw budgetError;
+
+        // The deal calculator's rehab budget is the underwriting budget
+        const budgets: Partial<Record<BudgetCategory, number>> = {};
+        for (const item of budgetItems as { category: BudgetCategory; underwriting_amount: number }[]) {
+          budgets[item.category] = (budgets[item.category] || 0) + item.underwriting_amount;
+        }
+        setCategoryBudgets(budgets);
         setProject(data);
       } catch (error) {
         console.error('Error fetching project:', error);
@@ -171,6 +179,9 @@ export default function EditProjectPage() {
           onCancel={() => router.push(`/projects/${projectId}`)}
           isSubmitting={isSubmitting}
           submitLabel="Save Changes"
+          calculationSettingsId={project.calculation_settings_id}
+          ownerId={project.user_id}
+          categoryBudgets={categoryBudgets}
         />
       </main>
     </div>
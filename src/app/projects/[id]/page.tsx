@@ -14,7 +14,7 @@ interface ProjectPageProps {
 /**
  * Render the project page for a given project id.
  *
- * Fetches the project and related data (budget items, vendors, draws, cost reference)
+ * Fetches the project and related data (budget items, vendors, draws, loans, closeout, comps, cost reference)
  * from Supabase and renders the page header and ProjectTabs populated with that data.
  *
  * @param params - A promise resolving to an object with the route `id` of the project
@@ -56,6 +56,29 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
     .eq('project_id', id)
     .order('draw_number');
 
+  // Fetch loans for this project
+  const { data: loans } = await supabase
+    .from('project_loans')
+    .select('*')
+    .eq('project_id', id)
+    .order('lien_position')
+    .order('sort_order');
+
+  // Fetch the sale closeout, if one has been entered
+  const { data: closeout } = await supabase
+    .from('project_closeouts')
+    .select('*')
+    .eq('project_id', id)
+    .maybeSingle();
+
+  // Fetch comparable sales, newest first
+  const { data: comps } = await supabase
+    .from('project_comps')
+    .select('*')
+    .eq('project_id', id)
+    .order('sale_date', { ascending: false, nullsFirst: false })
+    .order('created_at');
+
   // Fetch cost reference data
   const { data: costReference } = await supabase
     .from('cost_reference')
@@ -109,6 +132,9 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
             budgetItems={budgetItems || []}
             vendors={vendors || []}
             draws={draws || []}
+            loans={loans || []}
+            closeout={closeout}
+            comps={comps || []}
             costReference={costReference || []}
           />
         </div>
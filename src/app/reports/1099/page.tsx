@@ -0,0 +1,20 @@
+import { Tax1099Client } from './tax-1099-client';
+
+export default function Tax1099Page() {
+  return (
+    <div className="page-shell py-8">
+      <div className="page-stack">
+        <div className="page-header">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-semibold">1099 Vendor Payments</h1>
+            <p className="text-sm text-muted-foreground">
+              What each vendor was paid through draws in a tax year, across all projects.
+            </p>
+          </div>
+        </div>
+
+        <Tax1099Client />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { IconAlertTriangle, IconDownload, IconFileText, IconReceiptTax } from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatCurrency } from '@/lib/utils';
+import {
+  NEC_REPORTING_THRESHOLD,
+  build1099NecCsv,
+  get1099CsvFilename,
+  getTaxYearOptions,
+} from '@/lib/tax-1099';
+import { use1099Report, useDownload1099Statement } from '@/hooks/use-1099-report';
+
+const { years: TAX_YEARS, defaultYear: DEFAULT_TAX_YEAR } = getTaxYearOptions();
+
+export function Tax1099Client() {
+  const [taxYear, setTaxYear] = useState(DEFAULT_TAX_YEAR);
+  const { data: report, isLoading, error } = use1099Report(taxYear);
+  const downloadStatement = useDownload1099Statement();
+
+  const handleDownloadCsv = () => {
+    if (!report) return;
+    const blob = new Blob([build1099NecCsv(report)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = get1099CsvFilename(report.taxYear);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Select value={String(taxYear)} onValueChange={(value) => setTaxYear(Number(value))}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Tax year" />
+          </SelectTrigger>
+          <SelectContent>
+            {TAX_YEARS.map((year) => (
+              <SelectItem key={year} value={String(year)}>
+                Tax year {year}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleDownloadCsv} disabled={!report || report.reportableCount === 0}>
+          <IconDownload className="h-4 w-4" />
+          Download 1099-NEC CSV
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : error ? (
+        <Card>
+          <CardContent className="p-6 text-sm text-destructive">Failed to load vendor payments.</CardContent>
+        </Card>
+      ) : !report || report.vendors.length === 0 ? (
+        <div className="empty-state">
+          <IconReceiptTax className="empty-state-icon" />
+          <p className="empty-state-title">No vendor payments in {taxYear}</p>
+          <p className="empty-state-description">Paid draws assigned to a vendor will show up here.</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Vendors needing a 1099-NEC</p>
+                <p className="text-2xl font-semibold tabular-nums">{report.reportableCount}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Total reportable</p>
+                <p className="text-2xl font-semibold tabular-nums">{formatCurrency(report.reportableTotal)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Missing W-9</p>
+                <p
+                  className={`text-2xl font-semibold tabular-nums ${
+                    report.needsW9Count > 0 ? 'text-destructive' : ''
+                  }`}
+                >
+                  {report.needsW9Count}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="rounded-lg border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="table-header">
+                  <th className="text-left p-3">Vendor</th>
+                  <th className="text-right p-3">Payments</th>
+                  <th className="text-right p-3">Paid by Card</th>
+                  <th className="text-right p-3">Box 1 Total</th>
+                  <th className="text-left p-3">Status</th>
+                  <th className="p-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {report.vendors.map((summary) => (
+                  <tr key={summary.vendor.id} className="border-t">
+                    <td className="p-3">
+                      <p className="font-medium">{summary.vendor.name}</p>
+                      {summary.vendor.contact_name && (
+                        <p className="text-xs text-muted-foreground">{summary.vendor.contact_name}</p>
+                      )}
+                    </td>
+                    <td className="p-3 text-right tabular-nums">{summary.payments.length}</td>
+                    <td className="p-3 text-right tabular-nums text-muted-foreground">
+                      {summary.excludedTotal > 0 ? formatCurrency(summary.excludedTotal) : '-'}
+                    </td>
+                    <td className="p-3 text-right tabular-nums font-medium">{formatCurrency(summary.total)}</td>
+                    <td className="p-3">
+                      {summary.needsW9 ? (
+                        <Badge variant="destructive">
+                          <IconAlertTriangle className="h-3 w-3" />
+                          W-9 missing
+                        </Badge>
+                      ) : summary.reportable ? (
+                        <Badge variant="active">1099 required</Badge>
+                      ) : (
+                        <Badge variant="secondary">Under {formatCurrency(NEC_REPORTING_THRESHOLD)}</Badge>
+                      )}
+                    </td>
+                    <td className="p-3 text-right">
+                      <LoadingButton
+                        variant="outline"
+                        size="sm"
+                        onClick={() => downloadStatement.mutate({ vendor: summary.vendor, taxYear })}
+                        isLoading={
+                          downloadStatement.isPending && downloadStatement.variables?.vendor.id === summary.vendor.id
+                        }
+                        loadingText="Rendering..."
+                      >
+                        <IconFileText className="h-4 w-4" />
+                        Statement
+                      </LoadingButton>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Draws split across budget lines count toward each line&apos;s vendor, less retainage held back until it is paid out with the final draw. Card payments are reported by the card processor on a 1099-K and are left out of Box 1. The CSV leaves
+            the recipient TIN blank; copy it from each vendor&apos;s W-9 when filing.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import {
   IconArrowLeft,
@@ -15,6 +15,10 @@ import {
   IconPlayerPlay,
   IconDeviceFloppy,
   IconRefresh,
+  IconCopy,
+  IconPlus,
+  IconStar,
+  IconTrash,
 } from '@tabler/icons-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -27,22 +31,72 @@ import { SellingCostSettingsSection } from '@/components/settings/selling-cost-s
 import { ProfitSettingsSection } from '@/components/settings/profit-settings-section';
 import { VarianceSettingsSection } from '@/components/settings/variance-settings-section';
 import { FormulaPreview } from '@/components/settings/formula-preview';
+import { CalculationProfileSelect } from '@/components/settings/calculation-profile-select';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { DEFAULT_CALCULATION_SETTINGS, type CalculationSettingsInput } from '@/types';
 import { formatCurrency, formatPercent } from '@/lib/utils';
+import { toCalculationSettingsInput } from '@/lib/calculation-settings';
+import { analyzeDeal, type DealAnalysisInputs } from '@/lib/deal-analysis';
+import {
+  useCalculationSettingsProfiles,
+  useSaveCalculationSettings,
+  useDuplicateCalculationSettings,
+  useDeleteCalculationSettings,
+  useSetDefaultCalculationSettings,
+} from '@/hooks/use-calculation-settings';
+import { useAuth } from '@/hooks/use-auth';
 import { toast } from 'sonner';
 
 export default function CalculationsSettingsPage() {
   const [settings, setSettings] = useState<CalculationSettingsInput>(DEFAULT_CALCULATION_SETTINGS);
   const [activeTab, setActiveTab] = useState('mao');
   const [hasChanges, setHasChanges] = useState(false);
+  // null = a new profile that has not been saved yet
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+
+  const { user } = useAuth();
+  const { data: readableProfiles, isLoading: profilesLoading } = useCalculationSettingsProfiles();
+  // Teammates' profiles that projects use are readable but not editable here
+  const profiles = useMemo(
+    () => (readableProfiles ?? []).filter((p) => !user || p.user_id === user.id),
+    [readableProfiles, user]
+  );
+  const saveMutation = useSaveCalculationSettings();
+  const duplicateMutation = useDuplicateCalculationSettings();
+  const deleteMutation = useDeleteCalculationSettings();
+  const setDefaultMutation = useSetDefaultCalculationSettings();
+
+  const selectedProfile = profiles.find((p) => p.id === selectedProfileId) ?? null;
+
+  // Select the default profile once profiles load (or the first one if none is default)
+  useEffect(() => {
+    if (profilesLoading || selectedProfileId || hasChanges) return;
+    const initial = profiles.find((p) => p.is_default) ?? profiles[0];
+    if (initial) {
+      setSelectedProfileId(initial.id);
+      setSettings(toCalculationSettingsInput(initial));
+    }
+  }, [profiles, profilesLoading, selectedProfileId, hasChanges]);
 
   // Sample deal for preview calculations
-  const sampleDeal = {
+  const sampleDeal: DealAnalysisInputs = {
     arv: 350000,
     purchasePrice: 200000,
     rehabBudget: 50000,
     closingCosts: 5000,
     holdMonths: 4,
+    categoryBudgets: {
+      kitchen: 15000,
+      bathrooms: 10000,
+      flooring: 8000,
+      interior_paint: 5000,
+      plumbing: 4000,
+      electrical: 4000,
+      exterior: 4000,
+    },
   };
 
   const updateSettings = (updates: Partial<CalculationSettingsInput>) => {
@@ -50,96 +104,106 @@ export default function CalculationsSettingsPage() {
     setHasChanges(true);
   };
 
-  const handleSave = () => {
-    // TODO: Save to Supabase
-    toast.success('Calculation settings saved successfully');
+  const handleSelectProfile = (profileId: string | null) => {
+    const profile = profiles.find((p) => p.id === profileId);
+    if (!profile) return;
+    if (hasChanges && !window.confirm('Discard unsaved changes to this profile?')) return;
+    setSelectedProfileId(profile.id);
+    setSettings(toCalculationSettingsInput(profile));
     setHasChanges(false);
   };
 
-  const handleReset = () => {
-    setSettings(DEFAULT_CALCULATION_SETTINGS);
-    setHasChanges(false);
-    toast.info('Settings reset to defaults');
-  };
+  const handleSave = async () => {
+    if (!settings.name.trim()) {
+      toast.error('Profile name is required');
+      return;
+    }
 
-  // Calculate preview values based on current settings
-  const calculatePreview = () => {
-    const { arv, purchasePrice, rehabBudget, closingCosts, holdMonths } = sampleDeal;
-
-    // Holding costs
-    let holdingCostsTotal = 0;
-    if (settings.holding_cost_method === 'flat_monthly') {
-      holdingCostsTotal = settings.holding_cost_default_monthly * holdMonths;
-    } else if (settings.holding_cost_method === 'itemized') {
-      const items = settings.holding_cost_items;
-      holdingCostsTotal = (items.taxes + items.insurance + items.utilities + items.loan_interest + items.hoa + items.lawn_care + items.other) * holdMonths;
-    } else if (settings.holding_cost_method === 'percentage_of_loan') {
-      holdingCostsTotal = (purchasePrice * (settings.holding_cost_loan_rate_annual / 100) / 12) * holdMonths;
+    try {
+      const saved = await saveMutation.mutateAsync({
+        ...settings,
+        name: settings.name.trim(),
+        // The first profile a user saves becomes their default
+        is_default: settings.is_default || profiles.length === 0,
+        id: selectedProfileId,
+      });
+      setSelectedProfileId(saved.id);
+      setSettings(toCalculationSettingsInput(saved));
+      setHasChanges(false);
+      toast.success('Calculation settings saved successfully');
+    } catch (error) {
+      console.error('Error saving calculation settings:', error);
+      toast.error('Failed to save calculation settings');
     }
+  };
 
-    // Selling costs
-    const sellingCosts = arv * (settings.selling_cost_default_percent / 100) + settings.selling_cost_fixed_amount;
+  const handleNewProfile = () => {
+    if (hasChanges && !window.confirm('Discard unsaved changes to this profile?')) return;
+    setSelectedProfileId(null);
+    setSettings({ ...DEFAULT_CALCULATION_SETTINGS, name: 'New Profile', is_default: false });
+    setHasChanges(true);
+  };
 
-    // Contingency
-    let contingency = 0;
-    if (settings.contingency_method === 'flat_percent') {
-      contingency = rehabBudget * (settings.contingency_default_percent / 100);
-    } else if (settings.contingency_method === 'tiered') {
-      const tier = settings.contingency_tiers.find((t) => t.max_budget === null || rehabBudget <= t.max_budget);
-      contingency = rehabBudget * ((tier?.percent || 10) / 100);
-    }
+  const handleDuplicate = async () => {
+    if (!selectedProfile) return;
 
-    const rehabWithContingency = rehabBudget + contingency;
-
-    // MAO calculation
-    let mao = 0;
-    const totalCostsForMao =
-      rehabWithContingency +
-      (settings.mao_include_holding_costs ? holdingCostsTotal : 0) +
-      (settings.mao_include_selling_costs ? sellingCosts : 0) +
-      (settings.mao_include_closing_costs ? closingCosts : 0);
-
-    switch (settings.mao_method) {
-      case 'seventy_rule':
-      case 'custom_percentage':
-        mao = arv * settings.mao_arv_multiplier - totalCostsForMao;
-        break;
-      case 'arv_minus_all':
-      case 'net_profit_target':
-        mao = arv - totalCostsForMao - settings.mao_target_profit;
-        break;
-      case 'gross_margin':
-        mao = arv * (1 - settings.mao_target_profit_percent / 100) - totalCostsForMao;
-        break;
+    try {
+      const copy = await duplicateMutation.mutateAsync({ profile: selectedProfile });
+      setSelectedProfileId(copy.id);
+      setSettings(toCalculationSettingsInput(copy));
+      setHasChanges(false);
+      toast.success(`Created "${copy.name}"`);
+    } catch (error) {
+      console.error('Error duplicating calculation settings:', error);
+      toast.error('Failed to duplicate profile');
     }
+  };
 
-    // Total Investment
-    const totalInvestment = purchasePrice + rehabWithContingency + closingCosts + holdingCostsTotal + sellingCosts;
+  const handleSetDefault = async () => {
+    if (!selectedProfile) return;
 
-    // Profit
-    const grossProfit = arv - totalInvestment;
+    try {
+      await setDefaultMutation.mutateAsync(selectedProfile.id);
+      setSettings((prev) => ({ ...prev, is_default: true }));
+      toast.success(`"${selectedProfile.name}" is now your default profile`);
+    } catch (error) {
+      console.error('Error setting default calculation settings:', error);
+      toast.error('Failed to set default profile');
+    }
+  };
 
-    // ROI
-    let roi = 0;
-    if (settings.roi_method === 'simple') {
-      roi = totalInvestment > 0 ? (grossProfit / totalInvestment) * 100 : 0;
-    } else if (settings.roi_method === 'annualized') {
-      roi = totalInvestment > 0 ? ((grossProfit / totalInvestment) * (12 / holdMonths)) * 100 : 0;
+  const handleDelete = async () => {
+    if (!selectedProfile) return;
+
+    try {
+      await deleteMutation.mutateAsync(selectedProfile.id);
+      const next = profiles.find((p) => p.id !== selectedProfile.id && p.is_default)
+        ?? profiles.find((p) => p.id !== selectedProfile.id);
+      setSelectedProfileId(next?.id ?? null);
+      setSettings(next ? toCalculationSettingsInput(next) : DEFAULT_CALCULATION_SETTINGS);
+      setHasChanges(false);
+      setDeleteDialogOpen(false);
+      toast.success(`Deleted "${selectedProfile.name}"`);
+    } catch (error) {
+      console.error('Error deleting calculation settings:', error);
+      toast.error('Failed to delete profile');
     }
+  };
 
-    return {
-      holdingCostsTotal,
-      sellingCosts,
-      contingency,
-      rehabWithContingency,
-      mao,
-      totalInvestment,
-      grossProfit,
-      roi,
-    };
+  const handleReset = () => {
+    // Keep the profile identity, reset only the calculation values
+    setSettings((prev) => ({
+      ...DEFAULT_CALCULATION_SETTINGS,
+      name: prev.name,
+      description: prev.description,
+      is_default: prev.is_default,
+    }));
+    setHasChanges(true);
+    toast.info('Settings reset to defaults');
   };
 
-  const preview = calculatePreview();
+  // Preview values based on current settings
+  const preview = analyzeDeal(sampleDeal, settings);
 
   return (
     <div className="min-h-screen bg-background">
@@ -169,7 +233,7 @@ export default function CalculationsSettingsPage() {
                 <IconRefresh className="h-4 w-4 mr-2" />
                 Reset to Defaults
               </Button>
-              <Button size="sm" onClick={handleSave} disabled={!hasChanges}>
+              <Button size="sm" onClick={handleSave} disabled={!hasChanges || saveMutation.isPending}>
                 <IconDeviceFloppy className="h-4 w-4 mr-2" />
                 Save Changes
               </Button>
@@ -178,6 +242,82 @@ export default function CalculationsSettingsPage() {
         </div>
       </header>
 
+      {/* Profile Bar */}
+      <div className="border-b bg-muted/30">
+        <div className="container mx-auto px-4 py-3 flex flex-wrap items-center gap-3">
+          <span className="text-sm text-muted-foreground">Profile</span>
+          {profiles.length > 0 && (
+            <CalculationProfileSelect
+              profiles={profiles}
+              value={selectedProfileId}
+              onValueChange={handleSelectProfile}
+              disabled={profilesLoading}
+            />
+          )}
+          <Input
+            value={settings.name}
+            onChange={(e) => updateSettings({ name: e.target.value })}
+            placeholder="Profile name"
+            className="w-[220px] h-9"
+            aria-label="Profile name"
+          />
+          {settings.is_default && (
+            <Badge variant="secondary">
+              <IconStar className="h-3 w-3 mr-1" />
+              Default
+            </Badge>
+          )}
+          {!selectedProfileId && hasChanges && (
+            <span className="text-xs text-amber-600">Unsaved new profile</span>
+          )}
+          <div className="flex items-center gap-2 ml-auto">
+            <Button variant="ghost" size="sm" onClick={handleNewProfile}>
+              <IconPlus className="h-4 w-4 mr-2" />
+              New
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleDuplicate}
+              disabled={!selectedProfile || duplicateMutation.isPending}
+            >
+              <IconCopy className="h-4 w-4 mr-2" />
+              Duplicate
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleSetDefault}
+              disabled={!selectedProfile || selectedProfile.is_default || setDefaultMutation.isPending}
+            >
+              <IconStar className="h-4 w-4 mr-2" />
+              Make Default
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-destructive"
+              onClick={() => setDeleteDialogOpen(true)}
+              disabled={!selectedProfile}
+            >
+              <IconTrash className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        title="Delete Profile"
+        description={`Delete "${selectedProfile?.name ?? ''}"? Projects using it will fall back to your default profile.`}
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={handleDelete}
+        isPending={deleteMutation.isPending}
+      />
+
       <main className="container mx-auto px-4 py-6">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Settings Panel */}
@@ -295,11 +435,11 @@ export default function CalculationsSettingsPage() {
                     <span className="text-muted-foreground">Closing:</span>
                     <span className="text-right tabular-nums">{formatCurrency(sampleDeal.closingCosts)}</span>
                     <span className="text-muted-foreground">Holding ({sampleDeal.holdMonths}mo):</span>
-                    <span className="text-right tabular-nums">{formatCurrency(preview.holdingCostsTotal)}</span>
+                    <span className="text-right tabular-nums">{formatCurrency(preview.holdingCosts)}</span>
                     <span className="text-muted-foreground">Selling:</span>
                     <span className="text-right tabular-nums">{formatCurrency(preview.sellingCosts)}</span>
                     <span className="font-medium border-t pt-1">Total:</span>
-                    <span className="text-right font-medium tabular-nums border-t pt-1">{formatCurrency(preview.totalInvestment)}</span>
+                    <span className="text-right font-medium tabular-nums border-t pt-1">{formatCurrency(preview.totalCosts)}</span>
                   </div>
                 </div>
               </CardContent>
@@ -0,0 +1,20 @@
+import { TeamSettingsClient } from './team-settings-client';
+
+export default function TeamSettingsPage() {
+  return (
+    <div className="page-shell py-8">
+      <div className="page-stack">
+        <div className="page-header">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-semibold">Team</h1>
+            <p className="text-sm text-muted-foreground">
+              Who can work in this workspace, what their role lets them do, and which projects investors can see.
+            </p>
+          </div>
+        </div>
+
+        <TeamSettingsClient />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,489 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { IconBan, IconCopy, IconLogout, IconMailPlus, IconTrash, IconUsersGroup } from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatDate } from '@/lib/utils';
+import {
+  INVITATION_EXPIRY_DAYS,
+  WORKSPACE_ROLES,
+  WORKSPACE_ROLE_DESCRIPTIONS,
+  countOwners,
+  getInvitationStatus,
+  getWorkspaceErrorMessage,
+  isValidInvitationEmail,
+  type InvitationStatus,
+} from '@/lib/workspaces';
+import { useAuth, useWorkspace } from '@/hooks/use-auth';
+import { useProjects } from '@/hooks/use-projects';
+import {
+  useCreateInvitation,
+  useProjectInvestors,
+  useRemoveMember,
+  useRenameWorkspace,
+  useRevokeInvitation,
+  useSetProjectShared,
+  useUpdateMemberRole,
+  useWorkspaceInvitations,
+  useWorkspaceMembers,
+} from '@/hooks/use-workspaces';
+import { WORKSPACE_ROLE_LABELS, type WorkspaceMemberWithProfile, type WorkspaceRole } from '@/types';
+
+const INVITATION_BADGES: Record<InvitationStatus, { label: string; variant: 'pending' | 'active' | 'onHold' | 'cancelled' }> = {
+  pending: { label: 'Pending', variant: 'pending' },
+  accepted: { label: 'Accepted', variant: 'active' },
+  expired: { label: 'Expired', variant: 'onHold' },
+  revoked: { label: 'Revoked', variant: 'cancelled' },
+};
+
+function getMemberName(member: WorkspaceMemberWithProfile) {
+  return member.profile?.full_name || member.profile?.email || 'Unknown member';
+}
+
+export function TeamSettingsClient() {
+  const { user } = useAuth();
+  const { workspace, role, isLoading: workspaceLoading, can } = useWorkspace();
+  const isOwner = can('manage_members');
+
+  const { data: members = [], isLoading: membersLoading } = useWorkspaceMembers(workspace?.id ?? null);
+  const { data: invitations = [] } = useWorkspaceInvitations(workspace?.id ?? null, isOwner);
+  const { data: shares = [] } = useProjectInvestors(isOwner ? workspace?.id ?? null : null);
+  const { data: projects = [] } = useProjects();
+
+  const renameWorkspace = useRenameWorkspace();
+  const createInvitation = useCreateInvitation();
+  const revokeInvitation = useRevokeInvitation();
+  const updateMemberRole = useUpdateMemberRole();
+  const removeMember = useRemoveMember();
+  const setProjectShared = useSetProjectShared();
+
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('project_manager');
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [removingMember, setRemovingMember] = useState<WorkspaceMemberWithProfile | null>(null);
+
+  useEffect(() => {
+    if (workspace) setWorkspaceName(workspace.name);
+  }, [workspace]);
+
+  const ownerCount = countOwners(members);
+  const investors = members.filter((member) => member.role === 'investor');
+  const pendingInvitations = invitations.filter((invitation) => getInvitationStatus(invitation) !== 'accepted');
+
+  const isShared = (projectId: string, userId: string) =>
+    shares.some((share) => share.project_id === projectId && share.user_id === userId);
+
+  const handleRename = () => {
+    if (!workspaceName.trim()) {
+      toast.error('Workspace name is required');
+      return;
+    }
+    renameWorkspace.mutate(workspaceName, {
+      onSuccess: () => toast.success('Workspace renamed'),
+      onError: (error) => toast.error(getWorkspaceErrorMessage(error, 'Failed to rename workspace')),
+    });
+  };
+
+  const handleInvite = () => {
+    if (!isValidInvitationEmail(inviteEmail)) {
+      toast.error('Enter a valid email address');
+      return;
+    }
+    createInvitation.mutate(
+      { email: inviteEmail, role: inviteRole },
+      {
+        onSuccess: ({ url }) => {
+          setInviteLink(url);
+          setInviteEmail('');
+        },
+        onError: (error) => toast.error(getWorkspaceErrorMessage(error, 'Failed to create invitation')),
+      }
+    );
+  };
+
+  const handleInviteOpenChange = (open: boolean) => {
+    setInviteOpen(open);
+    if (!open) {
+      setInviteLink(null);
+      setInviteEmail('');
+      setInviteRole('project_manager');
+    }
+  };
+
+  const handleCopy = (url: string) => {
+    navigator.clipboard.writeText(url);
+    toast.success('Invitation link copied!');
+  };
+
+  const handleRoleChange = (member: WorkspaceMemberWithProfile, newRole: WorkspaceRole) => {
+    updateMemberRole.mutate(
+      { member, role: newRole },
+      {
+        onSuccess: () => toast.success(`${getMemberName(member)} is now ${WORKSPACE_ROLE_LABELS[newRole]}`),
+        onError: (error) => toast.error(getWorkspaceErrorMessage(error, 'Failed to change role')),
+      }
+    );
+  };
+
+  const handleRemove = () => {
+    if (!removingMember) return;
+    const leaving = removingMember.user_id === user?.id;
+    removeMember.mutate(removingMember, {
+      onSuccess: () => {
+        toast.success(leaving ? `You left ${workspace?.name}` : `Removed ${getMemberName(removingMember)}`);
+        setRemovingMember(null);
+      },
+      onError: (error) => toast.error(getWorkspaceErrorMessage(error, 'Failed to remove member')),
+    });
+  };
+
+  const handleShareChange = (projectId: string, userId: string, shared: boolean) => {
+    setProjectShared.mutate(
+      { projectId, userId, shared },
+      { onError: (error) => toast.error(getWorkspaceErrorMessage(error, 'Failed to update project sharing')) }
+    );
+  };
+
+  if (workspaceLoading || membersLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  if (!workspace || !role) {
+    return (
+      <div className="empty-state">
+        <IconUsersGroup className="empty-state-icon" />
+        <p className="empty-state-title">No workspace</p>
+        <p className="empty-state-description">Ask a workspace owner to send you an invitation.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Workspace */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Workspace</CardTitle>
+          <CardDescription>
+            Your role: {WORKSPACE_ROLE_LABELS[role]}. {WORKSPACE_ROLE_DESCRIPTIONS[role]}
+          </CardDescription>
+        </CardHeader>
+        {isOwner && (
+          <CardContent>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="flex-1 min-w-[240px] space-y-1">
+                <Label htmlFor="workspace-name">Name</Label>
+                <Input
+                  id="workspace-name"
+                  value={workspaceName}
+                  onChange={(e) => setWorkspaceName(e.target.value)}
+                />
+              </div>
+              <LoadingButton
+                onClick={handleRename}
+                isLoading={renameWorkspace.isPending}
+                loadingText="Saving..."
+                disabled={workspaceName.trim() === workspace.name}
+              >
+                Save
+              </LoadingButton>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Members */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Members</CardTitle>
+            <CardDescription>{members.length} {members.length === 1 ? 'person' : 'people'} in this workspace</CardDescription>
+          </div>
+          {isOwner && (
+            <Button onClick={() => setInviteOpen(true)}>
+              <IconMailPlus className="h-4 w-4" />
+              Invite
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-lg border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="table-header">
+                  <th className="text-left p-3">Member</th>
+                  <th className="text-left p-3 w-56">Role</th>
+                  <th className="text-left p-3 w-32">Joined</th>
+                  <th className="p-3 w-16" />
+                </tr>
+              </thead>
+              <tbody>
+                {members.map((member) => {
+                  const isSelf = member.user_id === user?.id;
+                  const isLastOwner = member.role === 'owner' && ownerCount === 1;
+
+                  return (
+                    <tr key={member.id} className="border-t">
+                      <td className="p-3">
+                        <p className="font-medium">
+                          {getMemberName(member)}
+                          {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                        </p>
+                        {member.profile?.full_name && member.profile.email && (
+                          <p className="text-xs text-muted-foreground">{member.profile.email}</p>
+                        )}
+                      </td>
+                      <td className="p-3">
+                        {isOwner && !isLastOwner ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(value) => handleRoleChange(member, value as WorkspaceRole)}
+                            disabled={updateMemberRole.isPending}
+                          >
+                            <SelectTrigger className="w-[180px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {WORKSPACE_ROLES.map((option) => (
+                                <SelectItem key={option} value={option}>
+                                  {WORKSPACE_ROLE_LABELS[option]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant={member.role === 'owner' ? 'default' : 'secondary'}>
+                            {WORKSPACE_ROLE_LABELS[member.role]}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="p-3 text-muted-foreground">{formatDate(member.created_at)}</td>
+                      <td className="p-3 text-right">
+                        {(isOwner || isSelf) && !isLastOwner && (
+                          <button
+                            onClick={() => setRemovingMember(member)}
+                            className="p-1 rounded hover:bg-red-100 text-muted-foreground hover:text-red-600 transition-colors"
+                            title={isSelf ? 'Leave workspace' : 'Remove member'}
+                          >
+                            {isSelf ? <IconLogout className="h-4 w-4" /> : <IconTrash className="h-4 w-4" />}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Invitations */}
+      {isOwner && pendingInvitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitations</CardTitle>
+            <CardDescription>Links expire after {INVITATION_EXPIRY_DAYS} days.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-lg border overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="table-header">
+                    <th className="text-left p-3">Email</th>
+                    <th className="text-left p-3 w-40">Role</th>
+                    <th className="text-left p-3 w-32">Expires</th>
+                    <th className="text-left p-3 w-28">Status</th>
+                    <th className="p-3 w-16" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {pendingInvitations.map((invitation) => {
+                    const status = getInvitationStatus(invitation);
+                    const badge = INVITATION_BADGES[status];
+
+                    return (
+                      <tr key={invitation.id} className="border-t">
+                        <td className="p-3 font-medium">{invitation.email}</td>
+                        <td className="p-3">{WORKSPACE_ROLE_LABELS[invitation.role]}</td>
+                        <td className="p-3 text-muted-foreground">{formatDate(invitation.expires_at)}</td>
+                        <td className="p-3">
+                          <Badge variant={badge.variant}>{badge.label}</Badge>
+                        </td>
+                        <td className="p-3 text-right">
+                          {status === 'pending' && (
+                            <button
+                              onClick={() =>
+                                revokeInvitation.mutate(invitation, {
+                                  onError: (error) =>
+                                    toast.error(getWorkspaceErrorMessage(error, 'Failed to revoke invitation')),
+                                })
+                              }
+                              disabled={revokeInvitation.isPending}
+                              className="p-1 rounded hover:bg-red-100 text-muted-foreground hover:text-red-600 transition-colors disabled:opacity-50"
+                              title="Revoke invitation"
+                            >
+                              <IconBan className="h-4 w-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Investor access */}
+      {isOwner && investors.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Investor Access</CardTitle>
+            <CardDescription>Investors only see the projects you share with them, read-only.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {investors.map((investor) => (
+              <div key={investor.id} className="space-y-2">
+                <p className="text-sm font-medium">{getMemberName(investor)}</p>
+                {projects.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No projects yet.</p>
+                ) : (
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {projects.map((project) => (
+                      <label key={project.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={isShared(project.id, investor.user_id)}
+                          onCheckedChange={(checked) =>
+                            handleShareChange(project.id, investor.user_id, checked === true)
+                          }
+                          disabled={setProjectShared.isPending}
+                        />
+                        <span className="truncate">{project.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Invite dialog */}
+      <Dialog open={inviteOpen} onOpenChange={handleInviteOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite to {workspace.name}</DialogTitle>
+            <DialogDescription>
+              Send the link to the person you are inviting. They sign in or create an account with this email to
+              join.
+            </DialogDescription>
+          </DialogHeader>
+
+          {inviteLink ? (
+            <div className="rounded-lg border bg-muted/50 p-3 space-y-2">
+              <p className="text-xs text-muted-foreground">Copy this link now. It will not be shown again.</p>
+              <div className="flex items-center gap-2">
+                <input
+                  readOnly
+                  value={inviteLink}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 p-2 rounded border text-xs font-mono bg-background"
+                />
+                <Button variant="outline" onClick={() => handleCopy(inviteLink)}>
+                  <IconCopy className="h-4 w-4" />
+                  Copy
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="name@example.com"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Role</Label>
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as WorkspaceRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORKSPACE_ROLES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {WORKSPACE_ROLE_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{WORKSPACE_ROLE_DESCRIPTIONS[inviteRole]}</p>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {inviteLink ? (
+              <Button variant="outline" onClick={() => setInviteLink(null)}>
+                Invite someone else
+              </Button>
+            ) : (
+              <LoadingButton onClick={handleInvite} isLoading={createInvitation.isPending} loadingText="Creating...">
+                Create Invitation Link
+              </LoadingButton>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!removingMember}
+        onOpenChange={(open) => !open && setRemovingMember(null)}
+        title={removingMember?.user_id === user?.id ? 'Leave workspace?' : 'Remove member?'}
+        description={
+          removingMember?.user_id === user?.id
+            ? `You will lose access to ${workspace.name} until someone invites you again.`
+            : `${removingMember ? getMemberName(removingMember) : ''} will lose access to ${workspace.name}.`
+        }
+        confirmText={removingMember?.user_id === user?.id ? 'Leave' : 'Remove'}
+        variant="destructive"
+        onConfirm={handleRemove}
+        isPending={removeMember.isPending}
+      />
+    </div>
+  );
+}
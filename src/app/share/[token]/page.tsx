@@ -0,0 +1,88 @@
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import { IconAlertCircle } from '@tabler/icons-react';
+import { createClient } from '@/lib/supabase/server';
+import { SHARE_PHOTO_URL_TTL_SECONDS, hashShareToken, isWellFormedShareToken } from '@/lib/share-links';
+import type { SharedProject } from '@/types';
+import { SharedProjectView } from './shared-project-view';
+
+interface SharedProjectPageProps {
+  params: Promise<{ token: string }>;
+}
+
+export const metadata: Metadata = {
+  title: 'Shared Project | Rehab Budget Pro',
+  robots: { index: false, follow: false },
+};
+
+async function getSharedProject(token: string): Promise<SharedProject | null> {
+  if (!isWellFormedShareToken(token)) return null;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('get_project_share', {
+    p_token_hash: await hashShareToken(token),
+    p_user_agent: (await headers()).get('user-agent'),
+  });
+
+  if (error) {
+    console.error('Error loading shared project:', error);
+    return null;
+  }
+
+  return (data as SharedProject | null) ?? null;
+}
+
+// The storage policy only allows photos curated into an active link
+async function getPhotoUrls(photos: SharedProject['photos']): Promise<Record<string, string>> {
+  if (!photos || photos.length === 0) return {};
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.storage
+    .from('project-photos')
+    .createSignedUrls(
+      photos.map((photo) => photo.storage_path),
+      SHARE_PHOTO_URL_TTL_SECONDS
+    );
+
+  if (error) {
+    console.error('Error signing shared photos:', error);
+    return {};
+  }
+
+  return Object.fromEntries(
+    data.filter((item) => item.signedUrl && item.path).map((item) => [item.path as string, item.signedUrl])
+  );
+}
+
+/**
+ * Public, read-only view of a project for investors and lenders.
+ *
+ * Access is granted by the token in the URL, not by a session; middleware
+ * lets /share/[token] through without login. Every load re-validates the
+ * token and counts as a view.
+ *
+ * @param params - A promise resolving to the raw `token` from the share link
+ */
+export default async function SharedProjectPage({ params }: SharedProjectPageProps) {
+  const { token } = await params;
+  const shared = await getSharedProject(token);
+
+  if (!shared) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <div className="text-center max-w-md mx-auto p-6">
+          <IconAlertCircle className="h-12 w-12 mx-auto text-red-500 mb-4" />
+          <h1 className="text-xl font-semibold mb-2">Invalid Link</h1>
+          <p className="text-muted-foreground">
+            This share link is invalid, has expired or has been revoked.
+            Please ask the project owner for a new link.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const photoUrls = await getPhotoUrls(shared.photos);
+
+  return <SharedProjectView shared={shared} photoUrls={photoUrls} />;
+}
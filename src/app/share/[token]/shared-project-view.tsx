@@ -0,0 +1,268 @@
+import { IconCalendar, IconHome, IconMapPin } from '@tabler/icons-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn, formatCurrency, formatDate, formatNumber, formatPercent } from '@/lib/utils';
+import { getSharedBudgetTotals } from '@/lib/share-links';
+import {
+  BUDGET_CATEGORIES,
+  PROJECT_SHARE_BUDGET_COLUMN_LABELS,
+  PROJECT_SHARE_SECTION_LABELS,
+  PROJECT_STATUS_LABELS,
+  type DrawMilestone,
+  type SharedProject,
+} from '@/types';
+
+interface SharedProjectViewProps {
+  shared: SharedProject;
+  photoUrls: Record<string, string>;
+}
+
+const MILESTONE_LABELS: Record<DrawMilestone, string> = {
+  project_start: 'Project Start',
+  demo_complete: 'Demo Complete',
+  rough_in: 'Rough-In',
+  drywall: 'Drywall',
+  finishes: 'Finishes',
+  final: 'Final',
+};
+
+function getCategoryLabel(category: string): string {
+  return BUDGET_CATEGORIES.find((c) => c.value === category)?.label || category;
+}
+
+/**
+ * Read-only project page rendered for a share link. Only the sections the
+ * link shares are present in `shared`; everything else is null.
+ */
+export function SharedProjectView({ shared, photoUrls }: SharedProjectViewProps) {
+  const { project, deal_summary: deal, budget, draws, photos } = shared;
+  const location = [project.address, project.city, project.state, project.zip].filter(Boolean).join(', ');
+  const details = [
+    project.beds != null && `${project.beds} bd`,
+    project.baths != null && `${project.baths} ba`,
+    project.sqft != null && `${formatNumber(project.sqft)} sqft`,
+    project.year_built != null && `Built ${project.year_built}`,
+  ].filter(Boolean);
+
+  const budgetTotals = budget ? getSharedBudgetTotals(budget, shared.budget_columns) : {};
+  const paidDraws = (draws ?? []).filter((draw) => draw.status === 'paid').reduce((sum, draw) => sum + draw.amount, 0);
+
+  return (
+    <div className="page-shell py-8">
+      <div className="page-stack">
+        {/* Project Header */}
+        <div className="page-header">
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-wide text-muted-foreground">Shared with {shared.label}</p>
+            <h1 className="text-2xl font-semibold">{project.name}</h1>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+              {location && (
+                <span className="inline-flex items-center gap-1">
+                  <IconMapPin className="h-4 w-4" />
+                  {location}
+                </span>
+              )}
+              {details.length > 0 && (
+                <span className="inline-flex items-center gap-1">
+                  <IconHome className="h-4 w-4" />
+                  {details.join(' · ')}
+                </span>
+              )}
+              {(project.rehab_start_date || project.target_complete_date) && (
+                <span className="inline-flex items-center gap-1">
+                  <IconCalendar className="h-4 w-4" />
+                  {formatDate(project.rehab_start_date)} – {formatDate(project.target_complete_date)}
+                </span>
+              )}
+            </div>
+          </div>
+          <div className="text-right space-y-1">
+            <span className="inline-block rounded-full bg-muted px-3 py-1 text-xs font-medium">
+              {PROJECT_STATUS_LABELS[project.status]}
+            </span>
+            <p className="text-xs text-muted-foreground">Link expires {formatDate(shared.expires_at)}</p>
+          </div>
+        </div>
+
+        {/* Deal Summary */}
+        {deal && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{PROJECT_SHARE_SECTION_LABELS.deal_summary}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  { label: 'ARV', value: formatCurrency(deal.arv) },
+                  { label: 'Purchase Price', value: formatCurrency(deal.purchase_price) },
+                  { label: 'Rehab Budget', value: formatCurrency(deal.rehab_budget) },
+                  { label: 'Rehab Spent', value: formatCurrency(deal.rehab_actual) },
+                  { label: 'Closing Costs', value: formatCurrency(deal.closing_costs) },
+                  { label: 'Holding Costs', value: formatCurrency(deal.holding_costs_total) },
+                  { label: 'Selling Costs', value: formatCurrency(deal.selling_costs) },
+                  { label: 'Hold Period', value: `${formatNumber(deal.hold_months)} months` },
+                  { label: 'Total Investment', value: formatCurrency(deal.total_investment) },
+                  { label: 'Projected Profit', value: formatCurrency(deal.gross_profit) },
+                  { label: 'ROI', value: formatPercent(deal.roi) },
+                ].map((stat) => (
+                  <div key={stat.label}>
+                    <p className="text-xs text-muted-foreground">{stat.label}</p>
+                    <p className="text-lg font-semibold tabular-nums">{stat.value}</p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Budget by Category */}
+        {budget && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{PROJECT_SHARE_SECTION_LABELS.budget}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {budget.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No budget items yet.</p>
+              ) : (
+                <div className="rounded-lg border overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="table-header">
+                        <th className="text-left p-3">Category</th>
+                        {shared.budget_columns.map((column) => (
+                          <th key={column} className="text-right p-3 w-36">
+                            {PROJECT_SHARE_BUDGET_COLUMN_LABELS[column]}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {budget.map((row) => (
+                        <tr key={row.category} className="border-t">
+                          <td className="p-3">{getCategoryLabel(row.category)}</td>
+                          {shared.budget_columns.map((column) => (
+                            <td key={column} className="p-3 text-right tabular-nums">
+                              {formatCurrency(row[column])}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                      <tr className="border-t bg-muted/50 font-semibold">
+                        <td className="p-3">Total</td>
+                        {shared.budget_columns.map((column) => (
+                          <td key={column} className="p-3 text-right tabular-nums">
+                            {formatCurrency(budgetTotals[column])}
+                          </td>
+                        ))}
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Draw History */}
+        {draws && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{PROJECT_SHARE_SECTION_LABELS.draws}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {draws.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No draws yet.</p>
+              ) : (
+                <div className="rounded-lg border overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="table-header">
+                        <th className="text-center p-3 w-16">#</th>
+                        <th className="text-left p-3">Milestone</th>
+                        <th className="text-left p-3">Vendor</th>
+                        <th className="text-right p-3 w-32">Amount</th>
+                        <th className="text-center p-3 w-28">Requested</th>
+                        <th className="text-center p-3 w-28">Paid</th>
+                        <th className="text-center p-3 w-24">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {draws.map((draw) => (
+                        <tr key={draw.draw_number} className="border-t">
+                          <td className="p-3 text-center tabular-nums">{draw.draw_number}</td>
+                          <td className="p-3">
+                            <div>{draw.milestone ? MILESTONE_LABELS[draw.milestone] : '-'}</div>
+                            {draw.description && (
+                              <div className="text-xs text-muted-foreground">{draw.description}</div>
+                            )}
+                          </td>
+                          <td className="p-3 text-muted-foreground">{draw.vendor_name || '-'}</td>
+                          <td className="p-3 text-right tabular-nums">{formatCurrency(draw.amount)}</td>
+                          <td className="p-3 text-center text-muted-foreground">{formatDate(draw.date_requested)}</td>
+                          <td className="p-3 text-center text-muted-foreground">{formatDate(draw.date_paid)}</td>
+                          <td className="p-3 text-center">
+                            <span
+                              className={cn(
+                                'text-xs px-2 py-1 rounded-full font-medium capitalize',
+                                draw.status === 'paid' && 'bg-green-100 text-green-700',
+                                draw.status === 'approved' && 'bg-blue-100 text-blue-700',
+                                draw.status === 'pending' && 'bg-yellow-100 text-yellow-700'
+                              )}
+                            >
+                              {draw.status}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                      <tr className="border-t bg-muted/50 font-semibold">
+                        <td className="p-3" colSpan={3}>
+                          Total Paid
+                        </td>
+                        <td className="p-3 text-right tabular-nums">{formatCurrency(paidDraws)}</td>
+                        <td colSpan={3}></td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Photos */}
+        {photos && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{PROJECT_SHARE_SECTION_LABELS.photos}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {photos.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No photos shared.</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  {photos.map((photo) => (
+                    <figure key={photo.id} className="space-y-1">
+                      <div className="relative aspect-[4/3] overflow-hidden rounded-lg bg-muted">
+                        {photoUrls[photo.storage_path] && (
+                          <img
+                            src={photoUrls[photo.storage_path]}
+                            alt={photo.caption || 'Photo'}
+                            className="absolute inset-0 w-full h-full object-cover"
+                          />
+                        )}
+                      </div>
+                      <figcaption className="text-xs text-muted-foreground">
+                        <span className="capitalize">{photo.photo_type}</span> · {formatDate(photo.taken_at)}
+                        {photo.caption && <span className="block text-foreground">{photo.caption}</span>}
+                      </figcaption>
+                    </figure>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
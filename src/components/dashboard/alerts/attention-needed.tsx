@@ -124,10 +124,7 @@ export function AttentionNeeded() {
                 color="amber"
                 projects={lowRoi}
                 renderDetail={(p) => {
-                  const roi =
-                    p.total_investment > 0
-                      ? (p.gross_profit / p.total_investment) * 100
-                      : 0;
+                  const roi = Number(p.roi) || 0;
                   return (
                     <span className="font-medium text-amber-600 dark:text-amber-400">
                       {roi.toFixed(1)}% ROI
@@ -46,10 +46,7 @@ export function FinancialPerformance() {
     ];
 
     soldProjects.forEach((p) => {
-      const roi =
-        p.total_investment > 0
-          ? (p.gross_profit / p.total_investment) * 100
-          : 0;
+      const roi = Number(p.roi) || 0;
 
       for (const range of ranges) {
         if (roi >= range.min && roi < range.max) {
@@ -72,10 +69,7 @@ export function FinancialPerformance() {
       .map((p) => ({
         name: p.name.length > 15 ? p.name.slice(0, 15) + '...' : p.name,
         profit: p.gross_profit || 0,
-        roi:
-          p.total_investment > 0
-            ? (p.gross_profit / p.total_investment) * 100
-            : 0,
+        roi: Number(p.roi) || 0,
       }));
   }, [soldProjects]);
 
@@ -100,10 +94,7 @@ export function FinancialPerformance() {
     if (!soldProjects || soldProjects.length === 0) return 0;
 
     const hittingTarget = soldProjects.filter((p) => {
-      const roi =
-        p.total_investment > 0
-          ? (p.gross_profit / p.total_investment) * 100
-          : 0;
+      const roi = Number(p.roi) || 0;
       return roi >= 15;
     }).length;
 
@@ -0,0 +1,254 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { IconArrowsTransferDown, IconDownload, IconCash, IconHome, IconTrendingDown } from '@tabler/icons-react';
+import {
+  Bar,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import {
+  buildCashFlowCsv,
+  getCashFlowCsvFilename,
+  type CashFlowMonth,
+  type PortfolioCashFlow,
+} from '@/lib/cash-flow';
+
+interface CashFlowForecastProps {
+  cashFlow: PortfolioCashFlow;
+}
+
+const PORTFOLIO = 'portfolio';
+
+const ROWS: { key: keyof Omit<CashFlowMonth, 'month'>; label: string }[] = [
+  { key: 'acquisition', label: 'Acquisition' },
+  { key: 'rehab', label: 'Rehab' },
+  { key: 'holding', label: 'Holding' },
+  { key: 'interest', label: 'Interest' },
+  { key: 'sale', label: 'Sale Proceeds' },
+  { key: 'net', label: 'Net' },
+  { key: 'cumulative', label: 'Cumulative' },
+];
+
+function formatCurrency(value: number, compact = false): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: compact && Math.abs(value) >= 1000 ? 'compact' : 'standard',
+    maximumFractionDigits: compact ? 1 : 0,
+  }).format(value);
+}
+
+function formatMonth(month: string): string {
+  return format(parseISO(`${month}-01`), 'MMM yy');
+}
+
+function CashFlowTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: CashFlowMonth }> }) {
+  if (!active || !payload?.length) return null;
+
+  const row = payload[0].payload;
+  return (
+    <div className="bg-popover border rounded-lg shadow-lg p-3 text-sm">
+      <p className="font-medium">{format(parseISO(`${row.month}-01`), 'MMMM yyyy')}</p>
+      {ROWS.map(({ key, label }) =>
+        row[key] !== 0 ? (
+          <p key={key} className="text-muted-foreground">
+            {label}: {formatCurrency(row[key])}
+          </p>
+        ) : null
+      )}
+    </div>
+  );
+}
+
+/**
+ * Month-by-month cash in and out of active projects, for the portfolio or
+ * one project, with the peak capital it will take and a CSV export.
+ */
+export function CashFlowForecast({ cashFlow }: CashFlowForecastProps) {
+  const [selected, setSelected] = useState(PORTFOLIO);
+
+  const view = useMemo(() => {
+    if (selected === PORTFOLIO) return cashFlow;
+    return cashFlow.projects.find((p) => p.projectId === selected) ?? cashFlow;
+  }, [cashFlow, selected]);
+
+  const outflow = view.months.reduce((sum, row) => sum + Math.min(row.net, 0), 0);
+  const saleCount =
+    selected === PORTFOLIO
+      ? cashFlow.projects.filter((p) => p.saleMonth).length
+      : cashFlow.projects.find((p) => p.projectId === selected)?.saleMonth
+        ? 1
+        : 0;
+
+  const handleDownloadCsv = () => {
+    const blob = new Blob([buildCashFlowCsv(cashFlow)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getCashFlowCsvFilename(cashFlow);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  if (cashFlow.projects.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <IconArrowsTransferDown className="h-5 w-5" />
+            Cash Flow Forecast
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={selected} onValueChange={setSelected}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PORTFOLIO}>All active projects</SelectItem>
+                {cashFlow.projects.map((project) => (
+                  <SelectItem key={project.projectId} value={project.projectId}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={handleDownloadCsv}>
+              <IconDownload className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-muted/50 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Peak Capital Needed</p>
+                <p className="text-2xl font-bold mt-1">{formatCurrency(view.peakCapital)}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {view.peakMonth
+                    ? `Lowest point in ${format(parseISO(`${view.peakMonth}-01`), 'MMMM yyyy')}`
+                    : 'Never below today'}
+                </p>
+              </div>
+              <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <IconTrendingDown className="h-5 w-5 text-primary" />
+              </div>
+            </div>
+          </div>
+          <div className="bg-muted/50 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Cash Out</p>
+                <p className="text-2xl font-bold mt-1">{formatCurrency(-outflow)}</p>
+                <p className="text-xs text-muted-foreground mt-1">Months with a net outflow</p>
+              </div>
+              <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <IconCash className="h-5 w-5 text-primary" />
+              </div>
+            </div>
+          </div>
+          <div className="bg-muted/50 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Net After {view.months.length} Months</p>
+                <p className="text-2xl font-bold mt-1">
+                  {formatCurrency(view.months[view.months.length - 1]?.cumulative ?? 0)}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {saleCount} sale{saleCount !== 1 ? 's' : ''} expected
+                </p>
+              </div>
+              <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <IconHome className="h-5 w-5 text-primary" />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="h-[240px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={view.months}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="month" tickFormatter={formatMonth} tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={(v) => formatCurrency(v, true)} width={70} tick={{ fontSize: 12 }} />
+              <Tooltip content={<CashFlowTooltip />} />
+              <ReferenceLine y={0} stroke="#94a3b8" />
+              <Bar dataKey="net" name="Net" radius={[4, 4, 0, 0]}>
+                {view.months.map((row) => (
+                  <Cell key={row.month} fill={row.net >= 0 ? '#008000' : '#ef4444'} />
+                ))}
+              </Bar>
+              <Line dataKey="cumulative" name="Cumulative" stroke="#0ea5e9" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="rounded-lg border overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="table-header">
+                <th className="text-left p-2 sticky left-0 bg-muted">&nbsp;</th>
+                {view.months.map((row) => (
+                  <th key={row.month} className="text-right p-2 whitespace-nowrap">
+                    {formatMonth(row.month)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map(({ key, label }) => (
+                <tr key={key} className={cn('border-t', (key === 'net' || key === 'cumulative') && 'font-medium')}>
+                  <td className="p-2 sticky left-0 bg-card whitespace-nowrap">{label}</td>
+                  {view.months.map((row) => (
+                    <td
+                      key={row.month}
+                      className={cn(
+                        'p-2 text-right tabular-nums whitespace-nowrap',
+                        row[key] < 0 && 'text-red-500',
+                        row[key] === 0 && 'text-muted-foreground'
+                      )}
+                    >
+                      {row[key] === 0 ? '-' : formatCurrency(row[key], true)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Projects under contract, in rehab or listed. Draws covered by a loan holdback and sale proceeds after the
+          loan payoff are net of financing.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
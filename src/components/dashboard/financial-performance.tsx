@@ -49,6 +49,10 @@ export interface FinancialProject {
   roi: number;
   close_date?: string | null;
   sale_date?: string | null;
+  /** Realized figures from a locked closeout; projections are used without one */
+  sale_price?: number | null;
+  realized_profit?: number | null;
+  realized_hold_days?: number | null;
 }
 
 interface FinancialPerformanceProps {
@@ -101,12 +105,20 @@ function getTimePeriodRange(period: TimePeriod): { start: Date; end: Date } | nu
   }
 }
 
-function calculateHoldTime(closeDate: string | null | undefined, saleDate: string | null | undefined): number | null {
-  if (!closeDate || !saleDate) return null;
-  const days = differenceInDays(parseISO(saleDate), parseISO(closeDate));
+function calculateHoldTime(project: FinancialProject): number | null {
+  const days =
+    project.realized_hold_days ??
+    (project.close_date && project.sale_date
+      ? differenceInDays(parseISO(project.sale_date), parseISO(project.close_date))
+      : null);
+  if (days == null) return null;
   return Math.round(days / 30 * 10) / 10; // months with 1 decimal
 }
 
+function calculateProfit(project: FinancialProject): number {
+  return project.realized_profit ?? project.arv - (project.purchase_price + project.rehab_actual);
+}
+
 // ROI Distribution buckets - Forest green palette
 const ROI_BUCKETS = [
   { min: -Infinity, max: 0, label: '< 0%', color: '#ef4444' },   // Red for losses
@@ -219,15 +231,12 @@ export function FinancialPerformance({ projects }: FinancialPerformanceProps) {
       };
     }
 
-    const grossProfit = filteredProjects.reduce((sum, p) => {
-      const totalInvestment = p.purchase_price + p.rehab_actual;
-      return sum + (p.arv - totalInvestment);
-    }, 0);
+    const grossProfit = filteredProjects.reduce((sum, p) => sum + calculateProfit(p), 0);
 
     const avgROI = filteredProjects.reduce((sum, p) => sum + p.roi, 0) / filteredProjects.length;
 
     const holdTimes = filteredProjects
-      .map((p) => calculateHoldTime(p.close_date, p.sale_date))
+      .map(calculateHoldTime)
       .filter((t): t is number => t !== null);
 
     const avgHoldTime = holdTimes.length > 0
@@ -267,7 +276,7 @@ export function FinancialPerformance({ projects }: FinancialPerformanceProps) {
         id: p.id,
         name: p.name.length > 15 ? p.name.slice(0, 15) + '...' : p.name,
         fullName: p.name,
-        profit: p.arv - (p.purchase_price + p.rehab_actual),
+        profit: calculateProfit(p),
         roi: p.roi,
       }))
       .sort((a, b) => b.profit - a.profit)
@@ -445,7 +454,7 @@ export function FinancialPerformance({ projects }: FinancialPerformanceProps) {
                 <div>
                   <span className="text-muted-foreground">Total Returns:</span>{' '}
                   <span className="font-medium">
-                    {formatCurrency(filteredProjects.reduce((sum, p) => sum + p.arv, 0))}
+                    {formatCurrency(filteredProjects.reduce((sum, p) => sum + (p.sale_price ?? p.arv), 0))}
                   </span>
                 </div>
               </div>
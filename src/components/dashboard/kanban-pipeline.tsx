@@ -22,6 +22,8 @@ import { useDroppable } from '@dnd-kit/core';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { getSupabaseClient } from '@/lib/supabase/client';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces';
 import { cn, formatCurrency } from '@/lib/utils';
 import type { ProjectStatus } from '@/types';
 import { PROJECT_STATUS_LABELS } from '@/types';
@@ -123,6 +125,7 @@ function KanbanColumn({
 
 export function KanbanPipeline({ projects }: KanbanPipelineProps) {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
   const [searchQuery, setSearchQuery] = useState('');
   const [activeId, setActiveId] = useState<string | null>(null);
 
@@ -189,6 +192,8 @@ export function KanbanPipeline({ projects }: KanbanPipelineProps) {
   // Update project status mutation
   const updateStatusMutation = useMutation({
     mutationFn: async ({ projectId, newStatus }: { projectId: string; newStatus: ProjectStatus }) => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       const { error } = await supabase
         .from('projects')
@@ -203,7 +208,7 @@ export function KanbanPipeline({ projects }: KanbanPipelineProps) {
     },
     onError: (error) => {
       console.error('Error updating status:', error);
-      toast.error('Failed to update project status');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update project status'));
     },
   });
 
@@ -27,11 +27,8 @@ interface ProjectCardProps {
  * Content varies based on project status
  */
 export function ProjectCard({ project, isDragging, className }: ProjectCardProps) {
-  // Calculate ROI for display
-  const roi = useMemo(() => {
-    if (!project.total_investment || project.total_investment === 0) return 0;
-    return (project.gross_profit / project.total_investment) * 100;
-  }, [project.gross_profit, project.total_investment]);
+  // ROI for display (computed by the project_summary view)
+  const roi = Number(project.roi) || 0;
 
   // Calculate progress for in_rehab projects
   const progress = useMemo(() => {
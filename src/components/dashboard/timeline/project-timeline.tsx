@@ -3,8 +3,12 @@
 import { useMemo, useRef, useState } from 'react';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
+import { addDays, format } from 'date-fns';
 import { cn, formatCurrency } from '@/lib/utils';
 import { useProjectsTimeline } from '@/hooks/use-dashboard';
+import { useSchedule, useScheduleMutations } from '@/hooks/use-schedule';
+import { computeSchedule, getScheduleAnchor } from '@/lib/schedule';
+import { ScheduleTaskBar } from '@/components/project/schedule-task-bar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -12,21 +16,26 @@ import { Progress } from '@/components/ui/progress';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import {
   projectToTimelineEvents,
+  scheduleToTimelineEvents,
   getTimelineRange,
   getMonthLabels,
   calculateBarPosition,
   getEventColor,
 } from '@/lib/timeline-utils';
+import type { ProjectSummary } from '@/types';
 import type { TimelineEvent } from '@/types/dashboard';
 import {
   IconZoomIn,
   IconZoomOut,
   IconCalendar,
+  IconChevronRight,
 } from '@tabler/icons-react';
 
 const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2];
 const BASE_WIDTH = 1200;
 const ROW_HEIGHT = 80;
+const TASK_ROW_HEIGHT = 36;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Project Timeline (Gantt Chart) Component
@@ -34,8 +43,26 @@ const ROW_HEIGHT = 80;
 export function ProjectTimeline() {
   const { data: projects, isLoading, error } = useProjectsTimeline();
   const [zoomIndex, setZoomIndex] = useState(2); // Default to 1x
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
   const containerRef = useRef<HTMLDivElement>(null);
 
+  const projectsById = useMemo(
+    () => new Map((projects ?? []).map((project) => [project.id, project])),
+    [projects]
+  );
+
+  const toggleExpanded = (projectId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(projectId)) {
+        next.delete(projectId);
+      } else {
+        next.add(projectId);
+      }
+      return next;
+    });
+  };
+
   // Transform projects to timeline events
   const events = useMemo(() => {
     if (!projects) return [];
@@ -191,56 +218,81 @@ export function ProjectTimeline() {
 
                 {projectGroups.map(([projectId, projectEvents], rowIndex) => {
                   const firstEvent = projectEvents[0];
+                  const project = projectsById.get(projectId);
+                  const isExpanded = expanded.has(projectId);
                   return (
-                    <div
-                      key={projectId}
-                      className={cn(
-                        'flex border-b',
-                        rowIndex % 2 === 0 ? 'bg-muted/20' : ''
-                      )}
-                      style={{ height: ROW_HEIGHT }}
-                    >
-                      {/* Project name */}
-                      <Link
-                        href={`/projects/${projectId}`}
-                        className="flex w-[200px] shrink-0 items-center border-r p-3 hover:bg-muted/50"
-                      >
-                        <div className="min-w-0">
-                          <p className="truncate font-medium">
-                            {firstEvent.title}
-                          </p>
-                          <p className="truncate text-xs text-muted-foreground">
-                            {firstEvent.address || 'No address'}
-                          </p>
-                        </div>
-                      </Link>
-
-                      {/* Timeline bars */}
+                    <div key={projectId}>
                       <div
-                        className="relative flex-1"
-                        style={{ width: totalWidth }}
+                        className={cn(
+                          'flex border-b',
+                          rowIndex % 2 === 0 ? 'bg-muted/20' : ''
+                        )}
+                        style={{ height: ROW_HEIGHT }}
                       >
-                        {projectEvents.map((event) => {
-                          const pos = calculateBarPosition(
-                            event.startDate,
-                            event.endDate,
-                            minDate,
-                            maxDate,
-                            totalWidth
-                          );
-
-                          if (pos.width === 0) return null;
-
-                          return (
-                            <TimelineBar
-                              key={event.id}
-                              event={event}
-                              left={pos.left}
-                              width={pos.width}
+                        {/* Project name */}
+                        <div className="flex w-[200px] shrink-0 items-center border-r">
+                          <button
+                            type="button"
+                            onClick={() => toggleExpanded(projectId)}
+                            className="self-stretch px-1 text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+                            title={isExpanded ? 'Hide schedule' : 'Show schedule'}
+                            aria-expanded={isExpanded}
+                          >
+                            <IconChevronRight
+                              size={16}
+                              className={cn('transition-transform', isExpanded && 'rotate-90')}
                             />
-                          );
-                        })}
+                          </button>
+                          <Link
+                            href={`/projects/${projectId}`}
+                            className="flex min-w-0 flex-1 items-center self-stretch py-3 pr-3 hover:bg-muted/50"
+                          >
+                            <div className="min-w-0">
+                              <p className="truncate font-medium">
+                                {firstEvent.title}
+                              </p>
+                              <p className="truncate text-xs text-muted-foreground">
+                                {firstEvent.address || 'No address'}
+                              </p>
+                            </div>
+                          </Link>
+                        </div>
+
+                        {/* Timeline bars */}
+                        <div
+                          className="relative flex-1"
+                          style={{ width: totalWidth }}
+                        >
+                          {projectEvents.map((event) => {
+                            const pos = calculateBarPosition(
+                              event.startDate,
+                              event.endDate,
+                              minDate,
+                              maxDate,
+                              totalWidth
+                            );
+
+                            if (pos.width === 0) return null;
+
+                            return (
+                              <TimelineBar
+                                key={event.id}
+                                event={event}
+                                left={pos.left}
+                                width={pos.width}
+                              />
+                            );
+                          })}
+                        </div>
                       </div>
+                      {isExpanded && project && (
+                        <ScheduleRows
+                          project={project}
+                          minDate={minDate}
+                          maxDate={maxDate}
+                          totalWidth={totalWidth}
+                        />
+                      )}
                     </div>
                   );
                 })}
@@ -260,6 +312,14 @@ export function ProjectTimeline() {
                   <div className="h-3 w-3 rounded bg-purple-500" />
                   <span>Sale</span>
                 </div>
+                <div className="flex items-center gap-2 text-xs">
+                  <div className="h-3 w-3 rounded bg-sky-500" />
+                  <span>Task</span>
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                  <div className="h-3 w-3 rounded bg-red-500" />
+                  <span>Critical Task</span>
+                </div>
                 <div className="flex items-center gap-2 text-xs">
                   <div className="h-3 w-3 rounded bg-green-600" />
                   <span>Completed</span>
@@ -324,6 +384,89 @@ function TimelineBar({
   );
 }
 
+/**
+ * A project's schedule tasks under its row. Dragging a task reschedules it,
+ * pushes its dependents and moves the project's target completion.
+ */
+function ScheduleRows({
+  project,
+  minDate,
+  maxDate,
+  totalWidth,
+}: {
+  project: ProjectSummary;
+  minDate: Date;
+  maxDate: Date;
+  totalWidth: number;
+}) {
+  const anchorDate = getScheduleAnchor(project);
+  const { data, isLoading } = useSchedule(project.id);
+  const { rescheduleTask } = useScheduleMutations(project.id, anchorDate);
+
+  const events = useMemo(() => {
+    if (!data) return [];
+    return scheduleToTimelineEvents(
+      project,
+      computeSchedule(data.tasks, data.dependencies, anchorDate)
+    );
+  }, [data, project, anchorDate]);
+
+  const pxPerDay = totalWidth / ((maxDate.getTime() - minDate.getTime()) / DAY_MS);
+
+  if (isLoading || events.length === 0) {
+    return (
+      <div className="flex border-b text-xs text-muted-foreground" style={{ height: TASK_ROW_HEIGHT }}>
+        <div className="w-[200px] shrink-0 border-r py-2 pl-8 pr-3">
+          {isLoading ? 'Loading schedule...' : 'No schedule'}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {events.map((event) => {
+        // Finish is the last working day, so the bar runs to the end of it
+        const pos = calculateBarPosition(
+          event.startDate,
+          addDays(event.endDate!, 1),
+          minDate,
+          maxDate,
+          totalWidth
+        );
+
+        return (
+          <div key={event.id} className="flex border-b" style={{ height: TASK_ROW_HEIGHT }}>
+            <div className="w-[200px] shrink-0 border-r py-2 pl-8 pr-3">
+              <p className="truncate text-xs">{event.title}</p>
+            </div>
+            <div className="relative flex-1" style={{ width: totalWidth }}>
+              <ScheduleTaskBar
+                label={event.title}
+                title={`${event.title}: ${format(event.startDate!, 'MMM d')} - ${format(event.endDate!, 'MMM d')}`}
+                left={pos.left}
+                width={pos.width}
+                pxPerDay={pxPerDay}
+                isCritical={!!event.isCritical}
+                isCompleted={event.isCompleted}
+                onMove={
+                  rescheduleTask.isPending
+                    ? undefined
+                    : (deltaDays) =>
+                        rescheduleTask.mutate({
+                          taskId: event.id,
+                          newStart: format(addDays(event.startDate!, deltaDays), 'yyyy-MM-dd'),
+                        })
+                }
+              />
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
 /**
  * Skeleton loader for timeline
  */
@@ -12,6 +12,7 @@ import {
   SidebarGroupContent,
 } from "@/components/ui/sidebar";
 import { NavMain, NavSecondary } from "./nav-main";
+import { WorkspaceSwitcher } from "./workspace-switcher";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 
 export function AppSidebar() {
@@ -31,6 +32,11 @@ export function AppSidebar() {
             </Link>
           </SidebarGroupContent>
         </SidebarGroup>
+        <SidebarGroup className="py-0">
+          <SidebarGroupContent>
+            <WorkspaceSwitcher />
+          </SidebarGroupContent>
+        </SidebarGroup>
       </SidebarHeader>
 
       <SidebarContent>
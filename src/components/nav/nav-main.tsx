@@ -14,6 +14,8 @@ import {
   IconLayoutKanban,
   IconCalendarEvent,
   IconNotebook,
+  IconReceiptTax,
+  IconUsersGroup,
 } from "@tabler/icons-react";
 import {
   SidebarGroup,
@@ -53,11 +55,21 @@ const mainNavItems = [
     href: "/vendors",
     icon: IconUsers,
   },
+  {
+    title: "1099 Report",
+    href: "/reports/1099",
+    icon: IconReceiptTax,
+  },
   {
     title: "Cost Reference",
     href: "/cost-reference",
     icon: IconBook,
   },
+  {
+    title: "Team",
+    href: "/settings/team",
+    icon: IconUsersGroup,
+  },
 ];
 
 export function NavMain() {
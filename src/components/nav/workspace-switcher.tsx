@@ -0,0 +1,94 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { IconCheck, IconSelector, IconUsersGroup } from "@tabler/icons-react";
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useWorkspace } from "@/hooks/use-auth";
+import { useSwitchWorkspace } from "@/hooks/use-workspaces";
+import { WORKSPACE_ROLE_LABELS } from "@/types";
+
+/**
+ * Shows the workspace the user is working in and switches between the
+ * workspaces they belong to. Switching refetches everything, since RLS
+ * scopes every query to the active workspace.
+ */
+export function WorkspaceSwitcher() {
+  const router = useRouter();
+  const { workspace, role, memberships } = useWorkspace();
+  const switchWorkspace = useSwitchWorkspace();
+
+  if (!workspace || !role) return null;
+
+  const handleSwitch = (workspaceId: string) => {
+    if (workspaceId === workspace.id) return;
+    switchWorkspace.mutate(workspaceId, {
+      onSuccess: () => router.push("/"),
+      onError: () => toast.error("Failed to switch workspace"),
+    });
+  };
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuButton
+              tooltip={workspace.name}
+              className="w-full justify-between"
+              disabled={switchWorkspace.isPending}
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                <IconUsersGroup className="h-4 w-4 shrink-0" />
+                <span className="flex flex-col min-w-0 text-left">
+                  <span className="truncate text-sm font-medium">{workspace.name}</span>
+                  <span className="truncate text-xs text-muted-foreground">
+                    {WORKSPACE_ROLE_LABELS[role]}
+                  </span>
+                </span>
+              </span>
+              <IconSelector className="h-4 w-4 shrink-0" />
+            </SidebarMenuButton>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right" align="start" className="w-64" sideOffset={8}>
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Workspaces</DropdownMenuLabel>
+            {memberships.map((membership) => (
+              <DropdownMenuItem
+                key={membership.workspace_id}
+                onSelect={() => handleSwitch(membership.workspace_id)}
+                className="flex items-center justify-between gap-2"
+              >
+                <span className="flex flex-col min-w-0">
+                  <span className="truncate font-medium">{membership.workspace.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {WORKSPACE_ROLE_LABELS[membership.role]}
+                  </span>
+                </span>
+                {membership.workspace_id === workspace.id && <IconCheck className="h-4 w-4 shrink-0" />}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem asChild>
+              <Link href="/settings/team" className="font-medium">
+                Manage team →
+              </Link>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </SidebarMenuItem>
+    </SidebarMenu>
+  );
+}
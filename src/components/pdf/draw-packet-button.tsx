@@ -0,0 +1,59 @@
+'use client';
+
+import { toast } from 'sonner';
+import { IconFileTypePdf, IconLoader2 } from '@tabler/icons-react';
+import { useGenerateProjectReport } from '@/hooks/use-project-reports';
+import type { Draw } from '@/types';
+
+interface DrawPacketButtonProps {
+  projectId: string;
+  draw: Pick<Draw, 'id' | 'draw_number'>;
+}
+
+/**
+ * Generates the lender draw packet for one draw on the server, stores it with
+ * the project's reports and opens it in a new tab.
+ */
+export function DrawPacketButton({ projectId, draw }: DrawPacketButtonProps) {
+  const generateProjectReport = useGenerateProjectReport();
+
+  const handleGenerate = async () => {
+    // Open the tab before the request so popup blockers allow it
+    const previewWindow = window.open('', '_blank');
+
+    try {
+      const report = await generateProjectReport.mutateAsync({
+        projectId,
+        type: 'draw-packet',
+        drawId: draw.id,
+      });
+      const url = URL.createObjectURL(report.blob);
+
+      if (previewWindow) {
+        previewWindow.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error) {
+      previewWindow?.close();
+      console.error('Error generating draw packet:', error);
+      toast.error('Failed to generate draw packet');
+    }
+  };
+
+  return (
+    <button
+      onClick={handleGenerate}
+      disabled={generateProjectReport.isPending}
+      className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+      title={`Generate draw #${draw.draw_number} packet`}
+    >
+      {generateProjectReport.isPending ? (
+        <IconLoader2 className="h-4 w-4 animate-spin" />
+      ) : (
+        <IconFileTypePdf className="h-4 w-4" />
+      )}
+    </button>
+  );
+}
@@ -1,6 +1,8 @@
 'use client';
 
 import { useState } from 'react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
 import {
   IconFileTypePdf,
   IconReportAnalytics,
@@ -12,6 +14,8 @@ import {
   IconLoader2,
   IconDownload,
   IconEye,
+  IconFileSpreadsheet,
+  IconTrash,
 } from '@tabler/icons-react';
 
 import {
@@ -24,28 +28,35 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { getSupabaseClient } from '@/lib/supabase/client';
-import { compileToPdf, previewPdf, downloadPdf } from '@/lib/pdf/compile';
 import {
-  ExecutiveSummaryReport,
-  DetailedBudgetReport,
-  DrawScheduleReport,
-  VendorSummaryReport,
-  InvestmentAnalysisReport,
-  PropertyShowcaseReport,
-  type PhotoWithUrl,
-} from '@/lib/pdf/templates';
-import type { ProjectSummary, BudgetItem, Draw, Vendor, LineItemPhoto } from '@/types';
+  useProjectReports,
+  useGenerateProjectReport,
+  useDeleteProjectReport,
+  getProjectReportDownloadUrl,
+} from '@/hooks/use-project-reports';
+import {
+  DEFAULT_CALCULATION_SETTINGS,
+  type ProjectSummary,
+  type BudgetItem,
+  type Draw,
+  type Vendor,
+  type CalculationSettingsInput,
+  type ProjectReport,
+  type ProjectReportType,
+} from '@/types';
 
 interface ExportDialogProps {
   project: ProjectSummary;
   budgetItems: BudgetItem[];
   draws: Draw[];
   vendors: Vendor[];
+  /** The project's calculation profile, used for the workbook's deal figures */
+  settings?: CalculationSettingsInput;
   trigger?: React.ReactNode;
 }
 
-type ReportType = 'executive-summary' | 'detailed-budget' | 'draw-schedule' | 'vendor-summary' | 'investment-analysis' | 'property-showcase';
+// Draw packets are generated per draw from the Draws tab, post-mortems from the Closeout tab
+type ReportType = Exclude<ProjectReportType, 'draw-packet' | 'post-mortem'>;
 
 interface ReportOption {
   id: ReportType;
@@ -100,132 +111,92 @@ const REPORT_OPTIONS: ReportOption[] = [
   },
 ];
 
+function triggerDownload(href: string, fileName: string) {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
+
 export function ExportDialog({
   project,
   budgetItems,
   draws,
   vendors,
+  settings,
   trigger,
 }: ExportDialogProps) {
   const [open, setOpen] = useState(false);
   const [selectedReport, setSelectedReport] = useState<ReportType>('property-showcase');
-  const [isGenerating, setIsGenerating] = useState(false);
+  const generateProjectReport = useGenerateProjectReport();
+  const deleteProjectReport = useDeleteProjectReport();
+  const { data: pastReports = [] } = useProjectReports(open ? project.id : '');
+  const isGenerating = generateProjectReport.isPending;
+  const [isExportingWorkbook, setIsExportingWorkbook] = useState(false);
 
-  // Fetch photos with signed URLs for the showcase report
-  const fetchPhotosWithUrls = async (): Promise<PhotoWithUrl[]> => {
-    const supabase = getSupabaseClient();
+  // Open the preview tab before the request so popup blockers allow it
+  const generateReport = async (action: 'preview' | 'download') => {
+    const previewWindow = action === 'preview' ? window.open('', '_blank') : null;
 
-    // Fetch all photos for this project
-    const { data: photos, error } = await supabase
-      .from('line_item_photos')
-      .select('*')
-      .eq('project_id', project.id)
-      .order('created_at', { ascending: false });
+    try {
+      const report = await generateProjectReport.mutateAsync({
+        projectId: project.id,
+        type: selectedReport,
+      });
+      const url = URL.createObjectURL(report.blob);
 
-    if (error || !photos) {
-      console.error('Error fetching photos:', error);
-      return [];
+      if (previewWindow) {
+        previewWindow.location.href = url;
+      } else {
+        triggerDownload(url, report.fileName);
+      }
+      // Give the new tab or download time to read the blob
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error) {
+      previewWindow?.close();
+      console.error('Error generating report:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to generate report');
     }
-
-    // Get signed URLs for each photo
-    const photosWithUrls: PhotoWithUrl[] = await Promise.all(
-      photos.map(async (photo: LineItemPhoto) => {
-        const { data } = await supabase.storage
-          .from('project-photos')
-          .createSignedUrl(photo.storage_path, 3600); // 1 hour expiry
-
-        return {
-          ...photo,
-          signedUrl: data?.signedUrl || null,
-        };
-      })
-    );
-
-    return photosWithUrls;
   };
 
-  const generateReport = async (action: 'preview' | 'download') => {
-    setIsGenerating(true);
-
+  const downloadStoredReport = async (report: ProjectReport) => {
     try {
-      let component: React.ReactElement;
+      triggerDownload(await getProjectReportDownloadUrl(report), report.file_name);
+    } catch (error) {
+      console.error('Error downloading report:', error);
+      toast.error('Failed to download report');
+    }
+  };
 
-      switch (selectedReport) {
-        case 'property-showcase': {
-          // Fetch photos with signed URLs
-          const photos = await fetchPhotosWithUrls();
-          component = (
-            <PropertyShowcaseReport
-              project={project}
-              budgetItems={budgetItems}
-              photos={photos}
-            />
-          );
-          break;
-        }
-        case 'executive-summary':
-          component = (
-            <ExecutiveSummaryReport
-              project={project}
-              budgetItems={budgetItems}
-              draws={draws}
-              vendors={vendors}
-            />
-          );
-          break;
-        case 'investment-analysis':
-          component = (
-            <InvestmentAnalysisReport
-              project={project}
-              budgetItems={budgetItems}
-            />
-          );
-          break;
-        case 'detailed-budget':
-          component = (
-            <DetailedBudgetReport
-              project={project}
-              budgetItems={budgetItems}
-              vendors={vendors}
-            />
-          );
-          break;
-        case 'vendor-summary':
-          component = (
-            <VendorSummaryReport
-              project={project}
-              budgetItems={budgetItems}
-              draws={draws}
-              vendors={vendors}
-            />
-          );
-          break;
-        case 'draw-schedule':
-          component = (
-            <DrawScheduleReport
-              project={project}
-              draws={draws}
-              vendors={vendors}
-            />
-          );
-          break;
-        default:
-          throw new Error('Unknown report type');
-      }
+  const removeStoredReport = async (report: ProjectReport) => {
+    try {
+      await deleteProjectReport.mutateAsync(report);
+      toast.success('Report deleted');
+    } catch (error) {
+      console.error('Error deleting report:', error);
+      toast.error('Failed to delete report');
+    }
+  };
 
-      const html = await compileToPdf(component);
-      const reportName = REPORT_OPTIONS.find((r) => r.id === selectedReport)?.name || 'Report';
-      const filename = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_${reportName.replace(/\s+/g, '_')}`;
+  const downloadWorkbook = async () => {
+    setIsExportingWorkbook(true);
 
-      if (action === 'preview') {
-        previewPdf(html, `${project.name} - ${reportName}`);
-      } else {
-        downloadPdf(html, filename);
-      }
+    try {
+      // ExcelJS is large; load it only when a workbook is requested
+      const { downloadBudgetWorkbook } = await import('@/lib/xlsx/budget-workbook');
+      await downloadBudgetWorkbook({
+        project,
+        budgetItems,
+        draws,
+        vendors,
+        settings: settings ?? DEFAULT_CALCULATION_SETTINGS,
+      });
     } catch (error) {
-      console.error('Error generating report:', error);
+      console.error('Error exporting workbook:', error);
     } finally {
-      setIsGenerating(false);
+      setIsExportingWorkbook(false);
     }
   };
 
@@ -243,7 +214,7 @@ export function ExportDialog({
         <DialogHeader>
           <DialogTitle>Export Report</DialogTitle>
           <DialogDescription>
-            Select a report template to generate for {project.name}
+            Select a report template to generate for {project.name}, or download the budget as an Excel workbook
           </DialogDescription>
         </DialogHeader>
 
@@ -281,9 +252,60 @@ export function ExportDialog({
               </div>
             </button>
           ))}
+
+          {pastReports.length > 0 && (
+            <div className="pt-2">
+              <div className="text-sm font-medium mb-2">Past reports</div>
+              <div className="divide-y rounded-lg border">
+                {pastReports.map((report) => (
+                  <div key={report.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">{report.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => downloadStoredReport(report)}
+                      title="Download"
+                    >
+                      <IconDownload className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => removeStoredReport(report)}
+                      disabled={deleteProjectReport.isPending}
+                      title="Delete"
+                    >
+                      <IconTrash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="flex gap-2 justify-end">
+          <Button
+            variant="ghost"
+            className="mr-auto"
+            onClick={downloadWorkbook}
+            disabled={isExportingWorkbook}
+            title="Summary, budget, draws and vendors sheets with live totals"
+          >
+            {isExportingWorkbook ? (
+              <IconLoader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <IconFileSpreadsheet className="h-4 w-4 mr-2" />
+            )}
+            Excel Workbook
+          </Button>
           <Button
             variant="outline"
             onClick={() => generateReport('preview')}
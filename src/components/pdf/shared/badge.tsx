@@ -1,4 +1,5 @@
-import { pdfStyles } from '@/lib/pdf/styles';
+import { Text } from '@react-pdf/renderer';
+import { pdfStyles, type PdfStyle } from '@/lib/pdf/styles';
 
 type BadgeVariant = 'green' | 'blue' | 'yellow' | 'red' | 'gray';
 
@@ -7,7 +8,7 @@ interface BadgeProps {
   variant?: BadgeVariant;
 }
 
-const variantStyles: Record<BadgeVariant, React.CSSProperties> = {
+const variantStyles: Record<BadgeVariant, PdfStyle> = {
   green: pdfStyles.badgeGreen,
   blue: pdfStyles.badgeBlue,
   yellow: pdfStyles.badgeYellow,
@@ -16,9 +17,7 @@ const variantStyles: Record<BadgeVariant, React.CSSProperties> = {
 };
 
 export function Badge({ children, variant = 'gray' }: BadgeProps) {
-  return (
-    <span style={{ ...pdfStyles.badge, ...variantStyles[variant] }}>{children}</span>
-  );
+  return <Text style={[pdfStyles.badge, variantStyles[variant]]}>{children}</Text>;
 }
 
 interface StatusBadgeProps {
@@ -41,10 +40,12 @@ export function StatusBadge({ status }: StatusBadgeProps) {
       case 'listed':
         return 'blue';
       case 'pending':
+      case 'submitted':
       case 'under_contract':
       case 'analyzing':
         return 'yellow';
       case 'cancelled':
+      case 'rejected':
       case 'dead':
       case 'on_hold':
       case 'do_not_use':
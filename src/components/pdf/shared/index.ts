@@ -1,6 +1,8 @@
+export { ReportDocument } from './report-document';
 export { PdfHeader } from './pdf-header';
 export { PdfFooter } from './pdf-footer';
 export { MetricCard, MetricRow } from './metric-card';
-export { PdfTable, SummaryTable } from './pdf-table';
+export { Table, Tr, Th, Td, PdfTable, SummaryTable } from './pdf-table';
 export { Section, Subsection, Divider, ThickDivider } from './section';
 export { Badge, StatusBadge } from './badge';
+export { PdfPhoto } from './photo';
@@ -1,3 +1,4 @@
+import { View, Text } from '@react-pdf/renderer';
 import { pdfStyles } from '@/lib/pdf/styles';
 
 interface MetricCardProps {
@@ -31,18 +32,18 @@ export function MetricCard({
   const getFontSize = () => {
     switch (size) {
       case 'small':
-        return '14pt';
+        return 12;
       case 'large':
-        return '28pt';
+        return 24;
       default:
-        return '20pt';
+        return 16;
     }
   };
 
   return (
-    <div style={pdfStyles.card}>
-      <div style={pdfStyles.metricLabel}>{label}</div>
-      <div
+    <View style={pdfStyles.card} wrap={false}>
+      <Text style={pdfStyles.metricLabel}>{label}</Text>
+      <Text
         style={{
           ...pdfStyles.metricValue,
           fontSize: getFontSize(),
@@ -50,11 +51,9 @@ export function MetricCard({
         }}
       >
         {value}
-      </div>
-      {sublabel && (
-        <div style={{ ...pdfStyles.small, marginTop: '2pt' }}>{sublabel}</div>
-      )}
-    </div>
+      </Text>
+      {sublabel && <Text style={{ ...pdfStyles.small, marginTop: 2 }}>{sublabel}</Text>}
+    </View>
   );
 }
 
@@ -69,13 +68,7 @@ interface MetricRowProps {
 
 export function MetricRow({ items }: MetricRowProps) {
   return (
-    <div
-      style={{
-        display: 'grid',
-        gridTemplateColumns: `repeat(${items.length}, 1fr)`,
-        gap: '12pt',
-      }}
-    >
+    <View style={pdfStyles.row} wrap={false}>
       {items.map((item, i) => (
         <MetricCard
           key={i}
@@ -85,6 +78,6 @@ export function MetricRow({ items }: MetricRowProps) {
           variant={item.variant}
         />
       ))}
-    </div>
+    </View>
   );
 }
@@ -1,4 +1,5 @@
-import { PageBottom } from '@fileforge/react-print';
+import { View, Text } from '@react-pdf/renderer';
+import { pdfColors } from '@/lib/pdf/styles';
 
 interface PdfFooterProps {
   projectName?: string;
@@ -6,35 +7,38 @@ interface PdfFooterProps {
   confidential?: boolean;
 }
 
+/**
+ * Page footer, pinned to the bottom margin of every page.
+ */
 export function PdfFooter({
   projectName,
   showPageNumbers = true,
   confidential = true,
 }: PdfFooterProps) {
   return (
-    <PageBottom>
-      <div
-        style={{
-          borderTop: '1px solid #e2e8f0',
-          paddingTop: '8pt',
-          marginTop: '16pt',
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          fontSize: '8pt',
-          color: '#64748b',
-        }}
-      >
-        <div>
-          {confidential && (
-            <span style={{ fontWeight: '600', marginRight: '8pt' }}>CONFIDENTIAL</span>
-          )}
-          {projectName && <span>{projectName}</span>}
-        </div>
-        <div>
-          {showPageNumbers && <span>Page </span>}
-        </div>
-      </div>
-    </PageBottom>
+    <View
+      fixed
+      style={{
+        position: 'absolute',
+        bottom: 24,
+        left: 36,
+        right: 36,
+        borderTopWidth: 1,
+        borderTopColor: pdfColors.border,
+        paddingTop: 6,
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        fontSize: 8,
+        color: pdfColors.muted,
+      }}
+    >
+      <Text>
+        {confidential && <Text style={{ fontWeight: 700 }}>CONFIDENTIAL  </Text>}
+        {projectName}
+      </Text>
+      {showPageNumbers && (
+        <Text render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`} />
+      )}
+    </View>
   );
 }
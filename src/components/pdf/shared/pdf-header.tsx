@@ -1,5 +1,5 @@
-import { PageTop } from '@fileforge/react-print';
-import { pdfStyles } from '@/lib/pdf/styles';
+import { View, Text } from '@react-pdf/renderer';
+import { pdfStyles, pdfColors } from '@/lib/pdf/styles';
 
 interface PdfHeaderProps {
   title: string;
@@ -8,43 +8,42 @@ interface PdfHeaderProps {
   logoText?: string;
 }
 
+/**
+ * Report title block, repeated at the top of every page.
+ */
 export function PdfHeader({ title, subtitle, date, logoText = 'REHAB BUDGET PRO' }: PdfHeaderProps) {
   return (
-    <PageTop>
-      <div
-        style={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'flex-start',
-          borderBottom: '2px solid #0f172a',
-          paddingBottom: '8pt',
-          marginBottom: '16pt',
-        }}
-      >
-        <div>
-          <div
-            style={{
-              fontSize: '8pt',
-              fontWeight: '700',
-              letterSpacing: '2pt',
-              color: '#2563eb',
-              marginBottom: '2pt',
-            }}
-          >
-            {logoText}
-          </div>
-          <h1 style={{ ...pdfStyles.h1, marginBottom: '0' }}>{title}</h1>
-          {subtitle && (
-            <div style={{ ...pdfStyles.small, marginTop: '4pt' }}>{subtitle}</div>
-          )}
-        </div>
-        {date && (
-          <div style={{ textAlign: 'right' }}>
-            <div style={pdfStyles.small}>Generated</div>
-            <div style={{ fontSize: '10pt', fontWeight: '500' }}>{date}</div>
-          </div>
-        )}
-      </div>
-    </PageTop>
+    <View
+      fixed
+      style={{
+        ...pdfStyles.spaceBetween,
+        borderBottomWidth: 2,
+        borderBottomColor: pdfColors.heading,
+        paddingBottom: 8,
+        marginBottom: 16,
+      }}
+    >
+      <View>
+        <Text
+          style={{
+            fontSize: 8,
+            fontWeight: 700,
+            letterSpacing: 2,
+            color: pdfColors.primary,
+            marginBottom: 2,
+          }}
+        >
+          {logoText}
+        </Text>
+        <Text style={{ ...pdfStyles.h1, marginBottom: 0 }}>{title}</Text>
+        {subtitle && <Text style={{ ...pdfStyles.small, marginTop: 4 }}>{subtitle}</Text>}
+      </View>
+      {date && (
+        <View style={{ alignItems: 'flex-end' }}>
+          <Text style={pdfStyles.small}>Generated</Text>
+          <Text style={{ fontSize: 10 }}>{date}</Text>
+        </View>
+      )}
+    </View>
   );
 }
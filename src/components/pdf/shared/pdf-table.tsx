@@ -1,9 +1,85 @@
-import { pdfStyles } from '@/lib/pdf/styles';
+import { Children } from 'react';
+import { View, Text } from '@react-pdf/renderer';
+import { pdfStyles, type PdfStyle } from '@/lib/pdf/styles';
+
+type CellAlign = 'left' | 'right' | 'center';
+
+const ALIGN_ITEMS: Record<CellAlign, 'flex-start' | 'flex-end' | 'center'> = {
+  left: 'flex-start',
+  right: 'flex-end',
+  center: 'center',
+};
+
+export function Table({ children, style }: { children: React.ReactNode; style?: PdfStyle }) {
+  return <View style={style ? [pdfStyles.table, style] : pdfStyles.table}>{children}</View>;
+}
+
+interface TableRowProps {
+  children: React.ReactNode;
+  variant?: 'body' | 'head' | 'total';
+  style?: PdfStyle;
+}
+
+/**
+ * One table row. Rows never split across pages; a head row repeats at the top
+ * of each page the table continues onto.
+ */
+export function Tr({ children, variant = 'body', style }: TableRowProps) {
+  const variantStyle = variant === 'head' ? pdfStyles.trHead : variant === 'total' ? pdfStyles.trTotal : undefined;
+  return (
+    <View
+      wrap={false}
+      fixed={variant === 'head'}
+      style={[pdfStyles.tr, ...(variantStyle ? [variantStyle] : []), ...(style ? [style] : [])]}
+    >
+      {children}
+    </View>
+  );
+}
+
+interface TableCellProps {
+  children?: React.ReactNode;
+  /** Fixed width such as '25%'; otherwise the cell takes `span` shares of the row */
+  width?: string;
+  span?: number;
+  align?: CellAlign;
+  compact?: boolean;
+  /** Text style for the cell content */
+  style?: PdfStyle;
+}
+
+/**
+ * Table cell. Plain text and numbers are wrapped in a Text; anything else
+ * (badges, stacked lines) is laid out as-is.
+ */
+export function Td({ children, width, span = 1, align = 'left', compact = false, style }: TableCellProps) {
+  const box: PdfStyle = {
+    ...(compact ? pdfStyles.cellCompact : pdfStyles.cell),
+    ...(width ? { width } : { flex: span }),
+  };
+  const isText = Children.toArray(children).every(
+    (child) => typeof child === 'string' || typeof child === 'number'
+  );
+
+  if (isText) {
+    return (
+      <View style={box}>
+        <Text style={{ textAlign: align, ...style }}>{children}</Text>
+      </View>
+    );
+  }
+
+  return <View style={{ ...box, alignItems: ALIGN_ITEMS[align], ...style }}>{children}</View>;
+}
+
+export function Th(props: TableCellProps) {
+  return <Td {...props} style={{ ...pdfStyles.th, ...props.style }} />;
+}
 
 interface Column<T> {
   header: string;
   accessor: keyof T | ((row: T) => React.ReactNode);
-  align?: 'left' | 'right' | 'center';
+  align?: CellAlign;
   width?: string;
 }
 
@@ -31,69 +107,35 @@ export function PdfTable<T extends Record<string, unknown>>({
     return row[accessor] as React.ReactNode;
   };
 
-  const cellPadding = compact ? '4pt 6pt' : '6pt 8pt';
-
   return (
-    <table style={pdfStyles.table}>
+    <Table>
       {showHeader && (
-        <thead>
-          <tr>
-            {columns.map((col, i) => (
-              <th
-                key={i}
-                style={{
-                  ...pdfStyles.th,
-                  textAlign: col.align || 'left',
-                  width: col.width,
-                  padding: cellPadding,
-                }}
-              >
-                {col.header}
-              </th>
-            ))}
-          </tr>
-        </thead>
+        <Tr variant="head">
+          {columns.map((col, i) => (
+            <Th key={i} align={col.align} width={col.width} compact={compact}>
+              {col.header}
+            </Th>
+          ))}
+        </Tr>
       )}
-      <tbody>
-        {data.map((row, rowIndex) => (
-          <tr
-            key={rowIndex}
-            style={{
-              backgroundColor: striped && rowIndex % 2 === 1 ? '#f8fafc' : 'transparent',
-            }}
-          >
-            {columns.map((col, colIndex) => (
-              <td
-                key={colIndex}
-                style={{
-                  ...(col.align === 'right' ? pdfStyles.tdRight : pdfStyles.td),
-                  textAlign: col.align || 'left',
-                  padding: cellPadding,
-                }}
-              >
-                {getCellValue(row, col.accessor)}
-              </td>
-            ))}
-          </tr>
-        ))}
-      </tbody>
+      {data.map((row, rowIndex) => (
+        <Tr
+          key={rowIndex}
+          style={striped && rowIndex % 2 === 1 ? { backgroundColor: '#f8fafc' } : undefined}
+        >
+          {columns.map((col, colIndex) => (
+            <Td key={colIndex} align={col.align} width={col.width} compact={compact}>
+              {getCellValue(row, col.accessor)}
+            </Td>
+          ))}
+        </Tr>
+      ))}
       {footer && (
-        <tfoot>
-          <tr>
-            <td
-              colSpan={columns.length}
-              style={{
-                borderTop: '2px solid #e2e8f0',
-                padding: cellPadding,
-                fontWeight: '600',
-              }}
-            >
-              {footer}
-            </td>
-          </tr>
-        </tfoot>
+        <Tr variant="total">
+          <Td compact={compact}>{footer}</Td>
+        </Tr>
       )}
-    </table>
+    </Table>
   );
 }
 
@@ -106,37 +148,28 @@ interface SummaryRowProps {
 
 export function SummaryTable({ rows }: { rows: SummaryRowProps[] }) {
   return (
-    <table style={{ ...pdfStyles.table, fontSize: '10pt' }}>
-      <tbody>
-        {rows.map((row, i) => (
-          <tr key={i}>
-            <td
-              style={{
-                ...pdfStyles.td,
-                fontWeight: row.bold ? '600' : '400',
-                borderBottom: row.bold ? '2px solid #e2e8f0' : '1px solid #f1f5f9',
-              }}
-            >
+    <Table style={{ fontSize: 10 }}>
+      {rows.map((row, i) => {
+        const textStyle: PdfStyle = {
+          fontWeight: row.bold ? 600 : 400,
+          ...(row.variant === 'positive' ? pdfStyles.positive : {}),
+          ...(row.variant === 'negative' ? pdfStyles.negative : {}),
+        };
+
+        return (
+          <Tr
+            key={i}
+            style={row.bold ? { borderBottomWidth: 2, borderBottomColor: '#e2e8f0' } : undefined}
+          >
+            <Td span={3} style={textStyle}>
               {row.label}
-            </td>
-            <td
-              style={{
-                ...pdfStyles.tdRight,
-                fontWeight: row.bold ? '600' : '400',
-                color:
-                  row.variant === 'positive'
-                    ? pdfStyles.positive.color
-                    : row.variant === 'negative'
-                      ? pdfStyles.negative.color
-                      : 'inherit',
-                borderBottom: row.bold ? '2px solid #e2e8f0' : '1px solid #f1f5f9',
-              }}
-            >
+            </Td>
+            <Td span={2} align="right" style={textStyle}>
               {row.value}
-            </td>
-          </tr>
-        ))}
-      </tbody>
-    </table>
+            </Td>
+          </Tr>
+        );
+      })}
+    </Table>
   );
 }
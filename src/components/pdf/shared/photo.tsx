@@ -0,0 +1,25 @@
+import { View, Text, Image } from '@react-pdf/renderer';
+import { pdfStyles, type PdfStyle } from '@/lib/pdf/styles';
+
+interface PdfPhotoProps {
+  src: string;
+  caption?: string | null;
+  /** Height of the image box; the photo is scaled to fit inside it */
+  height: number;
+  style?: PdfStyle;
+}
+
+/**
+ * Photo with an optional caption. The image is fetched and embedded when the
+ * document renders, so `src` must be reachable from the server (a signed URL).
+ */
+export function PdfPhoto({ src, caption, height, style }: PdfPhotoProps) {
+  return (
+    <View wrap={false} style={style}>
+      <Image src={src} style={{ ...pdfStyles.photo, height }} />
+      {caption && (
+        <Text style={{ ...pdfStyles.small, marginTop: 2, textAlign: 'center' }}>{caption}</Text>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,22 @@
+import { Document, Page } from '@react-pdf/renderer';
+import { pdfStyles } from '@/lib/pdf/styles';
+
+interface ReportDocumentProps {
+  title: string;
+  subject?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Letter-size document with the shared page margins. Content flows across as
+ * many pages as it needs; PdfHeader and PdfFooter repeat on each one.
+ */
+export function ReportDocument({ title, subject, children }: ReportDocumentProps) {
+  return (
+    <Document title={title} subject={subject} author="Rehab Budget Pro" creator="Rehab Budget Pro">
+      <Page size="LETTER" style={pdfStyles.page}>
+        {children}
+      </Page>
+    </Document>
+  );
+}
@@ -1,18 +1,24 @@
+import { View, Text } from '@react-pdf/renderer';
 import { pdfStyles } from '@/lib/pdf/styles';
 
 interface SectionProps {
   title: string;
   subtitle?: string;
+  /** Start the section on a new page */
+  break?: boolean;
   children: React.ReactNode;
 }
 
-export function Section({ title, subtitle, children }: SectionProps) {
+export function Section({ title, subtitle, break: pageBreak, children }: SectionProps) {
   return (
-    <div style={{ marginBottom: '16pt' }}>
-      <h2 style={pdfStyles.h2}>{title}</h2>
-      {subtitle && <div style={{ ...pdfStyles.small, marginBottom: '8pt' }}>{subtitle}</div>}
+    <View style={{ marginBottom: 16 }} break={pageBreak}>
+      {/* Keep the heading with the first lines of its content */}
+      <Text style={pdfStyles.h2} minPresenceAhead={48}>
+        {title}
+      </Text>
+      {subtitle && <Text style={{ ...pdfStyles.small, marginBottom: 8 }}>{subtitle}</Text>}
       {children}
-    </div>
+    </View>
   );
 }
 
@@ -23,17 +29,19 @@ interface SubsectionProps {
 
 export function Subsection({ title, children }: SubsectionProps) {
   return (
-    <div style={{ marginBottom: '12pt' }}>
-      <h3 style={pdfStyles.h3}>{title}</h3>
+    <View style={{ marginBottom: 12 }}>
+      <Text style={pdfStyles.h3} minPresenceAhead={36}>
+        {title}
+      </Text>
       {children}
-    </div>
+    </View>
   );
 }
 
 export function Divider() {
-  return <div style={pdfStyles.divider} />;
+  return <View style={pdfStyles.divider} />;
 }
 
 export function ThickDivider() {
-  return <div style={pdfStyles.dividerThick} />;
+  return <View style={pdfStyles.dividerThick} />;
 }
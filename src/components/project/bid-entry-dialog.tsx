@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { IconCheck } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { formatCurrency } from '@/lib/utils';
+import { getBudgetedAmount } from '@/lib/draw-packet';
+import { toBidLineEntries } from '@/lib/bids';
+import { useBidMutations } from '@/hooks/use-bids';
+import type { BidWithLines, BudgetItem, Vendor } from '@/types';
+
+interface BidEntryDialogProps {
+  projectId: string;
+  /** The bid being entered; the dialog is open while this is set */
+  bid: BidWithLines | null;
+  vendor: Vendor | null;
+  scopeItems: BudgetItem[];
+  onClose: () => void;
+}
+
+/**
+ * Record a vendor's line-level pricing and exclusions for a bid request.
+ * Lines left blank are saved as unpriced.
+ */
+export function BidEntryDialog({ projectId, bid, vendor, scopeItems, onClose }: BidEntryDialogProps) {
+  const { recordBid } = useBidMutations(projectId);
+  const [amounts, setAmounts] = useState<Record<string, number | null>>({});
+  const [exclusions, setExclusions] = useState('');
+  const [notes, setNotes] = useState('');
+
+  // Load the bid's current pricing when it opens
+  useEffect(() => {
+    if (!bid) return;
+    const current: Record<string, number | null> = {};
+    bid.bid_line_items.forEach((line) => {
+      current[line.budget_item_id] = Number(line.amount);
+    });
+    setAmounts(current);
+    setExclusions(bid.exclusions ?? '');
+    setNotes(bid.notes ?? '');
+  }, [bid]);
+
+  if (!bid) return null;
+
+  const lines = toBidLineEntries(amounts);
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  const budgeted = scopeItems.reduce((sum, item) => sum + getBudgetedAmount(item), 0);
+  const unpriced = scopeItems.length - lines.length;
+
+  const handleSave = () => {
+    recordBid.mutate(
+      {
+        bidId: bid.id,
+        lines,
+        exclusions: exclusions.trim() || null,
+        notes: notes.trim() || null,
+      },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Dialog open={!!bid} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Enter Bid{vendor ? `: ${vendor.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            Enter the vendor&apos;s price for each line. Leave a line blank if it isn&apos;t included in their bid.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 space-y-4">
+          <div className="rounded-lg border">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-background">
+                <tr className="table-header">
+                  <th className="text-left p-3">Line Item</th>
+                  <th className="text-right p-3 w-32">Budgeted</th>
+                  <th className="text-right p-3 w-40">Bid</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scopeItems.map((item) => (
+                  <tr key={item.id} className="border-t">
+                    <td className="p-3">{item.item}</td>
+                    <td className="p-3 text-right tabular-nums text-muted-foreground">
+                      {formatCurrency(getBudgetedAmount(item))}
+                    </td>
+                    <td className="p-2">
+                      <CurrencyInput
+                        value={amounts[item.id] ?? null}
+                        onChange={(value) => setAmounts((prev) => ({ ...prev, [item.id]: value }))}
+                        className="h-8 text-right"
+                        placeholder="Not included"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t font-medium">
+                  <td className="p-3">Total</td>
+                  <td className="p-3 text-right tabular-nums">{formatCurrency(budgeted)}</td>
+                  <td className="p-3 text-right tabular-nums">{formatCurrency(total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          {unpriced > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {unpriced} line{unpriced === 1 ? '' : 's'} not priced. A bid must price every line to be the low bid.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="bid_exclusions">Exclusions</Label>
+            <Textarea
+              id="bid_exclusions"
+              value={exclusions}
+              onChange={(e) => setExclusions(e.target.value)}
+              placeholder="Permits, haul-off, owner-supplied materials..."
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bid_entry_notes">Notes</Label>
+            <Textarea
+              id="bid_entry_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Start date, payment terms, warranty..."
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <LoadingButton onClick={handleSave} isLoading={recordBid.isPending} loadingText="Saving...">
+            <IconCheck className="h-4 w-4" />
+            Save Bid
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
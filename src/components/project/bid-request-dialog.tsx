@@ -0,0 +1,269 @@
+'use client';
+
+import { useState } from 'react';
+import { IconSend } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { cn, formatCurrency } from '@/lib/utils';
+import { getBudgetedAmount } from '@/lib/draw-packet';
+import { getCategoryScopeItemIds } from '@/lib/bids';
+import { useBidMutations } from '@/hooks/use-bids';
+import {
+  BUDGET_CATEGORIES,
+  VENDOR_TRADE_LABELS,
+  type BudgetCategory,
+  type BudgetItem,
+  type Vendor,
+} from '@/types';
+
+interface BidRequestDialogProps {
+  projectId: string;
+  budgetItems: BudgetItem[];
+  vendors: Vendor[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ScopeMode = 'category' | 'items';
+
+/**
+ * Request bids from several vendors on a scope of budget lines, picked as a
+ * whole category or line by line.
+ */
+export function BidRequestDialog({ projectId, budgetItems, vendors, open, onOpenChange }: BidRequestDialogProps) {
+  const { createBidRequest } = useBidMutations(projectId);
+  const [scopeMode, setScopeMode] = useState<ScopeMode>('category');
+  const [category, setCategory] = useState<BudgetCategory | null>(null);
+  const [selectedItemIds, setSelectedItemIds] = useState<Set<string>>(new Set());
+  const [vendorIds, setVendorIds] = useState<Set<string>>(new Set());
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const categories = BUDGET_CATEGORIES.map((cat) => ({
+    ...cat,
+    items: budgetItems.filter((item) => item.category === cat.value),
+  })).filter((cat) => cat.items.length > 0);
+
+  const scopeItemIds =
+    scopeMode === 'category'
+      ? category
+        ? getCategoryScopeItemIds(budgetItems, category)
+        : []
+      : Array.from(selectedItemIds);
+  const scopeBudget = budgetItems
+    .filter((item) => scopeItemIds.includes(item.id))
+    .reduce((sum, item) => sum + getBudgetedAmount(item), 0);
+
+  const activeVendors = vendors.filter((v) => v.status !== 'do_not_use');
+
+  const reset = () => {
+    setScopeMode('category');
+    setCategory(null);
+    setSelectedItemIds(new Set());
+    setVendorIds(new Set());
+    setTitle('');
+    setDueDate('');
+    setNotes('');
+  };
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  };
+
+  const pickCategory = (value: BudgetCategory) => {
+    setCategory(value);
+    if (!title) setTitle(BUDGET_CATEGORIES.find((cat) => cat.value === value)?.label ?? '');
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleSubmit = () => {
+    createBidRequest.mutate(
+      {
+        title: title.trim(),
+        category: scopeMode === 'category' ? category : null,
+        budgetItemIds: scopeItemIds,
+        vendorIds: Array.from(vendorIds),
+        dueDate: dueDate || null,
+        notes: notes.trim() || null,
+      },
+      { onSuccess: () => handleOpenChange(false) }
+    );
+  };
+
+  const canSubmit = title.trim().length > 0 && scopeItemIds.length > 0 && vendorIds.size > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Request Bids</DialogTitle>
+          <DialogDescription>
+            Pick the scope to price and the vendors to invite. Each vendor gets a quote request in their contact
+            history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 space-y-5 pr-1">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="bid_title">Title *</Label>
+              <Input
+                id="bid_title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g. Kitchen cabinets and counters"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bid_due_date">Bids Due</Label>
+              <Input id="bid_due_date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+          </div>
+
+          {/* Scope */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Scope *</Label>
+              <div className="flex gap-1 rounded-lg bg-muted p-1 text-xs">
+                {(['category', 'items'] as ScopeMode[]).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setScopeMode(mode)}
+                    className={cn(
+                      'rounded-md px-2 py-1 transition-colors',
+                      scopeMode === mode ? 'bg-background shadow-sm font-medium' : 'text-muted-foreground'
+                    )}
+                  >
+                    {mode === 'category' ? 'Whole category' : 'Pick line items'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {scopeMode === 'category' ? (
+              <div className="grid grid-cols-3 gap-2">
+                {categories.map((cat) => (
+                  <button
+                    key={cat.value}
+                    type="button"
+                    onClick={() => pickCategory(cat.value)}
+                    className={cn(
+                      'rounded-lg border p-2 text-left text-sm transition-colors',
+                      category === cat.value ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                    )}
+                  >
+                    <div className="font-medium">{cat.label}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {cat.items.length} line{cat.items.length === 1 ? '' : 's'}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="max-h-64 overflow-y-auto rounded-lg border divide-y">
+                {categories.map((cat) => (
+                  <div key={cat.value}>
+                    <div className="bg-muted/50 px-3 py-1.5 text-xs font-medium text-muted-foreground">
+                      {cat.label}
+                    </div>
+                    {cat.items.map((item) => (
+                      <label key={item.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={selectedItemIds.has(item.id)}
+                          onCheckedChange={() => setSelectedItemIds((prev) => toggle(prev, item.id))}
+                        />
+                        <span className="flex-1">{item.item}</span>
+                        <span className="text-muted-foreground tabular-nums">
+                          {formatCurrency(getBudgetedAmount(item))}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {scopeItemIds.length} line{scopeItemIds.length === 1 ? '' : 's'} budgeted at {formatCurrency(scopeBudget)}
+            </p>
+          </div>
+
+          {/* Vendors */}
+          <div className="space-y-2">
+            <Label>Vendors *</Label>
+            {activeVendors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add vendors in the Vendors tab first.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {activeVendors.map((vendor) => (
+                  <label
+                    key={vendor.id}
+                    className={cn(
+                      'flex items-center gap-3 rounded-lg border p-2 text-sm cursor-pointer',
+                      vendorIds.has(vendor.id) && 'border-primary bg-primary/5'
+                    )}
+                  >
+                    <Checkbox
+                      checked={vendorIds.has(vendor.id)}
+                      onCheckedChange={() => setVendorIds((prev) => toggle(prev, vendor.id))}
+                    />
+                    <div className="min-w-0">
+                      <div className="truncate font-medium">{vendor.name}</div>
+                      <div className="text-xs text-muted-foreground">{VENDOR_TRADE_LABELS[vendor.trade]}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bid_notes">Notes to Vendors</Label>
+            <Textarea
+              id="bid_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Site access, finish specs, schedule..."
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <LoadingButton
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            isLoading={createBidRequest.isPending}
+            loadingText="Sending..."
+          >
+            <IconSend className="h-4 w-4" />
+            Request Bids
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
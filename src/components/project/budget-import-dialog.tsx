@@ -0,0 +1,380 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { IconFileSpreadsheet, IconUpload } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  BID_COLUMN_FIELDS,
+  detectHeaderRow,
+  diffBidAgainstBudget,
+  guessColumnMapping,
+  parseBidRows,
+  summarizeBidImport,
+  type BidColumnField,
+  type BidColumnMapping,
+  type BidImportChangeType,
+  type BidSheet,
+} from '@/lib/xlsx/bid-import';
+import { useImportBudgetBid } from '@/hooks/use-budget-items';
+import { BUDGET_CATEGORIES, type BudgetCategory, type BudgetItem } from '@/types';
+
+interface BudgetImportDialogProps {
+  projectId: string;
+  budgetItems: BudgetItem[];
+  trigger: React.ReactNode;
+}
+
+const CHANGE_BADGES: Record<BidImportChangeType, { label: string; variant: 'active' | 'pending' | 'cancelled' }> = {
+  new: { label: 'New', variant: 'active' },
+  update: { label: 'Update', variant: 'pending' },
+  unchanged: { label: 'No change', variant: 'cancelled' },
+};
+
+const columnLetter = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : columnLetter(Math.floor(index / 26) - 1) + columnLetter(index % 26);
+
+/**
+ * Import a GC's bid spreadsheet into the forecast column: pick the sheet,
+ * confirm the column mapping, review the diff, then apply it.
+ */
+export function BudgetImportDialog({ projectId, budgetItems, trigger }: BudgetImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [sheets, setSheets] = useState<BidSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<BidColumnMapping>({});
+  const [defaultCategory, setDefaultCategory] = useState<BudgetCategory>('soft_costs');
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const importBid = useImportBudgetBid();
+
+  const sheet = sheets[sheetIndex];
+  const header = sheet?.rows[headerRow] ?? [];
+  const columnCount = sheet ? Math.max(...sheet.rows.map((row) => row.length), 0) : 0;
+
+  const changes = useMemo(
+    () => (sheet ? diffBidAgainstBudget(parseBidRows(sheet.rows, headerRow, mapping, defaultCategory), budgetItems) : []),
+    [sheet, headerRow, mapping, defaultCategory, budgetItems]
+  );
+  const selected = changes.filter((change) => change.type !== 'unchanged' && !excludedRows.has(change.row.rowNumber));
+  const summary = summarizeBidImport(selected, budgetItems);
+
+  const selectSheet = (index: number, source: BidSheet[] = sheets) => {
+    const rows = source[index]?.rows ?? [];
+    const detected = detectHeaderRow(rows);
+    setSheetIndex(index);
+    setHeaderRow(detected);
+    setMapping(guessColumnMapping(rows[detected] ?? []));
+    setExcludedRows(new Set());
+  };
+
+  const reset = () => {
+    setFileName('');
+    setSheets([]);
+    setSheetIndex(0);
+    setHeaderRow(0);
+    setMapping({});
+    setExcludedRows(new Set());
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+
+    try {
+      const { readBidWorkbook } = await import('@/lib/xlsx/read-bid-workbook');
+      const workbook = await readBidWorkbook(await file.arrayBuffer());
+
+      if (workbook.length === 0) {
+        toast.error('That workbook has no data');
+        return;
+      }
+
+      setFileName(file.name);
+      setSheets(workbook);
+      selectSheet(0, workbook);
+    } catch (error) {
+      console.error('Error reading bid workbook:', error);
+      toast.error('Could not read that file. Save it as .xlsx and try again.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const setFieldColumn = (field: BidColumnField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+    setExcludedRows(new Set());
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setExcludedRows((current) => {
+      const next = new Set(current);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    importBid.mutate(
+      { projectId, changes: selected },
+      {
+        onSuccess: () => {
+          toast.success(`Imported ${selected.length} bid line${selected.length === 1 ? '' : 's'} into Forecast`);
+          reset();
+          setOpen(false);
+        },
+        onError: (error) => {
+          console.error('Error importing bid:', error);
+          toast.error('Failed to import bid');
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <IconFileSpreadsheet className="h-5 w-5" />
+            Import Bid
+          </DialogTitle>
+          <DialogDescription>
+            Load a contractor&apos;s bid spreadsheet (.xlsx). Amounts go into the Forecast column; lines that
+            don&apos;t match an existing item by category and name are added.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* File */}
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <LoadingButton
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            isLoading={isReading}
+            loadingText="Reading..."
+          >
+            <IconUpload className="h-4 w-4" />
+            {fileName ? 'Choose Another File' : 'Choose File'}
+          </LoadingButton>
+          {fileName && <span className="text-sm text-muted-foreground">{fileName}</span>}
+        </div>
+
+        {sheet && (
+          <>
+            {/* Mapping */}
+            <div className="rounded-lg border p-4 space-y-3">
+              <div className="flex flex-wrap gap-3">
+                {sheets.length > 1 && (
+                  <MappingSelect label="Sheet" value={String(sheetIndex)} onChange={(v) => selectSheet(Number(v))}>
+                    {sheets.map((s, index) => (
+                      <option key={s.name} value={index}>
+                        {s.name}
+                      </option>
+                    ))}
+                  </MappingSelect>
+                )}
+                <MappingSelect
+                  label="Header Row"
+                  value={String(headerRow)}
+                  onChange={(v) => {
+                    setHeaderRow(Number(v));
+                    setMapping(guessColumnMapping(sheet.rows[Number(v)] ?? []));
+                    setExcludedRows(new Set());
+                  }}
+                >
+                  {sheet.rows.slice(0, 20).map((_, index) => (
+                    <option key={index} value={index}>
+                      Row {index + 1}
+                    </option>
+                  ))}
+                </MappingSelect>
+                <MappingSelect
+                  label="Uncategorized Lines"
+                  value={defaultCategory}
+                  onChange={(v) => setDefaultCategory(v as BudgetCategory)}
+                >
+                  {BUDGET_CATEGORIES.map((category) => (
+                    <option key={category.value} value={category.value}>
+                      {category.label}
+                    </option>
+                  ))}
+                </MappingSelect>
+              </div>
+
+              <div className="flex flex-wrap gap-3">
+                {BID_COLUMN_FIELDS.map(({ field, label, required }) => (
+                  <MappingSelect
+                    key={field}
+                    label={required ? `${label} *` : label}
+                    value={mapping[field] === undefined ? '' : String(mapping[field])}
+                    onChange={(v) => setFieldColumn(field, v)}
+                  >
+                    <option value="">{required ? 'Choose a column' : 'Not in bid'}</option>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <option key={index} value={index}>
+                        {columnLetter(index)}
+                        {header[index] != null ? ` - ${header[index]}` : ''}
+                      </option>
+                    ))}
+                  </MappingSelect>
+                ))}
+              </div>
+              {mapping.amount === undefined && mapping.item !== undefined && (
+                <p className="text-xs text-muted-foreground">No amount column: lines are priced at Qty × Rate.</p>
+              )}
+            </div>
+
+            {/* Preview */}
+            {mapping.item === undefined ? (
+              <p className="text-sm text-muted-foreground">Choose the column that holds the line item names.</p>
+            ) : changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No priced lines found below the header row.</p>
+            ) : (
+              <div className="rounded-lg border overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="table-header">
+                      <th className="p-3 w-10"></th>
+                      <th className="text-left p-3 w-14">Row</th>
+                      <th className="text-left p-3">Item</th>
+                      <th className="text-left p-3 w-40">Category</th>
+                      <th className="text-left p-3 w-24">Change</th>
+                      <th className="text-right p-3 w-28">Forecast</th>
+                      <th className="text-right p-3 w-28">Bid</th>
+                      <th className="text-right p-3 w-28">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((change) => {
+                      const included = change.type !== 'unchanged' && !excludedRows.has(change.row.rowNumber);
+                      return (
+                        <tr key={change.row.rowNumber} className={cn('border-t', !included && 'text-muted-foreground')}>
+                          <td className="p-3">
+                            <Checkbox
+                              checked={included}
+                              disabled={change.type === 'unchanged'}
+                              onCheckedChange={() => toggleRow(change.row.rowNumber)}
+                            />
+                          </td>
+                          <td className="p-3 tabular-nums">{change.row.rowNumber}</td>
+                          <td className="p-3">
+                            <div className="font-medium">{change.row.item}</div>
+                            {change.row.description && (
+                              <div className="text-xs text-muted-foreground">{change.row.description}</div>
+                            )}
+                          </td>
+                          <td className="p-3">
+                            {BUDGET_CATEGORIES.find((c) => c.value === change.row.category)?.label}
+                          </td>
+                          <td className="p-3">
+                            <Badge variant={CHANGE_BADGES[change.type].variant}>{CHANGE_BADGES[change.type].label}</Badge>
+                          </td>
+                          <td className="p-3 text-right tabular-nums">
+                            {change.budgetItem ? formatCurrency(change.fromForecast) : '-'}
+                          </td>
+                          <td className="p-3 text-right tabular-nums">{formatCurrency(change.toForecast)}</td>
+                          <td
+                            className={cn(
+                              'p-3 text-right tabular-nums',
+                              change.delta > 0 ? 'text-red-600' : change.delta < 0 ? 'text-green-600' : ''
+                            )}
+                          >
+                            {change.delta > 0 ? '+' : ''}
+                            {formatCurrency(change.delta)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Summary */}
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-muted-foreground">
+                {summary.newCount} new, {summary.updateCount} updated · Forecast {formatCurrency(summary.from)} →{' '}
+                <span className="font-medium text-foreground">{formatCurrency(summary.to)}</span>
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setOpen(false)}>
+                  Cancel
+                </Button>
+                <LoadingButton
+                  onClick={handleImport}
+                  disabled={selected.length === 0}
+                  isLoading={importBid.isPending}
+                  loadingText="Importing..."
+                >
+                  Import {selected.length} Line{selected.length === 1 ? '' : 's'}
+                </LoadingButton>
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MappingSelect({
+  label,
+  value,
+  onChange,
+  children,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <div>
+      <label className="text-sm text-muted-foreground">{label}</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-44 mt-1 p-2 rounded border text-sm block bg-background"
+      >
+        {children}
+      </select>
+    </div>
+  );
+}
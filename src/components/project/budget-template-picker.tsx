@@ -0,0 +1,100 @@
+'use client';
+
+import { IconTemplate } from '@tabler/icons-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatCurrency, formatNumber } from '@/lib/utils';
+import { useBudgetTemplates } from '@/hooks/use-budget-templates';
+
+// Select value for the default zero-dollar category templates
+const STANDARD_BUDGET = 'standard';
+
+interface BudgetTemplatePickerProps {
+  /** Selected template ID, or `null` for the standard categories */
+  value: string | null;
+  onChange: (templateId: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Choose the budget a new project starts with: the standard empty category
+ * list or one of the user's saved templates.
+ */
+export function BudgetTemplatePicker({ value, onChange, disabled = false }: BudgetTemplatePickerProps) {
+  const { data: templates = [], isLoading } = useBudgetTemplates();
+  const selected = templates.find((t) => t.id === value) || null;
+
+  const templateTotal = selected
+    ? selected.budget_template_items.reduce(
+        (sum, item) => sum + (Number(item.rate) > 0 ? Number(item.qty) * Number(item.rate) : Number(item.amount) || 0),
+        0
+      )
+    : 0;
+  const hasSqftItems = selected?.budget_template_items.some((item) => item.unit === 'sf') ?? false;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <IconTemplate className="h-5 w-5" />
+          Starting Budget
+        </CardTitle>
+        <CardDescription>Start from the standard categories or one of your saved scopes</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Select
+          value={value ?? STANDARD_BUDGET}
+          onValueChange={(v) => onChange(v === STANDARD_BUDGET ? null : v)}
+          disabled={disabled || isLoading}
+        >
+          <SelectTrigger className="md:w-96">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={STANDARD_BUDGET}>Standard categories (blank amounts)</SelectItem>
+            {templates.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {selected && (
+          <div className="text-sm text-muted-foreground space-y-1">
+            {selected.description && <p>{selected.description}</p>}
+            <p>
+              {selected.budget_template_items.length} line items · {formatCurrency(templateTotal)}
+              {selected.sqft ? ` at ${formatNumber(selected.sqft)} sqft` : ''}
+            </p>
+            {hasSqftItems && (
+              <p className="text-xs">
+                {selected.sqft
+                  ? "Lines priced per SF are scaled to this property's sqft."
+                  : 'This template has no sqft, so per-SF lines keep their quantities.'}
+              </p>
+            )}
+          </div>
+        )}
+
+        {!isLoading && templates.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Save any project&apos;s budget as a template from its Budget tab to reuse it here.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
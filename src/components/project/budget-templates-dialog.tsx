@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { IconDeviceFloppy, IconTemplate, IconTrash } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { formatDate, formatNumber } from '@/lib/utils';
+import { getWorkspaceErrorMessage } from '@/lib/workspaces';
+import {
+  useBudgetTemplates,
+  useDeleteBudgetTemplate,
+  useSaveBudgetTemplate,
+} from '@/hooks/use-budget-templates';
+import type { BudgetTemplateWithItems, Project } from '@/types';
+
+interface BudgetTemplatesDialogProps {
+  project: Project;
+  trigger: React.ReactNode;
+}
+
+/**
+ * Save the project's budget as a reusable template and manage saved templates.
+ */
+export function BudgetTemplatesDialog({ project, trigger }: BudgetTemplatesDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [templateToDelete, setTemplateToDelete] = useState<BudgetTemplateWithItems | null>(null);
+
+  const { data: templates = [], isLoading } = useBudgetTemplates();
+  const saveTemplate = useSaveBudgetTemplate();
+  const deleteTemplate = useDeleteBudgetTemplate();
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast.error('Name the template');
+      return;
+    }
+    saveTemplate.mutate(
+      { projectId: project.id, name: name.trim(), description: description.trim() || null },
+      {
+        onSuccess: (template) => {
+          toast.success(`Saved "${template.name}"`);
+          setName('');
+          setDescription('');
+        },
+        onError: (error) => {
+          console.error('Error saving budget template:', error);
+          toast.error(getWorkspaceErrorMessage(error, 'Failed to save template'));
+        },
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!templateToDelete) return;
+    deleteTemplate.mutate(templateToDelete.id, {
+      onSuccess: () => {
+        toast.success('Template deleted');
+        setTemplateToDelete(null);
+      },
+      onError: (error) => {
+        console.error('Error deleting budget template:', error);
+        toast.error(getWorkspaceErrorMessage(error, 'Failed to delete template'));
+      },
+    });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <IconTemplate className="h-5 w-5" />
+            Budget Templates
+          </DialogTitle>
+          <DialogDescription>
+            Save this budget&apos;s lines, quantities, rates and vendors to start new projects from.
+            {project.sqft
+              ? ` Lines priced per SF will scale from ${formatNumber(project.sqft)} sqft.`
+              : ' Add the sqft to this project first if per-SF lines should scale.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New Template */}
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 items-end">
+          <div>
+            <label className="text-sm text-muted-foreground">Name</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Cosmetic 1960s rambler"
+              maxLength={100}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground">Description</label>
+            <Input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              className="mt-1"
+            />
+          </div>
+          <LoadingButton onClick={handleSave} isLoading={saveTemplate.isPending} loadingText="Saving...">
+            <IconDeviceFloppy className="h-4 w-4" />
+            Save Template
+          </LoadingButton>
+        </div>
+
+        {/* Saved Templates */}
+        <div className="rounded-lg border">
+          {isLoading ? (
+            <p className="p-4 text-sm text-muted-foreground">Loading templates...</p>
+          ) : templates.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">
+              No templates yet. Saved templates show up when you create a new project.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="table-header">
+                  <th className="text-left p-3">Template</th>
+                  <th className="text-left p-3 w-28">Saved</th>
+                  <th className="text-right p-3 w-20">Items</th>
+                  <th className="text-right p-3 w-24">Sqft</th>
+                  <th className="p-3 w-12"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map((template) => (
+                  <tr key={template.id} className="border-t">
+                    <td className="p-3">
+                      <div className="font-medium">{template.name}</div>
+                      {template.description && (
+                        <div className="text-xs text-muted-foreground">{template.description}</div>
+                      )}
+                    </td>
+                    <td className="p-3 text-muted-foreground">{formatDate(template.created_at)}</td>
+                    <td className="p-3 text-right tabular-nums">{template.budget_template_items.length}</td>
+                    <td className="p-3 text-right tabular-nums">{formatNumber(template.sqft)}</td>
+                    <td className="p-3 text-center">
+                      <button
+                        onClick={() => setTemplateToDelete(template)}
+                        className="p-1 rounded hover:bg-red-100 text-muted-foreground hover:text-red-600 transition-colors"
+                        title="Delete template"
+                      >
+                        <IconTrash className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <ConfirmDialog
+          open={!!templateToDelete}
+          onOpenChange={(open) => !open && setTemplateToDelete(null)}
+          title="Delete Template"
+          description={`Delete "${templateToDelete?.name}"? Projects created from it are not affected.`}
+          confirmText="Delete"
+          variant="destructive"
+          onConfirm={handleDelete}
+          isPending={deleteTemplate.isPending}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,373 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { IconArrowRight, IconCamera, IconHistory, IconTrash } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { cn, formatCurrency, formatDate, formatPercent } from '@/lib/utils';
+import {
+  BUDGET_DIFF_FIELD_LABELS,
+  CURRENT_BUDGET_VERSION_ID,
+  currentBudgetVersion,
+  diffBudgetVersions,
+  snapshotToVersion,
+  type BudgetDiff,
+  type BudgetItemChangeType,
+  type BudgetVersion,
+} from '@/lib/budget-snapshots';
+import { useBudgetSnapshotMutations, useBudgetSnapshots } from '@/hooks/use-budget-snapshots';
+import type { BudgetItem, BudgetSnapshot, CalculationSettingsInput, Project } from '@/types';
+
+interface BudgetVersionsDialogProps {
+  project: Project;
+  budgetItems: BudgetItem[];
+  settings: CalculationSettingsInput;
+  trigger: React.ReactNode;
+}
+
+const CHANGE_BADGES: Record<BudgetItemChangeType, { label: string; variant: 'active' | 'cancelled' | 'pending' }> = {
+  added: { label: 'Added', variant: 'active' },
+  removed: { label: 'Removed', variant: 'cancelled' },
+  changed: { label: 'Changed', variant: 'pending' },
+};
+
+/**
+ * Save named snapshots of the budget and compare any two versions.
+ */
+export function BudgetVersionsDialog({ project, budgetItems, settings, trigger }: BudgetVersionsDialogProps) {
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState(CURRENT_BUDGET_VERSION_ID);
+  const [snapshotToDelete, setSnapshotToDelete] = useState<BudgetSnapshot | null>(null);
+
+  const { data: snapshots = [], isLoading } = useBudgetSnapshots(project.id);
+  const { createSnapshot, deleteSnapshot } = useBudgetSnapshotMutations(project.id);
+
+  const versions = useMemo<BudgetVersion[]>(
+    () => [currentBudgetVersion(project, budgetItems), ...snapshots.map(snapshotToVersion)],
+    [project, budgetItems, snapshots]
+  );
+
+  // Compare against the latest snapshot until one is picked
+  const effectiveFromId = fromId || snapshots[0]?.id || '';
+  const from = versions.find((v) => v.id === effectiveFromId);
+  const to = versions.find((v) => v.id === toId);
+  const diff = from && to && from.id !== to.id ? diffBudgetVersions(from, to, settings) : null;
+
+  const handleCreate = () => {
+    if (!name.trim()) {
+      toast.error('Name the snapshot');
+      return;
+    }
+    createSnapshot.mutate(
+      { name: name.trim(), notes: notes.trim() || null },
+      {
+        onSuccess: (snapshot) => {
+          setName('');
+          setNotes('');
+          setFromId(snapshot.id);
+        },
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!snapshotToDelete) return;
+    deleteSnapshot.mutate(snapshotToDelete.id, {
+      onSuccess: () => {
+        if (fromId === snapshotToDelete.id) setFromId('');
+        if (toId === snapshotToDelete.id) setToId(CURRENT_BUDGET_VERSION_ID);
+        setSnapshotToDelete(null);
+      },
+    });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <IconHistory className="h-5 w-5" />
+            Budget Versions
+          </DialogTitle>
+          <DialogDescription>
+            Freeze the budget and deal financials as a named snapshot, then compare any two versions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New Snapshot */}
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 items-end">
+          <div>
+            <label className="text-sm text-muted-foreground">Name</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Post-inspection"
+              maxLength={100}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground">Notes</label>
+            <Input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Optional"
+              className="mt-1"
+            />
+          </div>
+          <LoadingButton onClick={handleCreate} isLoading={createSnapshot.isPending} loadingText="Saving...">
+            <IconCamera className="h-4 w-4" />
+            Save Snapshot
+          </LoadingButton>
+        </div>
+
+        {/* Saved Snapshots */}
+        <div className="rounded-lg border">
+          {isLoading ? (
+            <p className="p-4 text-sm text-muted-foreground">Loading snapshots...</p>
+          ) : snapshots.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">
+              No snapshots yet. Save one before re-bidding so you can see what changed.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="table-header">
+                  <th className="text-left p-3">Snapshot</th>
+                  <th className="text-left p-3 w-28">Saved</th>
+                  <th className="text-right p-3 w-20">Items</th>
+                  <th className="text-right p-3 w-32">Budget</th>
+                  <th className="p-3 w-12"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {snapshots.map((snapshot) => (
+                  <tr key={snapshot.id} className="border-t">
+                    <td className="p-3">
+                      <div className="font-medium">{snapshot.name}</div>
+                      {snapshot.notes && <div className="text-xs text-muted-foreground">{snapshot.notes}</div>}
+                    </td>
+                    <td className="p-3 text-muted-foreground">{formatDate(snapshot.created_at)}</td>
+                    <td className="p-3 text-right tabular-nums">{snapshot.item_count}</td>
+                    <td className="p-3 text-right tabular-nums">
+                      {formatCurrency(
+                        Number(snapshot.forecast_total) > 0 ? snapshot.forecast_total : snapshot.underwriting_total
+                      )}
+                    </td>
+                    <td className="p-3 text-center">
+                      <button
+                        onClick={() => setSnapshotToDelete(snapshot)}
+                        className="p-1 rounded hover:bg-red-100 text-muted-foreground hover:text-red-600 transition-colors"
+                        title="Delete snapshot"
+                      >
+                        <IconTrash className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Compare */}
+        {snapshots.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <VersionSelect label="Compare" value={effectiveFromId} versions={versions} onChange={setFromId} />
+              <IconArrowRight className="h-4 w-4 mb-2.5 text-muted-foreground" />
+              <VersionSelect label="With" value={toId} versions={versions} onChange={setToId} />
+            </div>
+
+            {diff ? (
+              <BudgetDiffView diff={diff} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Pick two different versions to compare.</p>
+            )}
+          </div>
+        )}
+
+        <ConfirmDialog
+          open={!!snapshotToDelete}
+          onOpenChange={(open) => !open && setSnapshotToDelete(null)}
+          title="Delete Snapshot"
+          description={`Delete "${snapshotToDelete?.name}"? The current budget is not affected.`}
+          confirmText="Delete"
+          variant="destructive"
+          onConfirm={handleDelete}
+          isPending={deleteSnapshot.isPending}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface VersionSelectProps {
+  label: string;
+  value: string;
+  versions: BudgetVersion[];
+  onChange: (id: string) => void;
+}
+
+function VersionSelect({ label, value, versions, onChange }: VersionSelectProps) {
+  return (
+    <div>
+      <label className="text-sm text-muted-foreground">{label}</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-56 mt-1 p-2 rounded border text-sm block"
+      >
+        {versions.map((v) => (
+          <option key={v.id} value={v.id}>
+            {v.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function ChangeAmount({ value, inverse = false }: { value: number; inverse?: boolean }) {
+  // Cost increases are bad; for MAO/profit/ROI increases are good
+  const isBad = inverse ? value < 0 : value > 0;
+  return (
+    <span className={cn('tabular-nums', value === 0 ? 'text-muted-foreground' : isBad ? 'text-red-600' : 'text-green-600')}>
+      {value > 0 ? '+' : ''}
+      {formatCurrency(value)}
+    </span>
+  );
+}
+
+function BudgetDiffView({ diff }: { diff: BudgetDiff }) {
+  const { from, to } = diff.analysis;
+  const roiChange = to.primary.roi - from.primary.roi;
+
+  const impact = [
+    { label: 'Rehab Budget', from: from.primary.rehabWithContingency, to: to.primary.rehabWithContingency, inverse: false },
+    { label: 'MAO', from: from.mao, to: to.mao, inverse: true },
+    { label: 'Profit', from: from.primary.grossProfit, to: to.primary.grossProfit, inverse: true },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {/* Deal Impact */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {impact.map((metric) => (
+          <div key={metric.label} className="stat-card">
+            <p className="stat-label">{metric.label}</p>
+            <p className="text-sm tabular-nums text-muted-foreground">
+              {formatCurrency(metric.from)} → {formatCurrency(metric.to)}
+            </p>
+            <p className="font-semibold">
+              <ChangeAmount value={metric.to - metric.from} inverse={metric.inverse} />
+            </p>
+          </div>
+        ))}
+        <div className="stat-card">
+          <p className="stat-label">ROI</p>
+          <p className="text-sm tabular-nums text-muted-foreground">
+            {formatPercent(from.primary.roi)} → {formatPercent(to.primary.roi)}
+          </p>
+          <p className={cn('font-semibold tabular-nums', roiChange < 0 ? 'text-red-600' : roiChange > 0 ? 'text-green-600' : 'text-muted-foreground')}>
+            {roiChange > 0 ? '+' : ''}
+            {roiChange.toFixed(1)} pts
+          </p>
+        </div>
+      </div>
+
+      {/* Category Totals */}
+      <div className="rounded-lg border overflow-hidden">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="table-header">
+              <th className="text-left p-3">Category</th>
+              <th className="text-right p-3 w-32">Before</th>
+              <th className="text-right p-3 w-32">After</th>
+              <th className="text-right p-3 w-32">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.categories.map((cat) => (
+              <tr key={cat.category} className="border-t">
+                <td className="p-3">{cat.label}</td>
+                <td className="p-3 text-right tabular-nums">{formatCurrency(cat.from)}</td>
+                <td className="p-3 text-right tabular-nums">{formatCurrency(cat.to)}</td>
+                <td className="p-3 text-right">
+                  <ChangeAmount value={cat.delta} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t bg-muted/50 font-medium">
+              <td className="p-3">Total</td>
+              <td className="p-3 text-right tabular-nums">{formatCurrency(diff.totals.from)}</td>
+              <td className="p-3 text-right tabular-nums">{formatCurrency(diff.totals.to)}</td>
+              <td className="p-3 text-right">
+                <ChangeAmount value={diff.totals.delta} />
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {/* Line Item Changes */}
+      <div className="rounded-lg border overflow-hidden">
+        {diff.items.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">No line item changes.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="table-header">
+                <th className="text-left p-3 w-24"></th>
+                <th className="text-left p-3">Line Item</th>
+                <th className="text-left p-3">Changed</th>
+                <th className="text-right p-3 w-28">Before</th>
+                <th className="text-right p-3 w-28">After</th>
+                <th className="text-right p-3 w-28">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.items.map((item) => (
+                <tr key={`${item.from?.id ?? ''}:${item.to?.id ?? ''}`} className="border-t">
+                  <td className="p-3">
+                    <Badge variant={CHANGE_BADGES[item.type].variant}>{CHANGE_BADGES[item.type].label}</Badge>
+                  </td>
+                  <td className="p-3">
+                    <div className={cn(item.type === 'removed' && 'line-through text-muted-foreground')}>{item.name}</div>
+                    {item.from && item.to && item.from.item !== item.to.item && (
+                      <div className="text-xs text-muted-foreground">was {item.from.item}</div>
+                    )}
+                  </td>
+                  <td className="p-3 text-xs text-muted-foreground">
+                    {item.changedFields.map((field) => BUDGET_DIFF_FIELD_LABELS[field]).join(', ') || '-'}
+                  </td>
+                  <td className="p-3 text-right tabular-nums">{item.from ? formatCurrency(item.fromAmount) : '-'}</td>
+                  <td className="p-3 text-right tabular-nums">{item.to ? formatCurrency(item.toAmount) : '-'}</td>
+                  <td className="p-3 text-right">
+                    <ChangeAmount value={item.delta} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { IconCheck, IconX } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { cn, formatCurrency } from '@/lib/utils';
+import { getBudgetedAmount } from '@/lib/draw-packet';
+import {
+  formatChangeOrderNumber,
+  getNegativeChangeOrderLines,
+  toChangeOrderLineEntries,
+  validateChangeOrderInput,
+} from '@/lib/change-orders';
+import { useChangeOrderMutations } from '@/hooks/use-change-orders';
+import {
+  BUDGET_CATEGORIES,
+  CHANGE_ORDER_REASON_LABELS,
+  type BudgetItem,
+  type ChangeOrderReason,
+  type ChangeOrderWithItems,
+  type Vendor,
+} from '@/types';
+
+interface ChangeOrderDialogProps {
+  projectId: string;
+  budgetItems: BudgetItem[];
+  vendors: Vendor[];
+  /** Draft being edited; null with `open` creates a new one */
+  changeOrder: ChangeOrderWithItems | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Create or edit a draft change order: the reason, the vendor and a signed
+ * change for each affected budget line.
+ */
+export function ChangeOrderDialog({
+  projectId,
+  budgetItems,
+  vendors,
+  changeOrder,
+  open,
+  onOpenChange,
+}: ChangeOrderDialogProps) {
+  const { saveChangeOrder } = useChangeOrderMutations(projectId);
+  const [title, setTitle] = useState('');
+  const [reasonCode, setReasonCode] = useState<ChangeOrderReason>('owner_requested');
+  const [vendorId, setVendorId] = useState('');
+  const [description, setDescription] = useState('');
+  const [deltas, setDeltas] = useState<Record<string, number | null>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the draft (or start empty) each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setTitle(changeOrder?.title ?? '');
+    setReasonCode(changeOrder?.reason_code ?? 'owner_requested');
+    setVendorId(changeOrder?.vendor_id ?? '');
+    setDescription(changeOrder?.description ?? '');
+    setDeltas(
+      Object.fromEntries((changeOrder?.change_order_items ?? []).map((line) => [line.budget_item_id, Number(line.delta)]))
+    );
+    setNotes(
+      Object.fromEntries((changeOrder?.change_order_items ?? []).map((line) => [line.budget_item_id, line.notes ?? '']))
+    );
+    setError(null);
+  }, [open, changeOrder]);
+
+  const selectedIds = Object.keys(deltas);
+  const selectedItems = budgetItems.filter((item) => selectedIds.includes(item.id));
+  const lines = toChangeOrderLineEntries(deltas);
+  const total = lines.reduce((sum, line) => sum + line.delta, 0);
+  const negativeIds = getNegativeChangeOrderLines(lines, budgetItems);
+
+  const categories = BUDGET_CATEGORIES.map((cat) => ({
+    ...cat,
+    items: budgetItems.filter((item) => item.category === cat.value && !selectedIds.includes(item.id)),
+  })).filter((cat) => cat.items.length > 0);
+
+  const activeVendors = vendors.filter((v) => v.status !== 'do_not_use' || v.id === vendorId);
+
+  const addLine = (budgetItemId: string) => {
+    if (!budgetItemId) return;
+    setDeltas((prev) => ({ ...prev, [budgetItemId]: null }));
+  };
+
+  const removeLine = (budgetItemId: string) => {
+    setDeltas(({ [budgetItemId]: _removed, ...rest }) => rest);
+  };
+
+  const handleSave = () => {
+    const validationError = validateChangeOrderInput({ title, lines });
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    saveChangeOrder.mutate(
+      {
+        changeOrderId: changeOrder?.id,
+        title: title.trim(),
+        reasonCode,
+        vendorId: vendorId || null,
+        description: description.trim() || null,
+        lines: lines.map((line) => ({ ...line, notes: notes[line.budget_item_id]?.trim() || null })),
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {changeOrder ? `Edit ${formatChangeOrderNumber(changeOrder.number)}` : 'New Change Order'}
+          </DialogTitle>
+          <DialogDescription>
+            List the budget lines this change affects and how much each goes up or down. Nothing changes in the
+            budget until the change order is approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="change_order_title">Change</Label>
+            <Input
+              id="change_order_title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Replace rotted subfloor in hall bath"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm text-muted-foreground">Reason</label>
+              <select
+                value={reasonCode}
+                onChange={(e) => setReasonCode(e.target.value as ChangeOrderReason)}
+                className="w-full mt-1 p-2 rounded border text-sm"
+              >
+                {(Object.keys(CHANGE_ORDER_REASON_LABELS) as ChangeOrderReason[]).map((reason) => (
+                  <option key={reason} value={reason}>
+                    {CHANGE_ORDER_REASON_LABELS[reason]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground">Vendor</label>
+              <select
+                value={vendorId}
+                onChange={(e) => setVendorId(e.target.value)}
+                className="w-full mt-1 p-2 rounded border text-sm"
+              >
+                <option value="">No vendor</option>
+                {activeVendors.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>
+                    {vendor.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="change_order_description">Description</Label>
+            <Textarea
+              id="change_order_description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What was found or requested, and what the vendor will do"
+              rows={2}
+            />
+          </div>
+
+          <div className="rounded-lg border">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-background">
+                <tr className="table-header">
+                  <th className="text-left p-3">Line Item</th>
+                  <th className="text-right p-3 w-28">Budgeted</th>
+                  <th className="text-right p-3 w-36">Change</th>
+                  <th className="text-right p-3 w-28">Revised</th>
+                  <th className="w-10" />
+                </tr>
+              </thead>
+              <tbody>
+                {selectedItems.map((item) => {
+                  const budgeted = getBudgetedAmount(item);
+                  const delta = deltas[item.id] ?? 0;
+                  return (
+                    <tr key={item.id} className="border-t align-top">
+                      <td className="p-2">
+                        <p className="px-1 pt-1">{item.item}</p>
+                        <Input
+                          value={notes[item.id] ?? ''}
+                          onChange={(e) => setNotes((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                          className="h-7 mt-1 text-xs"
+                          placeholder="Line note (optional)"
+                        />
+                      </td>
+                      <td className="p-3 text-right tabular-nums text-muted-foreground">{formatCurrency(budgeted)}</td>
+                      <td className="p-2">
+                        <CurrencyInput
+                          value={deltas[item.id] ?? null}
+                          onChange={(value) => setDeltas((prev) => ({ ...prev, [item.id]: value }))}
+                          className="h-8 text-right"
+                          placeholder="+/- amount"
+                          allowNegative
+                        />
+                      </td>
+                      <td
+                        className={cn(
+                          'p-3 text-right tabular-nums',
+                          negativeIds.includes(item.id) && 'text-red-600'
+                        )}
+                      >
+                        {formatCurrency(budgeted + delta)}
+                      </td>
+                      <td className="p-2">
+                        <button
+                          type="button"
+                          onClick={() => removeLine(item.id)}
+                          className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
+                          title="Remove line"
+                        >
+                          <IconX className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                <tr className="border-t">
+                  <td className="p-2" colSpan={5}>
+                    <select
+                      value=""
+                      onChange={(e) => addLine(e.target.value)}
+                      className="w-full p-2 rounded border text-sm"
+                      disabled={categories.length === 0}
+                    >
+                      <option value="">Add a budget line...</option>
+                      {categories.map((cat) => (
+                        <optgroup key={cat.value} label={cat.label}>
+                          {cat.items.map((item) => (
+                            <option key={item.id} value={item.id}>
+                              {item.item}
+                            </option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              </tbody>
+              <tfoot>
+                <tr className="border-t font-medium">
+                  <td className="p-3" colSpan={2}>
+                    Net Change
+                  </td>
+                  <td className={cn('p-3 text-right tabular-nums', total > 0 ? 'text-red-600' : total < 0 && 'text-green-600')}>
+                    {total > 0 ? '+' : ''}
+                    {formatCurrency(total)}
+                  </td>
+                  <td colSpan={2} />
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          {negativeIds.length > 0 && (
+            <p className="text-xs text-red-600">
+              {negativeIds.length} line{negativeIds.length === 1 ? '' : 's'} would go below zero. The change order
+              can&apos;t be approved like this.
+            </p>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <LoadingButton onClick={handleSave} isLoading={saveChangeOrder.isPending} loadingText="Saving...">
+            <IconCheck className="h-4 w-4" />
+            Save Draft
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
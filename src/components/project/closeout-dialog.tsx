@@ -0,0 +1,174 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { IconCheck } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { Textarea } from '@/components/ui/textarea';
+import { validateCloseoutInput, type CloseoutFields } from '@/lib/closeout';
+import { useProjectCloseoutMutations } from '@/hooks/use-project-closeout';
+import type { ProjectCloseout } from '@/types';
+
+interface CloseoutDialogProps {
+  projectId: string;
+  closeDate: string | null;
+  /** Saved closeout, or null to start from `defaults` */
+  closeout: ProjectCloseout | null;
+  defaults: CloseoutFields;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+type AmountField = Exclude<keyof CloseoutFields, 'sale_date' | 'notes'>;
+
+const SETTLEMENT_FIELDS: { field: AmountField; label: string }[] = [
+  { field: 'sale_price', label: 'Sale Price' },
+  { field: 'commissions', label: 'Commissions' },
+  { field: 'seller_concessions', label: 'Seller Concessions' },
+  { field: 'title_transfer_fees', label: 'Title & Transfer Fees' },
+  { field: 'loan_payoff', label: 'Loan Payoff' },
+];
+
+const COST_FIELDS: { field: AmountField; label: string }[] = [
+  { field: 'purchase_price', label: 'Purchase Price' },
+  { field: 'closing_costs', label: 'Purchase Closing Costs' },
+  { field: 'rehab_cost', label: 'Rehab Spent' },
+  { field: 'holding_costs_paid', label: 'Holding Costs Paid' },
+  { field: 'financing_fees', label: 'Points & Lender Fees' },
+  { field: 'loan_principal', label: 'Loan Principal Repaid' },
+];
+
+function toAmounts(fields: CloseoutFields): Record<AmountField, number | null> {
+  const amounts = {} as Record<AmountField, number | null>;
+  [...SETTLEMENT_FIELDS, ...COST_FIELDS].forEach(({ field }) => {
+    amounts[field] = fields[field] || null;
+  });
+  return amounts;
+}
+
+/**
+ * Enter the sale settlement statement and what the project actually cost.
+ * The cost basis starts from the project, its actual rehab spend and loans.
+ */
+export function CloseoutDialog({
+  projectId,
+  closeDate,
+  closeout,
+  defaults,
+  open,
+  onOpenChange,
+  onSaved,
+}: CloseoutDialogProps) {
+  const { saveCloseout } = useProjectCloseoutMutations(projectId);
+  const [saleDate, setSaleDate] = useState('');
+  const [amounts, setAmounts] = useState<Record<AmountField, number | null>>(() => toAmounts(defaults));
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const initial = closeout ?? defaults;
+    setSaleDate(initial.sale_date);
+    setAmounts(toAmounts(initial));
+    setNotes(initial.notes ?? '');
+    setError(null);
+  }, [open, closeout, defaults]);
+
+  const setAmount = (field: AmountField) => (value: number | null) =>
+    setAmounts((current) => ({ ...current, [field]: value }));
+
+  const handleSave = () => {
+    const fields = { sale_date: saleDate, notes: notes.trim() || null } as CloseoutFields;
+    (Object.keys(amounts) as AmountField[]).forEach((field) => {
+      fields[field] = amounts[field] ?? 0;
+    });
+
+    const validationError = validateCloseoutInput(fields, closeDate);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    saveCloseout.mutate(
+      { id: closeout?.id ?? null, data: fields },
+      {
+        onSuccess: () => {
+          onOpenChange(false);
+          onSaved();
+        },
+      }
+    );
+  };
+
+  const renderAmounts = (rows: { field: AmountField; label: string }[]) => (
+    <div className="grid grid-cols-2 gap-4">
+      {rows.map(({ field, label }) => (
+        <div key={field} className="space-y-2">
+          <Label htmlFor={`closeout_${field}`}>{label}</Label>
+          <CurrencyInput id={`closeout_${field}`} value={amounts[field]} onChange={setAmount(field)} />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{closeout ? 'Edit Settlement' : 'Enter Settlement'}</DialogTitle>
+          <DialogDescription>
+            From the seller&apos;s settlement statement. The loan payoff includes interest and fees owed at sale.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="closeout_sale_date">Settlement Date</Label>
+            <Input
+              id="closeout_sale_date"
+              type="date"
+              value={saleDate}
+              onChange={(e) => setSaleDate(e.target.value)}
+            />
+          </div>
+
+          {renderAmounts(SETTLEMENT_FIELDS)}
+
+          <div className="pt-2 border-t">
+            <h4 className="text-sm font-medium">What It Cost</h4>
+            <p className="text-xs text-muted-foreground">
+              Holding costs paid covers taxes, insurance, utilities and interest paid before the sale.
+            </p>
+          </div>
+
+          {renderAmounts(COST_FIELDS)}
+
+          <div className="space-y-2">
+            <Label htmlFor="closeout_notes">Notes</Label>
+            <Textarea id="closeout_notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <LoadingButton onClick={handleSave} isLoading={saveCloseout.isPending} loadingText="Saving...">
+            <IconCheck className="h-4 w-4" />
+            Save Settlement
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { IconCheck } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { Textarea } from '@/components/ui/textarea';
+import { validateCompInput, type CompFields } from '@/lib/comps';
+import { useProjectCompMutations } from '@/hooks/use-project-comps';
+import { COMP_CONDITION_LABELS, type CompCondition, type ProjectComp } from '@/types';
+
+interface CompDialogProps {
+  projectId: string;
+  /** Comp being edited; null with `open` adds a new one */
+  comp: ProjectComp | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+/**
+ * Add or edit a comparable sale by hand
+ */
+export function CompDialog({ projectId, comp, open, onOpenChange, onSaved }: CompDialogProps) {
+  const { saveComp } = useProjectCompMutations(projectId);
+  const [address, setAddress] = useState('');
+  const [saleDate, setSaleDate] = useState('');
+  const [salePrice, setSalePrice] = useState<number | null>(null);
+  const [sqft, setSqft] = useState('');
+  const [beds, setBeds] = useState('');
+  const [baths, setBaths] = useState('');
+  const [distance, setDistance] = useState('');
+  const [condition, setCondition] = useState<CompCondition>('average');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setAddress(comp?.address ?? '');
+    setSaleDate(comp?.sale_date ?? '');
+    setSalePrice(comp ? Number(comp.sale_price) : null);
+    setSqft(comp ? String(comp.sqft) : '');
+    setBeds(comp?.beds != null ? String(comp.beds) : '');
+    setBaths(comp?.baths != null ? String(comp.baths) : '');
+    setDistance(comp?.distance_miles != null ? String(comp.distance_miles) : '');
+    setCondition(comp?.condition ?? 'average');
+    setNotes(comp?.notes ?? '');
+    setError(null);
+  }, [open, comp]);
+
+  const handleSave = () => {
+    const fields: CompFields = {
+      address: address.trim(),
+      sale_date: saleDate || null,
+      sale_price: salePrice ?? 0,
+      sqft: Math.round(Number(sqft) || 0),
+      beds: beds ? Math.round(Number(beds)) : null,
+      baths: baths ? Number(baths) : null,
+      distance_miles: distance ? Number(distance) : null,
+      condition,
+      is_selected: comp?.is_selected ?? true,
+      notes: notes.trim() || null,
+    };
+
+    const validationError = validateCompInput(fields);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    saveComp.mutate(
+      { id: comp?.id ?? null, data: fields },
+      {
+        onSuccess: () => {
+          onOpenChange(false);
+          onSaved();
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{comp ? 'Edit Comp' : 'New Comp'}</DialogTitle>
+          <DialogDescription>
+            A recent nearby sale. Condition is as sold; comps below renovated are adjusted up.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="comp_address">Address</Label>
+            <Input
+              id="comp_address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              placeholder="123 Oak St"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="comp_price">Sale Price</Label>
+              <CurrencyInput id="comp_price" value={salePrice} onChange={setSalePrice} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="comp_date">Sale Date</Label>
+              <Input id="comp_date" type="date" value={saleDate} onChange={(e) => setSaleDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="comp_sqft">Sq Ft</Label>
+              <Input
+                id="comp_sqft"
+                type="number"
+                min={1}
+                value={sqft}
+                onChange={(e) => setSqft(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="comp_beds">Beds</Label>
+              <Input
+                id="comp_beds"
+                type="number"
+                min={0}
+                value={beds}
+                onChange={(e) => setBeds(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="comp_baths">Baths</Label>
+              <Input
+                id="comp_baths"
+                type="number"
+                step="0.5"
+                min={0}
+                value={baths}
+                onChange={(e) => setBaths(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="comp_distance">Miles</Label>
+              <Input
+                id="comp_distance"
+                type="number"
+                step="0.1"
+                min={0}
+                value={distance}
+                onChange={(e) => setDistance(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm text-muted-foreground">Condition</label>
+            <select
+              value={condition}
+              onChange={(e) => setCondition(e.target.value as CompCondition)}
+              className="w-full mt-1 p-2 rounded border text-sm"
+            >
+              {Object.entries(COMP_CONDITION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="comp_notes">Notes</Label>
+            <Textarea id="comp_notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <LoadingButton onClick={handleSave} isLoading={saveComp.isPending} loadingText="Saving...">
+            <IconCheck className="h-4 w-4" />
+            {comp ? 'Save Comp' : 'Add Comp'}
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
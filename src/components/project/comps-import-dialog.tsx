@@ -0,0 +1,297 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { IconFileSpreadsheet, IconUpload } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  COMP_COLUMN_FIELDS,
+  guessCompColumnMapping,
+  parseCompRows,
+  parseCsv,
+  type CompColumnField,
+  type CompColumnMapping,
+} from '@/lib/comps';
+import { useProjectCompMutations } from '@/hooks/use-project-comps';
+import { COMP_CONDITION_LABELS } from '@/types';
+
+interface CompsImportDialogProps {
+  projectId: string;
+  trigger: React.ReactNode;
+  onImported: () => void;
+}
+
+const columnLetter = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : columnLetter(Math.floor(index / 26) - 1) + columnLetter(index % 26);
+
+/**
+ * Import comps from an MLS export (.csv): confirm the column mapping, pick
+ * the rows, then add them to the project.
+ */
+export function CompsImportDialog({ projectId, trigger, onImported }: CompsImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CompColumnMapping>({});
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { importComps } = useProjectCompMutations(projectId);
+
+  const header = rows[0] ?? [];
+  const columnCount = Math.max(...rows.map((row) => row.length), 0);
+  const missingRequired = COMP_COLUMN_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined);
+
+  const parsed = useMemo(() => parseCompRows(rows, mapping), [rows, mapping]);
+  const selected = parsed.filter((row) => !row.error && !excludedRows.has(row.rowNumber));
+
+  const reset = () => {
+    setFileName('');
+    setRows([]);
+    setMapping({});
+    setExcludedRows(new Set());
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+
+    try {
+      const csvRows = parseCsv(await file.text());
+
+      if (csvRows.length < 2) {
+        toast.error('That file has no sales below the header row');
+        return;
+      }
+
+      setFileName(file.name);
+      setRows(csvRows);
+      setMapping(guessCompColumnMapping(csvRows[0]));
+      setExcludedRows(new Set());
+    } catch (error) {
+      console.error('Error reading comps file:', error);
+      toast.error('Could not read that file. Export it from the MLS as .csv and try again.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const setFieldColumn = (field: CompColumnField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+    setExcludedRows(new Set());
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setExcludedRows((current) => {
+      const next = new Set(current);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    importComps.mutate(
+      selected.map((row) => row.fields),
+      {
+        onSuccess: () => {
+          reset();
+          setOpen(false);
+          onImported();
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <IconFileSpreadsheet className="h-5 w-5" />
+            Import Comps
+          </DialogTitle>
+          <DialogDescription>
+            Load sold listings exported from the MLS (.csv). Columns are matched by their headers; check them before
+            importing. Conditions that aren&apos;t recognized import as Average.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* File */}
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <LoadingButton
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            isLoading={isReading}
+            loadingText="Reading..."
+          >
+            <IconUpload className="h-4 w-4" />
+            {fileName ? 'Choose Another File' : 'Choose File'}
+          </LoadingButton>
+          {fileName && <span className="text-sm text-muted-foreground">{fileName}</span>}
+        </div>
+
+        {rows.length > 0 && (
+          <>
+            {/* Mapping */}
+            <div className="rounded-lg border p-4">
+              <div className="flex flex-wrap gap-3">
+                {COMP_COLUMN_FIELDS.map(({ field, label, required }) => (
+                  <MappingSelect
+                    key={field}
+                    label={required ? `${label} *` : label}
+                    value={mapping[field] === undefined ? '' : String(mapping[field])}
+                    onChange={(v) => setFieldColumn(field, v)}
+                  >
+                    <option value="">{required ? 'Choose a column' : 'Not in file'}</option>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <option key={index} value={index}>
+                        {columnLetter(index)}
+                        {header[index] ? ` - ${header[index]}` : ''}
+                      </option>
+                    ))}
+                  </MappingSelect>
+                ))}
+              </div>
+            </div>
+
+            {/* Preview */}
+            {missingRequired.length > 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Choose the columns for {missingRequired.map(({ label }) => label).join(', ')}.
+              </p>
+            ) : (
+              <div className="rounded-lg border overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="table-header">
+                      <th className="p-3 w-10"></th>
+                      <th className="text-left p-3 w-14">Row</th>
+                      <th className="text-left p-3">Address</th>
+                      <th className="text-left p-3 w-28">Sold</th>
+                      <th className="text-right p-3 w-28">Price</th>
+                      <th className="text-right p-3 w-20">Sq Ft</th>
+                      <th className="text-right p-3 w-20">Bd/Ba</th>
+                      <th className="text-right p-3 w-16">Miles</th>
+                      <th className="text-left p-3 w-28">Condition</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {parsed.map((row) => {
+                      const included = !row.error && !excludedRows.has(row.rowNumber);
+                      return (
+                        <tr key={row.rowNumber} className={cn('border-t', !included && 'text-muted-foreground')}>
+                          <td className="p-3">
+                            <Checkbox
+                              checked={included}
+                              disabled={!!row.error}
+                              onCheckedChange={() => toggleRow(row.rowNumber)}
+                            />
+                          </td>
+                          <td className="p-3 tabular-nums">{row.rowNumber}</td>
+                          <td className="p-3">
+                            <div className="font-medium">{row.fields.address || '-'}</div>
+                            {row.error && <div className="text-xs text-destructive">{row.error}</div>}
+                          </td>
+                          <td className="p-3 tabular-nums">{row.fields.sale_date ?? '-'}</td>
+                          <td className="p-3 text-right tabular-nums">
+                            {row.fields.sale_price > 0 ? formatCurrency(row.fields.sale_price) : '-'}
+                          </td>
+                          <td className="p-3 text-right tabular-nums">
+                            {row.fields.sqft > 0 ? row.fields.sqft.toLocaleString() : '-'}
+                          </td>
+                          <td className="p-3 text-right tabular-nums">
+                            {row.fields.beds ?? '-'}/{row.fields.baths ?? '-'}
+                          </td>
+                          <td className="p-3 text-right tabular-nums">{row.fields.distance_miles ?? '-'}</td>
+                          <td className="p-3">{COMP_CONDITION_LABELS[row.fields.condition]}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Summary */}
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-muted-foreground">
+                {selected.length} of {parsed.length} sale{parsed.length === 1 ? '' : 's'} selected
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setOpen(false)}>
+                  Cancel
+                </Button>
+                <LoadingButton
+                  onClick={handleImport}
+                  disabled={missingRequired.length > 0 || selected.length === 0}
+                  isLoading={importComps.isPending}
+                  loadingText="Importing..."
+                >
+                  Import {selected.length} Comp{selected.length === 1 ? '' : 's'}
+                </LoadingButton>
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MappingSelect({
+  label,
+  value,
+  onChange,
+  children,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <div>
+      <label className="text-sm text-muted-foreground">{label}</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-44 mt-1 p-2 rounded border text-sm block bg-background"
+      >
+        {children}
+      </select>
+    </div>
+  );
+}
@@ -11,35 +11,56 @@ import {
   IconCircleCheck,
   IconChartBar,
   IconInfoCircle,
+  IconDice5,
 } from '@tabler/icons-react';
-import { formatCurrency } from '@/lib/utils';
+import { formatCurrency, getROIColorClass } from '@/lib/utils';
 import { cn } from '@/lib/utils';
+import {
+  analyzeDeal,
+  calculateBreakEvenArv,
+  calculateMaxPurchasePrice,
+  type DealAnalysisInputs,
+} from '@/lib/deal-analysis';
+import { DealSimulation } from '@/components/project/deal-simulation';
+import {
+  DEFAULT_CALCULATION_SETTINGS,
+  MAO_METHOD_LABELS,
+  MAO_METHOD_DESCRIPTIONS,
+  type BudgetCategory,
+  type CalculationSettingsInput,
+} from '@/types';
 
 interface DealCalculatorProps {
   arv: number | null;
   purchasePrice: number | null;
   rehabBudget?: number;
+  /** Rehab budget by category; the risk simulation varies each one */
+  categoryBudgets?: Partial<Record<BudgetCategory, number>>;
   closingCosts: number;
   holdingCostsMonthly: number;
   holdMonths: number;
   sellingCostPercent: number;
   contingencyPercent: number;
+  /** Calculation profile; defaults to the built-in settings */
+  settings?: CalculationSettingsInput;
   className?: string;
 }
 
 /**
- * Render a real-estate deal analysis card showing estimated profit, ROI, MAO (70% rule), sensitivity scenarios, and a cost breakdown.
+ * Render a real-estate deal analysis card showing estimated profit, ROI, MAO, sensitivity scenarios, a risk simulation, and a cost breakdown.
  *
- * Calculates investment metrics from provided inputs and displays status indicators, sensitivity analysis (ARV down, rehab overruns), key thresholds (break-even ARV, max purchase for 20% ROI), and an expandable cost breakdown.
+ * Calculates investment metrics with the shared deal-analysis engine and displays status indicators, sensitivity analysis (ARV down, rehab overruns), key thresholds (break-even ARV, max purchase for 20% ROI), an on-demand Monte Carlo simulation, and an expandable cost breakdown.
  *
  * @param arv - After-repair value (ARV). Use `null` when unknown.
  * @param purchasePrice - Proposed purchase price. Use `null` when unknown.
  * @param rehabBudget - Base rehab budget (defaults to 0).
+ * @param categoryBudgets - Optional rehab budget by category, simulated category by category.
  * @param closingCosts - Estimated closing costs.
  * @param holdingCostsMonthly - Monthly holding cost estimate.
  * @param holdMonths - Number of months the property will be held.
  * @param sellingCostPercent - Selling costs as a percent of ARV.
  * @param contingencyPercent - Contingency percentage applied to the rehab budget.
+ * @param settings - Calculation profile that selects the MAO, ROI, contingency and holding cost methods.
  * @param className - Optional additional CSS class names applied to the root element.
  * @returns A React element that presents the deal metrics UI and related analyses.
  */
@@ -47,88 +68,74 @@ export function DealCalculator({
   arv,
   purchasePrice,
   rehabBudget = 0,
+  categoryBudgets,
   closingCosts,
   holdingCostsMonthly,
   holdMonths,
   sellingCostPercent,
   contingencyPercent,
+  settings = DEFAULT_CALCULATION_SETTINGS,
   className,
 }: DealCalculatorProps) {
-  // Calculate all the deal metrics
-  const calculations = React.useMemo(() => {
-    const arvValue = arv ?? 0;
-    const purchaseValue = purchasePrice ?? 0;
-    const rehabWithContingency = rehabBudget * (1 + contingencyPercent / 100);
-    const holdingCostsTotal = holdingCostsMonthly * holdMonths;
-    const sellingCosts = arvValue * (sellingCostPercent / 100);
-
-    const totalInvestment =
-      purchaseValue + rehabWithContingency + closingCosts + holdingCostsTotal;
+  const [isSimulating, setIsSimulating] = React.useState(false);
 
-    const totalCosts = totalInvestment + sellingCosts;
-    const grossProfit = arvValue - totalCosts;
-    const roi = totalInvestment > 0 ? (grossProfit / totalInvestment) * 100 : 0;
+  const inputs: DealAnalysisInputs = React.useMemo(
+    () => ({
+      arv: arv ?? 0,
+      purchasePrice: purchasePrice ?? 0,
+      rehabBudget,
+      categoryBudgets,
+      closingCosts,
+      holdMonths,
+      holdingCostsMonthly,
+      sellingCostPercent,
+      contingencyPercent,
+    }),
+    [
+      arv,
+      purchasePrice,
+      rehabBudget,
+      categoryBudgets,
+      closingCosts,
+      holdingCostsMonthly,
+      holdMonths,
+      sellingCostPercent,
+      contingencyPercent,
+    ]
+  );
 
-    // MAO = ARV × 70% - Rehab - Closing Costs - Holding Costs
-    const mao70 =
-      arvValue * 0.7 - rehabWithContingency - closingCosts - holdingCostsTotal;
+  // Calculate all the deal metrics
+  const calculations = React.useMemo(() => {
+    const analysis = analyzeDeal(inputs, settings);
+    const purchaseValue = inputs.purchasePrice;
 
     // Spread (difference between purchase and MAO)
-    const spread = purchaseValue > 0 ? mao70 - purchaseValue : null;
+    const spread = purchaseValue > 0 ? analysis.spread : null;
 
     // Deal quality indicators
-    const isGoodDeal = purchaseValue > 0 && purchaseValue <= mao70;
+    const isGoodDeal = purchaseValue > 0 && purchaseValue <= analysis.mao;
 
-    // Sensitivity Analysis calculations
+    // Sensitivity Analysis: rerun the engine with stressed inputs
     const sensitivity = {
       // What if ARV drops?
-      arvDown5: {
-        newArv: arvValue * 0.95,
-        profit: arvValue * 0.95 - (totalCosts - sellingCosts + arvValue * 0.95 * (sellingCostPercent / 100)),
-      },
-      arvDown10: {
-        newArv: arvValue * 0.90,
-        profit: arvValue * 0.90 - (totalCosts - sellingCosts + arvValue * 0.90 * (sellingCostPercent / 100)),
-      },
+      arvDown5: analyzeDeal({ ...inputs, arv: inputs.arv * 0.95 }, settings).grossProfit,
+      arvDown10: analyzeDeal({ ...inputs, arv: inputs.arv * 0.9 }, settings).grossProfit,
       // What if rehab goes over?
-      rehabOver10: {
-        newRehab: rehabWithContingency * 1.10,
-        profit: grossProfit - (rehabWithContingency * 0.10),
-      },
-      rehabOver20: {
-        newRehab: rehabWithContingency * 1.20,
-        profit: grossProfit - (rehabWithContingency * 0.20),
-      },
+      rehabOver10: analyzeDeal({ ...inputs, rehabBudget: rehabBudget * 1.1 }, settings).grossProfit,
+      rehabOver20: analyzeDeal({ ...inputs, rehabBudget: rehabBudget * 1.2 }, settings).grossProfit,
       // Break-even ARV (what ARV do you need to break even?)
-      breakEvenArv: totalInvestment / (1 - sellingCostPercent / 100),
+      breakEvenArv: calculateBreakEvenArv(inputs, settings),
       // Max purchase (what's the most you can pay and hit 20% ROI?)
-      maxPurchaseFor20ROI: arvValue > 0
-        ? (arvValue * (1 - sellingCostPercent / 100) - rehabWithContingency - closingCosts - holdingCostsTotal) / 1.20
-        : 0,
+      maxPurchaseFor20ROI: inputs.arv > 0 ? calculateMaxPurchasePrice(inputs, settings, 20) : 0,
     };
 
     return {
-      totalInvestment,
-      holdingCostsTotal,
-      sellingCosts,
-      grossProfit,
-      roi,
-      mao70,
+      ...analysis,
       spread,
       isGoodDeal,
-      rehabWithContingency,
       sensitivity,
     };
-  }, [
-    arv,
-    purchasePrice,
-    rehabBudget,
-    closingCosts,
-    holdingCostsMonthly,
-    holdMonths,
-    sellingCostPercent,
-    contingencyPercent,
-  ]);
+  }, [inputs, rehabBudget, settings]);
 
   const hasEnoughData = (arv ?? 0) > 0 || (purchasePrice ?? 0) > 0;
 
@@ -152,11 +159,11 @@ export function DealCalculator({
   const {
     grossProfit,
     roi,
-    mao70,
+    mao,
     spread,
     isGoodDeal,
     totalInvestment,
-    holdingCostsTotal,
+    holdingCosts,
     sellingCosts,
     sensitivity,
   } = calculations;
@@ -234,11 +241,7 @@ export function DealCalculator({
           <div
             className={cn(
               'text-2xl font-bold tabular-nums flex items-center gap-1',
-              roi >= 20
-                ? 'text-green-600'
-                : roi >= 10
-                  ? 'text-yellow-600'
-                  : 'text-red-600'
+              getROIColorClass(roi, settings)
             )}
           >
             {roi >= 0 ? (
@@ -254,10 +257,10 @@ export function DealCalculator({
         <div className="space-y-1">
           <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
             <IconTarget className="h-3.5 w-3.5" />
-            MAO (70% Rule)
+            MAO ({MAO_METHOD_LABELS[settings.mao_method]})
           </div>
           <div className="text-lg font-semibold tabular-nums">
-            {formatCurrency(mao70)}
+            {formatCurrency(mao)}
           </div>
         </div>
 
@@ -278,8 +281,8 @@ export function DealCalculator({
           <IconInfoCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
           <span>
             <strong>ROI</strong> shows your return on the cash invested.
-            <strong> MAO</strong> is the maximum you should pay using the 70% rule
-            (ARV × 70% minus all costs).
+            <strong> MAO</strong> is the maximum you should pay.{' '}
+            {MAO_METHOD_DESCRIPTIONS[settings.mao_method]}.
           </span>
         </p>
       </div>
@@ -311,18 +314,18 @@ export function DealCalculator({
                     <div className="text-xs text-muted-foreground">ARV -5%</div>
                     <div className={cn(
                       'text-sm font-semibold tabular-nums',
-                      sensitivity.arvDown5.profit >= 0 ? 'text-green-600' : 'text-red-600'
+                      sensitivity.arvDown5 >= 0 ? 'text-green-600' : 'text-red-600'
                     )}>
-                      {formatCurrency(sensitivity.arvDown5.profit)}
+                      {formatCurrency(sensitivity.arvDown5)}
                     </div>
                   </div>
                   <div className="p-2 rounded bg-muted/50">
                     <div className="text-xs text-muted-foreground">ARV -10%</div>
                     <div className={cn(
                       'text-sm font-semibold tabular-nums',
-                      sensitivity.arvDown10.profit >= 0 ? 'text-green-600' : 'text-red-600'
+                      sensitivity.arvDown10 >= 0 ? 'text-green-600' : 'text-red-600'
                     )}>
-                      {formatCurrency(sensitivity.arvDown10.profit)}
+                      {formatCurrency(sensitivity.arvDown10)}
                     </div>
                   </div>
                 </div>
@@ -339,18 +342,18 @@ export function DealCalculator({
                       <div className="text-xs text-muted-foreground">+10% over</div>
                       <div className={cn(
                         'text-sm font-semibold tabular-nums',
-                        sensitivity.rehabOver10.profit >= 0 ? 'text-green-600' : 'text-red-600'
+                        sensitivity.rehabOver10 >= 0 ? 'text-green-600' : 'text-red-600'
                       )}>
-                        {formatCurrency(sensitivity.rehabOver10.profit)}
+                        {formatCurrency(sensitivity.rehabOver10)}
                       </div>
                     </div>
                     <div className="p-2 rounded bg-muted/50">
                       <div className="text-xs text-muted-foreground">+20% over</div>
                       <div className={cn(
                         'text-sm font-semibold tabular-nums',
-                        sensitivity.rehabOver20.profit >= 0 ? 'text-green-600' : 'text-red-600'
+                        sensitivity.rehabOver20 >= 0 ? 'text-green-600' : 'text-red-600'
                       )}>
-                        {formatCurrency(sensitivity.rehabOver20.profit)}
+                        {formatCurrency(sensitivity.rehabOver20)}
                       </div>
                     </div>
                   </div>
@@ -386,6 +389,24 @@ export function DealCalculator({
         </div>
       )}
 
+      {/* Risk Simulation: runs only while open */}
+      {(arv ?? 0) > 0 && (purchasePrice ?? 0) > 0 && (
+        <div className="border-t">
+          <details className="group" onToggle={(e) => setIsSimulating(e.currentTarget.open)}>
+            <summary className="px-4 py-3 text-sm font-medium cursor-pointer hover:bg-muted/50 flex items-center gap-2">
+              <IconDice5 className="h-4 w-4" />
+              Risk Simulation
+              <span className="text-xs text-muted-foreground font-normal ml-auto group-open:hidden">
+                Click to expand
+              </span>
+            </summary>
+            <div className="px-4 pb-4">
+              {isSimulating && <DealSimulation inputs={inputs} settings={settings} />}
+            </div>
+          </details>
+        </div>
+      )}
+
       {/* Cost Breakdown */}
       <div className="px-4 pb-4 border-t pt-3">
         <details className="group">
@@ -402,7 +423,7 @@ export function DealCalculator({
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">
-                Rehab + {contingencyPercent}% contingency
+                Rehab + {Number(calculations.contingencyPercent.toFixed(1))}% contingency
               </span>
               <span className="tabular-nums">
                 {formatCurrency(calculations.rehabWithContingency)}
@@ -417,12 +438,12 @@ export function DealCalculator({
                 Holding ({holdMonths} mo)
               </span>
               <span className="tabular-nums">
-                {formatCurrency(holdingCostsTotal)}
+                {formatCurrency(holdingCosts)}
               </span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">
-                Selling ({sellingCostPercent}%)
+                Selling ({Number(calculations.sellingCostPercent.toFixed(1))}%)
               </span>
               <span className="tabular-nums">{formatCurrency(sellingCosts)}</span>
             </div>
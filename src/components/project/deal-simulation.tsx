@@ -0,0 +1,206 @@
+'use client';
+
+import * as React from 'react';
+import { IconDice5 } from '@tabler/icons-react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  DEFAULT_SIMULATION_SEED,
+  buildSimulationRanges,
+  runDealSimulation,
+  type HistogramBin,
+} from '@/lib/deal-simulation';
+import type { DealAnalysisInputs } from '@/lib/deal-analysis';
+import { useDealRiskInputs } from '@/hooks/use-deal-simulation';
+import type { CalculationSettingsInput } from '@/types';
+
+interface DealSimulationProps {
+  inputs: DealAnalysisInputs;
+  settings: CalculationSettingsInput;
+}
+
+/** Inputs shown in the tornado chart */
+const TORNADO_LIMIT = 6;
+
+function formatCompact(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: Math.abs(value) >= 1000 ? 'compact' : 'standard',
+    maximumFractionDigits: 1,
+  }).format(value);
+}
+
+function HistogramTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: HistogramBin }> }) {
+  if (!active || !payload?.length) return null;
+
+  const bin = payload[0].payload;
+  return (
+    <div className="bg-popover border rounded-lg shadow-lg p-2 text-xs">
+      <p className="font-medium">
+        {formatCurrency(bin.start)} to {formatCurrency(bin.end)}
+      </p>
+      <p className="text-muted-foreground">{bin.count} trials</p>
+    </div>
+  );
+}
+
+/**
+ * Monte Carlo risk view for the deal calculator: profit histogram, chance
+ * of a loss, ROI percentiles and a tornado chart of the inputs that move
+ * profit most. Ranges come from the cost reference and past closeouts.
+ */
+export function DealSimulation({ inputs, settings }: DealSimulationProps) {
+  const [seed, setSeed] = React.useState(DEFAULT_SIMULATION_SEED);
+  const { data: riskInputs, isLoading } = useDealRiskInputs();
+
+  const simulation = React.useMemo(() => {
+    if (isLoading) return null;
+    const ranges = buildSimulationRanges(inputs, settings, riskInputs ?? {});
+    return runDealSimulation(inputs, settings, ranges, { seed });
+  }, [inputs, settings, riskInputs, isLoading, seed]);
+
+  if (!simulation) {
+    return <p className="text-xs text-muted-foreground">Loading cost reference and deal history...</p>;
+  }
+
+  const histogram = simulation.histogram.map((bin) => ({ ...bin, mid: (bin.start + bin.end) / 2 }));
+  const tornado = simulation.tornado.slice(0, TORNADO_LIMIT).map((bar) => ({
+    ...bar,
+    low: bar.lowProfit - simulation.baseProfit,
+    high: bar.highProfit - simulation.baseProfit,
+  }));
+  const lossPercent = simulation.probabilityOfLoss * 100;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {simulation.trials.toLocaleString()} trials with ARV, rehab by category, hold time and concessions drawn
+          from ranges. Each trial is priced like the deal analysis, contingency and selling costs included.
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="shrink-0"
+          onClick={() => setSeed((current) => current + 1)}
+        >
+          <IconDice5 className="h-4 w-4" />
+          Re-run
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="p-2 rounded bg-muted/50">
+          <div className="text-xs text-muted-foreground">Chance of loss</div>
+          <div
+            className={cn(
+              'text-sm font-semibold tabular-nums',
+              lossPercent >= 20 ? 'text-red-600' : lossPercent >= 5 ? 'text-yellow-600' : 'text-green-600'
+            )}
+          >
+            {lossPercent.toFixed(1)}%
+          </div>
+        </div>
+        <div className="p-2 rounded bg-muted/50">
+          <div className="text-xs text-muted-foreground">Median profit</div>
+          <div
+            className={cn(
+              'text-sm font-semibold tabular-nums',
+              simulation.profit.p50 >= 0 ? 'text-green-600' : 'text-red-600'
+            )}
+          >
+            {formatCurrency(simulation.profit.p50)}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">ROI Range</h4>
+        <div className="grid grid-cols-3 gap-2">
+          {(['p10', 'p50', 'p90'] as const).map((key) => (
+            <div key={key} className="p-2 rounded bg-muted/50">
+              <div className="text-xs text-muted-foreground">{key.toUpperCase()}</div>
+              <div
+                className={cn('text-sm font-semibold tabular-nums', simulation.roi[key] < 0 && 'text-red-600')}
+              >
+                {simulation.roi[key].toFixed(1)}%
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Profit Distribution</h4>
+        <div className="h-[160px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={histogram} barCategoryGap={1}>
+              <XAxis dataKey="mid" tickFormatter={formatCompact} tick={{ fontSize: 10 }} minTickGap={16} />
+              <YAxis hide />
+              <Tooltip content={<HistogramTooltip />} />
+              <Bar dataKey="count" radius={[2, 2, 0, 0]}>
+                {histogram.map((bin) => (
+                  <Cell key={bin.start} fill={bin.mid >= 0 ? '#008000' : '#ef4444'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">What Matters Most</h4>
+        <div style={{ height: tornado.length * 28 + 30 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={tornado} layout="vertical" stackOffset="sign">
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis type="number" tickFormatter={formatCompact} tick={{ fontSize: 10 }} />
+              <YAxis dataKey="label" type="category" width={100} tick={{ fontSize: 10 }} />
+              <Tooltip
+                content={({ active, payload }) => {
+                  if (!active || !payload?.length) return null;
+                  const bar = payload[0].payload as (typeof tornado)[0];
+                  return (
+                    <div className="bg-popover border rounded-lg shadow-lg p-2 text-xs">
+                      <p className="font-medium">{bar.label}</p>
+                      <p className="text-muted-foreground">Low end: {formatCurrency(bar.lowProfit)} profit</p>
+                      <p className="text-muted-foreground">High end: {formatCurrency(bar.highProfit)} profit</p>
+                    </div>
+                  );
+                }}
+              />
+              <ReferenceLine x={0} stroke="#94a3b8" />
+              <Bar dataKey="low" stackId="swing">
+                {tornado.map((bar) => (
+                  <Cell key={bar.key} fill={bar.low >= 0 ? '#008000' : '#ef4444'} />
+                ))}
+              </Bar>
+              <Bar dataKey="high" stackId="swing">
+                {tornado.map((bar) => (
+                  <Cell key={bar.key} fill={bar.high >= 0 ? '#008000' : '#ef4444'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Profit change from {formatCurrency(simulation.baseProfit)} with one input at the ends of its range and the
+          rest at their most likely values.
+        </p>
+      </div>
+    </div>
+  );
+}
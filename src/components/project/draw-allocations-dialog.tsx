@@ -0,0 +1,345 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { IconAlertTriangle, IconCheck } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { cn, formatCurrency } from '@/lib/utils';
+import { getBudgetedAmount } from '@/lib/draw-packet';
+import {
+  calculateRetainage,
+  getDefaultRetainagePercent,
+  getDrawPayment,
+  getOverAllocationAlertLevel,
+} from '@/lib/draw-allocations';
+import { useDrawAllocationMutations } from '@/hooks/use-draw-allocations';
+import {
+  BUDGET_CATEGORIES,
+  type BudgetItem,
+  type CalculationSettingsInput,
+  type Draw,
+  type DrawAllocation,
+  type Vendor,
+} from '@/types';
+
+interface DrawAllocationsDialogProps {
+  projectId: string;
+  /** The draw being allocated; the dialog is open while this is set */
+  draw: Draw | null;
+  draws: Draw[];
+  vendors: Vendor[];
+  budgetItems: BudgetItem[];
+  allocations: DrawAllocation[];
+  /** Variance thresholds used to flag lines drawn past their budget */
+  settings: CalculationSettingsInput;
+  onClose: () => void;
+}
+
+interface AllocationLine {
+  amount: number | '';
+  vendor_id: string | null;
+  retainage_percent: number;
+}
+
+type AlertLevel = 'none' | 'warning' | 'critical';
+
+/**
+ * Split a draw across the budget line items and vendors it pays for.
+ */
+export function DrawAllocationsDialog({
+  projectId,
+  draw,
+  draws,
+  vendors,
+  budgetItems,
+  allocations,
+  settings,
+  onClose,
+}: DrawAllocationsDialogProps) {
+  const { saveAllocations } = useDrawAllocationMutations(projectId);
+  const [lines, setLines] = useState<Record<string, AllocationLine>>({});
+
+  // Load the draw's current allocations when it opens
+  useEffect(() => {
+    if (!draw) return;
+    const current: Record<string, AllocationLine> = {};
+    allocations
+      .filter((a) => a.draw_id === draw.id)
+      .forEach((a) => {
+        current[a.budget_item_id] = {
+          amount: Number(a.amount),
+          vendor_id: a.vendor_id,
+          retainage_percent: Number(a.retainage_percent) || 0,
+        };
+      });
+    setLines(current);
+  }, [draw, allocations]);
+
+  if (!draw) return null;
+
+  const vendorById = new Map(vendors.map((v) => [v.id, v]));
+
+  // New lines pay the line's vendor (or the draw's) at that vendor's retainage
+  const newLine = (item: BudgetItem): AllocationLine => {
+    const vendorId = item.vendor_id || draw.vendor_id;
+    return {
+      amount: '',
+      vendor_id: vendorId,
+      retainage_percent: getDefaultRetainagePercent(draw, vendorId ? vendorById.get(vendorId) : null),
+    };
+  };
+
+  const updateLine = (item: BudgetItem, changes: Partial<AllocationLine>) => {
+    setLines((prev) => ({ ...prev, [item.id]: { ...(prev[item.id] || newLine(item)), ...changes } }));
+  };
+
+  const changeVendor = (item: BudgetItem, vendorId: string | null) => {
+    updateLine(item, {
+      vendor_id: vendorId,
+      retainage_percent: getDefaultRetainagePercent(draw, vendorId ? vendorById.get(vendorId) : null),
+    });
+  };
+
+  // Drawn against each line on other draws
+  const otherDrawn = new Map<string, number>();
+  allocations
+    .filter((a) => a.draw_id !== draw.id)
+    .forEach((a) => {
+      otherDrawn.set(a.budget_item_id, (otherDrawn.get(a.budget_item_id) || 0) + Number(a.amount));
+    });
+
+  const alertLevels = new Map<string, AlertLevel>(
+    budgetItems.map((item) => [
+      item.id,
+      getOverAllocationAlertLevel(
+        getBudgetedAmount(item),
+        (otherDrawn.get(item.id) || 0) + (Number(lines[item.id]?.amount) || 0),
+        settings
+      ),
+    ])
+  );
+  const overBudgetCount = Array.from(alertLevels.values()).filter((level) => level !== 'none').length;
+
+  const entries = Object.entries(lines).map(([budget_item_id, line]) => ({
+    draw_id: draw.id,
+    budget_item_id,
+    vendor_id: line.vendor_id,
+    amount: Number(line.amount) || 0,
+    retainage_percent: line.retainage_percent,
+  }));
+
+  const allocated = entries.reduce((sum, a) => sum + a.amount, 0);
+  const unallocated = draw.amount - allocated;
+  const payment = getDrawPayment(
+    draw,
+    draws,
+    [...allocations.filter((a) => a.draw_id !== draw.id), ...entries]
+  );
+
+  const categories = BUDGET_CATEGORIES.map((cat) => ({
+    ...cat,
+    items: budgetItems.filter((item) => item.category === cat.value),
+  })).filter((cat) => cat.items.length > 0);
+
+  const handleSave = () => {
+    saveAllocations.mutate(
+      {
+        drawId: draw.id,
+        allocations: entries.map(({ budget_item_id, vendor_id, amount, retainage_percent }) => ({
+          budget_item_id,
+          vendor_id,
+          amount,
+          retainage_percent,
+        })),
+      },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Dialog open={!!draw} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Allocate Draw #{draw.draw_number}</DialogTitle>
+          <DialogDescription>
+            Assign this draw&apos;s {formatCurrency(draw.amount)} to the budget line items and vendors it pays
+            for. Once paid, allocations become each line&apos;s actual; a line with no paid allocations keeps the
+            actual entered by hand.{draw.milestone === 'final' && ' This is a final draw, so retainage held from its vendors is released.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-background">
+              <tr className="table-header">
+                <th className="text-left p-3">Line Item</th>
+                <th className="text-right p-3 w-28">Budgeted</th>
+                <th className="text-right p-3 w-28">Other Draws</th>
+                <th className="text-left p-3 w-44">Vendor</th>
+                <th className="text-right p-3 w-24">Retainage %</th>
+                <th className="text-right p-3 w-36">This Draw</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map((cat) => (
+                <CategoryRows
+                  key={cat.value}
+                  label={cat.label}
+                  items={cat.items}
+                  vendors={vendors}
+                  otherDrawn={otherDrawn}
+                  lines={lines}
+                  alertLevels={alertLevels}
+                  newLine={newLine}
+                  onChange={updateLine}
+                  onVendorChange={changeVendor}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            Allocated {formatCurrency(allocated)} of {formatCurrency(draw.amount)}
+            {payment.retainage > 0 && ` · ${formatCurrency(payment.retainage)} retainage held`}
+            {payment.released > 0 && ` · ${formatCurrency(payment.released)} retainage released`}
+            {` · Net ${formatCurrency(payment.net)}`}
+          </span>
+          <span
+            className={cn(
+              'font-medium',
+              Math.abs(unallocated) < 0.01 ? 'text-green-600' : unallocated > 0 ? 'text-yellow-600' : 'text-red-600'
+            )}
+          >
+            {Math.abs(unallocated) < 0.01
+              ? 'Fully allocated'
+              : unallocated > 0
+                ? `${formatCurrency(unallocated)} unallocated`
+                : `${formatCurrency(-unallocated)} over-allocated`}
+          </span>
+        </div>
+
+        {overBudgetCount > 0 && (
+          <div className="flex items-center gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+            <IconAlertTriangle className="h-4 w-4 shrink-0" />
+            {overBudgetCount} line item{overBudgetCount === 1 ? '' : 's'} drawn past budget beyond your variance
+            threshold.
+          </div>
+        )}
+
+        <DialogFooter>
+          <LoadingButton onClick={handleSave} isLoading={saveAllocations.isPending} loadingText="Saving...">
+            <IconCheck className="h-4 w-4" />
+            Save Allocations
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface CategoryRowsProps {
+  label: string;
+  items: BudgetItem[];
+  vendors: Vendor[];
+  otherDrawn: Map<string, number>;
+  lines: Record<string, AllocationLine>;
+  alertLevels: Map<string, AlertLevel>;
+  newLine: (item: BudgetItem) => AllocationLine;
+  onChange: (item: BudgetItem, changes: Partial<AllocationLine>) => void;
+  onVendorChange: (item: BudgetItem, vendorId: string | null) => void;
+}
+
+function CategoryRows({
+  label,
+  items,
+  vendors,
+  otherDrawn,
+  lines,
+  alertLevels,
+  newLine,
+  onChange,
+  onVendorChange,
+}: CategoryRowsProps) {
+  return (
+    <>
+      <tr className="border-t bg-muted/50">
+        <td colSpan={6} className="p-2 px-3 text-xs font-medium uppercase text-muted-foreground">
+          {label}
+        </td>
+      </tr>
+      {items.map((item) => {
+        const line = lines[item.id] || newLine(item);
+        const alertLevel = alertLevels.get(item.id) || 'none';
+        const retainage = calculateRetainage(Number(line.amount) || 0, line.retainage_percent);
+
+        return (
+          <tr key={item.id} className="border-t">
+            <td className="p-3">{item.item}</td>
+            <td className="p-3 text-right text-muted-foreground">{formatCurrency(getBudgetedAmount(item))}</td>
+            <td className="p-3 text-right text-muted-foreground">{formatCurrency(otherDrawn.get(item.id) || 0)}</td>
+            <td className="p-3">
+              <select
+                value={line.vendor_id || ''}
+                onChange={(e) => onVendorChange(item, e.target.value || null)}
+                className="w-40 p-1 rounded border text-sm"
+              >
+                <option value="">No vendor</option>
+                {vendors.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {v.name}
+                  </option>
+                ))}
+              </select>
+            </td>
+            <td className="p-3 text-right">
+              <input
+                type="number"
+                step="0.5"
+                min="0"
+                max="100"
+                value={line.retainage_percent}
+                onChange={(e) => onChange(item, { retainage_percent: Number(e.target.value) || 0 })}
+                className="w-16 p-1 rounded border text-sm text-right"
+              />
+            </td>
+            <td className="p-3 text-right">
+              <div className="flex items-center justify-end gap-1">
+                {alertLevel !== 'none' && (
+                  <IconAlertTriangle
+                    className={cn('h-4 w-4', alertLevel === 'critical' ? 'text-red-600' : 'text-yellow-600')}
+                    aria-label="Drawn past budget"
+                  />
+                )}
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={line.amount}
+                  onChange={(e) => onChange(item, { amount: e.target.value ? Number(e.target.value) : '' })}
+                  placeholder="0.00"
+                  className={cn(
+                    'w-28 p-1 rounded border text-sm text-right',
+                    alertLevel === 'critical' && 'border-red-500',
+                    alertLevel === 'warning' && 'border-yellow-500'
+                  )}
+                />
+              </div>
+              {retainage > 0 && (
+                <div className="text-xs text-muted-foreground mt-1">-{formatCurrency(retainage)} retainage</div>
+              )}
+            </td>
+          </tr>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { IconCopy, IconLink, IconLoader2, IconBan } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { formatDate } from '@/lib/utils';
+import {
+  DEFAULT_DRAW_REQUEST_EXPIRY_DAYS,
+  DRAW_REQUEST_EXPIRY_OPTIONS,
+  getDrawRequestTokenStatus,
+  type DrawRequestTokenStatus,
+} from '@/lib/draw-requests';
+import { useDrawRequestTokenMutations, useDrawRequestTokens } from '@/hooks/use-draw-requests';
+import type { Vendor } from '@/types';
+
+interface DrawRequestLinksDialogProps {
+  projectId: string;
+  vendors: Vendor[];
+  trigger: React.ReactNode;
+}
+
+const STATUS_BADGES: Record<DrawRequestTokenStatus, { label: string; variant: 'active' | 'cancelled' | 'onHold' }> = {
+  active: { label: 'Active', variant: 'active' },
+  expired: { label: 'Expired', variant: 'onHold' },
+  revoked: { label: 'Revoked', variant: 'cancelled' },
+};
+
+/**
+ * Issue and revoke per-vendor links to the public draw request portal.
+ *
+ * A link is shown once, right after it is created: only the token hash is
+ * stored, so a lost link is replaced by issuing a new one.
+ */
+export function DrawRequestLinksDialog({ projectId, vendors, trigger }: DrawRequestLinksDialogProps) {
+  const [vendorId, setVendorId] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState<number>(DEFAULT_DRAW_REQUEST_EXPIRY_DAYS);
+  const [createdLink, setCreatedLink] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useDrawRequestTokens(projectId);
+  const { createToken, revokeToken } = useDrawRequestTokenMutations(projectId);
+
+  const getVendorName = (id: string) => vendors.find((v) => v.id === id)?.name || 'Unknown';
+
+  const handleCreate = () => {
+    if (!vendorId) {
+      toast.error('Select a vendor');
+      return;
+    }
+    createToken.mutate(
+      { vendorId, expiresInDays },
+      {
+        onSuccess: ({ url }) => {
+          setCreatedLink(url);
+          setVendorId('');
+        },
+      }
+    );
+  };
+
+  const handleCopy = (url: string) => {
+    navigator.clipboard.writeText(url);
+    toast.success('Vendor request link copied!');
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setCreatedLink(null)}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <IconLink className="h-5 w-5" />
+            Vendor Request Links
+          </DialogTitle>
+          <DialogDescription>
+            Each link lets one vendor submit draw requests with invoices and lien waivers for this project
+            until it expires or you revoke it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New Link */}
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-3 items-end">
+          <div>
+            <label className="text-sm text-muted-foreground">Vendor</label>
+            <select
+              value={vendorId}
+              onChange={(e) => setVendorId(e.target.value)}
+              className="w-full mt-1 p-2 rounded border text-sm"
+            >
+              <option value="">Select vendor...</option>
+              {vendors.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground">Expires in</label>
+            <select
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              className="w-full mt-1 p-2 rounded border text-sm"
+            >
+              {DRAW_REQUEST_EXPIRY_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days} days
+                </option>
+              ))}
+            </select>
+          </div>
+          <LoadingButton onClick={handleCreate} isLoading={createToken.isPending} loadingText="Creating...">
+            <IconLink className="h-4 w-4" />
+            Create Link
+          </LoadingButton>
+        </div>
+
+        {createdLink && (
+          <div className="rounded-lg border bg-muted/50 p-3 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Copy this link now. It will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={createdLink}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 p-2 rounded border text-xs font-mono bg-background"
+              />
+              <button
+                onClick={() => handleCopy(createdLink)}
+                className="inline-flex items-center gap-2 rounded-lg border px-3 py-2 text-sm font-medium hover:bg-muted transition-colors"
+              >
+                <IconCopy className="h-4 w-4" />
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Issued Links */}
+        <div className="rounded-lg border overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="table-header">
+                <th className="text-left p-3">Vendor</th>
+                <th className="text-center p-3 w-28">Created</th>
+                <th className="text-center p-3 w-28">Expires</th>
+                <th className="text-center p-3 w-28">Last Used</th>
+                <th className="text-center p-3 w-24">Status</th>
+                <th className="text-center p-3 w-16"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="p-6 text-center text-muted-foreground">
+                    <IconLoader2 className="h-4 w-4 animate-spin mx-auto" />
+                  </td>
+                </tr>
+              ) : tokens.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="p-6 text-center text-muted-foreground">
+                    No vendor links issued yet
+                  </td>
+                </tr>
+              ) : (
+                tokens.map((token) => {
+                  const status = getDrawRequestTokenStatus(token);
+                  const badge = STATUS_BADGES[status];
+
+                  return (
+                    <tr key={token.id} className="border-t">
+                      <td className="p-3 font-medium">{getVendorName(token.vendor_id)}</td>
+                      <td className="p-3 text-center text-muted-foreground">{formatDate(token.created_at)}</td>
+                      <td className="p-3 text-center text-muted-foreground">{formatDate(token.expires_at)}</td>
+                      <td className="p-3 text-center text-muted-foreground">{formatDate(token.last_used_at)}</td>
+                      <td className="p-3 text-center">
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </td>
+                      <td className="p-3 text-center">
+                        {status === 'active' && (
+                          <button
+                            onClick={() => revokeToken.mutate(token.id)}
+                            disabled={revokeToken.isPending}
+                            className="p-1 rounded hover:bg-red-100 text-muted-foreground hover:text-red-600 transition-colors disabled:opacity-50"
+                            title="Revoke link"
+                          >
+                            <IconBan className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { IconCheck } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { Textarea } from '@/components/ui/textarea';
+import { validateLoanInput } from '@/lib/financing';
+import { useProjectLoanMutations, type LoanFields } from '@/hooks/use-project-loans';
+import {
+  LOAN_INTEREST_BASIS_LABELS,
+  LOAN_TYPE_LABELS,
+  type LoanInterestBasis,
+  type LoanType,
+  type ProjectLoan,
+} from '@/types';
+
+interface LoanDialogProps {
+  projectId: string;
+  loans: ProjectLoan[];
+  /** Loan being edited; null with `open` adds a new one */
+  loan: ProjectLoan | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+/**
+ * Add or edit a project loan: who lends, how much funds the purchase, how
+ * much is held back for draws, and what it costs.
+ */
+export function LoanDialog({ projectId, loans, loan, open, onOpenChange, onSaved }: LoanDialogProps) {
+  const { createLoan, updateLoan } = useProjectLoanMutations(projectId);
+  const [lenderName, setLenderName] = useState('');
+  const [loanType, setLoanType] = useState<LoanType>('hard_money');
+  const [lienPosition, setLienPosition] = useState('1');
+  const [purchaseAmount, setPurchaseAmount] = useState<number | null>(null);
+  const [rehabHoldback, setRehabHoldback] = useState<number | null>(null);
+  const [interestRate, setInterestRate] = useState('');
+  const [interestBasis, setInterestBasis] = useState<LoanInterestBasis>('drawn_balance');
+  const [points, setPoints] = useState('');
+  const [lenderFees, setLenderFees] = useState<number | null>(null);
+  const [fundedDate, setFundedDate] = useState('');
+  const [termMonths, setTermMonths] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setLenderName(loan?.lender_name ?? '');
+    setLoanType(loan?.loan_type ?? (loans.length > 0 ? 'private' : 'hard_money'));
+    setLienPosition(String(loan?.lien_position ?? loans.length + 1));
+    setPurchaseAmount(loan?.purchase_amount ?? null);
+    setRehabHoldback(loan?.rehab_holdback ?? null);
+    setInterestRate(loan ? String(loan.interest_rate) : '');
+    setInterestBasis(loan?.interest_basis ?? 'drawn_balance');
+    setPoints(loan ? String(loan.points) : '');
+    setLenderFees(loan?.lender_fees ?? null);
+    setFundedDate(loan?.funded_date ?? '');
+    setTermMonths(loan?.term_months ? String(loan.term_months) : '');
+    setNotes(loan?.notes ?? '');
+    setError(null);
+  }, [open, loan, loans.length]);
+
+  const handleSave = () => {
+    const fields: LoanFields = {
+      lender_name: lenderName.trim(),
+      loan_type: loanType,
+      lien_position: Math.max(1, Number(lienPosition) || 1),
+      purchase_amount: purchaseAmount ?? 0,
+      rehab_holdback: rehabHoldback ?? 0,
+      interest_rate: Number(interestRate) || 0,
+      interest_basis: interestBasis,
+      points: Number(points) || 0,
+      lender_fees: lenderFees ?? 0,
+      funded_date: fundedDate || null,
+      term_months: termMonths ? Number(termMonths) : null,
+      notes: notes.trim() || null,
+    };
+
+    const validationError = validateLoanInput(fields);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const onSuccess = () => {
+      onOpenChange(false);
+      onSaved();
+    };
+
+    if (loan) {
+      updateLoan.mutate({ id: loan.id, data: fields }, { onSuccess });
+    } else {
+      const sortOrder = loans.reduce((max, l) => Math.max(max, l.sort_order), -1) + 1;
+      createLoan.mutate({ loan: fields, sortOrder }, { onSuccess });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{loan ? `Edit ${loan.lender_name} Loan` : 'New Loan'}</DialogTitle>
+          <DialogDescription>
+            Interest-only. The rehab holdback is released through draws marked as funded by this loan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="loan_lender">Lender</Label>
+              <Input
+                id="loan_lender"
+                value={lenderName}
+                onChange={(e) => setLenderName(e.target.value)}
+                placeholder="Acme Capital"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground">Type</label>
+              <select
+                value={loanType}
+                onChange={(e) => setLoanType(e.target.value as LoanType)}
+                className="w-full mt-1 p-2 rounded border text-sm"
+              >
+                {Object.entries(LOAN_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="loan_purchase">Purchase Funding</Label>
+              <CurrencyInput id="loan_purchase" value={purchaseAmount} onChange={setPurchaseAmount} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="loan_holdback">Rehab Holdback</Label>
+              <CurrencyInput id="loan_holdback" value={rehabHoldback} onChange={setRehabHoldback} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="loan_rate">Rate (%/yr)</Label>
+              <Input
+                id="loan_rate"
+                type="number"
+                step="0.125"
+                min={0}
+                value={interestRate}
+                onChange={(e) => setInterestRate(e.target.value)}
+                placeholder="12"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="loan_points">Points</Label>
+              <Input
+                id="loan_points"
+                type="number"
+                step="0.25"
+                min={0}
+                value={points}
+                onChange={(e) => setPoints(e.target.value)}
+                placeholder="2"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="loan_fees">Lender Fees</Label>
+              <CurrencyInput id="loan_fees" value={lenderFees} onChange={setLenderFees} />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm text-muted-foreground">Interest Charged On</label>
+            <select
+              value={interestBasis}
+              onChange={(e) => setInterestBasis(e.target.value as LoanInterestBasis)}
+              className="w-full mt-1 p-2 rounded border text-sm"
+            >
+              {Object.entries(LOAN_INTEREST_BASIS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="loan_funded">Funded</Label>
+              <Input
+                id="loan_funded"
+                type="date"
+                value={fundedDate}
+                onChange={(e) => setFundedDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="loan_term">Term (months)</Label>
+              <Input
+                id="loan_term"
+                type="number"
+                min={1}
+                value={termMonths}
+                onChange={(e) => setTermMonths(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="loan_lien">Lien Position</Label>
+              <Input
+                id="loan_lien"
+                type="number"
+                min={1}
+                value={lienPosition}
+                onChange={(e) => setLienPosition(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="loan_notes">Notes</Label>
+            <Textarea id="loan_notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <LoadingButton
+            onClick={handleSave}
+            isLoading={createLoan.isPending || updateLoan.isPending}
+            loadingText="Saving..."
+          >
+            <IconCheck className="h-4 w-4" />
+            {loan ? 'Save Loan' : 'Add Loan'}
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,8 @@ import { useDropzone } from 'react-dropzone';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { getSupabaseClient } from '@/lib/supabase/client';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability, getWorkspaceErrorMessage, hasCapability } from '@/lib/workspaces';
 import type { LineItemPhoto, PhotoType, BudgetItem } from '@/types';
 import { cn, formatCurrency } from '@/lib/utils';
 import {
@@ -54,6 +56,7 @@ const PHOTO_TYPE_LABELS: Record<PhotoType, string> = {
 
 export function PhotoGallery({ projectId, budgetItem, onClose }: PhotoGalleryProps) {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
   const [selectedPhotoType, setSelectedPhotoType] = useState<PhotoType>('receipt');
   const [uploading, setUploading] = useState(false);
   const [photoToDelete, setPhotoToDelete] = useState<LineItemPhoto | null>(null);
@@ -89,6 +92,9 @@ export function PhotoGallery({ projectId, budgetItem, onClose }: PhotoGalleryPro
   // Upload mutation
   const uploadMutation = useMutation({
     mutationFn: async ({ file, photoType }: { file: File; photoType: PhotoType }) => {
+      // Bookkeepers can attach photos (receipts, progress) without editing the budget
+      if (!hasCapability(role, 'edit_projects')) assertCapability(role, 'manage_draws');
+
       const supabase = getSupabaseClient();
 
       // Generate unique filename
@@ -131,13 +137,16 @@ export function PhotoGallery({ projectId, budgetItem, onClose }: PhotoGalleryPro
     },
     onError: (error) => {
       console.error('Upload error:', error);
-      toast.error('Failed to upload photo');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to upload photo'));
     },
   });
 
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: async (photo: LineItemPhoto) => {
+      // Bookkeepers can attach photos (receipts, progress) without editing the budget
+      if (!hasCapability(role, 'edit_projects')) assertCapability(role, 'manage_draws');
+
       const supabase = getSupabaseClient();
 
       // Delete from storage
@@ -162,7 +171,7 @@ export function PhotoGallery({ projectId, budgetItem, onClose }: PhotoGalleryPro
     },
     onError: (error) => {
       console.error('Delete error:', error);
-      toast.error('Failed to delete photo');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete photo'));
     },
   });
 
@@ -50,6 +50,7 @@ import {
 import { usePlacesAutocomplete } from '@/hooks/use-places-autocomplete';
 import { DealCalculator } from '@/components/project/deal-calculator';
 import { RehabEstimator } from '@/components/project/rehab-estimator';
+import { useProjectCalculationSettings } from '@/hooks/use-calculation-settings';
 import {
   projectFormSchema,
   projectFormDefaults,
@@ -61,6 +62,7 @@ import {
 import { cn } from '@/lib/utils';
 import { ValidationSummary, type ValidationItem } from '@/components/ui/validation-summary';
 import { FieldHint } from '@/components/ui/field-hint';
+import type { BudgetCategory } from '@/types';
 
 interface ProjectFormProps {
   defaultValues?: Partial<ProjectFormValues>;
@@ -69,6 +71,12 @@ interface ProjectFormProps {
   isSubmitting?: boolean;
   submitLabel?: string;
   mode?: 'create' | 'edit';
+  /** The project's calculation profile (`null` uses the default profile) */
+  calculationSettingsId?: string | null;
+  /** The project's owner, whose default profile applies; omitted for a new project */
+  ownerId?: string | null;
+  /** Underwriting rehab budget by category, for the DealCalculator */
+  categoryBudgets?: Partial<Record<BudgetCategory, number>>;
 }
 
 /**
@@ -85,6 +93,9 @@ interface ProjectFormProps {
  * @param isSubmitting - When true, disables actions and shows the submitting state on the submit button.
  * @param submitLabel - Text to display in the submit button.
  * @param mode - Form mode; `'create'` configures defaults and auto-fill behavior for new projects, `'edit'` for existing projects.
+ * @param calculationSettingsId - Calculation profile the DealCalculator uses; omitted or `null` falls back to the default profile.
+ * @param ownerId - Project owner whose default profile applies; omitted uses the current user's default.
+ * @param categoryBudgets - Existing project's underwriting budget by category; the DealCalculator includes it as the rehab budget.
  * @returns The ProjectForm React element.
  */
 export function ProjectForm({
@@ -94,8 +105,15 @@ export function ProjectForm({
   isSubmitting = false,
   submitLabel = 'Save Project',
   mode = 'create',
+  calculationSettingsId = null,
+  ownerId,
+  categoryBudgets,
 }: ProjectFormProps) {
   const addressInputRef = React.useRef<HTMLInputElement>(null);
+  const { settings: calculationSettings } = useProjectCalculationSettings({
+    calculation_settings_id: calculationSettingsId,
+    user_id: ownerId ?? undefined,
+  });
   const [showAdvanced, setShowAdvanced] = React.useState(
     mode === 'edit' // Show advanced by default in edit mode
   );
@@ -129,6 +147,11 @@ export function ProjectForm({
 
   const [arv, purchasePrice, closingCosts, holdingCostsMonthly, holdMonths, sellingCostPercent, contingencyPercent, sqft, yearBuilt] = watchedValues;
 
+  const rehabBudget = React.useMemo(
+    () => Object.values(categoryBudgets ?? {}).reduce((sum, amount) => sum + (amount ?? 0), 0),
+    [categoryBudgets]
+  );
+
   // Google Places Autocomplete integration
   usePlacesAutocomplete({
     inputRef: addressInputRef,
@@ -421,11 +444,14 @@ export function ProjectForm({
                   <DealCalculator
                     arv={arv}
                     purchasePrice={purchasePrice}
+                    rehabBudget={rehabBudget}
+                    categoryBudgets={categoryBudgets}
                     closingCosts={closingCosts}
                     holdingCostsMonthly={holdingCostsMonthly}
                     holdMonths={holdMonths}
                     sellingCostPercent={sellingCostPercent}
                     contingencyPercent={contingencyPercent}
+                    settings={calculationSettings}
                   />
                   <RehabEstimator
                     sqft={sqft}
@@ -858,11 +884,14 @@ export function ProjectForm({
               <DealCalculator
                 arv={arv}
                 purchasePrice={purchasePrice}
+                rehabBudget={rehabBudget}
+                categoryBudgets={categoryBudgets}
                 closingCosts={closingCosts}
                 holdingCostsMonthly={holdingCostsMonthly}
                 holdMonths={holdMonths}
                 sellingCostPercent={sellingCostPercent}
                 contingencyPercent={contingencyPercent}
+                settings={calculationSettings}
               />
               <RehabEstimator
                 sqft={sqft}
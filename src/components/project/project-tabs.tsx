@@ -1,13 +1,21 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import type { Project, BudgetItem, Vendor, Draw, CostReference, ProjectSummary } from '@/types';
+import type { Project, BudgetItem, Vendor, Draw, CostReference, ProjectLoan, ProjectCloseout, ProjectComp } from '@/types';
 import { DealSummaryTab } from './tabs/deal-summary-tab';
 import { BudgetDetailTab } from './tabs/budget-detail-tab';
 import { VendorsTab } from './tabs/vendors-tab';
 import { DrawsTab } from './tabs/draws-tab';
+import { CompsTab } from './tabs/comps-tab';
+import { FinancingTab } from './tabs/financing-tab';
+import { CloseoutTab } from './tabs/closeout-tab';
+import { BidsTab } from './tabs/bids-tab';
+import { ChangeOrdersTab } from './tabs/change-orders-tab';
+import { ScheduleTab } from './tabs/schedule-tab';
 import { CostReferenceTab } from './tabs/cost-reference-tab';
+import { ActivityTab } from './tabs/activity-tab';
 import { ExportDialog } from '@/components/pdf/export-dialog';
+import { ShareLinksDialog } from './share-links-dialog';
 import { ErrorBoundary, CompactErrorFallback } from '@/components/error-boundary';
 import {
   IconReportMoney,
@@ -16,26 +24,60 @@ import {
   IconCash,
   IconBook,
   IconFileTypePdf,
+  IconGavel,
+  IconShare,
+  IconActivity,
+  IconFileDiff,
+  IconTimeline,
+  IconBuildingBank,
+  IconFlagCheck,
+  IconHomeSearch,
 } from '@tabler/icons-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { analyzeProject, buildProjectSummary } from '@/lib/deal-analysis';
+import { calculateProjectFinancing } from '@/lib/financing';
+import { getCompAdjustments, valueFromComps } from '@/lib/comps';
+import { useProjectCalculationSettings } from '@/hooks/use-calculation-settings';
 
 interface ProjectTabsProps {
   project: Project;
   budgetItems: BudgetItem[];
   vendors: Vendor[];
   draws: Draw[];
+  loans: ProjectLoan[];
+  closeout: ProjectCloseout | null;
+  comps: ProjectComp[];
   costReference: CostReference[];
 }
 
-type TabId = 'summary' | 'budget' | 'vendors' | 'draws' | 'costs';
+type TabId =
+  | 'summary'
+  | 'comps'
+  | 'budget'
+  | 'schedule'
+  | 'vendors'
+  | 'bids'
+  | 'changes'
+  | 'draws'
+  | 'financing'
+  | 'closeout'
+  | 'costs'
+  | 'activity';
 
 const TABS: { id: TabId; label: string; icon: typeof IconReportMoney }[] = [
   { id: 'summary', label: 'Deal Summary', icon: IconReportMoney },
+  { id: 'comps', label: 'Comps', icon: IconHomeSearch },
   { id: 'budget', label: 'Budget Detail', icon: IconListDetails },
+  { id: 'schedule', label: 'Schedule', icon: IconTimeline },
   { id: 'vendors', label: 'Vendors', icon: IconUsers },
+  { id: 'bids', label: 'Bids', icon: IconGavel },
+  { id: 'changes', label: 'Change Orders', icon: IconFileDiff },
   { id: 'draws', label: 'Draws', icon: IconCash },
+  { id: 'financing', label: 'Financing', icon: IconBuildingBank },
+  { id: 'closeout', label: 'Closeout', icon: IconFlagCheck },
   { id: 'costs', label: 'Cost Reference', icon: IconBook },
+  { id: 'activity', label: 'Activity', icon: IconActivity },
 ];
 
 export function ProjectTabs({
@@ -43,43 +85,19 @@ export function ProjectTabs({
   budgetItems,
   vendors,
   draws,
+  loans,
+  closeout,
+  comps,
   costReference,
 }: ProjectTabsProps) {
   const [activeTab, setActiveTab] = useState<TabId>('summary');
+  const { settings } = useProjectCalculationSettings(project);
 
-  // Calculate budget totals (using forecast if available, otherwise underwriting)
-  const totalUnderwriting = budgetItems.reduce((sum, item) => sum + (item.underwriting_amount || 0), 0);
-  const totalForecast = budgetItems.reduce((sum, item) => sum + (item.forecast_amount || 0), 0);
-  const totalActual = budgetItems.reduce((sum, item) => sum + (item.actual_amount || 0), 0);
-  const totalBudget = totalForecast > 0 ? totalForecast : totalUnderwriting;
-  const contingencyAmount = totalBudget * (project.contingency_percent / 100);
-  const totalBudgetWithContingency = totalBudget + contingencyAmount;
-
-  // Construct ProjectSummary for PDF export
-  const holdingCostsTotal = project.holding_costs_monthly * project.hold_months;
-  const sellingCosts = (project.arv || 0) * (project.selling_cost_percent / 100);
-  const totalInvestment = (project.purchase_price || 0) + project.closing_costs + holdingCostsTotal + totalBudgetWithContingency;
-  const grossProfit = (project.arv || 0) - sellingCosts - totalInvestment;
-  const mao = (project.arv || 0) - sellingCosts - holdingCostsTotal - totalBudgetWithContingency - grossProfit;
-
-  const projectSummary: ProjectSummary = {
-    ...project,
-    underwriting_total: totalUnderwriting,
-    forecast_total: totalForecast,
-    actual_total: totalActual,
-    rehab_budget: totalBudget,
-    rehab_actual: totalActual,
-    contingency_amount: contingencyAmount,
-    rehab_budget_with_contingency: totalBudgetWithContingency,
-    selling_costs: sellingCosts,
-    holding_costs_total: holdingCostsTotal,
-    total_investment: totalInvestment,
-    gross_profit: grossProfit,
-    mao: mao,
-    total_items: budgetItems.length,
-    completed_items: budgetItems.filter((item) => item.status === 'complete').length,
-    in_progress_items: budgetItems.filter((item) => item.status === 'in_progress').length,
-  };
+  // Underwriting / forecast / actual scenarios plus the project_summary row for PDF export
+  const financing = calculateProjectFinancing(project, loans, draws);
+  const analysis = analyzeProject(project, budgetItems, settings, financing);
+  const projectSummary = buildProjectSummary(project, budgetItems, settings, financing);
+  const compsValuation = valueFromComps(project, comps, getCompAdjustments(project));
 
   return (
     <div>
@@ -109,17 +127,27 @@ export function ProjectTabs({
           })}
           </nav>
 
-          {/* Export Button */}
-          <div className="mb-px">
+          {/* Share and Export Buttons */}
+          <div className="mb-px flex items-center gap-2">
+            <ShareLinksDialog
+              projectId={project.id}
+              trigger={
+                <Button variant="outline" size="sm">
+                  <IconShare className="h-4 w-4 mr-2" />
+                  Share
+                </Button>
+              }
+            />
             <ExportDialog
               project={projectSummary}
+              settings={settings}
               budgetItems={budgetItems}
               draws={draws}
               vendors={vendors}
               trigger={
                 <Button variant="outline" size="sm">
                   <IconFileTypePdf className="h-4 w-4 mr-2" />
-                  Export PDF
+                  Export
                 </Button>
               }
             />
@@ -137,13 +165,21 @@ export function ProjectTabs({
           >
             <DealSummaryTab
               project={project}
-              underwritingTotal={totalUnderwriting}
-              forecastTotal={totalForecast}
-              actualTotal={totalActual}
-              contingencyPercent={project.contingency_percent}
+              analysis={analysis}
+              compsValuation={compsValuation}
             />
           </ErrorBoundary>
         )}
+
+        {activeTab === 'comps' && (
+          <ErrorBoundary
+            fallbackTitle="Comps Error"
+            fallbackDescription="Failed to load comparable sales. Please try again."
+            showBackButton={false}
+          >
+            <CompsTab project={project} comps={comps} valuation={compsValuation} />
+          </ErrorBoundary>
+        )}
         
         {activeTab === 'budget' && (
           <ErrorBoundary
@@ -153,12 +189,24 @@ export function ProjectTabs({
           >
             <BudgetDetailTab
               projectId={project.id}
+              project={project}
               budgetItems={budgetItems}
               vendors={vendors}
               contingencyPercent={project.contingency_percent}
+              settings={settings}
             />
           </ErrorBoundary>
         )}
+
+        {activeTab === 'schedule' && (
+          <ErrorBoundary
+            fallbackTitle="Schedule Error"
+            fallbackDescription="Failed to load the schedule. Please try again."
+            showBackButton={false}
+          >
+            <ScheduleTab project={project} budgetItems={budgetItems} vendors={vendors} />
+          </ErrorBoundary>
+        )}
         
         {activeTab === 'vendors' && (
           <ErrorBoundary
@@ -174,6 +222,35 @@ export function ProjectTabs({
           </ErrorBoundary>
         )}
         
+        {activeTab === 'bids' && (
+          <ErrorBoundary
+            fallbackTitle="Bids Error"
+            fallbackDescription="Failed to load bids. Please try again."
+            showBackButton={false}
+          >
+            <BidsTab
+              projectId={project.id}
+              budgetItems={budgetItems}
+              vendors={vendors}
+            />
+          </ErrorBoundary>
+        )}
+
+        {activeTab === 'changes' && (
+          <ErrorBoundary
+            fallbackTitle="Change Orders Error"
+            fallbackDescription="Failed to load change orders. Please try again."
+            showBackButton={false}
+          >
+            <ChangeOrdersTab
+              projectId={project.id}
+              projectName={project.name}
+              budgetItems={budgetItems}
+              vendors={vendors}
+            />
+          </ErrorBoundary>
+        )}
+        
         {activeTab === 'draws' && (
           <ErrorBoundary
             fallbackTitle="Draws Error"
@@ -181,13 +258,36 @@ export function ProjectTabs({
             showBackButton={false}
           >
             <DrawsTab
-              projectId={project.id}
+              project={projectSummary}
               draws={draws}
               vendors={vendors}
-              totalBudget={totalBudgetWithContingency}
+              budgetItems={budgetItems}
+              totalBudget={analysis.primary.rehabWithContingency}
+              settings={settings}
+              loans={loans}
             />
           </ErrorBoundary>
         )}
+
+        {activeTab === 'financing' && (
+          <ErrorBoundary
+            fallbackTitle="Financing Error"
+            fallbackDescription="Failed to load financing. Please try again."
+            showBackButton={false}
+          >
+            <FinancingTab projectId={project.id} loans={loans} financing={financing} />
+          </ErrorBoundary>
+        )}
+
+        {activeTab === 'closeout' && (
+          <ErrorBoundary
+            fallbackTitle="Closeout Error"
+            fallbackDescription="Failed to load the closeout. Please try again."
+            showBackButton={false}
+          >
+            <CloseoutTab project={project} analysis={analysis} settings={settings} closeout={closeout} />
+          </ErrorBoundary>
+        )}
         
         {activeTab === 'costs' && (
           <ErrorBoundary
@@ -198,6 +298,21 @@ export function ProjectTabs({
             <CostReferenceTab costReference={costReference} />
           </ErrorBoundary>
         )}
+
+        {activeTab === 'activity' && (
+          <ErrorBoundary
+            fallbackTitle="Activity Error"
+            fallbackDescription="Failed to load project activity. Please try again."
+            showBackButton={false}
+          >
+            <ActivityTab
+              projectId={project.id}
+              budgetItems={budgetItems}
+              draws={draws}
+              vendors={vendors}
+            />
+          </ErrorBoundary>
+        )}
       </div>
     </div>
   );
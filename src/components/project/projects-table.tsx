@@ -125,7 +125,7 @@ export function ProjectsTable({ projects }: ProjectsTableProps) {
         const project = row.original
         const roi =
           project.total_investment > 0
-            ? ((project.gross_profit / project.total_investment) * 100).toFixed(1)
+            ? Number(project.roi).toFixed(1)
             : '—'
         return (
           <div className="text-right font-medium tabular-nums">
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { IconArrowRight, IconHistory, IconLoader2 } from '@tabler/icons-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { useRecordHistory } from '@/hooks/use-audit-log';
+import {
+  getAuditActorName,
+  getAuditFieldDiffs,
+  type AuditValueContext,
+} from '@/lib/audit-log';
+import { AUDIT_ACTION_LABELS, type AuditLogEntry, type AuditTable } from '@/types';
+
+interface AuditEntryChangesProps {
+  entry: AuditLogEntry;
+  context?: AuditValueContext;
+}
+
+/**
+ * Field-level before/after values of one audit entry. Inserts and deletes
+ * only show the side that had values.
+ */
+export function AuditEntryChanges({ entry, context }: AuditEntryChangesProps) {
+  const diffs = getAuditFieldDiffs(entry, context);
+  if (diffs.length === 0) return null;
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+      {diffs.map((diff) => (
+        <div key={diff.field} className="contents">
+          <dt className="text-muted-foreground">{diff.label}</dt>
+          <dd className="flex items-center gap-1 min-w-0 tabular-nums">
+            {entry.action === 'update' ? (
+              <>
+                <span className="truncate text-muted-foreground line-through">{diff.before}</span>
+                <IconArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                <span className="truncate">{diff.after}</span>
+              </>
+            ) : (
+              <span className="truncate">{entry.action === 'insert' ? diff.after : diff.before}</span>
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+interface RecordHistoryPopoverProps {
+  table: AuditTable;
+  recordId: string;
+  title: string;
+  context?: AuditValueContext;
+  triggerClassName?: string;
+}
+
+/**
+ * History button for a budget row or draw. The history is fetched when the
+ * popover opens.
+ */
+export function RecordHistoryPopover({ table, recordId, title, context, triggerClassName }: RecordHistoryPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const { data: entries = [], isLoading } = useRecordHistory(table, recordId, open);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors',
+            triggerClassName
+          )}
+          title="History"
+        >
+          <IconHistory className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="border-b px-4 py-3">
+          <p className="text-sm font-medium">History</p>
+          <p className="text-xs text-muted-foreground truncate">{title}</p>
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          {isLoading ? (
+            <div className="p-6 text-center text-muted-foreground">
+              <IconLoader2 className="h-4 w-4 animate-spin mx-auto" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">No recorded changes yet</p>
+          ) : (
+            <ol className="divide-y">
+              {entries.map((entry) => (
+                <li key={entry.id} className="px-4 py-3 space-y-2">
+                  <div className="flex items-baseline justify-between gap-2 text-xs">
+                    <span>
+                      <span className="font-medium">{getAuditActorName(entry)}</span>{' '}
+                      <span className="text-muted-foreground">{AUDIT_ACTION_LABELS[entry.action].toLowerCase()}</span>
+                    </span>
+                    <span className="text-muted-foreground shrink-0">
+                      {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
+                    </span>
+                  </div>
+                  <AuditEntryChanges entry={entry} context={context} />
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
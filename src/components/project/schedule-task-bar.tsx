@@ -0,0 +1,82 @@
+'use client';
+
+import { useRef, useState, type PointerEvent } from 'react';
+import { cn } from '@/lib/utils';
+
+interface ScheduleTaskBarProps {
+  label: string;
+  title: string;
+  left: number;
+  width: number;
+  /** Horizontal scale, used to snap drags to whole days */
+  pxPerDay: number;
+  isCritical: boolean;
+  isCompleted: boolean;
+  /** Omit to make the bar read-only */
+  onMove?: (deltaDays: number) => void;
+}
+
+/**
+ * A schedule task on a Gantt row. Dragging it sideways snaps to whole days
+ * and reports how many days it moved when released.
+ */
+export function ScheduleTaskBar({
+  label,
+  title,
+  left,
+  width,
+  pxPerDay,
+  isCritical,
+  isCompleted,
+  onMove,
+}: ScheduleTaskBarProps) {
+  const dragStart = useRef<number | null>(null);
+  const [deltaDays, setDeltaDays] = useState(0);
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (!onMove || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = e.clientX;
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (dragStart.current === null) return;
+    setDeltaDays(Math.round((e.clientX - dragStart.current) / pxPerDay));
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (dragStart.current === null) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    dragStart.current = null;
+    if (deltaDays !== 0) onMove?.(deltaDays);
+    setDeltaDays(0);
+  };
+
+  return (
+    <div
+      role={onMove ? 'slider' : undefined}
+      aria-label={onMove ? `Reschedule ${label}` : undefined}
+      className={cn(
+        'absolute top-1/2 -translate-y-1/2 h-6 rounded select-none touch-none',
+        isCompleted ? 'bg-green-600' : isCritical ? 'bg-red-500' : 'bg-sky-500',
+        onMove && 'cursor-grab active:cursor-grabbing',
+        deltaDays !== 0 && 'ring-2 ring-offset-1 ring-primary opacity-80'
+      )}
+      style={{ left: left + deltaDays * pxPerDay, width: Math.max(width, 6) }}
+      title={deltaDays !== 0 ? `${title} (${deltaDays > 0 ? '+' : ''}${deltaDays}d)` : title}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        dragStart.current = null;
+        setDeltaDays(0);
+      }}
+    >
+      {width > 60 && (
+        <span className="absolute inset-0 flex items-center px-2 text-xs font-medium text-white truncate">
+          {label}
+        </span>
+      )}
+    </div>
+  );
+}
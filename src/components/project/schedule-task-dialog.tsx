@@ -0,0 +1,237 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { IconCheck } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { wouldCreateCycle } from '@/lib/schedule';
+import { useScheduleMutations } from '@/hooks/use-schedule';
+import {
+  BUDGET_CATEGORIES,
+  type BudgetCategory,
+  type ScheduleTask,
+  type ScheduleTaskDependency,
+  type Vendor,
+} from '@/types';
+
+interface ScheduleTaskDialogProps {
+  projectId: string;
+  anchorDate: string;
+  tasks: ScheduleTask[];
+  dependencies: ScheduleTaskDependency[];
+  vendors: Vendor[];
+  /** Task being edited; null with `open` adds a new one */
+  task: ScheduleTask | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Add or edit a schedule task: its trade, vendor, duration and the tasks
+ * that must finish before it starts.
+ */
+export function ScheduleTaskDialog({
+  projectId,
+  anchorDate,
+  tasks,
+  dependencies,
+  vendors,
+  task,
+  open,
+  onOpenChange,
+}: ScheduleTaskDialogProps) {
+  const { createTask, updateTask } = useScheduleMutations(projectId, anchorDate);
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState('');
+  const [vendorId, setVendorId] = useState('');
+  const [durationDays, setDurationDays] = useState('1');
+  const [startDate, setStartDate] = useState('');
+  const [predecessorIds, setPredecessorIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(task?.name ?? '');
+    setCategory(task?.category ?? '');
+    setVendorId(task?.vendor_id ?? '');
+    setDurationDays(String(task?.duration_days ?? 1));
+    setStartDate(task?.start_date ?? '');
+    setPredecessorIds(task ? dependencies.filter((d) => d.task_id === task.id).map((d) => d.predecessor_id) : []);
+    setError(null);
+  }, [open, task, dependencies]);
+
+  const otherTasks = tasks.filter((t) => t.id !== task?.id);
+  const activeVendors = vendors.filter((v) => v.status !== 'do_not_use' || v.id === vendorId);
+
+  // The task's links as currently checked, in place of the saved ones
+  const pendingDependencies = task
+    ? [
+        ...dependencies.filter((d) => d.task_id !== task.id),
+        ...predecessorIds.map((id) => ({ task_id: task.id, predecessor_id: id })),
+      ]
+    : dependencies;
+
+  const togglePredecessor = (id: string) => {
+    setPredecessorIds((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]));
+  };
+
+  const handleSave = () => {
+    const duration = Number(durationDays);
+    if (!name.trim()) {
+      setError('Name the task');
+      return;
+    }
+    if (!Number.isInteger(duration) || duration < 1) {
+      setError('Duration must be at least one day');
+      return;
+    }
+
+    const params = {
+      name: name.trim(),
+      category: (category || null) as BudgetCategory | null,
+      vendorId: vendorId || null,
+      durationDays: duration,
+      startDate: startDate || null,
+      predecessorIds,
+    };
+
+    if (task) {
+      updateTask.mutate(
+        { taskId: task.id, ...params },
+        { onSuccess: () => onOpenChange(false) }
+      );
+    } else {
+      const sortOrder = tasks.reduce((max, t) => Math.max(max, t.sort_order), -1) + 1;
+      createTask.mutate({ ...params, sortOrder }, { onSuccess: () => onOpenChange(false) });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{task ? `Edit ${task.name}` : 'New Task'}</DialogTitle>
+          <DialogDescription>
+            A task starts on its start date or the day after its last predecessor finishes, whichever is later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="schedule_task_name">Task</Label>
+            <Input
+              id="schedule_task_name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Rough-in plumbing"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm text-muted-foreground">Budget Category</label>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="w-full mt-1 p-2 rounded border text-sm"
+              >
+                <option value="">None</option>
+                {BUDGET_CATEGORIES.map((cat) => (
+                  <option key={cat.value} value={cat.value}>
+                    {cat.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground">Vendor</label>
+              <select
+                value={vendorId}
+                onChange={(e) => setVendorId(e.target.value)}
+                className="w-full mt-1 p-2 rounded border text-sm"
+              >
+                <option value="">No vendor</option>
+                {activeVendors.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>
+                    {vendor.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule_task_duration">Duration (days)</Label>
+              <Input
+                id="schedule_task_duration"
+                type="number"
+                min={1}
+                value={durationDays}
+                onChange={(e) => setDurationDays(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule_task_start">Start</Label>
+              <Input
+                id="schedule_task_start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {otherTasks.length > 0 && (
+            <div>
+              <p className="text-sm text-muted-foreground mb-2">Starts after</p>
+              <div className="rounded-lg border divide-y max-h-48 overflow-y-auto">
+                {otherTasks.map((other) => {
+                  const checked = predecessorIds.includes(other.id);
+                  const blocked = !!task && !checked && wouldCreateCycle(pendingDependencies, task.id, other.id);
+                  return (
+                    <label
+                      key={other.id}
+                      className="flex items-center gap-2 px-3 py-2 text-sm"
+                      title={blocked ? `${other.name} already comes after this task` : undefined}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        disabled={blocked}
+                        onChange={() => togglePredecessor(other.id)}
+                      />
+                      <span className={blocked ? 'text-muted-foreground' : undefined}>{other.name}</span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <LoadingButton
+            onClick={handleSave}
+            isLoading={createTask.isPending || updateTask.isPending}
+            loadingText="Saving..."
+          >
+            <IconCheck className="h-4 w-4" />
+            {task ? 'Save Task' : 'Add Task'}
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,368 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { IconBan, IconCopy, IconEye, IconLoader2, IconPencil, IconShare } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { cn, formatDate } from '@/lib/utils';
+import {
+  DEFAULT_SHARE_BUDGET_COLUMNS,
+  DEFAULT_SHARE_LINK_EXPIRY_DAYS,
+  PROJECT_SHARE_BUDGET_COLUMNS,
+  PROJECT_SHARE_SECTIONS,
+  SHARE_LINK_EXPIRY_OPTIONS,
+  getShareLinkStatus,
+  validateShareLinkInput,
+  type ShareLinkStatus,
+} from '@/lib/share-links';
+import { useProjectShareLinkMutations, useProjectShareLinks } from '@/hooks/use-share-links';
+import { useProjectPhotos } from '@/hooks/use-photo-mutations';
+import {
+  PROJECT_SHARE_BUDGET_COLUMN_LABELS,
+  PROJECT_SHARE_SECTION_LABELS,
+  type ProjectShareBudgetColumn,
+  type ProjectShareLink,
+  type ProjectShareSection,
+} from '@/types';
+
+interface ShareLinksDialogProps {
+  projectId: string;
+  trigger: React.ReactNode;
+}
+
+const STATUS_BADGES: Record<ShareLinkStatus, { label: string; variant: 'active' | 'cancelled' | 'onHold' }> = {
+  active: { label: 'Active', variant: 'active' },
+  expired: { label: 'Expired', variant: 'onHold' },
+  revoked: { label: 'Revoked', variant: 'cancelled' },
+};
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+/**
+ * Issue, adjust and revoke read-only share links for investors and lenders.
+ *
+ * Like vendor request links, a link is shown once right after it is created.
+ * What an issued link exposes can still be changed; the viewer sees the
+ * change on their next visit.
+ */
+export function ShareLinksDialog({ projectId, trigger }: ShareLinksDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState<number>(DEFAULT_SHARE_LINK_EXPIRY_DAYS);
+  const [sections, setSections] = useState<ProjectShareSection[]>(PROJECT_SHARE_SECTIONS);
+  const [budgetColumns, setBudgetColumns] = useState<ProjectShareBudgetColumn[]>(DEFAULT_SHARE_BUDGET_COLUMNS);
+  const [photoIds, setPhotoIds] = useState<string[]>([]);
+  const [createdLink, setCreatedLink] = useState<string | null>(null);
+
+  const { data: links = [], isLoading } = useProjectShareLinks(projectId);
+  const { data: photos = [] } = useProjectPhotos(projectId);
+  const { createLink, updateLink, revokeLink } = useProjectShareLinkMutations(projectId);
+
+  // Receipts are for the books, not for investors
+  const shareablePhotos = photos.filter((photo) => photo.photo_type !== 'receipt');
+
+  const resetForm = () => {
+    setEditingId(null);
+    setLabel('');
+    setExpiresInDays(DEFAULT_SHARE_LINK_EXPIRY_DAYS);
+    setSections(PROJECT_SHARE_SECTIONS);
+    setBudgetColumns(DEFAULT_SHARE_BUDGET_COLUMNS);
+    setPhotoIds([]);
+  };
+
+  const handleEdit = (link: ProjectShareLink) => {
+    setCreatedLink(null);
+    setEditingId(link.id);
+    setLabel(link.label);
+    setSections(link.sections);
+    setBudgetColumns(link.budget_columns);
+    setPhotoIds(link.photo_ids);
+  };
+
+  const handleSubmit = () => {
+    const input = { label, sections, budgetColumns, photoIds };
+    const validationError = validateShareLinkInput(input);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    if (editingId) {
+      updateLink.mutate({ id: editingId, sections, budgetColumns, photoIds }, { onSuccess: resetForm });
+      return;
+    }
+
+    createLink.mutate(
+      { ...input, expiresInDays },
+      {
+        onSuccess: ({ url }) => {
+          setCreatedLink(url);
+          resetForm();
+        },
+      }
+    );
+  };
+
+  const handleCopy = (url: string) => {
+    navigator.clipboard.writeText(url);
+    toast.success('Share link copied!');
+  };
+
+  return (
+    <Dialog
+      onOpenChange={(open) => {
+        if (!open) {
+          setCreatedLink(null);
+          resetForm();
+        }
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <IconShare className="h-5 w-5" />
+            Share Links
+          </DialogTitle>
+          <DialogDescription>
+            A share link opens a live, read-only view of this project without signing in. Choose what each
+            investor or lender can see; links work until they expire or you revoke them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Link Form */}
+        <div className="rounded-lg border p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3">
+            <div>
+              <label className="text-sm text-muted-foreground">Shared with</label>
+              <input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                disabled={!!editingId}
+                placeholder="e.g. First Street Capital"
+                className="w-full mt-1 p-2 rounded border text-sm disabled:opacity-60"
+              />
+            </div>
+            {!editingId && (
+              <div>
+                <label className="text-sm text-muted-foreground">Expires in</label>
+                <select
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                  className="w-full mt-1 p-2 rounded border text-sm"
+                >
+                  {SHARE_LINK_EXPIRY_OPTIONS.map((days) => (
+                    <option key={days} value={days}>
+                      {days} days
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Sections</p>
+              {PROJECT_SHARE_SECTIONS.map((section) => (
+                <label key={section} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={sections.includes(section)}
+                    onCheckedChange={() => setSections(toggle(sections, section))}
+                  />
+                  {PROJECT_SHARE_SECTION_LABELS[section]}
+                </label>
+              ))}
+            </div>
+
+            {sections.includes('budget') && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Budget columns</p>
+                {PROJECT_SHARE_BUDGET_COLUMNS.map((column) => (
+                  <label key={column} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={budgetColumns.includes(column)}
+                      onCheckedChange={() => setBudgetColumns(toggle(budgetColumns, column))}
+                    />
+                    {PROJECT_SHARE_BUDGET_COLUMN_LABELS[column]}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {sections.includes('photos') && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  Photos ({photoIds.length} of {shareablePhotos.length} selected)
+                </p>
+                {shareablePhotos.length > 0 && (
+                  <button
+                    onClick={() =>
+                      setPhotoIds(
+                        photoIds.length === shareablePhotos.length ? [] : shareablePhotos.map((photo) => photo.id)
+                      )
+                    }
+                    className="text-xs text-primary hover:underline"
+                  >
+                    {photoIds.length === shareablePhotos.length ? 'Clear' : 'Select all'}
+                  </button>
+                )}
+              </div>
+              {shareablePhotos.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No progress, before or after photos uploaded yet.</p>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 max-h-40 overflow-y-auto rounded border p-2">
+                  {shareablePhotos.map((photo) => (
+                    <label key={photo.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={photoIds.includes(photo.id)}
+                        onCheckedChange={() => setPhotoIds(toggle(photoIds, photo.id))}
+                      />
+                      <span className="capitalize text-muted-foreground">{photo.photo_type}</span>
+                      <span className="truncate">{photo.caption || formatDate(photo.taken_at || photo.created_at)}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <button
+                onClick={resetForm}
+                className="rounded-lg border px-3 py-2 text-sm font-medium hover:bg-muted transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <LoadingButton
+              onClick={handleSubmit}
+              isLoading={createLink.isPending || updateLink.isPending}
+              loadingText="Saving..."
+            >
+              <IconShare className="h-4 w-4" />
+              {editingId ? 'Save Changes' : 'Create Link'}
+            </LoadingButton>
+          </div>
+        </div>
+
+        {createdLink && (
+          <div className="rounded-lg border bg-muted/50 p-3 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Copy this link now. It will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={createdLink}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 p-2 rounded border text-xs font-mono bg-background"
+              />
+              <button
+                onClick={() => handleCopy(createdLink)}
+                className="inline-flex items-center gap-2 rounded-lg border px-3 py-2 text-sm font-medium hover:bg-muted transition-colors"
+              >
+                <IconCopy className="h-4 w-4" />
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Issued Links */}
+        <div className="rounded-lg border overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="table-header">
+                <th className="text-left p-3">Shared With</th>
+                <th className="text-center p-3 w-28">Expires</th>
+                <th className="text-center p-3 w-20">Views</th>
+                <th className="text-center p-3 w-28">Last Viewed</th>
+                <th className="text-center p-3 w-24">Status</th>
+                <th className="text-center p-3 w-20"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="p-6 text-center text-muted-foreground">
+                    <IconLoader2 className="h-4 w-4 animate-spin mx-auto" />
+                  </td>
+                </tr>
+              ) : links.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="p-6 text-center text-muted-foreground">
+                    No share links issued yet
+                  </td>
+                </tr>
+              ) : (
+                links.map((link) => {
+                  const status = getShareLinkStatus(link);
+                  const badge = STATUS_BADGES[status];
+
+                  return (
+                    <tr key={link.id} className={cn('border-t', editingId === link.id && 'bg-muted/50')}>
+                      <td className="p-3">
+                        <div className="font-medium">{link.label}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {link.sections.map((section) => PROJECT_SHARE_SECTION_LABELS[section]).join(', ')}
+                        </div>
+                      </td>
+                      <td className="p-3 text-center text-muted-foreground">{formatDate(link.expires_at)}</td>
+                      <td className="p-3 text-center tabular-nums">
+                        <span className="inline-flex items-center gap-1">
+                          <IconEye className="h-3.5 w-3.5 text-muted-foreground" />
+                          {link.view_count}
+                        </span>
+                      </td>
+                      <td className="p-3 text-center text-muted-foreground">{formatDate(link.last_viewed_at)}</td>
+                      <td className="p-3 text-center">
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </td>
+                      <td className="p-3 text-center">
+                        {status === 'active' && (
+                          <div className="flex items-center justify-center gap-1">
+                            <button
+                              onClick={() => handleEdit(link)}
+                              className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                              title="Change what this link shows"
+                            >
+                              <IconPencil className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => revokeLink.mutate(link.id)}
+                              disabled={revokeLink.isPending}
+                              className="p-1 rounded hover:bg-red-100 text-muted-foreground hover:text-red-600 transition-colors disabled:opacity-50"
+                              title="Revoke link"
+                            >
+                              <IconBan className="h-4 w-4" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
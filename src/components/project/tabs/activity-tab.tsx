@@ -0,0 +1,190 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { IconActivity, IconLoader2 } from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+import { AuditEntryChanges } from '@/components/project/record-history-popover';
+import { auditLogKeys, useProjectActivity } from '@/hooks/use-audit-log';
+import { useRealtimeInvalidation } from '@/hooks/use-realtime';
+import {
+  AUDIT_SYSTEM_ACTOR,
+  DEFAULT_AUDIT_LOG_FILTERS,
+  describeAuditEntry,
+  filterAuditEntries,
+  getAuditActorName,
+  groupAuditEntriesByDay,
+  type AuditLogFilters,
+} from '@/lib/audit-log';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_TABLE_LABELS,
+  type AuditAction,
+  type AuditTable,
+  type BudgetItem,
+  type Draw,
+  type Vendor,
+} from '@/types';
+
+interface ActivityTabProps {
+  projectId: string;
+  budgetItems: BudgetItem[];
+  draws: Draw[];
+  vendors: Vendor[];
+}
+
+const ACTION_VARIANTS: Record<AuditAction, 'active' | 'pending' | 'cancelled'> = {
+  insert: 'active',
+  update: 'pending',
+  delete: 'cancelled',
+};
+
+/**
+ * Who changed what on this project, newest first, from the audit log.
+ * Includes changes to the vendors assigned to its budget items and draws.
+ */
+export function ActivityTab({ projectId, budgetItems, draws, vendors }: ActivityTabProps) {
+  const [filters, setFilters] = useState<AuditLogFilters>(DEFAULT_AUDIT_LOG_FILTERS);
+
+  const vendorIds = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          [...budgetItems, ...draws].map((row) => row.vendor_id).filter((id): id is string => !!id)
+        )
+      ),
+    [budgetItems, draws]
+  );
+  const { data: entries = [], isLoading } = useProjectActivity(projectId, vendorIds);
+
+  const realtimeKeys = useMemo(() => [[...auditLogKeys.project(projectId)]], [projectId]);
+  useRealtimeInvalidation('audit_log', realtimeKeys, { filter: `project_id=eq.${projectId}` });
+
+  const context = useMemo(
+    () => ({
+      vendorNames: Object.fromEntries(vendors.map((v) => [v.id, v.name])),
+      itemNames: Object.fromEntries(budgetItems.map((item) => [item.id, item.item])),
+    }),
+    [vendors, budgetItems]
+  );
+
+  // People who appear in the loaded history
+  const actors = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const entry of entries) {
+      byId.set(entry.actor_id ?? AUDIT_SYSTEM_ACTOR, entry.actor_id ? getAuditActorName(entry) : 'Vendor portal / system');
+    }
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [entries]);
+
+  const days = groupAuditEntriesByDay(filterAuditEntries(entries, filters));
+  const isFiltered =
+    filters.table !== 'all' || filters.action !== 'all' || filters.actorId !== 'all';
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex items-end gap-3 flex-wrap">
+        <div>
+          <label className="text-sm text-muted-foreground">Type</label>
+          <select
+            value={filters.table}
+            onChange={(e) => setFilters({ ...filters, table: e.target.value as AuditTable | 'all' })}
+            className="w-full mt-1 p-2 rounded border text-sm"
+          >
+            <option value="all">Everything</option>
+            {(Object.keys(AUDIT_TABLE_LABELS) as AuditTable[]).map((table) => (
+              <option key={table} value={table}>
+                {AUDIT_TABLE_LABELS[table]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm text-muted-foreground">Change</label>
+          <select
+            value={filters.action}
+            onChange={(e) => setFilters({ ...filters, action: e.target.value as AuditAction | 'all' })}
+            className="w-full mt-1 p-2 rounded border text-sm"
+          >
+            <option value="all">Any</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+              <option key={action} value={action}>
+                {AUDIT_ACTION_LABELS[action]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm text-muted-foreground">Person</label>
+          <select
+            value={filters.actorId}
+            onChange={(e) => setFilters({ ...filters, actorId: e.target.value })}
+            className="w-full mt-1 p-2 rounded border text-sm"
+          >
+            <option value="all">Anyone</option>
+            {actors.map((actor) => (
+              <option key={actor.id} value={actor.id}>
+                {actor.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {isFiltered && (
+          <button
+            onClick={() => setFilters(DEFAULT_AUDIT_LOG_FILTERS)}
+            className="text-sm text-primary hover:underline pb-2"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Feed */}
+      {isLoading ? (
+        <div className="p-6 text-center text-muted-foreground">
+          <IconLoader2 className="h-5 w-5 animate-spin mx-auto" />
+        </div>
+      ) : days.length === 0 ? (
+        <div className="empty-state">
+          <IconActivity className="empty-state-icon" />
+          <p className="empty-state-title">{isFiltered ? 'No matching activity' : 'No activity yet'}</p>
+          <p className="empty-state-description">
+            {isFiltered
+              ? 'Try a different type, change or person.'
+              : 'Changes to the project, its budget, draws, photos and vendors will show up here.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {days.map(({ day, entries: dayEntries }) => (
+            <section key={day} className="space-y-2">
+              <h3 className="text-sm font-medium text-muted-foreground">
+                {format(parseISO(day), 'EEEE, MMM d, yyyy')}
+              </h3>
+              <ol className="rounded-lg border divide-y">
+                {dayEntries.map((entry) => (
+                  <li key={entry.id} className="p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="flex items-center gap-2 min-w-0 text-sm">
+                        <Badge variant={ACTION_VARIANTS[entry.action]}>{AUDIT_TABLE_LABELS[entry.table_name]}</Badge>
+                        <span className="truncate">
+                          <span className="font-medium">{getAuditActorName(entry)}</span>{' '}
+                          <span className="text-muted-foreground">{describeAuditEntry(entry)}</span>
+                        </span>
+                      </div>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {format(new Date(entry.created_at), 'h:mm a')}
+                      </span>
+                    </div>
+                    <AuditEntryChanges entry={entry} context={context} />
+                  </li>
+                ))}
+              </ol>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import {
+  IconGavel,
+  IconPlus,
+  IconPencil,
+  IconTrophy,
+  IconX,
+  IconTrash,
+  IconBan,
+} from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { BidRequestDialog } from '@/components/project/bid-request-dialog';
+import { BidEntryDialog } from '@/components/project/bid-entry-dialog';
+import { cn, formatCurrency } from '@/lib/utils';
+import { buildBidComparison, getBidScopeItems, isComparableBid } from '@/lib/bids';
+import { useBidMutations, useBidRequests } from '@/hooks/use-bids';
+import {
+  BID_REQUEST_STATUS_LABELS,
+  BID_STATUS_LABELS,
+  BUDGET_CATEGORIES,
+  type BidRequestStatus,
+  type BidRequestWithBids,
+  type BidStatus,
+  type BidWithLines,
+  type BudgetItem,
+  type Vendor,
+} from '@/types';
+
+interface BidsTabProps {
+  projectId: string;
+  budgetItems: BudgetItem[];
+  vendors: Vendor[];
+}
+
+const REQUEST_STATUS_VARIANTS: Record<BidRequestStatus, 'active' | 'complete' | 'cancelled'> = {
+  open: 'active',
+  awarded: 'complete',
+  cancelled: 'cancelled',
+};
+
+const BID_STATUS_VARIANTS: Record<BidStatus, 'pending' | 'active' | 'complete' | 'cancelled'> = {
+  requested: 'pending',
+  received: 'active',
+  declined: 'cancelled',
+  awarded: 'complete',
+  not_awarded: 'cancelled',
+};
+
+export function BidsTab({ projectId, budgetItems, vendors }: BidsTabProps) {
+  const { data: requests = [], isLoading } = useBidRequests(projectId);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h3 className="font-medium">Bids</h3>
+          <p className="text-sm text-muted-foreground">
+            Request bids on a scope from several vendors, compare their line pricing and award the winner to the
+            budget.
+          </p>
+        </div>
+        <Button onClick={() => setIsRequesting(true)} disabled={budgetItems.length === 0}>
+          <IconPlus className="h-4 w-4 mr-2" />
+          Request Bids
+        </Button>
+      </div>
+
+      {isLoading ? null : requests.length === 0 ? (
+        <div className="empty-state">
+          <IconGavel className="empty-state-icon" />
+          <p className="empty-state-title">No bid requests yet</p>
+          <p className="empty-state-description">
+            Pick a category or a set of line items and invite vendors to price it.
+          </p>
+        </div>
+      ) : (
+        requests.map((request) => (
+          <BidRequestCard
+            key={request.id}
+            projectId={projectId}
+            request={request}
+            budgetItems={budgetItems}
+            vendors={vendors}
+          />
+        ))
+      )}
+
+      <BidRequestDialog
+        projectId={projectId}
+        budgetItems={budgetItems}
+        vendors={vendors}
+        open={isRequesting}
+        onOpenChange={setIsRequesting}
+      />
+    </div>
+  );
+}
+
+interface BidRequestCardProps {
+  projectId: string;
+  request: BidRequestWithBids;
+  budgetItems: BudgetItem[];
+  vendors: Vendor[];
+}
+
+function BidRequestCard({ projectId, request, budgetItems, vendors }: BidRequestCardProps) {
+  const { declineBid, awardBid, cancelBidRequest, deleteBidRequest } = useBidMutations(projectId);
+  const [enteringBid, setEnteringBid] = useState<BidWithLines | null>(null);
+  const [awardingBid, setAwardingBid] = useState<BidWithLines | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const vendorById = new Map(vendors.map((v) => [v.id, v]));
+  const vendorName = (bid: BidWithLines) => vendorById.get(bid.vendor_id)?.name ?? 'Unknown vendor';
+
+  const scopeItems = getBidScopeItems(request.bid_request_items, budgetItems);
+  const bids = [...request.bids].sort((a, b) => vendorName(a).localeCompare(vendorName(b)));
+  const comparison = buildBidComparison(scopeItems, bids);
+  const isOpen = request.status === 'open';
+  const categoryLabel = request.category
+    ? BUDGET_CATEGORIES.find((cat) => cat.value === request.category)?.label
+    : null;
+
+  const awardingTotal = awardingBid ? comparison.totals[awardingBid.id] : null;
+
+  return (
+    <div className="rounded-lg border bg-card">
+      {/* Request header */}
+      <div className="flex items-start justify-between gap-4 border-b p-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <h4 className="font-medium truncate">{request.title}</h4>
+            <Badge variant={REQUEST_STATUS_VARIANTS[request.status]}>
+              {BID_REQUEST_STATUS_LABELS[request.status]}
+            </Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {categoryLabel ?? `${scopeItems.length} line item${scopeItems.length === 1 ? '' : 's'}`}
+            {' · '}
+            Budgeted {formatCurrency(comparison.budgetedTotal)}
+            {request.due_date && ` · Due ${format(new Date(`${request.due_date}T00:00:00`), 'MMM d, yyyy')}`}
+          </p>
+          {request.notes && <p className="text-sm text-muted-foreground mt-1">{request.notes}</p>}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {isOpen && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => cancelBidRequest.mutate(request.id)}
+              disabled={cancelBidRequest.isPending}
+            >
+              <IconBan className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            onClick={() => setIsDeleting(true)}
+            title="Delete bid request"
+          >
+            <IconTrash className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Side-by-side comparison */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="table-header">
+              <th className="text-left p-3 min-w-48">Line Item</th>
+              <th className="text-right p-3 w-32">Budgeted</th>
+              {bids.map((bid) => (
+                <th key={bid.id} className="text-right p-3 min-w-40 align-top">
+                  <div className="font-medium">{vendorName(bid)}</div>
+                  <div className="mt-1 flex justify-end gap-1">
+                    <Badge variant={BID_STATUS_VARIANTS[bid.status]}>{BID_STATUS_LABELS[bid.status]}</Badge>
+                    {comparison.lowBidId === bid.id && isOpen && <Badge variant="success">Low bid</Badge>}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.lines.map((line) => (
+              <tr key={line.budgetItem.id} className="border-t">
+                <td className="p-3">{line.budgetItem.item}</td>
+                <td className="p-3 text-right tabular-nums text-muted-foreground">{formatCurrency(line.budgeted)}</td>
+                {bids.map((bid) => {
+                  const amount = line.amounts[bid.id];
+                  return (
+                    <td
+                      key={bid.id}
+                      className={cn(
+                        'p-3 text-right tabular-nums',
+                        !isComparableBid(bid) && 'text-muted-foreground',
+                        line.lowBidId === bid.id && 'bg-green-50 text-green-700 font-medium dark:bg-green-900/20'
+                      )}
+                    >
+                      {amount === undefined ? (bid.status === 'requested' ? '' : '-') : formatCurrency(amount)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t font-medium">
+              <td className="p-3">Total</td>
+              <td className="p-3 text-right tabular-nums">{formatCurrency(comparison.budgetedTotal)}</td>
+              {bids.map((bid) => {
+                const total = comparison.totals[bid.id];
+                return (
+                  <td key={bid.id} className="p-3 text-right align-top">
+                    {bid.status === 'requested' ? (
+                      <span className="text-muted-foreground font-normal">Awaiting bid</span>
+                    ) : (
+                      <>
+                        <div className="tabular-nums">{formatCurrency(total.total)}</div>
+                        <div
+                          className={cn(
+                            'text-xs font-normal tabular-nums',
+                            total.varianceToBudget > 0 ? 'text-red-600' : 'text-green-600'
+                          )}
+                        >
+                          {total.varianceToBudget > 0 ? '+' : ''}
+                          {formatCurrency(total.varianceToBudget)} vs budget
+                        </div>
+                        {total.missingCount > 0 && (
+                          <div className="text-xs font-normal text-yellow-600">
+                            {total.missingCount} line{total.missingCount === 1 ? '' : 's'} not priced
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+            {bids.some((bid) => bid.exclusions) && (
+              <tr className="border-t">
+                <td className="p-3 text-muted-foreground" colSpan={2}>
+                  Exclusions
+                </td>
+                {bids.map((bid) => (
+                  <td key={bid.id} className="p-3 text-right text-xs text-muted-foreground whitespace-pre-line align-top">
+                    {bid.exclusions || '-'}
+                  </td>
+                ))}
+              </tr>
+            )}
+            {isOpen && (
+              <tr className="border-t">
+                <td colSpan={2} />
+                {bids.map((bid) => (
+                  <td key={bid.id} className="p-2">
+                    {(bid.status === 'requested' || bid.status === 'received') && (
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setEnteringBid(bid)}
+                          title={bid.status === 'requested' ? 'Enter bid' : 'Edit bid'}
+                        >
+                          <IconPencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground"
+                          onClick={() => declineBid.mutate(bid.id)}
+                          disabled={declineBid.isPending}
+                          title="Vendor declined to bid"
+                        >
+                          <IconX className="h-4 w-4" />
+                        </Button>
+                        {bid.status === 'received' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8"
+                            onClick={() => setAwardingBid(bid)}
+                          >
+                            <IconTrophy className="h-4 w-4 mr-1" />
+                            Award
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            )}
+          </tfoot>
+        </table>
+      </div>
+
+      <BidEntryDialog
+        projectId={projectId}
+        bid={enteringBid}
+        vendor={enteringBid ? vendorById.get(enteringBid.vendor_id) ?? null : null}
+        scopeItems={scopeItems}
+        onClose={() => setEnteringBid(null)}
+      />
+
+      <ConfirmDialog
+        open={!!awardingBid}
+        onOpenChange={(open) => !open && setAwardingBid(null)}
+        title={awardingBid ? `Award to ${vendorName(awardingBid)}?` : 'Award bid?'}
+        description={
+          awardingBid && awardingTotal
+            ? `Sets the Forecast on ${scopeItems.length - awardingTotal.missingCount} budget line${
+                scopeItems.length - awardingTotal.missingCount === 1 ? '' : 's'
+              } to this bid (${formatCurrency(awardingTotal.total)}), assigns ${vendorName(awardingBid)} as their vendor and closes the request.${
+                awardingTotal.missingCount > 0
+                  ? ` ${awardingTotal.missingCount} unpriced line${awardingTotal.missingCount === 1 ? ' keeps its' : 's keep their'} current forecast and vendor.`
+                  : ''
+              }`
+            : ''
+        }
+        confirmText="Award Bid"
+        isPending={awardBid.isPending}
+        onConfirm={() => {
+          if (!awardingBid) return;
+          awardBid.mutate(awardingBid.id, { onSuccess: () => setAwardingBid(null) });
+        }}
+      />
+
+      <ConfirmDialog
+        open={isDeleting}
+        onOpenChange={setIsDeleting}
+        title="Delete bid request?"
+        description="The request and every vendor's pricing on it are deleted. Budget lines already updated by an award are not changed."
+        confirmText="Delete"
+        variant="destructive"
+        isPending={deleteBidRequest.isPending}
+        onConfirm={() => deleteBidRequest.mutate(request.id, { onSuccess: () => setIsDeleting(false) })}
+      />
+    </div>
+  );
+}
@@ -13,6 +13,10 @@ import {
   IconTrash,
   IconX,
   IconLoader2,
+  IconAlertTriangle,
+  IconHistory,
+  IconTemplate,
+  IconFileSpreadsheet,
 } from '@tabler/icons-react';
 import { PhotoGallery } from '@/components/project/photo-gallery';
 import { toast } from 'sonner';
@@ -36,8 +40,10 @@ import {
 import { CSS } from '@dnd-kit/utilities';
 
 import { getSupabaseClient } from '@/lib/supabase/client';
-import { cn, formatCurrency, groupBy } from '@/lib/utils';
-import type { BudgetItem, BudgetCategory, Vendor, ItemStatus } from '@/types';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability, getBudgetItemUpdateCapability, getWorkspaceErrorMessage } from '@/lib/workspaces';
+import { cn, formatCurrency, getVarianceAlertLevel, groupBy } from '@/lib/utils';
+import type { BudgetItem, BudgetCategory, CalculationSettingsInput, Project, Vendor, ItemStatus } from '@/types';
 import { BUDGET_CATEGORIES, STATUS_LABELS, VENDOR_TRADE_LABELS } from '@/types';
 import {
   Select,
@@ -56,12 +62,20 @@ import { useBudgetItemMutations } from '@/hooks/use-budget-item-mutations';
 import { useProjectPhotos } from '@/hooks/use-photo-mutations';
 import { useSortOrderMutations } from '@/hooks/use-sort-order';
 import { MobileBudgetEditSheet } from '@/components/project/mobile-budget-edit-sheet';
+import { BudgetVersionsDialog } from '@/components/project/budget-versions-dialog';
+import { BudgetTemplatesDialog } from '@/components/project/budget-templates-dialog';
+import { BudgetImportDialog } from '@/components/project/budget-import-dialog';
+import { RecordHistoryPopover } from '@/components/project/record-history-popover';
+import type { AuditValueContext } from '@/lib/audit-log';
 
 interface BudgetDetailTabProps {
   projectId: string;
+  /** Financials frozen with budget snapshots */
+  project: Project;
   budgetItems: BudgetItem[];
   vendors: Vendor[];
   contingencyPercent: number;
+  settings: CalculationSettingsInput;
 }
 
 interface NewItemForm {
@@ -93,6 +107,10 @@ interface SortableBudgetItemRowProps {
   onViewPhotos: (item: BudgetItem) => void;
   updatePending: boolean;
   isMobile?: boolean;
+  /** Actual is rolled up from paid draw allocations and not edited by hand */
+  isDrawFunded?: boolean;
+  /** Vendor names for the history popover */
+  historyContext?: AuditValueContext;
 }
 
 function SortableBudgetItemRow({
@@ -107,6 +125,8 @@ function SortableBudgetItemRow({
   onViewPhotos,
   updatePending,
   isMobile = false,
+  isDrawFunded = false,
+  historyContext,
 }: SortableBudgetItemRowProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const {
@@ -203,7 +223,7 @@ function SortableBudgetItemRow({
       </td>
       {/* Actual amount */}
       <td className="p-2 sm:p-3 text-right">
-        {isEditing ? (
+        {isEditing && !isDrawFunded ? (
           <input
             type="number"
             step="0.01"
@@ -215,6 +235,11 @@ function SortableBudgetItemRow({
         ) : (
           <span className="font-medium tabular-nums text-xs sm:text-sm">{formatCurrency(item.actual_amount || 0)}</span>
         )}
+        {isDrawFunded && (
+          <span className="block text-[10px] text-muted-foreground" title="Rolled up from paid draws">
+            from draws
+          </span>
+        )}
       </td>
       {/* Variance columns - hidden on mobile */}
       <td className={cn(
@@ -287,6 +312,13 @@ function SortableBudgetItemRow({
             >
               <IconPhoto className="h-4 w-4" />
             </button>
+            <RecordHistoryPopover
+              table="budget_items"
+              recordId={item.id}
+              title={item.item}
+              context={historyContext}
+              triggerClassName="p-1.5 sm:p-1 hover:text-primary min-w-[32px] sm:min-w-0"
+            />
             <button
               type="button"
               onClick={() => onEdit(item)}
@@ -347,16 +379,30 @@ function SortableBudgetItemRow({
 
 export function BudgetDetailTab({
   projectId,
+  project,
   budgetItems,
   vendors,
   contingencyPercent,
+  settings,
 }: BudgetDetailTabProps) {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
   const { createItem, deleteItem, bulkUpdateStatus, bulkDelete } = useBudgetItemMutations(projectId);
   const { data: projectPhotos = [] } = useProjectPhotos(projectId);
   const { reorderItems } = useSortOrderMutations(projectId);
   const isMobile = useIsMobile();
 
+  // Lines paid through draws take their actual from paid allocations
+  const drawFundedItemIds = useMemo(
+    () => new Set(budgetItems.filter((item) => item.actual_from_draws).map((item) => item.id)),
+    [budgetItems]
+  );
+
+  const historyContext = useMemo<AuditValueContext>(
+    () => ({ vendorNames: Object.fromEntries(vendors.map((v) => [v.id, v.name])) }),
+    [vendors]
+  );
+
   // DnD Sensors
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -474,6 +520,8 @@ export function BudgetDetailTab({
   // Mutation for updating budget items
   const updateMutation = useMutation({
     mutationFn: async (updates: { id: string; data: Partial<BudgetItem> }) => {
+      assertCapability(role, getBudgetItemUpdateCapability(updates.data));
+
       const supabase = getSupabaseClient();
       const { data, error } = await supabase
         .from('budget_items')
@@ -493,13 +541,15 @@ export function BudgetDetailTab({
     },
     onError: (error) => {
       console.error('Error updating budget item:', error);
-      toast.error('Failed to update budget item');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update budget item'));
     },
   });
 
   // Mutation for reordering budget items
   const reorderMutation = useMutation({
     mutationFn: async (updates: { id: string; sort_order: number }[]) => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
 
       // Update all items in parallel
@@ -522,13 +572,15 @@ export function BudgetDetailTab({
     },
     onError: (error) => {
       console.error('Error reordering items:', error);
-      toast.error('Failed to reorder items');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to reorder items'));
     },
   });
 
   // Mutation for creating budget items
   const createMutation = useMutation({
     mutationFn: async (newItem: { category: BudgetCategory; data: NewItemForm }) => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       const { data, error } = await supabase
         .from('budget_items')
@@ -546,7 +598,7 @@ export function BudgetDetailTab({
     },
     onError: (error) => {
       console.error('Error assigning vendor:', error);
-      toast.error('Failed to assign vendor');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to assign vendor'));
     },
   });
 
@@ -559,7 +611,7 @@ export function BudgetDetailTab({
       setEditValues({
         underwriting_amount: item.underwriting_amount,
         forecast_amount: item.forecast_amount,
-        actual_amount: item.actual_amount,
+        ...(drawFundedItemIds.has(item.id) ? {} : { actual_amount: item.actual_amount }),
         status: item.status,
         vendor_id: item.vendor_id,
       });
@@ -568,7 +620,9 @@ export function BudgetDetailTab({
 
   // Handle save from mobile edit sheet
   const handleMobileSave = async (itemId: string, updates: Partial<BudgetItem>) => {
-    await updateMutation.mutateAsync({ id: itemId, data: updates });
+    // Draw-funded actuals are maintained from paid draws
+    const data = drawFundedItemIds.has(itemId) ? { ...updates, actual_amount: undefined } : updates;
+    await updateMutation.mutateAsync({ id: itemId, data });
     setMobileEditItem(null);
   };
 
@@ -668,14 +722,49 @@ export function BudgetDetailTab({
 
       {/* Selection Mode Toggle & Bulk Actions */}
       <div className="flex items-center justify-between">
-        <Button
-          variant={isSelectionMode ? 'default' : 'outline'}
-          size="sm"
-          onClick={toggleSelectionMode}
-        >
-          <IconListCheck className="h-4 w-4 mr-2" />
-          {isSelectionMode ? 'Exit Selection' : 'Select Items'}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant={isSelectionMode ? 'default' : 'outline'}
+            size="sm"
+            onClick={toggleSelectionMode}
+          >
+            <IconListCheck className="h-4 w-4 mr-2" />
+            {isSelectionMode ? 'Exit Selection' : 'Select Items'}
+          </Button>
+
+          <BudgetVersionsDialog
+            project={project}
+            budgetItems={budgetItems}
+            settings={settings}
+            trigger={
+              <Button variant="outline" size="sm">
+                <IconHistory className="h-4 w-4 mr-2" />
+                Versions
+              </Button>
+            }
+          />
+
+          <BudgetTemplatesDialog
+            project={project}
+            trigger={
+              <Button variant="outline" size="sm">
+                <IconTemplate className="h-4 w-4 mr-2" />
+                Save as Template
+              </Button>
+            }
+          />
+
+          <BudgetImportDialog
+            projectId={projectId}
+            budgetItems={budgetItems}
+            trigger={
+              <Button variant="outline" size="sm">
+                <IconFileSpreadsheet className="h-4 w-4 mr-2" />
+                Import Bid
+              </Button>
+            }
+          />
+        </div>
 
         {isSelectionMode && selectedItems.size > 0 && (
           <div className="flex items-center gap-2">
@@ -771,6 +860,10 @@ export function BudgetDetailTab({
                 const isExpanded = expandedCategories.has(category.value);
                 const catForecastVar = category.forecast - category.underwriting;
                 const catActualVar = category.actual - (category.forecast > 0 ? category.forecast : category.underwriting);
+                const catActualAlert =
+                  category.actual > 0
+                    ? getVarianceAlertLevel(category.forecast > 0 ? category.forecast : category.underwriting, category.actual, settings)
+                    : 'none';
                 const categoryItemsSelected = category.items.filter((item) => selectedItems.has(item.id)).length;
                 const allCategorySelected = category.items.length > 0 && categoryItemsSelected === category.items.length;
 
@@ -842,6 +935,15 @@ export function BudgetDetailTab({
                         'p-3 text-right font-medium tabular-nums',
                         catActualVar >= 0 ? 'text-red-600' : 'text-green-600'
                       )} onClick={() => toggleCategory(category.value)}>
+                        {catActualAlert !== 'none' && (
+                          <IconAlertTriangle
+                            className={cn(
+                              'inline h-3.5 w-3.5 mr-1 -mt-0.5',
+                              catActualAlert === 'critical' ? 'text-red-600' : 'text-yellow-600'
+                            )}
+                            aria-label={`Actual variance ${catActualAlert}`}
+                          />
+                        )}
                         {catActualVar >= 0 ? '+' : ''}{formatCurrency(catActualVar)}
                       </td>
                       <td onClick={() => toggleCategory(category.value)}></td>
@@ -886,6 +988,8 @@ export function BudgetDetailTab({
                               onViewPhotos={setViewingPhotosForItem}
                               updatePending={updateMutation.isPending}
                               isMobile={isMobile}
+                              isDrawFunded={drawFundedItemIds.has(item.id)}
+                              historyContext={historyContext}
                             />
                           ))}
                         </SortableContext>
@@ -0,0 +1,405 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  IconArrowBackUp,
+  IconCheck,
+  IconFileDiff,
+  IconFileTypePdf,
+  IconPencil,
+  IconPlus,
+  IconSend,
+  IconTrash,
+  IconX,
+} from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { ChangeOrderDialog } from '@/components/project/change-order-dialog';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  buildChangeOrderLines,
+  buildChangeOrderVariance,
+  formatChangeOrderNumber,
+  getChangeOrderTotal,
+  getNegativeChangeOrderLines,
+} from '@/lib/change-orders';
+import { useChangeOrderMutations, useChangeOrders, useDownloadChangeOrder } from '@/hooks/use-change-orders';
+import {
+  CHANGE_ORDER_REASON_LABELS,
+  CHANGE_ORDER_STATUS_LABELS,
+  type BudgetItem,
+  type ChangeOrderReason,
+  type ChangeOrderStatus,
+  type ChangeOrderWithItems,
+  type Vendor,
+} from '@/types';
+
+interface ChangeOrdersTabProps {
+  projectId: string;
+  projectName: string;
+  budgetItems: BudgetItem[];
+  vendors: Vendor[];
+}
+
+const STATUS_VARIANTS: Record<ChangeOrderStatus, 'secondary' | 'pending' | 'complete' | 'cancelled'> = {
+  draft: 'secondary',
+  submitted: 'pending',
+  approved: 'complete',
+  rejected: 'cancelled',
+};
+
+function signed(amount: number): string {
+  return `${amount > 0 ? '+' : ''}${formatCurrency(amount)}`;
+}
+
+/**
+ * The project's change order log, and how approved change orders account
+ * for the forecast's movement from underwriting.
+ */
+export function ChangeOrdersTab({ projectId, projectName, budgetItems, vendors }: ChangeOrdersTabProps) {
+  const { data: changeOrders = [], isLoading } = useChangeOrders(projectId);
+  const [editing, setEditing] = useState<ChangeOrderWithItems | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const variance = useMemo(() => buildChangeOrderVariance(budgetItems, changeOrders), [budgetItems, changeOrders]);
+
+  const openDialog = (changeOrder: ChangeOrderWithItems | null) => {
+    setEditing(changeOrder);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h3 className="font-medium">Change Orders</h3>
+          <p className="text-sm text-muted-foreground">
+            Record scope changes with their reason and vendor. Approving a change order applies its changes to the
+            budget forecast.
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)} disabled={budgetItems.length === 0}>
+          <IconPlus className="h-4 w-4 mr-2" />
+          New Change Order
+        </Button>
+      </div>
+
+      {/* Forecast vs underwriting, explained */}
+      {changeOrders.length > 0 && (
+        <div className="rounded-lg border bg-card p-5">
+          <h4 className="font-medium mb-3">Forecast Variance</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+            <div className="space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Underwriting budget</span>
+                <span className="tabular-nums">{formatCurrency(variance.underwritingTotal)}</span>
+              </div>
+              {(Object.keys(CHANGE_ORDER_REASON_LABELS) as ChangeOrderReason[]).map((reason) => (
+                <div key={reason} className="flex justify-between">
+                  <span className="text-muted-foreground">+ {CHANGE_ORDER_REASON_LABELS[reason]} change orders</span>
+                  <span className="tabular-nums">{signed(variance.approvedByReason[reason])}</span>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">+ Other revisions (bids, re-estimates)</span>
+                <span className="tabular-nums">{signed(variance.otherRevisions)}</span>
+              </div>
+              <div className="flex justify-between font-medium border-t pt-1 mt-1">
+                <span>Current budget</span>
+                <span className="tabular-nums">{formatCurrency(variance.budgetedTotal)}</span>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-muted-foreground">Approved change orders</p>
+                <p className={cn('text-xl font-semibold tabular-nums', variance.approvedTotal > 0 && 'text-red-600')}>
+                  {signed(variance.approvedTotal)}
+                </p>
+                {variance.underwritingTotal > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {((variance.approvedTotal / variance.underwritingTotal) * 100).toFixed(1)}% of underwriting
+                  </p>
+                )}
+              </div>
+              <div>
+                <p className="text-muted-foreground">Awaiting approval</p>
+                <p className="text-xl font-semibold tabular-nums">{signed(variance.pendingTotal)}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? null : changeOrders.length === 0 ? (
+        <div className="empty-state">
+          <IconFileDiff className="empty-state-icon" />
+          <p className="empty-state-title">No change orders yet</p>
+          <p className="empty-state-description">
+            When the scope changes, record it here instead of editing the forecast, so the variance can be traced.
+          </p>
+        </div>
+      ) : (
+        changeOrders.map((changeOrder) => (
+          <ChangeOrderCard
+            key={changeOrder.id}
+            projectId={projectId}
+            projectName={projectName}
+            changeOrder={changeOrder}
+            budgetItems={budgetItems}
+            vendors={vendors}
+            onEdit={() => openDialog(changeOrder)}
+          />
+        ))
+      )}
+
+      <ChangeOrderDialog
+        projectId={projectId}
+        budgetItems={budgetItems}
+        vendors={vendors}
+        changeOrder={editing}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+      />
+    </div>
+  );
+}
+
+interface ChangeOrderCardProps {
+  projectId: string;
+  projectName: string;
+  changeOrder: ChangeOrderWithItems;
+  budgetItems: BudgetItem[];
+  vendors: Vendor[];
+  onEdit: () => void;
+}
+
+function ChangeOrderCard({ projectId, projectName, changeOrder, budgetItems, vendors, onEdit }: ChangeOrderCardProps) {
+  const {
+    submitChangeOrder,
+    withdrawChangeOrder,
+    approveChangeOrder,
+    rejectChangeOrder,
+    deleteChangeOrder,
+  } = useChangeOrderMutations(projectId);
+  const downloadPdf = useDownloadChangeOrder(projectId);
+  const [isApproving, setIsApproving] = useState(false);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  const coNumber = formatChangeOrderNumber(changeOrder.number);
+  const vendor = vendors.find((v) => v.id === changeOrder.vendor_id);
+  const lines = buildChangeOrderLines(changeOrder, budgetItems);
+  const total = getChangeOrderTotal(changeOrder);
+  const blockedLines = getNegativeChangeOrderLines(changeOrder.change_order_items, budgetItems);
+  const decidedOn = changeOrder.decided_at ? format(new Date(changeOrder.decided_at), 'MMM d, yyyy') : null;
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="flex items-start justify-between gap-4 border-b p-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <h4 className="font-medium truncate">
+              {coNumber}: {changeOrder.title}
+            </h4>
+            <Badge variant={STATUS_VARIANTS[changeOrder.status]}>{CHANGE_ORDER_STATUS_LABELS[changeOrder.status]}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {CHANGE_ORDER_REASON_LABELS[changeOrder.reason_code]}
+            {' · '}
+            {vendor?.name ?? 'No vendor'}
+            {changeOrder.submitted_at &&
+              ` · Submitted ${format(new Date(changeOrder.submitted_at), 'MMM d, yyyy')}`}
+            {decidedOn && ` · ${CHANGE_ORDER_STATUS_LABELS[changeOrder.status]} ${decidedOn}`}
+          </p>
+          {changeOrder.description && <p className="text-sm text-muted-foreground mt-1">{changeOrder.description}</p>}
+          {changeOrder.rejection_reason && (
+            <p className="text-sm text-red-600 mt-1">Rejected: {changeOrder.rejection_reason}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => downloadPdf.mutate({ changeOrder, projectName })}
+            disabled={downloadPdf.isPending}
+            title="Download PDF for signature"
+          >
+            <IconFileTypePdf className="h-4 w-4" />
+          </Button>
+          {changeOrder.status === 'draft' && (
+            <>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onEdit} title="Edit change order">
+                <IconPencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                onClick={() => setIsDeleting(true)}
+                title="Delete change order"
+              >
+                <IconTrash className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8"
+                onClick={() => submitChangeOrder.mutate(changeOrder)}
+                disabled={submitChangeOrder.isPending || lines.length === 0}
+              >
+                <IconSend className="h-4 w-4 mr-1" />
+                Submit
+              </Button>
+            </>
+          )}
+          {changeOrder.status === 'submitted' && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8"
+                onClick={() => withdrawChangeOrder.mutate(changeOrder)}
+                disabled={withdrawChangeOrder.isPending}
+              >
+                <IconArrowBackUp className="h-4 w-4 mr-1" />
+                Back to Draft
+              </Button>
+              <Button variant="outline" size="sm" className="h-8" onClick={() => setIsRejecting(true)}>
+                <IconX className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                className="h-8"
+                onClick={() => setIsApproving(true)}
+                disabled={blockedLines.length > 0}
+                title={blockedLines.length > 0 ? 'A line would go below zero' : undefined}
+              >
+                <IconCheck className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="table-header">
+              <th className="text-left p-3">Line Item</th>
+              <th className="text-left p-3 w-40">Category</th>
+              <th className="text-right p-3 w-32">Before</th>
+              <th className="text-right p-3 w-32">Change</th>
+              <th className="text-right p-3 w-32">Revised</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line) => (
+              <tr key={line.budgetItemId} className="border-t">
+                <td className="p-3">
+                  {line.item}
+                  {line.notes && <p className="text-xs text-muted-foreground">{line.notes}</p>}
+                </td>
+                <td className="p-3 text-muted-foreground">{line.categoryLabel}</td>
+                <td className="p-3 text-right tabular-nums text-muted-foreground">{formatCurrency(line.before)}</td>
+                <td
+                  className={cn(
+                    'p-3 text-right tabular-nums',
+                    line.delta > 0 ? 'text-red-600' : 'text-green-600'
+                  )}
+                >
+                  {signed(line.delta)}
+                </td>
+                <td className="p-3 text-right tabular-nums">{formatCurrency(line.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t font-medium">
+              <td className="p-3" colSpan={3}>
+                Net Change
+              </td>
+              <td className={cn('p-3 text-right tabular-nums', total > 0 ? 'text-red-600' : 'text-green-600')}>
+                {signed(total)}
+              </td>
+              <td />
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <ConfirmDialog
+        open={isApproving}
+        onOpenChange={setIsApproving}
+        title={`Approve ${coNumber}?`}
+        description={`Applies ${signed(total)} across ${lines.length} budget line${
+          lines.length === 1 ? '' : 's'
+        } to the forecast. Approved change orders can't be edited or deleted.`}
+        confirmText="Approve"
+        isPending={approveChangeOrder.isPending}
+        onConfirm={() => approveChangeOrder.mutate(changeOrder, { onSuccess: () => setIsApproving(false) })}
+      />
+
+      <Dialog open={isRejecting} onOpenChange={setIsRejecting}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject {coNumber}?</DialogTitle>
+            <DialogDescription>The budget isn&apos;t changed. Rejected change orders stay in the log.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="change_order_rejection_reason">Reason</Label>
+            <Textarea
+              id="change_order_rejection_reason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="Price too high, not in scope..."
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <LoadingButton
+              variant="destructive"
+              onClick={() =>
+                rejectChangeOrder.mutate(
+                  { changeOrder, reason: rejectionReason.trim() || null },
+                  { onSuccess: () => setIsRejecting(false) }
+                )
+              }
+              isLoading={rejectChangeOrder.isPending}
+              loadingText="Rejecting..."
+            >
+              Reject
+            </LoadingButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={isDeleting}
+        onOpenChange={setIsDeleting}
+        title={`Delete ${coNumber}?`}
+        description="The draft and its lines are deleted. Only drafts can be deleted."
+        confirmText="Delete"
+        variant="destructive"
+        isPending={deleteChangeOrder.isPending}
+        onConfirm={() => deleteChangeOrder.mutate(changeOrder.id, { onSuccess: () => setIsDeleting(false) })}
+      />
+    </div>
+  );
+}
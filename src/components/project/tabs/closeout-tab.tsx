@@ -0,0 +1,245 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { IconFileTypePdf, IconFlagCheck, IconLock, IconPencil } from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { CloseoutDialog } from '@/components/project/closeout-dialog';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import {
+  buildCloseoutVariance,
+  calculateRealizedPnl,
+  getCloseoutDefaults,
+  getCloseoutProjection,
+  getLockedCloseout,
+  toCloseoutResults,
+} from '@/lib/closeout';
+import type { ProjectDealAnalysis } from '@/lib/deal-analysis';
+import { useProjectCloseoutMutations } from '@/hooks/use-project-closeout';
+import { useGenerateProjectReport } from '@/hooks/use-project-reports';
+import type { CalculationSettingsInput, Project, ProjectCloseout } from '@/types';
+
+interface CloseoutTabProps {
+  project: Project;
+  analysis: ProjectDealAnalysis;
+  settings: CalculationSettingsInput;
+  closeout: ProjectCloseout | null;
+}
+
+function formatVariance(value: number): string {
+  return `${value > 0 ? '+' : ''}${formatCurrency(value)}`;
+}
+
+/**
+ * Realized P&L from the sale settlement, line by line against the
+ * underwriting projection. Locking freezes the numbers, marks the project
+ * sold and stores the post-mortem report.
+ */
+export function CloseoutTab({ project, analysis, settings, closeout }: CloseoutTabProps) {
+  const router = useRouter();
+  const { lockCloseout } = useProjectCloseoutMutations(project.id);
+  const generateProjectReport = useGenerateProjectReport();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isConfirmingLock, setIsConfirmingLock] = useState(false);
+
+  const defaults = useMemo(() => getCloseoutDefaults(project, analysis), [project, analysis]);
+  const locked = closeout ? getLockedCloseout(closeout) : null;
+  const projection = locked?.projection ?? getCloseoutProjection(project, analysis);
+  const realized = locked?.realized ?? (closeout ? calculateRealizedPnl(closeout, project, settings) : null);
+  const variance = realized ? buildCloseoutVariance(realized, projection) : [];
+
+  // Open the tab before the request so popup blockers allow it
+  const openPostMortem = async () => {
+    const previewWindow = window.open('', '_blank');
+
+    try {
+      const report = await generateProjectReport.mutateAsync({ projectId: project.id, type: 'post-mortem' });
+      const url = URL.createObjectURL(report.blob);
+
+      if (previewWindow) {
+        previewWindow.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error) {
+      previewWindow?.close();
+      console.error('Error generating post-mortem:', error);
+      toast.error('Failed to generate post-mortem report');
+    }
+  };
+
+  const handleLock = () => {
+    if (!closeout || !realized) return;
+
+    lockCloseout.mutate(
+      { id: closeout.id, results: toCloseoutResults(realized, projection) },
+      {
+        onSuccess: () => {
+          setIsConfirmingLock(false);
+          router.refresh();
+          // Store the post-mortem with the project's reports as of the lock
+          generateProjectReport.mutate(
+            { projectId: project.id, type: 'post-mortem' },
+            {
+              onSuccess: () => toast.success('Post-mortem report saved'),
+              onError: (error) => {
+                console.error('Error generating post-mortem:', error);
+                toast.error('Failed to generate post-mortem report');
+              },
+            }
+          );
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h3 className="font-medium flex items-center gap-2">
+            Closeout
+            {closeout?.locked_at && (
+              <Badge variant="complete">
+                <IconLock className="h-3 w-3 mr-1" />
+                Locked {formatDate(closeout.locked_at)}
+              </Badge>
+            )}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            What the sale actually returned, compared with the underwriting projection.
+          </p>
+        </div>
+        {closeout?.locked_at ? (
+          <Button variant="outline" onClick={openPostMortem} disabled={generateProjectReport.isPending}>
+            <IconFileTypePdf className="h-4 w-4 mr-2" />
+            Post-Mortem PDF
+          </Button>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Button variant={closeout ? 'outline' : 'default'} onClick={() => setIsDialogOpen(true)}>
+              <IconPencil className="h-4 w-4 mr-2" />
+              {closeout ? 'Edit Settlement' : 'Enter Settlement'}
+            </Button>
+            {closeout && (
+              <Button onClick={() => setIsConfirmingLock(true)}>
+                <IconLock className="h-4 w-4 mr-2" />
+                Lock Closeout
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!realized ? (
+        <div className="empty-state rounded-lg border">
+          <IconFlagCheck className="empty-state-icon" />
+          <p className="empty-state-title">No settlement yet</p>
+          <p className="empty-state-description">
+            Once the sale closes, enter the settlement statement to see realized profit, ROI and hold time against
+            the underwriting.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Realized Profit</p>
+              <p className={cn('text-xl font-semibold', realized.profit < 0 && 'text-red-500')}>
+                {formatCurrency(realized.profit)}
+              </p>
+              <p className="text-xs text-muted-foreground">{formatCurrency(projection.profit)} projected</p>
+            </div>
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Realized ROI</p>
+              <p className={cn('text-xl font-semibold', realized.roi < 0 && 'text-red-500')}>
+                {realized.roi.toFixed(1)}%
+              </p>
+              <p className="text-xs text-muted-foreground">{projection.roi.toFixed(1)}% projected</p>
+            </div>
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Hold</p>
+              <p className="text-xl font-semibold">{realized.holdDays} days</p>
+              <p className="text-xs text-muted-foreground">{projection.holdDays} days projected</p>
+            </div>
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Cash at Settlement</p>
+              <p className="text-xl font-semibold">{formatCurrency(realized.cashReturned)}</p>
+              <p className="text-xs text-muted-foreground">
+                After {formatCurrency(realized.sellingCosts)} selling costs and the loan payoff
+              </p>
+            </div>
+          </div>
+
+          <div className="rounded-lg border overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="table-header">
+                    <th className="text-left p-3">&nbsp;</th>
+                    <th className="text-right p-3">Projected</th>
+                    <th className="text-right p-3">Actual</th>
+                    <th className="text-right p-3">Variance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {variance.map((line) => (
+                    <tr key={line.label} className={cn('border-t', line.label === 'Profit' && 'font-medium')}>
+                      <td className="p-3">{line.label}</td>
+                      <td className="p-3 text-right">{formatCurrency(line.projected)}</td>
+                      <td className="p-3 text-right">{formatCurrency(line.actual)}</td>
+                      <td
+                        className={cn(
+                          'p-3 text-right',
+                          line.variance === 0
+                            ? 'text-muted-foreground'
+                            : line.favorable
+                              ? 'text-green-600'
+                              : 'text-red-500'
+                        )}
+                      >
+                        {line.variance === 0 ? '-' : formatVariance(line.variance)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Settled {formatDate(closeout?.sale_date)}. Holding &amp; financing includes{' '}
+            {formatCurrency(realized.payoffInterest)} of interest and fees in the loan payoff. The projection is the
+            underwriting budget with its contingency.
+          </p>
+        </>
+      )}
+
+      <CloseoutDialog
+        projectId={project.id}
+        closeDate={project.close_date}
+        closeout={closeout}
+        defaults={defaults}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onSaved={() => router.refresh()}
+      />
+
+      <ConfirmDialog
+        open={isConfirmingLock}
+        onOpenChange={setIsConfirmingLock}
+        title="Lock closeout?"
+        description={`The realized results will be frozen, the project marked sold on ${formatDate(
+          closeout?.sale_date
+        )} and a post-mortem report saved. A locked closeout can't be edited.`}
+        confirmText="Lock"
+        isPending={lockCloseout.isPending}
+        onConfirm={handleLock}
+      />
+    </div>
+  );
+}
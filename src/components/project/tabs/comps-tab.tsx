@@ -0,0 +1,390 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { IconCheck, IconHomeSearch, IconPencil, IconPlus, IconTrash, IconUpload } from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { CompDialog } from '@/components/project/comp-dialog';
+import { CompsImportDialog } from '@/components/project/comps-import-dialog';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { COMPS_CONFIDENCE_LABELS, type CompsConfidence, type CompsValuation } from '@/lib/comps';
+import { useProjectCompMutations } from '@/hooks/use-project-comps';
+import { COMP_CONDITION_LABELS, type Project, type ProjectComp } from '@/types';
+
+interface CompsTabProps {
+  project: Project;
+  comps: ProjectComp[];
+  valuation: CompsValuation | null;
+}
+
+const CONFIDENCE_BADGES: Record<CompsConfidence, 'active' | 'pending' | 'destructive'> = {
+  high: 'active',
+  medium: 'pending',
+  low: 'destructive',
+};
+
+const formatAdjustment = (value: number) =>
+  value === 0 ? '-' : `${value > 0 ? '+' : ''}${formatCurrency(value)}`;
+
+/**
+ * Comparable sales behind the ARV. Selected comps are adjusted to the
+ * subject, and the mean adjusted $/sqft gives an indicated ARV with a range
+ * that can replace the project's ARV.
+ */
+export function CompsTab({ project, comps, valuation }: CompsTabProps) {
+  const router = useRouter();
+  const { selectComp, deleteComp, updateAdjustments, applyArv } = useProjectCompMutations(project.id);
+  const [editing, setEditing] = useState<ProjectComp | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState<ProjectComp | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [sqftRate, setSqftRate] = useState<number | null>(null);
+  const [bedRate, setBedRate] = useState<number | null>(null);
+  const [bathRate, setBathRate] = useState<number | null>(null);
+  const [conditionPercent, setConditionPercent] = useState('');
+
+  useEffect(() => {
+    setSqftRate(project.comp_sqft_adjustment == null ? null : Number(project.comp_sqft_adjustment));
+    setBedRate(Number(project.comp_bed_adjustment));
+    setBathRate(Number(project.comp_bath_adjustment));
+    setConditionPercent(String(Number(project.comp_condition_adjustment)));
+  }, [
+    project.comp_sqft_adjustment,
+    project.comp_bed_adjustment,
+    project.comp_bath_adjustment,
+    project.comp_condition_adjustment,
+  ]);
+
+  const openDialog = (comp: ProjectComp | null) => {
+    setEditing(comp);
+    setIsDialogOpen(true);
+  };
+
+  const handleSaveAdjustments = () => {
+    updateAdjustments.mutate(
+      {
+        comp_sqft_adjustment: sqftRate,
+        comp_bed_adjustment: bedRate ?? 0,
+        comp_bath_adjustment: bathRate ?? 0,
+        comp_condition_adjustment: Math.max(0, Number(conditionPercent) || 0),
+      },
+      { onSuccess: () => router.refresh() }
+    );
+  };
+
+  const adjustedById = new Map(valuation?.comps.map((adjusted) => [adjusted.comp.id, adjusted]));
+  const arvGap = valuation && project.arv ? Number(project.arv) - valuation.arv : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h3 className="font-medium">Comparable Sales</h3>
+          <p className="text-sm text-muted-foreground">
+            Recent sales that support the ARV. Each selected comp is adjusted to this property in renovated
+            condition.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <CompsImportDialog
+            projectId={project.id}
+            onImported={() => router.refresh()}
+            trigger={
+              <Button variant="outline">
+                <IconUpload className="h-4 w-4 mr-2" />
+                Import CSV
+              </Button>
+            }
+          />
+          <Button onClick={() => openDialog(null)}>
+            <IconPlus className="h-4 w-4 mr-2" />
+            Add Comp
+          </Button>
+        </div>
+      </div>
+
+      {!project.sqft && (
+        <p className="text-sm text-yellow-700 dark:text-yellow-400">
+          Add the property&apos;s square footage to value it from comps.
+        </p>
+      )}
+
+      {valuation && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="rounded-lg border bg-card p-4">
+            <p className="text-sm text-muted-foreground">Indicated ARV</p>
+            <p className="text-xl font-semibold">{formatCurrency(valuation.arv)}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatCurrency(valuation.low)} to {formatCurrency(valuation.high)}
+            </p>
+          </div>
+          <div className="rounded-lg border bg-card p-4">
+            <p className="text-sm text-muted-foreground">Adjusted $/SF</p>
+            <p className="text-xl font-semibold">{formatCurrency(valuation.perSqft)}</p>
+            <p className="text-xs text-muted-foreground">
+              {valuation.comps.length} comp{valuation.comps.length === 1 ? '' : 's'} ×{' '}
+              {Number(project.sqft).toLocaleString()} sq ft
+            </p>
+          </div>
+          <div className="rounded-lg border bg-card p-4">
+            <p className="text-sm text-muted-foreground">Confidence</p>
+            <div className="mt-1">
+              <Badge variant={CONFIDENCE_BADGES[valuation.confidence]}>
+                {COMPS_CONFIDENCE_LABELS[valuation.confidence]}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">±{(valuation.spread * 100).toFixed(1)}% spread</p>
+          </div>
+          <div className="rounded-lg border bg-card p-4">
+            <p className="text-sm text-muted-foreground">ARV Used</p>
+            <p className="text-xl font-semibold">{project.arv ? formatCurrency(Number(project.arv)) : '-'}</p>
+            <div className="flex items-center justify-between gap-2">
+              <p
+                className={cn(
+                  'text-xs',
+                  Number(project.arv) > valuation.high ? 'text-red-600' : 'text-muted-foreground'
+                )}
+              >
+                {arvGap === null
+                  ? 'Not set'
+                  : arvGap === 0
+                    ? 'Matches comps'
+                    : `${arvGap > 0 ? '+' : ''}${formatCurrency(arvGap)} vs comps`}
+              </p>
+              {arvGap !== 0 && (
+                <button
+                  type="button"
+                  onClick={() => setIsApplying(true)}
+                  className="text-xs font-medium text-primary hover:underline"
+                >
+                  Use as ARV
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg border bg-card p-4 space-y-3">
+        <div>
+          <h4 className="text-sm font-medium">Adjustments</h4>
+          <p className="text-xs text-muted-foreground">
+            Per unit of difference from this property ({project.sqft ? `${project.sqft.toLocaleString()} sq ft` : 'sq ft not set'},{' '}
+            {project.beds ?? '-'} bd / {project.baths ?? '-'} ba). Leave the size rate blank to use half the comps&apos;
+            median $/SF{valuation && project.comp_sqft_adjustment == null ? ` (${formatCurrency(valuation.sqftRate)})` : ''}.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="comp_sqft_rate">Per Sq Ft</Label>
+            <CurrencyInput id="comp_sqft_rate" value={sqftRate} onChange={setSqftRate} placeholder="Auto" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="comp_bed_rate">Per Bedroom</Label>
+            <CurrencyInput id="comp_bed_rate" value={bedRate} onChange={setBedRate} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="comp_bath_rate">Per Bathroom</Label>
+            <CurrencyInput id="comp_bath_rate" value={bathRate} onChange={setBathRate} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="comp_condition_rate">Per Condition Step (%)</Label>
+            <Input
+              id="comp_condition_rate"
+              type="number"
+              step="0.5"
+              min={0}
+              value={conditionPercent}
+              onChange={(e) => setConditionPercent(e.target.value)}
+            />
+          </div>
+          <LoadingButton
+            variant="outline"
+            onClick={handleSaveAdjustments}
+            isLoading={updateAdjustments.isPending}
+            loadingText="Saving..."
+          >
+            <IconCheck className="h-4 w-4" />
+            Save Adjustments
+          </LoadingButton>
+        </div>
+      </div>
+
+      {comps.length === 0 ? (
+        <div className="empty-state rounded-lg border">
+          <IconHomeSearch className="empty-state-icon" />
+          <p className="empty-state-title">No comps</p>
+          <p className="empty-state-description">
+            Add recent nearby sales by hand or import sold listings exported from the MLS to support the ARV.
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-lg border overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="table-header">
+                  <th className="p-3 w-10"></th>
+                  <th className="text-left p-3">Address</th>
+                  <th className="text-right p-3">Sale Price</th>
+                  <th className="text-right p-3">Sq Ft</th>
+                  <th className="text-right p-3">$/SF</th>
+                  <th className="text-center p-3">Bd/Ba</th>
+                  <th className="text-right p-3">Miles</th>
+                  <th className="text-left p-3">Condition</th>
+                  <th className="text-right p-3">Adjustments</th>
+                  <th className="text-right p-3">Adjusted</th>
+                  <th className="text-right p-3">Adj. $/SF</th>
+                  <th className="w-20" />
+                </tr>
+              </thead>
+              <tbody>
+                {comps.map((comp) => {
+                  const adjusted = adjustedById.get(comp.id);
+                  const totalAdjustment = adjusted ? adjusted.adjustedPrice - adjusted.comp.sale_price : null;
+                  return (
+                    <tr key={comp.id} className={cn('border-t group', !comp.is_selected && 'text-muted-foreground')}>
+                      <td className="p-3">
+                        <Checkbox
+                          checked={comp.is_selected}
+                          disabled={selectComp.isPending}
+                          onCheckedChange={(checked) =>
+                            selectComp.mutate(
+                              { id: comp.id, isSelected: checked === true },
+                              { onSuccess: () => router.refresh() }
+                            )
+                          }
+                          title={comp.is_selected ? 'Leave out of the ARV' : 'Use in the ARV'}
+                        />
+                      </td>
+                      <td className="p-3">
+                        <div className="font-medium">{comp.address}</div>
+                        <p className="text-xs text-muted-foreground">
+                          {comp.sale_date ? `Sold ${formatDate(comp.sale_date)}` : 'Sale date unknown'}
+                          {comp.notes ? ` · ${comp.notes}` : ''}
+                        </p>
+                      </td>
+                      <td className="p-3 text-right tabular-nums">{formatCurrency(Number(comp.sale_price))}</td>
+                      <td className="p-3 text-right tabular-nums">{comp.sqft.toLocaleString()}</td>
+                      <td className="p-3 text-right tabular-nums">
+                        {formatCurrency(Number(comp.sale_price) / comp.sqft)}
+                      </td>
+                      <td className="p-3 text-center tabular-nums">
+                        {comp.beds ?? '-'}/{comp.baths != null ? Number(comp.baths) : '-'}
+                      </td>
+                      <td className="p-3 text-right tabular-nums">
+                        {comp.distance_miles != null ? Number(comp.distance_miles) : '-'}
+                      </td>
+                      <td className="p-3">{COMP_CONDITION_LABELS[comp.condition]}</td>
+                      <td className="p-3 text-right tabular-nums">
+                        {adjusted ? (
+                          <span
+                            title={[
+                              `Size ${formatAdjustment(adjusted.sqftAdjustment)}`,
+                              `Beds ${formatAdjustment(adjusted.bedAdjustment)}`,
+                              `Baths ${formatAdjustment(adjusted.bathAdjustment)}`,
+                              `Condition ${formatAdjustment(adjusted.conditionAdjustment)}`,
+                            ].join('\n')}
+                          >
+                            {formatAdjustment(totalAdjustment ?? 0)}
+                          </span>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                      <td className="p-3 text-right tabular-nums">
+                        {adjusted ? formatCurrency(adjusted.adjustedPrice) : '-'}
+                      </td>
+                      <td className="p-3 text-right tabular-nums font-medium">
+                        {adjusted ? formatCurrency(adjusted.adjustedPerSqft) : '-'}
+                      </td>
+                      <td className="p-3">
+                        <div className="flex justify-end opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            type="button"
+                            onClick={() => openDialog(comp)}
+                            className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
+                            title="Edit comp"
+                          >
+                            <IconPencil className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setDeleting(comp)}
+                            className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-destructive"
+                            title="Delete comp"
+                          >
+                            <IconTrash className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {valuation && (
+        <p className="text-xs text-muted-foreground">
+          The range is one standard deviation of adjusted $/SF either side of the mean. Confidence is high within ±5%,
+          medium within ±10%, and low beyond that or with fewer than three comps.
+        </p>
+      )}
+
+      <CompDialog
+        projectId={project.id}
+        comp={editing}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onSaved={() => router.refresh()}
+      />
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete comp?"
+        description={`${deleting?.address ?? 'This comp'} will be removed from the comps.`}
+        confirmText="Delete"
+        variant="destructive"
+        isPending={deleteComp.isPending}
+        onConfirm={() =>
+          deleting &&
+          deleteComp.mutate(deleting.id, {
+            onSuccess: () => {
+              setDeleting(null);
+              router.refresh();
+            },
+          })
+        }
+      />
+
+      <ConfirmDialog
+        open={isApplying}
+        onOpenChange={setIsApplying}
+        title="Use comps ARV?"
+        description={`The ARV will change from ${project.arv ? formatCurrency(Number(project.arv)) : 'unset'} to ${formatCurrency(valuation?.arv ?? 0)}. MAO, profit and ROI are recalculated from it.`}
+        confirmText="Use as ARV"
+        isPending={applyArv.isPending}
+        onConfirm={() =>
+          valuation &&
+          applyArv.mutate(valuation.arv, {
+            onSuccess: () => {
+              setIsApplying(false);
+              router.refresh();
+            },
+          })
+        }
+      />
+    </div>
+  );
+}
@@ -1,19 +1,34 @@
 'use client';
 
 import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { IconLoader2 } from '@tabler/icons-react';
+import { toast } from 'sonner';
 import type { Project } from '@/types';
-import { formatCurrency, formatDate, cn } from '@/lib/utils';
-import { PROJECT_STATUS_LABELS } from '@/types';
+import { formatCurrency, formatDate, cn, getROIColorClass } from '@/lib/utils';
+import type { ProjectDealAnalysis } from '@/lib/deal-analysis';
+import { COMPS_CONFIDENCE_LABELS, type CompsValuation } from '@/lib/comps';
+import {
+  PROJECT_STATUS_LABELS,
+  MAO_METHOD_LABELS,
+  MAO_METHOD_DESCRIPTIONS,
+  COMP_CONDITION_LABELS,
+} from '@/types';
 import { RichTextEditor } from '@/components/editor';
+import { CalculationProfileSelect } from '@/components/settings/calculation-profile-select';
 import { useAutoSaveNotes } from '@/hooks';
+import { useChangeOrders } from '@/hooks/use-change-orders';
+import { getChangeOrderTotal } from '@/lib/change-orders';
+import {
+  useProjectCalculationSettings,
+  useAssignProjectCalculationSettings,
+} from '@/hooks/use-calculation-settings';
 
 interface DealSummaryTabProps {
   project: Project;
-  underwritingTotal: number;
-  forecastTotal: number;
-  actualTotal: number;
-  contingencyPercent: number;
+  analysis: ProjectDealAnalysis;
+  /** Comps-indicated ARV, when the project has selected comps */
+  compsValuation: CompsValuation | null;
 }
 
 /**
@@ -38,13 +53,24 @@ function plainTextToHtml(text: string): string {
     .join('');
 }
 
-export function DealSummaryTab({
-  project,
-  underwritingTotal,
-  forecastTotal,
-  actualTotal,
-  contingencyPercent,
-}: DealSummaryTabProps) {
+export function DealSummaryTab({ project, analysis, compsValuation }: DealSummaryTabProps) {
+  const router = useRouter();
+  const { settings, profiles, defaultProfile } = useProjectCalculationSettings(project);
+  const assignSettings = useAssignProjectCalculationSettings();
+  const { data: changeOrders = [] } = useChangeOrders(project.id);
+
+  const handleProfileChange = async (settingsId: string | null) => {
+    try {
+      await assignSettings.mutateAsync({ projectId: project.id, settingsId });
+      // Project data is loaded on the server, so refresh to pick up the new profile
+      router.refresh();
+      toast.success('Calculation profile updated');
+    } catch (error) {
+      console.error('Error assigning calculation profile:', error);
+      toast.error('Failed to update calculation profile');
+    }
+  };
+
   // Auto-save notes hook
   const {
     notes,
@@ -68,64 +94,37 @@ export function DealSummaryTab({
     resetNotes(initialContent);
   }, [project.notes, resetNotes]);
 
-  // Base values
-  const arv = project.arv || 0;
-  const purchasePrice = project.purchase_price || 0;
-  const closingCosts = project.closing_costs || 0;
-  const holdingCostsMonthly = project.holding_costs_monthly || 0;
-  const holdMonths = project.hold_months || 4;
-  const sellingCostPercent = project.selling_cost_percent || 8;
+  const { underwritingTotal, forecastTotal, actualTotal, activeScenario, mao } = analysis;
+  const underwritingScenario = analysis.underwriting;
+  const forecastScenario = analysis.forecast;
+  const actualScenario = analysis.actual;
 
-  // Contingency calculations for each phase
-  const underwritingContingency = underwritingTotal * (contingencyPercent / 100);
-  const forecastContingency = forecastTotal * (contingencyPercent / 100);
-  const underwritingWithContingency = underwritingTotal + underwritingContingency;
-  const forecastWithContingency = forecastTotal + forecastContingency;
-
-  // Use primary budget (forecast if available, otherwise underwriting)
-  const primaryBudget = forecastTotal > 0 ? forecastWithContingency : underwritingWithContingency;
+  // Acquisition and carrying costs don't depend on the budget phase
+  const { arv, purchasePrice, closingCosts, holdMonths, holdingCosts, holdingCostsMonthly, sellingCosts, financingCosts } =
+    analysis.primary;
+  const { financing } = analysis;
+  const sellingCostPercent = analysis.primary.sellingCostPercent;
+  const formatRate = (percent: number) => `${Number(percent.toFixed(1))}%`;
 
   // Variances
+  const primaryBudget = forecastTotal > 0 ? forecastTotal : underwritingTotal;
   const forecastVsUnderwriting = forecastTotal - underwritingTotal;
   const forecastVsUnderwritingPercent = underwritingTotal > 0
     ? (forecastVsUnderwriting / underwritingTotal) * 100
     : 0;
-  const actualVsForecast = actualTotal - (forecastTotal > 0 ? forecastTotal : underwritingTotal);
-  const actualVsForecastPercent = (forecastTotal > 0 ? forecastTotal : underwritingTotal) > 0
-    ? (actualVsForecast / (forecastTotal > 0 ? forecastTotal : underwritingTotal)) * 100
-    : 0;
+  const actualVsForecast = actualTotal - primaryBudget;
   const actualVsUnderwriting = actualTotal - underwritingTotal;
   const actualVsUnderwritingPercent = underwritingTotal > 0
     ? (actualVsUnderwriting / underwritingTotal) * 100
     : 0;
+  // Part of the forecast's move from underwriting that came through approved change orders
+  const approvedChangeOrders = changeOrders
+    .filter((co) => co.status === 'approved')
+    .reduce((sum, co) => sum + getChangeOrderTotal(co), 0);
 
-  // Common costs
-  const holdingCostsTotal = holdingCostsMonthly * holdMonths;
-  const sellingCosts = arv * (sellingCostPercent / 100);
-
-  // Calculate scenarios for each budget phase
-  const calculateScenario = (rehabBudget: number) => {
-    const totalInvestment = purchasePrice + rehabBudget + closingCosts + holdingCostsTotal + sellingCosts;
-    const grossProfit = arv - totalInvestment;
-    const roi = totalInvestment > 0 ? (grossProfit / totalInvestment) * 100 : 0;
-    return { totalInvestment, grossProfit, roi };
-  };
-
-  const underwritingScenario = calculateScenario(underwritingWithContingency);
-  const forecastScenario = calculateScenario(forecastWithContingency);
-  const actualScenario = calculateScenario(actualTotal);
-
-  // MAO uses underwriting budget (pre-deal estimate)
-  const mao = arv * 0.7 - underwritingWithContingency;
-  const spread = mao - purchasePrice;
-
-  // Determine which scenario to highlight based on project status
-  const getActiveScenario = () => {
-    if (actualTotal > 0) return 'actual';
-    if (forecastTotal > 0) return 'forecast';
-    return 'underwriting';
-  };
-  const activeScenario = getActiveScenario();
+  // MAO uses the underwriting budget (pre-deal estimate) and the project's calculation profile
+  const maoMethodLabel = MAO_METHOD_LABELS[settings.mao_method];
+  const spread = underwritingScenario.spread;
 
   return (
     <div className="space-y-6">
@@ -217,12 +216,14 @@ export function DealSummaryTab({
             <p className="text-2xl font-bold tabular-nums">{formatCurrency(underwritingTotal)}</p>
             <div className="mt-3 pt-3 border-t text-sm">
               <div className="flex justify-between">
-                <span className="text-muted-foreground">+ Contingency ({contingencyPercent}%)</span>
-                <span className="tabular-nums">{formatCurrency(underwritingContingency)}</span>
+                <span className="text-muted-foreground">
+                  + Contingency ({formatRate(underwritingScenario.contingencyPercent)})
+                </span>
+                <span className="tabular-nums">{formatCurrency(underwritingScenario.contingency)}</span>
               </div>
               <div className="flex justify-between font-medium mt-1">
                 <span>Total</span>
-                <span className="tabular-nums">{formatCurrency(underwritingWithContingency)}</span>
+                <span className="tabular-nums">{formatCurrency(underwritingScenario.rehabWithContingency)}</span>
               </div>
             </div>
           </div>
@@ -251,14 +252,21 @@ export function DealSummaryTab({
                 ({forecastVsUnderwritingPercent >= 0 ? '+' : ''}{forecastVsUnderwritingPercent.toFixed(1)}%)
               </p>
             )}
+            {approvedChangeOrders !== 0 && (
+              <p className="text-xs text-muted-foreground tabular-nums">
+                incl. {approvedChangeOrders > 0 ? '+' : ''}{formatCurrency(approvedChangeOrders)} approved change orders
+              </p>
+            )}
             <div className="mt-3 pt-3 border-t text-sm">
               <div className="flex justify-between">
-                <span className="text-muted-foreground">+ Contingency ({contingencyPercent}%)</span>
-                <span className="tabular-nums">{formatCurrency(forecastContingency)}</span>
+                <span className="text-muted-foreground">
+                  + Contingency ({formatRate(forecastScenario.contingencyPercent)})
+                </span>
+                <span className="tabular-nums">{formatCurrency(forecastScenario.contingency)}</span>
               </div>
               <div className="flex justify-between font-medium mt-1">
                 <span>Total</span>
-                <span className="tabular-nums">{formatCurrency(forecastWithContingency)}</span>
+                <span className="tabular-nums">{formatCurrency(forecastScenario.rehabWithContingency)}</span>
               </div>
             </div>
           </div>
@@ -320,6 +328,11 @@ export function DealSummaryTab({
             <div>
               <p className="text-sm text-muted-foreground">ARV</p>
               <p className="text-xl font-semibold text-primary tabular-nums">{formatCurrency(arv)}</p>
+              {compsValuation && (
+                <p className="text-xs text-muted-foreground tabular-nums">
+                  Comps {formatCurrency(compsValuation.low)} to {formatCurrency(compsValuation.high)}
+                </p>
+              )}
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Purchase Price</p>
@@ -329,6 +342,15 @@ export function DealSummaryTab({
               <p className="text-sm text-muted-foreground">Closing Costs</p>
               <p className="text-lg font-medium tabular-nums">{formatCurrency(closingCosts)}</p>
             </div>
+            {financing && (
+              <div>
+                <p className="text-sm text-muted-foreground">Cash Needed at Closing</p>
+                <p className="text-lg font-medium tabular-nums">{formatCurrency(financing.cashNeededAtClosing)}</p>
+                <p className="text-xs text-muted-foreground tabular-nums">
+                  {formatCurrency(financing.purchaseFunding)} financed
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Column 2: Carrying Costs */}
@@ -340,11 +362,16 @@ export function DealSummaryTab({
               <p className="text-sm text-muted-foreground tabular-nums">
                 Holding ({holdMonths} mo × {formatCurrency(holdingCostsMonthly)})
               </p>
-              <p className="text-lg font-medium tabular-nums">{formatCurrency(holdingCostsTotal)}</p>
+              <p className="text-lg font-medium tabular-nums">{formatCurrency(holdingCosts)}</p>
+              {financing && (
+                <p className="text-xs text-muted-foreground tabular-nums">
+                  incl. {formatCurrency(financingCosts)} cost of capital
+                </p>
+              )}
             </div>
             <div>
               <p className="text-sm text-muted-foreground tabular-nums">
-                Selling Costs ({sellingCostPercent}%)
+                Selling Costs ({formatRate(sellingCostPercent)})
               </p>
               <p className="text-lg font-medium tabular-nums">{formatCurrency(sellingCosts)}</p>
             </div>
@@ -395,7 +422,7 @@ export function DealSummaryTab({
               <p className="text-sm text-muted-foreground">Underwriting</p>
               <p className={cn(
                 'text-lg font-medium tabular-nums',
-                underwritingScenario.roi >= 15 ? 'text-green-500' : underwritingScenario.roi >= 10 ? 'text-amber-500' : 'text-red-500'
+                getROIColorClass(underwritingScenario.roi, settings)
               )}>
                 {underwritingScenario.roi.toFixed(1)}%
               </p>
@@ -404,7 +431,7 @@ export function DealSummaryTab({
               <p className="text-sm text-muted-foreground">Forecast</p>
               <p className={cn(
                 'text-lg font-medium tabular-nums',
-                forecastScenario.roi >= 15 ? 'text-green-500' : forecastScenario.roi >= 10 ? 'text-amber-500' : 'text-red-500'
+                getROIColorClass(forecastScenario.roi, settings)
               )}>
                 {forecastScenario.roi.toFixed(1)}%
               </p>
@@ -414,7 +441,7 @@ export function DealSummaryTab({
                 <p className="text-sm text-muted-foreground">Actual</p>
                 <p className={cn(
                   'text-lg font-medium tabular-nums',
-                  actualScenario.roi >= 15 ? 'text-green-500' : actualScenario.roi >= 10 ? 'text-amber-500' : 'text-red-500'
+                  getROIColorClass(actualScenario.roi, settings)
                 )}>
                   {actualScenario.roi.toFixed(1)}%
                 </p>
@@ -424,15 +451,107 @@ export function DealSummaryTab({
         </div>
       </div>
 
+      {/* ARV Support */}
+      {compsValuation && (
+        <div className="rounded-lg border bg-card p-5">
+          <div className="flex items-center justify-between mb-4 gap-4">
+            <h3 className="font-medium">ARV Support</h3>
+            <span
+              className={cn(
+                'text-sm font-medium',
+                compsValuation.confidence === 'high'
+                  ? 'text-green-600'
+                  : compsValuation.confidence === 'medium'
+                    ? 'text-yellow-600'
+                    : 'text-red-600'
+              )}
+            >
+              {COMPS_CONFIDENCE_LABELS[compsValuation.confidence]} confidence
+            </span>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Comps ARV</p>
+              <p className="text-lg font-medium tabular-nums">{formatCurrency(compsValuation.arv)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Range</p>
+              <p className="text-lg font-medium tabular-nums">
+                {formatCurrency(compsValuation.low)} to {formatCurrency(compsValuation.high)}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Adjusted $/SF</p>
+              <p className="text-lg font-medium tabular-nums">{formatCurrency(compsValuation.perSqft)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">ARV Used vs Comps</p>
+              <p
+                className={cn(
+                  'text-lg font-medium tabular-nums',
+                  arv > compsValuation.high ? 'text-red-500' : arv < compsValuation.low ? 'text-green-500' : ''
+                )}
+              >
+                {arv - compsValuation.arv > 0 ? '+' : ''}
+                {formatCurrency(arv - compsValuation.arv)}
+              </p>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="table-header">
+                  <th className="text-left p-2">Comp</th>
+                  <th className="text-right p-2">Sale Price</th>
+                  <th className="text-right p-2">Sq Ft</th>
+                  <th className="text-left p-2">Condition</th>
+                  <th className="text-right p-2">Adjusted</th>
+                  <th className="text-right p-2">Adj. $/SF</th>
+                </tr>
+              </thead>
+              <tbody>
+                {compsValuation.comps.map(({ comp, adjustedPrice, adjustedPerSqft }) => (
+                  <tr key={comp.id} className="border-t">
+                    <td className="p-2">
+                      {comp.address}
+                      {comp.sale_date && (
+                        <span className="text-xs text-muted-foreground"> · {formatDate(comp.sale_date)}</span>
+                      )}
+                    </td>
+                    <td className="p-2 text-right tabular-nums">{formatCurrency(comp.sale_price)}</td>
+                    <td className="p-2 text-right tabular-nums">{comp.sqft.toLocaleString()}</td>
+                    <td className="p-2">{COMP_CONDITION_LABELS[comp.condition]}</td>
+                    <td className="p-2 text-right tabular-nums">{formatCurrency(adjustedPrice)}</td>
+                    <td className="p-2 text-right tabular-nums font-medium">{formatCurrency(adjustedPerSqft)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* MAO Section */}
       <div className="rounded-lg border bg-card p-5">
-        <h3 className="font-medium mb-4">Maximum Allowable Offer (70% Rule)</h3>
+        <div className="flex items-center justify-between mb-4 gap-4">
+          <h3 className="font-medium">Maximum Allowable Offer ({maoMethodLabel})</h3>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Calculation profile</span>
+            <CalculationProfileSelect
+              profiles={profiles}
+              defaultProfile={defaultProfile}
+              value={project.calculation_settings_id}
+              onValueChange={handleProfileChange}
+              allowDefault
+              disabled={assignSettings.isPending}
+              className="h-8"
+            />
+          </div>
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div>
             <p className="text-sm text-muted-foreground mb-1">Calculation</p>
-            <p className="text-sm tabular-nums">
-              {formatCurrency(arv)} × 70% − {formatCurrency(underwritingWithContingency)}
-            </p>
+            <p className="text-sm">{MAO_METHOD_DESCRIPTIONS[settings.mao_method]}</p>
             <p className="text-xs text-muted-foreground mt-1">
               Uses underwriting budget + contingency
             </p>
@@ -510,7 +629,7 @@ export function DealSummaryTab({
         </div>
         <div className="rounded-lg border bg-card p-4 text-center">
           <p className="text-3xl font-bold tabular-nums">{formatCurrency(mao)}</p>
-          <p className="text-sm text-muted-foreground">MAO (70% Rule)</p>
+          <p className="text-sm text-muted-foreground">MAO ({maoMethodLabel})</p>
         </div>
       </div>
 
@@ -1,10 +1,25 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import type { Draw, Vendor, DrawMilestone, DrawStatus, PaymentMethod } from '@/types';
+import {
+  DRAW_ATTACHMENT_TYPE_LABELS,
+  PAYMENT_METHOD_LABELS,
+  type BudgetItem,
+  type CalculationSettingsInput,
+  type Draw,
+  type DrawAttachment,
+  type Vendor,
+  type DrawMilestone,
+  type DrawStatus,
+  type PaymentMethod,
+  type ProjectLoan,
+  type ProjectSummary,
+} from '@/types';
 import { formatCurrency, formatDate, cn } from '@/lib/utils';
 import { getSupabaseClient } from '@/lib/supabase/client';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces';
 import { toast } from 'sonner';
 import {
   IconPlus,
@@ -17,6 +32,9 @@ import {
   IconCurrencyDollar,
   IconExternalLink,
   IconLoader2,
+  IconPaperclip,
+  IconListDetails,
+  IconShieldExclamation,
 } from '@tabler/icons-react';
 import {
   AlertDialog,
@@ -29,16 +47,31 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { LoadingButton } from '@/components/ui/loading-button';
+import { DrawRequestLinksDialog } from '@/components/project/draw-request-links-dialog';
+import { DrawAllocationsDialog } from '@/components/project/draw-allocations-dialog';
+import { DrawPacketButton } from '@/components/pdf/draw-packet-button';
+import { RecordHistoryPopover } from '@/components/project/record-history-popover';
+import { useDrawAllocations } from '@/hooks/use-draw-allocations';
+import { getDrawPayment, summarizeRetainage, type DrawPayment } from '@/lib/draw-allocations';
+import { useDrawAttachments, useDrawRequestTokenMutations } from '@/hooks/use-draw-requests';
+import { useDrawMutations } from '@/hooks/use-draw-mutations';
+import { useVendorDocuments } from '@/hooks/use-vendor-documents';
+import { getVendorInsurance, VendorInsuranceLapsedError } from '@/lib/vendor-compliance';
+import type { AuditValueContext } from '@/lib/audit-log';
 
 interface DrawsTabProps {
-  projectId: string;
+  project: ProjectSummary;
   draws: Draw[];
   vendors: Vendor[];
+  budgetItems: BudgetItem[];
   totalBudget: number;
+  settings: CalculationSettingsInput;
+  loans: ProjectLoan[];
 }
 
 interface DrawFormData {
   vendor_id: string;
+  loan_id: string;
   milestone: DrawMilestone | '';
   description: string;
   percent_complete: number | '';
@@ -54,26 +87,28 @@ const MILESTONE_LABELS: Record<DrawMilestone, string> = {
   final: 'Final',
 };
 
-const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
-  check: 'Check',
-  zelle: 'Zelle',
-  venmo: 'Venmo',
-  wire: 'Wire',
-  cash: 'Cash',
-  credit_card: 'Credit Card',
-  other: 'Other',
-};
+// A status change refused because the vendor's insurance has lapsed
+interface ComplianceBlock {
+  draw: Draw;
+  status: DrawStatus;
+  message: string;
+  paymentMethod?: PaymentMethod;
+  referenceNumber?: string | null;
+}
 
 const defaultFormData: DrawFormData = {
   vendor_id: '',
+  loan_id: '',
   milestone: '',
   description: '',
   percent_complete: '',
   amount: '',
 };
 
-export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabProps) {
+export function DrawsTab({ project, draws, vendors, budgetItems, totalBudget, settings, loans }: DrawsTabProps) {
+  const projectId = project.id;
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   // Form state
   const [isAddingDraw, setIsAddingDraw] = useState(false);
@@ -86,11 +121,18 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
   // Delete state
   const [drawToDelete, setDrawToDelete] = useState<Draw | null>(null);
 
+  // Allocation dialog state
+  const [allocatingDraw, setAllocatingDraw] = useState<Draw | null>(null);
+
   // Payment modal state
   const [payingDraw, setPayingDraw] = useState<Draw | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('check');
   const [referenceNumber, setReferenceNumber] = useState('');
 
+  // Compliance override state
+  const [complianceBlock, setComplianceBlock] = useState<ComplianceBlock | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+
   // Calculate totals
   const totalPaid = draws
     .filter((d) => d.status === 'paid')
@@ -100,6 +142,40 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
     .reduce((sum, d) => sum + d.amount, 0);
   const remaining = totalBudget - totalPaid - totalPending;
 
+  // Budget line allocations for retainage and net payable
+  const { data: allocations = [] } = useDrawAllocations(projectId);
+
+  // Retainage still held back from vendors across all draws
+  const retainageHeld = summarizeRetainage(draws, allocations).reduce((sum, v) => sum + v.held, 0);
+
+  // Vendor uploads from the draw request portal, grouped by draw
+  const { data: attachments = [] } = useDrawAttachments(projectId);
+  const { getAttachmentUrl } = useDrawRequestTokenMutations(projectId);
+  const attachmentsByDraw = new Map<string, DrawAttachment[]>();
+  attachments.forEach((attachment) => {
+    const existing = attachmentsByDraw.get(attachment.draw_id) || [];
+    existing.push(attachment);
+    attachmentsByDraw.set(attachment.draw_id, existing);
+  });
+
+  // Vendors whose latest certificate of insurance has expired
+  const { data: vendorDocuments = [] } = useVendorDocuments();
+  const { updateStatus } = useDrawMutations(projectId);
+  const isVendorLapsed = (vendorId: string | null) =>
+    !!vendorId &&
+    getVendorInsurance(vendorDocuments.filter((doc) => doc.vendor_id === vendorId)).status === 'lapsed';
+  // The draw's vendor and every vendor its budget line allocations pay
+  const hasLapsedVendor = (draw: Draw) =>
+    [draw.vendor_id, ...allocations.filter((a) => a.draw_id === draw.id).map((a) => a.vendor_id)].some(
+      isVendorLapsed
+    );
+
+  // Vendor names for the per-draw history popover
+  const historyContext = useMemo<AuditValueContext>(
+    () => ({ vendorNames: Object.fromEntries(vendors.map((v) => [v.id, v.name])) }),
+    [vendors]
+  );
+
   // Get next draw number
   const nextDrawNumber = draws.length > 0 ? Math.max(...draws.map((d) => d.draw_number)) + 1 : 1;
 
@@ -113,12 +189,15 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
   // Create mutation
   const createMutation = useMutation({
     mutationFn: async (data: DrawFormData) => {
+      assertCapability(role, 'manage_draws');
+
       const supabase = getSupabaseClient();
       const { data: draw, error } = await supabase
         .from('draws')
         .insert({
           project_id: projectId,
           vendor_id: data.vendor_id || null,
+          loan_id: data.loan_id || null,
           draw_number: nextDrawNumber,
           milestone: data.milestone || null,
           description: data.description || null,
@@ -141,13 +220,15 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
     },
     onError: (error) => {
       console.error('Error creating draw:', error);
-      toast.error('Failed to create draw');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to create draw'));
     },
   });
 
   // Update mutation
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: Partial<Draw> }) => {
+      assertCapability(role, 'manage_draws');
+
       const supabase = getSupabaseClient();
       const { data: draw, error } = await supabase
         .from('draws')
@@ -164,17 +245,18 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
       toast.success('Draw updated');
       setEditingDrawId(null);
       setEditFormData(defaultFormData);
-      setPayingDraw(null);
     },
     onError: (error) => {
       console.error('Error updating draw:', error);
-      toast.error('Failed to update draw');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update draw'));
     },
   });
 
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
+      assertCapability(role, 'manage_draws');
+
       const supabase = getSupabaseClient();
       const { error } = await supabase.from('draws').delete().eq('id', id);
       if (error) throw error;
@@ -186,7 +268,7 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
     },
     onError: (error) => {
       console.error('Error deleting draw:', error);
-      toast.error('Failed to delete draw');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete draw'));
     },
   });
 
@@ -203,6 +285,7 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
     setEditingDrawId(draw.id);
     setEditFormData({
       vendor_id: draw.vendor_id || '',
+      loan_id: draw.loan_id || '',
       milestone: draw.milestone || '',
       description: draw.description || '',
       percent_complete: draw.percent_complete || '',
@@ -215,6 +298,7 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
       id: drawId,
       data: {
         vendor_id: editFormData.vendor_id || null,
+        loan_id: editFormData.loan_id || null,
         milestone: editFormData.milestone || null,
         description: editFormData.description || null,
         percent_complete: editFormData.percent_complete ? Number(editFormData.percent_complete) : null,
@@ -223,6 +307,14 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
     });
   };
 
+  // Offer an override when the vendor's insurance has lapsed
+  const blockOnLapsedInsurance = (block: Omit<ComplianceBlock, 'message'>) => (error: Error) => {
+    if (error instanceof VendorInsuranceLapsedError) {
+      setComplianceBlock({ ...block, message: error.message });
+      setOverrideReason('');
+    }
+  };
+
   const handleStatusChange = (draw: Draw, newStatus: DrawStatus) => {
     if (newStatus === 'paid') {
       // Show payment details modal
@@ -230,24 +322,37 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
       setPaymentMethod('check');
       setReferenceNumber('');
     } else {
-      updateMutation.mutate({
-        id: draw.id,
-        data: { status: newStatus },
-      });
+      updateStatus.mutate(
+        { id: draw.id, status: newStatus },
+        { onError: blockOnLapsedInsurance({ draw, status: newStatus }) }
+      );
     }
   };
 
   const handleConfirmPayment = () => {
     if (!payingDraw) return;
-    updateMutation.mutate({
-      id: payingDraw.id,
-      data: {
-        status: 'paid',
-        date_paid: new Date().toISOString().split('T')[0],
-        payment_method: paymentMethod,
-        reference_number: referenceNumber || null,
-      },
-    });
+    const payment = { paymentMethod, referenceNumber: referenceNumber || null };
+    updateStatus.mutate(
+      { id: payingDraw.id, status: 'paid', ...payment },
+      {
+        onSuccess: () => setPayingDraw(null),
+        onError: blockOnLapsedInsurance({ draw: payingDraw, status: 'paid', ...payment }),
+      }
+    );
+  };
+
+  const handleConfirmOverride = () => {
+    if (!complianceBlock) return;
+    const { draw, status, paymentMethod, referenceNumber } = complianceBlock;
+    updateStatus.mutate(
+      { id: draw.id, status, paymentMethod, referenceNumber, complianceOverrideReason: overrideReason },
+      {
+        onSuccess: () => {
+          setComplianceBlock(null);
+          setPayingDraw(null);
+        },
+      }
+    );
   };
 
   const handleConfirmDelete = () => {
@@ -256,8 +361,15 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
     }
   };
 
-  // Generate vendor request link
-  const vendorRequestLink = `${typeof window !== 'undefined' ? window.location.origin : ''}/draw-request/${projectId}`;
+  // Open a vendor-submitted invoice or lien waiver
+  const handleOpenAttachment = async (attachment: DrawAttachment) => {
+    const url = await getAttachmentUrl(attachment.storage_path);
+    if (url) {
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } else {
+      toast.error('Failed to open attachment');
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -270,6 +382,11 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
         <div className="stat-card">
           <p className="stat-label">Total Paid</p>
           <p className="stat-value text-green-600">{formatCurrency(totalPaid)}</p>
+          {retainageHeld > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatCurrency(retainageHeld)} retainage held
+            </p>
+          )}
         </div>
         <div className="stat-card">
           <p className="stat-label">Pending</p>
@@ -323,17 +440,19 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
       <div className="flex items-center justify-between flex-wrap gap-3">
         <h3 className="font-medium">Draw Schedule</h3>
         <div className="flex items-center gap-2">
-          <button
-            onClick={() => {
-              navigator.clipboard.writeText(vendorRequestLink);
-              toast.success('Vendor request link copied!');
-            }}
-            className="inline-flex items-center gap-2 rounded-lg border px-3 py-2 text-sm font-medium hover:bg-muted transition-colors"
-            title="Copy link for vendors to submit draw requests"
-          >
-            <IconExternalLink className="h-4 w-4" />
-            Vendor Request Link
-          </button>
+          <DrawRequestLinksDialog
+            projectId={projectId}
+            vendors={vendors}
+            trigger={
+              <button
+                className="inline-flex items-center gap-2 rounded-lg border px-3 py-2 text-sm font-medium hover:bg-muted transition-colors"
+                title="Issue links for vendors to submit draw requests"
+              >
+                <IconExternalLink className="h-4 w-4" />
+                Vendor Request Links
+              </button>
+            }
+          />
           <button
             onClick={() => setIsAddingDraw(true)}
             className="inline-flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 transition-colors"
@@ -402,7 +521,24 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
                 className="w-full mt-1 p-2 rounded border text-sm"
               />
             </div>
-            <div className="md:col-span-2">
+            {loans.length > 0 && (
+              <div>
+                <label className="text-sm text-muted-foreground">Funded By</label>
+                <select
+                  value={formData.loan_id}
+                  onChange={(e) => setFormData({ ...formData, loan_id: e.target.value })}
+                  className="w-full mt-1 p-2 rounded border text-sm"
+                >
+                  <option value="">Cash</option>
+                  {loans.map((loan) => (
+                    <option key={loan.id} value={loan.id}>
+                      {loan.lender_name} holdback
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className={loans.length > 0 ? undefined : 'md:col-span-2'}>
               <label className="text-sm text-muted-foreground">Description</label>
               <input
                 type="text"
@@ -452,7 +588,7 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
                   <th className="text-center p-3 w-28">Requested</th>
                   <th className="text-center p-3 w-28">Paid</th>
                   <th className="text-center p-3 w-28">Status</th>
-                  <th className="text-center p-3 w-24">Actions</th>
+                  <th className="text-center p-3 w-32">Actions</th>
                 </tr>
               </thead>
               <tbody>
@@ -482,25 +618,75 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
                             {draw.description && (
                               <p className="text-xs text-muted-foreground">{draw.description}</p>
                             )}
+                            {(attachmentsByDraw.get(draw.id) || []).map((attachment) => (
+                              <button
+                                key={attachment.id}
+                                onClick={() => handleOpenAttachment(attachment)}
+                                className="flex items-center gap-1 text-xs text-primary hover:underline"
+                              >
+                                <IconPaperclip className="h-3 w-3" />
+                                {DRAW_ATTACHMENT_TYPE_LABELS[attachment.attachment_type]}
+                                {attachment.file_name && `: ${attachment.file_name}`}
+                              </button>
+                            ))}
                           </>
                         )}
                       </td>
                       <td className="p-3">
                         {isEditing ? (
-                          <select
-                            value={editFormData.vendor_id}
-                            onChange={(e) => setEditFormData({ ...editFormData, vendor_id: e.target.value })}
-                            className="w-full p-1 rounded border text-sm"
-                          >
-                            <option value="">-</option>
-                            {vendors.map((v) => (
-                              <option key={v.id} value={v.id}>
-                                {v.name}
-                              </option>
-                            ))}
-                          </select>
+                          <>
+                            <select
+                              value={editFormData.vendor_id}
+                              onChange={(e) => setEditFormData({ ...editFormData, vendor_id: e.target.value })}
+                              className="w-full p-1 rounded border text-sm"
+                            >
+                              <option value="">-</option>
+                              {vendors.map((v) => (
+                                <option key={v.id} value={v.id}>
+                                  {v.name}
+                                </option>
+                              ))}
+                            </select>
+                            {loans.length > 0 && (
+                              <select
+                                value={editFormData.loan_id}
+                                onChange={(e) => setEditFormData({ ...editFormData, loan_id: e.target.value })}
+                                className="w-full mt-1 p-1 rounded border text-sm"
+                                aria-label="Funded by"
+                              >
+                                <option value="">Cash</option>
+                                {loans.map((loan) => (
+                                  <option key={loan.id} value={loan.id}>
+                                    {loan.lender_name} holdback
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                          </>
                         ) : (
-                          getVendorName(draw.vendor_id)
+                          <>
+                            {getVendorName(draw.vendor_id)}
+                            {draw.loan_id && (
+                              <div className="text-xs text-muted-foreground">
+                                {loans.find((loan) => loan.id === draw.loan_id)?.lender_name ?? 'Loan'} holdback
+                              </div>
+                            )}
+                            {draw.status === 'pending' && hasLapsedVendor(draw) && (
+                              <div className="flex items-center gap-1 text-xs text-red-600">
+                                <IconShieldExclamation className="h-3 w-3" />
+                                Insurance lapsed
+                              </div>
+                            )}
+                            {draw.compliance_override_reason && (
+                              <div
+                                className="flex items-center gap-1 text-xs text-amber-600"
+                                title={draw.compliance_override_reason}
+                              >
+                                <IconShieldExclamation className="h-3 w-3" />
+                                Approved with override
+                              </div>
+                            )}
+                          </>
                         )}
                       </td>
                       <td className="p-3 text-right">
@@ -527,7 +713,10 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
                             className="w-24 p-1 rounded border text-sm text-right"
                           />
                         ) : (
-                          formatCurrency(draw.amount)
+                          <>
+                            {formatCurrency(draw.amount)}
+                            <DrawRetainageNote payment={getDrawPayment(draw, draws, allocations)} />
+                          </>
                         )}
                       </td>
                       <td className="p-3 text-center text-muted-foreground">
@@ -574,6 +763,21 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
                           </div>
                         ) : (
                           <div className="flex items-center justify-center gap-1">
+                            <button
+                              onClick={() => setAllocatingDraw(draw)}
+                              className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-primary transition-colors"
+                              title="Allocate to budget lines"
+                            >
+                              <IconListDetails className="h-4 w-4" />
+                            </button>
+                            <DrawPacketButton projectId={projectId} draw={draw} />
+                            <RecordHistoryPopover
+                              table="draws"
+                              recordId={draw.id}
+                              title={`Draw #${draw.draw_number}`}
+                              context={historyContext}
+                              triggerClassName="hover:text-primary"
+                            />
                             <button
                               onClick={() => handleStartEdit(draw)}
                               className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-primary transition-colors"
@@ -624,6 +828,18 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
         </div>
       )}
 
+      {/* Allocation Dialog */}
+      <DrawAllocationsDialog
+        projectId={projectId}
+        draw={allocatingDraw}
+        draws={draws}
+        vendors={vendors}
+        budgetItems={budgetItems}
+        allocations={allocations}
+        settings={settings}
+        onClose={() => setAllocatingDraw(null)}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!drawToDelete} onOpenChange={(open) => !open && setDrawToDelete(null)}>
         <AlertDialogContent>
@@ -687,18 +903,70 @@ export function DrawsTab({ projectId, draws, vendors, totalBudget }: DrawsTabPro
             </div>
           </div>
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={updateMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogCancel disabled={updateStatus.isPending}>Cancel</AlertDialogCancel>
             <AlertDialogAction
               onClick={handleConfirmPayment}
-              disabled={updateMutation.isPending}
+              disabled={updateStatus.isPending}
               className="bg-green-600 text-white hover:bg-green-700"
             >
-              {updateMutation.isPending && <IconLoader2 className="h-4 w-4 animate-spin mr-2" />}
-              {updateMutation.isPending ? 'Processing...' : 'Confirm Payment'}
+              {updateStatus.isPending && <IconLoader2 className="h-4 w-4 animate-spin mr-2" />}
+              {updateStatus.isPending ? 'Processing...' : 'Confirm Payment'}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Lapsed Insurance Override Dialog */}
+      <AlertDialog open={!!complianceBlock} onOpenChange={(open) => !open && setComplianceBlock(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <IconShieldExclamation className="h-5 w-5 text-red-600" />
+              Vendor Insurance Lapsed
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {complianceBlock?.message}. Upload a current certificate in the Vendors tab, or record why Draw #
+              {complianceBlock?.draw.draw_number} should be {complianceBlock?.status === 'paid' ? 'paid' : 'approved'}{' '}
+              anyway.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="py-2">
+            <label className="text-sm font-medium">Override Reason</label>
+            <input
+              type="text"
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+              placeholder="e.g. Renewal confirmed by agent, certificate to follow"
+              className="w-full mt-1 p-2 rounded border text-sm"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={updateStatus.isPending}>Cancel</AlertDialogCancel>
+            <LoadingButton
+              variant="destructive"
+              onClick={handleConfirmOverride}
+              disabled={!overrideReason.trim()}
+              isLoading={updateStatus.isPending}
+              loadingText="Saving..."
+            >
+              Override and {complianceBlock?.status === 'paid' ? 'Pay' : 'Approve'}
+            </LoadingButton>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+// Retainage withheld from / released with a draw, and what the vendor nets
+function DrawRetainageNote({ payment }: { payment: DrawPayment }) {
+  if (payment.retainage === 0 && payment.released === 0) return null;
+
+  return (
+    <div className="text-xs font-normal text-muted-foreground">
+      {payment.retainage > 0 && <div>-{formatCurrency(payment.retainage)} retainage</div>}
+      {payment.released > 0 && <div className="text-green-600">+{formatCurrency(payment.released)} released</div>}
+      <div>Net {formatCurrency(payment.net)}</div>
     </div>
   );
 }
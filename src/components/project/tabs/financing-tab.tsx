@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { IconBuildingBank, IconPencil, IconPlus, IconTrash } from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { LoanDialog } from '@/components/project/loan-dialog';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import type { ProjectFinancing } from '@/lib/financing';
+import { useProjectLoanMutations } from '@/hooks/use-project-loans';
+import { LOAN_INTEREST_BASIS_LABELS, LOAN_TYPE_LABELS, type ProjectLoan } from '@/types';
+
+interface FinancingTabProps {
+  projectId: string;
+  loans: ProjectLoan[];
+  financing: ProjectFinancing | null;
+}
+
+/**
+ * The project's loans and what they cost. Points, fees and interest on the
+ * draw timeline replace the profile's assumed loan interest in the deal
+ * analysis.
+ */
+export function FinancingTab({ projectId, loans, financing }: FinancingTabProps) {
+  const router = useRouter();
+  const { deleteLoan } = useProjectLoanMutations(projectId);
+  const [editing, setEditing] = useState<ProjectLoan | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState<ProjectLoan | null>(null);
+
+  const openDialog = (loan: ProjectLoan | null) => {
+    setEditing(loan);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h3 className="font-medium">Financing</h3>
+          <p className="text-sm text-muted-foreground">
+            Loans on this project. Interest accrues on the purchase funding from closing and on each holdback draw
+            from the day it is paid.
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <IconPlus className="h-4 w-4 mr-2" />
+          Add Loan
+        </Button>
+      </div>
+
+      {!financing ? (
+        <div className="empty-state rounded-lg border">
+          <IconBuildingBank className="empty-state-icon" />
+          <p className="empty-state-title">No loans</p>
+          <p className="empty-state-description">
+            Without loans, holding costs use the assumed loan interest from the calculation settings. Add a hard-money
+            or private loan to cost the deal on its actual terms.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Total Loans</p>
+              <p className="text-xl font-semibold">{formatCurrency(financing.loanAmount)}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(financing.purchaseFunding)} purchase · {formatCurrency(financing.rehabHoldback)} holdback
+              </p>
+            </div>
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Cost of Capital</p>
+              <p className="text-xl font-semibold">{formatCurrency(financing.financingCosts)}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(financing.pointsAndFees)} points and fees · {formatCurrency(financing.interest)} interest
+              </p>
+            </div>
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Monthly Interest</p>
+              <p className="text-xl font-semibold">{formatCurrency(financing.monthlyPayment)}</p>
+              <p className="text-xs text-muted-foreground">On today&apos;s balance</p>
+            </div>
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Cash Needed at Closing</p>
+              <p className="text-xl font-semibold">{formatCurrency(financing.cashNeededAtClosing)}</p>
+              <p className="text-xs text-muted-foreground">Purchase, closing costs, points and fees</p>
+            </div>
+          </div>
+
+          <div className="rounded-lg border overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="table-header">
+                    <th className="text-left p-3">Lender</th>
+                    <th className="text-right p-3">Loan</th>
+                    <th className="text-right p-3">Holdback Drawn</th>
+                    <th className="text-right p-3">Rate</th>
+                    <th className="text-right p-3">Points + Fees</th>
+                    <th className="text-right p-3">Interest</th>
+                    <th className="text-center p-3">Payoff</th>
+                    <th className="w-20" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {financing.loans.map((cost) => (
+                    <tr key={cost.loan.id} className="border-t group">
+                      <td className="p-3">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{cost.loan.lender_name}</span>
+                          <Badge variant="secondary">{LOAN_TYPE_LABELS[cost.loan.loan_type]}</Badge>
+                          {cost.loan.lien_position > 1 && <Badge variant="pending">Lien {cost.loan.lien_position}</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Funded {formatDate(cost.fundedDate)} · interest on{' '}
+                          {LOAN_INTEREST_BASIS_LABELS[cost.loan.interest_basis].toLowerCase()}
+                        </p>
+                      </td>
+                      <td className="p-3 text-right">{formatCurrency(cost.loanAmount)}</td>
+                      <td className="p-3 text-right">
+                        {Number(cost.loan.rehab_holdback) > 0
+                          ? `${formatCurrency(cost.drawnHoldback)} of ${formatCurrency(Number(cost.loan.rehab_holdback))}`
+                          : '-'}
+                      </td>
+                      <td className="p-3 text-right">{Number(cost.loan.interest_rate)}%</td>
+                      <td className="p-3 text-right">{formatCurrency(cost.pointsCost + cost.lenderFees)}</td>
+                      <td className="p-3 text-right">{formatCurrency(cost.interest)}</td>
+                      <td className="p-3 text-center">{formatDate(cost.payoffDate)}</td>
+                      <td className="p-3">
+                        <div className="flex justify-end opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            type="button"
+                            onClick={() => openDialog(cost.loan)}
+                            className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
+                            title="Edit loan"
+                          >
+                            <IconPencil className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setDeleting(cost.loan)}
+                            className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-destructive"
+                            title="Delete loan"
+                          >
+                            <IconTrash className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Loans are paid off at the sale date, or at closing plus the hold period. Holdback not yet drawn is assumed
+            to be released evenly between today and payoff.
+          </p>
+        </>
+      )}
+
+      <LoanDialog
+        projectId={projectId}
+        loans={loans}
+        loan={editing}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onSaved={() => router.refresh()}
+      />
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete loan?"
+        description={`The ${deleting?.lender_name ?? ''} loan will be removed and draws it funded will count as cash.`}
+        confirmText="Delete"
+        variant="destructive"
+        isPending={deleteLoan.isPending}
+        onConfirm={() =>
+          deleting &&
+          deleteLoan.mutate(deleting.id, {
+            onSuccess: () => {
+              setDeleting(null);
+              router.refresh();
+            },
+          })
+        }
+      />
+    </div>
+  );
+}
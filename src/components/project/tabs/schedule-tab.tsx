@@ -0,0 +1,310 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+  IconCalendarEvent,
+  IconCheck,
+  IconPencil,
+  IconPlus,
+  IconRefresh,
+  IconTemplate,
+  IconTrash,
+} from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { ScheduleTaskBar } from '@/components/project/schedule-task-bar';
+import { ScheduleTaskDialog } from '@/components/project/schedule-task-dialog';
+import { cn } from '@/lib/utils';
+import { computeSchedule, getScheduleAnchor } from '@/lib/schedule';
+import { useSchedule, useScheduleMutations } from '@/hooks/use-schedule';
+import { BUDGET_CATEGORIES, type BudgetItem, type Project, type ScheduleTask, type Vendor } from '@/types';
+
+interface ScheduleTabProps {
+  project: Project;
+  budgetItems: BudgetItem[];
+  vendors: Vendor[];
+}
+
+const PX_PER_DAY = 24;
+const ROW_HEIGHT = 44;
+
+function formatDay(date: string): string {
+  return format(parseISO(date), 'MMM d');
+}
+
+/**
+ * The project's construction schedule as a Gantt chart. Dragging a task
+ * moves it, pushes everything that depends on it and moves the project's
+ * target completion to the new finish.
+ */
+export function ScheduleTab({ project, budgetItems, vendors }: ScheduleTabProps) {
+  const router = useRouter();
+  const anchorDate = getScheduleAnchor(project);
+  const { data, isLoading } = useSchedule(project.id);
+  const { seedSchedule, rescheduleTask, updateTask, deleteTask, applySchedule } = useScheduleMutations(
+    project.id,
+    anchorDate
+  );
+  const [editing, setEditing] = useState<ScheduleTask | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState<ScheduleTask | null>(null);
+
+  const tasks = useMemo(() => data?.tasks ?? [], [data]);
+  const dependencies = useMemo(() => data?.dependencies ?? [], [data]);
+  const schedule = useMemo(() => computeSchedule(tasks, dependencies, anchorDate), [tasks, dependencies, anchorDate]);
+
+  const vendorNames = useMemo(() => new Map(vendors.map((v) => [v.id, v.name])), [vendors]);
+  const taskNames = useMemo(() => new Map(tasks.map((t) => [t.id, t.name])), [tasks]);
+
+  const openDialog = (task: ScheduleTask | null) => {
+    setEditing(task);
+    setIsDialogOpen(true);
+  };
+
+  // Chart runs from two days before the first start to a week past the finish
+  const chartStart = schedule.start ? addDays(parseISO(schedule.start), -2) : null;
+  const chartDays = schedule.finish && chartStart ? differenceInCalendarDays(parseISO(schedule.finish), chartStart) + 8 : 0;
+  const chartWidth = chartDays * PX_PER_DAY;
+  const weeks = chartStart ? Array.from({ length: Math.ceil(chartDays / 7) }, (_, i) => addDays(chartStart, i * 7)) : [];
+  const todayOffset = chartStart ? differenceInCalendarDays(new Date(), chartStart) : -1;
+
+  const targetMismatch =
+    !!schedule.finish && !!project.target_complete_date && project.target_complete_date !== schedule.finish;
+
+  const handleMove = (task: ScheduleTask, start: string, deltaDays: number) => {
+    const newStart = format(addDays(parseISO(start), deltaDays), 'yyyy-MM-dd');
+    rescheduleTask.mutate({ taskId: task.id, newStart }, { onSuccess: () => router.refresh() });
+  };
+
+  if (isLoading) {
+    return <div className="h-64 animate-pulse rounded-lg bg-muted" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h3 className="font-medium">Construction Schedule</h3>
+          <p className="text-sm text-muted-foreground">
+            Trade tasks in order, with how long each takes and what has to finish first. Drag a bar to reschedule it;
+            tasks that depend on it move with it.
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <IconPlus className="h-4 w-4 mr-2" />
+          Add Task
+        </Button>
+      </div>
+
+      {tasks.length === 0 ? (
+        <div className="empty-state rounded-lg border">
+          <IconCalendarEvent className="empty-state-icon" />
+          <p className="empty-state-title">No schedule yet</p>
+          <p className="empty-state-description">
+            Start from the standard sequence (demo, rough-ins, inspection, drywall, paint, flooring, trim) for the
+            trades in this budget, then adjust durations and vendors.
+          </p>
+          <LoadingButton
+            className="mt-4"
+            onClick={() => seedSchedule.mutate(budgetItems, { onSuccess: () => router.refresh() })}
+            isLoading={seedSchedule.isPending}
+            loadingText="Creating..."
+          >
+            <IconTemplate className="h-4 w-4" />
+            Use Standard Schedule
+          </LoadingButton>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Start</p>
+              <p className="text-xl font-semibold">{schedule.start ? formatDay(schedule.start) : '-'}</p>
+            </div>
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Finish</p>
+              <p className="text-xl font-semibold">{schedule.finish ? formatDay(schedule.finish) : '-'}</p>
+            </div>
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Duration</p>
+              <p className="text-xl font-semibold">{schedule.durationDays} days</p>
+            </div>
+            <div className="rounded-lg border bg-card p-4">
+              <p className="text-sm text-muted-foreground">Critical Path</p>
+              <p className="text-xl font-semibold">
+                {schedule.criticalTaskIds.length} of {tasks.length} tasks
+              </p>
+            </div>
+          </div>
+
+          {targetMismatch && (
+            <div className="flex items-center justify-between gap-3 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+              <span>
+                Target completion is {formatDay(project.target_complete_date!)} but the schedule finishes{' '}
+                {formatDay(schedule.finish!)}.
+              </span>
+              <LoadingButton
+                size="sm"
+                variant="outline"
+                onClick={() => applySchedule.mutate(undefined, { onSuccess: () => router.refresh() })}
+                isLoading={applySchedule.isPending}
+                loadingText="Updating..."
+              >
+                <IconRefresh className="h-4 w-4" />
+                Use Schedule Finish
+              </LoadingButton>
+            </div>
+          )}
+
+          <div className="rounded-lg border">
+            <ScrollArea className="w-full">
+              <div style={{ width: chartWidth + 320 }}>
+                <div className="flex border-b table-header">
+                  <div className="w-[320px] shrink-0 border-r p-3 text-left">Task</div>
+                  <div className="relative" style={{ width: chartWidth }}>
+                    {weeks.map((week, i) => (
+                      <div
+                        key={i}
+                        className="absolute top-0 bottom-0 border-l px-2 py-3 text-xs text-muted-foreground"
+                        style={{ left: i * 7 * PX_PER_DAY }}
+                      >
+                        {format(week, 'MMM d')}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="relative">
+                  {todayOffset >= 0 && todayOffset <= chartDays && (
+                    <div
+                      className="absolute top-0 bottom-0 z-10 w-0.5 bg-red-500/60 pointer-events-none"
+                      style={{ left: 320 + todayOffset * PX_PER_DAY }}
+                    />
+                  )}
+
+                  {schedule.tasks.map(({ task, start, finish, predecessorIds, totalFloat, isCritical, isPushed }) => {
+                    const left = differenceInCalendarDays(parseISO(start), chartStart!) * PX_PER_DAY;
+                    const category = BUDGET_CATEGORIES.find((c) => c.value === task.category);
+                    return (
+                      <div key={task.id} className="flex border-b last:border-b-0" style={{ height: ROW_HEIGHT }}>
+                        <div className="w-[320px] shrink-0 border-r px-3 flex items-center gap-2 group">
+                          <div className="min-w-0 flex-1">
+                            <p className={cn('truncate text-sm font-medium', task.completed_at && 'line-through text-muted-foreground')}>
+                              {task.name}
+                            </p>
+                            <p className="truncate text-xs text-muted-foreground">
+                              {[
+                                `${task.duration_days}d`,
+                                category?.label,
+                                task.vendor_id ? vendorNames.get(task.vendor_id) : null,
+                                predecessorIds.length > 0
+                                  ? `after ${predecessorIds.map((id) => taskNames.get(id)).join(', ')}`
+                                  : null,
+                              ]
+                                .filter(Boolean)
+                                .join(' · ')}
+                            </p>
+                          </div>
+                          {isCritical && !task.completed_at && <Badge variant="cancelled">Critical</Badge>}
+                          {isPushed && <Badge variant="pending">Pushed</Badge>}
+                          <div className="hidden group-hover:flex items-center">
+                            <button
+                              type="button"
+                              onClick={() =>
+                                updateTask.mutate({
+                                  taskId: task.id,
+                                  completedAt: task.completed_at ? null : new Date().toISOString(),
+                                })
+                              }
+                              className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
+                              title={task.completed_at ? 'Mark not done' : 'Mark done'}
+                            >
+                              <IconCheck className="h-4 w-4" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => openDialog(task)}
+                              className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
+                              title="Edit task"
+                            >
+                              <IconPencil className="h-4 w-4" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setDeleting(task)}
+                              className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-destructive"
+                              title="Delete task"
+                            >
+                              <IconTrash className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </div>
+                        <div className="relative" style={{ width: chartWidth }}>
+                          <ScheduleTaskBar
+                            label={task.name}
+                            title={`${task.name}: ${formatDay(start)} - ${formatDay(finish)}${
+                              isCritical ? ' (critical)' : ` (${totalFloat}d slack)`
+                            }`}
+                            left={left}
+                            width={task.duration_days * PX_PER_DAY}
+                            pxPerDay={PX_PER_DAY}
+                            isCritical={isCritical}
+                            isCompleted={!!task.completed_at}
+                            onMove={rescheduleTask.isPending ? undefined : (delta) => handleMove(task, start, delta)}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+              <ScrollBar orientation="horizontal" />
+            </ScrollArea>
+          </div>
+
+          <div className="flex gap-6 text-xs text-muted-foreground">
+            <div className="flex items-center gap-2">
+              <div className="h-3 w-3 rounded bg-red-500" />
+              <span>Critical path</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="h-3 w-3 rounded bg-sky-500" />
+              <span>Has slack</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="h-3 w-3 rounded bg-green-600" />
+              <span>Done</span>
+            </div>
+          </div>
+        </>
+      )}
+
+      <ScheduleTaskDialog
+        projectId={project.id}
+        anchorDate={anchorDate}
+        tasks={tasks}
+        dependencies={dependencies}
+        vendors={vendors}
+        task={editing}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+      />
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete task?"
+        description={`${deleting?.name ?? 'This task'} will be removed from the schedule along with its dependencies.`}
+        confirmText="Delete"
+        variant="destructive"
+        isPending={deleteTask.isPending}
+        onConfirm={() => deleting && deleteTask.mutate(deleting, { onSuccess: () => setDeleting(null) })}
+      />
+    </div>
+  );
+}
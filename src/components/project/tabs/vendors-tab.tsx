@@ -1,10 +1,12 @@
 'use client'
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import type { Vendor, BudgetItem, VendorTrade, VendorStatus } from '@/types';
 import { VENDOR_TRADE_LABELS } from '@/types';
 import { formatCurrency, cn } from '@/lib/utils';
 import { getSupabaseClient } from '@/lib/supabase/client';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import {
@@ -22,6 +24,8 @@ import {
   IconSearch,
   IconFilter,
   IconArrowsSort,
+  IconFileCertificate,
+  IconCopy,
 } from '@tabler/icons-react';
 import {
   AlertDialog,
@@ -33,7 +37,17 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { VendorDocumentsDialog } from '@/components/project/vendor-documents-dialog';
+import { VendorComplianceReport } from '@/components/project/vendor-compliance-report';
+import { VendorDetailSheet } from '@/components/project/vendor-detail-sheet';
+import { VendorLeaderboard } from '@/components/project/vendor-leaderboard';
+import { VendorDuplicatesDialog } from '@/components/project/vendor-duplicates-dialog';
+import { useVendorDocuments } from '@/hooks/use-vendor-documents';
+import { useVendorScorecards } from '@/hooks/use-vendor-scorecards';
+import { getVendorInsurance, type VendorInsuranceStatus } from '@/lib/vendor-compliance';
+import { findDuplicateVendors } from '@/lib/vendor-duplicates';
 import { Input } from '@/components/ui/input';
 import {
   Select,
@@ -89,8 +103,15 @@ const VENDOR_TRADES = Object.entries(VENDOR_TRADE_LABELS) as [VendorTrade, strin
 
 type SortOption = 'name_asc' | 'name_desc' | 'rating_desc' | 'recent' | 'most_used';
 
+// Card note for insurance that needs attention
+const INSURANCE_NOTES: Partial<Record<VendorInsuranceStatus, { label: string; className: string }>> = {
+  lapsed: { label: 'COI expired', className: 'text-red-600' },
+  expiring_soon: { label: 'COI expiring', className: 'text-amber-600' },
+};
+
 export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps) {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
   
   // Form state
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -98,6 +119,19 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
   const [formData, setFormData] = useState<VendorFormData>(defaultFormData);
   const [vendorToDelete, setVendorToDelete] = useState<Vendor | null>(null);
   const [assigningVendor, setAssigningVendor] = useState<Vendor | null>(null);
+  const [documentsVendor, setDocumentsVendor] = useState<Vendor | null>(null);
+  const [detailVendor, setDetailVendor] = useState<Vendor | null>(null);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+
+  // Compliance documents across all vendors
+  const { data: vendorDocuments = [] } = useVendorDocuments();
+  const getDocuments = (vendorId: string) => vendorDocuments.filter((doc) => doc.vendor_id === vendorId);
+
+  // Scorecards from history across all projects
+  const { data: scorecards } = useVendorScorecards();
+
+  // Likely duplicates left behind by imports
+  const duplicateGroups = useMemo(() => findDuplicateVendors(vendors), [vendors]);
   
   // Search, filter, sort state
   const [searchQuery, setSearchQuery] = useState('');
@@ -180,6 +214,8 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
   // Create mutation
   const createMutation = useMutation({
     mutationFn: async (data: VendorFormData) => {
+      assertCapability(role, 'manage_vendors');
+
       const supabase = getSupabaseClient();
       const { data: newVendor, error } = await supabase
         .from('vendors')
@@ -204,13 +240,15 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
     },
     onError: (error) => {
       console.error('Error creating vendor:', error);
-      toast.error('Failed to create vendor');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to create vendor'));
     },
   });
 
   // Update mutation
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: VendorFormData }) => {
+      assertCapability(role, 'manage_vendors');
+
       const supabase = getSupabaseClient();
       const { data: updatedVendor, error } = await supabase
         .from('vendors')
@@ -236,13 +274,15 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
     },
     onError: (error) => {
       console.error('Error updating vendor:', error);
-      toast.error('Failed to update vendor');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update vendor'));
     },
   });
 
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
+      assertCapability(role, 'manage_vendors');
+
       const supabase = getSupabaseClient();
       const { error } = await supabase.from('vendors').delete().eq('id', id);
       if (error) throw error;
@@ -254,13 +294,15 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
     },
     onError: (error) => {
       console.error('Error deleting vendor:', error);
-      toast.error('Failed to delete vendor. Make sure no budget items are assigned to this vendor.');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete vendor. Make sure no budget items are assigned to this vendor.'));
     },
   });
 
   // Assign vendor to budget item mutation
   const assignMutation = useMutation({
     mutationFn: async ({ itemId, vendorId }: { itemId: string; vendorId: string }) => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       const { error } = await supabase
         .from('budget_items')
@@ -275,7 +317,7 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
     },
     onError: (error) => {
       console.error('Error assigning vendor:', error);
-      toast.error('Failed to assign vendor');
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to assign vendor'));
     },
   });
 
@@ -335,6 +377,7 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
 
   const renderVendorCard = (vendor: Vendor, isProjectVendor: boolean) => {
     const totals = vendorTotals.get(vendor.id);
+    const insuranceNote = INSURANCE_NOTES[getVendorInsurance(getDocuments(vendor.id)).status];
 
     return (
       <div
@@ -346,7 +389,13 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
       >
         <div className="flex items-start justify-between mb-3">
           <div className="flex-1 min-w-0">
-            <h4 className="font-medium truncate">{vendor.name}</h4>
+            <button
+              type="button"
+              onClick={() => setDetailVendor(vendor)}
+              className="block max-w-full text-left hover:text-primary hover:underline"
+            >
+              <h4 className="font-medium truncate">{vendor.name}</h4>
+            </button>
             <p className="text-sm text-muted-foreground">
               {VENDOR_TRADE_LABELS[vendor.trade]}
             </p>
@@ -365,6 +414,14 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
                 ))}
               </div>
             )}
+            <button
+              type="button"
+              onClick={() => setDocumentsVendor(vendor)}
+              className="p-1 hover:bg-muted rounded"
+              title="Compliance documents"
+            >
+              <IconFileCertificate className="h-4 w-4 text-muted-foreground" />
+            </button>
             <button
               type="button"
               onClick={() => handleOpenEdit(vendor)}
@@ -456,6 +513,15 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
               W-9
             </span>
           </div>
+          {insuranceNote && (
+            <button
+              type="button"
+              onClick={() => setDocumentsVendor(vendor)}
+              className={cn('font-medium hover:underline', insuranceNote.className)}
+            >
+              {insuranceNote.label}
+            </button>
+          )}
           {vendor.price_level && (
             <span className="text-muted-foreground font-medium">{vendor.price_level}</span>
           )}
@@ -517,12 +583,24 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
             {projectVendors.length} vendors assigned to this project
           </p>
         </div>
-        <Button onClick={handleOpenCreate}>
-          <IconPlus className="h-4 w-4" />
-          Add Vendor
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsDuplicatesOpen(true)}>
+            <IconCopy className="h-4 w-4" />
+            Find Duplicates
+            {duplicateGroups.length > 0 && (
+              <Badge variant="pending">{duplicateGroups.length}</Badge>
+            )}
+          </Button>
+          <Button onClick={handleOpenCreate}>
+            <IconPlus className="h-4 w-4" />
+            Add Vendor
+          </Button>
+        </div>
       </div>
 
+      {/* Expiring Compliance Documents */}
+      <VendorComplianceReport vendors={vendors} documents={vendorDocuments} onOpenVendor={setDocumentsVendor} />
+
       {/* Search and Filters */}
       <div className="flex flex-col sm:flex-row gap-3">
         <div className="relative flex-1">
@@ -604,6 +682,11 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
         </div>
       )}
 
+      {/* Scorecard Leaderboard */}
+      {scorecards && (
+        <VendorLeaderboard vendors={vendors} scorecards={scorecards} onOpenVendor={setDetailVendor} />
+      )}
+
       {/* Vendor Form Modal */}
       {isFormOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
@@ -901,6 +984,33 @@ export function VendorsTab({ projectId, vendors, budgetItems }: VendorsTabProps)
         </div>
       )}
 
+      {/* Vendor Detail Sheet */}
+      <VendorDetailSheet
+        open={!!detailVendor}
+        onOpenChange={(open) => !open && setDetailVendor(null)}
+        vendor={detailVendor}
+        budgetItems={budgetItems}
+        onEdit={() => {
+          if (!detailVendor) return;
+          handleOpenEdit(detailVendor);
+          setDetailVendor(null);
+        }}
+      />
+
+      {/* Duplicate Finder and Merge */}
+      <VendorDuplicatesDialog
+        open={isDuplicatesOpen}
+        onOpenChange={setIsDuplicatesOpen}
+        groups={duplicateGroups}
+      />
+
+      {/* Compliance Documents Dialog */}
+      <VendorDocumentsDialog
+        vendor={documentsVendor}
+        documents={documentsVendor ? getDocuments(documentsVendor.id) : []}
+        onClose={() => setDocumentsVendor(null)}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!vendorToDelete} onOpenChange={() => setVendorToDelete(null)}>
         <AlertDialogContent>
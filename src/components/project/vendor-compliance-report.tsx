@@ -0,0 +1,77 @@
+'use client';
+
+import { IconShieldExclamation } from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+import { formatDate } from '@/lib/utils';
+import { EXPIRING_SOON_DAYS, getExpiringDocuments } from '@/lib/vendor-compliance';
+import { VENDOR_DOCUMENT_TYPE_LABELS, type Vendor, type VendorDocument } from '@/types';
+
+interface VendorComplianceReportProps {
+  vendors: Vendor[];
+  documents: VendorDocument[];
+  onOpenVendor: (vendor: Vendor) => void;
+}
+
+/**
+ * Expired and expiring-soon vendor documents, soonest first. Renders nothing
+ * when every document on file is current.
+ */
+export function VendorComplianceReport({ vendors, documents, onOpenVendor }: VendorComplianceReportProps) {
+  const rows = getExpiringDocuments(vendors, documents);
+  if (rows.length === 0) return null;
+
+  const expiredCount = rows.filter((row) => row.status === 'expired').length;
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50/50 dark:border-amber-900/50 dark:bg-amber-950/20">
+      <div className="flex items-center gap-2 p-4 pb-2">
+        <IconShieldExclamation className="h-5 w-5 text-amber-600" />
+        <h4 className="font-medium">Compliance Documents</h4>
+        <span className="text-sm text-muted-foreground">
+          {expiredCount > 0 && `${expiredCount} expired · `}
+          {rows.length - expiredCount} expiring in the next {EXPIRING_SOON_DAYS} days
+        </span>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="table-header">
+            <th className="text-left p-3">Vendor</th>
+            <th className="text-left p-3">Document</th>
+            <th className="text-left p-3">Number</th>
+            <th className="text-right p-3">Expires</th>
+            <th className="text-right p-3">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ document, vendor, status, daysRemaining }) => (
+            <tr key={document.id} className="border-t">
+              <td className="p-3">
+                <button
+                  type="button"
+                  onClick={() => onOpenVendor(vendor)}
+                  className="font-medium hover:text-primary hover:underline"
+                >
+                  {vendor.name}
+                </button>
+              </td>
+              <td className="p-3">{VENDOR_DOCUMENT_TYPE_LABELS[document.document_type]}</td>
+              <td className="p-3 text-muted-foreground">{document.document_number || '-'}</td>
+              <td className="p-3 text-right tabular-nums">{formatDate(document.expiration_date)}</td>
+              <td className="p-3 text-right">
+                {status === 'expired' ? (
+                  <Badge variant="destructive">
+                    Expired {-daysRemaining} day{daysRemaining === -1 ? '' : 's'} ago
+                  </Badge>
+                ) : (
+                  <Badge variant="pending">
+                    {daysRemaining === 0 ? 'Expires today' : `${daysRemaining} day${daysRemaining === 1 ? '' : 's'} left`}
+                  </Badge>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import type { Vendor, BudgetItem, VendorTag, Project } from '@/types'
 import { VENDOR_TRADE_LABELS } from '@/types'
 import { formatCurrency, cn } from '@/lib/utils'
 import { useVendorTags } from '@/hooks/use-vendor-tags'
+import { useVendorScorecards } from '@/hooks/use-vendor-scorecards'
+import { hasScorecardHistory } from '@/lib/vendor-scorecard'
 import {
   Sheet,
   SheetContent,
@@ -15,6 +17,7 @@ import { Button } from '@/components/ui/button'
 import { StarRating } from '@/components/ui/star-rating'
 import { VendorTagSelector } from '@/components/project/vendor-tag-selector'
 import { VendorContactHistory } from '@/components/project/vendor-contact-history'
+import { VendorScorecardPanel } from '@/components/project/vendor-scorecard'
 import {
   IconPhone,
   IconMail,
@@ -46,9 +49,12 @@ export function VendorDetailSheet({
   const { useVendorTagAssignments, assignTag, unassignTag } = useVendorTags()
   const tagsQuery = vendor ? useVendorTagAssignments(vendor.id) : null
   const assignedTags: VendorTag[] = (tagsQuery?.data as VendorTag[] | undefined) ?? []
+  const { data: scorecards, isLoading: scorecardsLoading } = useVendorScorecards()
 
   if (!vendor) return null
 
+  const scorecard = scorecards?.get(vendor.id)
+
   // Calculate vendor totals from budget items
   const vendorItems = budgetItems.filter((item) => item.vendor_id === vendor.id)
   const totals = vendorItems.reduce(
@@ -139,6 +145,22 @@ export function VendorDetailSheet({
             </div>
           )}
 
+          {/* Scorecard Section */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-muted-foreground">
+              Performance Scorecard
+            </h4>
+            {hasScorecardHistory(scorecard) ? (
+              <VendorScorecardPanel scorecard={scorecard} />
+            ) : (
+              <p className="text-sm text-muted-foreground italic">
+                {scorecardsLoading
+                  ? 'Loading history...'
+                  : 'No assigned items, quotes or payments yet'}
+              </p>
+            )}
+          </div>
+
           {/* Contact Section */}
           <div className="space-y-3">
             <h4 className="text-sm font-medium text-muted-foreground">
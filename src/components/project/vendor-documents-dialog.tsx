@@ -0,0 +1,329 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { IconExternalLink, IconFileCertificate, IconTrash, IconUpload } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import {
+  VENDOR_DOCUMENT_MIME_TYPES,
+  getDocumentExpiryStatus,
+  getLatestVendorDocuments,
+  type DocumentExpiryStatus,
+} from '@/lib/vendor-compliance';
+import { useVendorDocumentMutations } from '@/hooks/use-vendor-documents';
+import {
+  VENDOR_DOCUMENT_TYPE_LABELS,
+  type Vendor,
+  type VendorDocument,
+  type VendorDocumentType,
+} from '@/types';
+
+interface VendorDocumentsDialogProps {
+  /** The vendor whose documents are shown; the dialog is open while this is set */
+  vendor: Vendor | null;
+  /** Documents for this vendor */
+  documents: VendorDocument[];
+  onClose: () => void;
+}
+
+interface DocumentFormData {
+  documentType: VendorDocumentType;
+  documentNumber: string;
+  issuer: string;
+  perOccurrenceLimit: number | null;
+  aggregateLimit: number | null;
+  effectiveDate: string;
+  expirationDate: string;
+}
+
+const defaultFormData: DocumentFormData = {
+  documentType: 'coi',
+  documentNumber: '',
+  issuer: '',
+  perOccurrenceLimit: null,
+  aggregateLimit: null,
+  effectiveDate: '',
+  expirationDate: '',
+};
+
+const DOCUMENT_TYPES = Object.entries(VENDOR_DOCUMENT_TYPE_LABELS) as [VendorDocumentType, string][];
+
+const EXPIRY_BADGES: Record<DocumentExpiryStatus, { label: string; variant: BadgeProps['variant'] } | null> = {
+  current: { label: 'Current', variant: 'active' },
+  expiring_soon: { label: 'Expiring soon', variant: 'pending' },
+  expired: { label: 'Expired', variant: 'destructive' },
+  no_expiry: null,
+};
+
+const NUMBER_LABELS: Record<VendorDocumentType, string> = {
+  coi: 'Policy Number',
+  w9: 'TIN (last 4)',
+  license: 'License Number',
+};
+
+const ISSUER_LABELS: Record<VendorDocumentType, string> = {
+  coi: 'Insurance Carrier',
+  w9: 'Legal Name',
+  license: 'Issuing Authority',
+};
+
+/**
+ * Upload and review a vendor's certificates of insurance, W-9s and licenses.
+ * Only the latest document of each type counts toward compliance.
+ */
+export function VendorDocumentsDialog({ vendor, documents, onClose }: VendorDocumentsDialogProps) {
+  const { uploadDocument, deleteDocument, getDocumentUrl } = useVendorDocumentMutations();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [formData, setFormData] = useState<DocumentFormData>(defaultFormData);
+  const [documentToDelete, setDocumentToDelete] = useState<VendorDocument | null>(null);
+
+  if (!vendor) return null;
+
+  const latest = getLatestVendorDocuments(documents);
+  const isLatest = (document: VendorDocument) => latest[document.document_type]?.id === document.id;
+  const isCoi = formData.documentType === 'coi';
+  const canUpload = !!file && (!isCoi || !!formData.expirationDate);
+
+  const resetForm = () => {
+    setFile(null);
+    setFormData(defaultFormData);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const handleUpload = () => {
+    if (!file) return;
+    uploadDocument.mutate(
+      {
+        vendorId: vendor.id,
+        documentType: formData.documentType,
+        file,
+        details: {
+          document_number: formData.documentNumber.trim() || null,
+          issuer: formData.issuer.trim() || null,
+          per_occurrence_limit: isCoi ? formData.perOccurrenceLimit : null,
+          aggregate_limit: isCoi ? formData.aggregateLimit : null,
+          effective_date: formData.effectiveDate || null,
+          expiration_date: formData.expirationDate || null,
+          notes: null,
+        },
+      },
+      { onSuccess: resetForm }
+    );
+  };
+
+  const handleOpen = async (document: VendorDocument) => {
+    const url = await getDocumentUrl(document.storage_path);
+    if (url) window.open(url, '_blank', 'noopener,noreferrer');
+  };
+
+  return (
+    <Dialog open={!!vendor} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Compliance Documents: {vendor.name}</DialogTitle>
+          <DialogDescription>
+            Draws to this vendor can&apos;t be approved while their latest certificate of insurance is expired.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 space-y-5 pr-1">
+          {/* On File */}
+          {documents.length === 0 ? (
+            <div className="empty-state py-6">
+              <IconFileCertificate className="empty-state-icon" />
+              <p className="empty-state-title">No documents on file</p>
+              <p className="empty-state-description">Upload a COI, W-9 or license below.</p>
+            </div>
+          ) : (
+            <div className="rounded-lg border divide-y">
+              {documents.map((document) => {
+                const badge = EXPIRY_BADGES[getDocumentExpiryStatus(document)];
+                const superseded = !isLatest(document);
+                return (
+                  <div key={document.id} className="flex items-start gap-3 p-3 text-sm">
+                    <div className="flex-1 min-w-0 space-y-0.5">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{VENDOR_DOCUMENT_TYPE_LABELS[document.document_type]}</span>
+                        {superseded ? (
+                          <Badge variant="cancelled">Superseded</Badge>
+                        ) : (
+                          badge && <Badge variant={badge.variant}>{badge.label}</Badge>
+                        )}
+                      </div>
+                      <p className="text-muted-foreground truncate">
+                        {[document.issuer, document.document_number].filter(Boolean).join(' · ') ||
+                          document.file_name}
+                      </p>
+                      {(document.per_occurrence_limit !== null || document.aggregate_limit !== null) && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency(document.per_occurrence_limit)} per occurrence /{' '}
+                          {formatCurrency(document.aggregate_limit)} aggregate
+                        </p>
+                      )}
+                      {(document.effective_date || document.expiration_date) && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(document.effective_date)} – {formatDate(document.expiration_date)}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => handleOpen(document)} title="Open document">
+                        <IconExternalLink className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDocumentToDelete(document)}
+                        title="Delete document"
+                      >
+                        <IconTrash className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Upload */}
+          <div className="rounded-lg border p-4 space-y-4">
+            <h4 className="text-sm font-medium">Upload Document</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="document_type">Type</Label>
+                <select
+                  id="document_type"
+                  value={formData.documentType}
+                  onChange={(e) =>
+                    setFormData({ ...formData, documentType: e.target.value as VendorDocumentType })
+                  }
+                  className="w-full h-9 px-2 rounded-md border text-sm bg-background"
+                >
+                  {DOCUMENT_TYPES.map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="document_file">File *</Label>
+                <Input
+                  id="document_file"
+                  ref={fileInputRef}
+                  type="file"
+                  accept={VENDOR_DOCUMENT_MIME_TYPES.join(',')}
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="document_issuer">{ISSUER_LABELS[formData.documentType]}</Label>
+                <Input
+                  id="document_issuer"
+                  value={formData.issuer}
+                  onChange={(e) => setFormData({ ...formData, issuer: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="document_number">{NUMBER_LABELS[formData.documentType]}</Label>
+                <Input
+                  id="document_number"
+                  value={formData.documentNumber}
+                  onChange={(e) => setFormData({ ...formData, documentNumber: e.target.value })}
+                />
+              </div>
+              {isCoi && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Per Occurrence Limit</Label>
+                    <CurrencyInput
+                      value={formData.perOccurrenceLimit}
+                      onChange={(value) => setFormData({ ...formData, perOccurrenceLimit: value })}
+                      placeholder="1,000,000"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Aggregate Limit</Label>
+                    <CurrencyInput
+                      value={formData.aggregateLimit}
+                      onChange={(value) => setFormData({ ...formData, aggregateLimit: value })}
+                      placeholder="2,000,000"
+                    />
+                  </div>
+                </>
+              )}
+              {formData.documentType !== 'w9' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="document_effective">Effective</Label>
+                    <Input
+                      id="document_effective"
+                      type="date"
+                      value={formData.effectiveDate}
+                      onChange={(e) => setFormData({ ...formData, effectiveDate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="document_expiration">Expires{isCoi && ' *'}</Label>
+                    <Input
+                      id="document_expiration"
+                      type="date"
+                      value={formData.expirationDate}
+                      onChange={(e) => setFormData({ ...formData, expirationDate: e.target.value })}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+            <div className="flex justify-end">
+              <LoadingButton
+                onClick={handleUpload}
+                disabled={!canUpload}
+                isLoading={uploadDocument.isPending}
+                loadingText="Uploading..."
+              >
+                <IconUpload className="h-4 w-4" />
+                Upload
+              </LoadingButton>
+            </div>
+          </div>
+        </div>
+
+        <ConfirmDialog
+          open={!!documentToDelete}
+          onOpenChange={(open) => !open && setDocumentToDelete(null)}
+          title="Delete Document"
+          description={`Delete this ${
+            documentToDelete ? VENDOR_DOCUMENT_TYPE_LABELS[documentToDelete.document_type] : 'document'
+          }? The file will be removed.`}
+          confirmText="Delete"
+          variant="destructive"
+          isPending={deleteDocument.isPending}
+          onConfirm={() =>
+            documentToDelete &&
+            deleteDocument.mutate(documentToDelete, { onSuccess: () => setDocumentToDelete(null) })
+          }
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
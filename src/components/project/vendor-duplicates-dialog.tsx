@@ -0,0 +1,231 @@
+'use client';
+
+import { useState } from 'react';
+import { IconArrowLeft, IconCopy, IconGitMerge } from '@tabler/icons-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { cn } from '@/lib/utils';
+import {
+  DUPLICATE_REASON_LABELS,
+  MERGEABLE_VENDOR_FIELDS,
+  buildMergedVendorFields,
+  getDefaultFieldPicks,
+  type DuplicateGroup,
+  type MergeableVendorField,
+  type VendorFieldPicks,
+} from '@/lib/vendor-duplicates';
+import { useVendorMutations } from '@/hooks/use-vendor-mutations';
+import { VENDOR_TRADE_LABELS, type Vendor } from '@/types';
+
+interface VendorDuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groups: DuplicateGroup[];
+}
+
+interface MergeState {
+  group: DuplicateGroup;
+  survivorId: string;
+  picks: VendorFieldPicks;
+}
+
+function formatFieldValue(vendor: Vendor, key: MergeableVendorField): string {
+  const value = vendor[key];
+  if (value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  switch (key) {
+    case 'trade':
+      return VENDOR_TRADE_LABELS[vendor.trade];
+    case 'status':
+      return vendor.status === 'do_not_use' ? 'Do Not Use' : vendor.status;
+    case 'retainage_percent':
+      return `${vendor.retainage_percent}%`;
+    case 'rating':
+      return `${vendor.rating}/5`;
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Likely duplicate vendors, and a side-by-side merge that picks each
+ * surviving field value before folding the rest into one vendor.
+ */
+export function VendorDuplicatesDialog({ open, onOpenChange, groups }: VendorDuplicatesDialogProps) {
+  const { mergeVendors } = useVendorMutations();
+  const [merge, setMerge] = useState<MergeState | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const handleClose = (nextOpen: boolean) => {
+    if (!nextOpen) setMerge(null);
+    onOpenChange(nextOpen);
+  };
+
+  const startMerge = (group: DuplicateGroup) => {
+    const survivorId = group.vendors[0].id;
+    setMerge({ group, survivorId, picks: getDefaultFieldPicks(group.vendors, survivorId) });
+  };
+
+  const changeSurvivor = (survivorId: string) => {
+    if (!merge) return;
+    setMerge({ ...merge, survivorId, picks: getDefaultFieldPicks(merge.group.vendors, survivorId) });
+  };
+
+  const pickField = (key: MergeableVendorField, vendorId: string) => {
+    if (!merge) return;
+    setMerge({ ...merge, picks: { ...merge.picks, [key]: vendorId } });
+  };
+
+  const handleMerge = () => {
+    if (!merge) return;
+    mergeVendors.mutate(
+      {
+        survivorId: merge.survivorId,
+        duplicateIds: merge.group.vendors.filter((vendor) => vendor.id !== merge.survivorId).map((vendor) => vendor.id),
+        fields: buildMergedVendorFields(merge.group.vendors, merge.picks),
+      },
+      {
+        onSuccess: () => {
+          setConfirmOpen(false);
+          setMerge(null);
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{merge ? 'Merge Vendors' : 'Duplicate Vendors'}</DialogTitle>
+          <DialogDescription>
+            {merge
+              ? 'Pick the vendor to keep and which value survives for each field. Budget items, draws, contact history, tags, documents and bids all move to the vendor you keep.'
+              : 'Vendors that share a phone number or email, or have nearly the same name.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 pr-1">
+          {!merge ? (
+            groups.length === 0 ? (
+              <div className="empty-state py-8">
+                <IconCopy className="empty-state-icon" />
+                <p className="empty-state-title">No duplicates found</p>
+                <p className="empty-state-description">Every vendor in the directory looks distinct.</p>
+              </div>
+            ) : (
+              <div className="rounded-lg border divide-y">
+                {groups.map((group) => (
+                  <div key={group.vendors.map((vendor) => vendor.id).join()} className="flex items-center gap-3 p-3 text-sm">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="font-medium truncate">
+                        {group.vendors.map((vendor) => vendor.name).join(' · ')}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {group.reasons.map((reason) => (
+                          <Badge key={reason} variant="secondary">
+                            {DUPLICATE_REASON_LABELS[reason]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => startMerge(group)}>
+                      <IconGitMerge className="h-4 w-4" />
+                      Review
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : (
+            <div className="rounded-lg border overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="table-header">
+                    <th className="text-left p-3 w-32">Field</th>
+                    {merge.group.vendors.map((vendor) => (
+                      <th key={vendor.id} className="text-left p-3">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name="survivor"
+                            checked={merge.survivorId === vendor.id}
+                            onChange={() => changeSurvivor(vendor.id)}
+                          />
+                          <span>{merge.survivorId === vendor.id ? 'Keep' : 'Merge in'}</span>
+                        </label>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {MERGEABLE_VENDOR_FIELDS.map(({ key, label }) => (
+                    <tr key={key} className="border-t">
+                      <td className="p-3 text-muted-foreground">{label}</td>
+                      {merge.group.vendors.map((vendor) => {
+                        const picked = merge.picks[key] === vendor.id;
+                        return (
+                          <td key={vendor.id} className="p-1">
+                            <button
+                              type="button"
+                              onClick={() => pickField(key, vendor.id)}
+                              className={cn(
+                                'w-full text-left rounded-md px-2 py-1.5 border',
+                                picked ? 'border-primary bg-primary/5 font-medium' : 'border-transparent hover:bg-muted'
+                              )}
+                            >
+                              <span className="line-clamp-2 break-words">{formatFieldValue(vendor, key)}</span>
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {merge && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMerge(null)}>
+              <IconArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <Button onClick={() => setConfirmOpen(true)}>
+              <IconGitMerge className="h-4 w-4" />
+              Merge {merge.group.vendors.length} Vendors
+            </Button>
+          </DialogFooter>
+        )}
+
+        <ConfirmDialog
+          open={confirmOpen}
+          onOpenChange={setConfirmOpen}
+          title="Merge Vendors"
+          description={
+            merge
+              ? `Keep "${merge.group.vendors.find((vendor) => vendor.id === merge.survivorId)?.name}" and delete the other ${
+                  merge.group.vendors.length - 1
+                }? Everything linked to them moves to the vendor you keep. This can't be undone.`
+              : ''
+          }
+          confirmText="Merge"
+          variant="destructive"
+          isPending={mergeVendors.isPending}
+          onConfirm={handleMerge}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -89,6 +89,7 @@ type FormData = {
   licensed: boolean
   insured: boolean
   w9_on_file: boolean
+  retainage_percent: number
   rating: number | null
   reliability: 'excellent' | 'good' | 'fair' | 'poor' | null
   price_level: '$' | '$$' | '$$$' | null
@@ -107,6 +108,7 @@ const defaultFormData: FormData = {
   licensed: false,
   insured: false,
   w9_on_file: false,
+  retainage_percent: 0,
   rating: null,
   reliability: null,
   price_level: null,
@@ -211,6 +213,7 @@ export function VendorFormSheet({
         licensed: vendor.licensed,
         insured: vendor.insured,
         w9_on_file: vendor.w9_on_file,
+        retainage_percent: Number(vendor.retainage_percent) || 0,
         rating: vendor.rating,
         reliability: vendor.reliability,
         price_level: vendor.price_level,
@@ -236,6 +239,7 @@ export function VendorFormSheet({
       licensed: formData.licensed,
       insured: formData.insured,
       w9_on_file: formData.w9_on_file,
+      retainage_percent: formData.retainage_percent,
       rating: formData.rating,
       reliability: formData.reliability,
       price_level: formData.price_level,
@@ -450,6 +454,32 @@ export function VendorFormSheet({
             </div>
           </div>
 
+          {/* Payment Terms Section */}
+          <div className="space-y-4">
+            <h4 className="text-sm font-medium text-muted-foreground">
+              Payment Terms
+            </h4>
+
+            <div className="space-y-2">
+              <Label htmlFor="retainage_percent">Retainage %</Label>
+              <Input
+                id="retainage_percent"
+                type="number"
+                min="0"
+                max="100"
+                step="0.5"
+                value={formData.retainage_percent}
+                onChange={(e) =>
+                  updateField('retainage_percent', Number(e.target.value) || 0)
+                }
+                className="w-32"
+              />
+              <p className="text-xs text-muted-foreground">
+                Held back from each draw until this vendor&apos;s final draw
+              </p>
+            </div>
+          </div>
+
           {/* Ratings Section */}
           <div className="space-y-4">
             <h4 className="text-sm font-medium text-muted-foreground">
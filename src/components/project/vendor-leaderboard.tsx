@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { IconArrowDown, IconArrowUp, IconTrophy } from '@tabler/icons-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn, formatCurrency, formatPercent } from '@/lib/utils';
+import {
+  SCORECARD_BEST_FIRST,
+  getLeaderboardTrades,
+  getTradeLeaderboard,
+  type ScorecardSortKey,
+  type SortDirection,
+  type VendorScorecard,
+} from '@/lib/vendor-scorecard';
+import { formatResponseDays, formatVariancePercent } from '@/components/project/vendor-scorecard';
+import { VENDOR_TRADE_LABELS, type Vendor, type VendorTrade } from '@/types';
+
+interface VendorLeaderboardProps {
+  vendors: Vendor[];
+  scorecards: Map<string, VendorScorecard>;
+  onOpenVendor: (vendor: Vendor) => void;
+}
+
+const COLUMNS: { key: ScorecardSortKey; label: string; align: 'left' | 'right' }[] = [
+  { key: 'name', label: 'Vendor', align: 'left' },
+  { key: 'items', label: 'Items', align: 'right' },
+  { key: 'variance', label: 'Cost vs Forecast', align: 'right' },
+  { key: 'late', label: 'Finished Late', align: 'right' },
+  { key: 'response', label: 'Quote Response', align: 'right' },
+  { key: 'paid', label: 'Total Paid', align: 'right' },
+];
+
+/**
+ * Vendors in one trade ranked by any scorecard column. Clicking a column
+ * sorts best-first; clicking it again reverses.
+ */
+export function VendorLeaderboard({ vendors, scorecards, onOpenVendor }: VendorLeaderboardProps) {
+  const trades = getLeaderboardTrades(vendors, scorecards);
+  const [selectedTrade, setSelectedTrade] = useState<VendorTrade | null>(null);
+  const [sort, setSort] = useState<{ key: ScorecardSortKey; direction: SortDirection }>({
+    key: 'variance',
+    direction: SCORECARD_BEST_FIRST.variance,
+  });
+
+  if (trades.length === 0) return null;
+
+  const trade = selectedTrade && trades.includes(selectedTrade) ? selectedTrade : trades[0];
+  const rows = getTradeLeaderboard(vendors, scorecards, trade, sort.key, sort.direction);
+
+  const handleSort = (key: ScorecardSortKey) => {
+    setSort((current) =>
+      current.key === key
+        ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: SCORECARD_BEST_FIRST[key] }
+    );
+  };
+
+  return (
+    <div className="rounded-lg border">
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 pb-2">
+        <div className="flex items-center gap-2">
+          <IconTrophy className="h-5 w-5 text-muted-foreground" />
+          <h4 className="font-medium">Trade Leaderboard</h4>
+        </div>
+        <Select value={trade} onValueChange={(value) => setSelectedTrade(value as VendorTrade)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Trade" />
+          </SelectTrigger>
+          <SelectContent>
+            {trades.map((value) => (
+              <SelectItem key={value} value={value}>
+                {VENDOR_TRADE_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="table-header">
+              <th className="p-3 w-8 text-left">#</th>
+              {COLUMNS.map((column) => (
+                <th key={column.key} className={cn('p-3', column.align === 'right' ? 'text-right' : 'text-left')}>
+                  <button
+                    type="button"
+                    onClick={() => handleSort(column.key)}
+                    className="inline-flex items-center gap-1 hover:text-foreground"
+                  >
+                    {column.label}
+                    {sort.key === column.key &&
+                      (sort.direction === 'asc' ? (
+                        <IconArrowUp className="h-3 w-3" />
+                      ) : (
+                        <IconArrowDown className="h-3 w-3" />
+                      ))}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ vendor, scorecard }, index) => (
+              <tr key={vendor.id} className="border-t">
+                <td className="p-3 text-muted-foreground tabular-nums">{index + 1}</td>
+                <td className="p-3">
+                  <button
+                    type="button"
+                    onClick={() => onOpenVendor(vendor)}
+                    className="font-medium hover:text-primary hover:underline"
+                  >
+                    {vendor.name}
+                  </button>
+                </td>
+                <td className="p-3 text-right tabular-nums">{scorecard.itemCount}</td>
+                <td
+                  className={cn(
+                    'p-3 text-right tabular-nums',
+                    scorecard.actualVariancePercent !== null &&
+                      (scorecard.actualVariancePercent > 0 ? 'text-red-600' : 'text-green-600')
+                  )}
+                >
+                  {formatVariancePercent(scorecard.actualVariancePercent)}
+                </td>
+                <td className="p-3 text-right tabular-nums">{formatPercent(scorecard.lateRate)}</td>
+                <td className="p-3 text-right tabular-nums">{formatResponseDays(scorecard.avgResponseDays)}</td>
+                <td className="p-3 text-right tabular-nums">{formatCurrency(scorecard.totalPaid)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
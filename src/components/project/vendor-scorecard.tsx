@@ -0,0 +1,96 @@
+'use client';
+
+import { cn, formatCurrency, formatPercent } from '@/lib/utils';
+import type { VendorScorecard } from '@/lib/vendor-scorecard';
+
+interface VendorScorecardPanelProps {
+  scorecard: VendorScorecard;
+}
+
+/**
+ * Over/under forecast as a signed percent: "+4.2%" is over budget.
+ */
+export function formatVariancePercent(value: number | null): string {
+  if (value === null) return '-';
+  return `${value > 0 ? '+' : ''}${formatPercent(value)}`;
+}
+
+export function formatResponseDays(days: number | null): string {
+  if (days === null) return '-';
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+/**
+ * Cost, schedule, responsiveness and payment history for one vendor.
+ */
+export function VendorScorecardPanel({ scorecard }: VendorScorecardPanelProps) {
+  const {
+    itemCount,
+    projectCount,
+    costedItemCount,
+    actualVariance,
+    actualVariancePercent,
+    scheduledItemCount,
+    lateItemCount,
+    lateRate,
+    quoteResponseCount,
+    avgResponseDays,
+    openQuoteRequests,
+    totalPaid,
+  } = scorecard;
+
+  return (
+    <div className="grid grid-cols-2 gap-4 p-4 bg-muted/50 rounded-lg">
+      <div>
+        <p className="text-xs text-muted-foreground">Cost vs Forecast</p>
+        <p
+          className={cn(
+            'text-lg font-semibold tabular-nums',
+            actualVariancePercent !== null && actualVariancePercent > 0 && 'text-red-600',
+            actualVariancePercent !== null && actualVariancePercent <= 0 && 'text-green-600'
+          )}
+        >
+          {formatVariancePercent(actualVariancePercent)}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {costedItemCount > 0
+            ? `${actualVariance > 0 ? '+' : ''}${formatCurrency(actualVariance)} on ${costedItemCount} of ${itemCount} items`
+            : 'No actuals recorded'}
+        </p>
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground">Finished Late</p>
+        <p
+          className={cn(
+            'text-lg font-semibold tabular-nums',
+            lateRate !== null && lateRate > 0 && 'text-amber-600'
+          )}
+        >
+          {formatPercent(lateRate)}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {scheduledItemCount > 0
+            ? `${lateItemCount} of ${scheduledItemCount} items past target`
+            : 'No completed items with a target date'}
+        </p>
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground">Quote Response</p>
+        <p className="text-lg font-semibold tabular-nums">{formatResponseDays(avgResponseDays)}</p>
+        <p className="text-xs text-muted-foreground">
+          {quoteResponseCount > 0
+            ? `Average of ${quoteResponseCount} quote${quoteResponseCount === 1 ? '' : 's'}`
+            : 'No quotes logged'}
+          {openQuoteRequests > 0 && ` · ${openQuoteRequests} awaiting`}
+        </p>
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground">Total Paid</p>
+        <p className="text-lg font-semibold tabular-nums">{formatCurrency(totalPaid)}</p>
+        <p className="text-xs text-muted-foreground">
+          {projectCount} project{projectCount === 1 ? '' : 's'}
+        </p>
+      </div>
+    </div>
+  );
+}
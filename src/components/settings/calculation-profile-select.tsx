@@ -0,0 +1,63 @@
+'use client';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { CalculationSettings } from '@/types';
+import { cn } from '@/lib/utils';
+
+// Radix Select does not allow an empty string as an item value
+const USE_DEFAULT_VALUE = '__default__';
+
+interface CalculationProfileSelectProps {
+  profiles: CalculationSettings[];
+  /** Profile the "Use default" option stands for; the first default in `profiles` if omitted */
+  defaultProfile?: CalculationSettings | null;
+  value: string | null;
+  onValueChange: (profileId: string | null) => void;
+  /** Adds a "Use default profile" option that maps to `null` */
+  allowDefault?: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function CalculationProfileSelect({
+  profiles,
+  defaultProfile: defaultProfileProp,
+  value,
+  onValueChange,
+  allowDefault = false,
+  disabled,
+  className,
+}: CalculationProfileSelectProps) {
+  const defaultProfile = defaultProfileProp === undefined ? profiles.find((p) => p.is_default) : defaultProfileProp;
+
+  return (
+    <Select
+      value={value ?? (allowDefault ? USE_DEFAULT_VALUE : undefined)}
+      onValueChange={(next) => onValueChange(next === USE_DEFAULT_VALUE ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={cn('w-[220px]', className)}>
+        <SelectValue placeholder="Select a profile" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowDefault && (
+          <SelectItem value={USE_DEFAULT_VALUE}>
+            Use default{defaultProfile ? ` (${defaultProfile.name})` : ''}
+          </SelectItem>
+        )}
+        {profiles.map((profile) => (
+          <SelectItem key={profile.id} value={profile.id}>
+            {profile.name}
+            {profile.is_default && !allowDefault ? ' (default)' : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -6,3 +6,4 @@ export { SellingCostSettingsSection } from './selling-cost-settings-section';
 export { ProfitSettingsSection } from './profit-settings-section';
 export { VarianceSettingsSection } from './variance-settings-section';
 export { FormulaPreview } from './formula-preview';
+export { CalculationProfileSelect } from './calculation-profile-select';
@@ -8,6 +8,8 @@ export * from './use-realtime';
 export * from './use-projects';
 export * from './use-vendors';
 export * from './use-budget-items';
+export * from './use-budget-templates';
+export * from './use-project-reports';
 
 // Utilities
 export * from './use-places-autocomplete';
@@ -15,3 +17,12 @@ export * from './use-auto-save-notes';
 
 // Journal
 export * from './use-journal';
+
+// Calculation settings
+export * from './use-calculation-settings';
+
+// Workspaces and team
+export * from './use-workspaces';
+
+// Audit trail
+export * from './use-audit-log';
@@ -0,0 +1,91 @@
+'use client'
+
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import {
+  TAX_1099_DRAW_SELECT,
+  TAX_1099_RETAINAGE_DRAW_SELECT,
+  build1099Report,
+  get1099StatementFilename,
+  getRetainageProjectIds,
+  getTaxYearDateRange,
+  toTax1099Payments,
+  type Tax1099DrawRow,
+  type Tax1099RetainageDrawRow,
+} from '@/lib/tax-1099'
+import type { Vendor } from '@/types'
+import { toast } from 'sonner'
+
+interface DownloadStatementParams {
+  vendor: Vendor
+  taxYear: number
+}
+
+// Paid draws across every project for the tax year, totalled by the vendors they paid
+export function use1099Report(taxYear: number) {
+  const supabase = getSupabaseClient()
+
+  return useQuery({
+    queryKey: ['tax1099Report', taxYear],
+    queryFn: async () => {
+      const { start, end } = getTaxYearDateRange(taxYear)
+
+      const [drawsResult, vendorsResult] = await Promise.all([
+        supabase
+          .from('draws')
+          .select(TAX_1099_DRAW_SELECT)
+          .eq('status', 'paid')
+          .gte('date_paid', start)
+          .lte('date_paid', end)
+          .overrideTypes<Tax1099DrawRow[], { merge: false }>(),
+        supabase.from('vendors').select('*'),
+      ])
+
+      if (drawsResult.error) throw drawsResult.error
+      if (vendorsResult.error) throw vendorsResult.error
+
+      // Final draws release retainage held on earlier draws, which may predate the year
+      const projectIds = getRetainageProjectIds(drawsResult.data)
+      let projectDraws: Tax1099RetainageDrawRow[] = []
+      if (projectIds.length > 0) {
+        const { data, error } = await supabase
+          .from('draws')
+          .select(TAX_1099_RETAINAGE_DRAW_SELECT)
+          .in('project_id', projectIds)
+          .overrideTypes<Tax1099RetainageDrawRow[], { merge: false }>()
+        if (error) throw error
+        projectDraws = data
+      }
+
+      const payments = toTax1099Payments(drawsResult.data, projectDraws)
+      return build1099Report(taxYear, payments, vendorsResult.data as Vendor[])
+    },
+  })
+}
+
+// Render a vendor's statement on the server and save it
+export function useDownload1099Statement() {
+  return useMutation({
+    mutationFn: async ({ vendor, taxYear }: DownloadStatementParams) => {
+      const response = await fetch(`/api/vendors/${vendor.id}/payment-statement?year=${taxYear}`)
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error || 'Failed to render statement')
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = get1099StatementFilename(vendor.name, taxYear)
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      URL.revokeObjectURL(url)
+    },
+    onError: (error) => {
+      console.error('Error downloading payment statement:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to download statement')
+    },
+  })
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { getSupabaseClient } from '@/lib/supabase/client';
+import type { AuditLogEntry, AuditLogEntryWithActor, AuditTable } from '@/types';
+
+// The activity feed shows the most recent changes; older history stays in the table
+const PROJECT_ACTIVITY_LIMIT = 500;
+
+// Query keys
+export const auditLogKeys = {
+  all: ['auditLog'] as const,
+  project: (projectId: string) => [...auditLogKeys.all, 'project', projectId] as const,
+  record: (table: AuditTable, recordId: string) => [...auditLogKeys.all, 'record', table, recordId] as const,
+};
+
+// audit_log.actor_id isn't a foreign key, so names are fetched separately
+async function withActors(entries: AuditLogEntry[]): Promise<AuditLogEntryWithActor[]> {
+  const actorIds = Array.from(new Set(entries.map((entry) => entry.actor_id).filter((id): id is string => !!id)));
+  if (actorIds.length === 0) return entries.map((entry) => ({ ...entry, actor: null }));
+
+  const supabase = getSupabaseClient();
+  const { data: profiles, error } = await supabase
+    .from('profiles')
+    .select('id, email, full_name')
+    .in('id', actorIds);
+
+  if (error) throw error;
+
+  const profileById = new Map(
+    (profiles as { id: string; email: string | null; full_name: string | null }[]).map((profile) => [
+      profile.id,
+      { email: profile.email, full_name: profile.full_name },
+    ])
+  );
+
+  return entries.map((entry) => ({
+    ...entry,
+    actor: entry.actor_id ? profileById.get(entry.actor_id) ?? null : null,
+  }));
+}
+
+/**
+ * Fetches a project's change history, newest first: the project, its budget
+ * items, draws and photos, plus changes to the vendors working on it.
+ *
+ * @param projectId - The project ID
+ * @param vendorIds - Vendors assigned to the project's budget items or draws
+ * @returns The entries with who made each change (`AuditLogEntryWithActor[]`)
+ */
+export function useProjectActivity(projectId: string, vendorIds: string[] = []) {
+  return useQuery({
+    queryKey: [...auditLogKeys.project(projectId), [...vendorIds].sort()],
+    queryFn: async () => {
+      const supabase = getSupabaseClient();
+      let query = supabase.from('audit_log').select('*');
+
+      query =
+        vendorIds.length > 0
+          ? query.or(`project_id.eq.${projectId},and(table_name.eq.vendors,record_id.in.(${vendorIds.join(',')}))`)
+          : query.eq('project_id', projectId);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(PROJECT_ACTIVITY_LIMIT);
+
+      if (error) throw error;
+      return withActors(data as AuditLogEntry[]);
+    },
+    enabled: !!projectId,
+    staleTime: 0,
+  });
+}
+
+/**
+ * Fetches the history of a single budget item, draw or other row, newest first.
+ *
+ * @param table - The audited table
+ * @param recordId - The row ID
+ * @param enabled - Only fetch once the history is opened
+ * @returns The entries with who made each change (`AuditLogEntryWithActor[]`)
+ */
+export function useRecordHistory(table: AuditTable, recordId: string, enabled = true) {
+  return useQuery({
+    queryKey: auditLogKeys.record(table, recordId),
+    queryFn: async () => {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('*')
+        .eq('table_name', table)
+        .eq('record_id', recordId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return withActors(data as AuditLogEntry[]);
+    },
+    enabled: enabled && !!recordId,
+    staleTime: 0,
+  });
+}
@@ -1,8 +1,11 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import type { User, Session } from '@supabase/supabase-js';
 import { getSupabaseClient } from '@/lib/supabase/client';
+import { hasCapability, pickActiveMembership, type WorkspaceCapability } from '@/lib/workspaces';
+import type { Workspace, WorkspaceMembership, WorkspaceRole } from '@/types';
 
 interface AuthState {
   user: User | null;
@@ -69,6 +72,71 @@ export function useUserId(): string | null {
   return user?.id ?? null;
 }
 
+/**
+ * Query key for the current user's workspace memberships. Lives under
+ * ['workspaces'] so invalidating workspaceKeys.all refreshes it too.
+ */
+export const currentWorkspaceKey = (userId: string | null) => ['workspaces', 'current', userId] as const;
+
+interface WorkspaceState {
+  /** The workspace the user is working in (see current_workspace_id()) */
+  workspace: Workspace | null;
+  /** The user's role there; null while loading or without a workspace */
+  role: WorkspaceRole | null;
+  /** Every workspace the user belongs to, for the switcher */
+  memberships: WorkspaceMembership[];
+  isLoading: boolean;
+  /** Whether the user's role allows the capability in the current workspace */
+  can: (capability: WorkspaceCapability) => boolean;
+}
+
+/**
+ * Hook to get the signed-in user's current workspace and role.
+ * Mutation hooks check `role` before writing; the database enforces the
+ * same rules in RLS.
+ */
+export function useWorkspace(): WorkspaceState {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const userId = user?.id ?? null;
+
+  const { data, isLoading } = useQuery({
+    queryKey: currentWorkspaceKey(userId),
+    queryFn: async () => {
+      const supabase = getSupabaseClient();
+      const [membershipsResult, profileResult] = await Promise.all([
+        supabase
+          .from('workspace_members')
+          .select('*, workspace:workspaces(*)')
+          .eq('user_id', userId!)
+          .order('created_at', { ascending: true }),
+        supabase.from('profiles').select('active_workspace_id').eq('id', userId!).maybeSingle(),
+      ]);
+
+      if (membershipsResult.error) throw membershipsResult.error;
+      if (profileResult.error) throw profileResult.error;
+
+      return {
+        memberships: membershipsResult.data as WorkspaceMembership[],
+        activeWorkspaceId: (profileResult.data?.active_workspace_id as string | null) ?? null,
+      };
+    },
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const memberships = data?.memberships ?? [];
+  const active = data ? pickActiveMembership(memberships, data.activeWorkspaceId) : null;
+  const role = active?.role ?? null;
+
+  return {
+    workspace: active?.workspace ?? null,
+    role,
+    memberships,
+    isLoading: isAuthLoading || (!!userId && isLoading),
+    can: (capability) => hasCapability(role, capability),
+  };
+}
+
 /**
  * Hook to sign in with email and password.
  */
@@ -0,0 +1,202 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import { budgetItemKeys } from '@/hooks/use-budget-items'
+import type { BidLineItem, BidRequestWithBids, BudgetCategory } from '@/types'
+import { toast } from 'sonner'
+
+interface CreateBidRequestParams {
+  title: string
+  category: BudgetCategory | null
+  budgetItemIds: string[]
+  vendorIds: string[]
+  dueDate: string | null
+  notes: string | null
+}
+
+interface RecordBidParams {
+  bidId: string
+  lines: Pick<BidLineItem, 'budget_item_id' | 'amount'>[]
+  exclusions: string | null
+  notes: string | null
+}
+
+export function useBidRequests(projectId: string) {
+  const supabase = getSupabaseClient()
+
+  return useQuery({
+    queryKey: ['bidRequests', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bid_requests')
+        .select('*, bid_request_items(*), bids(*, bid_line_items(*))')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data as BidRequestWithBids[]
+    },
+  })
+}
+
+export function useBidMutations(projectId: string) {
+  const queryClient = useQueryClient()
+  const { role } = useWorkspace()
+  const supabase = getSupabaseClient()
+
+  const invalidateBids = () => {
+    queryClient.invalidateQueries({ queryKey: ['bidRequests', projectId] })
+    // Requests, received bids and awards are logged as vendor contacts
+    queryClient.invalidateQueries({ queryKey: ['vendorContacts'] })
+  }
+
+  // Create the request, invite each vendor and log the quote requests (see create_bid_request())
+  const createBidRequest = useMutation({
+    mutationFn: async ({ title, category, budgetItemIds, vendorIds, dueDate, notes }: CreateBidRequestParams) => {
+      assertCapability(role, 'edit_projects')
+
+      const { data, error } = await supabase.rpc('create_bid_request', {
+        p_project_id: projectId,
+        p_title: title,
+        p_category: category,
+        p_budget_item_ids: budgetItemIds,
+        p_vendor_ids: vendorIds,
+        p_due_date: dueDate,
+        p_notes: notes,
+      })
+
+      if (error) throw error
+      return data as string
+    },
+    onSuccess: (_, { vendorIds }) => {
+      invalidateBids()
+      toast.success(`Bid request sent to ${vendorIds.length} vendor${vendorIds.length === 1 ? '' : 's'}`)
+    },
+    onError: (error) => {
+      console.error('Error creating bid request:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to create bid request'))
+    },
+  })
+
+  // Save a vendor's line pricing and exclusions (see record_bid())
+  const recordBid = useMutation({
+    mutationFn: async ({ bidId, lines, exclusions, notes }: RecordBidParams) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase.rpc('record_bid', {
+        p_bid_id: bidId,
+        p_lines: lines,
+        p_exclusions: exclusions,
+        p_notes: notes,
+      })
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateBids()
+      toast.success('Bid saved')
+    },
+    onError: (error) => {
+      console.error('Error recording bid:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to save bid'))
+    },
+  })
+
+  const declineBid = useMutation({
+    mutationFn: async (bidId: string) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase
+        .from('bids')
+        .update({ status: 'declined' })
+        .eq('id', bidId)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateBids()
+      toast.success('Bid marked as declined')
+    },
+    onError: (error) => {
+      console.error('Error declining bid:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update bid'))
+    },
+  })
+
+  // Copy the bid onto the budget lines and close the request (see award_bid())
+  const awardBid = useMutation({
+    mutationFn: async (bidId: string) => {
+      assertCapability(role, 'edit_projects')
+
+      const { data, error } = await supabase.rpc('award_bid', { p_bid_id: bidId })
+
+      if (error) throw error
+      return data as number
+    },
+    onSuccess: (count) => {
+      invalidateBids()
+      queryClient.invalidateQueries({ queryKey: budgetItemKeys.byProject(projectId) })
+      queryClient.invalidateQueries({ queryKey: ['projects', 'summary', projectId] })
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] })
+      toast.success(`Bid awarded: ${count} budget line${count === 1 ? '' : 's'} updated`)
+    },
+    onError: (error) => {
+      console.error('Error awarding bid:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to award bid'))
+    },
+  })
+
+  const cancelBidRequest = useMutation({
+    mutationFn: async (requestId: string) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase
+        .from('bid_requests')
+        .update({ status: 'cancelled' })
+        .eq('id', requestId)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateBids()
+      toast.success('Bid request cancelled')
+    },
+    onError: (error) => {
+      console.error('Error cancelling bid request:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to cancel bid request'))
+    },
+  })
+
+  const deleteBidRequest = useMutation({
+    mutationFn: async (requestId: string) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase
+        .from('bid_requests')
+        .delete()
+        .eq('id', requestId)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateBids()
+      toast.success('Bid request deleted')
+    },
+    onError: (error) => {
+      console.error('Error deleting bid request:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete bid request'))
+    },
+  })
+
+  return {
+    createBidRequest,
+    recordBid,
+    declineBid,
+    awardBid,
+    cancelBidRequest,
+    deleteBidRequest,
+  }
+}
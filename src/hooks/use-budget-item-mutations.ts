@@ -2,6 +2,8 @@
 
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getBudgetItemUpdateCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
 import type { BudgetItem, BudgetItemInput, ItemStatus } from '@/types'
 import { toast } from 'sonner'
 
@@ -26,11 +28,14 @@ interface BulkDeleteParams {
 
 export function useBudgetItemMutations(projectId: string) {
   const queryClient = useQueryClient()
+  const { role } = useWorkspace()
   const supabase = getSupabaseClient()
 
   // Create a new budget item
   const createItem = useMutation({
     mutationFn: async ({ projectId, item }: CreateBudgetItemParams) => {
+      assertCapability(role, 'edit_projects')
+
       // Get max sort_order for this category
       const { data: existingItems } = await supabase
         .from('budget_items')
@@ -77,13 +82,15 @@ export function useBudgetItemMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error creating budget item:', error)
-      toast.error('Failed to add line item')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to add line item'))
     },
   })
 
   // Update a budget item
   const updateItem = useMutation({
     mutationFn: async ({ id, data }: UpdateBudgetItemParams) => {
+      assertCapability(role, getBudgetItemUpdateCapability(data))
+
       const { data: result, error } = await supabase
         .from('budget_items')
         .update(data)
@@ -100,13 +107,15 @@ export function useBudgetItemMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error updating budget item:', error)
-      toast.error('Failed to update budget item')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update budget item'))
     },
   })
 
   // Delete a single budget item
   const deleteItem = useMutation({
     mutationFn: async (itemId: string) => {
+      assertCapability(role, 'edit_projects')
+
       const { error } = await supabase
         .from('budget_items')
         .delete()
@@ -120,13 +129,15 @@ export function useBudgetItemMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error deleting budget item:', error)
-      toast.error('Failed to delete line item')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete line item'))
     },
   })
 
   // Bulk update status
   const bulkUpdateStatus = useMutation({
     mutationFn: async ({ itemIds, status }: BulkUpdateStatusParams) => {
+      assertCapability(role, 'edit_projects')
+
       const { data, error } = await supabase
         .from('budget_items')
         .update({ status })
@@ -142,13 +153,15 @@ export function useBudgetItemMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error bulk updating status:', error)
-      toast.error('Failed to update items')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update items'))
     },
   })
 
   // Bulk delete items
   const bulkDelete = useMutation({
     mutationFn: async ({ itemIds }: BulkDeleteParams) => {
+      assertCapability(role, 'edit_projects')
+
       const { error } = await supabase
         .from('budget_items')
         .delete()
@@ -162,7 +175,7 @@ export function useBudgetItemMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error bulk deleting items:', error)
-      toast.error('Failed to delete items')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete items'))
     },
   })
 
@@ -2,7 +2,10 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getSupabaseClient } from '@/lib/supabase/client';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability, getBudgetItemUpdateCapability } from '@/lib/workspaces';
 import { useProjectRealtime } from '@/hooks/use-realtime';
+import type { BidImportChange } from '@/lib/xlsx/bid-import';
 import type { BudgetItem, BudgetCategory, UnitType, CostType, ItemStatus } from '@/types';
 
 // Query keys
@@ -60,9 +63,12 @@ interface CreateBudgetItemInput {
 // Create budget item mutation
 export function useCreateBudgetItem() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async (input: CreateBudgetItemInput) => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       const { data, error } = await supabase
         .from('budget_items')
@@ -95,12 +101,15 @@ export function useCreateBudgetItem() {
 // Update budget item mutation
 export function useUpdateBudgetItem() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async ({
       id,
       ...updates
     }: Partial<Omit<CreateBudgetItemInput, 'project_id'>> & { id: string; project_id: string }) => {
+      assertCapability(role, getBudgetItemUpdateCapability(updates));
+
       const supabase = getSupabaseClient();
       const { data, error } = await supabase
         .from('budget_items')
@@ -124,9 +133,12 @@ export function useUpdateBudgetItem() {
 // Delete budget item mutation
 export function useDeleteBudgetItem() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async ({ id, projectId }: { id: string; projectId: string }) => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       const { error } = await supabase.from('budget_items').delete().eq('id', id);
 
@@ -145,6 +157,7 @@ export function useDeleteBudgetItem() {
 // Batch update budget items (for reordering)
 export function useBatchUpdateBudgetItems() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async ({
@@ -154,6 +167,8 @@ export function useBatchUpdateBudgetItems() {
       projectId: string;
       updates: Array<{ id: string; sort_order: number }>;
     }) => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
 
       // Use a transaction-like approach with Promise.all
@@ -176,3 +191,43 @@ export function useBatchUpdateBudgetItems() {
     },
   });
 }
+
+// Import bid rows into the forecast column (one transaction, see import_budget_bid())
+export function useImportBudgetBid() {
+  const queryClient = useQueryClient();
+  const { role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async ({ projectId, changes }: { projectId: string; changes: BidImportChange[] }) => {
+      assertCapability(role, 'edit_projects');
+
+      const supabase = getSupabaseClient();
+      const rows = changes.map(({ row, budgetItem }) =>
+        budgetItem
+          ? { id: budgetItem.id, forecast_amount: row.amount }
+          : {
+              category: row.category,
+              item: row.item,
+              description: row.description,
+              qty: row.qty,
+              unit: row.unit,
+              rate: row.rate,
+              forecast_amount: row.amount,
+            }
+      );
+
+      const { data, error } = await supabase.rpc('import_budget_bid', {
+        p_project_id: projectId,
+        p_rows: rows,
+      });
+
+      if (error) throw error;
+      return { projectId, count: data as number };
+    },
+    onSuccess: ({ projectId }) => {
+      queryClient.invalidateQueries({ queryKey: budgetItemKeys.byProject(projectId) });
+      queryClient.invalidateQueries({ queryKey: ['projects', 'summary', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+    },
+  });
+}
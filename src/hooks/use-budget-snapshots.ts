@@ -0,0 +1,87 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import type { BudgetSnapshot } from '@/types'
+import { toast } from 'sonner'
+
+interface CreateSnapshotParams {
+  name: string
+  notes?: string | null
+}
+
+export function useBudgetSnapshots(projectId: string) {
+  const supabase = getSupabaseClient()
+
+  return useQuery({
+    queryKey: ['budgetSnapshots', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('budget_snapshots')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data as BudgetSnapshot[]
+    },
+  })
+}
+
+export function useBudgetSnapshotMutations(projectId: string) {
+  const queryClient = useQueryClient()
+  const { role } = useWorkspace()
+  const supabase = getSupabaseClient()
+
+  // Freeze the current budget and project financials server-side
+  const createSnapshot = useMutation({
+    mutationFn: async ({ name, notes }: CreateSnapshotParams) => {
+      assertCapability(role, 'edit_projects')
+
+      const { data, error } = await supabase.rpc('create_budget_snapshot', {
+        p_project_id: projectId,
+        p_name: name,
+        p_notes: notes || null,
+      })
+
+      if (error) throw error
+      return data as BudgetSnapshot
+    },
+    onSuccess: (snapshot) => {
+      queryClient.invalidateQueries({ queryKey: ['budgetSnapshots', projectId] })
+      toast.success(`Snapshot "${snapshot.name}" saved`)
+    },
+    onError: (error) => {
+      console.error('Error creating budget snapshot:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to save snapshot'))
+    },
+  })
+
+  const deleteSnapshot = useMutation({
+    mutationFn: async (id: string) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase
+        .from('budget_snapshots')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budgetSnapshots', projectId] })
+      toast.success('Snapshot deleted')
+    },
+    onError: (error) => {
+      console.error('Error deleting budget snapshot:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete snapshot'))
+    },
+  })
+
+  return {
+    createSnapshot,
+    deleteSnapshot,
+  }
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getSupabaseClient } from '@/lib/supabase/client';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability } from '@/lib/workspaces';
+import type { BudgetTemplate, BudgetTemplateWithItems } from '@/types';
+
+// Query keys
+export const budgetTemplateKeys = {
+  all: ['budgetTemplates'] as const,
+  lists: () => [...budgetTemplateKeys.all, 'list'] as const,
+};
+
+/**
+ * Fetches the workspace's budget templates with their line items, in name order.
+ *
+ * @returns The workspace's templates (`BudgetTemplateWithItems[]`)
+ */
+export function useBudgetTemplates() {
+  return useQuery({
+    queryKey: budgetTemplateKeys.lists(),
+    queryFn: async () => {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('budget_templates')
+        .select('*, budget_template_items(*)')
+        .order('name');
+
+      if (error) throw error;
+      return data as BudgetTemplateWithItems[];
+    },
+  });
+}
+
+interface SaveBudgetTemplateInput {
+  projectId: string;
+  name: string;
+  description?: string | null;
+}
+
+/**
+ * Save a project's budget as a template shared with the current workspace.
+ *
+ * The copy runs server-side in `save_project_as_budget_template()`, which
+ * keeps each line's quantity, unit, rate, cost type and vendor and records
+ * the project's sqft for scaling SF-priced lines later.
+ *
+ * @returns A mutation that resolves to the new `BudgetTemplate`
+ */
+export function useSaveBudgetTemplate() {
+  const queryClient = useQueryClient();
+  const { role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async ({ projectId, name, description }: SaveBudgetTemplateInput) => {
+      assertCapability(role, 'edit_projects');
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase.rpc('save_project_as_budget_template', {
+        p_project_id: projectId,
+        p_name: name,
+        p_description: description || null,
+      });
+
+      if (error) throw error;
+      return data as BudgetTemplate;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: budgetTemplateKeys.all });
+    },
+  });
+}
+
+/**
+ * Delete a budget template and its line items. Projects created from it are unaffected.
+ *
+ * @returns A mutation that takes the template ID
+ */
+export function useDeleteBudgetTemplate() {
+  const queryClient = useQueryClient();
+  const { role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      assertCapability(role, 'edit_projects');
+      const supabase = getSupabaseClient();
+      const { error } = await supabase
+        .from('budget_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: budgetTemplateKeys.all });
+    },
+  });
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getSupabaseClient } from '@/lib/supabase/client';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability } from '@/lib/workspaces';
+import { useAuth } from '@/hooks/use-auth';
+import { projectKeys } from '@/hooks/use-projects';
+import {
+  findDefaultProfile,
+  findProjectProfile,
+  toCalculationSettingsInput,
+} from '@/lib/calculation-settings';
+import type { CalculationSettings, CalculationSettingsInput, Project } from '@/types';
+
+// Query keys
+export const calculationSettingsKeys = {
+  all: ['calculationSettings'] as const,
+  lists: () => [...calculationSettingsKeys.all, 'list'] as const,
+  detail: (id: string) => [...calculationSettingsKeys.all, 'detail', id] as const,
+};
+
+/**
+ * Fetches every calculation settings profile the current user can read: their
+ * own, plus the profiles that projects they can see are analyzed with (an
+ * assigned profile or the project owner's default).
+ *
+ * Default profiles are returned first, followed by the rest in name order.
+ *
+ * @returns The readable profiles (`CalculationSettings[]`)
+ */
+export function useCalculationSettingsProfiles() {
+  return useQuery({
+    queryKey: calculationSettingsKeys.lists(),
+    queryFn: async () => {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('calculation_settings')
+        .select('*')
+        .order('is_default', { ascending: false })
+        .order('name');
+
+      if (error) throw error;
+      return data as CalculationSettings[];
+    },
+  });
+}
+
+/**
+ * Resolves the settings that apply to a project.
+ *
+ * Uses the project's assigned profile, falling back to the project owner's
+ * default profile and then to `DEFAULT_CALCULATION_SETTINGS` while profiles
+ * load or when none exist, so every teammate sees the same MAO and ROI.
+ *
+ * @param project - The project (`calculation_settings_id` and `user_id`; a
+ *   project without an owner yet uses the current user's default)
+ * @returns The resolved settings, the owner's default profile and the profile
+ *   list for pickers (the user's own profiles plus the assigned one)
+ */
+export function useProjectCalculationSettings(
+  project: (Pick<Project, 'calculation_settings_id'> & Partial<Pick<Project, 'user_id'>>) | null | undefined
+) {
+  const { user } = useAuth();
+  const { data: allProfiles = [], isLoading } = useCalculationSettingsProfiles();
+  const settingsId = project?.calculation_settings_id ?? null;
+  const ownerId = project?.user_id ?? user?.id ?? null;
+
+  const profile = useMemo(
+    () => findProjectProfile(allProfiles, settingsId, ownerId) ?? null,
+    [allProfiles, settingsId, ownerId]
+  );
+  const settings = useMemo(() => toCalculationSettingsInput(profile), [profile]);
+  const profiles = useMemo(
+    () => allProfiles.filter((p) => !user || p.user_id === user.id || p.id === settingsId),
+    [allProfiles, user, settingsId]
+  );
+
+  return {
+    settings,
+    profile,
+    defaultProfile: findDefaultProfile(allProfiles, ownerId) ?? null,
+    profiles,
+    isLoading,
+  };
+}
+
+/**
+ * Create or update a calculation settings profile.
+ *
+ * Passing an `id` updates that profile; omitting it inserts a new one owned by
+ * the current user. Marking a profile as default clears the flag on the
+ * others via the `ensure_single_default_calculation_settings` trigger.
+ *
+ * @returns A mutation that resolves to the saved `CalculationSettings` row
+ */
+export function useSaveCalculationSettings() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ id, ...settings }: CalculationSettingsInput & { id?: string | null }) => {
+      const supabase = getSupabaseClient();
+
+      const query = id
+        ? supabase.from('calculation_settings').update(settings).eq('id', id)
+        : supabase.from('calculation_settings').insert({ ...settings, user_id: user?.id ?? null });
+
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      return data as CalculationSettings;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: calculationSettingsKeys.all });
+      // MAO/ROI shown on projects may have changed
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+    },
+  });
+}
+
+/**
+ * Copy an existing profile under a new name.
+ *
+ * The copy is never marked as default.
+ *
+ * @returns A mutation that resolves to the new `CalculationSettings` row
+ */
+export function useDuplicateCalculationSettings() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ profile, name }: { profile: CalculationSettings; name?: string }) => {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('calculation_settings')
+        .insert({
+          ...toCalculationSettingsInput(profile),
+          name: name || `${profile.name} (copy)`,
+          is_default: false,
+          user_id: user?.id ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as CalculationSettings;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: calculationSettingsKeys.all });
+    },
+  });
+}
+
+/**
+ * Delete a calculation settings profile.
+ *
+ * Projects that used it fall back to the default profile
+ * (`projects.calculation_settings_id` is `ON DELETE SET NULL`).
+ *
+ * @returns The deleted profile's `id` on success
+ */
+export function useDeleteCalculationSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const supabase = getSupabaseClient();
+      const { error } = await supabase.from('calculation_settings').delete().eq('id', id);
+
+      if (error) throw error;
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: calculationSettingsKeys.all });
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+    },
+  });
+}
+
+/**
+ * Mark a profile as the user's default.
+ *
+ * @returns The updated `CalculationSettings` row
+ */
+export function useSetDefaultCalculationSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('calculation_settings')
+        .update({ is_default: true })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as CalculationSettings;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: calculationSettingsKeys.all });
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+    },
+  });
+}
+
+/**
+ * Assign a calculation settings profile to a project.
+ *
+ * Passing `null` clears the assignment so the project follows the default profile.
+ *
+ * @returns The updated `Project`
+ */
+export function useAssignProjectCalculationSettings() {
+  const queryClient = useQueryClient();
+  const { role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async ({ projectId, settingsId }: { projectId: string; settingsId: string | null }) => {
+      assertCapability(role, 'edit_projects');
+
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('projects')
+        .update({ calculation_settings_id: settingsId })
+        .eq('id', projectId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Project;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.detail(data.id) });
+      queryClient.invalidateQueries({ queryKey: projectKeys.summary(data.id) });
+      queryClient.invalidateQueries({ queryKey: projectKeys.lists() });
+    },
+  });
+}
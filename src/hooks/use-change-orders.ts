@@ -0,0 +1,218 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import { budgetItemKeys } from '@/hooks/use-budget-items'
+import { formatChangeOrderNumber, getChangeOrderFilename } from '@/lib/change-orders'
+import type { ChangeOrder, ChangeOrderItem, ChangeOrderReason, ChangeOrderWithItems } from '@/types'
+import { toast } from 'sonner'
+
+interface SaveChangeOrderParams {
+  /** Omit to create a new draft with the project's next number */
+  changeOrderId?: string
+  title: string
+  reasonCode: ChangeOrderReason
+  vendorId: string | null
+  description: string | null
+  lines: Pick<ChangeOrderItem, 'budget_item_id' | 'delta' | 'notes'>[]
+}
+
+interface RejectChangeOrderParams {
+  changeOrder: ChangeOrder
+  reason: string | null
+}
+
+interface DownloadChangeOrderParams {
+  changeOrder: ChangeOrder
+  projectName: string
+}
+
+export function useChangeOrders(projectId: string) {
+  const supabase = getSupabaseClient()
+
+  return useQuery({
+    queryKey: ['changeOrders', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('change_orders')
+        .select('*, change_order_items(*)')
+        .eq('project_id', projectId)
+        .order('number', { ascending: false })
+
+      if (error) throw error
+      return data as ChangeOrderWithItems[]
+    },
+    enabled: !!projectId,
+  })
+}
+
+export function useChangeOrderMutations(projectId: string) {
+  const queryClient = useQueryClient()
+  const { role } = useWorkspace()
+  const supabase = getSupabaseClient()
+
+  const invalidateChangeOrders = () => {
+    queryClient.invalidateQueries({ queryKey: ['changeOrders', projectId] })
+  }
+
+  const setStatus = async (changeOrder: ChangeOrder, status: ChangeOrder['status'], rejectionReason?: string | null) => {
+    const { error } = await supabase
+      .from('change_orders')
+      .update({ status, rejection_reason: rejectionReason ?? null })
+      .eq('id', changeOrder.id)
+
+    if (error) throw error
+  }
+
+  // Create or update a draft and replace its lines (see save_change_order())
+  const saveChangeOrder = useMutation({
+    mutationFn: async ({ changeOrderId, title, reasonCode, vendorId, description, lines }: SaveChangeOrderParams) => {
+      assertCapability(role, 'edit_projects')
+
+      const { data, error } = await supabase.rpc('save_change_order', {
+        p_change_order_id: changeOrderId ?? null,
+        p_project_id: projectId,
+        p_title: title,
+        p_reason_code: reasonCode,
+        p_vendor_id: vendorId,
+        p_description: description,
+        p_lines: lines,
+      })
+
+      if (error) throw error
+      return data as string
+    },
+    onSuccess: (_, { changeOrderId }) => {
+      invalidateChangeOrders()
+      toast.success(changeOrderId ? 'Change order saved' : 'Change order created')
+    },
+    onError: (error) => {
+      console.error('Error saving change order:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to save change order'))
+    },
+  })
+
+  const submitChangeOrder = useMutation({
+    mutationFn: async (changeOrder: ChangeOrder) => {
+      assertCapability(role, 'edit_projects')
+      await setStatus(changeOrder, 'submitted')
+    },
+    onSuccess: (_, changeOrder) => {
+      invalidateChangeOrders()
+      toast.success(`${formatChangeOrderNumber(changeOrder.number)} submitted for approval`)
+    },
+    onError: (error) => {
+      console.error('Error submitting change order:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to submit change order'))
+    },
+  })
+
+  // Back to draft so the lines can be edited again
+  const withdrawChangeOrder = useMutation({
+    mutationFn: async (changeOrder: ChangeOrder) => {
+      assertCapability(role, 'edit_projects')
+      await setStatus(changeOrder, 'draft')
+    },
+    onSuccess: (_, changeOrder) => {
+      invalidateChangeOrders()
+      toast.success(`${formatChangeOrderNumber(changeOrder.number)} moved back to draft`)
+    },
+    onError: (error) => {
+      console.error('Error withdrawing change order:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to withdraw change order'))
+    },
+  })
+
+  // Approval applies the deltas to the budget forecast (see apply_change_order())
+  const approveChangeOrder = useMutation({
+    mutationFn: async (changeOrder: ChangeOrder) => {
+      assertCapability(role, 'edit_projects')
+      await setStatus(changeOrder, 'approved')
+    },
+    onSuccess: (_, changeOrder) => {
+      invalidateChangeOrders()
+      queryClient.invalidateQueries({ queryKey: budgetItemKeys.byProject(projectId) })
+      queryClient.invalidateQueries({ queryKey: ['projects', 'summary', projectId] })
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] })
+      toast.success(`${formatChangeOrderNumber(changeOrder.number)} approved and applied to the forecast`)
+    },
+    onError: (error) => {
+      console.error('Error approving change order:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to approve change order'))
+    },
+  })
+
+  const rejectChangeOrder = useMutation({
+    mutationFn: async ({ changeOrder, reason }: RejectChangeOrderParams) => {
+      assertCapability(role, 'edit_projects')
+      await setStatus(changeOrder, 'rejected', reason)
+    },
+    onSuccess: (_, { changeOrder }) => {
+      invalidateChangeOrders()
+      toast.success(`${formatChangeOrderNumber(changeOrder.number)} rejected`)
+    },
+    onError: (error) => {
+      console.error('Error rejecting change order:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to reject change order'))
+    },
+  })
+
+  const deleteChangeOrder = useMutation({
+    mutationFn: async (changeOrderId: string) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase
+        .from('change_orders')
+        .delete()
+        .eq('id', changeOrderId)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateChangeOrders()
+      toast.success('Change order deleted')
+    },
+    onError: (error) => {
+      console.error('Error deleting change order:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete change order'))
+    },
+  })
+
+  return {
+    saveChangeOrder,
+    submitChangeOrder,
+    withdrawChangeOrder,
+    approveChangeOrder,
+    rejectChangeOrder,
+    deleteChangeOrder,
+  }
+}
+
+// Render the change order for the vendor's signature on the server and save it
+export function useDownloadChangeOrder(projectId: string) {
+  return useMutation({
+    mutationFn: async ({ changeOrder, projectName }: DownloadChangeOrderParams) => {
+      const response = await fetch(`/api/projects/${projectId}/change-orders/${changeOrder.id}/pdf`)
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error || 'Failed to render change order')
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = getChangeOrderFilename(projectName, changeOrder.number)
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      URL.revokeObjectURL(url)
+    },
+    onError: (error) => {
+      console.error('Error downloading change order:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to download change order')
+    },
+  })
+}
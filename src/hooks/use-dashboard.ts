@@ -2,7 +2,9 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getSupabaseClient } from '@/lib/supabase/client';
-import type { ProjectSummary, ProjectStatus } from '@/types';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces';
+import type { ProjectCloseout, ProjectSummary, ProjectStatus } from '@/types';
 import type {
   PortfolioSummary,
   CategoryTotal,
@@ -160,6 +162,7 @@ export function useProjectsTimeline() {
  */
 export function useUpdateProjectStatus() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async ({
@@ -169,6 +172,8 @@ export function useUpdateProjectStatus() {
       projectId: string;
       newStatus: ProjectStatus;
     }) => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       const { error } = await supabase
         .from('projects')
@@ -205,7 +210,7 @@ export function useUpdateProjectStatus() {
           context.previousProjects
         );
       }
-      toast.error("Couldn't update status. Please try again.");
+      toast.error(getWorkspaceErrorMessage(err, "Couldn't update status. Please try again."));
       console.error('Status update error:', err);
     },
     onSettled: () => {
@@ -242,20 +247,43 @@ export function useKanbanColumns() {
 
 /**
  * Hook to get sold projects for financial analytics
+ * Profit and ROI come from the locked closeout when there is one
  */
 export function useSoldProjects() {
   return useQuery({
     queryKey: [...dashboardKeys.all, 'sold'],
     queryFn: async (): Promise<ProjectSummary[]> => {
       const supabase = getSupabaseClient();
-      const { data, error } = await supabase
-        .from('project_summary')
-        .select('*')
-        .eq('status', 'sold')
-        .order('sale_date', { ascending: false });
+      const [projectsResult, closeoutsResult] = await Promise.all([
+        supabase
+          .from('project_summary')
+          .select('*')
+          .eq('status', 'sold')
+          .order('sale_date', { ascending: false }),
+        supabase
+          .from('project_closeouts')
+          .select('project_id, realized_profit, realized_roi')
+          .not('locked_at', 'is', null),
+      ]);
 
-      if (error) throw error;
-      return data || [];
+      if (projectsResult.error) throw projectsResult.error;
+      if (closeoutsResult.error) throw closeoutsResult.error;
+
+      const closeouts = new Map(
+        ((closeoutsResult.data || []) as Pick<ProjectCloseout, 'project_id' | 'realized_profit' | 'realized_roi'>[]).map(
+          (closeout) => [closeout.project_id, closeout]
+        )
+      );
+
+      return ((projectsResult.data || []) as ProjectSummary[]).map((project) => {
+        const closeout = closeouts.get(project.id);
+        if (!closeout) return project;
+        return {
+          ...project,
+          gross_profit: Number(closeout.realized_profit),
+          roi: Number(closeout.realized_roi),
+        };
+      });
     },
     staleTime: 60 * 1000,
   });
@@ -0,0 +1,51 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import {
+  buildRiskHistory,
+  type RiskHistoryCloseout,
+  type RiskHistoryItem,
+  type SimulationCostReference,
+} from '@/lib/deal-simulation'
+
+// Cost reference ranges and how past deals came out, for the deal risk simulation
+export function useDealRiskInputs(enabled = true) {
+  const supabase = getSupabaseClient()
+
+  return useQuery({
+    queryKey: ['dealRiskInputs'],
+    queryFn: async () => {
+      const [referenceResult, closeoutsResult] = await Promise.all([
+        supabase.from('cost_reference').select('category, low, mid, high'),
+        supabase
+          .from('project_closeouts')
+          .select('project_id, sale_price, seller_concessions, actual_hold_days, projected_sale_price, projected_hold_days')
+          .not('locked_at', 'is', null),
+      ])
+
+      if (referenceResult.error) throw referenceResult.error
+      if (closeoutsResult.error) throw closeoutsResult.error
+
+      const closeouts = closeoutsResult.data as RiskHistoryCloseout[]
+      let items: RiskHistoryItem[] = []
+
+      if (closeouts.length > 0) {
+        const { data, error } = await supabase
+          .from('budget_items')
+          .select('project_id, category, underwriting_amount, actual_amount')
+          .in('project_id', closeouts.map((closeout) => closeout.project_id))
+
+        if (error) throw error
+        items = data as RiskHistoryItem[]
+      }
+
+      return {
+        costReference: referenceResult.data as SimulationCostReference[],
+        history: buildRiskHistory(closeouts, items),
+      }
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  })
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import { budgetItemKeys } from '@/hooks/use-budget-items'
+import type { DrawAllocation } from '@/types'
+import { toast } from 'sonner'
+
+interface SaveAllocationsParams {
+  drawId: string
+  allocations: Pick<DrawAllocation, 'budget_item_id' | 'vendor_id' | 'amount' | 'retainage_percent'>[]
+}
+
+export function useDrawAllocations(projectId: string) {
+  const supabase = getSupabaseClient()
+
+  return useQuery({
+    queryKey: ['drawAllocations', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('draw_allocations')
+        .select('*')
+        .eq('project_id', projectId)
+
+      if (error) throw error
+      return data as DrawAllocation[]
+    },
+  })
+}
+
+export function useDrawAllocationMutations(projectId: string) {
+  const queryClient = useQueryClient()
+  const { role } = useWorkspace()
+  const supabase = getSupabaseClient()
+
+  // Replace a draw's allocations; lines left at zero are removed
+  const saveAllocations = useMutation({
+    mutationFn: async ({ drawId, allocations }: SaveAllocationsParams) => {
+      assertCapability(role, 'manage_draws')
+
+      const keep = allocations.filter((a) => a.amount > 0)
+
+      let deleteQuery = supabase
+        .from('draw_allocations')
+        .delete()
+        .eq('draw_id', drawId)
+
+      if (keep.length > 0) {
+        deleteQuery = deleteQuery.not('budget_item_id', 'in', `(${keep.map((a) => a.budget_item_id).join(',')})`)
+      }
+
+      const { error: deleteError } = await deleteQuery
+      if (deleteError) throw deleteError
+      if (keep.length === 0) return []
+
+      const { data, error } = await supabase
+        .from('draw_allocations')
+        .upsert(
+          keep.map((a) => ({
+            draw_id: drawId,
+            project_id: projectId,
+            budget_item_id: a.budget_item_id,
+            vendor_id: a.vendor_id,
+            amount: a.amount,
+            retainage_percent: a.retainage_percent,
+          })),
+          { onConflict: 'draw_id,budget_item_id' }
+        )
+        .select()
+
+      if (error) throw error
+      return data as DrawAllocation[]
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['drawAllocations', projectId] })
+      // Paid allocations roll up into budget_items.actual_amount
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] })
+      queryClient.invalidateQueries({ queryKey: budgetItemKeys.byProject(projectId) })
+      toast.success('Draw allocations saved')
+    },
+    onError: (error) => {
+      console.error('Error saving draw allocations:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to save draw allocations'))
+    },
+  })
+
+  return {
+    saveAllocations,
+  }
+}
@@ -2,7 +2,10 @@
 
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { getSupabaseClient } from '@/lib/supabase/client'
-import type { Draw, DrawStatus } from '@/types'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getDrawStatusCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import { toDrawStatusError, VendorInsuranceLapsedError } from '@/lib/vendor-compliance'
+import type { Draw, DrawStatus, PaymentMethod } from '@/types'
 import { toast } from 'sonner'
 
 type DrawInput = Omit<Draw, 'id' | 'created_at' | 'updated_at'>
@@ -21,10 +24,15 @@ interface UpdateStatusParams {
   id: string
   status: DrawStatus
   datePaid?: string | null
+  paymentMethod?: PaymentMethod | null
+  referenceNumber?: string | null
+  /** Approve even though the vendor's insurance has lapsed, recording why */
+  complianceOverrideReason?: string | null
 }
 
 export function useDrawMutations(projectId: string) {
   const queryClient = useQueryClient()
+  const { role } = useWorkspace()
   const supabase = getSupabaseClient()
 
   // Get next draw number
@@ -42,6 +50,8 @@ export function useDrawMutations(projectId: string) {
   // Create a new draw
   const createDraw = useMutation({
     mutationFn: async ({ projectId, draw }: CreateDrawParams) => {
+      assertCapability(role, 'manage_draws')
+
       const drawNumber = await getNextDrawNumber()
 
       const newDraw = {
@@ -75,13 +85,15 @@ export function useDrawMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error creating draw:', error)
-      toast.error('Failed to create draw')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to create draw'))
     },
   })
 
   // Update a draw
   const updateDraw = useMutation({
     mutationFn: async ({ id, data }: UpdateDrawParams) => {
+      assertCapability(role, 'manage_draws')
+
       const { data: result, error } = await supabase
         .from('draws')
         .update(data)
@@ -98,13 +110,24 @@ export function useDrawMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error updating draw:', error)
-      toast.error('Failed to update draw')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update draw'))
     },
   })
 
-  // Update draw status (with optional paid date)
+  // Update draw status (with optional paid date). Approving or paying a draw
+  // whose vendor's insurance has lapsed throws VendorInsuranceLapsedError
+  // unless an override reason is given (see enforce_draw_vendor_compliance()).
   const updateStatus = useMutation({
-    mutationFn: async ({ id, status, datePaid }: UpdateStatusParams) => {
+    mutationFn: async ({
+      id,
+      status,
+      datePaid,
+      paymentMethod,
+      referenceNumber,
+      complianceOverrideReason,
+    }: UpdateStatusParams) => {
+      assertCapability(role, getDrawStatusCapability(status))
+
       const updateData: Partial<Draw> = { status }
 
       // Auto-set date_paid when marking as paid
@@ -114,6 +137,14 @@ export function useDrawMutations(projectId: string) {
         updateData.date_paid = datePaid
       }
 
+      if (paymentMethod !== undefined) updateData.payment_method = paymentMethod
+      if (referenceNumber !== undefined) updateData.reference_number = referenceNumber
+
+      if (complianceOverrideReason?.trim()) {
+        updateData.compliance_override_reason = complianceOverrideReason.trim()
+        updateData.compliance_override_at = new Date().toISOString()
+      }
+
       const { data, error } = await supabase
         .from('draws')
         .update(updateData)
@@ -121,7 +152,7 @@ export function useDrawMutations(projectId: string) {
         .select()
         .single()
 
-      if (error) throw error
+      if (error) throw toDrawStatusError(error)
       return data as Draw
     },
     onSuccess: (_, variables) => {
@@ -134,14 +165,20 @@ export function useDrawMutations(projectId: string) {
       toast.success(`Draw marked as ${statusLabels[variables.status]}`)
     },
     onError: (error) => {
+      if (error instanceof VendorInsuranceLapsedError) {
+        toast.error(error.message)
+        return
+      }
       console.error('Error updating draw status:', error)
-      toast.error('Failed to update draw status')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update draw status'))
     },
   })
 
   // Delete a draw
   const deleteDraw = useMutation({
     mutationFn: async (drawId: string) => {
+      assertCapability(role, 'manage_draws')
+
       const { error } = await supabase
         .from('draws')
         .delete()
@@ -155,7 +192,7 @@ export function useDrawMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error deleting draw:', error)
-      toast.error('Failed to delete draw')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete draw'))
     },
   })
 
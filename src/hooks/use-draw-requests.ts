@@ -0,0 +1,143 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import {
+  DRAW_ATTACHMENT_BUCKET,
+  buildDrawRequestUrl,
+  generateDrawRequestToken,
+  getDrawRequestExpiry,
+  hashDrawRequestToken,
+} from '@/lib/draw-requests'
+import type { DrawAttachment, DrawRequestToken } from '@/types'
+import { toast } from 'sonner'
+
+interface CreateTokenParams {
+  vendorId: string
+  expiresInDays: number
+}
+
+export interface CreatedDrawRequestLink {
+  token: DrawRequestToken
+  url: string
+}
+
+export function useDrawRequestTokens(projectId: string) {
+  const supabase = getSupabaseClient()
+
+  return useQuery({
+    queryKey: ['drawRequestTokens', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('draw_request_tokens')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data as DrawRequestToken[]
+    },
+  })
+}
+
+export function useDrawAttachments(projectId: string) {
+  const supabase = getSupabaseClient()
+
+  return useQuery({
+    queryKey: ['drawAttachments', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('draw_attachments')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at')
+
+      if (error) throw error
+      return data as DrawAttachment[]
+    },
+  })
+}
+
+export function useDrawRequestTokenMutations(projectId: string) {
+  const queryClient = useQueryClient()
+  const { role } = useWorkspace()
+  const supabase = getSupabaseClient()
+
+  // Issue a new vendor link. The raw token is only returned here, never stored.
+  const createToken = useMutation({
+    mutationFn: async ({ vendorId, expiresInDays }: CreateTokenParams): Promise<CreatedDrawRequestLink> => {
+      assertCapability(role, 'manage_draws')
+
+      const rawToken = generateDrawRequestToken()
+
+      const { data, error } = await supabase
+        .from('draw_request_tokens')
+        .insert({
+          project_id: projectId,
+          vendor_id: vendorId,
+          token_hash: await hashDrawRequestToken(rawToken),
+          expires_at: getDrawRequestExpiry(expiresInDays),
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return {
+        token: data as DrawRequestToken,
+        url: buildDrawRequestUrl(window.location.origin, rawToken),
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['drawRequestTokens', projectId] })
+      toast.success('Vendor link created')
+    },
+    onError: (error) => {
+      console.error('Error creating vendor link:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to create vendor link'))
+    },
+  })
+
+  // Revoke a vendor link; the row stays as part of the revocation list
+  const revokeToken = useMutation({
+    mutationFn: async (id: string) => {
+      assertCapability(role, 'manage_draws')
+
+      const { error } = await supabase
+        .from('draw_request_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['drawRequestTokens', projectId] })
+      toast.success('Vendor link revoked')
+    },
+    onError: (error) => {
+      console.error('Error revoking vendor link:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to revoke vendor link'))
+    },
+  })
+
+  // Get signed URL for viewing an invoice or lien waiver
+  const getAttachmentUrl = async (storagePath: string): Promise<string | null> => {
+    const { data, error } = await supabase.storage
+      .from(DRAW_ATTACHMENT_BUCKET)
+      .createSignedUrl(storagePath, 3600) // 1 hour expiry
+
+    if (error) {
+      console.error('Error getting signed URL:', error)
+      return null
+    }
+
+    return data.signedUrl
+  }
+
+  return {
+    createToken,
+    revokeToken,
+    getAttachmentUrl,
+  }
+}
@@ -2,6 +2,8 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getSupabaseClient } from '@/lib/supabase/client';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces';
 import type { JournalPage, JournalPageWithProject, JournalPageInput, JournalPageType } from '@/types';
 import { toast } from 'sonner';
 
@@ -118,9 +120,12 @@ export function useJournalPage(id: string | null) {
  */
 export function useCreateJournalPage() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async (input: Partial<JournalPageInput>): Promise<JournalPage> => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       
       const pageData = {
@@ -147,7 +152,7 @@ export function useCreateJournalPage() {
       toast.success('Page created');
     },
     onError: (error) => {
-      toast.error('Failed to create page', {
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to create page'), {
         description: error instanceof Error ? error.message : 'Unknown error',
       });
     },
@@ -159,9 +164,12 @@ export function useCreateJournalPage() {
  */
 export function useUpdateJournalPage() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async ({ id, ...updates }: Partial<JournalPage> & { id: string }): Promise<JournalPage> => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       
       const { data, error } = await supabase
@@ -182,7 +190,7 @@ export function useUpdateJournalPage() {
       queryClient.invalidateQueries({ queryKey: journalKeys.detail(data.id) });
     },
     onError: (error) => {
-      toast.error('Failed to update page', {
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update page'), {
         description: error instanceof Error ? error.message : 'Unknown error',
       });
     },
@@ -194,9 +202,12 @@ export function useUpdateJournalPage() {
  */
 export function useDeleteJournalPage() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async (id: string): Promise<void> => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       const { error } = await supabase
         .from('journal_pages')
@@ -210,7 +221,7 @@ export function useDeleteJournalPage() {
       toast.success('Page deleted');
     },
     onError: (error) => {
-      toast.error('Failed to delete page', {
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete page'), {
         description: error instanceof Error ? error.message : 'Unknown error',
       });
     },
@@ -222,9 +233,12 @@ export function useDeleteJournalPage() {
  */
 export function useToggleJournalPin() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async ({ id, is_pinned }: { id: string; is_pinned: boolean }): Promise<JournalPage> => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       
       const { data, error } = await supabase
@@ -250,9 +264,12 @@ export function useToggleJournalPin() {
  */
 export function useToggleJournalArchive() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async ({ id, is_archived }: { id: string; is_archived: boolean }): Promise<JournalPage> => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       
       const { data, error } = await supabase
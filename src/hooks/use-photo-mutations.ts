@@ -2,6 +2,8 @@
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage, hasCapability } from '@/lib/workspaces'
 import type { LineItemPhoto, PhotoType } from '@/types'
 import { toast } from 'sonner'
 
@@ -62,11 +64,15 @@ export function useProjectPhotos(projectId: string) {
 
 export function usePhotoMutations(projectId: string) {
   const queryClient = useQueryClient()
+  const { role } = useWorkspace()
   const supabase = getSupabaseClient()
 
   // Upload a photo
   const uploadPhoto = useMutation({
     mutationFn: async ({ projectId, lineItemId, file, photoType, caption }: UploadPhotoParams) => {
+      // Bookkeepers can attach photos (receipts, progress) without editing the budget
+      if (!hasCapability(role, 'edit_projects')) assertCapability(role, 'manage_draws')
+
       // Validate file type
       if (!ACCEPTED_TYPES.includes(file.type)) {
         throw new Error('Invalid file type. Accepted: JPG, PNG, WebP, PDF')
@@ -136,6 +142,9 @@ export function usePhotoMutations(projectId: string) {
   // Update photo metadata
   const updatePhoto = useMutation({
     mutationFn: async ({ id, data }: UpdatePhotoParams) => {
+      // Bookkeepers can attach photos (receipts, progress) without editing the budget
+      if (!hasCapability(role, 'edit_projects')) assertCapability(role, 'manage_draws')
+
       const { data: result, error } = await supabase
         .from('line_item_photos')
         .update(data)
@@ -153,13 +162,16 @@ export function usePhotoMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error updating photo:', error)
-      toast.error('Failed to update photo')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update photo'))
     },
   })
 
   // Delete a photo
   const deletePhoto = useMutation({
     mutationFn: async (photo: LineItemPhoto) => {
+      // Bookkeepers can attach photos (receipts, progress) without editing the budget
+      if (!hasCapability(role, 'edit_projects')) assertCapability(role, 'manage_draws')
+
       // Delete from storage first
       const { error: storageError } = await supabase.storage
         .from('project-photos')
@@ -186,7 +198,7 @@ export function usePhotoMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error deleting photo:', error)
-      toast.error('Failed to delete photo')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete photo'))
     },
   })
 
@@ -0,0 +1,85 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import { dashboardKeys } from '@/hooks/use-dashboard'
+import type { CloseoutFields, CloseoutResults } from '@/lib/closeout'
+import type { ProjectCloseout } from '@/types'
+import { toast } from 'sonner'
+
+interface SaveCloseoutParams {
+  /** Existing closeout; null creates the project's closeout */
+  id: string | null
+  data: CloseoutFields
+}
+
+interface LockCloseoutParams {
+  id: string
+  results: CloseoutResults
+}
+
+// The closeout loads with the project page; callers refresh the route after a change
+export function useProjectCloseoutMutations(projectId: string) {
+  const queryClient = useQueryClient()
+  const { role } = useWorkspace()
+  const supabase = getSupabaseClient()
+
+  // Locked results replace projections in the dashboard's sold metrics
+  const invalidateProject = () => {
+    queryClient.invalidateQueries({ queryKey: ['project', projectId] })
+    queryClient.invalidateQueries({ queryKey: ['projects', 'summary', projectId] })
+    queryClient.invalidateQueries({ queryKey: dashboardKeys.all })
+  }
+
+  const saveCloseout = useMutation({
+    mutationFn: async ({ id, data }: SaveCloseoutParams) => {
+      assertCapability(role, 'edit_projects')
+
+      const query = id
+        ? supabase.from('project_closeouts').update(data).eq('id', id)
+        : supabase.from('project_closeouts').insert({ ...data, project_id: projectId })
+      const { data: closeout, error } = await query.select().single()
+
+      if (error) throw error
+      return closeout as ProjectCloseout
+    },
+    onSuccess: () => {
+      invalidateProject()
+      toast.success('Closeout saved')
+    },
+    onError: (error) => {
+      console.error('Error saving closeout:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to save closeout'))
+    },
+  })
+
+  // The database stamps the lock and marks the project sold on the settlement date
+  const lockCloseout = useMutation({
+    mutationFn: async ({ id, results }: LockCloseoutParams) => {
+      assertCapability(role, 'edit_projects')
+
+      const { data: closeout, error } = await supabase
+        .from('project_closeouts')
+        .update({ ...results, locked_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return closeout as ProjectCloseout
+    },
+    onSuccess: () => {
+      invalidateProject()
+      queryClient.invalidateQueries({ queryKey: ['projects'] })
+      toast.success('Closeout locked and project marked sold')
+    },
+    onError: (error) => {
+      console.error('Error locking closeout:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to lock closeout'))
+    },
+  })
+
+  return { saveCloseout, lockCloseout }
+}
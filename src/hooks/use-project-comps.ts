@@ -0,0 +1,163 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import { dashboardKeys } from '@/hooks/use-dashboard'
+import type { CompFields } from '@/lib/comps'
+import type { Project, ProjectComp } from '@/types'
+import { toast } from 'sonner'
+
+interface SaveCompParams {
+  /** Existing comp; null adds one */
+  id: string | null
+  data: CompFields
+}
+
+export type CompAdjustmentFields = Pick<
+  Project,
+  'comp_sqft_adjustment' | 'comp_bed_adjustment' | 'comp_bath_adjustment' | 'comp_condition_adjustment'
+>
+
+// Comps load with the project page; callers refresh the route after a change
+export function useProjectCompMutations(projectId: string) {
+  const queryClient = useQueryClient()
+  const { role } = useWorkspace()
+  const supabase = getSupabaseClient()
+
+  const invalidateProject = () => {
+    queryClient.invalidateQueries({ queryKey: ['project', projectId] })
+    queryClient.invalidateQueries({ queryKey: ['projects', 'summary', projectId] })
+  }
+
+  const saveComp = useMutation({
+    mutationFn: async ({ id, data }: SaveCompParams) => {
+      assertCapability(role, 'edit_projects')
+
+      const query = id
+        ? supabase.from('project_comps').update(data).eq('id', id)
+        : supabase.from('project_comps').insert({ ...data, project_id: projectId })
+      const { data: comp, error } = await query.select().single()
+
+      if (error) throw error
+      return comp as ProjectComp
+    },
+    onSuccess: () => {
+      invalidateProject()
+      toast.success('Comp saved')
+    },
+    onError: (error) => {
+      console.error('Error saving comp:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to save comp'))
+    },
+  })
+
+  // Include or leave out a comp from the ARV
+  const selectComp = useMutation({
+    mutationFn: async ({ id, isSelected }: { id: string; isSelected: boolean }) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase
+        .from('project_comps')
+        .update({ is_selected: isSelected })
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: () => invalidateProject(),
+    onError: (error) => {
+      console.error('Error selecting comp:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update comp'))
+    },
+  })
+
+  const importComps = useMutation({
+    mutationFn: async (comps: CompFields[]) => {
+      assertCapability(role, 'edit_projects')
+
+      const { data, error } = await supabase
+        .from('project_comps')
+        .insert(comps.map((comp) => ({ ...comp, project_id: projectId })))
+        .select()
+
+      if (error) throw error
+      return data as ProjectComp[]
+    },
+    onSuccess: (comps) => {
+      invalidateProject()
+      toast.success(`Imported ${comps.length} comp${comps.length === 1 ? '' : 's'}`)
+    },
+    onError: (error) => {
+      console.error('Error importing comps:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to import comps'))
+    },
+  })
+
+  const deleteComp = useMutation({
+    mutationFn: async (compId: string) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase
+        .from('project_comps')
+        .delete()
+        .eq('id', compId)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateProject()
+      toast.success('Comp deleted')
+    },
+    onError: (error) => {
+      console.error('Error deleting comp:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete comp'))
+    },
+  })
+
+  const updateAdjustments = useMutation({
+    mutationFn: async (adjustments: CompAdjustmentFields) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase
+        .from('projects')
+        .update(adjustments)
+        .eq('id', projectId)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateProject()
+      toast.success('Adjustments saved')
+    },
+    onError: (error) => {
+      console.error('Error saving comp adjustments:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to save adjustments'))
+    },
+  })
+
+  // The ARV feeds MAO, profit and ROI everywhere
+  const applyArv = useMutation({
+    mutationFn: async (arv: number) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase
+        .from('projects')
+        .update({ arv })
+        .eq('id', projectId)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateProject()
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all })
+      toast.success('ARV updated from comps')
+    },
+    onError: (error) => {
+      console.error('Error applying comps ARV:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update ARV'))
+    },
+  })
+
+  return { saveComp, selectComp, importComps, deleteComp, updateAdjustments, applyArv }
+}
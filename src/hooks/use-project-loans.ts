@@ -0,0 +1,101 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import { dashboardKeys } from '@/hooks/use-dashboard'
+import type { ProjectLoan } from '@/types'
+import { toast } from 'sonner'
+
+export type LoanFields = Omit<ProjectLoan, 'id' | 'project_id' | 'sort_order' | 'created_at' | 'updated_at'>
+
+interface UpdateLoanParams {
+  id: string
+  data: Partial<LoanFields>
+}
+
+// Loans load with the project page; callers refresh the route after a change
+export function useProjectLoanMutations(projectId: string) {
+  const queryClient = useQueryClient()
+  const { role } = useWorkspace()
+  const supabase = getSupabaseClient()
+
+  // Loan costs feed the project's holding costs, ROI and MAO
+  const invalidateProject = () => {
+    queryClient.invalidateQueries({ queryKey: ['project', projectId] })
+    queryClient.invalidateQueries({ queryKey: ['projects', 'summary', projectId] })
+    queryClient.invalidateQueries({ queryKey: dashboardKeys.all })
+  }
+
+  const createLoan = useMutation({
+    mutationFn: async ({ loan, sortOrder }: { loan: LoanFields; sortOrder: number }) => {
+      assertCapability(role, 'edit_projects')
+
+      const { data, error } = await supabase
+        .from('project_loans')
+        .insert({ ...loan, project_id: projectId, sort_order: sortOrder })
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as ProjectLoan
+    },
+    onSuccess: (loan) => {
+      invalidateProject()
+      toast.success(`${loan.lender_name} loan added`)
+    },
+    onError: (error) => {
+      console.error('Error creating loan:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to add loan'))
+    },
+  })
+
+  const updateLoan = useMutation({
+    mutationFn: async ({ id, data }: UpdateLoanParams) => {
+      assertCapability(role, 'edit_projects')
+
+      const { data: loan, error } = await supabase
+        .from('project_loans')
+        .update(data)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return loan as ProjectLoan
+    },
+    onSuccess: () => {
+      invalidateProject()
+      toast.success('Loan updated')
+    },
+    onError: (error) => {
+      console.error('Error updating loan:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update loan'))
+    },
+  })
+
+  // Draws funded by the loan go back to being paid in cash
+  const deleteLoan = useMutation({
+    mutationFn: async (loanId: string) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase
+        .from('project_loans')
+        .delete()
+        .eq('id', loanId)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateProject()
+      toast.success('Loan deleted')
+    },
+    onError: (error) => {
+      console.error('Error deleting loan:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete loan'))
+    },
+  })
+
+  return { createLoan, updateLoan, deleteLoan }
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getSupabaseClient } from '@/lib/supabase/client';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability } from '@/lib/workspaces';
+import { PROJECT_REPORT_BUCKET } from '@/lib/pdf/reports';
+import type { ProjectReport, ProjectReportType } from '@/types';
+
+// Query keys
+export const projectReportKeys = {
+  all: ['projectReports'] as const,
+  lists: () => [...projectReportKeys.all, 'list'] as const,
+  list: (projectId: string) => [...projectReportKeys.lists(), projectId] as const,
+};
+
+/**
+ * Fetches the reports generated for a project, newest first.
+ *
+ * @param projectId - The project ID
+ * @returns The stored reports (`ProjectReport[]`)
+ */
+export function useProjectReports(projectId: string) {
+  return useQuery({
+    queryKey: projectReportKeys.list(projectId),
+    queryFn: async () => {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('project_reports')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as ProjectReport[];
+    },
+    enabled: !!projectId,
+  });
+}
+
+interface GenerateProjectReportInput {
+  projectId: string;
+  type: ProjectReportType;
+  drawId?: string;
+}
+
+export interface GeneratedProjectReport {
+  reportId: string | null;
+  fileName: string;
+  blob: Blob;
+}
+
+// Pull the filename out of the route's Content-Disposition header
+function getDispositionFilename(header: string | null): string | null {
+  if (!header) return null;
+  const encoded = header.match(/filename\*=UTF-8''([^;]+)/i);
+  if (encoded) return decodeURIComponent(encoded[1]);
+  const plain = header.match(/filename="([^"]+)"/i);
+  return plain ? plain[1] : null;
+}
+
+/**
+ * Render a report on the server and store it with the project.
+ *
+ * Calls `POST /api/projects/[id]/reports`, which saves the PDF to storage and
+ * records it in `project_reports` before returning the bytes.
+ *
+ * @returns A mutation that resolves to the generated PDF and its filename
+ */
+export function useGenerateProjectReport() {
+  const queryClient = useQueryClient();
+  const { role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async ({ projectId, type, drawId }: GenerateProjectReportInput) => {
+      assertCapability(role, 'export_reports');
+
+      const response = await fetch(`/api/projects/${projectId}/reports`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, drawId }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to generate report');
+      }
+
+      return {
+        reportId: response.headers.get('X-Report-Id'),
+        fileName: getDispositionFilename(response.headers.get('Content-Disposition')) || 'report.pdf',
+        blob: await response.blob(),
+      } satisfies GeneratedProjectReport;
+    },
+    onSuccess: (_, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: projectReportKeys.list(projectId) });
+    },
+  });
+}
+
+/**
+ * Get a short-lived download link for a stored report.
+ *
+ * @param report - The stored report
+ * @returns A signed URL that downloads the file under its original name
+ */
+export async function getProjectReportDownloadUrl(
+  report: Pick<ProjectReport, 'storage_path' | 'file_name'>
+): Promise<string> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.storage
+    .from(PROJECT_REPORT_BUCKET)
+    .createSignedUrl(report.storage_path, 60, { download: report.file_name });
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+/**
+ * Delete a stored report and its file.
+ *
+ * @returns A mutation that takes the report
+ */
+export function useDeleteProjectReport() {
+  const queryClient = useQueryClient();
+  const { role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async (report: Pick<ProjectReport, 'id' | 'project_id' | 'storage_path'>) => {
+      assertCapability(role, 'export_reports');
+
+      const supabase = getSupabaseClient();
+      const { error } = await supabase
+        .from('project_reports')
+        .delete()
+        .eq('id', report.id);
+
+      if (error) throw error;
+
+      const { error: storageError } = await supabase.storage
+        .from(PROJECT_REPORT_BUCKET)
+        .remove([report.storage_path]);
+
+      // The row is gone, so an orphaned file is only wasted space
+      if (storageError) console.error('Error removing report file:', storageError);
+    },
+    onSuccess: (_, report) => {
+      queryClient.invalidateQueries({ queryKey: projectReportKeys.list(report.project_id) });
+    },
+  });
+}
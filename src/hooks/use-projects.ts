@@ -2,8 +2,10 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getSupabaseClient } from '@/lib/supabase/client';
-import { useAuth } from '@/hooks/use-auth';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability } from '@/lib/workspaces';
 import { useProjectsListRealtime, useProjectRealtime } from '@/hooks/use-realtime';
+import { toCreateProjectError } from '@/lib/project-creation';
 import type { Project, ProjectSummary } from '@/types';
 
 // Query keys
@@ -125,103 +127,40 @@ interface CreateProjectInput {
   list_date?: string | null;
   sale_date?: string | null;
   notes?: string | null;
+  /** Calculation profile to attach; defaults to the user's default profile */
+  calculation_settings_id?: string | null;
+  /** User budget template to start from instead of the global category templates */
+  budget_template_id?: string | null;
 }
 
 /**
- * Create a new project and seed related budget items from active budget templates.
+ * Create a new project and seed its budget.
  *
- * Creates a project record (with `user_id` currently set to `null`), then attempts to fetch active
- * budget category templates and insert corresponding budget items for the new project. On success,
+ * Runs `create_project_with_budget()`, which in one transaction creates a
+ * project owned by the current user, seeds budget items either from the chosen
+ * user budget template (SF-priced lines scaled to the project's sqft) or from
+ * the active global budget category templates, and attaches the user's default
+ * calculation settings profile. If any step fails nothing is saved. On success,
  * invalidates the cached project queries to refresh lists.
  *
- * Note: If fetching templates or inserting budget items fails, those errors are logged and do not
- * prevent returning the created project.
- *
- * @returns A mutation result that, when executed, creates a `Project` and yields the created `Project` on success.
+ * @returns A mutation that yields the created `Project`, or rejects with a `CreateProjectError`
  */
 export function useCreateProject() {
   const queryClient = useQueryClient();
-  const { user } = useAuth();
+  const { role } = useWorkspace();
 
   return useMutation({
-    mutationFn: async (input: CreateProjectInput) => {
-      const supabase = getSupabaseClient();
-
-      // Create the project with authenticated user's ID
-      const { data: project, error: projectError } = await supabase
-        .from('projects')
-        .insert({
-          ...input,
-          user_id: user?.id ?? null, // Use authenticated user's ID
-        })
-        .select()
-        .single();
-
-      if (projectError) throw projectError;
-
-      // Seed budget items from templates
-      const { data: templates, error: templatesError } = await supabase
-        .from('budget_category_templates')
-        .select('*')
-        .eq('is_active', true)
-        .order('sort_order');
+    mutationFn: async ({ budget_template_id, ...input }: CreateProjectInput) => {
+      assertCapability(role, 'edit_projects');
 
-      if (templatesError) {
-        console.error('Error fetching templates:', templatesError);
-        return project;
-      }
-
-      const budgetItemsToInsert: Array<{
-        project_id: string;
-        category: string;
-        item: string;
-        qty: number;
-        unit: string;
-        rate: number;
-        underwriting_amount: number;
-        forecast_amount: number;
-        actual_amount: null;
-        status: string;
-        cost_type: string;
-        priority: string;
-        sort_order: number;
-      }> = [];
-
-      for (const template of templates || []) {
-        const lineItems = template.default_line_items as string[] | null;
-
-        if (lineItems && lineItems.length > 0) {
-          lineItems.forEach((itemName, index) => {
-            budgetItemsToInsert.push({
-              project_id: project.id,
-              category: template.category,
-              item: itemName,
-              qty: 1,
-              unit: 'ea',
-              rate: 0,
-              underwriting_amount: 0,
-              forecast_amount: 0,
-              actual_amount: null,
-              status: 'not_started',
-              cost_type: 'both',
-              priority: 'medium',
-              sort_order: template.sort_order * 1000 + index,
-            });
-          });
-        }
-      }
-
-      if (budgetItemsToInsert.length > 0) {
-        const { error: budgetError } = await supabase
-          .from('budget_items')
-          .insert(budgetItemsToInsert);
-
-        if (budgetError) {
-          console.error('Error seeding budget items:', budgetError);
-        }
-      }
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase.rpc('create_project_with_budget', {
+        p_project: input,
+        p_budget_template_id: budget_template_id || null,
+      });
 
-      return project as Project;
+      if (error) throw toCreateProjectError(error);
+      return data as Project;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: projectKeys.all });
@@ -239,12 +178,15 @@ export function useCreateProject() {
  */
 export function useUpdateProject() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async ({
       id,
       ...updates
     }: Partial<CreateProjectInput> & { id: string }) => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       const { data, error } = await supabase
         .from('projects')
@@ -273,9 +215,12 @@ export function useUpdateProject() {
  */
 export function useDeleteProject() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async (id: string) => {
+      assertCapability(role, 'edit_projects');
+
       const supabase = getSupabaseClient();
       const { error } = await supabase.from('projects').delete().eq('id', id);
 
@@ -5,7 +5,7 @@ import { useQueryClient } from '@tanstack/react-query';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 import { getSupabaseClient } from '@/lib/supabase/client';
 
-type TableName = 'projects' | 'budget_items' | 'vendors' | 'draws';
+type TableName = 'projects' | 'budget_items' | 'vendors' | 'draws' | 'audit_log';
 type PostgresEvent = 'INSERT' | 'UPDATE' | 'DELETE' | '*';
 
 /**
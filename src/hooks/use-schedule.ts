@@ -0,0 +1,272 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { dashboardKeys } from '@/hooks/use-dashboard'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import {
+  buildScheduleSeed,
+  computeSchedule,
+  getScheduleDates,
+  rescheduleTask as rescheduleScheduleTask,
+  type ScheduleDate,
+} from '@/lib/schedule'
+import type { BudgetCategory, BudgetItem, ScheduleTask, ScheduleTaskDependency } from '@/types'
+import { toast } from 'sonner'
+
+export interface ScheduleData {
+  tasks: ScheduleTask[]
+  dependencies: ScheduleTaskDependency[]
+}
+
+interface ScheduleTaskParams {
+  name: string
+  category: BudgetCategory | null
+  vendorId: string | null
+  durationDays: number
+  startDate: string | null
+  predecessorIds: string[]
+}
+
+interface UpdateScheduleTaskParams extends Partial<ScheduleTaskParams> {
+  taskId: string
+  completedAt?: string | null
+}
+
+interface RescheduleTaskParams {
+  taskId: string
+  newStart: string
+}
+
+async function fetchSchedule(projectId: string): Promise<ScheduleData> {
+  const supabase = getSupabaseClient()
+
+  const { data: tasks, error } = await supabase
+    .from('schedule_tasks')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('sort_order')
+
+  if (error) throw error
+
+  const taskIds = (tasks ?? []).map((task) => task.id as string)
+  if (taskIds.length === 0) return { tasks: [], dependencies: [] }
+
+  const { data: dependencies, error: depError } = await supabase
+    .from('schedule_task_dependencies')
+    .select('task_id, predecessor_id')
+    .in('task_id', taskIds)
+
+  if (depError) throw depError
+  return { tasks: tasks as ScheduleTask[], dependencies: (dependencies ?? []) as ScheduleTaskDependency[] }
+}
+
+export function useSchedule(projectId: string) {
+  return useQuery({
+    queryKey: ['schedule', projectId],
+    queryFn: () => fetchSchedule(projectId),
+    enabled: !!projectId,
+  })
+}
+
+/**
+ * Schedule edits for a project. anchorDate is where unscheduled tasks start
+ * (see getScheduleAnchor()).
+ */
+export function useScheduleMutations(projectId: string, anchorDate: string) {
+  const queryClient = useQueryClient()
+  const { role } = useWorkspace()
+  const supabase = getSupabaseClient()
+
+  const invalidateSchedule = () => {
+    queryClient.invalidateQueries({ queryKey: ['schedule', projectId] })
+  }
+
+  // Dates moved, so the project's target_complete_date may have too
+  const invalidateProject = () => {
+    invalidateSchedule()
+    queryClient.invalidateQueries({ queryKey: ['project', projectId] })
+    queryClient.invalidateQueries({ queryKey: ['projects', 'summary', projectId] })
+    queryClient.invalidateQueries({ queryKey: dashboardKeys.all })
+  }
+
+  const saveDates = async (dates: ScheduleDate[]) => {
+    const { data, error } = await supabase.rpc('reschedule_project_tasks', {
+      p_project_id: projectId,
+      p_dates: dates,
+    })
+
+    if (error) throw error
+    return data as string | null
+  }
+
+  // Recompute from what's saved so edits push dependents and the target date
+  const recomputeDates = async () => {
+    const { tasks, dependencies } = await fetchSchedule(projectId)
+    return saveDates(getScheduleDates(computeSchedule(tasks, dependencies, anchorDate)))
+  }
+
+  const setPredecessors = async (taskId: string, predecessorIds: string[]) => {
+    const { error: deleteError } = await supabase
+      .from('schedule_task_dependencies')
+      .delete()
+      .eq('task_id', taskId)
+
+    if (deleteError) throw deleteError
+    if (predecessorIds.length === 0) return
+
+    const { error } = await supabase
+      .from('schedule_task_dependencies')
+      .insert(predecessorIds.map((predecessorId) => ({ task_id: taskId, predecessor_id: predecessorId })))
+
+    if (error) throw error
+  }
+
+  const createTask = useMutation({
+    mutationFn: async ({ predecessorIds, ...params }: ScheduleTaskParams & { sortOrder: number }) => {
+      assertCapability(role, 'edit_projects')
+
+      const { data, error } = await supabase
+        .from('schedule_tasks')
+        .insert({
+          project_id: projectId,
+          name: params.name,
+          category: params.category,
+          vendor_id: params.vendorId,
+          duration_days: params.durationDays,
+          start_date: params.startDate,
+          sort_order: params.sortOrder,
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      await setPredecessors(data.id, predecessorIds)
+      await recomputeDates()
+      return data as ScheduleTask
+    },
+    onSuccess: () => {
+      invalidateProject()
+      toast.success('Task added')
+    },
+    onError: (error) => {
+      console.error('Error adding task:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to add task'))
+    },
+  })
+
+  const updateTask = useMutation({
+    mutationFn: async ({ taskId, predecessorIds, ...params }: UpdateScheduleTaskParams) => {
+      assertCapability(role, 'edit_projects')
+
+      const updates: Record<string, unknown> = {}
+      if (params.name !== undefined) updates.name = params.name
+      if (params.category !== undefined) updates.category = params.category
+      if (params.vendorId !== undefined) updates.vendor_id = params.vendorId
+      if (params.durationDays !== undefined) updates.duration_days = params.durationDays
+      if (params.startDate !== undefined) updates.start_date = params.startDate
+      if (params.completedAt !== undefined) updates.completed_at = params.completedAt
+
+      if (Object.keys(updates).length > 0) {
+        const { error } = await supabase.from('schedule_tasks').update(updates).eq('id', taskId)
+        if (error) throw error
+      }
+
+      if (predecessorIds) await setPredecessors(taskId, predecessorIds)
+      await recomputeDates()
+    },
+    onSuccess: () => {
+      invalidateProject()
+    },
+    onError: (error) => {
+      console.error('Error updating task:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update task'))
+    },
+  })
+
+  const deleteTask = useMutation({
+    mutationFn: async (task: ScheduleTask) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase.from('schedule_tasks').delete().eq('id', task.id)
+      if (error) throw error
+    },
+    onSuccess: (_, task) => {
+      invalidateSchedule()
+      toast.success(`${task.name} removed from the schedule`)
+    },
+    onError: (error) => {
+      console.error('Error deleting task:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete task'))
+    },
+  })
+
+  // Seed the standard trade sequence, then save the computed dates
+  const seedSchedule = useMutation({
+    mutationFn: async (budgetItems: Pick<BudgetItem, 'category' | 'vendor_id'>[]) => {
+      assertCapability(role, 'edit_projects')
+
+      const { error } = await supabase.rpc('seed_project_schedule', {
+        p_project_id: projectId,
+        p_tasks: buildScheduleSeed(budgetItems, anchorDate),
+      })
+
+      if (error) throw error
+      return recomputeDates()
+    },
+    onSuccess: () => {
+      invalidateProject()
+      toast.success('Schedule created from template')
+    },
+    onError: (error) => {
+      console.error('Error creating schedule:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to create schedule'))
+    },
+  })
+
+  // Move a task, push its dependents and move target_complete_date to the new finish
+  const rescheduleTask = useMutation({
+    mutationFn: async ({ taskId, newStart }: RescheduleTaskParams) => {
+      assertCapability(role, 'edit_projects')
+
+      const { tasks, dependencies } = await fetchSchedule(projectId)
+      const { schedule, changed } = rescheduleScheduleTask(tasks, dependencies, anchorDate, taskId, newStart)
+      const finish = await saveDates(getScheduleDates(schedule))
+      return { finish, pushed: changed.filter((date) => date.id !== taskId).length }
+    },
+    onSuccess: ({ pushed }) => {
+      invalidateProject()
+      if (pushed > 0) toast.success(`Pushed ${pushed} dependent task${pushed === 1 ? '' : 's'}`)
+    },
+    onError: (error) => {
+      console.error('Error rescheduling task:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to reschedule task'))
+    },
+  })
+
+  // Bring target_complete_date back in line after it was edited by hand
+  const applySchedule = useMutation({
+    mutationFn: async () => {
+      assertCapability(role, 'edit_projects')
+      return recomputeDates()
+    },
+    onSuccess: () => {
+      invalidateProject()
+      toast.success('Schedule dates and target completion updated')
+    },
+    onError: (error) => {
+      console.error('Error applying schedule:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update schedule'))
+    },
+  })
+
+  return {
+    createTask,
+    updateTask,
+    deleteTask,
+    seedSchedule,
+    rescheduleTask,
+    applySchedule,
+  }
+}
@@ -0,0 +1,149 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import {
+  buildShareLinkUrl,
+  generateShareToken,
+  getShareLinkExpiry,
+  hashShareToken,
+  type ShareLinkInput,
+} from '@/lib/share-links'
+import type { ProjectShareLink } from '@/types'
+import { toast } from 'sonner'
+
+interface CreateShareLinkParams extends ShareLinkInput {
+  expiresInDays: number
+}
+
+interface UpdateShareLinkParams extends Omit<ShareLinkInput, 'label'> {
+  id: string
+}
+
+export interface CreatedShareLink {
+  link: ProjectShareLink
+  url: string
+}
+
+export function useProjectShareLinks(projectId: string) {
+  const supabase = getSupabaseClient()
+
+  return useQuery({
+    queryKey: ['projectShareLinks', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('project_share_links')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data as ProjectShareLink[]
+    },
+  })
+}
+
+export function useProjectShareLinkMutations(projectId: string) {
+  const queryClient = useQueryClient()
+  const { role } = useWorkspace()
+  const supabase = getSupabaseClient()
+
+  // Issue a new share link. The raw token is only returned here, never stored.
+  const createLink = useMutation({
+    mutationFn: async ({
+      label,
+      sections,
+      budgetColumns,
+      photoIds,
+      expiresInDays,
+    }: CreateShareLinkParams): Promise<CreatedShareLink> => {
+      assertCapability(role, 'export_reports')
+
+      const rawToken = generateShareToken()
+
+      const { data, error } = await supabase
+        .from('project_share_links')
+        .insert({
+          project_id: projectId,
+          label: label.trim(),
+          sections,
+          budget_columns: budgetColumns,
+          photo_ids: photoIds,
+          token_hash: await hashShareToken(rawToken),
+          expires_at: getShareLinkExpiry(expiresInDays),
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return {
+        link: data as ProjectShareLink,
+        url: buildShareLinkUrl(window.location.origin, rawToken),
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projectShareLinks', projectId] })
+      toast.success('Share link created')
+    },
+    onError: (error) => {
+      console.error('Error creating share link:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to create share link'))
+    },
+  })
+
+  // Change what an issued link exposes; takes effect on the viewer's next load
+  const updateLink = useMutation({
+    mutationFn: async ({ id, sections, budgetColumns, photoIds }: UpdateShareLinkParams) => {
+      assertCapability(role, 'export_reports')
+
+      const { error } = await supabase
+        .from('project_share_links')
+        .update({
+          sections,
+          budget_columns: budgetColumns,
+          photo_ids: photoIds,
+        })
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projectShareLinks', projectId] })
+      toast.success('Share link updated')
+    },
+    onError: (error) => {
+      console.error('Error updating share link:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update share link'))
+    },
+  })
+
+  // Revoke a share link; the row stays as part of the revocation list
+  const revokeLink = useMutation({
+    mutationFn: async (id: string) => {
+      assertCapability(role, 'export_reports')
+
+      const { error } = await supabase
+        .from('project_share_links')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projectShareLinks', projectId] })
+      toast.success('Share link revoked')
+    },
+    onError: (error) => {
+      console.error('Error revoking share link:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to revoke share link'))
+    },
+  })
+
+  return {
+    createLink,
+    updateLink,
+    revokeLink,
+  }
+}
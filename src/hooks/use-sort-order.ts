@@ -2,6 +2,8 @@
 
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
 import { toast } from 'sonner'
 
 interface ReorderItemsParams {
@@ -15,11 +17,14 @@ interface UpdateSortOrderParams {
 
 export function useSortOrderMutations(projectId: string) {
   const queryClient = useQueryClient()
+  const { role } = useWorkspace()
   const supabase = getSupabaseClient()
 
   // Batch update sort orders for multiple items
   const reorderItems = useMutation({
     mutationFn: async ({ itemIds }: ReorderItemsParams) => {
+      assertCapability(role, 'edit_projects')
+
       // Update each item with its new sort_order based on array position
       const updates = itemIds.map((id, index) => ({
         id,
@@ -47,13 +52,15 @@ export function useSortOrderMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error reordering items:', error)
-      toast.error('Failed to save new order')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to save new order'))
     },
   })
 
   // Update single item sort order
   const updateSortOrder = useMutation({
     mutationFn: async ({ id, sort_order }: UpdateSortOrderParams) => {
+      assertCapability(role, 'edit_projects')
+
       const { data, error } = await supabase
         .from('budget_items')
         .update({ sort_order })
@@ -69,7 +76,7 @@ export function useSortOrderMutations(projectId: string) {
     },
     onError: (error) => {
       console.error('Error updating sort order:', error)
-      toast.error('Failed to update order')
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to update order'))
     },
   })
 
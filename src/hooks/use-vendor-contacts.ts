@@ -2,10 +2,13 @@
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability } from '@/lib/workspaces'
 import type { VendorContact, VendorContactInput } from '@/types'
 
 export function useVendorContacts(vendorId: string) {
   const queryClient = useQueryClient()
+  const { role } = useWorkspace()
   const supabase = getSupabaseClient()
 
   // Fetch contacts for a vendor
@@ -33,6 +36,8 @@ export function useVendorContacts(vendorId: string) {
   // Create a new contact
   const createContact = useMutation({
     mutationFn: async (contact: VendorContactInput) => {
+      assertCapability(role, 'manage_vendors')
+
       const { data, error } = await supabase
         .from('vendor_contacts')
         .insert(contact)
@@ -50,6 +55,8 @@ export function useVendorContacts(vendorId: string) {
   // Update a contact
   const updateContact = useMutation({
     mutationFn: async ({ id, ...updates }: Partial<VendorContact> & { id: string }) => {
+      assertCapability(role, 'manage_vendors')
+
       const { data, error } = await supabase
         .from('vendor_contacts')
         .update(updates)
@@ -68,6 +75,8 @@ export function useVendorContacts(vendorId: string) {
   // Delete a contact
   const deleteContact = useMutation({
     mutationFn: async (contactId: string) => {
+      assertCapability(role, 'manage_vendors')
+
       const { error } = await supabase
         .from('vendor_contacts')
         .delete()
@@ -83,6 +92,8 @@ export function useVendorContacts(vendorId: string) {
   // Mark follow-up as complete
   const completeFollowUp = useMutation({
     mutationFn: async (contactId: string) => {
+      assertCapability(role, 'manage_vendors')
+
       const { error } = await supabase
         .from('vendor_contacts')
         .update({ follow_up_completed: true })
@@ -0,0 +1,171 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability, getWorkspaceErrorMessage } from '@/lib/workspaces'
+import {
+  MAX_VENDOR_DOCUMENT_SIZE,
+  VENDOR_DOCUMENT_BUCKET,
+  VENDOR_DOCUMENT_MIME_TYPES,
+  buildVendorDocumentPath,
+} from '@/lib/vendor-compliance'
+import type { Vendor, VendorDocument, VendorDocumentType } from '@/types'
+import { toast } from 'sonner'
+
+type VendorDocumentDetails = Pick<
+  VendorDocument,
+  | 'document_number'
+  | 'issuer'
+  | 'per_occurrence_limit'
+  | 'aggregate_limit'
+  | 'effective_date'
+  | 'expiration_date'
+  | 'notes'
+>
+
+interface UploadVendorDocumentParams {
+  vendorId: string
+  documentType: VendorDocumentType
+  file: File
+  details: VendorDocumentDetails
+}
+
+// Qualification flag a document type backs up on the vendor record
+const VENDOR_FLAG_BY_TYPE: Record<VendorDocumentType, keyof Pick<Vendor, 'insured' | 'w9_on_file' | 'licensed'>> = {
+  coi: 'insured',
+  w9: 'w9_on_file',
+  license: 'licensed',
+}
+
+// Every document the user can see; the vendor list is small enough to load at once
+export function useVendorDocuments() {
+  const supabase = getSupabaseClient()
+
+  return useQuery({
+    queryKey: ['vendorDocuments'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vendor_documents')
+        .select('*')
+        .order('expiration_date', { ascending: false, nullsFirst: false })
+
+      if (error) throw error
+      return data as VendorDocument[]
+    },
+  })
+}
+
+export function useVendorDocumentMutations() {
+  const queryClient = useQueryClient()
+  const { role } = useWorkspace()
+  const supabase = getSupabaseClient()
+
+  const uploadDocument = useMutation({
+    mutationFn: async ({ vendorId, documentType, file, details }: UploadVendorDocumentParams) => {
+      assertCapability(role, 'manage_vendors')
+
+      if (!VENDOR_DOCUMENT_MIME_TYPES.includes(file.type)) {
+        throw new Error('Invalid file type. Accepted: PDF, JPG, PNG, WebP')
+      }
+      if (file.size > MAX_VENDOR_DOCUMENT_SIZE) {
+        throw new Error('File too large. Maximum size is 10MB')
+      }
+
+      const storagePath = buildVendorDocumentPath(vendorId, crypto.randomUUID(), file.name)
+
+      const { error: uploadError } = await supabase.storage
+        .from(VENDOR_DOCUMENT_BUCKET)
+        .upload(storagePath, file, {
+          contentType: file.type,
+          upsert: false,
+        })
+
+      if (uploadError) {
+        console.error('Storage upload error:', uploadError)
+        throw new Error('Failed to upload file to storage')
+      }
+
+      const { data, error: dbError } = await supabase
+        .from('vendor_documents')
+        .insert({
+          vendor_id: vendorId,
+          document_type: documentType,
+          ...details,
+          storage_path: storagePath,
+          file_name: file.name,
+          file_size: file.size,
+          content_type: file.type,
+        })
+        .select()
+        .single()
+
+      if (dbError) {
+        // Cleanup: delete the uploaded file if DB insert fails
+        await supabase.storage.from(VENDOR_DOCUMENT_BUCKET).remove([storagePath])
+        throw dbError
+      }
+
+      // Keep the vendor's qualification checkboxes in step with what's on file
+      await supabase
+        .from('vendors')
+        .update({ [VENDOR_FLAG_BY_TYPE[documentType]]: true })
+        .eq('id', vendorId)
+
+      return data as VendorDocument
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vendorDocuments'] })
+      queryClient.invalidateQueries({ queryKey: ['vendors'] })
+      toast.success('Document uploaded')
+    },
+    onError: (error) => {
+      console.error('Error uploading vendor document:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to upload document')
+    },
+  })
+
+  const deleteDocument = useMutation({
+    mutationFn: async (document: VendorDocument) => {
+      assertCapability(role, 'manage_vendors')
+
+      const { error } = await supabase
+        .from('vendor_documents')
+        .delete()
+        .eq('id', document.id)
+
+      if (error) throw error
+
+      // Remove the file once the row is gone; an orphaned file is harmless
+      await supabase.storage.from(VENDOR_DOCUMENT_BUCKET).remove([document.storage_path])
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vendorDocuments'] })
+      toast.success('Document deleted')
+    },
+    onError: (error) => {
+      console.error('Error deleting vendor document:', error)
+      toast.error(getWorkspaceErrorMessage(error, 'Failed to delete document'))
+    },
+  })
+
+  // Get a signed URL for viewing a private document
+  const getDocumentUrl = async (storagePath: string): Promise<string | null> => {
+    const { data, error } = await supabase.storage
+      .from(VENDOR_DOCUMENT_BUCKET)
+      .createSignedUrl(storagePath, 3600) // 1 hour expiry
+
+    if (error) {
+      console.error('Error getting signed URL:', error)
+      return null
+    }
+
+    return data.signedUrl
+  }
+
+  return {
+    uploadDocument,
+    deleteDocument,
+    getDocumentUrl,
+  }
+}
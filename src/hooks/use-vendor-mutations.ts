@@ -2,16 +2,27 @@
 
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability } from '@/lib/workspaces'
 import type { Vendor, VendorInput } from '@/types'
 import { toast } from 'sonner'
 
+interface MergeVendorsParams {
+  survivorId: string
+  duplicateIds: string[]
+  fields: VendorInput
+}
+
 export function useVendorMutations() {
   const queryClient = useQueryClient()
+  const { role } = useWorkspace()
   const supabase = getSupabaseClient()
 
   // CREATE vendor with optimistic update
   const createVendor = useMutation({
     mutationFn: async (vendor: VendorInput) => {
+      assertCapability(role, 'manage_vendors')
+
       const { data, error } = await supabase
         .from('vendors')
         .insert(vendor)
@@ -33,6 +44,7 @@ export function useVendorMutations() {
         ...newVendor,
         id: `temp-${Date.now()}`,
         user_id: '',
+        workspace_id: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       }
@@ -65,6 +77,8 @@ export function useVendorMutations() {
       id,
       ...updates
     }: Partial<Vendor> & { id: string }) => {
+      assertCapability(role, 'manage_vendors')
+
       const { data, error } = await supabase
         .from('vendors')
         .update(updates)
@@ -108,6 +122,8 @@ export function useVendorMutations() {
   // DELETE vendor with optimistic update (includes dependency check)
   const deleteVendor = useMutation({
     mutationFn: async (id: string) => {
+      assertCapability(role, 'manage_vendors')
+
       // Check for budget item dependencies
       const { count: budgetItemCount } = await supabase
         .from('budget_items')
@@ -165,9 +181,36 @@ export function useVendorMutations() {
     },
   })
 
+  // MERGE duplicates into a survivor; re-points every reference in one transaction
+  const mergeVendors = useMutation({
+    mutationFn: async ({ survivorId, duplicateIds, fields }: MergeVendorsParams) => {
+      assertCapability(role, 'manage_vendors')
+
+      const { error } = await supabase.rpc('merge_vendors', {
+        p_survivor_id: survivorId,
+        p_duplicate_ids: duplicateIds,
+        p_fields: fields,
+      })
+
+      if (error) throw error
+    },
+    onSuccess: (_, { duplicateIds }) => {
+      toast.success(`Merged ${duplicateIds.length + 1} vendors`)
+    },
+    onError: (error: Error) => {
+      console.error('Error merging vendors:', error)
+      toast.error(`Failed to merge vendors: ${error.message}`)
+    },
+    onSettled: () => {
+      // Budget items, draws, contacts, documents and bids all moved
+      queryClient.invalidateQueries()
+    },
+  })
+
   return {
     createVendor,
     updateVendor,
     deleteVendor,
+    mergeVendors,
   }
 }
@@ -0,0 +1,53 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { getSupabaseClient } from '@/lib/supabase/client'
+import {
+  SCORECARD_DRAW_SELECT,
+  SCORECARD_ITEM_SELECT,
+  buildVendorScorecards,
+  toScorecardItems,
+  type ScorecardContact,
+  type ScorecardDraw,
+  type ScorecardItemRow,
+} from '@/lib/vendor-scorecard'
+import type { Vendor } from '@/types'
+
+// Scorecards for every vendor, built from their history across all projects
+export function useVendorScorecards() {
+  const supabase = getSupabaseClient()
+
+  return useQuery({
+    queryKey: ['vendorScorecards'],
+    queryFn: async () => {
+      const [vendorsResult, itemsResult, contactsResult, drawsResult] = await Promise.all([
+        supabase.from('vendors').select('id'),
+        supabase
+          .from('budget_items')
+          .select(SCORECARD_ITEM_SELECT)
+          .not('vendor_id', 'is', null)
+          .overrideTypes<ScorecardItemRow[], { merge: false }>(),
+        supabase
+          .from('vendor_contacts')
+          .select('vendor_id, project_id, contact_type, contact_date')
+          .in('contact_type', ['quote_request', 'quote_received']),
+        supabase
+          .from('draws')
+          .select(SCORECARD_DRAW_SELECT)
+          .overrideTypes<ScorecardDraw[], { merge: false }>(),
+      ])
+
+      if (vendorsResult.error) throw vendorsResult.error
+      if (itemsResult.error) throw itemsResult.error
+      if (contactsResult.error) throw contactsResult.error
+      if (drawsResult.error) throw drawsResult.error
+
+      return buildVendorScorecards(
+        vendorsResult.data as Pick<Vendor, 'id'>[],
+        toScorecardItems(itemsResult.data),
+        contactsResult.data as ScorecardContact[],
+        drawsResult.data
+      )
+    },
+  })
+}
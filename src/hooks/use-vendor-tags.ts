@@ -2,10 +2,13 @@
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { getSupabaseClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/hooks/use-auth'
+import { assertCapability } from '@/lib/workspaces'
 import type { VendorTag, VendorTagInput } from '@/types'
 
 export function useVendorTags() {
   const queryClient = useQueryClient()
+  const { role } = useWorkspace()
   const supabase = getSupabaseClient()
 
   // Fetch all tags
@@ -53,6 +56,8 @@ export function useVendorTags() {
   // Create a new tag
   const createTag = useMutation({
     mutationFn: async (tag: VendorTagInput) => {
+      assertCapability(role, 'manage_vendors')
+
       const { data, error } = await supabase
         .from('vendor_tags')
         .insert(tag)
@@ -70,6 +75,8 @@ export function useVendorTags() {
   // Update a tag
   const updateTag = useMutation({
     mutationFn: async ({ id, ...updates }: Partial<VendorTag> & { id: string }) => {
+      assertCapability(role, 'manage_vendors')
+
       const { data, error } = await supabase
         .from('vendor_tags')
         .update(updates)
@@ -89,6 +96,8 @@ export function useVendorTags() {
   // Delete a tag
   const deleteTag = useMutation({
     mutationFn: async (tagId: string) => {
+      assertCapability(role, 'manage_vendors')
+
       const { error } = await supabase
         .from('vendor_tags')
         .delete()
@@ -105,6 +114,8 @@ export function useVendorTags() {
   // Assign a tag to a vendor
   const assignTag = useMutation({
     mutationFn: async ({ vendorId, tagId }: { vendorId: string; tagId: string }) => {
+      assertCapability(role, 'manage_vendors')
+
       const { error } = await supabase
         .from('vendor_tag_assignments')
         .insert({ vendor_id: vendorId, tag_id: tagId })
@@ -119,6 +130,8 @@ export function useVendorTags() {
   // Remove a tag from a vendor
   const unassignTag = useMutation({
     mutationFn: async ({ vendorId, tagId }: { vendorId: string; tagId: string }) => {
+      assertCapability(role, 'manage_vendors')
+
       const { error } = await supabase
         .from('vendor_tag_assignments')
         .delete()
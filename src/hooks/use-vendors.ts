@@ -2,6 +2,8 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getSupabaseClient } from '@/lib/supabase/client';
+import { useWorkspace } from '@/hooks/use-auth';
+import { assertCapability } from '@/lib/workspaces';
 import { useAuth } from '@/hooks/use-auth';
 import { useVendorsRealtime } from '@/hooks/use-realtime';
 import type { Vendor, VendorTrade, VendorStatus } from '@/types';
@@ -66,6 +68,7 @@ interface CreateVendorInput {
   licensed?: boolean;
   insured?: boolean;
   w9_on_file?: boolean;
+  retainage_percent?: number;
   rating?: number | null;
   reliability?: 'excellent' | 'good' | 'fair' | 'poor' | null;
   price_level?: '$' | '$$' | '$$$' | null;
@@ -76,10 +79,13 @@ interface CreateVendorInput {
 // Create vendor mutation
 export function useCreateVendor() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
   const { user } = useAuth();
 
   return useMutation({
     mutationFn: async (input: CreateVendorInput) => {
+      assertCapability(role, 'manage_vendors');
+
       const supabase = getSupabaseClient();
       const { data, error } = await supabase
         .from('vendors')
@@ -102,12 +108,15 @@ export function useCreateVendor() {
 // Update vendor mutation
 export function useUpdateVendor() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async ({
       id,
       ...updates
     }: Partial<CreateVendorInput> & { id: string }) => {
+      assertCapability(role, 'manage_vendors');
+
       const supabase = getSupabaseClient();
       const { data, error } = await supabase
         .from('vendors')
@@ -129,9 +138,12 @@ export function useUpdateVendor() {
 // Delete vendor mutation
 export function useDeleteVendor() {
   const queryClient = useQueryClient();
+  const { role } = useWorkspace();
 
   return useMutation({
     mutationFn: async (id: string) => {
+      assertCapability(role, 'manage_vendors');
+
       const supabase = getSupabaseClient();
       const { error } = await supabase.from('vendors').delete().eq('id', id);
 
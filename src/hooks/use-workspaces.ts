@@ -0,0 +1,373 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getSupabaseClient } from '@/lib/supabase/client';
+import { useAuth, useWorkspace } from '@/hooks/use-auth';
+import {
+  INVITATION_EXPIRY_DAYS,
+  assertCapability,
+  buildInvitationUrl,
+  generateInvitationToken,
+  getInvitationExpiry,
+  hashInvitationToken,
+  normalizeInvitationEmail,
+  toWorkspaceError,
+} from '@/lib/workspaces';
+import type {
+  ProjectInvestor,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceMemberWithProfile,
+  WorkspaceRole,
+} from '@/types';
+
+// Query keys
+export const workspaceKeys = {
+  all: ['workspaces'] as const,
+  members: (workspaceId: string) => [...workspaceKeys.all, 'members', workspaceId] as const,
+  invitations: (workspaceId: string) => [...workspaceKeys.all, 'invitations', workspaceId] as const,
+  projectInvestors: (workspaceId: string) => [...workspaceKeys.all, 'projectInvestors', workspaceId] as const,
+};
+
+/**
+ * Fetches the members of a workspace with their names and emails, owners first.
+ *
+ * @param workspaceId - The workspace ID
+ * @returns The team (`WorkspaceMemberWithProfile[]`)
+ */
+export function useWorkspaceMembers(workspaceId: string | null) {
+  return useQuery({
+    queryKey: workspaceKeys.members(workspaceId ?? ''),
+    queryFn: async () => {
+      const supabase = getSupabaseClient();
+      const { data: members, error } = await supabase
+        .from('workspace_members')
+        .select('*')
+        .eq('workspace_id', workspaceId!)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // Memberships reference auth.users, so profiles are fetched separately
+      const userIds = (members as WorkspaceMember[]).map((member) => member.user_id);
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .in('id', userIds);
+
+      if (profilesError) throw profilesError;
+
+      const profileById = new Map(
+        (profiles as { id: string; email: string | null; full_name: string | null }[]).map((profile) => [
+          profile.id,
+          { email: profile.email, full_name: profile.full_name },
+        ])
+      );
+
+      return (members as WorkspaceMember[])
+        .map((member) => ({ ...member, profile: profileById.get(member.user_id) ?? null }))
+        .sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner')) as WorkspaceMemberWithProfile[];
+    },
+    enabled: !!workspaceId,
+  });
+}
+
+/**
+ * Fetches a workspace's invitations, newest first. Only owners can see them.
+ *
+ * @param workspaceId - The workspace ID
+ * @returns The invitations (`WorkspaceInvitation[]`)
+ */
+export function useWorkspaceInvitations(workspaceId: string | null, enabled = true) {
+  return useQuery({
+    queryKey: workspaceKeys.invitations(workspaceId ?? ''),
+    queryFn: async () => {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('workspace_invitations')
+        .select('*')
+        .eq('workspace_id', workspaceId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as WorkspaceInvitation[];
+    },
+    enabled: !!workspaceId && enabled,
+  });
+}
+
+/**
+ * Fetches which projects are shared with which investors in the current
+ * workspace. Owners see every share; investors only their own.
+ *
+ * @param workspaceId - The current workspace ID (used for caching)
+ * @returns The shares (`ProjectInvestor[]`)
+ */
+export function useProjectInvestors(workspaceId: string | null) {
+  return useQuery({
+    queryKey: workspaceKeys.projectInvestors(workspaceId ?? ''),
+    queryFn: async () => {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase.from('project_investors').select('*');
+
+      if (error) throw error;
+      return data as ProjectInvestor[];
+    },
+    enabled: !!workspaceId,
+  });
+}
+
+/**
+ * Switch the workspace the user is working in. Everything cached belongs to
+ * the old workspace, so all queries are refetched.
+ *
+ * @returns A mutation that takes the workspace ID to switch to
+ */
+export function useSwitchWorkspace() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (workspaceId: string) => {
+      const supabase = getSupabaseClient();
+      const { error } = await supabase
+        .from('profiles')
+        .update({ active_workspace_id: workspaceId })
+        .eq('id', user!.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+}
+
+/**
+ * Rename the current workspace (owners only).
+ *
+ * @returns A mutation that takes the new name
+ */
+export function useRenameWorkspace() {
+  const queryClient = useQueryClient();
+  const { workspace, role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      assertCapability(role, 'manage_members');
+
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('workspaces')
+        .update({ name: name.trim() })
+        .eq('id', workspace!.id)
+        .select()
+        .single();
+
+      if (error) throw toWorkspaceError(error);
+      return data as Workspace;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+  });
+}
+
+interface CreateInvitationInput {
+  email: string;
+  role: WorkspaceRole;
+}
+
+export interface CreatedInvitation {
+  invitation: WorkspaceInvitation;
+  url: string;
+}
+
+/**
+ * Invite someone to the current workspace (owners only). The raw token is
+ * only returned here, in the link to send them; it is never stored.
+ *
+ * @returns A mutation that resolves to the invitation and its link
+ */
+export function useCreateInvitation() {
+  const queryClient = useQueryClient();
+  const { workspace, role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async ({ email, role: inviteRole }: CreateInvitationInput): Promise<CreatedInvitation> => {
+      assertCapability(role, 'manage_members');
+
+      const rawToken = generateInvitationToken();
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('workspace_invitations')
+        .insert({
+          workspace_id: workspace!.id,
+          email: normalizeInvitationEmail(email),
+          role: inviteRole,
+          token_hash: await hashInvitationToken(rawToken),
+          expires_at: getInvitationExpiry(INVITATION_EXPIRY_DAYS),
+        })
+        .select()
+        .single();
+
+      if (error) throw toWorkspaceError(error);
+      return {
+        invitation: data as WorkspaceInvitation,
+        url: buildInvitationUrl(window.location.origin, rawToken),
+      };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.invitations(result.invitation.workspace_id) });
+    },
+  });
+}
+
+/**
+ * Revoke an invitation so its link stops working (owners only).
+ *
+ * @returns A mutation that takes the invitation
+ */
+export function useRevokeInvitation() {
+  const queryClient = useQueryClient();
+  const { role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async (invitation: WorkspaceInvitation) => {
+      assertCapability(role, 'manage_members');
+
+      const supabase = getSupabaseClient();
+      const { error } = await supabase
+        .from('workspace_invitations')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', invitation.id);
+
+      if (error) throw toWorkspaceError(error);
+      return invitation;
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.invitations(invitation.workspace_id) });
+    },
+  });
+}
+
+/**
+ * Accept an invitation from its link and switch to that workspace.
+ * Rejects with a `WorkspaceError` when the link is expired, revoked or was
+ * sent to someone else.
+ *
+ * @returns A mutation that takes the raw token and resolves to the workspace ID
+ */
+export function useAcceptInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase.rpc('accept_workspace_invitation', {
+        p_token_hash: await hashInvitationToken(token),
+      });
+
+      if (error) throw toWorkspaceError(error);
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+}
+
+interface UpdateMemberRoleInput {
+  member: WorkspaceMember;
+  role: WorkspaceRole;
+}
+
+/**
+ * Change a member's role (owners only). The last owner can't be demoted.
+ *
+ * @returns A mutation that takes the member and their new role
+ */
+export function useUpdateMemberRole() {
+  const queryClient = useQueryClient();
+  const { role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async ({ member, role: newRole }: UpdateMemberRoleInput) => {
+      assertCapability(role, 'manage_members');
+
+      const supabase = getSupabaseClient();
+      const { error } = await supabase.from('workspace_members').update({ role: newRole }).eq('id', member.id);
+
+      if (error) throw toWorkspaceError(error);
+      return member;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+  });
+}
+
+/**
+ * Remove a member from the workspace. Owners can remove anyone; everyone
+ * else can only leave. The last owner can't be removed.
+ *
+ * @returns A mutation that takes the member
+ */
+export function useRemoveMember() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async (member: WorkspaceMember) => {
+      if (member.user_id !== user?.id) assertCapability(role, 'manage_members');
+
+      const supabase = getSupabaseClient();
+      const { error } = await supabase.from('workspace_members').delete().eq('id', member.id);
+
+      if (error) throw toWorkspaceError(error);
+      return member;
+    },
+    onSuccess: (member) => {
+      // Leaving drops the user back into a workspace of their own
+      if (member.user_id === user?.id) {
+        queryClient.invalidateQueries();
+      } else {
+        queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+      }
+    },
+  });
+}
+
+interface SetProjectSharedInput {
+  projectId: string;
+  userId: string;
+  shared: boolean;
+}
+
+/**
+ * Share a project with an investor, or stop sharing it (owners only).
+ *
+ * @returns A mutation that takes the project, the investor and whether to share
+ */
+export function useSetProjectShared() {
+  const queryClient = useQueryClient();
+  const { role } = useWorkspace();
+
+  return useMutation({
+    mutationFn: async ({ projectId, userId, shared }: SetProjectSharedInput) => {
+      assertCapability(role, 'manage_members');
+
+      const supabase = getSupabaseClient();
+      const { error } = shared
+        ? await supabase.from('project_investors').insert({ project_id: projectId, user_id: userId })
+        : await supabase.from('project_investors').delete().eq('project_id', projectId).eq('user_id', userId);
+
+      if (error) throw toWorkspaceError(error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+  });
+}
@@ -0,0 +1,247 @@
+import { formatCurrencyDetailed, formatDate, formatPercent } from '@/lib/utils';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_TABLE_LABELS,
+  BUDGET_CATEGORIES,
+  PAYMENT_METHOD_LABELS,
+  PROJECT_STATUS_LABELS,
+  STATUS_LABELS,
+  UNIT_LABELS,
+  VENDOR_TRADE_LABELS,
+  type AuditAction,
+  type AuditLogEntry,
+  type AuditLogEntryWithActor,
+  type AuditTable,
+} from '@/types';
+
+// ============================================================================
+// AUDIT LOG
+// Turns audit_log rows (written by the record_audit_log() trigger) into
+// readable history: field labels, formatted before/after values and filters
+// for the project activity feed and per-row history popovers.
+// ============================================================================
+
+// Fields listed here appear in this order; anything else follows, humanized
+const FIELD_LABELS: Record<AuditTable, Record<string, string>> = {
+  projects: {
+    name: 'Name',
+    status: 'Status',
+    arv: 'ARV',
+    purchase_price: 'Purchase Price',
+    closing_costs: 'Closing Costs',
+    holding_costs_monthly: 'Monthly Holding Costs',
+    hold_months: 'Hold Months',
+    selling_cost_percent: 'Selling Costs',
+    contingency_percent: 'Contingency',
+    contract_date: 'Contract Date',
+    close_date: 'Close Date',
+    rehab_start_date: 'Rehab Start',
+    target_complete_date: 'Target Completion',
+    list_date: 'List Date',
+    sale_date: 'Sale Date',
+    calculation_settings_id: 'Calculation Profile',
+  },
+  budget_items: {
+    item: 'Item',
+    category: 'Category',
+    underwriting_amount: 'Underwriting',
+    forecast_amount: 'Forecast',
+    actual_amount: 'Actual',
+    qty: 'Qty',
+    unit: 'Unit',
+    rate: 'Rate',
+    vendor_id: 'Vendor',
+    status: 'Status',
+    cost_type: 'Cost Type',
+    room_area: 'Room/Area',
+    completed_at: 'Completed',
+  },
+  draws: {
+    draw_number: 'Draw #',
+    amount: 'Amount',
+    status: 'Status',
+    vendor_id: 'Vendor',
+    milestone: 'Milestone',
+    percent_complete: '% Complete',
+    date_requested: 'Requested',
+    date_paid: 'Paid',
+    payment_method: 'Payment Method',
+    reference_number: 'Reference #',
+    compliance_override_reason: 'Insurance Override Reason',
+    compliance_override_at: 'Insurance Override',
+    loan_id: 'Funding Loan',
+  },
+  vendors: {
+    name: 'Name',
+    trade: 'Trade',
+    status: 'Status',
+    contact_name: 'Contact',
+    phone: 'Phone',
+    email: 'Email',
+    retainage_percent: 'Retainage',
+    w9_on_file: 'W-9 on File',
+  },
+  line_item_photos: {
+    caption: 'Caption',
+    photo_type: 'Type',
+    line_item_id: 'Budget Item',
+    taken_at: 'Taken',
+  },
+};
+
+// Shown with cents so small corrections still read as a change
+const CURRENCY_FIELDS = new Set([
+  'amount',
+  'rate',
+  'underwriting_amount',
+  'forecast_amount',
+  'actual_amount',
+  'arv',
+  'purchase_price',
+  'closing_costs',
+  'holding_costs_monthly',
+]);
+
+// Stored as percent values (12.5 = 12.5%)
+const PERCENT_FIELDS = new Set(['percent_complete', 'selling_cost_percent', 'contingency_percent', 'retainage_percent']);
+
+const DATE_FIELDS = /(_date|_at)$|^date_/;
+
+const ENUM_LABELS: Record<string, Record<string, string>> = {
+  category: Object.fromEntries(BUDGET_CATEGORIES.map((c) => [c.value, c.label])),
+  unit: UNIT_LABELS,
+  trade: VENDOR_TRADE_LABELS,
+  payment_method: PAYMENT_METHOD_LABELS,
+};
+
+/** Names for ids that appear as values (vendor_id, line_item_id) */
+export interface AuditValueContext {
+  vendorNames?: Record<string, string>;
+  itemNames?: Record<string, string>;
+}
+
+export interface AuditFieldDiff {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+function humanize(field: string): string {
+  return field
+    .split('_')
+    .map((word, i) => (i === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word))
+    .join(' ');
+}
+
+export function getAuditFieldLabel(table: AuditTable, field: string): string {
+  return FIELD_LABELS[table][field] ?? humanize(field);
+}
+
+/**
+ * Format one before/after value the way the rest of the app shows it.
+ */
+export function formatAuditValue(
+  table: AuditTable,
+  field: string,
+  value: unknown,
+  context: AuditValueContext = {}
+): string {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+
+  if (CURRENCY_FIELDS.has(field)) return formatCurrencyDetailed(Number(value));
+  if (PERCENT_FIELDS.has(field)) return formatPercent(Number(value));
+  if (DATE_FIELDS.test(field)) return formatDate(String(value));
+
+  if (field === 'vendor_id') return context.vendorNames?.[String(value)] ?? 'Removed vendor';
+  if (field === 'line_item_id') return context.itemNames?.[String(value)] ?? 'Removed item';
+  if (field === 'status') {
+    const labels: Record<string, string> =
+      table === 'projects' ? PROJECT_STATUS_LABELS : table === 'budget_items' ? STATUS_LABELS : {};
+    return labels[String(value)] ?? humanize(String(value));
+  }
+  if (ENUM_LABELS[field]) return ENUM_LABELS[field][String(value)] ?? String(value);
+
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * The fields an entry touched, labelled and formatted, in a stable order.
+ */
+export function getAuditFieldDiffs(entry: AuditLogEntry, context: AuditValueContext = {}): AuditFieldDiff[] {
+  const order = Object.keys(FIELD_LABELS[entry.table_name]);
+  const rank = (field: string) => (order.includes(field) ? order.indexOf(field) : order.length);
+
+  return Object.entries(entry.changes)
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([field, change]) => ({
+      field,
+      label: getAuditFieldLabel(entry.table_name, field),
+      before: formatAuditValue(entry.table_name, field, change.old, context),
+      after: formatAuditValue(entry.table_name, field, change.new, context),
+    }));
+}
+
+/**
+ * What happened, to follow the actor's name, e.g. `changed budget item "Kitchen cabinets"`.
+ */
+export function describeAuditEntry(entry: AuditLogEntry): string {
+  const verb = AUDIT_ACTION_LABELS[entry.action].toLowerCase();
+  const noun = AUDIT_TABLE_LABELS[entry.table_name].toLowerCase();
+  return entry.record_label ? `${verb} ${noun} "${entry.record_label}"` : `${verb} ${noun}`;
+}
+
+/**
+ * Who made the change. Writes without a user come from the vendor portal
+ * (new draws) or from the database itself.
+ */
+export function getAuditActorName(entry: AuditLogEntryWithActor): string {
+  if (entry.actor) return entry.actor.full_name || entry.actor.email || 'Former member';
+  if (entry.actor_id) return 'Former member';
+  return entry.table_name === 'draws' && entry.action === 'insert' ? 'Vendor portal' : 'System';
+}
+
+// ============================================================================
+// FILTERS
+// ============================================================================
+
+export const AUDIT_SYSTEM_ACTOR = 'system';
+
+export interface AuditLogFilters {
+  table: AuditTable | 'all';
+  action: AuditAction | 'all';
+  /** A user id, AUDIT_SYSTEM_ACTOR for writes without a user, or 'all' */
+  actorId: string | 'all';
+  /** Only entries that touched this field (updates) or set it (inserts/deletes) */
+  field?: string;
+}
+
+export const DEFAULT_AUDIT_LOG_FILTERS: AuditLogFilters = { table: 'all', action: 'all', actorId: 'all' };
+
+export function filterAuditEntries<T extends AuditLogEntry>(entries: T[], filters: AuditLogFilters): T[] {
+  return entries.filter(
+    (entry) =>
+      (filters.table === 'all' || entry.table_name === filters.table) &&
+      (filters.action === 'all' || entry.action === filters.action) &&
+      (filters.actorId === 'all' || (entry.actor_id ?? AUDIT_SYSTEM_ACTOR) === filters.actorId) &&
+      (!filters.field || filters.field in entry.changes)
+  );
+}
+
+/**
+ * Entries grouped by local calendar day, newest first, for the activity feed.
+ */
+export function groupAuditEntriesByDay<T extends AuditLogEntry>(entries: T[]): { day: string; entries: T[] }[] {
+  const groups = new Map<string, T[]>();
+  const sorted = [...entries].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  for (const entry of sorted) {
+    const created = new Date(entry.created_at);
+    const day = `${created.getFullYear()}-${String(created.getMonth() + 1).padStart(2, '0')}-${String(created.getDate()).padStart(2, '0')}`;
+    groups.set(day, [...(groups.get(day) ?? []), entry]);
+  }
+
+  return Array.from(groups, ([day, dayEntries]) => ({ day, entries: dayEntries }));
+}
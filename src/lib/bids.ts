@@ -0,0 +1,147 @@
+import { getBudgetedAmount } from '@/lib/draw-packet';
+import {
+  BUDGET_CATEGORIES,
+  type Bid,
+  type BidLineItem,
+  type BidRequestItem,
+  type BudgetCategory,
+  type BudgetItem,
+  type BidWithLines,
+} from '@/types';
+
+// ============================================================================
+// BID COMPARISON
+// A bid request scopes a set of budget lines; each invited vendor prices
+// those lines. Bids are compared line by line against the current budget
+// (forecast, else underwriting). Awarding a bid copies its line amounts to
+// forecast_amount and its vendor to vendor_id (see award_bid()).
+// ============================================================================
+
+// Bids still in the running; declined and not-awarded bids are shown but not compared
+const COMPARABLE_BID_STATUSES: Bid['status'][] = ['received', 'awarded'];
+
+export interface BidComparisonLine {
+  budgetItem: BudgetItem;
+  budgeted: number;
+  /** Line amount per bid id; missing when the vendor did not price the line */
+  amounts: Record<string, number>;
+  /** Bid id with the lowest price on this line, among comparable bids */
+  lowBidId: string | null;
+}
+
+export interface BidComparisonTotal {
+  bidId: string;
+  total: number;
+  /** Scope lines the vendor left unpriced */
+  missingCount: number;
+  /** total minus the budgeted amount of the scope */
+  varianceToBudget: number;
+}
+
+export interface BidComparison {
+  lines: BidComparisonLine[];
+  totals: Record<string, BidComparisonTotal>;
+  budgetedTotal: number;
+  /** Lowest-priced bid that covers every line in the scope */
+  lowBidId: string | null;
+}
+
+/**
+ * Budget lines in a category, in the order the budget shows them.
+ */
+export function getCategoryScopeItemIds(budgetItems: BudgetItem[], category: BudgetCategory): string[] {
+  return budgetItems
+    .filter((item) => item.category === category)
+    .sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0))
+    .map((item) => item.id);
+}
+
+/**
+ * The budget lines a bid request covers, grouped in BUDGET_CATEGORIES order.
+ * Lines deleted from the budget since the request was made are dropped.
+ */
+export function getBidScopeItems(
+  requestItems: Pick<BidRequestItem, 'budget_item_id'>[],
+  budgetItems: BudgetItem[]
+): BudgetItem[] {
+  const scopeIds = new Set(requestItems.map((ri) => ri.budget_item_id));
+  const categoryOrder = new Map(BUDGET_CATEGORIES.map((cat, index) => [cat.value, index]));
+
+  return budgetItems
+    .filter((item) => scopeIds.has(item.id))
+    .sort(
+      (a, b) =>
+        (categoryOrder.get(a.category) ?? 0) - (categoryOrder.get(b.category) ?? 0) ||
+        (a.sort_order || 0) - (b.sort_order || 0)
+    );
+}
+
+/**
+ * Whether a bid has been priced and can still win.
+ */
+export function isComparableBid(bid: Pick<Bid, 'status'>): boolean {
+  return COMPARABLE_BID_STATUSES.includes(bid.status);
+}
+
+/**
+ * Compare bids line by line over a scope.
+ *
+ * Every bid gets a total (unpriced lines count as zero, and are counted in
+ * `missingCount`), but only comparable bids are considered for the low
+ * line and the low bid. A bid with unpriced lines cannot be the low bid.
+ *
+ * @param scopeItems - The request's budget lines (see getBidScopeItems)
+ * @param bids - Bids on the request with their line items
+ */
+export function buildBidComparison(scopeItems: BudgetItem[], bids: BidWithLines[]): BidComparison {
+  const comparable = bids.filter(isComparableBid);
+
+  const lines: BidComparisonLine[] = scopeItems.map((item) => {
+    const amounts: Record<string, number> = {};
+    bids.forEach((bid) => {
+      const line = bid.bid_line_items.find((l) => l.budget_item_id === item.id);
+      if (line) amounts[bid.id] = Number(line.amount) || 0;
+    });
+
+    let lowBidId: string | null = null;
+    comparable.forEach((bid) => {
+      if (amounts[bid.id] === undefined) return;
+      if (lowBidId === null || amounts[bid.id] < amounts[lowBidId]) lowBidId = bid.id;
+    });
+
+    return { budgetItem: item, budgeted: getBudgetedAmount(item), amounts, lowBidId };
+  });
+
+  const budgetedTotal = lines.reduce((sum, line) => sum + line.budgeted, 0);
+
+  const totals: Record<string, BidComparisonTotal> = {};
+  bids.forEach((bid) => {
+    const total = lines.reduce((sum, line) => sum + (line.amounts[bid.id] ?? 0), 0);
+    totals[bid.id] = {
+      bidId: bid.id,
+      total,
+      missingCount: lines.filter((line) => line.amounts[bid.id] === undefined).length,
+      varianceToBudget: total - budgetedTotal,
+    };
+  });
+
+  let lowBidId: string | null = null;
+  comparable.forEach((bid) => {
+    if (totals[bid.id].missingCount > 0) return;
+    if (lowBidId === null || totals[bid.id].total < totals[lowBidId].total) lowBidId = bid.id;
+  });
+
+  return { lines, totals, budgetedTotal, lowBidId };
+}
+
+/**
+ * Line amounts to save for a bid: blank lines are left out so they show as
+ * unpriced rather than as a $0 price.
+ */
+export function toBidLineEntries(
+  amounts: Record<string, number | null | undefined>
+): Pick<BidLineItem, 'budget_item_id' | 'amount'>[] {
+  return Object.entries(amounts)
+    .filter((entry): entry is [string, number] => typeof entry[1] === 'number' && Number.isFinite(entry[1]))
+    .map(([budget_item_id, amount]) => ({ budget_item_id, amount }));
+}
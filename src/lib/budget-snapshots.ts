@@ -0,0 +1,228 @@
+import { analyzeProject, type ProjectDealAnalysis } from '@/lib/deal-analysis';
+import {
+  BUDGET_CATEGORIES,
+  type BudgetCategory,
+  type BudgetItem,
+  type BudgetSnapshot,
+  type BudgetSnapshotFinancials,
+  type CalculationSettingsInput,
+} from '@/types';
+
+// ============================================================================
+// BUDGET SNAPSHOTS
+// Diff two versions of a budget - two snapshots, or a snapshot against the
+// live budget. Line items are matched by id, then by category + name so a
+// line re-created during a re-bid still lines up. Each version is valued at
+// its own primary scenario (forecast once any exists, otherwise
+// underwriting), the same rule the deal analysis uses.
+// ============================================================================
+
+/** Select value for the live budget in the version pickers */
+export const CURRENT_BUDGET_VERSION_ID = 'current';
+
+export interface BudgetVersion {
+  id: string;
+  name: string;
+  financials: BudgetSnapshotFinancials;
+  items: BudgetItem[];
+}
+
+/** Line item fields compared between versions */
+export const BUDGET_DIFF_FIELDS = [
+  'item',
+  'description',
+  'qty',
+  'unit',
+  'rate',
+  'underwriting_amount',
+  'forecast_amount',
+  'actual_amount',
+  'vendor_id',
+  'status',
+] as const;
+
+export type BudgetDiffField = (typeof BUDGET_DIFF_FIELDS)[number];
+
+export const BUDGET_DIFF_FIELD_LABELS: Record<BudgetDiffField, string> = {
+  item: 'Name',
+  description: 'Description',
+  qty: 'Qty',
+  unit: 'Unit',
+  rate: 'Rate',
+  underwriting_amount: 'Underwriting',
+  forecast_amount: 'Forecast',
+  actual_amount: 'Actual',
+  vendor_id: 'Vendor',
+  status: 'Status',
+};
+
+export type BudgetItemChangeType = 'added' | 'removed' | 'changed';
+
+export interface BudgetItemDiff {
+  type: BudgetItemChangeType;
+  category: BudgetCategory;
+  name: string;
+  from: BudgetItem | null;
+  to: BudgetItem | null;
+  changedFields: BudgetDiffField[];
+  /** Budgeted amount in each version (0 when absent) */
+  fromAmount: number;
+  toAmount: number;
+  delta: number;
+}
+
+export interface BudgetCategoryDiff {
+  category: BudgetCategory;
+  label: string;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface BudgetDiff {
+  items: BudgetItemDiff[];
+  categories: BudgetCategoryDiff[];
+  totals: { from: number; to: number; delta: number };
+  analysis: { from: ProjectDealAnalysis; to: ProjectDealAnalysis };
+}
+
+/**
+ * A saved snapshot as a comparable version.
+ */
+export function snapshotToVersion(snapshot: BudgetSnapshot): BudgetVersion {
+  return {
+    id: snapshot.id,
+    name: snapshot.name,
+    financials: snapshot.project_financials,
+    items: snapshot.budget_items,
+  };
+}
+
+/**
+ * The live budget as a comparable version.
+ */
+export function currentBudgetVersion(project: BudgetSnapshotFinancials, budgetItems: BudgetItem[]): BudgetVersion {
+  return {
+    id: CURRENT_BUDGET_VERSION_ID,
+    name: 'Current budget',
+    financials: {
+      arv: project.arv,
+      purchase_price: project.purchase_price,
+      closing_costs: project.closing_costs,
+      holding_costs_monthly: project.holding_costs_monthly,
+      hold_months: project.hold_months,
+      selling_cost_percent: project.selling_cost_percent,
+      contingency_percent: project.contingency_percent,
+    },
+    items: budgetItems,
+  };
+}
+
+const normalizeName = (name: string) => name.toLowerCase().trim().replace(/\s+/g, ' ');
+
+/**
+ * Key that identifies "the same line" across versions or imports: category
+ * plus the item name, ignoring case and spacing.
+ */
+export const budgetItemMatchKey = (item: Pick<BudgetItem, 'category' | 'item'>) =>
+  `${item.category}:${normalizeName(item.item)}`;
+
+function getChangedFields(from: BudgetItem, to: BudgetItem): BudgetDiffField[] {
+  return BUDGET_DIFF_FIELDS.filter((field) => {
+    const a = from[field] ?? null;
+    const b = to[field] ?? null;
+    if (typeof a === 'number' || typeof b === 'number') {
+      return Math.abs((Number(a) || 0) - (Number(b) || 0)) >= 0.005;
+    }
+    return a !== b;
+  });
+}
+
+/**
+ * Pair each line in `from` with its counterpart in `to`.
+ */
+function matchItems(fromItems: BudgetItem[], toItems: BudgetItem[]): [BudgetItem | null, BudgetItem | null][] {
+  const unmatchedTo = new Map(toItems.map((item) => [item.id, item]));
+  const pairs: [BudgetItem | null, BudgetItem | null][] = [];
+  const unmatchedFrom: BudgetItem[] = [];
+
+  fromItems.forEach((item) => {
+    const counterpart = unmatchedTo.get(item.id);
+    if (counterpart) {
+      pairs.push([item, counterpart]);
+      unmatchedTo.delete(item.id);
+    } else {
+      unmatchedFrom.push(item);
+    }
+  });
+
+  unmatchedFrom.forEach((item) => {
+    const counterpart = Array.from(unmatchedTo.values()).find((to) => budgetItemMatchKey(to) === budgetItemMatchKey(item));
+    if (counterpart) {
+      pairs.push([item, counterpart]);
+      unmatchedTo.delete(counterpart.id);
+    } else {
+      pairs.push([item, null]);
+    }
+  });
+
+  unmatchedTo.forEach((item) => pairs.push([null, item]));
+  return pairs;
+}
+
+/**
+ * Added, removed and changed line items between two budget versions, with
+ * category totals and the resulting deal analysis for each.
+ */
+export function diffBudgetVersions(
+  from: BudgetVersion,
+  to: BudgetVersion,
+  settings: CalculationSettingsInput
+): BudgetDiff {
+  const fromAnalysis = analyzeProject(from.financials, from.items, settings);
+  const toAnalysis = analyzeProject(to.financials, to.items, settings);
+
+  const amountIn = (analysis: ProjectDealAnalysis) => (item: BudgetItem | null) => {
+    if (!item) return 0;
+    const amount = analysis.primaryScenario === 'forecast' ? item.forecast_amount : item.underwriting_amount;
+    return Number(amount) || 0;
+  };
+  const fromAmountOf = amountIn(fromAnalysis);
+  const toAmountOf = amountIn(toAnalysis);
+
+  const items: BudgetItemDiff[] = [];
+  matchItems(from.items, to.items).forEach(([a, b]) => {
+    const changedFields = a && b ? getChangedFields(a, b) : [];
+    if (a && b && changedFields.length === 0) return;
+
+    const fromAmount = fromAmountOf(a);
+    const toAmount = toAmountOf(b);
+    items.push({
+      type: !a ? 'added' : !b ? 'removed' : 'changed',
+      category: (b || a)!.category,
+      name: (b || a)!.item,
+      from: a,
+      to: b,
+      changedFields,
+      fromAmount,
+      toAmount,
+      delta: toAmount - fromAmount,
+    });
+  });
+
+  const categoryOrder = BUDGET_CATEGORIES.map((cat) => cat.value);
+  items.sort((x, y) => categoryOrder.indexOf(x.category) - categoryOrder.indexOf(y.category));
+
+  const categories = BUDGET_CATEGORIES.map((cat) => {
+    const fromTotal = from.items.filter((i) => i.category === cat.value).reduce((sum, i) => sum + fromAmountOf(i), 0);
+    const toTotal = to.items.filter((i) => i.category === cat.value).reduce((sum, i) => sum + toAmountOf(i), 0);
+    return { category: cat.value, label: cat.label, from: fromTotal, to: toTotal, delta: toTotal - fromTotal };
+  }).filter((cat) => cat.from !== 0 || cat.to !== 0);
+
+  const totals = categories.reduce(
+    (sum, cat) => ({ from: sum.from + cat.from, to: sum.to + cat.to, delta: sum.delta + cat.delta }),
+    { from: 0, to: 0, delta: 0 }
+  );
+
+  return { items, categories, totals, analysis: { from: fromAnalysis, to: toAnalysis } };
+}
@@ -0,0 +1,87 @@
+import {
+  DEFAULT_CALCULATION_SETTINGS,
+  type CalculationSettings,
+  type CalculationSettingsInput,
+} from '@/types';
+
+// Columns on calculation_settings that are not part of the editable profile
+const NON_INPUT_COLUMNS = ['id', 'user_id', 'created_at', 'updated_at', 'custom_formulas'] as const;
+
+/**
+ * Convert a calculation_settings row into the editable settings shape.
+ *
+ * Every column on the table is nullable, so missing values fall back to
+ * DEFAULT_CALCULATION_SETTINGS. JSONB columns are merged key by key so a
+ * profile saved before a new category or holding cost item existed still
+ * gets a value for it.
+ */
+export function toCalculationSettingsInput(
+  row: Partial<CalculationSettings> | null | undefined
+): CalculationSettingsInput {
+  if (!row) return DEFAULT_CALCULATION_SETTINGS;
+
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value == null) continue;
+    if ((NON_INPUT_COLUMNS as readonly string[]).includes(key)) continue;
+    values[key] = value;
+  }
+
+  const merged = { ...DEFAULT_CALCULATION_SETTINGS, ...values } as CalculationSettingsInput;
+
+  return {
+    ...merged,
+    contingency_category_rates: {
+      ...DEFAULT_CALCULATION_SETTINGS.contingency_category_rates,
+      ...(row.contingency_category_rates ?? {}),
+    },
+    holding_cost_items: {
+      ...DEFAULT_CALCULATION_SETTINGS.holding_cost_items,
+      ...(row.holding_cost_items ?? {}),
+    },
+    contingency_tiers: row.contingency_tiers?.length
+      ? row.contingency_tiers
+      : DEFAULT_CALCULATION_SETTINGS.contingency_tiers,
+  };
+}
+
+/**
+ * The default profile of the given user. Teammates can read the project
+ * owner's default, so the list may hold more than one.
+ */
+export function findDefaultProfile(
+  profiles: CalculationSettings[],
+  ownerId?: string | null
+): CalculationSettings | undefined {
+  return profiles.find((profile) => profile.is_default && (!ownerId || profile.user_id === ownerId));
+}
+
+/**
+ * Pick the profile row that applies to a project.
+ *
+ * Resolution order: the profile assigned to the project, then the project
+ * owner's default profile (as in the project_summary view).
+ */
+export function findProjectProfile(
+  profiles: CalculationSettings[],
+  projectSettingsId?: string | null,
+  ownerId?: string | null
+): CalculationSettings | undefined {
+  const assigned = projectSettingsId
+    ? profiles.find((profile) => profile.id === projectSettingsId)
+    : undefined;
+
+  return assigned ?? findDefaultProfile(profiles, ownerId);
+}
+
+/**
+ * Pick the settings that apply to a project: the assigned profile, then the
+ * project owner's default profile, then the built-in defaults.
+ */
+export function resolveCalculationSettings(
+  profiles: CalculationSettings[],
+  projectSettingsId?: string | null,
+  ownerId?: string | null
+): CalculationSettingsInput {
+  return toCalculationSettingsInput(findProjectProfile(profiles, projectSettingsId, ownerId));
+}
@@ -0,0 +1,286 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import { toCsv } from '@/lib/csv';
+import type { ProjectDealAnalysis } from '@/lib/deal-analysis';
+import type { Draw, Project, ProjectStatus } from '@/types';
+
+// ============================================================================
+// CASH FLOW PROJECTION
+// Month-by-month cash in and out of each active project, from the current
+// month forward, and the portfolio total. Negative is cash leaving.
+//
+// - Acquisition: cash needed at closing, in the close month, while under contract
+// - Rehab: pending/approved draws in their requested month (or now), then the
+//   rest of the budget spread evenly from rehab start to target completion
+//   (nothing more once listed).
+//   Draws a loan's holdback can cover cost no cash.
+// - Holding and interest: every month from closing through the sale month
+// - Sale: ARV less selling costs and loan payoff, in the sale month (the sale
+//   date, else a month after listing, else two months after target completion,
+//   else closing plus the hold period; overdue sales land this month)
+//
+// The peak capital requirement is the deepest the running total goes: the
+// cash needed on top of what is already in the deals.
+// ============================================================================
+
+/** Projects with money still moving */
+export const CASH_FLOW_STATUSES: ProjectStatus[] = ['under_contract', 'in_rehab', 'listed'];
+
+export const DEFAULT_CASH_FLOW_MONTHS = 12;
+
+/** The project columns the projection reads */
+export type CashFlowProjectFields = Pick<
+  Project,
+  | 'id'
+  | 'name'
+  | 'status'
+  | 'close_date'
+  | 'rehab_start_date'
+  | 'target_complete_date'
+  | 'list_date'
+  | 'sale_date'
+  | 'hold_months'
+>;
+
+/** The draw columns the projection reads */
+export type CashFlowDraw = Pick<Draw, 'amount' | 'status' | 'date_requested' | 'loan_id'>;
+
+export interface CashFlowMonth {
+  /** yyyy-MM */
+  month: string;
+  acquisition: number;
+  rehab: number;
+  holding: number;
+  interest: number;
+  sale: number;
+  net: number;
+  /** Running total from the first month */
+  cumulative: number;
+}
+
+export interface ProjectCashFlow {
+  projectId: string;
+  name: string;
+  months: CashFlowMonth[];
+  /** Sale month, or null when it falls past the projection */
+  saleMonth: string | null;
+  peakCapital: number;
+  /** Month the running total is lowest, or null when it never goes negative */
+  peakMonth: string | null;
+}
+
+export interface PortfolioCashFlow {
+  months: CashFlowMonth[];
+  projects: ProjectCashFlow[];
+  peakCapital: number;
+  peakMonth: string | null;
+}
+
+type MonthAmounts = Omit<CashFlowMonth, 'month' | 'net' | 'cumulative'>;
+
+const EMPTY_AMOUNTS: MonthAmounts = { acquisition: 0, rehab: 0, holding: 0, interest: 0, sale: 0 };
+
+function toMonth(date: string | Date): string {
+  return format(typeof date === 'string' ? parseISO(date) : date, 'yyyy-MM');
+}
+
+function shiftMonth(month: string, count: number): string {
+  return toMonth(addMonths(parseISO(`${month}-01`), count));
+}
+
+function laterMonth(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+/** The months of the projection, oldest first */
+export function getCashFlowMonths(asOf: Date = new Date(), count = DEFAULT_CASH_FLOW_MONTHS): string[] {
+  const start = toMonth(asOf);
+  return Array.from({ length: count }, (_, i) => shiftMonth(start, i));
+}
+
+/**
+ * When the project is expected to sell, as yyyy-MM
+ */
+export function getExpectedSaleMonth(project: CashFlowProjectFields, asOf: Date = new Date()): string {
+  const thisMonth = toMonth(asOf);
+  let month: string;
+
+  if (project.sale_date) month = toMonth(project.sale_date);
+  else if (project.list_date) month = shiftMonth(toMonth(project.list_date), 1);
+  else if (project.target_complete_date) month = shiftMonth(toMonth(project.target_complete_date), 2);
+  else month = shiftMonth(project.close_date ? toMonth(project.close_date) : thisMonth, project.hold_months || 4);
+
+  return laterMonth(month, thisMonth);
+}
+
+function summarize(months: string[], amounts: Map<string, MonthAmounts>): Omit<PortfolioCashFlow, 'projects'> {
+  let cumulative = 0;
+  let lowest = 0;
+  let peakMonth: string | null = null;
+
+  const rows = months.map((month) => {
+    const { acquisition, rehab, holding, interest, sale } = amounts.get(month) ?? EMPTY_AMOUNTS;
+    const net = acquisition + rehab + holding + interest + sale;
+    cumulative += net;
+    if (cumulative < lowest) {
+      lowest = cumulative;
+      peakMonth = month;
+    }
+    return { month, acquisition, rehab, holding, interest, sale, net, cumulative };
+  });
+
+  return { months: rows, peakCapital: lowest < 0 ? -lowest : 0, peakMonth };
+}
+
+/**
+ * Monthly cash flow for one project from its dates, draws and deal analysis
+ */
+export function projectCashFlow(
+  project: CashFlowProjectFields,
+  analysis: Pick<ProjectDealAnalysis, 'primary' | 'actualTotal' | 'financing'>,
+  draws: CashFlowDraw[],
+  asOf: Date = new Date(),
+  count = DEFAULT_CASH_FLOW_MONTHS
+): ProjectCashFlow {
+  const months = getCashFlowMonths(asOf, count);
+  const thisMonth = months[0];
+  const lastMonth = months[months.length - 1];
+  const amounts = new Map<string, MonthAmounts>(months.map((month) => [month, { ...EMPTY_AMOUNTS }]));
+  const add = (month: string, field: keyof MonthAmounts, amount: number) => {
+    const row = amounts.get(month);
+    if (row) row[field] += amount;
+  };
+
+  const { primary, financing } = analysis;
+  const saleMonth = getExpectedSaleMonth(project, asOf);
+  const closeMonth = project.close_date ? toMonth(project.close_date) : thisMonth;
+
+  // Acquisition, until the deal closes
+  if (project.status === 'under_contract') {
+    const cashAtClosing = financing?.cashNeededAtClosing ?? primary.purchasePrice + primary.closingCosts;
+    add(laterMonth(closeMonth, thisMonth), 'acquisition', -cashAtClosing);
+  }
+
+  // Rehab: what a loan's holdback can cover costs no cash
+  let holdback = financing ? financing.loans.reduce((sum, cost) => sum + cost.undrawnHoldback, 0) : 0;
+  const spend = (month: string, amount: number, loanFunded: boolean) => {
+    const covered = loanFunded ? Math.min(amount, holdback) : 0;
+    holdback -= covered;
+    add(month, 'rehab', covered - amount);
+  };
+
+  const scheduled = draws.filter((draw) => draw.status === 'pending' || draw.status === 'approved');
+  scheduled.forEach((draw) => {
+    const month = draw.date_requested ? laterMonth(toMonth(draw.date_requested), thisMonth) : thisMonth;
+    spend(month, Number(draw.amount), !!draw.loan_id);
+  });
+
+  const paid = draws.filter((draw) => draw.status === 'paid').reduce((sum, draw) => sum + Number(draw.amount), 0);
+  const scheduledTotal = scheduled.reduce((sum, draw) => sum + Number(draw.amount), 0);
+  const remaining = Math.max(primary.rehabWithContingency - Math.max(paid, analysis.actualTotal) - scheduledTotal, 0);
+
+  if (remaining > 0 && project.status !== 'listed') {
+    const rehabStart = laterMonth(
+      project.rehab_start_date ? toMonth(project.rehab_start_date) : closeMonth,
+      thisMonth
+    );
+    const rehabEnd = laterMonth(
+      project.target_complete_date ? toMonth(project.target_complete_date) : shiftMonth(rehabStart, 2),
+      rehabStart
+    );
+    const rehabMonths: string[] = [];
+    for (let month = rehabStart; month <= rehabEnd; month = shiftMonth(month, 1)) rehabMonths.push(month);
+    rehabMonths.forEach((month) => spend(month, remaining / rehabMonths.length, financing !== null));
+  }
+
+  // Holding and interest through the sale month
+  const holdMonths = primary.holdMonths || 1;
+  const holdingMonthly = (primary.holdingCosts - primary.financingCosts) / holdMonths;
+  const interestMonthly = financing?.monthlyPayment ?? 0;
+  const holdFrom = laterMonth(closeMonth, thisMonth);
+  const holdTo = saleMonth < lastMonth ? saleMonth : lastMonth;
+  for (let month = holdFrom; month <= holdTo; month = shiftMonth(month, 1)) {
+    if (holdingMonthly > 0) add(month, 'holding', -holdingMonthly);
+    if (interestMonthly > 0) add(month, 'interest', -interestMonthly);
+  }
+
+  // Sale proceeds after selling costs and loan payoff
+  add(saleMonth, 'sale', primary.arv - primary.sellingCosts - (financing?.loanAmount ?? 0));
+
+  return {
+    projectId: project.id,
+    name: project.name,
+    saleMonth: saleMonth <= lastMonth ? saleMonth : null,
+    ...summarize(months, amounts),
+  };
+}
+
+/**
+ * Add up project cash flows month by month
+ */
+export function portfolioCashFlow(
+  projects: ProjectCashFlow[],
+  asOf: Date = new Date(),
+  count = DEFAULT_CASH_FLOW_MONTHS
+): PortfolioCashFlow {
+  const months = getCashFlowMonths(asOf, count);
+  const amounts = new Map<string, MonthAmounts>(months.map((month) => [month, { ...EMPTY_AMOUNTS }]));
+
+  projects.forEach((project) => {
+    project.months.forEach((row) => {
+      const total = amounts.get(row.month);
+      if (!total) return;
+      total.acquisition += row.acquisition;
+      total.rehab += row.rehab;
+      total.holding += row.holding;
+      total.interest += row.interest;
+      total.sale += row.sale;
+    });
+  });
+
+  return { ...summarize(months, amounts), projects };
+}
+
+// ============================================================================
+// CSV EXPORT
+// ============================================================================
+
+export const CASH_FLOW_CSV_COLUMNS = [
+  'Month',
+  'Project',
+  'Acquisition',
+  'Rehab',
+  'Holding',
+  'Interest',
+  'Sale Proceeds',
+  'Net',
+  'Cumulative',
+] as const;
+
+function toCsvRows(name: string, months: CashFlowMonth[]): (string | number)[][] {
+  return months.map((row) => [
+    row.month,
+    name,
+    ...[row.acquisition, row.rehab, row.holding, row.interest, row.sale, row.net, row.cumulative].map((value) =>
+      value.toFixed(2)
+    ),
+  ]);
+}
+
+/**
+ * CSV of the portfolio total followed by each project, one row per month
+ */
+export function buildCashFlowCsv(cashFlow: PortfolioCashFlow): string {
+  const rows = [
+    ...toCsvRows('Portfolio', cashFlow.months),
+    ...cashFlow.projects.flatMap((project) => toCsvRows(project.name, project.months)),
+  ];
+
+  return toCsv([CASH_FLOW_CSV_COLUMNS, ...rows]);
+}
+
+/**
+ * Download name for the cash flow CSV
+ */
+export function getCashFlowCsvFilename(cashFlow: PortfolioCashFlow): string {
+  return `cash-flow_${cashFlow.months[0]?.month ?? 'projection'}.csv`;
+}
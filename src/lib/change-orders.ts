@@ -0,0 +1,206 @@
+import { getBudgetedAmount } from '@/lib/draw-packet';
+import {
+  BUDGET_CATEGORIES,
+  CHANGE_ORDER_REASON_LABELS,
+  type BudgetItem,
+  type ChangeOrderItem,
+  type ChangeOrderReason,
+  type ChangeOrderWithItems,
+} from '@/types';
+
+// ============================================================================
+// CHANGE ORDERS
+// A change order lists budget lines with a signed delta each. Approving it
+// adds the deltas to the lines' budgeted amounts (see apply_change_order()),
+// so the forecast's drift from underwriting splits into approved change
+// orders by reason and everything else (bid awards, re-estimates).
+// ============================================================================
+
+export interface ChangeOrderInput {
+  title: string;
+  lines: Pick<ChangeOrderItem, 'budget_item_id' | 'delta'>[];
+}
+
+export interface ChangeOrderLine {
+  budgetItemId: string;
+  item: string;
+  categoryLabel: string;
+  /** Budgeted amount before the change order */
+  before: number;
+  delta: number;
+  after: number;
+  notes: string | null;
+}
+
+export interface ChangeOrderVarianceLine {
+  budgetItem: BudgetItem;
+  underwriting: number;
+  /** Sum of approved change order deltas on the line */
+  changeOrders: number;
+  /** Forecast movement not explained by change orders */
+  otherRevisions: number;
+  budgeted: number;
+}
+
+export interface ChangeOrderVariance {
+  /** Budget lines touched by an approved change order */
+  lines: ChangeOrderVarianceLine[];
+  underwritingTotal: number;
+  budgetedTotal: number;
+  approvedTotal: number;
+  approvedByReason: Record<ChangeOrderReason, number>;
+  /** Submitted and awaiting a decision */
+  pendingTotal: number;
+  otherRevisions: number;
+}
+
+export function formatChangeOrderNumber(number: number): string {
+  return `CO #${number}`;
+}
+
+/**
+ * Net change to the budget, positive when the change order adds cost.
+ */
+export function getChangeOrderTotal(changeOrder: Pick<ChangeOrderWithItems, 'change_order_items'>): number {
+  return changeOrder.change_order_items.reduce((sum, line) => sum + (Number(line.delta) || 0), 0);
+}
+
+/**
+ * Deltas to save for a change order: blank and zero lines are left out.
+ */
+export function toChangeOrderLineEntries(
+  deltas: Record<string, number | null | undefined>
+): Pick<ChangeOrderItem, 'budget_item_id' | 'delta'>[] {
+  return Object.entries(deltas)
+    .filter((entry): entry is [string, number] => typeof entry[1] === 'number' && Number.isFinite(entry[1]))
+    .filter(([, delta]) => delta !== 0)
+    .map(([budget_item_id, delta]) => ({ budget_item_id, delta }));
+}
+
+/**
+ * Returns an error message for a change order that can't be saved, or null.
+ */
+export function validateChangeOrderInput(input: ChangeOrderInput): string | null {
+  if (!input.title.trim()) return 'Describe the change';
+  if (input.lines.length === 0) return 'Change at least one budget line';
+  return null;
+}
+
+/**
+ * Lines whose delta would take the budgeted amount below zero, by budget
+ * item id. Approval is refused for these.
+ */
+export function getNegativeChangeOrderLines(
+  lines: Pick<ChangeOrderItem, 'budget_item_id' | 'delta'>[],
+  budgetItems: BudgetItem[]
+): string[] {
+  const byId = new Map(budgetItems.map((item) => [item.id, item]));
+  return lines
+    .filter((line) => {
+      const item = byId.get(line.budget_item_id);
+      return item ? getBudgetedAmount(item) + Number(line.delta) < 0 : false;
+    })
+    .map((line) => line.budget_item_id);
+}
+
+/**
+ * A change order's lines with the budget before and after it, in
+ * BUDGET_CATEGORIES order. An approved change order is already in the
+ * budget, so its "before" backs the delta out. Lines deleted from the budget
+ * since are dropped.
+ */
+export function buildChangeOrderLines(
+  changeOrder: Pick<ChangeOrderWithItems, 'status' | 'change_order_items'>,
+  budgetItems: BudgetItem[]
+): ChangeOrderLine[] {
+  const byId = new Map(budgetItems.map((item) => [item.id, item]));
+  const categoryOrder = new Map(BUDGET_CATEGORIES.map((cat, index) => [cat.value, index]));
+  const applied = changeOrder.status === 'approved';
+
+  return changeOrder.change_order_items
+    .filter((line) => byId.has(line.budget_item_id))
+    .map((line) => ({ line, item: byId.get(line.budget_item_id)! }))
+    .sort(
+      (a, b) =>
+        (categoryOrder.get(a.item.category) ?? 0) - (categoryOrder.get(b.item.category) ?? 0) ||
+        (a.item.sort_order || 0) - (b.item.sort_order || 0)
+    )
+    .map(({ line, item }) => {
+      const delta = Number(line.delta) || 0;
+      const before = applied ? getBudgetedAmount(item) - delta : getBudgetedAmount(item);
+      return {
+        budgetItemId: item.id,
+        item: item.item,
+        categoryLabel: BUDGET_CATEGORIES.find((cat) => cat.value === item.category)?.label ?? item.category,
+        before,
+        delta,
+        after: before + delta,
+        notes: line.notes,
+      };
+    });
+}
+
+/**
+ * Split the forecast's movement from underwriting into approved change
+ * orders (by reason) and other revisions. Lines deleted from the budget
+ * since approval are left out, like the rest of the budget totals.
+ */
+export function buildChangeOrderVariance(
+  budgetItems: BudgetItem[],
+  changeOrders: ChangeOrderWithItems[]
+): ChangeOrderVariance {
+  const itemIds = new Set(budgetItems.map((item) => item.id));
+  const approvedByItem = new Map<string, number>();
+  const approvedByReason = Object.fromEntries(
+    Object.keys(CHANGE_ORDER_REASON_LABELS).map((reason) => [reason, 0])
+  ) as Record<ChangeOrderReason, number>;
+  let pendingTotal = 0;
+
+  for (const changeOrder of changeOrders) {
+    const lines = changeOrder.change_order_items.filter((line) => itemIds.has(line.budget_item_id));
+    const total = lines.reduce((sum, line) => sum + (Number(line.delta) || 0), 0);
+
+    if (changeOrder.status === 'submitted') {
+      pendingTotal += total;
+    } else if (changeOrder.status === 'approved') {
+      approvedByReason[changeOrder.reason_code] += total;
+      lines.forEach((line) => {
+        approvedByItem.set(line.budget_item_id, (approvedByItem.get(line.budget_item_id) ?? 0) + Number(line.delta));
+      });
+    }
+  }
+
+  const underwritingTotal = budgetItems.reduce((sum, item) => sum + (Number(item.underwriting_amount) || 0), 0);
+  const budgetedTotal = budgetItems.reduce((sum, item) => sum + getBudgetedAmount(item), 0);
+  const approvedTotal = Object.values(approvedByReason).reduce((sum, amount) => sum + amount, 0);
+
+  const lines = budgetItems
+    .filter((item) => approvedByItem.has(item.id))
+    .map((item) => {
+      const underwriting = Number(item.underwriting_amount) || 0;
+      const budgeted = getBudgetedAmount(item);
+      const changeOrderTotal = approvedByItem.get(item.id) ?? 0;
+      return {
+        budgetItem: item,
+        underwriting,
+        changeOrders: changeOrderTotal,
+        otherRevisions: budgeted - underwriting - changeOrderTotal,
+        budgeted,
+      };
+    });
+
+  return {
+    lines,
+    underwritingTotal,
+    budgetedTotal,
+    approvedTotal,
+    approvedByReason,
+    pendingTotal,
+    otherRevisions: budgetedTotal - underwritingTotal - approvedTotal,
+  };
+}
+
+export function getChangeOrderFilename(projectName: string, number: number): string {
+  const safe = projectName.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'Project';
+  return `${safe}_Change_Order_${number}.pdf`;
+}
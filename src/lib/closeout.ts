@@ -0,0 +1,297 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { calculateROI, type ProjectDealAnalysis } from '@/lib/deal-analysis';
+import type { CalculationSettingsInput, Project, ProjectCloseout } from '@/types';
+
+// ============================================================================
+// PROJECT CLOSEOUT
+// Realized P&L from the sale settlement statement, judged against the
+// underwriting projection.
+//
+// - Net proceeds: sale price less commissions, seller concessions and
+//   title/transfer fees
+// - Payoff interest: loan payoff less the principal it repays
+// - Total investment: purchase, closing costs, rehab, holding costs paid,
+//   points and fees, and payoff interest (selling costs are left out, as in
+//   analyzeDeal())
+// - Realized profit: net proceeds less total investment
+// - Realized ROI: the project's ROI method over the actual hold; loan
+//   principal is left out of cash invested
+//
+// Locking stores the results and projection on the closeout so the dashboard
+// and post-mortem report no longer move with the budget or settings.
+// ============================================================================
+
+const DAYS_PER_MONTH = 365 / 12;
+
+/** The closeout columns entered from the settlement statement */
+export type CloseoutFields = Pick<
+  ProjectCloseout,
+  | 'sale_date'
+  | 'sale_price'
+  | 'commissions'
+  | 'seller_concessions'
+  | 'title_transfer_fees'
+  | 'loan_payoff'
+  | 'purchase_price'
+  | 'closing_costs'
+  | 'rehab_cost'
+  | 'holding_costs_paid'
+  | 'financing_fees'
+  | 'loan_principal'
+  | 'notes'
+>;
+
+/** The locked columns written when a closeout is locked */
+export type CloseoutResults = Pick<
+  ProjectCloseout,
+  | 'realized_profit'
+  | 'realized_roi'
+  | 'actual_hold_days'
+  | 'projected_sale_price'
+  | 'projected_selling_costs'
+  | 'projected_acquisition_costs'
+  | 'projected_rehab_cost'
+  | 'projected_holding_costs'
+  | 'projected_profit'
+  | 'projected_roi'
+  | 'projected_hold_days'
+>;
+
+export interface CloseoutProjection {
+  salePrice: number;
+  sellingCosts: number;
+  acquisitionCosts: number;
+  rehabCost: number;
+  holdingCosts: number;
+  profit: number;
+  roi: number;
+  holdDays: number;
+}
+
+export interface RealizedPnl extends CloseoutProjection {
+  netProceeds: number;
+  /** Interest and fees in the loan payoff */
+  payoffInterest: number;
+  totalInvestment: number;
+  cashInvested: number;
+  /** Cash to the seller at settlement, after the payoff */
+  cashReturned: number;
+}
+
+export interface CloseoutVarianceLine {
+  label: string;
+  projected: number;
+  actual: number;
+  /** Actual less projected */
+  variance: number;
+  /** Whether the variance helped profit */
+  favorable: boolean;
+}
+
+function sellingCosts(fields: CloseoutFields): number {
+  return fields.commissions + fields.seller_concessions + fields.title_transfer_fees;
+}
+
+/**
+ * Days from closing to the sale, or null without a close date
+ */
+export function getActualHoldDays(saleDate: string, closeDate: string | null): number | null {
+  if (!closeDate) return null;
+  return Math.max(differenceInCalendarDays(parseISO(saleDate), parseISO(closeDate)), 0);
+}
+
+/**
+ * The underwriting numbers a closeout is judged against
+ */
+export function getCloseoutProjection(
+  project: Pick<Project, 'hold_months'>,
+  analysis: Pick<ProjectDealAnalysis, 'underwriting'>
+): CloseoutProjection {
+  const { underwriting } = analysis;
+
+  return {
+    salePrice: underwriting.arv,
+    sellingCosts: underwriting.sellingCosts,
+    acquisitionCosts: underwriting.purchasePrice + underwriting.closingCosts,
+    rehabCost: underwriting.rehabWithContingency,
+    holdingCosts: underwriting.holdingCosts,
+    profit: underwriting.grossProfit,
+    roi: underwriting.roi,
+    holdDays: Math.round((project.hold_months || 4) * DAYS_PER_MONTH),
+  };
+}
+
+type SettlementPnl = Omit<RealizedPnl, 'roi' | 'holdDays'>;
+
+function summarizeSettlement(fields: CloseoutFields): SettlementPnl {
+  const selling = sellingCosts(fields);
+  const netProceeds = fields.sale_price - selling;
+  const payoffInterest = fields.loan_payoff - fields.loan_principal;
+  const acquisitionCosts = fields.purchase_price + fields.closing_costs;
+  const holdingCosts = fields.holding_costs_paid + fields.financing_fees + payoffInterest;
+  const totalInvestment = acquisitionCosts + fields.rehab_cost + holdingCosts;
+
+  return {
+    salePrice: fields.sale_price,
+    sellingCosts: selling,
+    netProceeds,
+    acquisitionCosts,
+    rehabCost: fields.rehab_cost,
+    holdingCosts,
+    payoffInterest,
+    totalInvestment,
+    cashInvested: Math.max(totalInvestment - fields.loan_principal, 0),
+    cashReturned: netProceeds - fields.loan_payoff,
+    profit: netProceeds - totalInvestment,
+  };
+}
+
+/**
+ * Realized profit, ROI and hold from the settlement statement. Without a
+ * close date the hold falls back to the projected hold months.
+ */
+export function calculateRealizedPnl(
+  fields: CloseoutFields,
+  project: Pick<Project, 'close_date' | 'hold_months'>,
+  settings: CalculationSettingsInput
+): RealizedPnl {
+  const settlement = summarizeSettlement(fields);
+  const holdDays =
+    getActualHoldDays(fields.sale_date, project.close_date) ?? Math.round((project.hold_months || 4) * DAYS_PER_MONTH);
+
+  return {
+    ...settlement,
+    roi: calculateROI(
+      settlement.profit,
+      settlement.totalInvestment,
+      holdDays / DAYS_PER_MONTH,
+      settings,
+      settlement.cashInvested
+    ),
+    holdDays,
+  };
+}
+
+/**
+ * Line-by-line realized against projected, in dollars
+ */
+export function buildCloseoutVariance(realized: RealizedPnl, projection: CloseoutProjection): CloseoutVarianceLine[] {
+  const line = (label: string, projected: number, actual: number, income: boolean): CloseoutVarianceLine => ({
+    label,
+    projected,
+    actual,
+    variance: actual - projected,
+    favorable: income ? actual >= projected : actual <= projected,
+  });
+
+  return [
+    line('Sale Price', projection.salePrice, realized.salePrice, true),
+    line('Selling Costs', projection.sellingCosts, realized.sellingCosts, false),
+    line('Purchase & Closing', projection.acquisitionCosts, realized.acquisitionCosts, false),
+    line('Rehab', projection.rehabCost, realized.rehabCost, false),
+    line('Holding & Financing', projection.holdingCosts, realized.holdingCosts, false),
+    line('Profit', projection.profit, realized.profit, true),
+  ];
+}
+
+/**
+ * The columns to store when locking a closeout
+ */
+export function toCloseoutResults(realized: RealizedPnl, projection: CloseoutProjection): CloseoutResults {
+  return {
+    realized_profit: realized.profit,
+    realized_roi: realized.roi,
+    actual_hold_days: realized.holdDays,
+    projected_sale_price: projection.salePrice,
+    projected_selling_costs: projection.sellingCosts,
+    projected_acquisition_costs: projection.acquisitionCosts,
+    projected_rehab_cost: projection.rehabCost,
+    projected_holding_costs: projection.holdingCosts,
+    projected_profit: projection.profit,
+    projected_roi: projection.roi,
+    projected_hold_days: projection.holdDays,
+  };
+}
+
+/**
+ * Realized P&L and projection as stored on a locked closeout
+ */
+export function getLockedCloseout(
+  closeout: ProjectCloseout
+): { realized: RealizedPnl; projection: CloseoutProjection } | null {
+  if (!closeout.locked_at) return null;
+
+  return {
+    realized: {
+      ...summarizeSettlement(closeout),
+      roi: Number(closeout.realized_roi) || 0,
+      holdDays: Number(closeout.actual_hold_days) || 0,
+    },
+    projection: {
+      salePrice: Number(closeout.projected_sale_price) || 0,
+      sellingCosts: Number(closeout.projected_selling_costs) || 0,
+      acquisitionCosts: Number(closeout.projected_acquisition_costs) || 0,
+      rehabCost: Number(closeout.projected_rehab_cost) || 0,
+      holdingCosts: Number(closeout.projected_holding_costs) || 0,
+      profit: Number(closeout.projected_profit) || 0,
+      roi: Number(closeout.projected_roi) || 0,
+      holdDays: Number(closeout.projected_hold_days) || 0,
+    },
+  };
+}
+
+/**
+ * A new closeout's cost basis, prefilled from the project, its actual rehab
+ * spend and its loans
+ */
+export function getCloseoutDefaults(
+  project: Pick<Project, 'purchase_price' | 'closing_costs' | 'sale_date'>,
+  analysis: Pick<ProjectDealAnalysis, 'actualTotal' | 'financing'>,
+  today: Date = new Date()
+): CloseoutFields {
+  const { financing } = analysis;
+
+  return {
+    sale_date: project.sale_date ?? format(today, 'yyyy-MM-dd'),
+    sale_price: 0,
+    commissions: 0,
+    seller_concessions: 0,
+    title_transfer_fees: 0,
+    loan_payoff: 0,
+    purchase_price: project.purchase_price || 0,
+    closing_costs: project.closing_costs || 0,
+    rehab_cost: analysis.actualTotal,
+    holding_costs_paid: 0,
+    financing_fees: financing?.pointsAndFees ?? 0,
+    loan_principal: financing
+      ? financing.loans.reduce((sum, cost) => sum + Number(cost.loan.purchase_amount) + cost.drawnHoldback, 0)
+      : 0,
+    notes: null,
+  };
+}
+
+/**
+ * Validate a closeout before saving; returns an error message or null
+ */
+export function validateCloseoutInput(fields: CloseoutFields, closeDate: string | null): string | null {
+  if (!fields.sale_date) return 'Enter the settlement date';
+  if (closeDate && fields.sale_date < closeDate) return "The sale can't settle before the purchase closed";
+  if (!(fields.sale_price > 0)) return 'Enter the sale price';
+
+  const amounts = [
+    fields.commissions,
+    fields.seller_concessions,
+    fields.title_transfer_fees,
+    fields.loan_payoff,
+    fields.purchase_price,
+    fields.closing_costs,
+    fields.rehab_cost,
+    fields.holding_costs_paid,
+    fields.financing_fees,
+    fields.loan_principal,
+  ];
+  if (amounts.some((amount) => amount < 0)) return "Amounts can't be negative";
+  if (fields.loan_payoff < fields.loan_principal) return "The loan payoff can't be less than the principal it repays";
+
+  return null;
+}
@@ -0,0 +1,376 @@
+import type { CompCondition, Project, ProjectComp } from '@/types';
+
+// ============================================================================
+// COMPARABLE SALES
+// Each selected comp's sale price is adjusted to the subject property:
+//
+// - Size: (subject sqft - comp sqft) x the sqft rate (default half the
+//   selected comps' median $/sqft, since size doesn't scale price 1:1)
+// - Beds and baths: the difference x $ per bed / bath, when both are known
+// - Condition: the subject is valued renovated, so each step a comp sits
+//   below renovated adds the condition % of its price
+//
+// The comps-indicated ARV is the mean adjusted $/sqft times the subject's
+// sqft, and the range is one standard deviation of adjusted $/sqft either
+// side. The rates are stored per project (projects.comp_*_adjustment).
+// ============================================================================
+
+/** Worst to best; the subject is valued at the last */
+export const COMP_CONDITIONS: CompCondition[] = ['distressed', 'dated', 'average', 'updated', 'renovated'];
+
+export type CompFields = Omit<ProjectComp, 'id' | 'project_id' | 'created_at' | 'updated_at'>;
+
+export type CompSubject = Pick<Project, 'sqft' | 'beds' | 'baths'>;
+
+export interface CompAdjustments {
+  /** $ per sqft of size difference; null uses half the comps' median $/sqft */
+  sqftRate: number | null;
+  bedRate: number;
+  bathRate: number;
+  /** % of the comp's price per condition step below renovated */
+  conditionPercent: number;
+}
+
+export interface AdjustedComp {
+  comp: ProjectComp;
+  pricePerSqft: number;
+  sqftAdjustment: number;
+  bedAdjustment: number;
+  bathAdjustment: number;
+  conditionAdjustment: number;
+  adjustedPrice: number;
+  /** Adjusted price over the subject's sqft */
+  adjustedPerSqft: number;
+}
+
+export type CompsConfidence = 'high' | 'medium' | 'low';
+
+export interface CompsValuation {
+  comps: AdjustedComp[];
+  /** Sqft rate used, after the default */
+  sqftRate: number;
+  perSqft: number;
+  arv: number;
+  low: number;
+  high: number;
+  /** Standard deviation of adjusted $/sqft over the mean (0-1) */
+  spread: number;
+  confidence: CompsConfidence;
+}
+
+export const COMPS_CONFIDENCE_LABELS: Record<CompsConfidence, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+/** Fewer selected comps than this is low confidence whatever the spread */
+const MIN_CONFIDENT_COMPS = 3;
+
+const roundToThousand = (value: number) => Math.round(value / 1000) * 1000;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * The project's adjustment rates
+ */
+export function getCompAdjustments(
+  project: Pick<
+    Project,
+    'comp_sqft_adjustment' | 'comp_bed_adjustment' | 'comp_bath_adjustment' | 'comp_condition_adjustment'
+  >
+): CompAdjustments {
+  return {
+    sqftRate: project.comp_sqft_adjustment == null ? null : Number(project.comp_sqft_adjustment),
+    bedRate: Number(project.comp_bed_adjustment ?? 0),
+    bathRate: Number(project.comp_bath_adjustment ?? 0),
+    conditionPercent: Number(project.comp_condition_adjustment ?? 0),
+  };
+}
+
+/**
+ * Adjust the selected comps to the subject and value it from them. Null
+ * without the subject's sqft or any selected comps.
+ */
+export function valueFromComps(
+  subject: CompSubject,
+  comps: ProjectComp[],
+  adjustments: CompAdjustments
+): CompsValuation | null {
+  const subjectSqft = subject.sqft ?? 0;
+  // NUMERIC columns can arrive as strings
+  const selected = comps
+    .map((comp) => ({
+      ...comp,
+      sale_price: Number(comp.sale_price),
+      baths: comp.baths == null ? null : Number(comp.baths),
+      distance_miles: comp.distance_miles == null ? null : Number(comp.distance_miles),
+    }))
+    .filter((comp) => comp.is_selected && comp.sqft > 0 && comp.sale_price > 0);
+  if (subjectSqft <= 0 || selected.length === 0) return null;
+
+  const sqftRate = adjustments.sqftRate ?? median(selected.map((comp) => comp.sale_price / comp.sqft)) / 2;
+  const renovated = COMP_CONDITIONS.length - 1;
+
+  const adjusted = selected.map((comp): AdjustedComp => {
+    const sqftAdjustment = (subjectSqft - comp.sqft) * sqftRate;
+    const bedAdjustment =
+      subject.beds != null && comp.beds != null ? (subject.beds - comp.beds) * adjustments.bedRate : 0;
+    const bathAdjustment =
+      subject.baths != null && comp.baths != null ? (subject.baths - comp.baths) * adjustments.bathRate : 0;
+    const conditionAdjustment =
+      comp.sale_price * (adjustments.conditionPercent / 100) * (renovated - COMP_CONDITIONS.indexOf(comp.condition));
+    const adjustedPrice = comp.sale_price + sqftAdjustment + bedAdjustment + bathAdjustment + conditionAdjustment;
+
+    return {
+      comp,
+      pricePerSqft: comp.sale_price / comp.sqft,
+      sqftAdjustment,
+      bedAdjustment,
+      bathAdjustment,
+      conditionAdjustment,
+      adjustedPrice,
+      adjustedPerSqft: adjustedPrice / subjectSqft,
+    };
+  });
+
+  const values = adjusted.map((comp) => comp.adjustedPerSqft);
+  const perSqft = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const deviation =
+    values.length > 1
+      ? Math.sqrt(values.reduce((sum, value) => sum + (value - perSqft) ** 2, 0) / (values.length - 1))
+      : 0;
+  const spread = perSqft > 0 ? deviation / perSqft : 0;
+
+  return {
+    comps: adjusted,
+    sqftRate,
+    perSqft,
+    arv: roundToThousand(perSqft * subjectSqft),
+    low: roundToThousand((perSqft - deviation) * subjectSqft),
+    high: roundToThousand((perSqft + deviation) * subjectSqft),
+    spread,
+    confidence:
+      adjusted.length < MIN_CONFIDENT_COMPS ? 'low' : spread <= 0.05 ? 'high' : spread <= 0.1 ? 'medium' : 'low',
+  };
+}
+
+/**
+ * Check a comp before saving; returns an error message or null
+ */
+export function validateCompInput(input: CompFields): string | null {
+  if (!input.address.trim()) return 'Enter the address';
+  if (!(input.sale_price > 0)) return 'Enter the sale price';
+  if (!(input.sqft > 0)) return 'Enter the square footage';
+  if ((input.beds ?? 0) < 0 || (input.baths ?? 0) < 0 || (input.distance_miles ?? 0) < 0) {
+    return "Beds, baths and distance can't be negative";
+  }
+  return null;
+}
+
+// ============================================================================
+// CSV IMPORT
+// MLS exports name their columns differently, so the column for each field
+// is guessed from the header row and confirmed by the user.
+// ============================================================================
+
+export type CompColumnField =
+  | 'address'
+  | 'sale_date'
+  | 'sale_price'
+  | 'sqft'
+  | 'beds'
+  | 'baths'
+  | 'distance_miles'
+  | 'condition';
+
+/** Column index (0-based) for each mapped field */
+export type CompColumnMapping = Partial<Record<CompColumnField, number>>;
+
+export const COMP_COLUMN_FIELDS: Array<{ field: CompColumnField; label: string; required?: boolean }> = [
+  { field: 'address', label: 'Address', required: true },
+  { field: 'sale_price', label: 'Sale Price', required: true },
+  { field: 'sqft', label: 'Sq Ft', required: true },
+  { field: 'sale_date', label: 'Sale Date' },
+  { field: 'beds', label: 'Beds' },
+  { field: 'baths', label: 'Baths' },
+  { field: 'distance_miles', label: 'Distance' },
+  { field: 'condition', label: 'Condition' },
+];
+
+// Header text that identifies each field, most specific first
+const HEADER_ALIASES: Record<CompColumnField, string[]> = {
+  address: ['address', 'full address', 'street address', 'property address', 'address line'],
+  sale_price: ['sold price', 'sale price', 'close price', 'closed price', 'sp', 'price'],
+  sqft: ['sqft', 'sq ft', 'square feet', 'living area', 'total finished sqft', 'finished sqft', 'gla', 'sf'],
+  sale_date: ['sold date', 'sale date', 'close date', 'closed date', 'closing date', 'date'],
+  beds: ['beds', 'bedrooms', 'total bedrooms', 'br', 'bd'],
+  baths: ['baths', 'bathrooms', 'total baths', 'total bathrooms', 'ba'],
+  distance_miles: ['distance', 'distance (mi)', 'miles', 'proximity'],
+  condition: ['condition', 'property condition'],
+};
+
+// Keywords in free-text condition, checked in order against the start of
+// each word so 'dated' doesn't match "updated"
+const CONDITION_KEYWORDS: Array<[string, CompCondition]> = [
+  ['distress', 'distressed'],
+  ['fixer', 'distressed'],
+  ['poor', 'distressed'],
+  ['as-is', 'distressed'],
+  ['as is', 'distressed'],
+  ['dated', 'dated'],
+  ['fair', 'dated'],
+  ['original', 'dated'],
+  ['average', 'average'],
+  ['good', 'average'],
+  ['updated', 'updated'],
+  ['remodel', 'renovated'],
+  ['renovat', 'renovated'],
+  ['rehab', 'renovated'],
+  ['excellent', 'renovated'],
+  ['new', 'renovated'],
+];
+
+const normalize = (value: string | null | undefined) => (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas,
+ * doubled quotes and line breaks; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) rows.push(row.map((value) => value.trim()));
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Guess which column holds each field from the header row
+ */
+export function guessCompColumnMapping(header: string[]): CompColumnMapping {
+  const mapping: CompColumnMapping = {};
+
+  (Object.keys(HEADER_ALIASES) as CompColumnField[]).forEach((field) => {
+    for (const alias of HEADER_ALIASES[field]) {
+      const index = header.findIndex(
+        (value, i) => normalize(value) === alias && !Object.values(mapping).includes(i)
+      );
+      if (index >= 0) {
+        mapping[field] = index;
+        return;
+      }
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * First number in a cell, ignoring `$`, thousands separators and units
+ */
+export function parseCompNumber(value: string | undefined): number | null {
+  const match = (value ?? '').replace(/,/g, '').match(/-?\d*\.?\d+/);
+  return match ? Number(match[0]) : null;
+}
+
+/**
+ * A sale date as YYYY-MM-DD, from ISO or US (M/D/YY or M/D/YYYY) format
+ */
+export function parseCompDate(value: string | undefined): string | null {
+  const text = (value ?? '').trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : us
+      ? [Number(us[3].length === 2 ? `20${us[3]}` : us[3]), Number(us[1]), Number(us[2])]
+      : [0, 0, 0];
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Map free-text condition to a CompCondition; unrecognized text is average
+ */
+export function parseCompCondition(value: string | undefined): CompCondition {
+  const text = normalize(value);
+  const exact = COMP_CONDITIONS.find((condition) => condition === text);
+  const words = ` ${text.replace(/[^a-z-]+/g, ' ')}`;
+  return exact ?? CONDITION_KEYWORDS.find(([keyword]) => words.includes(` ${keyword}`))?.[1] ?? 'average';
+}
+
+export interface CompImportRow {
+  /** 1-based row number in the file, for the preview */
+  rowNumber: number;
+  fields: CompFields;
+  /** Why the row can't be imported, if it can't */
+  error: string | null;
+}
+
+/**
+ * Turn the rows below the header into comps, each checked with
+ * validateCompInput()
+ */
+export function parseCompRows(rows: string[][], mapping: CompColumnMapping): CompImportRow[] {
+  const read = (row: string[], field: CompColumnField) =>
+    mapping[field] === undefined ? undefined : row[mapping[field]!];
+
+  return rows.slice(1).map((row, offset) => {
+    const fields: CompFields = {
+      address: (read(row, 'address') ?? '').trim(),
+      sale_date: parseCompDate(read(row, 'sale_date')),
+      sale_price: parseCompNumber(read(row, 'sale_price')) ?? 0,
+      sqft: Math.round(parseCompNumber(read(row, 'sqft')) ?? 0),
+      beds: parseCompNumber(read(row, 'beds')),
+      baths: parseCompNumber(read(row, 'baths')),
+      distance_miles: parseCompNumber(read(row, 'distance_miles')),
+      condition: parseCompCondition(read(row, 'condition')),
+      is_selected: true,
+      notes: null,
+    };
+    if (fields.beds != null) fields.beds = Math.round(fields.beds);
+
+    return { rowNumber: offset + 2, fields, error: validateCompInput(fields) };
+  });
+}
@@ -0,0 +1,29 @@
+// ============================================================================
+// CSV EXPORT
+// Field escaping shared by the CSV downloads. Text from the user (vendor and
+// project names, addresses) can start with a character a spreadsheet reads as
+// a formula, so those fields are prefixed with an apostrophe to keep them as
+// text. Plain numbers, including negatives, are written as they are.
+// ============================================================================
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * One CSV field: formula-like text neutralized, then quoted when it holds a
+ * quote, comma or line break.
+ */
+export function toCsvField(value: string | number): string {
+  let text = String(value);
+  if (FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows joined into a CSV document with CRLF line endings.
+ */
+export function toCsv(rows: ReadonlyArray<ReadonlyArray<string | number>>): string {
+  return rows.map((row) => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
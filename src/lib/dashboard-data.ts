@@ -1,5 +1,16 @@
 import { createClient } from '@/lib/supabase/server';
-import type { BudgetCategory, ProjectStatus } from '@/types';
+import { resolveCalculationSettings } from '@/lib/calculation-settings';
+import { analyzeProject, type DealBudgetItem } from '@/lib/deal-analysis';
+import { calculateProjectFinancing, type LoanDraw } from '@/lib/financing';
+import {
+  CASH_FLOW_STATUSES,
+  portfolioCashFlow,
+  projectCashFlow,
+  type CashFlowDraw,
+  type PortfolioCashFlow,
+  type ProjectCashFlow,
+} from '@/lib/cash-flow';
+import type { BudgetCategory, CalculationSettings, ProjectCloseout, ProjectLoan, ProjectStatus } from '@/types';
 
 export interface DashboardData {
   projects: Array<{
@@ -20,6 +31,10 @@ export interface DashboardData {
     list_date?: string | null;
     sale_date?: string | null;
     rehab_progress: number;
+    /** From the locked closeout of a sold project */
+    sale_price: number | null;
+    realized_profit: number | null;
+    realized_hold_days: number | null;
   }>;
   totalARV: number;
   capitalDeployed: number;
@@ -38,6 +53,7 @@ export interface DashboardData {
     actual: number;
     projectCount: number;
   }[];
+  cashFlow: PortfolioCashFlow;
 }
 
 export async function getDashboardData(): Promise<DashboardData> {
@@ -56,14 +72,44 @@ export async function getDashboardData(): Promise<DashboardData> {
     .from('budget_items')
     .select('project_id, category, underwriting_amount, forecast_amount, actual_amount');
 
-  const projectBudgets = new Map<string, { budget: number; actual: number }>();
+  const { data: calculationProfiles } = await supabase
+    .from('calculation_settings')
+    .select('*');
+
+  // Loans for cost of capital; draws release their holdbacks and drive cash flow
+  const { data: loans } = await supabase
+    .from('project_loans')
+    .select('*');
+
+  const { data: draws } = await supabase
+    .from('draws')
+    .select('id, project_id, loan_id, amount, status, date_requested, date_paid');
+
+  // Locked closeouts replace projections for sold projects
+  const { data: closeouts } = await supabase
+    .from('project_closeouts')
+    .select('project_id, sale_price, realized_profit, realized_roi, actual_hold_days')
+    .not('locked_at', 'is', null);
+
+  const projectCloseouts = new Map(
+    ((closeouts || []) as Pick<
+      ProjectCloseout,
+      'project_id' | 'sale_price' | 'realized_profit' | 'realized_roi' | 'actual_hold_days'
+    >[]).map((closeout) => [closeout.project_id, closeout])
+  );
+
+  const projectDraws = new Map<string, (LoanDraw & CashFlowDraw)[]>();
+  draws?.forEach((draw) => {
+    const existing = projectDraws.get(draw.project_id) || [];
+    existing.push(draw as LoanDraw & CashFlowDraw);
+    projectDraws.set(draw.project_id, existing);
+  });
+
+  const projectBudgetItems = new Map<string, DealBudgetItem[]>();
   budgetTotals?.forEach((item) => {
-    const existing = projectBudgets.get(item.project_id) || { budget: 0, actual: 0 };
-    const budget = item.forecast_amount > 0 ? item.forecast_amount : item.underwriting_amount;
-    projectBudgets.set(item.project_id, {
-      budget: existing.budget + budget,
-      actual: existing.actual + (item.actual_amount || 0),
-    });
+    const existing = projectBudgetItems.get(item.project_id) || [];
+    existing.push(item as DealBudgetItem);
+    projectBudgetItems.set(item.project_id, existing);
   });
 
   const categorySpendMap = new Map<BudgetCategory, { budget: number; actual: number; projects: Set<string> }>();
@@ -84,12 +130,25 @@ export async function getDashboardData(): Promise<DashboardData> {
     projectCount: data.projects.size,
   }));
 
+  const projectCashFlows: ProjectCashFlow[] = [];
+
   const dashboardProjects = (projects || []).map((project) => {
-    const budgets = projectBudgets.get(project.id) || { budget: 0, actual: 0 };
-    const totalInvestment = (project.purchase_price || 0) + budgets.budget;
-    const grossProfit = (project.arv || 0) - totalInvestment;
-    const roi = totalInvestment > 0 ? (grossProfit / totalInvestment) * 100 : 0;
-    const mao = (project.arv || 0) * 0.7 - budgets.budget;
+    const settings = resolveCalculationSettings(
+      (calculationProfiles || []) as CalculationSettings[],
+      project.calculation_settings_id,
+      project.user_id
+    );
+    const financing = calculateProjectFinancing(
+      project,
+      ((loans || []) as ProjectLoan[]).filter((loan) => loan.project_id === project.id),
+      projectDraws.get(project.id) || []
+    );
+    const analysis = analyzeProject(project, projectBudgetItems.get(project.id) || [], settings, financing);
+    if (CASH_FLOW_STATUSES.includes(project.status as ProjectStatus)) {
+      projectCashFlows.push(projectCashFlow(project, analysis, projectDraws.get(project.id) || []));
+    }
+    const budgets = { budget: analysis.primary.rehabBudget, actual: analysis.actualTotal };
+    const closeout = project.status === 'sold' ? projectCloseouts.get(project.id) : undefined;
 
     return {
       id: project.id,
@@ -100,8 +159,8 @@ export async function getDashboardData(): Promise<DashboardData> {
       arv: project.arv || 0,
       purchase_price: project.purchase_price || 0,
       sqft: project.sqft,
-      mao,
-      roi,
+      mao: analysis.mao,
+      roi: closeout ? Number(closeout.realized_roi) : analysis.primary.roi,
       rehab_budget: budgets.budget,
       rehab_actual: budgets.actual,
       close_date: project.close_date,
@@ -110,6 +169,9 @@ export async function getDashboardData(): Promise<DashboardData> {
       sale_date: project.sale_date,
       rehab_progress:
         budgets.budget > 0 ? Math.min(100, Math.round((budgets.actual / budgets.budget) * 100)) : 0,
+      sale_price: closeout ? Number(closeout.sale_price) : null,
+      realized_profit: closeout ? Number(closeout.realized_profit) : null,
+      realized_hold_days: closeout?.actual_hold_days ?? null,
     };
   });
 
@@ -144,5 +206,6 @@ export async function getDashboardData(): Promise<DashboardData> {
     averageROI,
     projectCounts,
     categorySpends,
+    cashFlow: portfolioCashFlow(projectCashFlows),
   };
 }
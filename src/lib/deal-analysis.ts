@@ -0,0 +1,550 @@
+import type {
+  BudgetCategory,
+  BudgetItem,
+  CalculationSettingsInput,
+  ContingencyCategoryRates,
+  ContingencyTier,
+  HoldingCostItems,
+  Project,
+  ProjectSummary,
+} from '@/types';
+import type { ProjectFinancing } from '@/lib/financing';
+
+// ============================================================================
+// DEAL ANALYSIS ENGINE
+//
+// Every MAO / ROI / profit number in the app comes from analyzeDeal(). The
+// deal tab, DealCalculator, dashboard, settings preview and PDF reports call
+// it directly; the project_summary view mirrors it in SQL (analyze_deal() in
+// supabase/migrations/20260109000000_unify_deal_analysis.sql). Keep the two
+// in sync - src/__tests__/calculations/deal-analysis.test.ts pins the outputs.
+// ============================================================================
+
+export interface DealAnalysisInputs {
+  arv: number;
+  purchasePrice: number;
+  /** Rehab budget before contingency */
+  rehabBudget: number;
+  closingCosts: number;
+  holdMonths: number;
+  /** Per-category rehab budget, used by category-weighted contingency */
+  categoryBudgets?: Partial<Record<BudgetCategory, number>>;
+  /**
+   * Project-level assumptions. When set they replace the profile's flat
+   * values: contingency % for flat/scope-based contingency, the monthly base
+   * for flat/hybrid holding costs and the % of ARV for selling costs.
+   */
+  contingencyPercent?: number | null;
+  holdingCostsMonthly?: number | null;
+  sellingCostPercent?: number | null;
+  /**
+   * Points, fees and interest on the project's loans (see financing.ts).
+   * When set they replace the profile's assumed loan interest: the itemized
+   * loan_interest line and the percentage_of_loan method.
+   */
+  financingCosts?: number | null;
+  /** Interest part of financingCosts, which grows with the hold (points and fees don't) */
+  financingInterest?: number | null;
+  /** Loan principal, left out of cash invested */
+  loanAmount?: number | null;
+  /** Cash out of pocket for cash-on-cash ROI (defaults to total investment less loans) */
+  cashInvested?: number | null;
+  /** Set to false for actual spend, which already absorbs contingency */
+  includeContingency?: boolean;
+}
+
+export interface DealAnalysis {
+  arv: number;
+  purchasePrice: number;
+  closingCosts: number;
+  holdMonths: number;
+
+  rehabBudget: number;
+  contingency: number;
+  /** Effective contingency rate on the rehab budget */
+  contingencyPercent: number;
+  rehabWithContingency: number;
+
+  /** Includes financingCosts */
+  holdingCosts: number;
+  holdingCostsMonthly: number;
+  /** Cost of the project's loans (0 without loans) */
+  financingCosts: number;
+  sellingCosts: number;
+  /** Percent-of-ARV portion of selling costs (fixed amount excluded) */
+  sellingCostPercent: number;
+
+  /** Capital in the deal: purchase + rehab + contingency + closing + holding */
+  totalInvestment: number;
+  cashInvested: number;
+  /** Total investment plus selling costs */
+  totalCosts: number;
+  /** ARV - selling costs - total investment */
+  grossProfit: number;
+  roi: number;
+
+  /** Costs subtracted from the ARV factor when computing MAO */
+  maoCosts: number;
+  mao: number;
+  /** MAO - purchase price (positive means the deal is under MAO) */
+  spread: number;
+}
+
+/**
+ * Run the full deal analysis for a set of inputs and a calculation profile.
+ */
+export function analyzeDeal(
+  inputs: DealAnalysisInputs,
+  settings: CalculationSettingsInput
+): DealAnalysis {
+  const { arv, purchasePrice, rehabBudget, closingCosts, holdMonths } = inputs;
+
+  const contingency = inputs.includeContingency === false
+    ? 0
+    : calculateContingency(rehabBudget, settings, inputs.categoryBudgets, inputs.contingencyPercent);
+  const rehabWithContingency = rehabBudget + contingency;
+
+  const hasFinancing = inputs.financingCosts != null;
+  const financingCosts = inputs.financingCosts ?? 0;
+  const holdingCosts = calculateHoldingCosts(
+    purchasePrice,
+    holdMonths,
+    settings,
+    inputs.holdingCostsMonthly,
+    hasFinancing
+  ) + financingCosts;
+  const sellingCostPercent = inputs.sellingCostPercent ?? getSellingCostPercent(settings);
+  const sellingCosts = calculateSellingCosts(arv, settings, inputs.sellingCostPercent);
+
+  const totalInvestment = purchasePrice + rehabWithContingency + closingCosts + holdingCosts;
+  const cashInvested =
+    inputs.cashInvested ?? (inputs.loanAmount != null ? Math.max(totalInvestment - inputs.loanAmount, 0) : totalInvestment);
+  const totalCosts = totalInvestment + sellingCosts;
+  const grossProfit = arv - totalCosts;
+  const roi = calculateROI(grossProfit, totalInvestment, holdMonths, settings, cashInvested);
+
+  let maoCosts = rehabWithContingency;
+  if (settings.mao_include_holding_costs) maoCosts += holdingCosts;
+  if (settings.mao_include_selling_costs) maoCosts += sellingCosts;
+  if (settings.mao_include_closing_costs) maoCosts += closingCosts;
+  const mao = calculateMAO(arv, maoCosts, settings);
+
+  return {
+    arv,
+    purchasePrice,
+    closingCosts,
+    holdMonths,
+    rehabBudget,
+    contingency,
+    contingencyPercent: rehabBudget > 0 ? (contingency / rehabBudget) * 100 : 0,
+    rehabWithContingency,
+    holdingCosts,
+    holdingCostsMonthly: holdMonths > 0 ? holdingCosts / holdMonths : 0,
+    financingCosts,
+    sellingCosts,
+    sellingCostPercent,
+    totalInvestment,
+    cashInvested,
+    totalCosts,
+    grossProfit,
+    roi,
+    maoCosts,
+    mao,
+    spread: mao - purchasePrice,
+  };
+}
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+/**
+ * MAO from the ARV and the costs the profile includes
+ */
+export function calculateMAO(
+  arv: number,
+  maoCosts: number,
+  settings: CalculationSettingsInput
+): number {
+  switch (settings.mao_method) {
+    case 'seventy_rule':
+    case 'custom_percentage':
+      return arv * settings.mao_arv_multiplier - maoCosts;
+
+    case 'arv_minus_all':
+    case 'net_profit_target':
+      return arv - maoCosts - settings.mao_target_profit;
+
+    case 'gross_margin':
+      return arv * (1 - settings.mao_target_profit_percent / 100) - maoCosts;
+
+    default:
+      return arv * 0.70 - maoCosts;
+  }
+}
+
+/**
+ * ROI as a percentage
+ *
+ * - simple: profit / total investment
+ * - cash_on_cash: profit / cash invested
+ * - annualized: simple × 12 / hold months
+ * - irr_simplified: simple compounded to a yearly rate
+ *
+ * `roi_annualize` annualizes the simple and cash-on-cash methods. The
+ * opportunity cost is subtracted for the same period the ROI covers.
+ */
+export function calculateROI(
+  grossProfit: number,
+  totalInvestment: number,
+  holdMonths: number,
+  settings: CalculationSettingsInput,
+  cashInvested: number = totalInvestment
+): number {
+  const basis = settings.roi_method === 'cash_on_cash' ? cashInvested : totalInvestment;
+  if (basis <= 0) return 0;
+
+  const periodReturn = grossProfit / basis;
+  const periodsPerYear = holdMonths > 0 ? 12 / holdMonths : 1;
+
+  let roi: number;
+  let isAnnual: boolean;
+
+  switch (settings.roi_method) {
+    case 'annualized':
+      roi = periodReturn * periodsPerYear * 100;
+      isAnnual = true;
+      break;
+
+    case 'irr_simplified':
+      roi = periodReturn <= -1 ? -100 : (Math.pow(1 + periodReturn, periodsPerYear) - 1) * 100;
+      isAnnual = true;
+      break;
+
+    default:
+      roi = periodReturn * 100;
+      isAnnual = settings.roi_annualize;
+      if (isAnnual) roi *= periodsPerYear;
+  }
+
+  if (settings.roi_include_opportunity_cost) {
+    roi -= isAnnual
+      ? settings.roi_opportunity_rate
+      : settings.roi_opportunity_rate / periodsPerYear;
+  }
+
+  return roi;
+}
+
+/**
+ * Contingency reserve for a rehab budget
+ */
+export function calculateContingency(
+  rehabBudget: number,
+  settings: CalculationSettingsInput,
+  categoryBudgets?: Partial<Record<BudgetCategory, number>>,
+  contingencyPercent?: number | null
+): number {
+  const flatPercent = contingencyPercent ?? settings.contingency_default_percent;
+
+  switch (settings.contingency_method) {
+    case 'category_weighted':
+      if (categoryBudgets) {
+        return calculateWeightedContingency(categoryBudgets, settings.contingency_category_rates);
+      }
+      return rehabBudget * (flatPercent / 100);
+
+    case 'tiered':
+      return calculateTieredContingency(rehabBudget, settings.contingency_tiers);
+
+    case 'flat_percent':
+    case 'scope_based':
+    default:
+      return rehabBudget * (flatPercent / 100);
+  }
+}
+
+function calculateWeightedContingency(
+  categoryBudgets: Partial<Record<BudgetCategory, number>>,
+  categoryRates: ContingencyCategoryRates
+): number {
+  let total = 0;
+  for (const [category, budget] of Object.entries(categoryBudgets)) {
+    const rate = categoryRates[category as BudgetCategory] ?? 10;
+    total += (budget || 0) * (rate / 100);
+  }
+  return total;
+}
+
+function calculateTieredContingency(rehabBudget: number, tiers: ContingencyTier[]): number {
+  // Sort tiers by max_budget (nulls last)
+  const sortedTiers = [...tiers].sort((a, b) => {
+    if (a.max_budget === null) return 1;
+    if (b.max_budget === null) return -1;
+    return a.max_budget - b.max_budget;
+  });
+
+  const tier = sortedTiers.find((t) => t.max_budget === null || rehabBudget <= t.max_budget);
+  const rate = tier?.percent ?? 10;
+  return rehabBudget * (rate / 100);
+}
+
+/**
+ * Holding costs for the whole hold period. `excludeLoanInterest` drops the
+ * profile's assumed loan interest when the project's own loans are costed.
+ */
+export function calculateHoldingCosts(
+  purchasePrice: number,
+  holdMonths: number,
+  settings: CalculationSettingsInput,
+  holdingCostsMonthly?: number | null,
+  excludeLoanInterest = false
+): number {
+  const baseMonthly = holdingCostsMonthly ?? settings.holding_cost_default_monthly;
+  const itemized = () =>
+    calculateItemizedHoldingCosts(settings.holding_cost_items, settings) -
+    (excludeLoanInterest ? settings.holding_cost_items.loan_interest : 0);
+
+  switch (settings.holding_cost_method) {
+    case 'itemized':
+      return itemized() * holdMonths;
+
+    case 'percentage_of_loan':
+      if (excludeLoanInterest) return 0;
+      return ((purchasePrice * (settings.holding_cost_loan_rate_annual / 100)) / 12) * holdMonths;
+
+    case 'hybrid':
+      return (baseMonthly + itemized()) * holdMonths;
+
+    case 'flat_monthly':
+    default:
+      return baseMonthly * holdMonths;
+  }
+}
+
+function calculateItemizedHoldingCosts(
+  items: HoldingCostItems,
+  settings: CalculationSettingsInput
+): number {
+  let total = items.loan_interest + items.lawn_care + items.other;
+
+  if (settings.holding_cost_include_taxes) total += items.taxes;
+  if (settings.holding_cost_include_insurance) total += items.insurance;
+  if (settings.holding_cost_include_utilities) total += items.utilities;
+  if (settings.holding_cost_include_hoa) total += items.hoa;
+
+  return total;
+}
+
+/**
+ * Percent of ARV charged by the profile's selling cost components
+ */
+export function getSellingCostPercent(settings: CalculationSettingsInput): number {
+  return (
+    settings.selling_cost_agent_commission +
+    settings.selling_cost_buyer_concessions +
+    settings.selling_cost_closing_percent
+  );
+}
+
+/**
+ * Selling costs: percent of ARV plus the profile's fixed amount
+ */
+export function calculateSellingCosts(
+  arv: number,
+  settings: CalculationSettingsInput,
+  sellingCostPercent?: number | null
+): number {
+  const percent = sellingCostPercent ?? getSellingCostPercent(settings);
+  return (arv * percent) / 100 + settings.selling_cost_fixed_amount;
+}
+
+// ============================================================================
+// THRESHOLDS
+// ============================================================================
+
+/**
+ * Lowest ARV at which the deal breaks even (profit of zero)
+ */
+export function calculateBreakEvenArv(
+  inputs: DealAnalysisInputs,
+  settings: CalculationSettingsInput
+): number {
+  const { totalInvestment, sellingCostPercent } = analyzeDeal(inputs, settings);
+  const netOfSelling = 1 - sellingCostPercent / 100;
+  if (netOfSelling <= 0) return 0;
+  return (totalInvestment + settings.selling_cost_fixed_amount) / netOfSelling;
+}
+
+/**
+ * Highest purchase price that still returns `targetRoi` percent on total
+ * investment (simple ROI, before annualizing)
+ */
+export function calculateMaxPurchasePrice(
+  inputs: DealAnalysisInputs,
+  settings: CalculationSettingsInput,
+  targetRoi: number
+): number {
+  // Total investment is linear in the purchase price (loan-based holding
+  // costs scale with it), so two points give the whole line
+  const atZero = analyzeDeal({ ...inputs, purchasePrice: 0 }, settings);
+  const atOne = analyzeDeal({ ...inputs, purchasePrice: 1 }, settings);
+  const perDollar = atOne.totalInvestment - atZero.totalInvestment;
+
+  const maxInvestment = (inputs.arv - atZero.sellingCosts) / (1 + targetRoi / 100);
+  return Math.max(0, (maxInvestment - atZero.totalInvestment) / perDollar);
+}
+
+// ============================================================================
+// PROJECTS
+// ============================================================================
+
+export type BudgetScenario = 'underwriting' | 'forecast' | 'actual';
+
+/** The budget item columns the engine reads */
+export type DealBudgetItem = Pick<
+  BudgetItem,
+  'category' | 'underwriting_amount' | 'forecast_amount' | 'actual_amount'
+>;
+
+/** The project columns the engine reads */
+export type ProjectDealFields = Pick<
+  Project,
+  | 'arv'
+  | 'purchase_price'
+  | 'closing_costs'
+  | 'holding_costs_monthly'
+  | 'hold_months'
+  | 'selling_cost_percent'
+  | 'contingency_percent'
+>;
+
+export interface ProjectDealAnalysis {
+  underwritingTotal: number;
+  forecastTotal: number;
+  actualTotal: number;
+  underwriting: DealAnalysis;
+  forecast: DealAnalysis;
+  actual: DealAnalysis;
+  /** Forecast once any forecast exists, otherwise underwriting */
+  primaryScenario: Exclude<BudgetScenario, 'actual'>;
+  primary: DealAnalysis;
+  /** Latest phase with numbers: actual, then forecast, then underwriting */
+  activeScenario: BudgetScenario;
+  /** MAO is always judged on the pre-deal underwriting budget */
+  mao: number;
+  /** The project's loans, when it has any */
+  financing: ProjectFinancing | null;
+}
+
+function sumByCategory(
+  budgetItems: DealBudgetItem[],
+  amount: (item: DealBudgetItem) => number
+): Partial<Record<BudgetCategory, number>> {
+  const totals: Partial<Record<BudgetCategory, number>> = {};
+  for (const item of budgetItems) {
+    totals[item.category] = (totals[item.category] || 0) + amount(item);
+  }
+  return totals;
+}
+
+/**
+ * Analyze a project's underwriting, forecast and actual budgets with the
+ * project's own cost assumptions and, when it has loans, their cost.
+ */
+export function analyzeProject(
+  project: ProjectDealFields,
+  budgetItems: DealBudgetItem[],
+  settings: CalculationSettingsInput,
+  financing: ProjectFinancing | null = null
+): ProjectDealAnalysis {
+  const underwritingByCategory = sumByCategory(budgetItems, (item) => item.underwriting_amount || 0);
+  const forecastByCategory = sumByCategory(budgetItems, (item) => item.forecast_amount || 0);
+  const actualByCategory = sumByCategory(budgetItems, (item) => item.actual_amount || 0);
+
+  const total = (byCategory: Partial<Record<BudgetCategory, number>>) =>
+    Object.values(byCategory).reduce((sum, value) => sum + (value || 0), 0);
+  const underwritingTotal = total(underwritingByCategory);
+  const forecastTotal = total(forecastByCategory);
+  const actualTotal = total(actualByCategory);
+
+  const base = {
+    arv: project.arv || 0,
+    purchasePrice: project.purchase_price || 0,
+    closingCosts: project.closing_costs || 0,
+    holdMonths: project.hold_months || 4,
+    contingencyPercent: project.contingency_percent,
+    holdingCostsMonthly: project.holding_costs_monthly,
+    sellingCostPercent: project.selling_cost_percent,
+    financingCosts: financing?.financingCosts ?? null,
+    financingInterest: financing?.interest ?? null,
+    loanAmount: financing?.loanAmount ?? null,
+  };
+
+  const underwriting = analyzeDeal(
+    { ...base, rehabBudget: underwritingTotal, categoryBudgets: underwritingByCategory },
+    settings
+  );
+  const forecast = analyzeDeal(
+    { ...base, rehabBudget: forecastTotal, categoryBudgets: forecastByCategory },
+    settings
+  );
+  const actual = analyzeDeal(
+    { ...base, rehabBudget: actualTotal, categoryBudgets: actualByCategory, includeContingency: false },
+    settings
+  );
+
+  const primaryScenario = forecastTotal > 0 ? 'forecast' : 'underwriting';
+  const activeScenario: BudgetScenario =
+    actualTotal > 0 ? 'actual' : primaryScenario;
+
+  return {
+    underwritingTotal,
+    forecastTotal,
+    actualTotal,
+    underwriting,
+    forecast,
+    actual,
+    primaryScenario,
+    primary: primaryScenario === 'forecast' ? forecast : underwriting,
+    activeScenario,
+    mao: underwriting.mao,
+    financing,
+  };
+}
+
+/**
+ * Build the `project_summary` row for a project on the client, e.g. for PDF
+ * export of a project loaded from the `projects` table.
+ */
+export function buildProjectSummary(
+  project: Project,
+  budgetItems: BudgetItem[],
+  settings: CalculationSettingsInput,
+  financing: ProjectFinancing | null = null
+): ProjectSummary {
+  const analysis = analyzeProject(project, budgetItems, settings, financing);
+  const { primary } = analysis;
+
+  return {
+    ...project,
+    underwriting_total: analysis.underwritingTotal,
+    forecast_total: analysis.forecastTotal,
+    actual_total: analysis.actualTotal,
+    rehab_budget: primary.rehabBudget,
+    rehab_actual: analysis.actualTotal,
+    contingency_amount: primary.contingency,
+    rehab_budget_with_contingency: primary.rehabWithContingency,
+    selling_costs: primary.sellingCosts,
+    holding_costs_total: primary.holdingCosts,
+    total_investment: primary.totalInvestment,
+    gross_profit: primary.grossProfit,
+    roi: primary.roi,
+    mao: analysis.mao,
+    loan_amount: financing?.loanAmount ?? null,
+    financing_costs: financing?.financingCosts ?? null,
+    total_items: budgetItems.length,
+    completed_items: budgetItems.filter((item) => item.status === 'complete').length,
+    in_progress_items: budgetItems.filter((item) => item.status === 'in_progress').length,
+  };
+}
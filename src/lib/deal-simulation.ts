@@ -0,0 +1,398 @@
+import { analyzeDeal, getSellingCostPercent, type DealAnalysisInputs } from '@/lib/deal-analysis';
+import {
+  BUDGET_CATEGORIES,
+  type BudgetCategory,
+  type BudgetItem,
+  type CalculationSettingsInput,
+  type CostReference,
+  type ProjectCloseout,
+} from '@/types';
+
+// ============================================================================
+// DEAL RISK SIMULATION
+// Monte Carlo over the deal analysis. ARV, the rehab overrun of each budget
+// category, extra hold months and buyer concessions are drawn from triangular
+// distributions and every trial is priced with analyzeDeal().
+//
+// - ARV: 90%-105% of the estimate
+// - Rehab: 95%-120% of each category's budget, or the category's cost
+//   reference low/high spread around mid. Contingency is added on top just
+//   as the deal analysis does.
+// - Hold: up to two extra months. Loan interest is prorated to the
+//   simulated hold; points and lender fees stay fixed.
+// - Concessions: 0 to the profile's buyer concessions + 3% of ARV. The
+//   selling cost the deal analysis uses (the project's override or the
+//   profile's total) moves by the difference from the profile's concessions.
+//
+// A trial with every input at its planned value (ARV and budget as
+// estimated, no extra hold, the profile's concessions) prices the same as
+// the deal analysis.
+//
+// Historical variance from locked closeouts (and the budgets of their
+// projects) widens each range and moves the most likely value. Trials use a
+// seeded generator, so the same seed always gives the same results.
+// ============================================================================
+
+export const DEFAULT_SIMULATION_TRIALS = 2000;
+export const DEFAULT_SIMULATION_SEED = 1;
+const HISTOGRAM_BINS = 20;
+/** Fewer past deals than this leaves the defaults alone */
+const MIN_HISTORY = 3;
+
+export interface TriangularRange {
+  low: number;
+  mode: number;
+  high: number;
+}
+
+export interface RehabRange {
+  /** null for a budget without categories */
+  category: BudgetCategory | null;
+  label: string;
+  budget: number;
+  /** Multiplier on the budget */
+  range: TriangularRange;
+}
+
+export interface SimulationRanges {
+  /** Multiplier on the ARV */
+  arv: TriangularRange;
+  rehab: RehabRange[];
+  /** Months added to the hold */
+  holdMonths: TriangularRange;
+  /** Buyer concessions as a % of ARV */
+  concessionPercent: TriangularRange;
+}
+
+/** How past deals came out against their projections */
+export interface RiskHistory {
+  /** Sale price / projected sale price - 1 */
+  arvVariance: number[];
+  /** Actual - projected hold, in months */
+  holdOverrunMonths: number[];
+  /** Seller concessions as a % of the sale price */
+  concessionPercent: number[];
+  /** Actual / underwriting budget - 1, per project */
+  categoryOverrun: Partial<Record<BudgetCategory, number[]>>;
+}
+
+export type RiskHistoryCloseout = Pick<
+  ProjectCloseout,
+  'project_id' | 'sale_price' | 'seller_concessions' | 'actual_hold_days' | 'projected_sale_price' | 'projected_hold_days'
+>;
+
+export type RiskHistoryItem = Pick<BudgetItem, 'project_id' | 'category' | 'underwriting_amount' | 'actual_amount'>;
+
+export type SimulationCostReference = Pick<CostReference, 'category' | 'low' | 'mid' | 'high'>;
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface TornadoBar {
+  key: string;
+  label: string;
+  /** Profit with this input at its low end and everything else most likely */
+  lowProfit: number;
+  highProfit: number;
+  swing: number;
+}
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface DealSimulation {
+  trials: number;
+  seed: number;
+  /** Profit with every input at its most likely value */
+  baseProfit: number;
+  histogram: HistogramBin[];
+  /** Share of trials (0-1) losing money */
+  probabilityOfLoss: number;
+  profit: Percentiles;
+  roi: Percentiles;
+  /** Largest swing first */
+  tornado: TornadoBar[];
+}
+
+interface SimulationOptions {
+  trials?: number;
+  seed?: number;
+}
+
+interface RangeSources {
+  costReference?: SimulationCostReference[];
+  history?: RiskHistory | null;
+}
+
+/**
+ * Seeded generator of uniform numbers in [0, 1) (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Inverse CDF of a triangular distribution at `u` in [0, 1)
+ */
+export function sampleTriangular({ low, mode, high }: TriangularRange, u: number): number {
+  if (high <= low) return mode;
+  const split = (mode - low) / (high - low);
+  return u < split
+    ? low + Math.sqrt(u * (high - low) * (mode - low))
+    : high - Math.sqrt((1 - u) * (high - low) * (high - mode));
+}
+
+/**
+ * Linear-interpolated percentile of values sorted ascending
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const below = Math.floor(rank);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (rank - below);
+}
+
+/**
+ * Spread a default range out to the history: the extremes widen it and the
+ * median becomes the most likely value
+ */
+function widenWithHistory(range: TriangularRange, samples: number[] | undefined, offset = 0): TriangularRange {
+  if (!samples || samples.length < MIN_HISTORY) return range;
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const low = Math.min(range.low, offset + sorted[0]);
+  const high = Math.max(range.high, offset + sorted[sorted.length - 1]);
+  const mode = Math.min(Math.max(offset + percentile(sorted, 50), low), high);
+  return { low, mode, high };
+}
+
+/** Average low/high spread around mid of a category's cost reference items */
+function getReferenceSpread(items: SimulationCostReference[]): TriangularRange | null {
+  const priced = items.filter((item) => (item.mid ?? 0) > 0 && item.low != null && item.high != null);
+  if (priced.length === 0) return null;
+
+  const low = priced.reduce((sum, item) => sum + item.low! / item.mid!, 0) / priced.length;
+  const high = priced.reduce((sum, item) => sum + item.high! / item.mid!, 0) / priced.length;
+  return { low: Math.min(low, 1), mode: 1, high: Math.max(high, 1) };
+}
+
+/**
+ * Ranges for the simulated inputs, seeded from the cost reference and how
+ * past deals went. Categories with a budget each get their own rehab range.
+ */
+export function buildSimulationRanges(
+  inputs: DealAnalysisInputs,
+  settings: CalculationSettingsInput,
+  { costReference = [], history = null }: RangeSources = {}
+): SimulationRanges {
+  const categories = BUDGET_CATEGORIES.filter(({ value }) => (inputs.categoryBudgets?.[value] ?? 0) > 0);
+  const defaultRehab: TriangularRange = { low: 0.95, mode: 1, high: 1.2 };
+
+  const rehab: RehabRange[] =
+    categories.length > 0
+      ? categories.map(({ value, label }) => ({
+          category: value,
+          label,
+          budget: inputs.categoryBudgets![value]!,
+          range: widenWithHistory(
+            getReferenceSpread(costReference.filter((item) => item.category === value)) ?? defaultRehab,
+            history?.categoryOverrun[value],
+            1
+          ),
+        }))
+      : inputs.rehabBudget > 0
+        ? [
+            {
+              category: null,
+              label: 'Rehab',
+              budget: inputs.rehabBudget,
+              range: widenWithHistory(
+                getReferenceSpread(costReference) ?? defaultRehab,
+                Object.values(history?.categoryOverrun ?? {}).flat(),
+                1
+              ),
+            },
+          ]
+        : [];
+
+  const concessions = settings.selling_cost_buyer_concessions;
+
+  return {
+    arv: widenWithHistory({ low: 0.9, mode: 1, high: 1.05 }, history?.arvVariance, 1),
+    rehab,
+    holdMonths: widenWithHistory({ low: 0, mode: 0, high: 2 }, history?.holdOverrunMonths),
+    concessionPercent: widenWithHistory({ low: 0, mode: concessions, high: concessions + 3 }, history?.concessionPercent),
+  };
+}
+
+/**
+ * Past deals' variance from the locked closeouts and their projects' budgets
+ */
+export function buildRiskHistory(closeouts: RiskHistoryCloseout[], items: RiskHistoryItem[]): RiskHistory {
+  const history: RiskHistory = { arvVariance: [], holdOverrunMonths: [], concessionPercent: [], categoryOverrun: {} };
+
+  for (const closeout of closeouts) {
+    if ((closeout.projected_sale_price ?? 0) > 0) {
+      history.arvVariance.push(closeout.sale_price / closeout.projected_sale_price! - 1);
+    }
+    if (closeout.actual_hold_days != null && closeout.projected_hold_days != null) {
+      history.holdOverrunMonths.push((closeout.actual_hold_days - closeout.projected_hold_days) / (365 / 12));
+    }
+    if (closeout.sale_price > 0) {
+      history.concessionPercent.push((closeout.seller_concessions / closeout.sale_price) * 100);
+    }
+  }
+
+  // Compare each project's category total, so one line item can't dominate
+  const totals = new Map<string, { category: BudgetCategory; underwriting: number; actual: number }>();
+  for (const item of items) {
+    if (item.actual_amount == null) continue;
+    const key = `${item.project_id}:${item.category}`;
+    const total = totals.get(key) ?? { category: item.category, underwriting: 0, actual: 0 };
+    total.underwriting += item.underwriting_amount;
+    total.actual += item.actual_amount;
+    totals.set(key, total);
+  }
+  totals.forEach(({ category, underwriting, actual }) => {
+    if (underwriting <= 0) return;
+    history.categoryOverrun[category] = [...(history.categoryOverrun[category] ?? []), actual / underwriting - 1];
+  });
+
+  return history;
+}
+
+interface TrialValues {
+  arv: number;
+  rehab: number[];
+  holdMonths: number;
+  concessionPercent: number;
+}
+
+function modeValues(ranges: SimulationRanges): TrialValues {
+  return {
+    arv: ranges.arv.mode,
+    rehab: ranges.rehab.map(({ range }) => range.mode),
+    holdMonths: ranges.holdMonths.mode,
+    concessionPercent: ranges.concessionPercent.mode,
+  };
+}
+
+function priceTrial(
+  inputs: DealAnalysisInputs,
+  settings: CalculationSettingsInput,
+  ranges: SimulationRanges,
+  values: TrialValues
+) {
+  const rehabBudget = ranges.rehab.length > 0
+    ? ranges.rehab.reduce((sum, line, index) => sum + line.budget * values.rehab[index], 0)
+    : inputs.rehabBudget;
+  const concessionChange = values.concessionPercent - settings.selling_cost_buyer_concessions;
+  const sellingCostPercent = (inputs.sellingCostPercent ?? getSellingCostPercent(settings)) + concessionChange;
+  const holdMonths = Math.max(inputs.holdMonths + values.holdMonths, 0);
+  const financingCosts = inputs.financingCosts != null && inputs.financingInterest && inputs.holdMonths > 0
+    ? inputs.financingCosts + inputs.financingInterest * (holdMonths / inputs.holdMonths - 1)
+    : inputs.financingCosts;
+
+  return analyzeDeal(
+    {
+      ...inputs,
+      arv: inputs.arv * values.arv,
+      rehabBudget,
+      holdMonths,
+      financingCosts,
+      sellingCostPercent,
+    },
+    settings
+  );
+}
+
+function buildHistogram(sorted: number[]): HistogramBin[] {
+  if (sorted.length === 0) return [];
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, index) => ({
+    start: min + index * width,
+    end: min + (index + 1) * width,
+    count: 0,
+  }));
+
+  for (const value of sorted) {
+    bins[Math.min(Math.floor((value - min) / width), HISTOGRAM_BINS - 1)].count += 1;
+  }
+  return bins;
+}
+
+/**
+ * Run the simulation: profit distribution, chance of a loss, ROI
+ * percentiles and how much each input alone moves the profit
+ */
+export function runDealSimulation(
+  inputs: DealAnalysisInputs,
+  settings: CalculationSettingsInput,
+  ranges: SimulationRanges,
+  { trials = DEFAULT_SIMULATION_TRIALS, seed = DEFAULT_SIMULATION_SEED }: SimulationOptions = {}
+): DealSimulation {
+  const random = createRandom(seed);
+  const profits: number[] = [];
+  const rois: number[] = [];
+
+  for (let trial = 0; trial < trials; trial++) {
+    const result = priceTrial(inputs, settings, ranges, {
+      arv: sampleTriangular(ranges.arv, random()),
+      rehab: ranges.rehab.map(({ range }) => sampleTriangular(range, random())),
+      holdMonths: sampleTriangular(ranges.holdMonths, random()),
+      concessionPercent: sampleTriangular(ranges.concessionPercent, random()),
+    });
+    profits.push(result.grossProfit);
+    rois.push(result.roi);
+  }
+
+  profits.sort((a, b) => a - b);
+  rois.sort((a, b) => a - b);
+
+  const base = modeValues(ranges);
+  const swing = (key: string, label: string, at: (value: 'low' | 'high') => TrialValues): TornadoBar => {
+    const lowProfit = priceTrial(inputs, settings, ranges, at('low')).grossProfit;
+    const highProfit = priceTrial(inputs, settings, ranges, at('high')).grossProfit;
+    return { key, label, lowProfit, highProfit, swing: Math.abs(highProfit - lowProfit) };
+  };
+
+  const tornado = [
+    swing('arv', 'ARV', (end) => ({ ...base, arv: ranges.arv[end] })),
+    ...ranges.rehab.map((line, index) =>
+      swing(`rehab:${line.category ?? 'total'}`, line.category ? `Rehab: ${line.label}` : line.label, (end) => ({
+        ...base,
+        rehab: base.rehab.map((value, i) => (i === index ? line.range[end] : value)),
+      }))
+    ),
+    swing('hold', 'Hold Months', (end) => ({ ...base, holdMonths: ranges.holdMonths[end] })),
+    swing('concessions', 'Concessions', (end) => ({ ...base, concessionPercent: ranges.concessionPercent[end] })),
+  ].sort((a, b) => b.swing - a.swing);
+
+  return {
+    trials,
+    seed,
+    baseProfit: priceTrial(inputs, settings, ranges, base).grossProfit,
+    histogram: buildHistogram(profits),
+    probabilityOfLoss: trials > 0 ? profits.filter((profit) => profit < 0).length / trials : 0,
+    profit: { p10: percentile(profits, 10), p50: percentile(profits, 50), p90: percentile(profits, 90) },
+    roi: { p10: percentile(rois, 10), p50: percentile(rois, 50), p90: percentile(rois, 90) },
+    tornado,
+  };
+}
@@ -0,0 +1,202 @@
+import { getVarianceAlertLevel } from '@/lib/utils';
+import type { CalculationSettingsInput, Draw, DrawAllocation, Vendor } from '@/types';
+
+// ============================================================================
+// DRAW ALLOCATIONS
+// Retainage and actuals roll-up for draws split across budget lines. Each
+// allocation holds back retainage_percent of its amount from the vendor; a
+// draw with the 'final' milestone releases what was held from its vendors on
+// earlier draws. Paid allocations (gross of retainage) become the line's
+// actual, mirroring recalculate_budget_item_actuals() in the database.
+// ============================================================================
+
+export type AllocationAmounts = Pick<
+  DrawAllocation,
+  'draw_id' | 'budget_item_id' | 'vendor_id' | 'amount' | 'retainage_percent'
+>;
+export type DrawRef = Pick<Draw, 'id' | 'draw_number' | 'milestone' | 'status'>;
+
+export interface DrawPayment {
+  /** Draw amount before retainage */
+  gross: number;
+  /** Held back from this draw's allocations */
+  retainage: number;
+  /** Retainage from earlier draws paid out with this (final) draw */
+  released: number;
+  /** What the vendor actually receives */
+  net: number;
+}
+
+export interface VendorRetainage {
+  vendorId: string;
+  retained: number;
+  released: number;
+  held: number;
+}
+
+/**
+ * Retainage on an allocation, rounded to cents like the generated column.
+ */
+export function calculateRetainage(amount: number, percent: number): number {
+  return Math.round((Number(amount) || 0) * (Number(percent) || 0)) / 100;
+}
+
+/**
+ * Retainage % a new allocation starts at: the vendor's default, or none on a final draw.
+ */
+export function getDefaultRetainagePercent(
+  draw: Pick<Draw, 'milestone'>,
+  vendor: Pick<Vendor, 'retainage_percent'> | null | undefined
+): number {
+  if (draw.milestone === 'final') return 0;
+  return Number(vendor?.retainage_percent) || 0;
+}
+
+/**
+ * Retainage held from a vendor on draws before the given one.
+ */
+function getHeldBefore(
+  vendorId: string,
+  drawNumber: number,
+  draws: DrawRef[],
+  allocations: AllocationAmounts[]
+): number {
+  const earlierDrawIds = new Set(draws.filter((d) => d.draw_number < drawNumber).map((d) => d.id));
+  return allocations
+    .filter((a) => a.vendor_id === vendorId && earlierDrawIds.has(a.draw_id))
+    .reduce((sum, a) => sum + calculateRetainage(a.amount, a.retainage_percent), 0);
+}
+
+/**
+ * Gross, retainage and net payable for one draw.
+ */
+export function getDrawPayment(
+  draw: DrawRef & Pick<Draw, 'amount'>,
+  draws: DrawRef[],
+  allocations: AllocationAmounts[]
+): DrawPayment {
+  const own = allocations.filter((a) => a.draw_id === draw.id);
+  const retainage = own.reduce((sum, a) => sum + calculateRetainage(a.amount, a.retainage_percent), 0);
+  const released = Array.from(getReleasedRetainage(draw, draws, allocations).values()).reduce(
+    (sum, amount) => sum + amount,
+    0
+  );
+
+  const gross = Number(draw.amount) || 0;
+  return { gross, retainage, released, net: gross - retainage + released };
+}
+
+/**
+ * Retainage released to each vendor on a final draw: what was held from them
+ * on earlier draws, for every vendor with an allocation on this one. Other
+ * draws release nothing. `draws` and `allocations` cover the draw's project.
+ */
+export function getReleasedRetainage(
+  draw: DrawRef,
+  draws: DrawRef[],
+  allocations: AllocationAmounts[]
+): Map<string, number> {
+  const released = new Map<string, number>();
+  if (draw.milestone !== 'final') return released;
+
+  allocations.forEach((a) => {
+    if (a.draw_id !== draw.id || !a.vendor_id || released.has(a.vendor_id)) return;
+    released.set(a.vendor_id, getHeldBefore(a.vendor_id, draw.draw_number, draws, allocations));
+  });
+
+  return released;
+}
+
+/**
+ * What each vendor is paid on a draw: their allocations net of retainage plus
+ * any retainage released to them (see getReleasedRetainage), or the whole
+ * amount to the draw's vendor when the draw isn't split across budget lines.
+ * Allocations without a vendor pay the draw's vendor.
+ */
+export function getDrawVendorPayments(
+  draw: Pick<Draw, 'vendor_id' | 'amount'>,
+  allocations: Pick<DrawAllocation, 'vendor_id' | 'amount' | 'retainage_percent'>[],
+  released: Map<string, number> = new Map()
+): Map<string, number> {
+  const payments = new Map<string, number>();
+
+  if (allocations.length === 0) {
+    if (draw.vendor_id) payments.set(draw.vendor_id, Number(draw.amount) || 0);
+    return payments;
+  }
+
+  released.forEach((amount, vendorId) => payments.set(vendorId, amount));
+
+  allocations.forEach((a) => {
+    const vendorId = a.vendor_id ?? draw.vendor_id;
+    if (!vendorId) return;
+    const net = (Number(a.amount) || 0) - calculateRetainage(a.amount, a.retainage_percent);
+    payments.set(vendorId, (payments.get(vendorId) || 0) + net);
+  });
+
+  return payments;
+}
+
+/**
+ * Retainage per vendor across the project. Retainage counts as released once
+ * the vendor's final draw has been paid.
+ */
+export function summarizeRetainage(draws: DrawRef[], allocations: AllocationAmounts[]): VendorRetainage[] {
+  const byVendor = new Map<string, VendorRetainage>();
+
+  allocations.forEach((a) => {
+    if (!a.vendor_id) return;
+    const entry = byVendor.get(a.vendor_id) || { vendorId: a.vendor_id, retained: 0, released: 0, held: 0 };
+    entry.retained += calculateRetainage(a.amount, a.retainage_percent);
+    byVendor.set(a.vendor_id, entry);
+  });
+
+  byVendor.forEach((entry) => {
+    const paidFinals = draws.filter(
+      (d) =>
+        d.milestone === 'final' &&
+        d.status === 'paid' &&
+        allocations.some((a) => a.draw_id === d.id && a.vendor_id === entry.vendorId)
+    );
+    entry.released = paidFinals.reduce(
+      (sum, d) => sum + getHeldBefore(entry.vendorId, d.draw_number, draws, allocations),
+      0
+    );
+    entry.held = entry.retained - entry.released;
+  });
+
+  return Array.from(byVendor.values());
+}
+
+/**
+ * Actual spend per budget line from paid draws. Only lines with paid
+ * allocations appear; their actual_amount is maintained by the database from
+ * these, and other lines keep the actual entered by hand.
+ */
+export function rollUpPaidActuals(
+  draws: Pick<Draw, 'id' | 'status'>[],
+  allocations: Pick<DrawAllocation, 'draw_id' | 'budget_item_id' | 'amount'>[]
+): Map<string, number> {
+  const paidDrawIds = new Set(draws.filter((d) => d.status === 'paid').map((d) => d.id));
+  const actuals = new Map<string, number>();
+
+  allocations.forEach((a) => {
+    if (!paidDrawIds.has(a.draw_id)) return;
+    actuals.set(a.budget_item_id, (actuals.get(a.budget_item_id) || 0) + (Number(a.amount) || 0));
+  });
+
+  return actuals;
+}
+
+/**
+ * Alert level for drawing a line past its budget, using the project's
+ * variance thresholds. Staying within budget never alerts.
+ */
+export function getOverAllocationAlertLevel(
+  budgeted: number,
+  totalDrawn: number,
+  settings: CalculationSettingsInput
+): 'none' | 'warning' | 'critical' {
+  if (totalDrawn <= budgeted) return 'none';
+  return getVarianceAlertLevel(budgeted, totalDrawn, settings);
+}
@@ -0,0 +1,163 @@
+import {
+  BUDGET_CATEGORIES,
+  type BudgetCategory,
+  type BudgetItem,
+  type Draw,
+  type DrawAllocation,
+  type LineItemPhoto,
+  type PhotoType,
+} from '@/types';
+
+// ============================================================================
+// DRAW PACKET
+// Schedule of values for a single draw, built from draw_allocations.
+// "Previously drawn" is everything allocated on earlier draws (lower
+// draw_number); "this draw" is what the packet's draw allocates.
+// ============================================================================
+
+export interface ScheduleOfValuesAmounts {
+  budgeted: number;
+  previouslyDrawn: number;
+  thisDraw: number;
+  totalDrawn: number;
+  percentComplete: number;
+  balanceToFinish: number;
+}
+
+export interface ScheduleOfValuesLine extends ScheduleOfValuesAmounts {
+  budgetItemId: string;
+  item: string;
+}
+
+export interface ScheduleOfValuesRow extends ScheduleOfValuesAmounts {
+  category: BudgetCategory;
+  label: string;
+  lines: ScheduleOfValuesLine[];
+}
+
+export interface ScheduleOfValues {
+  rows: ScheduleOfValuesRow[];
+  totals: ScheduleOfValuesAmounts;
+  /** Budget items this draw allocates to (amount > 0) */
+  coveredBudgetItemIds: string[];
+}
+
+// Photo types a lender wants to see with a draw
+export const DRAW_PACKET_PHOTO_TYPES: PhotoType[] = ['receipt', 'progress'];
+
+/**
+ * The amount a line is budgeted at: forecast once it is set, otherwise underwriting.
+ */
+export function getBudgetedAmount(item: Pick<BudgetItem, 'underwriting_amount' | 'forecast_amount'>): number {
+  const forecast = Number(item.forecast_amount) || 0;
+  return forecast > 0 ? forecast : Number(item.underwriting_amount) || 0;
+}
+
+/**
+ * Draw amount not yet assigned to any budget line.
+ */
+export function getUnallocatedAmount(
+  draw: Pick<Draw, 'id' | 'amount'>,
+  allocations: Pick<DrawAllocation, 'draw_id' | 'amount'>[]
+): number {
+  const allocated = allocations
+    .filter((a) => a.draw_id === draw.id)
+    .reduce((sum, a) => sum + (Number(a.amount) || 0), 0);
+  return Number(draw.amount) - allocated;
+}
+
+function toAmounts(budgeted: number, previouslyDrawn: number, thisDraw: number): ScheduleOfValuesAmounts {
+  const totalDrawn = previouslyDrawn + thisDraw;
+  return {
+    budgeted,
+    previouslyDrawn,
+    thisDraw,
+    totalDrawn,
+    percentComplete: budgeted > 0 ? (totalDrawn / budgeted) * 100 : 0,
+    balanceToFinish: budgeted - totalDrawn,
+  };
+}
+
+/**
+ * Build the schedule of values for a draw.
+ *
+ * Categories appear in BUDGET_CATEGORIES order and are omitted when they have
+ * neither budget nor draws against them.
+ *
+ * @param draw - The draw the packet is for
+ * @param draws - All draws on the project, used to find earlier draws
+ * @param budgetItems - The project's budget line items
+ * @param allocations - All draw allocations on the project
+ */
+export function buildScheduleOfValues(
+  draw: Pick<Draw, 'id' | 'draw_number'>,
+  draws: Pick<Draw, 'id' | 'draw_number'>[],
+  budgetItems: BudgetItem[],
+  allocations: Pick<DrawAllocation, 'draw_id' | 'budget_item_id' | 'amount'>[]
+): ScheduleOfValues {
+  const earlierDrawIds = new Set(
+    draws.filter((d) => d.id !== draw.id && d.draw_number < draw.draw_number).map((d) => d.id)
+  );
+
+  const previousByItem = new Map<string, number>();
+  const thisByItem = new Map<string, number>();
+  allocations.forEach((allocation) => {
+    const amount = Number(allocation.amount) || 0;
+    if (allocation.draw_id === draw.id) {
+      thisByItem.set(allocation.budget_item_id, (thisByItem.get(allocation.budget_item_id) || 0) + amount);
+    } else if (earlierDrawIds.has(allocation.draw_id)) {
+      previousByItem.set(allocation.budget_item_id, (previousByItem.get(allocation.budget_item_id) || 0) + amount);
+    }
+  });
+
+  const rows: ScheduleOfValuesRow[] = BUDGET_CATEGORIES.map((cat) => {
+    const lines = budgetItems
+      .filter((item) => item.category === cat.value)
+      .map((item) => ({
+        budgetItemId: item.id,
+        item: item.item,
+        ...toAmounts(
+          getBudgetedAmount(item),
+          previousByItem.get(item.id) || 0,
+          thisByItem.get(item.id) || 0
+        ),
+      }))
+      .filter((line) => line.budgeted > 0 || line.totalDrawn > 0);
+
+    return {
+      category: cat.value,
+      label: cat.label,
+      lines,
+      ...toAmounts(
+        lines.reduce((sum, l) => sum + l.budgeted, 0),
+        lines.reduce((sum, l) => sum + l.previouslyDrawn, 0),
+        lines.reduce((sum, l) => sum + l.thisDraw, 0)
+      ),
+    };
+  }).filter((row) => row.lines.length > 0);
+
+  return {
+    rows,
+    totals: toAmounts(
+      rows.reduce((sum, r) => sum + r.budgeted, 0),
+      rows.reduce((sum, r) => sum + r.previouslyDrawn, 0),
+      rows.reduce((sum, r) => sum + r.thisDraw, 0)
+    ),
+    coveredBudgetItemIds: Array.from(thisByItem.entries())
+      .filter(([, amount]) => amount > 0)
+      .map(([id]) => id),
+  };
+}
+
+/**
+ * Receipt and progress photos for the line items a draw covers.
+ */
+export function selectDrawPacketPhotos<T extends Pick<LineItemPhoto, 'line_item_id' | 'photo_type'>>(
+  photos: T[],
+  coveredBudgetItemIds: string[]
+): T[] {
+  const covered = new Set(coveredBudgetItemIds);
+  return photos.filter(
+    (photo) => covered.has(photo.line_item_id) && DRAW_PACKET_PHOTO_TYPES.includes(photo.photo_type)
+  );
+}
@@ -0,0 +1,106 @@
+import type { DrawRequestToken } from '@/types';
+
+// ============================================================================
+// VENDOR DRAW REQUEST TOKENS
+// Raw tokens only ever appear in the link handed to a vendor. The database
+// stores their SHA-256 hash (draw_request_tokens.token_hash), and uploads
+// land under a storage folder named after that hash.
+// Uses Web Crypto so the same helpers run in the browser and in server actions.
+// ============================================================================
+
+const TOKEN_BYTES = 32;
+
+// base64url of 32 bytes without padding
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+export const DRAW_REQUEST_EXPIRY_OPTIONS = [7, 14, 30, 60] as const;
+export const DEFAULT_DRAW_REQUEST_EXPIRY_DAYS = 14;
+
+export type DrawRequestTokenStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * Generate a new URL-safe vendor token.
+ */
+export function generateDrawRequestToken(): string {
+  const bytes = new Uint8Array(TOKEN_BYTES);
+  crypto.getRandomValues(bytes);
+
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Reject anything that could not have come from generateDrawRequestToken()
+ * before touching the database.
+ */
+export function isWellFormedDrawRequestToken(token: string): boolean {
+  return TOKEN_PATTERN.test(token);
+}
+
+/**
+ * Hex-encoded SHA-256 of a raw token, as stored in token_hash.
+ */
+export async function hashDrawRequestToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Expiry timestamp for a token created now and valid for the given number of days.
+ */
+export function getDrawRequestExpiry(days: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Revocation wins over expiry so the owner sees why a link stopped working.
+ */
+export function getDrawRequestTokenStatus(
+  token: Pick<DrawRequestToken, 'expires_at' | 'revoked_at'>,
+  now: Date = new Date()
+): DrawRequestTokenStatus {
+  if (token.revoked_at) return 'revoked';
+  if (new Date(token.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+export function buildDrawRequestUrl(origin: string, token: string): string {
+  return `${origin.replace(/\/+$/, '')}/draw-request/${token}`;
+}
+
+// ============================================================================
+// ATTACHMENTS
+// ============================================================================
+
+export const DRAW_ATTACHMENT_BUCKET = 'draw-attachments';
+export const DRAW_ATTACHMENT_ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+export const DRAW_ATTACHMENT_MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const DRAW_ATTACHMENT_MAX_FILES = 5;
+
+/**
+ * Returns an error message for a file the portal should not accept, or null.
+ */
+export function validateDrawAttachment(file: { type: string; size: number }): string | null {
+  if (!DRAW_ATTACHMENT_ACCEPTED_TYPES.includes(file.type)) {
+    return 'Invalid file type. Accepted: JPG, PNG, WebP, PDF';
+  }
+  if (file.size > DRAW_ATTACHMENT_MAX_FILE_SIZE) {
+    return 'File too large. Maximum size is 10MB';
+  }
+  return null;
+}
+
+/**
+ * Storage path for a vendor upload. The first folder must be the token hash:
+ * the bucket's insert policy and submit_vendor_draw_request() both check it.
+ */
+export function buildDrawAttachmentPath(tokenHash: string, fileName: string): string {
+  const fileExt = fileName.includes('.') ? fileName.split('.').pop()?.toLowerCase() : undefined;
+  return `${tokenHash}/${crypto.randomUUID()}.${fileExt || 'bin'}`;
+}
@@ -0,0 +1,213 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { Draw, Project, ProjectLoan } from '@/types';
+
+// ============================================================================
+// PROJECT FINANCING
+// Loans attached to a project (hard money, private lenders, HELOCs). Part of
+// a loan funds the purchase at closing and the rehab holdback is released
+// through draws (draws.loan_id). Interest is interest-only and accrues daily
+// (actual/365) from funding to payoff: on a drawn-balance loan each paid draw
+// adds to the balance from its paid date and the undrawn holdback is assumed
+// to be released evenly between today and payoff; a full-balance ("Dutch")
+// loan charges interest on the whole loan from funding.
+//
+// The cost of capital replaces the profile's assumed loan interest in
+// analyzeDeal(). project_financing() in
+// supabase/migrations/20260127000000_add_project_financing.sql mirrors this.
+// ============================================================================
+
+/** The project columns financing reads */
+export type FinancingProjectFields = Pick<
+  Project,
+  'purchase_price' | 'closing_costs' | 'close_date' | 'sale_date' | 'hold_months'
+>;
+
+/** The draw columns financing reads */
+export type LoanDraw = Pick<Draw, 'id' | 'loan_id' | 'amount' | 'status' | 'date_paid'>;
+
+export interface LoanCost {
+  loan: ProjectLoan;
+  loanAmount: number;
+  fundedDate: string;
+  payoffDate: string;
+  pointsCost: number;
+  lenderFees: number;
+  interest: number;
+  /** Points + fees + interest */
+  totalCost: number;
+  /** Holdback released through paid draws */
+  drawnHoldback: number;
+  undrawnHoldback: number;
+  /** Principal outstanding today */
+  balance: number;
+  /** Interest-only payment on today's balance */
+  monthlyPayment: number;
+}
+
+export interface ProjectFinancing {
+  loans: LoanCost[];
+  loanAmount: number;
+  /** Loan principal funded at closing toward the purchase */
+  purchaseFunding: number;
+  rehabHoldback: number;
+  pointsAndFees: number;
+  interest: number;
+  /** Points + fees + interest across all loans */
+  financingCosts: number;
+  monthlyPayment: number;
+  /** Purchase + closing costs + points and fees, less the loans' purchase funding */
+  cashNeededAtClosing: number;
+}
+
+export interface LoanInput {
+  lender_name: string;
+  purchase_amount: number;
+  rehab_holdback: number;
+  interest_rate: number;
+  points: number;
+  lender_fees: number;
+}
+
+const DAYS_PER_YEAR = 365;
+
+function toDateString(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.max(0, differenceInCalendarDays(parseISO(to), parseISO(from)));
+}
+
+function laterDate(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+export function getLoanAmount(loan: Pick<ProjectLoan, 'purchase_amount' | 'rehab_holdback'>): number {
+  return Number(loan.purchase_amount) + Number(loan.rehab_holdback);
+}
+
+/**
+ * When loans are paid off: the sale date, else the close date (or today) plus
+ * the hold period, counting a month as 365/12 days
+ */
+export function getLoanPayoffDate(project: FinancingProjectFields, asOf: Date = new Date()): string {
+  if (project.sale_date) return project.sale_date;
+  const holdMonths = project.hold_months || 4;
+  const start = project.close_date ? parseISO(project.close_date) : asOf;
+  return toDateString(addDays(start, Math.round((holdMonths * DAYS_PER_YEAR) / 12)));
+}
+
+/**
+ * Cost of one loan: points, lender fees and interest to payoff
+ */
+export function calculateLoanCost(
+  loan: ProjectLoan,
+  draws: LoanDraw[],
+  project: FinancingProjectFields,
+  asOf: Date = new Date()
+): LoanCost {
+  const today = toDateString(asOf);
+  const purchaseAmount = Number(loan.purchase_amount);
+  const holdback = Number(loan.rehab_holdback);
+  const loanAmount = purchaseAmount + holdback;
+  const rate = Number(loan.interest_rate);
+
+  const fundedDate = loan.funded_date ?? project.close_date ?? today;
+  const payoffDate = laterDate(fundedDate, getLoanPayoffDate(project, asOf));
+
+  // Paid draws in order, capped at the holdback
+  const released = draws
+    .filter((draw) => draw.loan_id === loan.id && draw.status === 'paid' && draw.date_paid)
+    .sort((a, b) => a.date_paid!.localeCompare(b.date_paid!) || a.id.localeCompare(b.id));
+
+  let drawnHoldback = 0;
+  let balanceDays: number;
+
+  if (loan.interest_basis === 'full_balance') {
+    balanceDays = loanAmount * daysBetween(fundedDate, payoffDate);
+    drawnHoldback = Math.min(
+      holdback,
+      released.reduce((sum, draw) => sum + Number(draw.amount), 0)
+    );
+  } else {
+    balanceDays = purchaseAmount * daysBetween(fundedDate, payoffDate);
+
+    released.forEach((draw) => {
+      const amount = Math.min(Number(draw.amount), Math.max(holdback - drawnHoldback, 0));
+      drawnHoldback += amount;
+      balanceDays += amount * daysBetween(laterDate(draw.date_paid!, fundedDate), payoffDate);
+    });
+
+    const projectedFrom = [laterDate(today, fundedDate), payoffDate].sort()[0];
+    balanceDays += ((holdback - drawnHoldback) * daysBetween(projectedFrom, payoffDate)) / 2;
+  }
+
+  const pointsCost = (loanAmount * Number(loan.points)) / 100;
+  const lenderFees = Number(loan.lender_fees);
+  const interest = (balanceDays * rate) / 100 / DAYS_PER_YEAR;
+
+  const balance = loan.interest_basis === 'full_balance' ? loanAmount : purchaseAmount + drawnHoldback;
+
+  return {
+    loan,
+    loanAmount,
+    fundedDate,
+    payoffDate,
+    pointsCost,
+    lenderFees,
+    interest,
+    totalCost: pointsCost + lenderFees + interest,
+    drawnHoldback,
+    undrawnHoldback: holdback - drawnHoldback,
+    balance,
+    monthlyPayment: (balance * rate) / 100 / 12,
+  };
+}
+
+/**
+ * Financing across a project's loans, or null when it has none (the
+ * profile's holding cost assumptions then apply unchanged)
+ */
+export function calculateProjectFinancing(
+  project: FinancingProjectFields,
+  loans: ProjectLoan[],
+  draws: LoanDraw[],
+  asOf: Date = new Date()
+): ProjectFinancing | null {
+  if (loans.length === 0) return null;
+
+  const costs = [...loans]
+    .sort((a, b) => a.lien_position - b.lien_position || a.sort_order - b.sort_order)
+    .map((loan) => calculateLoanCost(loan, draws, project, asOf));
+
+  const sum = (value: (cost: LoanCost) => number) => costs.reduce((total, cost) => total + value(cost), 0);
+
+  const purchaseFunding = sum((cost) => Number(cost.loan.purchase_amount));
+  const pointsAndFees = sum((cost) => cost.pointsCost + cost.lenderFees);
+
+  return {
+    loans: costs,
+    loanAmount: sum((cost) => cost.loanAmount),
+    purchaseFunding,
+    rehabHoldback: sum((cost) => Number(cost.loan.rehab_holdback)),
+    pointsAndFees,
+    interest: sum((cost) => cost.interest),
+    financingCosts: sum((cost) => cost.totalCost),
+    monthlyPayment: sum((cost) => cost.monthlyPayment),
+    cashNeededAtClosing: Math.max(
+      0,
+      (project.purchase_price || 0) + (project.closing_costs || 0) + pointsAndFees - purchaseFunding
+    ),
+  };
+}
+
+/**
+ * Check a loan before saving; returns an error message or null
+ */
+export function validateLoanInput(input: LoanInput): string | null {
+  if (!input.lender_name.trim()) return 'Enter the lender';
+  if (input.purchase_amount < 0 || input.rehab_holdback < 0) return "Loan amounts can't be negative";
+  if (input.purchase_amount + input.rehab_holdback <= 0) return 'Enter the purchase funding or a rehab holdback';
+  if (input.interest_rate < 0 || input.points < 0 || input.lender_fees < 0) return "Rates and fees can't be negative";
+  return null;
+}
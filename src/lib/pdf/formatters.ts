@@ -0,0 +1,57 @@
+/**
+ * Format helpers for PDF content
+ */
+export const pdfFormatters = {
+  currency: (value: number | null | undefined) => {
+    if (value == null) return '$0';
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  },
+
+  /** Currency to the cent, for tax statements */
+  currencyDetailed: (value: number | null | undefined) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value ?? 0);
+  },
+
+  /** Currency with an explicit sign, for variances */
+  signedCurrency: (value: number | null | undefined) => {
+    const amount = value ?? 0;
+    return `${amount >= 0 ? '+' : ''}${pdfFormatters.currency(amount)}`;
+  },
+
+  percent: (value: number | null | undefined) => {
+    if (value == null) return '0%';
+    return `${value.toFixed(1)}%`;
+  },
+
+  date: (value: string | null | undefined) => {
+    if (!value) return 'N/A';
+    return new Date(value).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  },
+
+  number: (value: number | null | undefined) => {
+    if (value == null) return '0';
+    return new Intl.NumberFormat('en-US').format(value);
+  },
+
+  /** Long date for report headers ("January 5, 2026") */
+  longDate: (value: Date = new Date()) =>
+    value.toLocaleDateString('en-US', {
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric',
+    }),
+};
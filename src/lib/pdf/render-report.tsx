@@ -0,0 +1,417 @@
+import { renderToBuffer, type DocumentProps } from '@react-pdf/renderer';
+import type { createClient } from '@/lib/supabase/server';
+import { buildProjectSummary } from '@/lib/deal-analysis';
+import { resolveCalculationSettings } from '@/lib/calculation-settings';
+import { calculateProjectFinancing } from '@/lib/financing';
+import { buildScheduleOfValues, selectDrawPacketPhotos } from '@/lib/draw-packet';
+import { getDrawPayment } from '@/lib/draw-allocations';
+import { buildChangeOrderLines, getChangeOrderFilename, getChangeOrderTotal } from '@/lib/change-orders';
+import { buildCloseoutVariance, getLockedCloseout } from '@/lib/closeout';
+import { getCompAdjustments, valueFromComps } from '@/lib/comps';
+import {
+  TAX_1099_DRAW_SELECT,
+  TAX_1099_RETAINAGE_DRAW_SELECT,
+  build1099Report,
+  get1099StatementFilename,
+  getRetainageProjectIds,
+  getTaxYearDateRange,
+  toTax1099Payments,
+  type Tax1099DrawRow,
+  type Tax1099RetainageDrawRow,
+} from '@/lib/tax-1099';
+import {
+  REPORT_PHOTO_URL_TTL_SECONDS,
+  getProjectReportTitle,
+  isEmbeddablePhoto,
+} from '@/lib/pdf/reports';
+import {
+  ExecutiveSummaryReport,
+  DetailedBudgetReport,
+  DrawScheduleReport,
+  VendorSummaryReport,
+  InvestmentAnalysisReport,
+  PropertyShowcaseReport,
+  DrawPacketReport,
+  VendorPaymentStatement,
+  ChangeOrderReport,
+  PostMortemReport,
+  type PhotoWithUrl,
+} from '@/lib/pdf/templates';
+import type {
+  Project,
+  BudgetItem,
+  Draw,
+  DrawAllocation,
+  Vendor,
+  LineItemPhoto,
+  CalculationSettings,
+  ProjectReportType,
+  ChangeOrderWithItems,
+  ProjectLoan,
+  ProjectCloseout,
+  ProjectComp,
+} from '@/types';
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface RenderedProjectReport {
+  title: string;
+  projectName: string;
+  drawId: string | null;
+  buffer: Buffer;
+}
+
+export interface RenderedVendorStatement {
+  fileName: string;
+  buffer: Buffer;
+}
+
+export interface RenderedChangeOrder {
+  fileName: string;
+  buffer: Buffer;
+}
+
+export class ReportNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportNotFoundError';
+  }
+}
+
+/**
+ * Attach short-lived signed URLs to the embeddable photos. Photos in formats
+ * react-pdf cannot draw (webp, heic) are skipped.
+ */
+async function withSignedUrls(
+  supabase: ServerSupabaseClient,
+  photos: LineItemPhoto[]
+): Promise<PhotoWithUrl[]> {
+  const embeddable = photos.filter((photo) => isEmbeddablePhoto(photo.storage_path));
+  if (embeddable.length === 0) return [];
+
+  const { data, error } = await supabase.storage
+    .from('project-photos')
+    .createSignedUrls(embeddable.map((photo) => photo.storage_path), REPORT_PHOTO_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error signing report photos:', error);
+    return [];
+  }
+
+  const urlByPath = new Map((data ?? []).map((entry) => [entry.path, entry.signedUrl]));
+  return embeddable.map((photo) => ({
+    ...photo,
+    signedUrl: urlByPath.get(photo.storage_path) || null,
+  }));
+}
+
+/**
+ * Load a project's data and render one report to PDF bytes.
+ *
+ * Reads go through the caller's Supabase client, so RLS decides what the
+ * report can see. Throws `ReportNotFoundError` when the project (or the draw
+ * for a draw packet, or the locked closeout for a post-mortem) is missing or
+ * not visible to the caller.
+ *
+ * @param supabase - Server client for the signed-in user
+ * @param projectId - Project to report on
+ * @param type - Which template to render
+ * @param drawId - Draw to cover, required for `draw-packet`
+ */
+export async function renderProjectReport(
+  supabase: ServerSupabaseClient,
+  projectId: string,
+  type: ProjectReportType,
+  drawId?: string | null
+): Promise<RenderedProjectReport> {
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .single();
+
+  if (error || !project) {
+    throw new ReportNotFoundError('Project not found');
+  }
+
+  const [budgetResult, drawsResult, vendorsResult, profilesResult, loansResult] = await Promise.all([
+    supabase
+      .from('budget_items')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('category')
+      .order('sort_order'),
+    supabase
+      .from('draws')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('draw_number'),
+    supabase
+      .from('vendors')
+      .select('*')
+      .order('name'),
+    supabase
+      .from('calculation_settings')
+      .select('*')
+      .order('is_default', { ascending: false })
+      .order('name'),
+    supabase
+      .from('project_loans')
+      .select('*')
+      .eq('project_id', projectId),
+  ]);
+
+  const budgetItems = (budgetResult.data ?? []) as BudgetItem[];
+  const draws = (drawsResult.data ?? []) as Draw[];
+  const vendors = (vendorsResult.data ?? []) as Vendor[];
+  const settings = resolveCalculationSettings(
+    (profilesResult.data ?? []) as CalculationSettings[],
+    (project as Project).calculation_settings_id,
+    (project as Project).user_id
+  );
+  const financing = calculateProjectFinancing(project as Project, (loansResult.data ?? []) as ProjectLoan[], draws);
+  const summary = buildProjectSummary(project as Project, budgetItems, settings, financing);
+
+  let element: React.ReactElement<DocumentProps>;
+  let reportDrawId: string | null = null;
+  let drawNumber: number | null = null;
+
+  switch (type) {
+    case 'property-showcase': {
+      const { data: photos } = await supabase
+        .from('line_item_photos')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false });
+
+      element = (
+        <PropertyShowcaseReport
+          project={summary}
+          budgetItems={budgetItems}
+          photos={await withSignedUrls(supabase, (photos ?? []) as LineItemPhoto[])}
+        />
+      );
+      break;
+    }
+    case 'executive-summary':
+      element = (
+        <ExecutiveSummaryReport project={summary} budgetItems={budgetItems} draws={draws} vendors={vendors} />
+      );
+      break;
+    case 'investment-analysis': {
+      const { data: comps } = await supabase
+        .from('project_comps')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('sale_date', { ascending: false, nullsFirst: false });
+
+      element = (
+        <InvestmentAnalysisReport
+          project={summary}
+          budgetItems={budgetItems}
+          settings={settings}
+          comps={valueFromComps(project as Project, (comps ?? []) as ProjectComp[], getCompAdjustments(project as Project))}
+        />
+      );
+      break;
+    }
+    case 'detailed-budget':
+      element = <DetailedBudgetReport project={summary} budgetItems={budgetItems} vendors={vendors} />;
+      break;
+    case 'vendor-summary':
+      element = (
+        <VendorSummaryReport project={summary} budgetItems={budgetItems} draws={draws} vendors={vendors} />
+      );
+      break;
+    case 'draw-schedule':
+      element = <DrawScheduleReport project={summary} draws={draws} vendors={vendors} />;
+      break;
+    case 'draw-packet': {
+      const draw = draws.find((d) => d.id === drawId);
+      if (!draw) {
+        throw new ReportNotFoundError('Draw not found');
+      }
+
+      const { data: allocations } = await supabase
+        .from('draw_allocations')
+        .select('*')
+        .eq('project_id', projectId);
+
+      const drawAllocations = (allocations ?? []) as DrawAllocation[];
+      const schedule = buildScheduleOfValues(draw, draws, budgetItems, drawAllocations);
+
+      let photos: PhotoWithUrl[] = [];
+      if (schedule.coveredBudgetItemIds.length > 0) {
+        const { data: itemPhotos } = await supabase
+          .from('line_item_photos')
+          .select('*')
+          .eq('project_id', projectId)
+          .in('line_item_id', schedule.coveredBudgetItemIds)
+          .order('created_at');
+
+        photos = await withSignedUrls(
+          supabase,
+          selectDrawPacketPhotos((itemPhotos ?? []) as LineItemPhoto[], schedule.coveredBudgetItemIds)
+        );
+      }
+
+      element = (
+        <DrawPacketReport
+          project={summary}
+          draw={draw}
+          vendor={vendors.find((v) => v.id === draw.vendor_id) || null}
+          budgetItems={budgetItems}
+          schedule={schedule}
+          payment={getDrawPayment(draw, draws, drawAllocations)}
+          photos={photos}
+        />
+      );
+      reportDrawId = draw.id;
+      drawNumber = draw.draw_number;
+      break;
+    }
+    case 'post-mortem': {
+      const { data: closeout } = await supabase
+        .from('project_closeouts')
+        .select('*')
+        .eq('project_id', projectId)
+        .maybeSingle();
+
+      const locked = closeout ? getLockedCloseout(closeout as ProjectCloseout) : null;
+      if (!locked) {
+        throw new ReportNotFoundError('Lock the closeout before generating the post-mortem');
+      }
+
+      element = (
+        <PostMortemReport
+          project={project as Project}
+          closeout={closeout as ProjectCloseout}
+          realized={locked.realized}
+          projection={locked.projection}
+          variance={buildCloseoutVariance(locked.realized, locked.projection)}
+        />
+      );
+      break;
+    }
+  }
+
+  return {
+    title: getProjectReportTitle(type, drawNumber),
+    projectName: summary.name,
+    drawId: reportDrawId,
+    buffer: await renderToBuffer(element),
+  };
+}
+
+/**
+ * Render a vendor's year-end payment statement (the detail behind their
+ * 1099-NEC) from paid draws across every project the caller can see.
+ *
+ * @param supabase - Server client for the signed-in user
+ * @param vendorId - Vendor the statement is for
+ * @param taxYear - Calendar year of date_paid to cover
+ */
+export async function renderVendorPaymentStatement(
+  supabase: ServerSupabaseClient,
+  vendorId: string,
+  taxYear: number
+): Promise<RenderedVendorStatement> {
+  const { data: vendor, error } = await supabase
+    .from('vendors')
+    .select('*')
+    .eq('id', vendorId)
+    .single();
+
+  if (error || !vendor) {
+    throw new ReportNotFoundError('Vendor not found');
+  }
+
+  // Not filtered by draws.vendor_id: the vendor may be paid through another
+  // vendor's draw allocations. The report keeps only this vendor's share.
+  const { start, end } = getTaxYearDateRange(taxYear);
+  const { data: draws } = await supabase
+    .from('draws')
+    .select(TAX_1099_DRAW_SELECT)
+    .eq('status', 'paid')
+    .gte('date_paid', start)
+    .lte('date_paid', end)
+    .overrideTypes<Tax1099DrawRow[], { merge: false }>();
+
+  // Final draws release retainage held on earlier draws, which may predate the year
+  const projectIds = getRetainageProjectIds(draws ?? []);
+  const { data: projectDraws } = projectIds.length
+    ? await supabase
+        .from('draws')
+        .select(TAX_1099_RETAINAGE_DRAW_SELECT)
+        .in('project_id', projectIds)
+        .overrideTypes<Tax1099RetainageDrawRow[], { merge: false }>()
+    : { data: [] };
+
+  const report = build1099Report(
+    taxYear,
+    toTax1099Payments(draws ?? [], projectDraws ?? []),
+    [vendor as Vendor]
+  );
+  const summary = report.vendors[0];
+
+  if (!summary) {
+    throw new ReportNotFoundError(`No payments to this vendor in ${taxYear}`);
+  }
+
+  return {
+    fileName: get1099StatementFilename(summary.vendor.name, taxYear),
+    buffer: await renderToBuffer(<VendorPaymentStatement taxYear={taxYear} summary={summary} />),
+  };
+}
+
+/**
+ * Render one change order with signature lines for the owner and vendor.
+ * Like vendor statements, change order PDFs are rebuilt on each request and
+ * not stored.
+ *
+ * @param supabase - Server client for the signed-in user
+ * @param projectId - Project the change order belongs to
+ * @param changeOrderId - Change order to render
+ */
+export async function renderChangeOrder(
+  supabase: ServerSupabaseClient,
+  projectId: string,
+  changeOrderId: string
+): Promise<RenderedChangeOrder> {
+  const [projectResult, changeOrdersResult, budgetResult] = await Promise.all([
+    supabase.from('projects').select('*').eq('id', projectId).single(),
+    supabase.from('change_orders').select('*, change_order_items(*)').eq('project_id', projectId),
+    supabase.from('budget_items').select('*').eq('project_id', projectId),
+  ]);
+
+  const project = projectResult.data as Project | null;
+  const changeOrders = (changeOrdersResult.data ?? []) as ChangeOrderWithItems[];
+  const changeOrder = changeOrders.find((co) => co.id === changeOrderId);
+
+  if (!project || !changeOrder) {
+    throw new ReportNotFoundError('Change order not found');
+  }
+
+  let vendor: Vendor | null = null;
+  if (changeOrder.vendor_id) {
+    const { data } = await supabase.from('vendors').select('*').eq('id', changeOrder.vendor_id).maybeSingle();
+    vendor = (data as Vendor | null) ?? null;
+  }
+
+  const previousApprovedTotal = changeOrders
+    .filter((co) => co.status === 'approved' && co.number < changeOrder.number)
+    .reduce((sum, co) => sum + getChangeOrderTotal(co), 0);
+
+  return {
+    fileName: getChangeOrderFilename(project.name, changeOrder.number),
+    buffer: await renderToBuffer(
+      <ChangeOrderReport
+        project={project}
+        changeOrder={changeOrder}
+        vendor={vendor}
+        lines={buildChangeOrderLines(changeOrder, (budgetResult.data ?? []) as BudgetItem[])}
+        previousApprovedTotal={previousApprovedTotal}
+      />
+    ),
+  };
+}
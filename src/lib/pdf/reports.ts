@@ -0,0 +1,72 @@
+import { PROJECT_REPORT_TYPE_LABELS, type ProjectReportType } from '@/types';
+
+// ============================================================================
+// PROJECT REPORTS
+// PDFs are rendered on the server (POST /api/projects/[id]/reports), stored
+// in the private project-reports bucket under the project's folder and
+// listed from project_reports so past reports can be downloaded again.
+// ============================================================================
+
+export const PROJECT_REPORT_BUCKET = 'project-reports';
+export const PDF_MIME_TYPE = 'application/pdf';
+
+// Signed photo URLs only need to outlive one render
+export const REPORT_PHOTO_URL_TTL_SECONDS = 300;
+
+// react-pdf can only embed JPEG and PNG images
+const EMBEDDABLE_PHOTO_PATTERN = /\.(jpe?g|png)$/i;
+
+export const PROJECT_REPORT_TYPES = Object.keys(PROJECT_REPORT_TYPE_LABELS) as ProjectReportType[];
+
+export function isProjectReportType(value: unknown): value is ProjectReportType {
+  return typeof value === 'string' && (PROJECT_REPORT_TYPES as string[]).includes(value);
+}
+
+/**
+ * Report types that cover a single draw and need its id.
+ */
+export function isDrawReportType(type: ProjectReportType): boolean {
+  return type === 'draw-packet';
+}
+
+/**
+ * Title shown in the report list, e.g. "Executive Summary" or "Draw #3 Packet".
+ */
+export function getProjectReportTitle(type: ProjectReportType, drawNumber?: number | null): string {
+  if (isDrawReportType(type) && drawNumber != null) {
+    return `Draw #${drawNumber} Packet`;
+  }
+  return PROJECT_REPORT_TYPE_LABELS[type];
+}
+
+/**
+ * Download name for a report: project, title and the date it was generated.
+ */
+export function getProjectReportFilename(projectName: string, title: string, generatedAt: Date = new Date()): string {
+  const safe = (value: string) => value.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  const date = generatedAt.toISOString().slice(0, 10);
+  return `${safe(projectName) || 'Project'}_${safe(title)}_${date}.pdf`;
+}
+
+/**
+ * Storage path for a report; the first folder is the project id, which the
+ * bucket policies check against project ownership.
+ */
+export function buildProjectReportPath(projectId: string, reportId: string): string {
+  return `${projectId}/${reportId}.pdf`;
+}
+
+/**
+ * Whether a stored photo can be embedded in a PDF (by file extension).
+ */
+export function isEmbeddablePhoto(storagePath: string): boolean {
+  return EMBEDDABLE_PHOTO_PATTERN.test(storagePath);
+}
+
+/**
+ * Value for a Content-Disposition header that downloads the file under `fileName`.
+ */
+export function getAttachmentDisposition(fileName: string): string {
+  const ascii = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
@@ -1,135 +1,156 @@
+import { StyleSheet, type Styles } from '@react-pdf/renderer';
+
 /**
- * Shared PDF styles - inline CSS for PDF rendering
- * These styles are designed to work well with print media
+ * Shared PDF styles for @react-pdf/renderer
+ * Units are points (1/72 in). Reports use the built-in Helvetica family, which
+ * only has regular and bold faces: weights of 600 and up render bold.
  */
 
-export const pdfStyles = {
+/** A single react-pdf style object */
+export type PdfStyle = Styles[string];
+
+export const pdfColors = {
+  text: '#1a1a1a',
+  heading: '#0f172a',
+  muted: '#64748b',
+  faint: '#94a3b8',
+  border: '#e2e8f0',
+  borderLight: '#f1f5f9',
+  surface: '#f8fafc',
+  positive: '#16a34a',
+  negative: '#dc2626',
+  primary: '#2563eb',
+} as const;
+
+export const pdfStyles = StyleSheet.create({
   // Base styles
   page: {
-    fontFamily: 'system-ui, -apple-system, sans-serif',
-    fontSize: '10pt',
-    lineHeight: '1.4',
-    color: '#1a1a1a',
+    fontFamily: 'Helvetica',
+    fontSize: 10,
+    lineHeight: 1.4,
+    color: pdfColors.text,
+    paddingTop: 36,
+    paddingBottom: 56,
+    paddingHorizontal: 36,
   },
 
   // Typography
   h1: {
-    fontSize: '24pt',
-    fontWeight: '700',
-    marginBottom: '8pt',
-    color: '#0f172a',
+    fontSize: 24,
+    fontWeight: 700,
+    marginBottom: 8,
+    color: pdfColors.heading,
   },
   h2: {
-    fontSize: '16pt',
-    fontWeight: '600',
-    marginBottom: '6pt',
+    fontSize: 16,
+    fontWeight: 600,
+    marginBottom: 6,
     color: '#1e293b',
   },
   h3: {
-    fontSize: '12pt',
-    fontWeight: '600',
-    marginBottom: '4pt',
+    fontSize: 12,
+    fontWeight: 600,
+    marginBottom: 4,
     color: '#334155',
   },
   small: {
-    fontSize: '8pt',
-    color: '#64748b',
+    fontSize: 8,
+    color: pdfColors.muted,
+  },
+  bold: {
+    fontWeight: 700,
   },
 
   // Layout
-  flexRow: {
-    display: 'flex',
-    flexDirection: 'row' as const,
-    gap: '12pt',
-  },
-  flexCol: {
-    display: 'flex',
-    flexDirection: 'column' as const,
-    gap: '8pt',
+  row: {
+    flexDirection: 'row',
+    gap: 12,
   },
-  grid2: {
-    display: 'grid',
-    gridTemplateColumns: '1fr 1fr',
-    gap: '12pt',
+  col: {
+    flex: 1,
   },
-  grid3: {
-    display: 'grid',
-    gridTemplateColumns: '1fr 1fr 1fr',
-    gap: '12pt',
-  },
-  grid4: {
-    display: 'grid',
-    gridTemplateColumns: '1fr 1fr 1fr 1fr',
-    gap: '12pt',
+  spaceBetween: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
   },
 
   // Components
   card: {
-    border: '1px solid #e2e8f0',
-    borderRadius: '6pt',
-    padding: '12pt',
+    flex: 1,
+    borderWidth: 1,
+    borderColor: pdfColors.border,
+    borderRadius: 6,
+    padding: 12,
     backgroundColor: '#ffffff',
   },
   cardHeader: {
-    borderBottom: '1px solid #e2e8f0',
-    paddingBottom: '8pt',
-    marginBottom: '8pt',
+    borderBottomWidth: 1,
+    borderBottomColor: pdfColors.border,
+    paddingBottom: 8,
+    marginBottom: 8,
   },
 
   // Tables
   table: {
     width: '100%',
-    borderCollapse: 'collapse' as const,
-    fontSize: '9pt',
+    fontSize: 9,
   },
-  th: {
-    backgroundColor: '#f8fafc',
-    borderBottom: '2px solid #e2e8f0',
-    padding: '6pt 8pt',
-    textAlign: 'left' as const,
-    fontWeight: '600',
-    color: '#475569',
+  tr: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: pdfColors.borderLight,
+  },
+  trHead: {
+    backgroundColor: pdfColors.surface,
+    borderBottomWidth: 2,
+    borderBottomColor: pdfColors.border,
+  },
+  trTotal: {
+    backgroundColor: pdfColors.surface,
+    borderTopWidth: 2,
+    borderTopColor: pdfColors.border,
+    fontWeight: 600,
   },
-  td: {
-    borderBottom: '1px solid #f1f5f9',
-    padding: '6pt 8pt',
-    verticalAlign: 'top' as const,
+  cell: {
+    paddingVertical: 6,
+    paddingHorizontal: 8,
   },
-  tdRight: {
-    borderBottom: '1px solid #f1f5f9',
-    padding: '6pt 8pt',
-    verticalAlign: 'top' as const,
-    textAlign: 'right' as const,
-    fontVariantNumeric: 'tabular-nums',
+  cellCompact: {
+    paddingVertical: 4,
+    paddingHorizontal: 6,
+  },
+  th: {
+    fontWeight: 600,
+    color: '#475569',
   },
 
   // Metrics
   metricValue: {
-    fontSize: '20pt',
-    fontWeight: '700',
-    color: '#0f172a',
-    fontVariantNumeric: 'tabular-nums',
+    fontSize: 20,
+    fontWeight: 700,
+    color: pdfColors.heading,
   },
   metricLabel: {
-    fontSize: '9pt',
-    color: '#64748b',
-    textTransform: 'uppercase' as const,
-    letterSpacing: '0.5pt',
+    fontSize: 9,
+    color: pdfColors.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
   },
 
   // Status colors
-  positive: { color: '#16a34a' },
-  negative: { color: '#dc2626' },
-  neutral: { color: '#64748b' },
-  primary: { color: '#2563eb' },
+  positive: { color: pdfColors.positive },
+  negative: { color: pdfColors.negative },
+  neutral: { color: pdfColors.muted },
+  primary: { color: pdfColors.primary },
 
   // Badges
   badge: {
-    display: 'inline-block',
-    padding: '2pt 6pt',
-    borderRadius: '4pt',
-    fontSize: '8pt',
-    fontWeight: '500',
+    alignSelf: 'flex-start',
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+    borderRadius: 4,
+    fontSize: 8,
   },
   badgeGreen: {
     backgroundColor: '#dcfce7',
@@ -148,71 +169,58 @@ export const pdfStyles = {
     color: '#991b1b',
   },
   badgeGray: {
-    backgroundColor: '#f1f5f9',
+    backgroundColor: pdfColors.borderLight,
     color: '#475569',
   },
 
+  // Progress bars
+  barTrack: {
+    height: 8,
+    backgroundColor: pdfColors.border,
+    borderRadius: 4,
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+
+  // Photos
+  photo: {
+    width: '100%',
+    objectFit: 'contain',
+    borderRadius: 4,
+  },
+
   // Spacing
-  mt1: { marginTop: '4pt' },
-  mt2: { marginTop: '8pt' },
-  mt3: { marginTop: '12pt' },
-  mt4: { marginTop: '16pt' },
-  mb1: { marginBottom: '4pt' },
-  mb2: { marginBottom: '8pt' },
-  mb3: { marginBottom: '12pt' },
-  mb4: { marginBottom: '16pt' },
+  mt1: { marginTop: 4 },
+  mt2: { marginTop: 8 },
+  mt3: { marginTop: 12 },
+  mt4: { marginTop: 16 },
+  mb1: { marginBottom: 4 },
+  mb2: { marginBottom: 8 },
+  mb3: { marginBottom: 12 },
+  mb4: { marginBottom: 16 },
 
   // Dividers
   divider: {
-    borderTop: '1px solid #e2e8f0',
-    marginTop: '12pt',
-    marginBottom: '12pt',
+    borderTopWidth: 1,
+    borderTopColor: pdfColors.border,
+    marginTop: 12,
+    marginBottom: 12,
   },
   dividerThick: {
-    borderTop: '2px solid #cbd5e1',
-    marginTop: '16pt',
-    marginBottom: '16pt',
+    borderTopWidth: 2,
+    borderTopColor: '#cbd5e1',
+    marginTop: 16,
+    marginBottom: 16,
   },
-} as const;
+});
 
 /**
- * CSS string for embedding in PDF documents
+ * Color for a variance where over budget (positive) is bad
  */
-export const pdfCssString = `
-  * {
-    box-sizing: border-box;
-  }
-  body {
-    font-family: system-ui, -apple-system, sans-serif;
-    font-size: 10pt;
-    line-height: 1.4;
-    color: #1a1a1a;
-    margin: 0;
-    padding: 0;
-  }
-  h1 { font-size: 24pt; font-weight: 700; margin: 0 0 8pt 0; color: #0f172a; }
-  h2 { font-size: 16pt; font-weight: 600; margin: 0 0 6pt 0; color: #1e293b; }
-  h3 { font-size: 12pt; font-weight: 600; margin: 0 0 4pt 0; color: #334155; }
-  p { margin: 0 0 8pt 0; }
-  table { width: 100%; border-collapse: collapse; font-size: 9pt; }
-  th {
-    background-color: #f8fafc;
-    border-bottom: 2px solid #e2e8f0;
-    padding: 6pt 8pt;
-    text-align: left;
-    font-weight: 600;
-    color: #475569;
-  }
-  td {
-    border-bottom: 1px solid #f1f5f9;
-    padding: 6pt 8pt;
-    vertical-align: top;
-  }
-  .text-right { text-align: right; }
-  .tabular-nums { font-variant-numeric: tabular-nums; }
-  .text-positive { color: #16a34a; }
-  .text-negative { color: #dc2626; }
-  .text-muted { color: #64748b; }
-  .font-bold { font-weight: 700; }
-  .font-semibold { font-weight: 600; }
-`;
+export function varianceColor(variance: number): string | undefined {
+  if (variance > 0) return pdfColors.negative;
+  if (variance < 0) return pdfColors.positive;
+  return undefined;
+}
@@ -0,0 +1,155 @@
+import { View, Text } from '@react-pdf/renderer';
+import { pdfStyles, varianceColor } from '@/lib/pdf/styles';
+import { pdfFormatters } from '@/lib/pdf/formatters';
+import {
+  ReportDocument,
+  PdfHeader,
+  PdfFooter,
+  MetricRow,
+  Section,
+  StatusBadge,
+  Divider,
+  Table,
+  Tr,
+  Th,
+  Td,
+} from '@/components/pdf/shared';
+import { formatChangeOrderNumber, type ChangeOrderLine } from '@/lib/change-orders';
+import { CHANGE_ORDER_REASON_LABELS, type ChangeOrder, type Project, type Vendor } from '@/types';
+
+interface ChangeOrderReportProps {
+  project: Project;
+  changeOrder: ChangeOrder;
+  vendor: Vendor | null;
+  lines: ChangeOrderLine[];
+  /** Net of the project's other approved change orders numbered before this one */
+  previousApprovedTotal: number;
+}
+
+const labelCell = { fontWeight: 600 };
+
+/**
+ * A single change order for the vendor's signature: the scope change, the
+ * budget lines it moves and where it leaves the running change order total.
+ */
+export function ChangeOrderReport({ project, changeOrder, vendor, lines, previousApprovedTotal }: ChangeOrderReportProps) {
+  const fmt = pdfFormatters;
+  const coNumber = formatChangeOrderNumber(changeOrder.number);
+  const total = lines.reduce((sum, line) => sum + line.delta, 0);
+  const address = `${project.address || project.name}${project.city ? `, ${project.city}` : ''}${project.state ? `, ${project.state}` : ''}`;
+
+  return (
+    <ReportDocument title={`${project.name} - Change Order ${changeOrder.number}`}>
+      <PdfHeader title={`Change Order #${changeOrder.number}`} subtitle={address} date={fmt.longDate()} />
+
+      <PdfFooter projectName={project.name} confidential />
+
+      <Section title="Change Order">
+        <MetricRow
+          items={[
+            { label: 'Net Change', value: fmt.signedCurrency(total), variant: 'primary' },
+            { label: 'Reason', value: CHANGE_ORDER_REASON_LABELS[changeOrder.reason_code] },
+            { label: 'Lines Affected', value: lines.length.toString() },
+            {
+              label: 'Submitted',
+              value: changeOrder.submitted_at ? fmt.date(changeOrder.submitted_at) : '-',
+            },
+          ]}
+        />
+
+        <Table style={pdfStyles.mt3}>
+          <Tr>
+            <Td width="30%" style={labelCell}>Project</Td>
+            <Td width="70%">{project.name}</Td>
+          </Tr>
+          <Tr>
+            <Td width="30%" style={labelCell}>Vendor</Td>
+            <Td width="70%">{vendor?.name || '-'}</Td>
+          </Tr>
+          <Tr>
+            <Td width="30%" style={labelCell}>Change</Td>
+            <Td width="70%">{changeOrder.title}</Td>
+          </Tr>
+          {changeOrder.description && (
+            <Tr>
+              <Td width="30%" style={labelCell}>Description</Td>
+              <Td width="70%">{changeOrder.description}</Td>
+            </Tr>
+          )}
+          <Tr>
+            <Td width="30%" style={labelCell}>Status</Td>
+            <Td width="70%">
+              <StatusBadge status={changeOrder.status} />
+            </Td>
+          </Tr>
+        </Table>
+      </Section>
+
+      <Section title="Budget Lines">
+        <Table>
+          <Tr variant="head">
+            <Th width="34%">Line Item</Th>
+            <Th width="18%">Category</Th>
+            <Th width="16%" align="right">Before</Th>
+            <Th width="16%" align="right">Change</Th>
+            <Th width="16%" align="right">Revised</Th>
+          </Tr>
+          {lines.map((line) => (
+            <Tr key={line.budgetItemId}>
+              <Td width="34%">{line.notes ? `${line.item}\n${line.notes}` : line.item}</Td>
+              <Td width="18%">{line.categoryLabel}</Td>
+              <Td width="16%" align="right">{fmt.currencyDetailed(line.before)}</Td>
+              <Td width="16%" align="right" style={{ color: varianceColor(line.delta) }}>
+                {`${line.delta >= 0 ? '+' : ''}${fmt.currencyDetailed(line.delta)}`}
+              </Td>
+              <Td width="16%" align="right">{fmt.currencyDetailed(line.after)}</Td>
+            </Tr>
+          ))}
+          <Tr variant="total">
+            <Td width="52%">Total</Td>
+            <Td width="16%" align="right">
+              {fmt.currencyDetailed(lines.reduce((sum, line) => sum + line.before, 0))}
+            </Td>
+            <Td width="16%" align="right">{`${total >= 0 ? '+' : ''}${fmt.currencyDetailed(total)}`}</Td>
+            <Td width="16%" align="right">{fmt.currencyDetailed(lines.reduce((sum, line) => sum + line.after, 0))}</Td>
+          </Tr>
+        </Table>
+      </Section>
+
+      <Section title="Change Order Summary">
+        <MetricRow
+          items={[
+            { label: 'Previous Change Orders', value: fmt.signedCurrency(previousApprovedTotal), sublabel: 'Approved' },
+            { label: 'This Change Order', value: fmt.signedCurrency(total), sublabel: coNumber },
+            {
+              label: 'Total Change Orders',
+              value: fmt.signedCurrency(previousApprovedTotal + total),
+              variant: 'primary',
+            },
+          ]}
+        />
+      </Section>
+
+      <Divider />
+
+      {/* Signatures */}
+      <View wrap={false}>
+        <Section title="Acceptance">
+          <Text style={{ ...pdfStyles.small, marginBottom: 24 }}>
+            The undersigned agree to the change in scope and cost described above. Unless stated otherwise,
+            all other terms of the original agreement remain in effect, and the amounts above are the full
+            adjustment for this change.
+          </Text>
+          <View style={{ flexDirection: 'row', gap: 32 }}>
+            {['Owner', vendor?.name ? `Vendor (${vendor.name})` : 'Vendor'].map((role) => (
+              <View key={role} style={pdfStyles.col}>
+                <View style={{ borderBottomWidth: 1, borderBottomColor: '#0f172a', height: 24 }} />
+                <Text style={{ ...pdfStyles.small, marginTop: 4 }}>{role} Signature / Date</Text>
+              </View>
+            ))}
+          </View>
+        </Section>
+      </View>
+    </ReportDocument>
+  );
+}
@@ -1,15 +1,20 @@
-import { PageBreak } from '@fileforge/react-print';
-import { pdfStyles } from '@/lib/pdf/styles';
-import { pdfFormatters } from '@/lib/pdf/compile';
+import { View, Text } from '@react-pdf/renderer';
+import { pdfStyles, varianceColor } from '@/lib/pdf/styles';
+import { pdfFormatters } from '@/lib/pdf/formatters';
 import {
+  ReportDocument,
   PdfHeader,
   PdfFooter,
   Section,
   StatusBadge,
   Divider,
+  Table,
+  Tr,
+  Th,
+  Td,
 } from '@/components/pdf/shared';
 import type { ProjectSummary, BudgetItem, Vendor } from '@/types';
-import { BUDGET_CATEGORIES, STATUS_LABELS } from '@/types';
+import { BUDGET_CATEGORIES } from '@/types';
 
 interface DetailedBudgetProps {
   project: ProjectSummary;
@@ -17,17 +22,16 @@ interface DetailedBudgetProps {
   vendors: Vendor[];
 }
 
+const totalLabel = { ...pdfStyles.metricLabel, color: '#cbd5e1' };
+const totalValue = { fontSize: 16, fontWeight: 700 };
+
 export function DetailedBudgetReport({
   project,
   budgetItems,
   vendors,
 }: DetailedBudgetProps) {
   const fmt = pdfFormatters;
-  const generatedDate = new Date().toLocaleDateString('en-US', {
-    month: 'long',
-    day: 'numeric',
-    year: 'numeric',
-  });
+  const generatedDate = fmt.longDate();
 
   // Create vendor lookup
   const vendorMap = new Map(vendors.map((v) => [v.id, v]));
@@ -52,9 +56,10 @@ export function DetailedBudgetReport({
     forecast: budgetItems.reduce((sum, item) => sum + (item.forecast_amount || 0), 0),
     actual: budgetItems.reduce((sum, item) => sum + (item.actual_amount || 0), 0),
   };
+  const totalVariance = totals.actual - totals.forecast;
 
   return (
-    <div style={pdfStyles.page}>
+    <ReportDocument title={`${project.name} - Detailed Budget`}>
       <PdfHeader
         title="Detailed Budget Report"
         subtitle={`${project.address || project.name}${project.city ? `, ${project.city}` : ''}`}
@@ -64,195 +69,137 @@ export function DetailedBudgetReport({
       <PdfFooter projectName={project.name} confidential />
 
       {/* Summary Header */}
-      <div
+      <View
         style={{
-          display: 'grid',
-          gridTemplateColumns: 'repeat(4, 1fr)',
-          gap: '12pt',
-          marginBottom: '16pt',
-          padding: '12pt',
+          ...pdfStyles.row,
+          marginBottom: 16,
+          padding: 12,
           backgroundColor: '#f8fafc',
-          borderRadius: '6pt',
+          borderRadius: 6,
         }}
       >
-        <div>
-          <div style={pdfStyles.metricLabel}>Underwriting</div>
-          <div style={{ fontSize: '16pt', fontWeight: '700', color: '#1e40af' }}>
-            {fmt.currency(totals.underwriting)}
-          </div>
-        </div>
-        <div>
-          <div style={pdfStyles.metricLabel}>Forecast</div>
-          <div style={{ fontSize: '16pt', fontWeight: '700', color: '#059669' }}>
-            {fmt.currency(totals.forecast)}
-          </div>
-        </div>
-        <div>
-          <div style={pdfStyles.metricLabel}>Actual</div>
-          <div style={{ fontSize: '16pt', fontWeight: '700', color: '#7c3aed' }}>
-            {fmt.currency(totals.actual)}
-          </div>
-        </div>
-        <div>
-          <div style={pdfStyles.metricLabel}>Total Variance</div>
-          <div
+        <View style={pdfStyles.col}>
+          <Text style={pdfStyles.metricLabel}>Underwriting</Text>
+          <Text style={{ ...totalValue, color: '#1e40af' }}>{fmt.currency(totals.underwriting)}</Text>
+        </View>
+        <View style={pdfStyles.col}>
+          <Text style={pdfStyles.metricLabel}>Forecast</Text>
+          <Text style={{ ...totalValue, color: '#059669' }}>{fmt.currency(totals.forecast)}</Text>
+        </View>
+        <View style={pdfStyles.col}>
+          <Text style={pdfStyles.metricLabel}>Actual</Text>
+          <Text style={{ ...totalValue, color: '#7c3aed' }}>{fmt.currency(totals.actual)}</Text>
+        </View>
+        <View style={pdfStyles.col}>
+          <Text style={pdfStyles.metricLabel}>Total Variance</Text>
+          <Text
             style={{
-              fontSize: '16pt',
-              fontWeight: '700',
-              color: totals.actual - totals.forecast > 0 ? pdfStyles.negative.color : pdfStyles.positive.color,
+              ...totalValue,
+              color: totalVariance > 0 ? pdfStyles.negative.color : pdfStyles.positive.color,
             }}
           >
-            {totals.actual - totals.forecast >= 0 ? '+' : ''}
-            {fmt.currency(totals.actual - totals.forecast)}
-          </div>
-        </div>
-      </div>
+            {fmt.signedCurrency(totalVariance)}
+          </Text>
+        </View>
+      </View>
 
       {/* Budget Detail by Category */}
-      {itemsByCategory.map((category, catIndex) => {
-        const catForecastVar = category.forecast - category.underwriting;
+      {itemsByCategory.map((category) => {
         const catActualVar = category.actual - (category.forecast || category.underwriting);
 
         return (
-          <div key={category.value}>
-            {catIndex > 0 && catIndex % 3 === 0 && <PageBreak />}
-
-            <Section title={category.label}>
-              <table style={pdfStyles.table}>
-                <thead>
-                  <tr>
-                    <th style={{ ...pdfStyles.th, width: '25%' }}>Item</th>
-                    <th style={{ ...pdfStyles.th, width: '15%' }}>Vendor</th>
-                    <th style={{ ...pdfStyles.th, textAlign: 'right', width: '12%' }}>Underwriting</th>
-                    <th style={{ ...pdfStyles.th, textAlign: 'right', width: '12%' }}>Forecast</th>
-                    <th style={{ ...pdfStyles.th, textAlign: 'right', width: '12%' }}>Actual</th>
-                    <th style={{ ...pdfStyles.th, textAlign: 'right', width: '12%' }}>Variance</th>
-                    <th style={{ ...pdfStyles.th, width: '12%' }}>Status</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {category.items.map((item) => {
-                    const vendor = item.vendor_id ? vendorMap.get(item.vendor_id) : null;
-                    const variance = (item.actual_amount || 0) - ((item.forecast_amount || item.underwriting_amount) || 0);
+          <Section key={category.value} title={category.label}>
+            <Table>
+              <Tr variant="head">
+                <Th width="25%">Item</Th>
+                <Th width="15%">Vendor</Th>
+                <Th width="12%" align="right">Underwriting</Th>
+                <Th width="12%" align="right">Forecast</Th>
+                <Th width="12%" align="right">Actual</Th>
+                <Th width="12%" align="right">Variance</Th>
+                <Th width="12%">Status</Th>
+              </Tr>
+              {category.items.map((item) => {
+                const vendor = item.vendor_id ? vendorMap.get(item.vendor_id) : null;
+                const variance = (item.actual_amount || 0) - ((item.forecast_amount || item.underwriting_amount) || 0);
 
-                    return (
-                      <tr key={item.id}>
-                        <td style={pdfStyles.td}>
-                          <div style={{ fontWeight: '500' }}>{item.item}</div>
-                          {item.description && (
-                            <div style={{ fontSize: '8pt', color: '#64748b' }}>{item.description}</div>
-                          )}
-                        </td>
-                        <td style={{ ...pdfStyles.td, fontSize: '8pt' }}>
-                          {vendor?.name || '-'}
-                        </td>
-                        <td style={pdfStyles.tdRight}>{fmt.currency(item.underwriting_amount)}</td>
-                        <td style={pdfStyles.tdRight}>{fmt.currency(item.forecast_amount)}</td>
-                        <td style={pdfStyles.tdRight}>{fmt.currency(item.actual_amount || 0)}</td>
-                        <td
-                          style={{
-                            ...pdfStyles.tdRight,
-                            color: variance > 0 ? pdfStyles.negative.color : variance < 0 ? pdfStyles.positive.color : 'inherit',
-                          }}
-                        >
-                          {variance >= 0 ? '+' : ''}{fmt.currency(variance)}
-                        </td>
-                        <td style={pdfStyles.td}>
-                          <StatusBadge status={item.status} />
-                        </td>
-                      </tr>
-                    );
-                  })}
-                </tbody>
-                <tfoot>
-                  <tr style={{ backgroundColor: '#f1f5f9' }}>
-                    <td
-                      style={{ ...pdfStyles.td, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}
-                      colSpan={2}
-                    >
-                      {category.label} Total
-                    </td>
-                    <td style={{ ...pdfStyles.tdRight, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                      {fmt.currency(category.underwriting)}
-                    </td>
-                    <td style={{ ...pdfStyles.tdRight, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                      {fmt.currency(category.forecast)}
-                    </td>
-                    <td style={{ ...pdfStyles.tdRight, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                      {fmt.currency(category.actual)}
-                    </td>
-                    <td
-                      style={{
-                        ...pdfStyles.tdRight,
-                        fontWeight: '600',
-                        borderTop: '2px solid #e2e8f0',
-                        color: catActualVar > 0 ? pdfStyles.negative.color : catActualVar < 0 ? pdfStyles.positive.color : 'inherit',
-                      }}
-                    >
-                      {catActualVar >= 0 ? '+' : ''}{fmt.currency(catActualVar)}
-                    </td>
-                    <td style={{ ...pdfStyles.td, borderTop: '2px solid #e2e8f0' }}></td>
-                  </tr>
-                </tfoot>
-              </table>
-            </Section>
-          </div>
+                return (
+                  <Tr key={item.id}>
+                    <Td width="25%">
+                      <Text>{item.item}</Text>
+                      {item.description && (
+                        <Text style={pdfStyles.small}>{item.description}</Text>
+                      )}
+                    </Td>
+                    <Td width="15%" style={{ fontSize: 8 }}>
+                      {vendor?.name || '-'}
+                    </Td>
+                    <Td width="12%" align="right">{fmt.currency(item.underwriting_amount)}</Td>
+                    <Td width="12%" align="right">{fmt.currency(item.forecast_amount)}</Td>
+                    <Td width="12%" align="right">{fmt.currency(item.actual_amount || 0)}</Td>
+                    <Td width="12%" align="right" style={{ color: varianceColor(variance) }}>
+                      {fmt.signedCurrency(variance)}
+                    </Td>
+                    <Td width="12%">
+                      <StatusBadge status={item.status} />
+                    </Td>
+                  </Tr>
+                );
+              })}
+              <Tr variant="total" style={{ backgroundColor: '#f1f5f9' }}>
+                <Td width="40%">{category.label} Total</Td>
+                <Td width="12%" align="right">{fmt.currency(category.underwriting)}</Td>
+                <Td width="12%" align="right">{fmt.currency(category.forecast)}</Td>
+                <Td width="12%" align="right">{fmt.currency(category.actual)}</Td>
+                <Td width="12%" align="right" style={{ color: varianceColor(catActualVar) }}>
+                  {fmt.signedCurrency(catActualVar)}
+                </Td>
+                <Td width="12%" />
+              </Tr>
+            </Table>
+          </Section>
         );
       })}
 
       <Divider />
 
       {/* Grand Total */}
-      <div
+      <View
+        wrap={false}
         style={{
-          padding: '16pt',
+          ...pdfStyles.row,
+          gap: 16,
+          padding: 16,
           backgroundColor: '#0f172a',
           color: 'white',
-          borderRadius: '6pt',
+          borderRadius: 6,
         }}
       >
-        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '16pt' }}>
-          <div>
-            <div style={{ fontSize: '9pt', opacity: 0.7, textTransform: 'uppercase', letterSpacing: '0.5pt' }}>
-              Underwriting Total
-            </div>
-            <div style={{ fontSize: '18pt', fontWeight: '700' }}>{fmt.currency(totals.underwriting)}</div>
-          </div>
-          <div>
-            <div style={{ fontSize: '9pt', opacity: 0.7, textTransform: 'uppercase', letterSpacing: '0.5pt' }}>
-              Forecast Total
-            </div>
-            <div style={{ fontSize: '18pt', fontWeight: '700' }}>{fmt.currency(totals.forecast)}</div>
-          </div>
-          <div>
-            <div style={{ fontSize: '9pt', opacity: 0.7, textTransform: 'uppercase', letterSpacing: '0.5pt' }}>
-              Actual Total
-            </div>
-            <div style={{ fontSize: '18pt', fontWeight: '700' }}>{fmt.currency(totals.actual)}</div>
-          </div>
-          <div>
-            <div style={{ fontSize: '9pt', opacity: 0.7, textTransform: 'uppercase', letterSpacing: '0.5pt' }}>
-              Net Variance
-            </div>
-            <div
-              style={{
-                fontSize: '18pt',
-                fontWeight: '700',
-                color: totals.actual - totals.forecast > 0 ? '#fca5a5' : '#86efac',
-              }}
-            >
-              {totals.actual - totals.forecast >= 0 ? '+' : ''}
-              {fmt.currency(totals.actual - totals.forecast)}
-            </div>
-          </div>
-        </div>
-      </div>
+        <View style={pdfStyles.col}>
+          <Text style={totalLabel}>Underwriting Total</Text>
+          <Text style={totalValue}>{fmt.currency(totals.underwriting)}</Text>
+        </View>
+        <View style={pdfStyles.col}>
+          <Text style={totalLabel}>Forecast Total</Text>
+          <Text style={totalValue}>{fmt.currency(totals.forecast)}</Text>
+        </View>
+        <View style={pdfStyles.col}>
+          <Text style={totalLabel}>Actual Total</Text>
+          <Text style={totalValue}>{fmt.currency(totals.actual)}</Text>
+        </View>
+        <View style={pdfStyles.col}>
+          <Text style={totalLabel}>Net Variance</Text>
+          <Text style={{ ...totalValue, color: totalVariance > 0 ? '#fca5a5' : '#86efac' }}>
+            {fmt.signedCurrency(totalVariance)}
+          </Text>
+        </View>
+      </View>
 
       {/* Contingency Note */}
-      <div style={{ marginTop: '12pt', ...pdfStyles.small, textAlign: 'center' }}>
+      <Text style={{ ...pdfStyles.small, marginTop: 12, textAlign: 'center' }}>
         Contingency of {project.contingency_percent}% ({fmt.currency(project.contingency_amount)}) not included in line items above.
         Total budget with contingency: {fmt.currency(project.rehab_budget_with_contingency)}
-      </div>
-    </div>
+      </Text>
+    </ReportDocument>
   );
 }
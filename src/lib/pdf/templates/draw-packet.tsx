@@ -0,0 +1,278 @@
+import { View, Text } from '@react-pdf/renderer';
+import { pdfStyles } from '@/lib/pdf/styles';
+import { pdfFormatters } from '@/lib/pdf/formatters';
+import {
+  ReportDocument,
+  PdfHeader,
+  PdfFooter,
+  MetricRow,
+  Section,
+  Subsection,
+  StatusBadge,
+  Divider,
+  PdfPhoto,
+  Table,
+  Tr,
+  Th,
+  Td,
+} from '@/components/pdf/shared';
+import type { ScheduleOfValues } from '@/lib/draw-packet';
+import type { DrawPayment } from '@/lib/draw-allocations';
+import type { PhotoWithUrl } from './property-showcase';
+import type { ProjectSummary, Draw, Vendor, BudgetItem } from '@/types';
+
+interface DrawPacketProps {
+  project: ProjectSummary;
+  draw: Draw;
+  vendor: Vendor | null;
+  budgetItems: BudgetItem[];
+  schedule: ScheduleOfValues;
+  /** Retainage withheld from / released with this draw */
+  payment: DrawPayment;
+  /** Receipt and progress photos for the line items this draw covers */
+  photos: PhotoWithUrl[];
+}
+
+const MILESTONE_LABELS: Record<string, string> = {
+  project_start: 'Project Start',
+  demo_complete: 'Demo Complete',
+  rough_in: 'Rough-In',
+  drywall: 'Drywall',
+  finishes: 'Finishes',
+  final: 'Final',
+};
+
+
+const labelCell = { fontWeight: 600 };
+
+/**
+ * Lender draw packet: cover sheet, schedule of values, the line items this
+ * draw pays for, and their receipt/progress photos.
+ */
+export function DrawPacketReport({
+  project,
+  draw,
+  vendor,
+  budgetItems,
+  schedule,
+  payment,
+  photos,
+}: DrawPacketProps) {
+  const fmt = pdfFormatters;
+  const generatedDate = fmt.longDate();
+
+  const { totals } = schedule;
+  const totalBudget = project.rehab_budget_with_contingency;
+  const coveredLines = schedule.rows.flatMap((row) =>
+    row.lines.filter((line) => line.thisDraw > 0).map((line) => ({ ...line, category: row.label }))
+  );
+  const unallocated = draw.amount - totals.thisDraw;
+
+  // Photos grouped by line item, in schedule order
+  const itemNames = new Map(budgetItems.map((item) => [item.id, item.item]));
+  const photoGroups = coveredLines
+    .map((line) => ({
+      itemName: itemNames.get(line.budgetItemId) || line.item,
+      photos: photos.filter((p) => p.line_item_id === line.budgetItemId && p.signedUrl),
+    }))
+    .filter((group) => group.photos.length > 0);
+
+  return (
+    <ReportDocument title={`${project.name} - Draw #${draw.draw_number} Packet`}>
+      <PdfHeader
+        title={`Draw Request #${draw.draw_number}`}
+        subtitle={`${project.address || project.name}${project.city ? `, ${project.city}` : ''}${project.state ? `, ${project.state}` : ''}`}
+        date={generatedDate}
+      />
+
+      <PdfFooter projectName={project.name} confidential />
+
+      {/* Cover Sheet */}
+      <Section title="Draw Request">
+        <MetricRow
+          items={[
+            { label: 'Amount Requested', value: fmt.currency(draw.amount), variant: 'primary' },
+            { label: 'Requested', value: fmt.date(draw.date_requested) },
+            { label: 'Milestone', value: draw.milestone ? MILESTONE_LABELS[draw.milestone] || draw.milestone : '-' },
+            { label: 'Work Complete', value: draw.percent_complete != null ? `${draw.percent_complete}%` : '-' },
+          ]}
+        />
+
+        <Table style={pdfStyles.mt3}>
+          <Tr>
+            <Td width="30%" style={labelCell}>Project</Td>
+            <Td width="70%">{project.name}</Td>
+          </Tr>
+          <Tr>
+            <Td width="30%" style={labelCell}>Property</Td>
+            <Td width="70%">
+              {`${project.address || '-'}${project.city ? `, ${project.city}` : ''}${project.state ? `, ${project.state}` : ''} ${project.zip || ''}`.trim()}
+            </Td>
+          </Tr>
+          <Tr>
+            <Td width="30%" style={labelCell}>Payee</Td>
+            <Td width="70%">{vendor?.name || '-'}</Td>
+          </Tr>
+          <Tr>
+            <Td width="30%" style={labelCell}>Status</Td>
+            <Td width="70%">
+              <StatusBadge status={draw.status} />
+            </Td>
+          </Tr>
+          {draw.description && (
+            <Tr>
+              <Td width="30%" style={labelCell}>Work Completed</Td>
+              <Td width="70%">{draw.description}</Td>
+            </Tr>
+          )}
+        </Table>
+      </Section>
+
+      <Section title="Funding Summary">
+        <MetricRow
+          items={[
+            { label: 'Rehab Budget', value: fmt.currency(totalBudget), sublabel: 'With contingency' },
+            { label: 'Previously Drawn', value: fmt.currency(totals.previouslyDrawn) },
+            { label: 'This Draw', value: fmt.currency(totals.thisDraw), variant: 'primary' },
+            {
+              label: 'Remaining',
+              value: fmt.currency(totalBudget - totals.totalDrawn),
+              variant: totalBudget - totals.totalDrawn >= 0 ? 'positive' : 'negative',
+            },
+          ]}
+        />
+        {(payment.retainage > 0 || payment.released > 0) && (
+          <View style={pdfStyles.mt3}>
+            <MetricRow
+              items={[
+                { label: 'Gross Draw', value: fmt.currency(payment.gross) },
+                { label: 'Retainage Held', value: fmt.currency(payment.retainage) },
+                { label: 'Retainage Released', value: fmt.currency(payment.released) },
+                { label: 'Net Payable', value: fmt.currency(payment.net), variant: 'primary' },
+              ]}
+            />
+          </View>
+        )}
+        {Math.abs(unallocated) >= 0.01 && (
+          <Text style={{ ...pdfStyles.small, marginTop: 8 }}>
+            {fmt.currency(Math.abs(unallocated))} of this draw is{' '}
+            {unallocated > 0 ? 'not allocated to budget lines' : 'over-allocated to budget lines'}.
+          </Text>
+        )}
+      </Section>
+
+      <Divider />
+
+      {/* Certification */}
+      <View wrap={false}>
+        <Section title="Certification">
+          <Text style={{ ...pdfStyles.small, marginBottom: 24 }}>
+            The undersigned certifies that the work covered by this draw has been completed in accordance
+            with the project budget, that all amounts previously drawn have been applied to the line items
+            shown, and that the attached receipts and photos are accurate.
+          </Text>
+          <View style={{ flexDirection: 'row', gap: 32 }}>
+            {['Borrower', 'Lender / Inspector'].map((role) => (
+              <View key={role} style={pdfStyles.col}>
+                <View style={{ borderBottomWidth: 1, borderBottomColor: '#0f172a', height: 24 }} />
+                <Text style={{ ...pdfStyles.small, marginTop: 4 }}>{role} Signature / Date</Text>
+              </View>
+            ))}
+          </View>
+        </Section>
+      </View>
+
+      {/* Schedule of Values */}
+      <Section
+        break
+        title="Schedule of Values"
+        subtitle={`Budget by category with amounts drawn through Draw #${draw.draw_number}`}
+      >
+        <Table>
+          <Tr variant="head">
+            <Th span={2}>Category</Th>
+            <Th align="right">Budgeted</Th>
+            <Th align="right">Previously Drawn</Th>
+            <Th align="right">This Draw</Th>
+            <Th align="right">% Complete</Th>
+            <Th align="right">Balance</Th>
+          </Tr>
+          {schedule.rows.map((row) => (
+            <Tr key={row.category}>
+              <Td span={2}>{row.label}</Td>
+              <Td align="right">{fmt.currency(row.budgeted)}</Td>
+              <Td align="right">{fmt.currency(row.previouslyDrawn)}</Td>
+              <Td align="right" style={{ fontWeight: row.thisDraw > 0 ? 600 : 400 }}>
+                {fmt.currency(row.thisDraw)}
+              </Td>
+              <Td align="right">{fmt.percent(row.percentComplete)}</Td>
+              <Td align="right" style={row.balanceToFinish < 0 ? pdfStyles.negative : undefined}>
+                {fmt.currency(row.balanceToFinish)}
+              </Td>
+            </Tr>
+          ))}
+          <Tr variant="total">
+            <Td span={2}>Total</Td>
+            <Td align="right">{fmt.currency(totals.budgeted)}</Td>
+            <Td align="right">{fmt.currency(totals.previouslyDrawn)}</Td>
+            <Td align="right">{fmt.currency(totals.thisDraw)}</Td>
+            <Td align="right">{fmt.percent(totals.percentComplete)}</Td>
+            <Td align="right">{fmt.currency(totals.balanceToFinish)}</Td>
+          </Tr>
+        </Table>
+      </Section>
+
+      <Section title="Line Items in This Draw">
+        {coveredLines.length === 0 ? (
+          <View style={pdfStyles.card}>
+            <Text style={{ textAlign: 'center', color: '#64748b' }}>
+              This draw has not been allocated to budget line items.
+            </Text>
+          </View>
+        ) : (
+          <Table>
+            <Tr variant="head">
+              <Th span={2}>Line Item</Th>
+              <Th span={2}>Category</Th>
+              <Th align="right">Budgeted</Th>
+              <Th align="right">Previously Drawn</Th>
+              <Th align="right">This Draw</Th>
+              <Th align="right">% Complete</Th>
+            </Tr>
+            {coveredLines.map((line) => (
+              <Tr key={line.budgetItemId}>
+                <Td span={2}>{line.item}</Td>
+                <Td span={2} style={{ fontSize: 8 }}>{line.category}</Td>
+                <Td align="right">{fmt.currency(line.budgeted)}</Td>
+                <Td align="right">{fmt.currency(line.previouslyDrawn)}</Td>
+                <Td align="right" style={{ fontWeight: 600 }}>{fmt.currency(line.thisDraw)}</Td>
+                <Td align="right">{fmt.percent(line.percentComplete)}</Td>
+              </Tr>
+            ))}
+          </Table>
+        )}
+      </Section>
+
+      {/* Receipts & Progress Photos */}
+      {photoGroups.length > 0 && (
+        <Section title="Receipts & Progress Photos" break>
+          {photoGroups.map((group) => (
+            <Subsection key={group.itemName} title={group.itemName}>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+                {group.photos.map((photo) => (
+                  <PdfPhoto
+                    key={photo.id}
+                    src={photo.signedUrl!}
+                    height={200}
+                    style={{ width: '48%' }}
+                    caption={`${photo.photo_type === 'receipt' ? 'Receipt' : 'Progress'}${photo.caption ? ` - ${photo.caption}` : ''}`}
+                  />
+                ))}
+              </View>
+            </Subsection>
+          ))}
+        </Section>
+      )}
+    </ReportDocument>
+  );
+}
@@ -1,12 +1,18 @@
+import { View, Text } from '@react-pdf/renderer';
 import { pdfStyles } from '@/lib/pdf/styles';
-import { pdfFormatters } from '@/lib/pdf/compile';
+import { pdfFormatters } from '@/lib/pdf/formatters';
 import {
+  ReportDocument,
   PdfHeader,
   PdfFooter,
   MetricRow,
   Section,
   StatusBadge,
   Divider,
+  Table,
+  Tr,
+  Th,
+  Td,
 } from '@/components/pdf/shared';
 import type { ProjectSummary, Draw, Vendor } from '@/types';
 
@@ -41,11 +47,7 @@ export function DrawScheduleReport({
   vendors,
 }: DrawScheduleProps) {
   const fmt = pdfFormatters;
-  const generatedDate = new Date().toLocaleDateString('en-US', {
-    month: 'long',
-    day: 'numeric',
-    year: 'numeric',
-  });
+  const generatedDate = fmt.longDate();
 
   // Create vendor lookup
   const vendorMap = new Map(vendors.map((v) => [v.id, v]));
@@ -69,7 +71,7 @@ export function DrawScheduleReport({
     : 0;
 
   return (
-    <div style={pdfStyles.page}>
+    <ReportDocument title={`${project.name} - Draw Schedule`}>
       <PdfHeader
         title="Draw Schedule"
         subtitle={`${project.address || project.name}${project.city ? `, ${project.city}` : ''}`}
@@ -88,7 +90,7 @@ export function DrawScheduleReport({
             { label: 'Pending', value: fmt.currency(totalPending), variant: totalPending > 0 ? 'default' : 'positive' },
           ]}
         />
-        <div style={{ marginTop: '12pt' }}>
+        <View style={pdfStyles.mt3}>
           <MetricRow
             items={[
               { label: 'Total Draws', value: draws.length.toString() },
@@ -97,104 +99,84 @@ export function DrawScheduleReport({
               { label: 'Budget Funded', value: `${budgetProgress}%` },
             ]}
           />
-        </div>
+        </View>
       </Section>
 
       <Divider />
 
       {/* Progress Bar */}
-      <div style={{ marginBottom: '16pt' }}>
-        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4pt' }}>
-          <span style={pdfStyles.small}>Funding Progress</span>
-          <span style={{ ...pdfStyles.small, fontWeight: '600' }}>{budgetProgress}%</span>
-        </div>
-        <div
-          style={{
-            height: '12pt',
-            backgroundColor: '#e2e8f0',
-            borderRadius: '6pt',
-            overflow: 'hidden',
-          }}
-        >
-          <div
+      <View style={pdfStyles.mb4} wrap={false}>
+        <View style={{ ...pdfStyles.spaceBetween, marginBottom: 4 }}>
+          <Text style={pdfStyles.small}>Funding Progress</Text>
+          <Text style={{ ...pdfStyles.small, fontWeight: 600 }}>{budgetProgress}%</Text>
+        </View>
+        <View style={{ ...pdfStyles.barTrack, height: 12, borderRadius: 6 }}>
+          <View
             style={{
-              height: '100%',
+              ...pdfStyles.barFill,
               width: `${Math.min(budgetProgress, 100)}%`,
               backgroundColor: '#22c55e',
-              borderRadius: '6pt',
+              borderRadius: 6,
             }}
           />
-        </div>
-        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '4pt' }}>
-          <span style={pdfStyles.small}>{fmt.currency(totalPaid)} paid</span>
-          <span style={pdfStyles.small}>{fmt.currency(project.rehab_budget_with_contingency - totalPaid)} remaining</span>
-        </div>
-      </div>
+        </View>
+        <View style={{ ...pdfStyles.spaceBetween, marginTop: 4 }}>
+          <Text style={pdfStyles.small}>{fmt.currency(totalPaid)} paid</Text>
+          <Text style={pdfStyles.small}>{fmt.currency(project.rehab_budget_with_contingency - totalPaid)} remaining</Text>
+        </View>
+      </View>
 
       <Divider />
 
       {/* Draw Details Table */}
       <Section title="Draw Details">
         {draws.length === 0 ? (
-          <div style={{ ...pdfStyles.card, textAlign: 'center', color: '#64748b' }}>
-            No draws have been created yet.
-          </div>
+          <View style={pdfStyles.card}>
+            <Text style={{ textAlign: 'center', color: '#64748b' }}>No draws have been created yet.</Text>
+          </View>
         ) : (
-          <table style={pdfStyles.table}>
-            <thead>
-              <tr>
-                <th style={pdfStyles.th}>#</th>
-                <th style={pdfStyles.th}>Milestone</th>
-                <th style={pdfStyles.th}>Vendor</th>
-                <th style={{ ...pdfStyles.th, textAlign: 'right' }}>Amount</th>
-                <th style={pdfStyles.th}>Status</th>
-                <th style={pdfStyles.th}>Requested</th>
-                <th style={pdfStyles.th}>Paid</th>
-                <th style={pdfStyles.th}>Method</th>
-              </tr>
-            </thead>
-            <tbody>
-              {sortedDraws.map((draw) => {
-                const vendor = draw.vendor_id ? vendorMap.get(draw.vendor_id) : null;
-                return (
-                  <tr key={draw.id}>
-                    <td style={{ ...pdfStyles.td, fontWeight: '600' }}>
-                      #{draw.draw_number}
-                    </td>
-                    <td style={pdfStyles.td}>
-                      {draw.milestone ? MILESTONE_LABELS[draw.milestone] || draw.milestone : '-'}
-                    </td>
-                    <td style={{ ...pdfStyles.td, fontSize: '8pt' }}>
-                      {vendor?.name || '-'}
-                    </td>
-                    <td style={pdfStyles.tdRight}>{fmt.currency(draw.amount)}</td>
-                    <td style={pdfStyles.td}>
-                      <StatusBadge status={draw.status} />
-                    </td>
-                    <td style={pdfStyles.td}>{fmt.date(draw.date_requested)}</td>
-                    <td style={pdfStyles.td}>{fmt.date(draw.date_paid)}</td>
-                    <td style={{ ...pdfStyles.td, fontSize: '8pt' }}>
-                      {draw.payment_method ? PAYMENT_METHOD_LABELS[draw.payment_method] || draw.payment_method : '-'}
-                    </td>
-                  </tr>
-                );
-              })}
-            </tbody>
-            <tfoot>
-              <tr style={{ backgroundColor: '#f8fafc' }}>
-                <td
-                  colSpan={3}
-                  style={{ ...pdfStyles.td, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}
-                >
-                  Total
-                </td>
-                <td style={{ ...pdfStyles.tdRight, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                  {fmt.currency(totalRequested)}
-                </td>
-                <td colSpan={4} style={{ ...pdfStyles.td, borderTop: '2px solid #e2e8f0' }}></td>
-              </tr>
-            </tfoot>
-          </table>
+          <Table>
+            <Tr variant="head">
+              <Th width="7%">#</Th>
+              <Th width="15%">Milestone</Th>
+              <Th width="16%">Vendor</Th>
+              <Th width="13%" align="right">Amount</Th>
+              <Th width="12%">Status</Th>
+              <Th width="13%">Requested</Th>
+              <Th width="13%">Paid</Th>
+              <Th width="11%">Method</Th>
+            </Tr>
+            {sortedDraws.map((draw) => {
+              const vendor = draw.vendor_id ? vendorMap.get(draw.vendor_id) : null;
+              return (
+                <Tr key={draw.id}>
+                  <Td width="7%" style={{ fontWeight: 600 }}>
+                    #{draw.draw_number}
+                  </Td>
+                  <Td width="15%">
+                    {draw.milestone ? MILESTONE_LABELS[draw.milestone] || draw.milestone : '-'}
+                  </Td>
+                  <Td width="16%" style={{ fontSize: 8 }}>
+                    {vendor?.name || '-'}
+                  </Td>
+                  <Td width="13%" align="right">{fmt.currency(draw.amount)}</Td>
+                  <Td width="12%">
+                    <StatusBadge status={draw.status} />
+                  </Td>
+                  <Td width="13%">{fmt.date(draw.date_requested)}</Td>
+                  <Td width="13%">{fmt.date(draw.date_paid)}</Td>
+                  <Td width="11%" style={{ fontSize: 8 }}>
+                    {draw.payment_method ? PAYMENT_METHOD_LABELS[draw.payment_method] || draw.payment_method : '-'}
+                  </Td>
+                </Tr>
+              );
+            })}
+            <Tr variant="total">
+              <Td width="38%">Total</Td>
+              <Td width="13%" align="right">{fmt.currency(totalRequested)}</Td>
+              <Td width="49%" />
+            </Tr>
+          </Table>
         )}
       </Section>
 
@@ -206,41 +188,39 @@ export function DrawScheduleReport({
             {sortedDraws
               .filter((d) => d.notes || d.description)
               .map((draw) => (
-                <div key={draw.id} style={{ ...pdfStyles.card, marginBottom: '8pt' }}>
-                  <div style={{ fontWeight: '600', marginBottom: '4pt' }}>
+                <View key={draw.id} style={{ ...pdfStyles.card, marginBottom: 8 }} wrap={false}>
+                  <Text style={{ fontWeight: 600, marginBottom: 4 }}>
                     Draw #{draw.draw_number}
                     {draw.milestone && ` - ${MILESTONE_LABELS[draw.milestone] || draw.milestone}`}
-                  </div>
-                  {draw.description && (
-                    <div style={{ marginBottom: '4pt' }}>{draw.description}</div>
-                  )}
+                  </Text>
+                  {draw.description && <Text style={pdfStyles.mb1}>{draw.description}</Text>}
                   {draw.notes && (
-                    <div style={{ ...pdfStyles.small, fontStyle: 'italic' }}>{draw.notes}</div>
+                    <Text style={{ ...pdfStyles.small, fontStyle: 'italic' }}>{draw.notes}</Text>
                   )}
-                </div>
+                </View>
               ))}
           </Section>
         </>
       )}
 
       {/* Status Legend */}
-      <div style={{ marginTop: '16pt' }}>
-        <div style={{ ...pdfStyles.small, marginBottom: '8pt', fontWeight: '600' }}>Status Legend</div>
-        <div style={{ display: 'flex', gap: '16pt' }}>
-          <div style={{ display: 'flex', alignItems: 'center', gap: '4pt' }}>
+      <View style={pdfStyles.mt4} wrap={false}>
+        <Text style={{ ...pdfStyles.small, marginBottom: 8, fontWeight: 600 }}>Status Legend</Text>
+        <View style={{ flexDirection: 'row', gap: 16 }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
             <StatusBadge status="pending" />
-            <span style={pdfStyles.small}>Awaiting approval</span>
-          </div>
-          <div style={{ display: 'flex', alignItems: 'center', gap: '4pt' }}>
+            <Text style={pdfStyles.small}>Awaiting approval</Text>
+          </View>
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
             <StatusBadge status="approved" />
-            <span style={pdfStyles.small}>Approved, awaiting payment</span>
-          </div>
-          <div style={{ display: 'flex', alignItems: 'center', gap: '4pt' }}>
+            <Text style={pdfStyles.small}>Approved, awaiting payment</Text>
+          </View>
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
             <StatusBadge status="paid" />
-            <span style={pdfStyles.small}>Payment completed</span>
-          </div>
-        </div>
-      </div>
-    </div>
+            <Text style={pdfStyles.small}>Payment completed</Text>
+          </View>
+        </View>
+      </View>
+    </ReportDocument>
   );
 }
@@ -1,7 +1,8 @@
-import { PageBreak } from '@fileforge/react-print';
-import { pdfStyles } from '@/lib/pdf/styles';
-import { pdfFormatters } from '@/lib/pdf/compile';
+import { View, Text } from '@react-pdf/renderer';
+import { pdfStyles, varianceColor } from '@/lib/pdf/styles';
+import { pdfFormatters } from '@/lib/pdf/formatters';
 import {
+  ReportDocument,
   PdfHeader,
   PdfFooter,
   MetricRow,
@@ -9,6 +10,10 @@ import {
   SummaryTable,
   StatusBadge,
   Divider,
+  Table,
+  Tr,
+  Th,
+  Td,
 } from '@/components/pdf/shared';
 import type { ProjectSummary, BudgetItem, Draw, Vendor } from '@/types';
 import { BUDGET_CATEGORIES, PROJECT_STATUS_LABELS } from '@/types';
@@ -26,11 +31,7 @@ export function ExecutiveSummaryReport({
   draws,
 }: ExecutiveSummaryProps) {
   const fmt = pdfFormatters;
-  const generatedDate = new Date().toLocaleDateString('en-US', {
-    month: 'long',
-    day: 'numeric',
-    year: 'numeric',
-  });
+  const generatedDate = fmt.longDate();
 
   // Calculate category totals for budget breakdown
   const categoryTotals = BUDGET_CATEGORIES.map((cat) => {
@@ -49,10 +50,8 @@ export function ExecutiveSummaryReport({
   const totalDrawsPaid = draws.filter((d) => d.status === 'paid').reduce((sum, d) => sum + d.amount, 0);
   const pendingDraws = draws.filter((d) => d.status === 'pending' || d.status === 'approved');
 
-  // ROI calculation
-  const roi = project.arv && project.total_investment > 0
-    ? ((project.gross_profit / project.total_investment) * 100)
-    : 0;
+  const roi = project.roi;
+  const totalVariance = project.actual_total - project.forecast_total;
 
   // Progress percentage
   const progressPercent = project.total_items > 0
@@ -60,7 +59,7 @@ export function ExecutiveSummaryReport({
     : 0;
 
   return (
-    <div style={pdfStyles.page}>
+    <ReportDocument title={`${project.name} - Executive Summary`}>
       <PdfHeader
         title="Executive Summary"
         subtitle={`${project.address || project.name}${project.city ? `, ${project.city}` : ''}`}
@@ -71,8 +70,8 @@ export function ExecutiveSummaryReport({
 
       {/* Property Overview */}
       <Section title="Property Overview">
-        <div style={pdfStyles.grid2}>
-          <div>
+        <View style={pdfStyles.row}>
+          <View style={pdfStyles.col}>
             <SummaryTable
               rows={[
                 { label: 'Property', value: project.name },
@@ -82,8 +81,8 @@ export function ExecutiveSummaryReport({
                 { label: 'Status', value: PROJECT_STATUS_LABELS[project.status] || project.status },
               ]}
             />
-          </div>
-          <div>
+          </View>
+          <View style={pdfStyles.col}>
             <SummaryTable
               rows={[
                 { label: 'Beds / Baths', value: `${project.beds || '-'} / ${project.baths || '-'}` },
@@ -93,8 +92,8 @@ export function ExecutiveSummaryReport({
                 { label: 'Target Complete', value: fmt.date(project.target_complete_date) },
               ]}
             />
-          </div>
-        </div>
+          </View>
+        </View>
       </Section>
 
       <Divider />
@@ -109,7 +108,7 @@ export function ExecutiveSummaryReport({
             { label: 'Total Investment', value: fmt.currency(project.total_investment), variant: 'primary' },
           ]}
         />
-        <div style={{ marginTop: '12pt' }}>
+        <View style={pdfStyles.mt3}>
           <MetricRow
             items={[
               {
@@ -130,7 +129,7 @@ export function ExecutiveSummaryReport({
               },
             ]}
           />
-        </div>
+        </View>
       </Section>
 
       <Divider />
@@ -160,67 +159,40 @@ export function ExecutiveSummaryReport({
         />
       </Section>
 
-      <PageBreak />
-
       {/* Budget Summary by Category */}
-      <Section title="Budget Summary by Category">
-        <table style={pdfStyles.table}>
-          <thead>
-            <tr>
-              <th style={pdfStyles.th}>Category</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>Underwriting</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>Forecast</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>Actual</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>Variance</th>
-            </tr>
-          </thead>
-          <tbody>
-            {categoryTotals.map((cat, i) => {
-              const variance = cat.actual - (cat.forecast || cat.underwriting);
-              return (
-                <tr key={i}>
-                  <td style={pdfStyles.td}>{cat.category}</td>
-                  <td style={pdfStyles.tdRight}>{fmt.currency(cat.underwriting)}</td>
-                  <td style={pdfStyles.tdRight}>{fmt.currency(cat.forecast)}</td>
-                  <td style={pdfStyles.tdRight}>{fmt.currency(cat.actual)}</td>
-                  <td
-                    style={{
-                      ...pdfStyles.tdRight,
-                      color: variance > 0 ? pdfStyles.negative.color : variance < 0 ? pdfStyles.positive.color : 'inherit',
-                    }}
-                  >
-                    {variance >= 0 ? '+' : ''}{fmt.currency(variance)}
-                  </td>
-                </tr>
-              );
-            })}
-          </tbody>
-          <tfoot>
-            <tr style={{ backgroundColor: '#f8fafc' }}>
-              <td style={{ ...pdfStyles.td, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>TOTAL</td>
-              <td style={{ ...pdfStyles.tdRight, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                {fmt.currency(project.underwriting_total)}
-              </td>
-              <td style={{ ...pdfStyles.tdRight, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                {fmt.currency(project.forecast_total)}
-              </td>
-              <td style={{ ...pdfStyles.tdRight, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                {fmt.currency(project.actual_total)}
-              </td>
-              <td
-                style={{
-                  ...pdfStyles.tdRight,
-                  fontWeight: '600',
-                  borderTop: '2px solid #e2e8f0',
-                  color: (project.actual_total - project.forecast_total) > 0 ? pdfStyles.negative.color : pdfStyles.positive.color,
-                }}
-              >
-                {(project.actual_total - project.forecast_total) >= 0 ? '+' : ''}
-                {fmt.currency(project.actual_total - project.forecast_total)}
-              </td>
-            </tr>
-          </tfoot>
-        </table>
+      <Section title="Budget Summary by Category" break>
+        <Table>
+          <Tr variant="head">
+            <Th span={2}>Category</Th>
+            <Th align="right">Underwriting</Th>
+            <Th align="right">Forecast</Th>
+            <Th align="right">Actual</Th>
+            <Th align="right">Variance</Th>
+          </Tr>
+          {categoryTotals.map((cat, i) => {
+            const variance = cat.actual - (cat.forecast || cat.underwriting);
+            return (
+              <Tr key={i}>
+                <Td span={2}>{cat.category}</Td>
+                <Td align="right">{fmt.currency(cat.underwriting)}</Td>
+                <Td align="right">{fmt.currency(cat.forecast)}</Td>
+                <Td align="right">{fmt.currency(cat.actual)}</Td>
+                <Td align="right" style={{ color: varianceColor(variance) }}>
+                  {fmt.signedCurrency(variance)}
+                </Td>
+              </Tr>
+            );
+          })}
+          <Tr variant="total">
+            <Td span={2}>TOTAL</Td>
+            <Td align="right">{fmt.currency(project.underwriting_total)}</Td>
+            <Td align="right">{fmt.currency(project.forecast_total)}</Td>
+            <Td align="right">{fmt.currency(project.actual_total)}</Td>
+            <Td align="right" style={{ color: totalVariance > 0 ? pdfStyles.negative.color : pdfStyles.positive.color }}>
+              {fmt.signedCurrency(totalVariance)}
+            </Td>
+          </Tr>
+        </Table>
       </Section>
 
       <Divider />
@@ -236,37 +208,33 @@ export function ExecutiveSummaryReport({
           ]}
         />
         {draws.length > 0 && (
-          <div style={{ marginTop: '12pt' }}>
-            <table style={pdfStyles.table}>
-              <thead>
-                <tr>
-                  <th style={pdfStyles.th}>#</th>
-                  <th style={pdfStyles.th}>Milestone</th>
-                  <th style={{ ...pdfStyles.th, textAlign: 'right' }}>Amount</th>
-                  <th style={pdfStyles.th}>Status</th>
-                  <th style={pdfStyles.th}>Date Paid</th>
-                </tr>
-              </thead>
-              <tbody>
-                {draws.slice(0, 6).map((draw) => (
-                  <tr key={draw.id}>
-                    <td style={pdfStyles.td}>#{draw.draw_number}</td>
-                    <td style={pdfStyles.td}>{draw.milestone?.replace(/_/g, ' ') || '-'}</td>
-                    <td style={pdfStyles.tdRight}>{fmt.currency(draw.amount)}</td>
-                    <td style={pdfStyles.td}>
-                      <StatusBadge status={draw.status} />
-                    </td>
-                    <td style={pdfStyles.td}>{fmt.date(draw.date_paid)}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+          <View style={pdfStyles.mt3}>
+            <Table>
+              <Tr variant="head">
+                <Th>#</Th>
+                <Th span={2}>Milestone</Th>
+                <Th align="right" span={2}>Amount</Th>
+                <Th span={2}>Status</Th>
+                <Th span={2}>Date Paid</Th>
+              </Tr>
+              {draws.slice(0, 6).map((draw) => (
+                <Tr key={draw.id}>
+                  <Td>#{draw.draw_number}</Td>
+                  <Td span={2}>{draw.milestone?.replace(/_/g, ' ') || '-'}</Td>
+                  <Td align="right" span={2}>{fmt.currency(draw.amount)}</Td>
+                  <Td span={2}>
+                    <StatusBadge status={draw.status} />
+                  </Td>
+                  <Td span={2}>{fmt.date(draw.date_paid)}</Td>
+                </Tr>
+              ))}
+            </Table>
             {draws.length > 6 && (
-              <div style={{ ...pdfStyles.small, marginTop: '4pt', textAlign: 'center' }}>
+              <Text style={{ ...pdfStyles.small, marginTop: 4, textAlign: 'center' }}>
                 + {draws.length - 6} more draws
-              </div>
+              </Text>
             )}
-          </div>
+          </View>
         )}
       </Section>
 
@@ -275,10 +243,12 @@ export function ExecutiveSummaryReport({
         <>
           <Divider />
           <Section title="Notes">
-            <div style={{ ...pdfStyles.card, whiteSpace: 'pre-wrap' }}>{project.notes}</div>
+            <View style={pdfStyles.card}>
+              <Text>{project.notes}</Text>
+            </View>
           </Section>
         </>
       )}
-    </div>
+    </ReportDocument>
   );
 }
@@ -2,5 +2,9 @@ export { ExecutiveSummaryReport } from './executive-summary';
 export { DetailedBudgetReport } from './detailed-budget';
 export { DrawScheduleReport } from './draw-schedule';
 export { VendorSummaryReport } from './vendor-summary';
+export { VendorPaymentStatement } from './vendor-payment-statement';
 export { InvestmentAnalysisReport } from './investment-analysis';
 export { PropertyShowcaseReport, type PhotoWithUrl } from './property-showcase';
+export { DrawPacketReport } from './draw-packet';
+export { ChangeOrderReport } from './change-order';
+export { PostMortemReport } from './post-mortem';
@@ -1,6 +1,8 @@
+import { View, Text } from '@react-pdf/renderer';
 import { pdfStyles } from '@/lib/pdf/styles';
-import { pdfFormatters } from '@/lib/pdf/compile';
+import { pdfFormatters } from '@/lib/pdf/formatters';
 import {
+  ReportDocument,
   PdfHeader,
   PdfFooter,
   MetricRow,
@@ -8,25 +10,39 @@ import {
   SummaryTable,
   Divider,
   ThickDivider,
+  Table,
+  Tr,
+  Th,
+  Td,
 } from '@/components/pdf/shared';
-import type { ProjectSummary, BudgetItem } from '@/types';
-import { PROJECT_STATUS_LABELS, BUDGET_CATEGORIES } from '@/types';
+import { analyzeProject, calculateROI } from '@/lib/deal-analysis';
+import { COMPS_CONFIDENCE_LABELS, type CompsValuation } from '@/lib/comps';
+import type { ProjectSummary, BudgetItem, CalculationSettingsInput } from '@/types';
+import {
+  PROJECT_STATUS_LABELS,
+  BUDGET_CATEGORIES,
+  DEFAULT_CALCULATION_SETTINGS,
+  MAO_METHOD_LABELS,
+  MAO_METHOD_DESCRIPTIONS,
+  COMP_CONDITION_LABELS,
+} from '@/types';
 
 interface InvestmentAnalysisProps {
   project: ProjectSummary;
   budgetItems: BudgetItem[];
+  settings?: CalculationSettingsInput;
+  /** Comps-indicated ARV and the comp grid behind it */
+  comps?: CompsValuation | null;
 }
 
 export function InvestmentAnalysisReport({
   project,
   budgetItems,
+  settings = DEFAULT_CALCULATION_SETTINGS,
+  comps = null,
 }: InvestmentAnalysisProps) {
   const fmt = pdfFormatters;
-  const generatedDate = new Date().toLocaleDateString('en-US', {
-    month: 'long',
-    day: 'numeric',
-    year: 'numeric',
-  });
+  const generatedDate = fmt.longDate();
 
   // Calculate key metrics
   const arv = project.arv || 0;
@@ -37,18 +53,37 @@ export function InvestmentAnalysisReport({
   const sellingCosts = project.selling_costs;
   const holdingCosts = project.holding_costs_total;
 
-  // ROI Calculations
-  const roi = totalInvestment > 0 ? (grossProfit / totalInvestment) * 100 : 0;
-  const cashOnCash = totalInvestment > 0 ? (grossProfit / totalInvestment) * 100 : 0;
-  const annualizedROI = project.hold_months > 0 ? (roi / project.hold_months) * 12 : 0;
+  // ROI from the project's calculation profile
+  const roi = project.roi;
+  const annualizedROI = calculateROI(grossProfit, totalInvestment, project.hold_months, {
+    ...settings,
+    roi_method: 'annualized',
+  });
 
-  // MAO Calculations with different profit targets
-  const calculateMAO = (targetProfitPercent: number) => {
-    const targetProfit = arv * (targetProfitPercent / 100);
-    return arv - sellingCosts - holdingCosts - rehabBudget - targetProfit;
-  };
+  // MAO from the profile, plus gross-margin scenarios at different profit targets
+  const profileMao = project.mao;
+  const profileMaoTarget = (() => {
+    switch (settings.mao_method) {
+      case 'seventy_rule':
+      case 'custom_percentage':
+        return `${((1 - settings.mao_arv_multiplier) * 100).toFixed(0)}%`;
+      case 'gross_margin':
+        return `${settings.mao_target_profit_percent}%`;
+      default:
+        return fmt.currency(settings.mao_target_profit);
+    }
+  })();
+
+  const calculateMAO = (targetProfitPercent: number) =>
+    analyzeProject(project, budgetItems, {
+      ...settings,
+      mao_method: 'gross_margin',
+      mao_target_profit_percent: targetProfitPercent,
+      mao_include_holding_costs: true,
+      mao_include_selling_costs: true,
+      mao_include_closing_costs: true,
+    }).mao;
 
-  const mao70 = arv * 0.70 - rehabBudget; // Classic 70% rule
   const maoConservative = calculateMAO(25); // 25% profit target
   const maoModerate = calculateMAO(20); // 20% profit target
   const maoAggressive = calculateMAO(15); // 15% profit target
@@ -96,8 +131,18 @@ export function InvestmentAnalysisReport({
 
   const risk = getRiskLevel();
 
+
+  // Gross-margin scenarios, shaded alternately below the profile row
+  const maoScenarios = [
+    { name: 'Conservative', target: 0.25, mao: maoConservative, under: 'Strong Buy', over: 'Pass' },
+    { name: 'Moderate', target: 0.2, mao: maoModerate, under: 'Buy', over: 'Negotiate' },
+    { name: 'Aggressive', target: 0.15, mao: maoAggressive, under: 'Consider', over: 'High Risk' },
+  ];
+  const priceVsMaoColor = (mao: number) =>
+    purchasePrice <= mao ? pdfStyles.positive.color : pdfStyles.negative.color;
+
   return (
-    <div style={pdfStyles.page}>
+    <ReportDocument title={`${project.name} - Investment Analysis`}>
       <PdfHeader
         title="Investment Analysis"
         subtitle={`${project.address || project.name}${project.city ? `, ${project.city}` : ''}`}
@@ -108,8 +153,8 @@ export function InvestmentAnalysisReport({
 
       {/* Executive Summary */}
       <Section title="Deal Overview">
-        <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '16pt' }}>
-          <div>
+        <View style={{ ...pdfStyles.row, gap: 16 }}>
+          <View style={{ flex: 2 }}>
             <SummaryTable
               rows={[
                 { label: 'Property', value: project.name },
@@ -119,27 +164,26 @@ export function InvestmentAnalysisReport({
                 { label: 'Status', value: PROJECT_STATUS_LABELS[project.status] || project.status },
               ]}
             />
-          </div>
-          <div
+          </View>
+          <View
             style={{
               ...pdfStyles.card,
               backgroundColor: risk.level === 'High' ? '#fef2f2' : risk.level === 'Medium' ? '#fffbeb' : '#f0fdf4',
               borderColor: risk.color,
-              borderWidth: '2pt',
-              textAlign: 'center',
+              borderWidth: 2,
+              alignItems: 'center',
+              justifyContent: 'center',
             }}
           >
-            <div style={{ fontSize: '9pt', color: '#64748b', textTransform: 'uppercase', letterSpacing: '0.5pt' }}>
-              Risk Assessment
-            </div>
-            <div style={{ fontSize: '24pt', fontWeight: '700', color: risk.color, marginTop: '4pt' }}>
+            <Text style={pdfStyles.metricLabel}>Risk Assessment</Text>
+            <Text style={{ fontSize: 24, fontWeight: 700, color: risk.color, marginTop: 4 }}>
               {risk.level}
-            </div>
-            <div style={{ fontSize: '8pt', color: '#64748b', marginTop: '4pt' }}>
+            </Text>
+            <Text style={{ ...pdfStyles.small, marginTop: 4, textAlign: 'center' }}>
               Based on ROI, rehab ratio, and purchase price
-            </div>
-          </div>
-        </div>
+            </Text>
+          </View>
+        </View>
       </Section>
 
       <Divider />
@@ -154,7 +198,7 @@ export function InvestmentAnalysisReport({
             { label: 'Total Investment', value: fmt.currency(totalInvestment), variant: 'primary' },
           ]}
         />
-        <div style={{ marginTop: '12pt' }}>
+        <View style={pdfStyles.mt3}>
           <MetricRow
             items={[
               {
@@ -172,122 +216,64 @@ export function InvestmentAnalysisReport({
               { label: 'Profit/SF', value: project.sqft ? fmt.currency(grossProfit / project.sqft) : 'N/A' },
             ]}
           />
-        </div>
+        </View>
       </Section>
 
       <ThickDivider />
 
       {/* MAO Analysis */}
       <Section title="Maximum Allowable Offer (MAO) Analysis">
-        <div style={{ marginBottom: '12pt' }}>
-          <div style={{ fontSize: '9pt', color: '#64748b', marginBottom: '8pt' }}>
-            MAO calculations based on different profit targets and the classic 70% rule.
-          </div>
-        </div>
-
-        <table style={pdfStyles.table}>
-          <thead>
-            <tr>
-              <th style={pdfStyles.th}>Method</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>Target Profit</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>MAO</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>vs Current Price</th>
-              <th style={pdfStyles.th}>Assessment</th>
-            </tr>
-          </thead>
-          <tbody>
-            <tr>
-              <td style={pdfStyles.td}>
-                <div style={{ fontWeight: '500' }}>70% Rule (Classic)</div>
-                <div style={{ fontSize: '8pt', color: '#64748b' }}>ARV × 70% − Rehab</div>
-              </td>
-              <td style={pdfStyles.tdRight}>30%</td>
-              <td style={pdfStyles.tdRight}>{fmt.currency(mao70)}</td>
-              <td
-                style={{
-                  ...pdfStyles.tdRight,
-                  color: purchasePrice <= mao70 ? pdfStyles.positive.color : pdfStyles.negative.color,
-                }}
-              >
-                {purchasePrice <= mao70 ? '✓ ' : '✗ '}
-                {fmt.currency(purchasePrice - mao70)}
-              </td>
-              <td style={pdfStyles.td}>
-                {purchasePrice <= mao70 ? (
-                  <span style={{ color: pdfStyles.positive.color, fontWeight: '500' }}>Under MAO</span>
-                ) : (
-                  <span style={{ color: pdfStyles.negative.color, fontWeight: '500' }}>Over MAO</span>
-                )}
-              </td>
-            </tr>
-            <tr style={{ backgroundColor: '#f8fafc' }}>
-              <td style={pdfStyles.td}>
-                <div style={{ fontWeight: '500' }}>Conservative</div>
-                <div style={{ fontSize: '8pt', color: '#64748b' }}>25% profit target</div>
-              </td>
-              <td style={pdfStyles.tdRight}>{fmt.currency(arv * 0.25)}</td>
-              <td style={pdfStyles.tdRight}>{fmt.currency(maoConservative)}</td>
-              <td
-                style={{
-                  ...pdfStyles.tdRight,
-                  color: purchasePrice <= maoConservative ? pdfStyles.positive.color : pdfStyles.negative.color,
-                }}
-              >
-                {fmt.currency(purchasePrice - maoConservative)}
-              </td>
-              <td style={pdfStyles.td}>
-                {purchasePrice <= maoConservative ? 'Strong Buy' : 'Pass'}
-              </td>
-            </tr>
-            <tr>
-              <td style={pdfStyles.td}>
-                <div style={{ fontWeight: '500' }}>Moderate</div>
-                <div style={{ fontSize: '8pt', color: '#64748b' }}>20% profit target</div>
-              </td>
-              <td style={pdfStyles.tdRight}>{fmt.currency(arv * 0.20)}</td>
-              <td style={pdfStyles.tdRight}>{fmt.currency(maoModerate)}</td>
-              <td
-                style={{
-                  ...pdfStyles.tdRight,
-                  color: purchasePrice <= maoModerate ? pdfStyles.positive.color : pdfStyles.negative.color,
-                }}
-              >
-                {fmt.currency(purchasePrice - maoModerate)}
-              </td>
-              <td style={pdfStyles.td}>
-                {purchasePrice <= maoModerate ? 'Buy' : 'Negotiate'}
-              </td>
-            </tr>
-            <tr style={{ backgroundColor: '#f8fafc' }}>
-              <td style={pdfStyles.td}>
-                <div style={{ fontWeight: '500' }}>Aggressive</div>
-                <div style={{ fontSize: '8pt', color: '#64748b' }}>15% profit target</div>
-              </td>
-              <td style={pdfStyles.tdRight}>{fmt.currency(arv * 0.15)}</td>
-              <td style={pdfStyles.tdRight}>{fmt.currency(maoAggressive)}</td>
-              <td
-                style={{
-                  ...pdfStyles.tdRight,
-                  color: purchasePrice <= maoAggressive ? pdfStyles.positive.color : pdfStyles.negative.color,
-                }}
-              >
-                {fmt.currency(purchasePrice - maoAggressive)}
-              </td>
-              <td style={pdfStyles.td}>
-                {purchasePrice <= maoAggressive ? 'Consider' : 'High Risk'}
-              </td>
-            </tr>
-          </tbody>
-        </table>
+        <Text style={{ fontSize: 9, color: '#64748b', marginBottom: 12 }}>
+          MAO from the project&apos;s calculation profile, plus scenarios at different profit targets
+          after all holding, selling and closing costs.
+        </Text>
+
+        <Table>
+          <Tr variant="head">
+            <Th span={3}>Method</Th>
+            <Th span={2} align="right">Target Profit</Th>
+            <Th span={2} align="right">MAO</Th>
+            <Th span={2} align="right">vs Current Price</Th>
+            <Th span={2}>Assessment</Th>
+          </Tr>
+          <Tr>
+            <Td span={3}>
+              <Text>{MAO_METHOD_LABELS[settings.mao_method]}</Text>
+              <Text style={pdfStyles.small}>{MAO_METHOD_DESCRIPTIONS[settings.mao_method]}</Text>
+            </Td>
+            <Td span={2} align="right">{profileMaoTarget}</Td>
+            <Td span={2} align="right">{fmt.currency(profileMao)}</Td>
+            <Td span={2} align="right" style={{ color: priceVsMaoColor(profileMao) }}>
+              {fmt.currency(purchasePrice - profileMao)}
+            </Td>
+            <Td span={2} style={{ color: priceVsMaoColor(profileMao), fontWeight: 600 }}>
+              {purchasePrice <= profileMao ? 'Under MAO' : 'Over MAO'}
+            </Td>
+          </Tr>
+          {maoScenarios.map((scenario, i) => (
+            <Tr key={scenario.name} style={i % 2 === 0 ? { backgroundColor: '#f8fafc' } : undefined}>
+              <Td span={3}>
+                <Text>{scenario.name}</Text>
+                <Text style={pdfStyles.small}>{scenario.target * 100}% profit target</Text>
+              </Td>
+              <Td span={2} align="right">{fmt.currency(arv * scenario.target)}</Td>
+              <Td span={2} align="right">{fmt.currency(scenario.mao)}</Td>
+              <Td span={2} align="right" style={{ color: priceVsMaoColor(scenario.mao) }}>
+                {fmt.currency(purchasePrice - scenario.mao)}
+              </Td>
+              <Td span={2}>{purchasePrice <= scenario.mao ? scenario.under : scenario.over}</Td>
+            </Tr>
+          ))}
+        </Table>
       </Section>
 
       <Divider />
 
       {/* Investment Breakdown */}
       <Section title="Investment Breakdown">
-        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16pt' }}>
-          <div>
-            <div style={{ fontSize: '10pt', fontWeight: '600', marginBottom: '8pt' }}>Sources of Funds</div>
+        <View style={{ ...pdfStyles.row, gap: 16 }}>
+          <View style={pdfStyles.col}>
+            <Text style={{ fontWeight: 600, marginBottom: 8 }}>Sources of Funds</Text>
             <SummaryTable
               rows={[
                 { label: 'Purchase Price', value: fmt.currency(purchasePrice) },
@@ -298,9 +284,9 @@ export function InvestmentAnalysisReport({
                 { label: 'Total Investment', value: fmt.currency(totalInvestment), bold: true },
               ]}
             />
-          </div>
-          <div>
-            <div style={{ fontSize: '10pt', fontWeight: '600', marginBottom: '8pt' }}>Uses of Funds (Exit)</div>
+          </View>
+          <View style={pdfStyles.col}>
+            <Text style={{ fontWeight: 600, marginBottom: 8 }}>Uses of Funds (Exit)</Text>
             <SummaryTable
               rows={[
                 { label: 'ARV (Sale Price)', value: fmt.currency(arv) },
@@ -316,109 +302,161 @@ export function InvestmentAnalysisReport({
                 },
               ]}
             />
-          </div>
-        </div>
+          </View>
+        </View>
       </Section>
 
       <Divider />
 
       {/* Price Per Square Foot Analysis */}
-      {project.sqft && (
+      {project.sqft ? (
         <Section title="Per Square Foot Analysis">
-          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '12pt' }}>
-            <div style={pdfStyles.card}>
-              <div style={pdfStyles.metricLabel}>Purchase $/SF</div>
-              <div style={{ fontSize: '16pt', fontWeight: '700' }}>{fmt.currency(pricePerSqft)}</div>
-            </div>
-            <div style={pdfStyles.card}>
-              <div style={pdfStyles.metricLabel}>ARV $/SF</div>
-              <div style={{ fontSize: '16pt', fontWeight: '700' }}>{fmt.currency(arvPerSqft)}</div>
-            </div>
-            <div style={pdfStyles.card}>
-              <div style={pdfStyles.metricLabel}>Rehab $/SF</div>
-              <div style={{ fontSize: '16pt', fontWeight: '700' }}>{fmt.currency(rehabPerSqft)}</div>
-            </div>
-            <div style={pdfStyles.card}>
-              <div style={pdfStyles.metricLabel}>Profit $/SF</div>
-              <div
+          <View style={pdfStyles.row} wrap={false}>
+            <View style={pdfStyles.card}>
+              <Text style={pdfStyles.metricLabel}>Purchase $/SF</Text>
+              <Text style={{ fontSize: 16, fontWeight: 700 }}>{fmt.currency(pricePerSqft)}</Text>
+            </View>
+            <View style={pdfStyles.card}>
+              <Text style={pdfStyles.metricLabel}>ARV $/SF</Text>
+              <Text style={{ fontSize: 16, fontWeight: 700 }}>{fmt.currency(arvPerSqft)}</Text>
+            </View>
+            <View style={pdfStyles.card}>
+              <Text style={pdfStyles.metricLabel}>Rehab $/SF</Text>
+              <Text style={{ fontSize: 16, fontWeight: 700 }}>{fmt.currency(rehabPerSqft)}</Text>
+            </View>
+            <View style={pdfStyles.card}>
+              <Text style={pdfStyles.metricLabel}>Profit $/SF</Text>
+              <Text
                 style={{
-                  fontSize: '16pt',
-                  fontWeight: '700',
+                  fontSize: 16,
+                  fontWeight: 700,
                   color: grossProfit >= 0 ? pdfStyles.positive.color : pdfStyles.negative.color,
                 }}
               >
                 {fmt.currency(grossProfit / project.sqft)}
-              </div>
-            </div>
-          </div>
+              </Text>
+            </View>
+          </View>
         </Section>
+      ) : null}
+
+      {/* Comparable Sales */}
+      {comps && (
+        <>
+          <Divider />
+          <Section title="Comparable Sales">
+            <MetricRow
+              items={[
+                {
+                  label: 'Comps ARV',
+                  value: fmt.currency(comps.arv),
+                  sublabel: `${fmt.currency(comps.low)} to ${fmt.currency(comps.high)}`,
+                },
+                { label: 'Adjusted $/SF', value: fmt.currency(comps.perSqft), sublabel: `${comps.comps.length} comps` },
+                {
+                  label: 'Confidence',
+                  value: COMPS_CONFIDENCE_LABELS[comps.confidence],
+                  sublabel: `±${(comps.spread * 100).toFixed(1)}% spread`,
+                  variant: comps.confidence === 'high' ? 'positive' : comps.confidence === 'low' ? 'negative' : 'default',
+                },
+                {
+                  label: 'ARV Used',
+                  value: fmt.currency(arv),
+                  sublabel: `${fmt.signedCurrency(arv - comps.arv)} vs comps`,
+                  variant: arv > comps.high ? 'negative' : 'primary',
+                },
+              ]}
+            />
+            <View style={pdfStyles.mt3}>
+              <Table>
+                <Tr variant="head">
+                  <Th span={4}>Address</Th>
+                  <Th span={2}>Sold</Th>
+                  <Th span={2} align="right">Price</Th>
+                  <Th span={2} align="right">SF</Th>
+                  <Th span={1} align="right">BD/BA</Th>
+                  <Th span={2}>Condition</Th>
+                  <Th span={2} align="right">Adjustments</Th>
+                  <Th span={2} align="right">Adjusted</Th>
+                  <Th span={2} align="right">Adj. $/SF</Th>
+                </Tr>
+                {comps.comps.map(({ comp, adjustedPrice, adjustedPerSqft }) => (
+                  <Tr key={comp.id}>
+                    <Td span={4}>{comp.address}</Td>
+                    <Td span={2}>{comp.sale_date ? fmt.date(comp.sale_date) : '-'}</Td>
+                    <Td span={2} align="right">{fmt.currency(comp.sale_price)}</Td>
+                    <Td span={2} align="right">{fmt.number(comp.sqft)}</Td>
+                    <Td span={1} align="right">{`${comp.beds ?? '-'}/${comp.baths ?? '-'}`}</Td>
+                    <Td span={2}>{COMP_CONDITION_LABELS[comp.condition]}</Td>
+                    <Td span={2} align="right">{fmt.signedCurrency(adjustedPrice - comp.sale_price)}</Td>
+                    <Td span={2} align="right">{fmt.currency(adjustedPrice)}</Td>
+                    <Td span={2} align="right">{fmt.currency(adjustedPerSqft)}</Td>
+                  </Tr>
+                ))}
+              </Table>
+            </View>
+            <Text style={{ ...pdfStyles.small, marginTop: 4 }}>
+              Comps adjusted to the subject in renovated condition. The range is one standard deviation of adjusted
+              $/SF either side of the mean.
+            </Text>
+          </Section>
+        </>
       )}
 
       <Divider />
 
       {/* Rehab Budget Breakdown */}
       <Section title="Rehab Budget by Category">
-        <table style={pdfStyles.table}>
-          <thead>
-            <tr>
-              <th style={pdfStyles.th}>Category</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>Amount</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>% of Budget</th>
-              <th style={pdfStyles.th}>Distribution</th>
-            </tr>
-          </thead>
-          <tbody>
-            {categoryTotals.slice(0, 8).map((cat) => (
-              <tr key={cat.category}>
-                <td style={pdfStyles.td}>{cat.category}</td>
-                <td style={pdfStyles.tdRight}>{fmt.currency(cat.total)}</td>
-                <td style={pdfStyles.tdRight}>{cat.percent.toFixed(1)}%</td>
-                <td style={pdfStyles.td}>
-                  <div
+        <Table>
+          <Tr variant="head">
+            <Th span={3}>Category</Th>
+            <Th span={2} align="right">Amount</Th>
+            <Th span={2} align="right">% of Budget</Th>
+            <Th span={3}>Distribution</Th>
+          </Tr>
+          {categoryTotals.slice(0, 8).map((cat) => (
+            <Tr key={cat.category}>
+              <Td span={3}>{cat.category}</Td>
+              <Td span={2} align="right">{fmt.currency(cat.total)}</Td>
+              <Td span={2} align="right">{cat.percent.toFixed(1)}%</Td>
+              <Td span={3} style={{ justifyContent: 'center' }}>
+                <View style={{ ...pdfStyles.barTrack, width: '100%' }}>
+                  <View
                     style={{
-                      height: '8pt',
-                      backgroundColor: '#e2e8f0',
-                      borderRadius: '4pt',
-                      overflow: 'hidden',
+                      ...pdfStyles.barFill,
+                      width: `${Math.min(cat.percent, 100)}%`,
+                      backgroundColor: '#3b82f6',
                     }}
-                  >
-                    <div
-                      style={{
-                        height: '100%',
-                        width: `${Math.min(cat.percent, 100)}%`,
-                        backgroundColor: '#3b82f6',
-                        borderRadius: '4pt',
-                      }}
-                    />
-                  </div>
-                </td>
-              </tr>
-            ))}
-          </tbody>
-        </table>
+                  />
+                </View>
+              </Td>
+            </Tr>
+          ))}
+        </Table>
         {categoryTotals.length > 8 && (
-          <div style={{ ...pdfStyles.small, marginTop: '4pt', textAlign: 'center' }}>
+          <Text style={{ ...pdfStyles.small, marginTop: 4, textAlign: 'center' }}>
             + {categoryTotals.length - 8} more categories totaling{' '}
             {fmt.currency(categoryTotals.slice(8).reduce((sum, c) => sum + c.total, 0))}
-          </div>
+          </Text>
         )}
       </Section>
 
       {/* Disclaimer */}
-      <div
+      <View
+        wrap={false}
         style={{
-          marginTop: '16pt',
-          padding: '12pt',
+          marginTop: 16,
+          padding: 12,
           backgroundColor: '#f8fafc',
-          borderRadius: '4pt',
-          fontSize: '8pt',
-          color: '#64748b',
+          borderRadius: 4,
         }}
       >
-        <strong>Disclaimer:</strong> This investment analysis is based on estimates and projections. Actual results may
-        vary. MAO calculations assume all costs are accurately estimated. Conduct independent due diligence before
-        making investment decisions.
-      </div>
-    </div>
+        <Text style={pdfStyles.small}>
+          <Text style={{ fontWeight: 700 }}>Disclaimer:</Text> This investment analysis is based on estimates and
+          projections. Actual results may vary. MAO calculations assume all costs are accurately estimated. Conduct
+          independent due diligence before making investment decisions.
+        </Text>
+      </View>
+    </ReportDocument>
   );
 }
@@ -0,0 +1,153 @@
+import { Text } from '@react-pdf/renderer';
+import { pdfColors, pdfStyles } from '@/lib/pdf/styles';
+import { pdfFormatters } from '@/lib/pdf/formatters';
+import {
+  ReportDocument,
+  PdfHeader,
+  PdfFooter,
+  MetricRow,
+  Section,
+  Table,
+  Tr,
+  Th,
+  Td,
+} from '@/components/pdf/shared';
+import type { CloseoutProjection, CloseoutVarianceLine, RealizedPnl } from '@/lib/closeout';
+import type { Project, ProjectCloseout } from '@/types';
+
+interface PostMortemReportProps {
+  project: Project;
+  closeout: ProjectCloseout;
+  realized: RealizedPnl;
+  projection: CloseoutProjection;
+  variance: CloseoutVarianceLine[];
+}
+
+/**
+ * Realized results of a sold project from its locked closeout: the
+ * settlement, what the project cost and how it compared with underwriting.
+ */
+export function PostMortemReport({ project, closeout, realized, projection, variance }: PostMortemReportProps) {
+  const fmt = pdfFormatters;
+  const address = `${project.address || project.name}${project.city ? `, ${project.city}` : ''}${project.state ? `, ${project.state}` : ''}`;
+
+  const settlement = [
+    { label: 'Sale Price', value: realized.salePrice },
+    { label: 'Commissions', value: -closeout.commissions },
+    { label: 'Seller Concessions', value: -closeout.seller_concessions },
+    { label: 'Title & Transfer Fees', value: -closeout.title_transfer_fees },
+    { label: 'Loan Payoff', value: -closeout.loan_payoff },
+  ];
+
+  const costs = [
+    { label: 'Purchase Price', value: closeout.purchase_price },
+    { label: 'Purchase Closing Costs', value: closeout.closing_costs },
+    { label: 'Rehab', value: closeout.rehab_cost },
+    { label: 'Holding Costs Paid', value: closeout.holding_costs_paid },
+    { label: 'Points & Lender Fees', value: closeout.financing_fees },
+    { label: 'Interest & Fees in Payoff', value: realized.payoffInterest },
+  ];
+
+  return (
+    <ReportDocument title={`${project.name} - Post-Mortem`}>
+      <PdfHeader title="Post-Mortem" subtitle={address} date={fmt.longDate()} />
+
+      <PdfFooter projectName={project.name} confidential />
+
+      <Section title="Realized Results">
+        <MetricRow
+          items={[
+            {
+              label: 'Realized Profit',
+              value: fmt.currency(realized.profit),
+              sublabel: `${fmt.currency(projection.profit)} projected`,
+              variant: realized.profit >= 0 ? 'positive' : 'negative',
+            },
+            {
+              label: 'Realized ROI',
+              value: fmt.percent(realized.roi),
+              sublabel: `${fmt.percent(projection.roi)} projected`,
+              variant: realized.roi >= projection.roi ? 'positive' : 'negative',
+            },
+            {
+              label: 'Hold',
+              value: `${realized.holdDays} days`,
+              sublabel: `${projection.holdDays} days projected`,
+            },
+            {
+              label: 'Cash at Settlement',
+              value: fmt.currency(realized.cashReturned),
+              sublabel: `Settled ${fmt.date(closeout.sale_date)}`,
+              variant: 'primary',
+            },
+          ]}
+        />
+      </Section>
+
+      <Section title="Projected vs Actual">
+        <Table>
+          <Tr variant="head">
+            <Th width="40%">Item</Th>
+            <Th width="20%" align="right">Projected</Th>
+            <Th width="20%" align="right">Actual</Th>
+            <Th width="20%" align="right">Variance</Th>
+          </Tr>
+          {variance.map((line) => (
+            <Tr key={line.label} variant={line.label === 'Profit' ? 'total' : undefined}>
+              <Td width="40%">{line.label}</Td>
+              <Td width="20%" align="right">{fmt.currency(line.projected)}</Td>
+              <Td width="20%" align="right">{fmt.currency(line.actual)}</Td>
+              <Td
+                width="20%"
+                align="right"
+                style={{
+                  color: line.variance === 0 ? undefined : line.favorable ? pdfColors.positive : pdfColors.negative,
+                }}
+              >
+                {line.variance === 0 ? '-' : fmt.signedCurrency(line.variance)}
+              </Td>
+            </Tr>
+          ))}
+        </Table>
+      </Section>
+
+      <Section title="Settlement">
+        <Table>
+          {settlement.map((row) => (
+            <Tr key={row.label}>
+              <Td width="70%">{row.label}</Td>
+              <Td width="30%" align="right">{fmt.currencyDetailed(row.value)}</Td>
+            </Tr>
+          ))}
+          <Tr variant="total">
+            <Td width="70%">Cash to Seller</Td>
+            <Td width="30%" align="right">{fmt.currencyDetailed(realized.cashReturned)}</Td>
+          </Tr>
+        </Table>
+      </Section>
+
+      <Section title="Total Investment">
+        <Table>
+          {costs.map((row) => (
+            <Tr key={row.label}>
+              <Td width="70%">{row.label}</Td>
+              <Td width="30%" align="right">{fmt.currencyDetailed(row.value)}</Td>
+            </Tr>
+          ))}
+          <Tr variant="total">
+            <Td width="70%">Total</Td>
+            <Td width="30%" align="right">{fmt.currencyDetailed(realized.totalInvestment)}</Td>
+          </Tr>
+        </Table>
+        <Text style={{ ...pdfStyles.small, marginTop: 8 }}>
+          {`Realized profit is the sale price less selling costs and the total investment. Loan principal of ${fmt.currency(
+            closeout.loan_principal
+          )} is left out of cash invested (${fmt.currency(realized.cashInvested)}). Locked ${fmt.date(
+            closeout.locked_at
+          )}.`}
+        </Text>
+        {closeout.notes && <Text style={{ ...pdfStyles.small, marginTop: 4 }}>{closeout.notes}</Text>}
+      </Section>
+    </ReportDocument>
+  );
+}
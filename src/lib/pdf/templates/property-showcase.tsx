@@ -1,11 +1,13 @@
-import { PageBreak } from '@fileforge/react-print';
-import { pdfStyles } from '@/lib/pdf/styles';
-import { pdfFormatters } from '@/lib/pdf/compile';
+import { View, Text } from '@react-pdf/renderer';
+import { pdfStyles, type PdfStyle } from '@/lib/pdf/styles';
+import { pdfFormatters } from '@/lib/pdf/formatters';
 import {
-  PdfHeader,
+  ReportDocument,
   PdfFooter,
   Section,
   Divider,
+  PdfPhoto,
+  SummaryTable,
 } from '@/components/pdf/shared';
 import type { ProjectSummary, BudgetItem, LineItemPhoto } from '@/types';
 import { BUDGET_CATEGORIES } from '@/types';
@@ -23,6 +25,57 @@ interface PropertyShowcaseProps {
   companyWebsite?: string;
 }
 
+interface PhotoColumnProps {
+  label: string;
+  photos: PhotoWithUrl[];
+  headerStyle: PdfStyle;
+  bodyStyle: PdfStyle;
+}
+
+// One side of the before/after comparison
+function PhotoColumn({ label, photos, headerStyle, bodyStyle }: PhotoColumnProps) {
+  return (
+    <View style={pdfStyles.col}>
+      <Text
+        style={{
+          paddingVertical: 8,
+          paddingHorizontal: 12,
+          borderTopLeftRadius: 4,
+          borderTopRightRadius: 4,
+          fontWeight: 600,
+          fontSize: 11,
+          textAlign: 'center',
+          ...headerStyle,
+        }}
+      >
+        {label.toUpperCase()}
+      </Text>
+      <View
+        style={{
+          borderWidth: 2,
+          borderTopWidth: 0,
+          borderBottomLeftRadius: 4,
+          borderBottomRightRadius: 4,
+          padding: 8,
+          minHeight: 200,
+          gap: 8,
+          ...bodyStyle,
+        }}
+      >
+        {photos.length > 0 ? (
+          photos
+            .slice(0, 4)
+            .map((photo) => <PdfPhoto key={photo.id} src={photo.signedUrl!} caption={photo.caption} height={150} />)
+        ) : (
+          <View style={{ height: 180, alignItems: 'center', justifyContent: 'center' }}>
+            <Text style={{ color: '#94a3b8' }}>No {label.toLowerCase()} photos uploaded</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
 export function PropertyShowcaseReport({
   project,
   budgetItems,
@@ -32,11 +85,7 @@ export function PropertyShowcaseReport({
   companyWebsite,
 }: PropertyShowcaseProps) {
   const fmt = pdfFormatters;
-  const generatedDate = new Date().toLocaleDateString('en-US', {
-    month: 'long',
-    day: 'numeric',
-    year: 'numeric',
-  });
+  const generatedDate = fmt.longDate();
 
   // Group photos by type
   const beforePhotos = photos.filter((p) => p.photo_type === 'before' && p.signedUrl);
@@ -58,7 +107,7 @@ export function PropertyShowcaseReport({
 
   // Calculate key stats
   const totalRehab = project.rehab_budget_with_contingency;
-  const roi = project.total_investment > 0 ? (project.gross_profit / project.total_investment) * 100 : 0;
+  const roi = project.roi;
 
   // Get scope highlights (top completed items by value)
   const completedItems = budgetItems
@@ -72,506 +121,237 @@ export function PropertyShowcaseReport({
     return { category: cat.label, items, total };
   }).filter((cat) => cat.items.length > 0);
 
+  const heroLabel = { fontSize: 9, color: '#94a3b8', textTransform: 'uppercase' as const };
+  const heroValue = { fontSize: 18, fontWeight: 700 };
+  const detailValue = { fontSize: 14, fontWeight: 600 };
+  const summaryCards = [
+    {
+      label: 'Total Investment',
+      value: fmt.currency(project.total_investment),
+      note: 'Purchase + Rehab + Costs',
+      colors: { backgroundColor: '#eff6ff', borderColor: '#bfdbfe', color: '#1e40af', noteColor: '#3b82f6' },
+    },
+    {
+      label: 'After Repair Value',
+      value: fmt.currency(project.arv),
+      note: 'Estimated Market Value',
+      colors: { backgroundColor: '#f0fdf4', borderColor: '#bbf7d0', color: '#166534', noteColor: '#22c55e' },
+    },
+    {
+      label: 'Gross Profit',
+      value: fmt.currency(project.gross_profit),
+      note: `${fmt.percent(roi)} ROI`,
+      colors: { backgroundColor: '#faf5ff', borderColor: '#e9d5ff', color: '#7c3aed', noteColor: '#a855f7' },
+    },
+  ];
+
   return (
-    <div style={pdfStyles.page}>
+    <ReportDocument title={`${project.name} - Property Showcase`}>
       {/* Hero Section */}
-      <div
+      <View
         style={{
           backgroundColor: '#0f172a',
           color: 'white',
-          padding: '32pt 24pt',
-          marginBottom: '24pt',
-          borderRadius: '8pt',
-          textAlign: 'center',
+          paddingVertical: 32,
+          paddingHorizontal: 24,
+          marginBottom: 24,
+          borderRadius: 8,
+          alignItems: 'center',
         }}
       >
-        <div
-          style={{
-            fontSize: '10pt',
-            textTransform: 'uppercase',
-            letterSpacing: '2pt',
-            opacity: 0.7,
-            marginBottom: '8pt',
-          }}
-        >
+        <Text style={{ ...heroLabel, fontSize: 10, letterSpacing: 2, marginBottom: 8 }}>
           Property Transformation
-        </div>
-        <h1
-          style={{
-            fontSize: '28pt',
-            fontWeight: '700',
-            margin: '0 0 8pt 0',
-            lineHeight: 1.2,
-          }}
-        >
+        </Text>
+        <Text style={{ fontSize: 28, fontWeight: 700, marginBottom: 8, lineHeight: 1.2, textAlign: 'center' }}>
           {project.address || project.name}
-        </h1>
-        <div style={{ fontSize: '12pt', opacity: 0.8 }}>
+        </Text>
+        <Text style={{ fontSize: 12, color: '#cbd5e1' }}>
           {project.city && `${project.city}, `}{project.state} {project.zip}
-        </div>
+        </Text>
 
         {/* Key Stats Row */}
-        <div
+        <View
           style={{
-            display: 'grid',
-            gridTemplateColumns: 'repeat(4, 1fr)',
-            gap: '16pt',
-            marginTop: '24pt',
-            paddingTop: '24pt',
-            borderTop: '1px solid rgba(255,255,255,0.2)',
+            ...pdfStyles.row,
+            gap: 16,
+            alignSelf: 'stretch',
+            marginTop: 24,
+            paddingTop: 24,
+            borderTopWidth: 1,
+            borderTopColor: '#334155',
           }}
         >
-          <div>
-            <div style={{ fontSize: '9pt', opacity: 0.6, textTransform: 'uppercase' }}>Purchase</div>
-            <div style={{ fontSize: '18pt', fontWeight: '700' }}>{fmt.currency(project.purchase_price)}</div>
-          </div>
-          <div>
-            <div style={{ fontSize: '9pt', opacity: 0.6, textTransform: 'uppercase' }}>Rehab Investment</div>
-            <div style={{ fontSize: '18pt', fontWeight: '700' }}>{fmt.currency(totalRehab)}</div>
-          </div>
-          <div>
-            <div style={{ fontSize: '9pt', opacity: 0.6, textTransform: 'uppercase' }}>ARV</div>
-            <div style={{ fontSize: '18pt', fontWeight: '700', color: '#4ade80' }}>{fmt.currency(project.arv)}</div>
-          </div>
-          <div>
-            <div style={{ fontSize: '9pt', opacity: 0.6, textTransform: 'uppercase' }}>Profit</div>
-            <div style={{ fontSize: '18pt', fontWeight: '700', color: '#4ade80' }}>{fmt.currency(project.gross_profit)}</div>
-          </div>
-        </div>
-      </div>
+          <View style={pdfStyles.col}>
+            <Text style={heroLabel}>Purchase</Text>
+            <Text style={heroValue}>{fmt.currency(project.purchase_price)}</Text>
+          </View>
+          <View style={pdfStyles.col}>
+            <Text style={heroLabel}>Rehab Investment</Text>
+            <Text style={heroValue}>{fmt.currency(totalRehab)}</Text>
+          </View>
+          <View style={pdfStyles.col}>
+            <Text style={heroLabel}>ARV</Text>
+            <Text style={{ ...heroValue, color: '#4ade80' }}>{fmt.currency(project.arv)}</Text>
+          </View>
+          <View style={pdfStyles.col}>
+            <Text style={heroLabel}>Profit</Text>
+            <Text style={{ ...heroValue, color: '#4ade80' }}>{fmt.currency(project.gross_profit)}</Text>
+          </View>
+        </View>
+      </View>
 
       <PdfFooter projectName={project.name} confidential={false} />
 
       {/* Property Details */}
       <Section title="Property Details">
-        <div
-          style={{
-            display: 'grid',
-            gridTemplateColumns: 'repeat(6, 1fr)',
-            gap: '12pt',
-          }}
-        >
-          <div style={pdfStyles.card}>
-            <div style={pdfStyles.metricLabel}>Type</div>
-            <div style={{ fontSize: '14pt', fontWeight: '600' }}>{project.property_type?.toUpperCase() || 'SFH'}</div>
-          </div>
-          <div style={pdfStyles.card}>
-            <div style={pdfStyles.metricLabel}>Beds</div>
-            <div style={{ fontSize: '14pt', fontWeight: '600' }}>{project.beds || '-'}</div>
-          </div>
-          <div style={pdfStyles.card}>
-            <div style={pdfStyles.metricLabel}>Baths</div>
-            <div style={{ fontSize: '14pt', fontWeight: '600' }}>{project.baths || '-'}</div>
-          </div>
-          <div style={pdfStyles.card}>
-            <div style={pdfStyles.metricLabel}>Sq Ft</div>
-            <div style={{ fontSize: '14pt', fontWeight: '600' }}>{fmt.number(project.sqft || 0)}</div>
-          </div>
-          <div style={pdfStyles.card}>
-            <div style={pdfStyles.metricLabel}>Year Built</div>
-            <div style={{ fontSize: '14pt', fontWeight: '600' }}>{project.year_built || '-'}</div>
-          </div>
-          <div style={pdfStyles.card}>
-            <div style={pdfStyles.metricLabel}>ROI</div>
-            <div style={{ fontSize: '14pt', fontWeight: '600', color: pdfStyles.positive.color }}>
-              {fmt.percent(roi)}
-            </div>
-          </div>
-        </div>
+        <View style={{ ...pdfStyles.row, gap: 8 }}>
+          {[
+            { label: 'Type', value: project.property_type?.toUpperCase() || 'SFH' },
+            { label: 'Beds', value: project.beds || '-' },
+            { label: 'Baths', value: project.baths || '-' },
+            { label: 'Sq Ft', value: fmt.number(project.sqft || 0) },
+            { label: 'Year Built', value: project.year_built || '-' },
+          ].map((detail) => (
+            <View key={detail.label} style={{ ...pdfStyles.card, padding: 8 }}>
+              <Text style={pdfStyles.metricLabel}>{detail.label}</Text>
+              <Text style={detailValue}>{detail.value}</Text>
+            </View>
+          ))}
+          <View style={{ ...pdfStyles.card, padding: 8 }}>
+            <Text style={pdfStyles.metricLabel}>ROI</Text>
+            <Text style={{ ...detailValue, color: pdfStyles.positive.color }}>{fmt.percent(roi)}</Text>
+          </View>
+        </View>
       </Section>
 
       <Divider />
 
       {/* Before & After Gallery */}
       {(beforePhotos.length > 0 || afterPhotos.length > 0) && (
-        <>
-          <Section title="The Transformation">
-            {/* Side by side comparison grid */}
-            <div
-              style={{
-                display: 'grid',
-                gridTemplateColumns: '1fr 1fr',
-                gap: '16pt',
-              }}
-            >
-              {/* Before Column */}
-              <div>
-                <div
-                  style={{
-                    backgroundColor: '#fee2e2',
-                    color: '#991b1b',
-                    padding: '8pt 12pt',
-                    borderRadius: '4pt 4pt 0 0',
-                    fontWeight: '600',
-                    fontSize: '11pt',
-                    textAlign: 'center',
-                  }}
-                >
-                  BEFORE
-                </div>
-                <div
-                  style={{
-                    border: '2px solid #fecaca',
-                    borderTop: 'none',
-                    borderRadius: '0 0 4pt 4pt',
-                    padding: '8pt',
-                    minHeight: '200pt',
-                    backgroundColor: '#fef2f2',
-                  }}
-                >
-                  {beforePhotos.length > 0 ? (
-                    <div style={{ display: 'flex', flexDirection: 'column', gap: '8pt' }}>
-                      {beforePhotos.slice(0, 4).map((photo, i) => (
-                        <div key={photo.id} style={{ position: 'relative' }}>
-                          <img
-                            src={photo.signedUrl!}
-                            alt={photo.caption || `Before ${i + 1}`}
-                            style={{
-                              width: '100%',
-                              height: 'auto',
-                              maxHeight: '150pt',
-                              objectFit: 'cover',
-                              borderRadius: '4pt',
-                            }}
-                          />
-                          {photo.caption && (
-                            <div
-                              style={{
-                                fontSize: '8pt',
-                                color: '#64748b',
-                                marginTop: '2pt',
-                                textAlign: 'center',
-                              }}
-                            >
-                              {photo.caption}
-                            </div>
-                          )}
-                        </div>
-                      ))}
-                    </div>
-                  ) : (
-                    <div
-                      style={{
-                        display: 'flex',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        height: '180pt',
-                        color: '#94a3b8',
-                        fontSize: '10pt',
-                      }}
-                    >
-                      No before photos uploaded
-                    </div>
-                  )}
-                </div>
-              </div>
-
-              {/* After Column */}
-              <div>
-                <div
-                  style={{
-                    backgroundColor: '#dcfce7',
-                    color: '#166534',
-                    padding: '8pt 12pt',
-                    borderRadius: '4pt 4pt 0 0',
-                    fontWeight: '600',
-                    fontSize: '11pt',
-                    textAlign: 'center',
-                  }}
-                >
-                  AFTER
-                </div>
-                <div
-                  style={{
-                    border: '2px solid #bbf7d0',
-                    borderTop: 'none',
-                    borderRadius: '0 0 4pt 4pt',
-                    padding: '8pt',
-                    minHeight: '200pt',
-                    backgroundColor: '#f0fdf4',
-                  }}
-                >
-                  {afterPhotos.length > 0 ? (
-                    <div style={{ display: 'flex', flexDirection: 'column', gap: '8pt' }}>
-                      {afterPhotos.slice(0, 4).map((photo, i) => (
-                        <div key={photo.id} style={{ position: 'relative' }}>
-                          <img
-                            src={photo.signedUrl!}
-                            alt={photo.caption || `After ${i + 1}`}
-                            style={{
-                              width: '100%',
-                              height: 'auto',
-                              maxHeight: '150pt',
-                              objectFit: 'cover',
-                              borderRadius: '4pt',
-                            }}
-                          />
-                          {photo.caption && (
-                            <div
-                              style={{
-                                fontSize: '8pt',
-                                color: '#64748b',
-                                marginTop: '2pt',
-                                textAlign: 'center',
-                              }}
-                            >
-                              {photo.caption}
-                            </div>
-                          )}
-                        </div>
-                      ))}
-                    </div>
-                  ) : (
-                    <div
-                      style={{
-                        display: 'flex',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        height: '180pt',
-                        color: '#94a3b8',
-                        fontSize: '10pt',
-                      }}
-                    >
-                      No after photos uploaded
-                    </div>
-                  )}
-                </div>
-              </div>
-            </div>
-          </Section>
-
-          <PageBreak />
-        </>
+        <Section title="The Transformation">
+          <View style={{ ...pdfStyles.row, gap: 16 }}>
+            <PhotoColumn
+              label="Before"
+              photos={beforePhotos}
+              headerStyle={{ backgroundColor: '#fee2e2', color: '#991b1b' }}
+              bodyStyle={{ borderColor: '#fecaca', backgroundColor: '#fef2f2' }}
+            />
+            <PhotoColumn
+              label="After"
+              photos={afterPhotos}
+              headerStyle={{ backgroundColor: '#dcfce7', color: '#166534' }}
+              bodyStyle={{ borderColor: '#bbf7d0', backgroundColor: '#f0fdf4' }}
+            />
+          </View>
+        </Section>
       )}
 
       {/* Scope of Work */}
-      <Section title="Scope of Work">
-        <div style={{ fontSize: '10pt', color: '#64748b', marginBottom: '12pt' }}>
+      <Section title="Scope of Work" break={beforePhotos.length > 0 || afterPhotos.length > 0}>
+        <Text style={{ color: '#64748b', marginBottom: 12 }}>
           Full renovation including the following improvements:
-        </div>
+        </Text>
 
-        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16pt' }}>
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', columnGap: 16 }}>
           {scopeByCategory.slice(0, 8).map((cat) => (
-            <div key={cat.category} style={{ marginBottom: '8pt' }}>
-              <div
-                style={{
-                  display: 'flex',
-                  justifyContent: 'space-between',
-                  alignItems: 'center',
-                  marginBottom: '4pt',
-                }}
-              >
-                <span style={{ fontWeight: '600', fontSize: '10pt' }}>{cat.category}</span>
-                <span style={{ fontSize: '10pt', color: '#64748b' }}>{fmt.currency(cat.total)}</span>
-              </div>
-              <ul style={{ margin: 0, paddingLeft: '16pt', fontSize: '9pt', color: '#475569' }}>
-                {cat.items.slice(0, 3).map((item) => (
-                  <li key={item.id} style={{ marginBottom: '2pt' }}>{item.item}</li>
-                ))}
-                {cat.items.length > 3 && (
-                  <li style={{ color: '#94a3b8', fontStyle: 'italic' }}>
-                    +{cat.items.length - 3} more items
-                  </li>
-                )}
-              </ul>
-            </div>
+            <View key={cat.category} style={{ width: '48%', marginBottom: 8 }} wrap={false}>
+              <View style={{ ...pdfStyles.spaceBetween, marginBottom: 4 }}>
+                <Text style={{ fontWeight: 600 }}>{cat.category}</Text>
+                <Text style={{ color: '#64748b' }}>{fmt.currency(cat.total)}</Text>
+              </View>
+              {cat.items.slice(0, 3).map((item) => (
+                <Text key={item.id} style={{ fontSize: 9, color: '#475569', marginBottom: 2, paddingLeft: 8 }}>
+                  {'•'} {item.item}
+                </Text>
+              ))}
+              {cat.items.length > 3 && (
+                <Text style={{ fontSize: 9, color: '#94a3b8', fontStyle: 'italic', paddingLeft: 8 }}>
+                  +{cat.items.length - 3} more items
+                </Text>
+              )}
+            </View>
           ))}
-        </div>
+        </View>
       </Section>
 
       <Divider />
 
       {/* Investment Summary */}
       <Section title="Investment Summary">
-        <div
-          style={{
-            display: 'grid',
-            gridTemplateColumns: '1fr 1fr 1fr',
-            gap: '16pt',
-          }}
-        >
-          <div
-            style={{
-              ...pdfStyles.card,
-              backgroundColor: '#eff6ff',
-              borderColor: '#bfdbfe',
-              textAlign: 'center',
-            }}
-          >
-            <div style={{ fontSize: '9pt', color: '#1e40af', textTransform: 'uppercase', marginBottom: '4pt' }}>
-              Total Investment
-            </div>
-            <div style={{ fontSize: '20pt', fontWeight: '700', color: '#1e40af' }}>
-              {fmt.currency(project.total_investment)}
-            </div>
-            <div style={{ fontSize: '8pt', color: '#3b82f6', marginTop: '4pt' }}>
-              Purchase + Rehab + Costs
-            </div>
-          </div>
-
-          <div
-            style={{
-              ...pdfStyles.card,
-              backgroundColor: '#f0fdf4',
-              borderColor: '#bbf7d0',
-              textAlign: 'center',
-            }}
-          >
-            <div style={{ fontSize: '9pt', color: '#166534', textTransform: 'uppercase', marginBottom: '4pt' }}>
-              After Repair Value
-            </div>
-            <div style={{ fontSize: '20pt', fontWeight: '700', color: '#166534' }}>
-              {fmt.currency(project.arv)}
-            </div>
-            <div style={{ fontSize: '8pt', color: '#22c55e', marginTop: '4pt' }}>
-              Estimated Market Value
-            </div>
-          </div>
-
-          <div
-            style={{
-              ...pdfStyles.card,
-              backgroundColor: '#faf5ff',
-              borderColor: '#e9d5ff',
-              textAlign: 'center',
-            }}
-          >
-            <div style={{ fontSize: '9pt', color: '#7c3aed', textTransform: 'uppercase', marginBottom: '4pt' }}>
-              Gross Profit
-            </div>
-            <div style={{ fontSize: '20pt', fontWeight: '700', color: '#7c3aed' }}>
-              {fmt.currency(project.gross_profit)}
-            </div>
-            <div style={{ fontSize: '8pt', color: '#a855f7', marginTop: '4pt' }}>
-              {fmt.percent(roi)} ROI
-            </div>
-          </div>
-        </div>
+        <View style={{ ...pdfStyles.row, gap: 16 }} wrap={false}>
+          {summaryCards.map(({ label, value, note, colors }) => (
+            <View
+              key={label}
+              style={{
+                ...pdfStyles.card,
+                backgroundColor: colors.backgroundColor,
+                borderColor: colors.borderColor,
+                alignItems: 'center',
+              }}
+            >
+              <Text style={{ fontSize: 9, color: colors.color, textTransform: 'uppercase', marginBottom: 4 }}>
+                {label}
+              </Text>
+              <Text style={{ fontSize: 18, fontWeight: 700, color: colors.color }}>{value}</Text>
+              <Text style={{ fontSize: 8, color: colors.noteColor, marginTop: 4 }}>{note}</Text>
+            </View>
+          ))}
+        </View>
 
         {/* Detailed Breakdown */}
-        <div style={{ marginTop: '16pt' }}>
-          <table style={{ ...pdfStyles.table, fontSize: '9pt' }}>
-            <tbody>
-              <tr>
-                <td style={pdfStyles.td}>Purchase Price</td>
-                <td style={pdfStyles.tdRight}>{fmt.currency(project.purchase_price)}</td>
-              </tr>
-              <tr>
-                <td style={pdfStyles.td}>Closing Costs</td>
-                <td style={pdfStyles.tdRight}>{fmt.currency(project.closing_costs)}</td>
-              </tr>
-              <tr>
-                <td style={pdfStyles.td}>Rehab Budget</td>
-                <td style={pdfStyles.tdRight}>{fmt.currency(project.rehab_budget)}</td>
-              </tr>
-              <tr>
-                <td style={pdfStyles.td}>Contingency ({project.contingency_percent}%)</td>
-                <td style={pdfStyles.tdRight}>{fmt.currency(project.contingency_amount)}</td>
-              </tr>
-              <tr>
-                <td style={pdfStyles.td}>Holding Costs ({project.hold_months} mo)</td>
-                <td style={pdfStyles.tdRight}>{fmt.currency(project.holding_costs_total)}</td>
-              </tr>
-              <tr style={{ backgroundColor: '#f8fafc' }}>
-                <td style={{ ...pdfStyles.td, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                  Total Investment
-                </td>
-                <td style={{ ...pdfStyles.tdRight, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                  {fmt.currency(project.total_investment)}
-                </td>
-              </tr>
-              <tr>
-                <td style={pdfStyles.td}>ARV (Sale Price)</td>
-                <td style={pdfStyles.tdRight}>{fmt.currency(project.arv)}</td>
-              </tr>
-              <tr>
-                <td style={pdfStyles.td}>Selling Costs ({project.selling_cost_percent}%)</td>
-                <td style={pdfStyles.tdRight}>({fmt.currency(project.selling_costs)})</td>
-              </tr>
-              <tr style={{ backgroundColor: '#f0fdf4' }}>
-                <td style={{ ...pdfStyles.td, fontWeight: '600', color: pdfStyles.positive.color, borderTop: '2px solid #e2e8f0' }}>
-                  Gross Profit
-                </td>
-                <td style={{ ...pdfStyles.tdRight, fontWeight: '600', color: pdfStyles.positive.color, borderTop: '2px solid #e2e8f0' }}>
-                  {fmt.currency(project.gross_profit)}
-                </td>
-              </tr>
-            </tbody>
-          </table>
-        </div>
+        <View style={pdfStyles.mt4}>
+          <SummaryTable
+            rows={[
+              { label: 'Purchase Price', value: fmt.currency(project.purchase_price) },
+              { label: 'Closing Costs', value: fmt.currency(project.closing_costs) },
+              { label: 'Rehab Budget', value: fmt.currency(project.rehab_budget) },
+              { label: `Contingency (${project.contingency_percent}%)`, value: fmt.currency(project.contingency_amount) },
+              { label: `Holding Costs (${project.hold_months} mo)`, value: fmt.currency(project.holding_costs_total) },
+              { label: 'Total Investment', value: fmt.currency(project.total_investment), bold: true },
+              { label: 'ARV (Sale Price)', value: fmt.currency(project.arv) },
+              { label: `Selling Costs (${project.selling_cost_percent}%)`, value: `(${fmt.currency(project.selling_costs)})` },
+              { label: 'Gross Profit', value: fmt.currency(project.gross_profit), bold: true, variant: 'positive' },
+            ]}
+          />
+        </View>
       </Section>
 
       {/* Progress Photos Gallery (if available) */}
       {progressPhotos.length > 0 && (
-        <>
-          <PageBreak />
-          <Section title="Progress Documentation">
-            <div
-              style={{
-                display: 'grid',
-                gridTemplateColumns: 'repeat(3, 1fr)',
-                gap: '12pt',
-              }}
-            >
-              {progressPhotos.slice(0, 9).map((photo) => (
-                <div key={photo.id}>
-                  <img
-                    src={photo.signedUrl!}
-                    alt={photo.caption || 'Progress photo'}
-                    style={{
-                      width: '100%',
-                      height: '120pt',
-                      objectFit: 'cover',
-                      borderRadius: '4pt',
-                    }}
-                  />
-                  {photo.caption && (
-                    <div
-                      style={{
-                        fontSize: '8pt',
-                        color: '#64748b',
-                        marginTop: '4pt',
-                        textAlign: 'center',
-                      }}
-                    >
-                      {photo.caption}
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
-          </Section>
-        </>
+        <Section title="Progress Documentation" break>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 12 }}>
+            {progressPhotos.slice(0, 9).map((photo) => (
+              <PdfPhoto
+                key={photo.id}
+                src={photo.signedUrl!}
+                caption={photo.caption}
+                height={120}
+                style={{ width: '31%' }}
+              />
+            ))}
+          </View>
+        </Section>
       )}
 
       {/* Contact / CTA Section */}
-      <div
+      <View
+        wrap={false}
         style={{
-          marginTop: '24pt',
-          padding: '20pt',
+          marginTop: 24,
+          padding: 20,
           backgroundColor: '#0f172a',
           color: 'white',
-          borderRadius: '8pt',
-          textAlign: 'center',
+          borderRadius: 8,
+          alignItems: 'center',
         }}
       >
-        <div style={{ fontSize: '14pt', fontWeight: '600', marginBottom: '8pt' }}>
-          {companyName}
-        </div>
+        <Text style={{ fontSize: 14, fontWeight: 600, marginBottom: 8 }}>{companyName}</Text>
         {companyContact && (
-          <div style={{ fontSize: '11pt', opacity: 0.8, marginBottom: '4pt' }}>
-            {companyContact}
-          </div>
-        )}
-        {companyWebsite && (
-          <div style={{ fontSize: '10pt', color: '#60a5fa' }}>
-            {companyWebsite}
-          </div>
+          <Text style={{ fontSize: 11, color: '#cbd5e1', marginBottom: 4 }}>{companyContact}</Text>
         )}
-        <div style={{ fontSize: '9pt', opacity: 0.5, marginTop: '12pt' }}>
-          Generated {generatedDate}
-        </div>
-      </div>
-    </div>
+        {companyWebsite && <Text style={{ color: '#60a5fa' }}>{companyWebsite}</Text>}
+        <Text style={{ fontSize: 9, color: '#64748b', marginTop: 12 }}>Generated {generatedDate}</Text>
+      </View>
+    </ReportDocument>
   );
 }
@@ -0,0 +1,111 @@
+import { View, Text } from '@react-pdf/renderer';
+import { pdfStyles } from '@/lib/pdf/styles';
+import { pdfFormatters } from '@/lib/pdf/formatters';
+import {
+  ReportDocument,
+  PdfHeader,
+  PdfFooter,
+  MetricRow,
+  Section,
+  Table,
+  Tr,
+  Th,
+  Td,
+} from '@/components/pdf/shared';
+import { VendorProfile } from './vendor-summary';
+import { NEC_REPORTING_THRESHOLD, type Vendor1099Summary } from '@/lib/tax-1099';
+import { PAYMENT_METHOD_LABELS } from '@/types';
+
+interface VendorPaymentStatementProps {
+  taxYear: number;
+  summary: Vendor1099Summary;
+}
+
+/**
+ * Year-end statement of what a vendor was paid across all projects, backing
+ * the Box 1 amount on their 1099-NEC.
+ */
+export function VendorPaymentStatement({ taxYear, summary }: VendorPaymentStatementProps) {
+  const fmt = pdfFormatters;
+  const { vendor, payments, total, excludedTotal, reportable, needsW9 } = summary;
+  const projectCount = new Set(payments.map((payment) => payment.project_id)).size;
+
+  return (
+    <ReportDocument title={`${vendor.name} - ${taxYear} Payment Statement`}>
+      <PdfHeader title={`${taxYear} Vendor Payment Statement`} subtitle={vendor.name} date={fmt.longDate()} />
+
+      <PdfFooter projectName={`${vendor.name} - ${taxYear}`} confidential />
+
+      <Section title="Vendor">
+        <View style={pdfStyles.card} wrap={false}>
+          <VendorProfile vendor={vendor} />
+          {vendor.address && <Text style={{ fontSize: 9, color: '#64748b' }}>{vendor.address}</Text>}
+        </View>
+      </Section>
+
+      <Section title="Summary">
+        <MetricRow
+          items={[
+            {
+              label: 'Nonemployee Compensation',
+              value: fmt.currencyDetailed(total),
+              sublabel: '1099-NEC Box 1',
+              variant: 'primary',
+            },
+            { label: 'Payments', value: payments.length.toString(), sublabel: `${projectCount} projects` },
+            {
+              label: 'Card Payments',
+              value: fmt.currencyDetailed(excludedTotal),
+              sublabel: 'Excluded (reported on 1099-K)',
+            },
+            {
+              label: '1099-NEC',
+              value: reportable ? 'Required' : 'Not required',
+              sublabel: `Threshold ${fmt.currency(NEC_REPORTING_THRESHOLD)}`,
+              variant: reportable ? 'negative' : 'default',
+            },
+          ]}
+        />
+        {needsW9 && (
+          <View style={{ ...pdfStyles.card, ...pdfStyles.mt3, backgroundColor: '#fef3c7' }}>
+            <Text style={{ fontWeight: 600, color: '#92400e' }}>No W-9 on file</Text>
+            <Text style={{ fontSize: 9, color: '#92400e' }}>
+              Request a W-9 from this vendor before filing their 1099-NEC.
+            </Text>
+          </View>
+        )}
+      </Section>
+
+      <Section title="Payments">
+        <Table>
+          <Tr variant="head">
+            <Th width="16%">Date Paid</Th>
+            <Th width="36%">Project</Th>
+            <Th width="12%" align="center">Draw</Th>
+            <Th width="18%">Method</Th>
+            <Th width="18%" align="right">Amount</Th>
+          </Tr>
+          {payments.map((payment) => (
+            <Tr key={payment.id}>
+              <Td width="16%">{fmt.date(payment.date_paid)}</Td>
+              <Td width="36%">{payment.project_name}</Td>
+              <Td width="12%" align="center">
+                #{payment.draw_number}
+              </Td>
+              <Td width="18%">{payment.payment_method ? PAYMENT_METHOD_LABELS[payment.payment_method] : '-'}</Td>
+              <Td width="18%" align="right">
+                {fmt.currencyDetailed(payment.amount)}
+              </Td>
+            </Tr>
+          ))}
+          <Tr variant="total">
+            <Td width="82%">Total ({payments.length} payments)</Td>
+            <Td width="18%" align="right">
+              {fmt.currencyDetailed(total)}
+            </Td>
+          </Tr>
+        </Table>
+      </Section>
+    </ReportDocument>
+  );
+}
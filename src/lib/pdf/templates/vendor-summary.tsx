@@ -1,7 +1,8 @@
-import { PageBreak } from '@fileforge/react-print';
+import { View, Text } from '@react-pdf/renderer';
 import { pdfStyles } from '@/lib/pdf/styles';
-import { pdfFormatters } from '@/lib/pdf/compile';
+import { pdfFormatters } from '@/lib/pdf/formatters';
 import {
+  ReportDocument,
   PdfHeader,
   PdfFooter,
   MetricRow,
@@ -9,10 +10,71 @@ import {
   StatusBadge,
   Badge,
   Divider,
+  Table,
+  Tr,
+  Th,
+  Td,
 } from '@/components/pdf/shared';
 import type { ProjectSummary, BudgetItem, Draw, Vendor } from '@/types';
 import { VENDOR_TRADE_LABELS } from '@/types';
 
+const sublabel = { fontSize: 8, color: '#64748b', textTransform: 'uppercase' as const, marginBottom: 2 };
+
+// Rating out of 5 (the built-in PDF fonts have no star glyphs)
+function renderRating(rating: number | null) {
+  if (!rating) return <Text style={{ color: '#94a3b8' }}>No rating</Text>;
+  return (
+    <Text style={{ color: '#f59e0b', fontWeight: 600 }}>
+      {rating.toFixed(1)} / 5
+    </Text>
+  );
+}
+
+/**
+ * Vendor name, trade, status and rating over their contact details and
+ * qualifications. Shared with the 1099 payment statement.
+ */
+export function VendorProfile({ vendor }: { vendor: Vendor }) {
+  return (
+    <>
+      {/* Vendor Header */}
+      <View style={{ ...pdfStyles.spaceBetween, ...pdfStyles.cardHeader }}>
+        <View>
+          <Text style={{ fontSize: 12, fontWeight: 600 }}>{vendor.name}</Text>
+          <Text style={{ fontSize: 9, color: '#64748b' }}>
+            {VENDOR_TRADE_LABELS[vendor.trade] || vendor.trade}
+          </Text>
+        </View>
+        <View style={{ alignItems: 'flex-end' }}>
+          <StatusBadge status={vendor.status} />
+          <View style={pdfStyles.mt1}>{renderRating(vendor.rating)}</View>
+        </View>
+      </View>
+
+      {/* Contact & Qualifications */}
+      <View style={{ ...pdfStyles.row, marginBottom: 8 }}>
+        <View style={pdfStyles.col}>
+          <Text style={sublabel}>Contact</Text>
+          {vendor.contact_name && <Text style={{ fontSize: 9 }}>{vendor.contact_name}</Text>}
+          {vendor.phone && <Text style={{ fontSize: 9 }}>{vendor.phone}</Text>}
+          {vendor.email && <Text style={{ fontSize: 9, color: '#2563eb' }}>{vendor.email}</Text>}
+        </View>
+        <View style={pdfStyles.col}>
+          <Text style={sublabel}>Qualifications</Text>
+          <View style={{ flexDirection: 'row', gap: 4, flexWrap: 'wrap' }}>
+            {vendor.licensed && <Badge variant="green">Licensed</Badge>}
+            {vendor.insured && <Badge variant="blue">Insured</Badge>}
+            {vendor.w9_on_file && <Badge variant="gray">W9</Badge>}
+            {vendor.price_level && (
+              <Badge variant="yellow">{vendor.price_level}</Badge>
+            )}
+          </View>
+        </View>
+      </View>
+    </>
+  );
+}
+
 interface VendorSummaryProps {
   project: ProjectSummary;
   budgetItems: BudgetItem[];
@@ -27,11 +89,7 @@ export function VendorSummaryReport({
   vendors,
 }: VendorSummaryProps) {
   const fmt = pdfFormatters;
-  const generatedDate = new Date().toLocaleDateString('en-US', {
-    month: 'long',
-    day: 'numeric',
-    year: 'numeric',
-  });
+  const generatedDate = fmt.longDate();
 
   // Get vendors assigned to this project's budget items
   const assignedVendorIds = new Set(
@@ -89,19 +147,10 @@ export function VendorSummaryReport({
   const totalPaid = vendorStats.reduce((sum, vs) => sum + vs.paidAmount, 0);
   const totalPending = vendorStats.reduce((sum, vs) => sum + vs.pendingAmount, 0);
 
-  // Render star rating
-  const renderRating = (rating: number | null) => {
-    if (!rating) return <span style={{ color: '#94a3b8' }}>No rating</span>;
-    const stars = '★'.repeat(Math.round(rating)) + '☆'.repeat(5 - Math.round(rating));
-    return (
-      <span style={{ color: '#f59e0b', letterSpacing: '1pt' }}>
-        {stars} <span style={{ color: '#64748b', fontSize: '8pt' }}>({rating.toFixed(1)})</span>
-      </span>
-    );
-  };
+  const unassignedItems = budgetItems.filter((i) => !i.vendor_id);
 
   return (
-    <div style={pdfStyles.page}>
+    <ReportDocument title={`${project.name} - Vendor Summary`}>
       <PdfHeader
         title="Vendor Summary"
         subtitle={`${project.address || project.name}${project.city ? `, ${project.city}` : ''}`}
@@ -120,7 +169,7 @@ export function VendorSummaryReport({
             { label: 'Total Paid', value: fmt.currency(totalPaid), variant: 'positive' },
           ]}
         />
-        <div style={{ marginTop: '12pt' }}>
+        <View style={pdfStyles.mt3}>
           <MetricRow
             items={[
               { label: 'Pending Payments', value: fmt.currency(totalPending), variant: totalPending > 0 ? 'negative' : 'positive' },
@@ -136,231 +185,151 @@ export function VendorSummaryReport({
               },
             ]}
           />
-        </div>
+        </View>
       </Section>
 
       <Divider />
 
       {/* Vendor Rankings */}
       <Section title="Vendor Rankings by Budget">
-        <table style={pdfStyles.table}>
-          <thead>
-            <tr>
-              <th style={pdfStyles.th}>Vendor</th>
-              <th style={pdfStyles.th}>Trade</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'center' }}>Items</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>Budget</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>Actual</th>
-              <th style={{ ...pdfStyles.th, textAlign: 'right' }}>Paid</th>
-              <th style={pdfStyles.th}>Rating</th>
-            </tr>
-          </thead>
-          <tbody>
-            {vendorStats.slice(0, 10).map((vs, i) => (
-              <tr key={vs.vendor.id}>
-                <td style={pdfStyles.td}>
-                  <div style={{ fontWeight: '500' }}>{vs.vendor.name}</div>
-                  {vs.vendor.contact_name && (
-                    <div style={{ fontSize: '8pt', color: '#64748b' }}>{vs.vendor.contact_name}</div>
-                  )}
-                </td>
-                <td style={{ ...pdfStyles.td, fontSize: '9pt' }}>
-                  {VENDOR_TRADE_LABELS[vs.vendor.trade] || vs.vendor.trade}
-                </td>
-                <td style={{ ...pdfStyles.td, textAlign: 'center' }}>
-                  {vs.completedCount}/{vs.itemCount}
-                </td>
-                <td style={pdfStyles.tdRight}>{fmt.currency(vs.budgetTotal)}</td>
-                <td style={pdfStyles.tdRight}>{fmt.currency(vs.actualTotal)}</td>
-                <td style={pdfStyles.tdRight}>{fmt.currency(vs.paidAmount)}</td>
-                <td style={pdfStyles.td}>{renderRating(vs.vendor.rating)}</td>
-              </tr>
-            ))}
-          </tbody>
-          <tfoot>
-            <tr style={{ backgroundColor: '#f8fafc' }}>
-              <td colSpan={3} style={{ ...pdfStyles.td, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                Total ({vendorStats.length} vendors)
-              </td>
-              <td style={{ ...pdfStyles.tdRight, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                {fmt.currency(totalBudget)}
-              </td>
-              <td style={{ ...pdfStyles.tdRight, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                {fmt.currency(totalActual)}
-              </td>
-              <td style={{ ...pdfStyles.tdRight, fontWeight: '600', borderTop: '2px solid #e2e8f0' }}>
-                {fmt.currency(totalPaid)}
-              </td>
-              <td style={{ ...pdfStyles.td, borderTop: '2px solid #e2e8f0' }}></td>
-            </tr>
-          </tfoot>
-        </table>
+        <Table>
+          <Tr variant="head">
+            <Th width="24%">Vendor</Th>
+            <Th width="16%">Trade</Th>
+            <Th width="8%" align="center">Items</Th>
+            <Th width="13%" align="right">Budget</Th>
+            <Th width="13%" align="right">Actual</Th>
+            <Th width="13%" align="right">Paid</Th>
+            <Th width="13%">Rating</Th>
+          </Tr>
+          {vendorStats.slice(0, 10).map((vs) => (
+            <Tr key={vs.vendor.id}>
+              <Td width="24%">
+                <Text>{vs.vendor.name}</Text>
+                {vs.vendor.contact_name && (
+                  <Text style={pdfStyles.small}>{vs.vendor.contact_name}</Text>
+                )}
+              </Td>
+              <Td width="16%">{VENDOR_TRADE_LABELS[vs.vendor.trade] || vs.vendor.trade}</Td>
+              <Td width="8%" align="center">
+                {vs.completedCount}/{vs.itemCount}
+              </Td>
+              <Td width="13%" align="right">{fmt.currency(vs.budgetTotal)}</Td>
+              <Td width="13%" align="right">{fmt.currency(vs.actualTotal)}</Td>
+              <Td width="13%" align="right">{fmt.currency(vs.paidAmount)}</Td>
+              <Td width="13%">{renderRating(vs.vendor.rating)}</Td>
+            </Tr>
+          ))}
+          <Tr variant="total">
+            <Td width="48%">Total ({vendorStats.length} vendors)</Td>
+            <Td width="13%" align="right">{fmt.currency(totalBudget)}</Td>
+            <Td width="13%" align="right">{fmt.currency(totalActual)}</Td>
+            <Td width="13%" align="right">{fmt.currency(totalPaid)}</Td>
+            <Td width="13%" />
+          </Tr>
+        </Table>
       </Section>
 
-      <PageBreak />
-
       {/* Detailed Vendor Profiles */}
-      <Section title="Vendor Profiles">
-        {vendorStats.map((vs, index) => (
-          <div
-            key={vs.vendor.id}
-            style={{
-              ...pdfStyles.card,
-              marginBottom: '12pt',
-              pageBreakInside: 'avoid',
-            }}
-          >
-            {/* Vendor Header */}
-            <div
-              style={{
-                display: 'flex',
-                justifyContent: 'space-between',
-                alignItems: 'flex-start',
-                marginBottom: '8pt',
-                paddingBottom: '8pt',
-                borderBottom: '1px solid #e2e8f0',
-              }}
-            >
-              <div>
-                <div style={{ fontSize: '12pt', fontWeight: '600' }}>{vs.vendor.name}</div>
-                <div style={{ fontSize: '9pt', color: '#64748b' }}>
-                  {VENDOR_TRADE_LABELS[vs.vendor.trade] || vs.vendor.trade}
-                </div>
-              </div>
-              <div style={{ textAlign: 'right' }}>
-                <StatusBadge status={vs.vendor.status} />
-                <div style={{ marginTop: '4pt' }}>{renderRating(vs.vendor.rating)}</div>
-              </div>
-            </div>
-
-            {/* Contact & Qualifications */}
-            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12pt', marginBottom: '8pt' }}>
-              <div>
-                <div style={{ fontSize: '8pt', color: '#64748b', textTransform: 'uppercase', marginBottom: '2pt' }}>
-                  Contact
-                </div>
-                {vs.vendor.contact_name && <div style={{ fontSize: '9pt' }}>{vs.vendor.contact_name}</div>}
-                {vs.vendor.phone && <div style={{ fontSize: '9pt' }}>{vs.vendor.phone}</div>}
-                {vs.vendor.email && <div style={{ fontSize: '9pt', color: '#2563eb' }}>{vs.vendor.email}</div>}
-              </div>
-              <div>
-                <div style={{ fontSize: '8pt', color: '#64748b', textTransform: 'uppercase', marginBottom: '2pt' }}>
-                  Qualifications
-                </div>
-                <div style={{ display: 'flex', gap: '4pt', flexWrap: 'wrap' }}>
-                  {vs.vendor.licensed && <Badge variant="green">Licensed</Badge>}
-                  {vs.vendor.insured && <Badge variant="blue">Insured</Badge>}
-                  {vs.vendor.w9_on_file && <Badge variant="gray">W9</Badge>}
-                  {vs.vendor.price_level && (
-                    <Badge variant="yellow">{vs.vendor.price_level}</Badge>
-                  )}
-                </div>
-              </div>
-            </div>
+      <Section title="Vendor Profiles" break>
+        {vendorStats.map((vs) => (
+          <View key={vs.vendor.id} style={{ ...pdfStyles.card, marginBottom: 12 }} wrap={false}>
+            <VendorProfile vendor={vs.vendor} />
 
             {/* Financial Summary */}
-            <div
+            <View
               style={{
-                display: 'grid',
-                gridTemplateColumns: 'repeat(4, 1fr)',
-                gap: '8pt',
-                padding: '8pt',
+                ...pdfStyles.row,
+                gap: 8,
+                padding: 8,
                 backgroundColor: '#f8fafc',
-                borderRadius: '4pt',
+                borderRadius: 4,
               }}
             >
-              <div>
-                <div style={{ fontSize: '8pt', color: '#64748b' }}>Budget</div>
-                <div style={{ fontSize: '11pt', fontWeight: '600' }}>{fmt.currency(vs.budgetTotal)}</div>
-              </div>
-              <div>
-                <div style={{ fontSize: '8pt', color: '#64748b' }}>Actual</div>
-                <div style={{ fontSize: '11pt', fontWeight: '600' }}>{fmt.currency(vs.actualTotal)}</div>
-              </div>
-              <div>
-                <div style={{ fontSize: '8pt', color: '#64748b' }}>Paid</div>
-                <div style={{ fontSize: '11pt', fontWeight: '600', color: pdfStyles.positive.color }}>
+              <View style={pdfStyles.col}>
+                <Text style={pdfStyles.small}>Budget</Text>
+                <Text style={{ fontSize: 11, fontWeight: 600 }}>{fmt.currency(vs.budgetTotal)}</Text>
+              </View>
+              <View style={pdfStyles.col}>
+                <Text style={pdfStyles.small}>Actual</Text>
+                <Text style={{ fontSize: 11, fontWeight: 600 }}>{fmt.currency(vs.actualTotal)}</Text>
+              </View>
+              <View style={pdfStyles.col}>
+                <Text style={pdfStyles.small}>Paid</Text>
+                <Text style={{ fontSize: 11, fontWeight: 600, color: pdfStyles.positive.color }}>
                   {fmt.currency(vs.paidAmount)}
-                </div>
-              </div>
-              <div>
-                <div style={{ fontSize: '8pt', color: '#64748b' }}>Pending</div>
-                <div
+                </Text>
+              </View>
+              <View style={pdfStyles.col}>
+                <Text style={pdfStyles.small}>Pending</Text>
+                <Text
                   style={{
-                    fontSize: '11pt',
-                    fontWeight: '600',
-                    color: vs.pendingAmount > 0 ? pdfStyles.negative.color : 'inherit',
+                    fontSize: 11,
+                    fontWeight: 600,
+                    color: vs.pendingAmount > 0 ? pdfStyles.negative.color : undefined,
                   }}
                 >
                   {fmt.currency(vs.pendingAmount)}
-                </div>
-              </div>
-            </div>
+                </Text>
+              </View>
+            </View>
 
             {/* Assigned Items */}
             {vs.items.length > 0 && (
-              <div style={{ marginTop: '8pt' }}>
-                <div style={{ fontSize: '8pt', color: '#64748b', textTransform: 'uppercase', marginBottom: '4pt' }}>
-                  Assigned Items ({vs.items.length})
-                </div>
-                <table style={{ ...pdfStyles.table, fontSize: '8pt' }}>
-                  <thead>
-                    <tr>
-                      <th style={{ ...pdfStyles.th, fontSize: '8pt', padding: '4pt' }}>Item</th>
-                      <th style={{ ...pdfStyles.th, fontSize: '8pt', padding: '4pt', textAlign: 'right' }}>Budget</th>
-                      <th style={{ ...pdfStyles.th, fontSize: '8pt', padding: '4pt', textAlign: 'right' }}>Actual</th>
-                      <th style={{ ...pdfStyles.th, fontSize: '8pt', padding: '4pt' }}>Status</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {vs.items.slice(0, 5).map((item) => (
-                      <tr key={item.id}>
-                        <td style={{ ...pdfStyles.td, padding: '4pt' }}>{item.item}</td>
-                        <td style={{ ...pdfStyles.tdRight, padding: '4pt' }}>
-                          {fmt.currency(item.forecast_amount || item.underwriting_amount)}
-                        </td>
-                        <td style={{ ...pdfStyles.tdRight, padding: '4pt' }}>
-                          {fmt.currency(item.actual_amount || 0)}
-                        </td>
-                        <td style={{ ...pdfStyles.td, padding: '4pt' }}>
-                          <StatusBadge status={item.status} />
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
+              <View style={pdfStyles.mt2}>
+                <Text style={{ ...sublabel, marginBottom: 4 }}>Assigned Items ({vs.items.length})</Text>
+                <Table style={{ fontSize: 8 }}>
+                  <Tr variant="head">
+                    <Th span={3} compact>Item</Th>
+                    <Th span={2} compact align="right">Budget</Th>
+                    <Th span={2} compact align="right">Actual</Th>
+                    <Th span={2} compact>Status</Th>
+                  </Tr>
+                  {vs.items.slice(0, 5).map((item) => (
+                    <Tr key={item.id}>
+                      <Td span={3} compact>{item.item}</Td>
+                      <Td span={2} compact align="right">
+                        {fmt.currency(item.forecast_amount || item.underwriting_amount)}
+                      </Td>
+                      <Td span={2} compact align="right">
+                        {fmt.currency(item.actual_amount || 0)}
+                      </Td>
+                      <Td span={2} compact>
+                        <StatusBadge status={item.status} />
+                      </Td>
+                    </Tr>
+                  ))}
+                </Table>
                 {vs.items.length > 5 && (
-                  <div style={{ fontSize: '8pt', color: '#64748b', marginTop: '4pt', textAlign: 'center' }}>
+                  <Text style={{ ...pdfStyles.small, marginTop: 4, textAlign: 'center' }}>
                     + {vs.items.length - 5} more items
-                  </div>
+                  </Text>
                 )}
-              </div>
+              </View>
             )}
-          </div>
+          </View>
         ))}
       </Section>
 
       {/* Unassigned Work */}
-      {budgetItems.filter((i) => !i.vendor_id).length > 0 && (
+      {unassignedItems.length > 0 && (
         <>
           <Divider />
           <Section title="Unassigned Work">
-            <div style={{ ...pdfStyles.card, backgroundColor: '#fef3c7' }}>
-              <div style={{ fontWeight: '600', marginBottom: '8pt' }}>
-                {budgetItems.filter((i) => !i.vendor_id).length} line items without vendor assignment
-              </div>
-              <div style={{ fontSize: '9pt', color: '#92400e' }}>
+            <View style={{ ...pdfStyles.card, backgroundColor: '#fef3c7' }}>
+              <Text style={{ fontWeight: 600, marginBottom: 8 }}>
+                {unassignedItems.length} line items without vendor assignment
+              </Text>
+              <Text style={{ fontSize: 9, color: '#92400e' }}>
                 Total unassigned budget:{' '}
                 {fmt.currency(
-                  budgetItems
-                    .filter((i) => !i.vendor_id)
-                    .reduce((sum, i) => sum + (i.forecast_amount || i.underwriting_amount || 0), 0)
+                  unassignedItems.reduce((sum, i) => sum + (i.forecast_amount || i.underwriting_amount || 0), 0)
                 )}
-              </div>
-            </div>
+              </Text>
+            </View>
           </Section>
         </>
       )}
-    </div>
+    </ReportDocument>
   );
 }
@@ -0,0 +1,61 @@
+// ============================================================================
+// PROJECT CREATION ERRORS
+// create_project_with_budget() creates the project, seeds its budget and
+// attaches the default calculation profile in one transaction. Failures it
+// expects are raised with a machine-readable HINT; everything else is mapped
+// from the Postgres error code so the New Project page can say what went wrong.
+// ============================================================================
+
+export type CreateProjectErrorCode =
+  | 'invalid_project'
+  | 'budget_template_not_found'
+  | 'permission_denied'
+  | 'unknown';
+
+export const CREATE_PROJECT_ERROR_MESSAGES: Record<CreateProjectErrorCode, string> = {
+  invalid_project: 'Some project details are missing or out of range. Check the form and try again.',
+  budget_template_not_found: 'That budget template no longer exists. Pick another starting budget.',
+  permission_denied: 'You do not have permission to create this project. Try signing in again.',
+  unknown: 'Failed to create project. Please try again.',
+};
+
+// Postgres SQLSTATEs raised by the insert itself
+const POSTGRES_ERROR_CODES: Record<string, CreateProjectErrorCode> = {
+  '23502': 'invalid_project', // not_null_violation
+  '23514': 'invalid_project', // check_violation
+  '22P02': 'invalid_project', // invalid_text_representation (bad enum / number)
+  '22003': 'invalid_project', // numeric_value_out_of_range
+  '42501': 'permission_denied', // insufficient_privilege / RLS
+};
+
+/**
+ * Error thrown by `useCreateProject()`. Nothing was saved when this is thrown.
+ */
+export class CreateProjectError extends Error {
+  readonly code: CreateProjectErrorCode;
+
+  constructor(code: CreateProjectErrorCode, cause?: unknown) {
+    super(CREATE_PROJECT_ERROR_MESSAGES[code], { cause });
+    this.name = 'CreateProjectError';
+    this.code = code;
+  }
+}
+
+function isCreateProjectErrorCode(value: unknown): value is CreateProjectErrorCode {
+  return typeof value === 'string' && value in CREATE_PROJECT_ERROR_MESSAGES;
+}
+
+/**
+ * Map a Supabase/PostgREST error from create_project_with_budget() to a
+ * `CreateProjectError`.
+ */
+export function toCreateProjectError(error: unknown): CreateProjectError {
+  if (error instanceof CreateProjectError) return error;
+
+  const { code, hint } = (error ?? {}) as { code?: string; hint?: string | null };
+
+  if (isCreateProjectErrorCode(hint)) return new CreateProjectError(hint, error);
+  if (code && POSTGRES_ERROR_CODES[code]) return new CreateProjectError(POSTGRES_ERROR_CODES[code], error);
+
+  return new CreateProjectError('unknown', error);
+}
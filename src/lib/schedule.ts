@@ -0,0 +1,346 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { BudgetCategory, BudgetItem, Project, ScheduleTask, ScheduleTaskDependency } from '@/types';
+
+// ============================================================================
+// CONSTRUCTION SCHEDULE
+// Trade tasks with durations in calendar days and finish-to-start
+// dependencies. A task's start_date is where it was scheduled; the computed
+// start is never earlier than the day after its last predecessor finishes, so
+// moving or lengthening a task pushes everything that depends on it. Slack
+// comes from a backward pass over the same graph, and tasks with none are the
+// critical path. Saved dates and the project's target_complete_date go
+// through reschedule_project_tasks().
+// ============================================================================
+
+export interface ScheduledTask {
+  task: ScheduleTask;
+  predecessorIds: string[];
+  /** Computed start and finish (inclusive), yyyy-MM-dd */
+  start: string;
+  finish: string;
+  /** Days the task can slip without moving the schedule's finish */
+  totalFloat: number;
+  isCritical: boolean;
+  /** A predecessor now finishes after the saved start_date */
+  isPushed: boolean;
+}
+
+export interface ProjectSchedule {
+  /** Dependency order, ties broken by sort_order */
+  tasks: ScheduledTask[];
+  start: string | null;
+  finish: string | null;
+  /** Calendar days from the first start to the last finish, inclusive */
+  durationDays: number;
+  criticalTaskIds: string[];
+}
+
+export interface ScheduleDate {
+  id: string;
+  start_date: string;
+}
+
+export interface ScheduleTemplateTask {
+  key: string;
+  name: string;
+  /** Budget category the trade is paid from; null for tasks like inspections */
+  category: BudgetCategory | null;
+  durationDays: number;
+  after: string[];
+}
+
+export interface ScheduleSeedTask {
+  key: string;
+  name: string;
+  category: BudgetCategory | null;
+  vendor_id: string | null;
+  duration_days: number;
+  start_date: string | null;
+  predecessor_keys: string[];
+}
+
+/**
+ * Typical rehab sequence used to seed a new schedule
+ */
+export const SCHEDULE_TEMPLATE: ScheduleTemplateTask[] = [
+  { key: 'demo', name: 'Demo', category: 'demo', durationDays: 3, after: [] },
+  { key: 'structural', name: 'Framing & structural repairs', category: 'structural', durationDays: 4, after: ['demo'] },
+  { key: 'plumbing', name: 'Rough-in plumbing', category: 'plumbing', durationDays: 3, after: ['structural'] },
+  { key: 'electrical', name: 'Rough-in electrical', category: 'electrical', durationDays: 3, after: ['structural'] },
+  { key: 'hvac', name: 'Rough-in HVAC', category: 'hvac', durationDays: 2, after: ['structural'] },
+  {
+    key: 'inspection',
+    name: 'Rough-in inspection',
+    category: null,
+    durationDays: 1,
+    after: ['plumbing', 'electrical', 'hvac'],
+  },
+  { key: 'drywall', name: 'Insulation & drywall', category: 'insulation_drywall', durationDays: 6, after: ['inspection'] },
+  { key: 'paint', name: 'Interior paint', category: 'interior_paint', durationDays: 4, after: ['drywall'] },
+  { key: 'kitchen', name: 'Kitchen cabinets & counters', category: 'kitchen', durationDays: 4, after: ['paint'] },
+  { key: 'tile', name: 'Tile', category: 'tile', durationDays: 4, after: ['paint'] },
+  { key: 'flooring', name: 'Flooring', category: 'flooring', durationDays: 3, after: ['paint'] },
+  {
+    key: 'trim',
+    name: 'Trim, doors & fixtures',
+    category: 'interior_trim',
+    durationDays: 3,
+    after: ['kitchen', 'tile', 'flooring'],
+  },
+  { key: 'finishing', name: 'Final clean & punch list', category: 'finishing', durationDays: 2, after: ['trim'] },
+];
+
+function toDateString(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function shiftDate(date: string, days: number): string {
+  return toDateString(addDays(parseISO(date), days));
+}
+
+function laterDate(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+/**
+ * Last day a task works on, counting its start day
+ */
+export function getTaskFinish(start: string, durationDays: number): string {
+  return shiftDate(start, Math.max(1, durationDays) - 1);
+}
+
+/**
+ * Day new, unscheduled tasks start from: rehab start, else closing, else today
+ */
+export function getScheduleAnchor(
+  project: Pick<Project, 'rehab_start_date' | 'close_date'>,
+  today: Date = new Date()
+): string {
+  return project.rehab_start_date || project.close_date || toDateString(today);
+}
+
+function getPredecessorMap(dependencies: ScheduleTaskDependency[]): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+  dependencies.forEach(({ task_id, predecessor_id }) => {
+    map.set(task_id, [...(map.get(task_id) ?? []), predecessor_id]);
+  });
+  return map;
+}
+
+/**
+ * Whether making predecessorId a predecessor of taskId would close a loop.
+ * Mirrors check_schedule_task_dependency() so the picker can rule it out.
+ */
+export function wouldCreateCycle(
+  dependencies: ScheduleTaskDependency[],
+  taskId: string,
+  predecessorId: string
+): boolean {
+  if (taskId === predecessorId) return true;
+
+  const predecessors = getPredecessorMap(dependencies);
+  const seen = new Set<string>();
+  const stack = [predecessorId];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(predecessors.get(id) ?? []));
+  }
+
+  return false;
+}
+
+/**
+ * Topological order (Kahn), picking the lowest sort_order among ready tasks.
+ * Tasks caught in a loop, which the database rejects, are appended at the end.
+ */
+function orderTasks(tasks: ScheduleTask[], predecessors: Map<string, string[]>): ScheduleTask[] {
+  const byOrder = [...tasks].sort((a, b) => a.sort_order - b.sort_order);
+  const placed = new Set<string>();
+  const ordered: ScheduleTask[] = [];
+  const ids = new Set(tasks.map((t) => t.id));
+
+  while (ordered.length < byOrder.length) {
+    const next = byOrder.find(
+      (task) =>
+        !placed.has(task.id) &&
+        (predecessors.get(task.id) ?? []).every((id) => placed.has(id) || !ids.has(id))
+    );
+    if (!next) break;
+    placed.add(next.id);
+    ordered.push(next);
+  }
+
+  return [...ordered, ...byOrder.filter((task) => !placed.has(task.id))];
+}
+
+/**
+ * Compute start/finish, slack and the critical path for a project's tasks.
+ * Unscheduled tasks with no predecessors start on the anchor date.
+ */
+export function computeSchedule(
+  tasks: ScheduleTask[],
+  dependencies: ScheduleTaskDependency[],
+  anchorDate: string
+): ProjectSchedule {
+  const predecessors = getPredecessorMap(dependencies);
+  const ordered = orderTasks(tasks, predecessors);
+
+  // Forward pass: earliest start and finish
+  const early = new Map<string, { start: string; finish: string }>();
+  ordered.forEach((task) => {
+    const finishes = (predecessors.get(task.id) ?? [])
+      .map((id) => early.get(id)?.finish)
+      .filter((finish): finish is string => !!finish);
+
+    let start = task.start_date ?? (finishes.length > 0 ? '' : anchorDate);
+    finishes.forEach((finish) => {
+      start = start ? laterDate(start, shiftDate(finish, 1)) : shiftDate(finish, 1);
+    });
+
+    early.set(task.id, { start, finish: getTaskFinish(start, task.duration_days) });
+  });
+
+  if (ordered.length === 0) {
+    return { tasks: [], start: null, finish: null, durationDays: 0, criticalTaskIds: [] };
+  }
+
+  const scheduleStart = ordered.map((t) => early.get(t.id)!.start).reduce((a, b) => (a < b ? a : b));
+  const scheduleFinish = ordered.map((t) => early.get(t.id)!.finish).reduce(laterDate);
+
+  // Backward pass: latest start that still finishes on time
+  const successors = new Map<string, string[]>();
+  ordered.forEach((task) => {
+    (predecessors.get(task.id) ?? []).forEach((id) => {
+      successors.set(id, [...(successors.get(id) ?? []), task.id]);
+    });
+  });
+
+  const lateStart = new Map<string, string>();
+  [...ordered].reverse().forEach((task) => {
+    const lateFinish = (successors.get(task.id) ?? [])
+      .map((id) => lateStart.get(id))
+      .filter((start): start is string => !!start)
+      .map((start) => shiftDate(start, -1))
+      .reduce((a, b) => (a < b ? a : b), scheduleFinish);
+    lateStart.set(task.id, shiftDate(lateFinish, -(Math.max(1, task.duration_days) - 1)));
+  });
+
+  const scheduled = ordered.map((task) => {
+    const { start, finish } = early.get(task.id)!;
+    const totalFloat = differenceInCalendarDays(parseISO(lateStart.get(task.id)!), parseISO(start));
+    return {
+      task,
+      predecessorIds: predecessors.get(task.id) ?? [],
+      start,
+      finish,
+      totalFloat,
+      isCritical: totalFloat <= 0,
+      isPushed: !!task.start_date && start > task.start_date,
+    };
+  });
+
+  return {
+    tasks: scheduled,
+    start: scheduleStart,
+    finish: scheduleFinish,
+    durationDays: differenceInCalendarDays(parseISO(scheduleFinish), parseISO(scheduleStart)) + 1,
+    criticalTaskIds: scheduled.filter((t) => t.isCritical).map((t) => t.task.id),
+  };
+}
+
+/**
+ * Computed start for every task, for reschedule_project_tasks()
+ */
+export function getScheduleDates(schedule: ProjectSchedule): ScheduleDate[] {
+  return schedule.tasks.map(({ task, start }) => ({ id: task.id, start_date: start }));
+}
+
+/**
+ * Tasks whose computed start no longer matches what's saved
+ */
+export function getChangedScheduleDates(schedule: ProjectSchedule): ScheduleDate[] {
+  return schedule.tasks
+    .filter(({ task, start }) => task.start_date !== start)
+    .map(({ task, start }) => ({ id: task.id, start_date: start }));
+}
+
+/**
+ * Move a task to a new start and push its dependents. A task can't move
+ * earlier than its predecessors allow; dependents that already start late
+ * enough keep their dates.
+ */
+export function rescheduleTask(
+  tasks: ScheduleTask[],
+  dependencies: ScheduleTaskDependency[],
+  anchorDate: string,
+  taskId: string,
+  newStart: string
+): { schedule: ProjectSchedule; changed: ScheduleDate[] } {
+  const moved = tasks.map((task) => (task.id === taskId ? { ...task, start_date: newStart } : task));
+  const schedule = computeSchedule(moved, dependencies, anchorDate);
+
+  const saved = new Map(tasks.map((task) => [task.id, task.start_date]));
+  const changed = schedule.tasks
+    .filter(({ task, start }) => saved.get(task.id) !== start)
+    .map(({ task, start }) => ({ id: task.id, start_date: start }));
+
+  return { schedule, changed };
+}
+
+/**
+ * Tasks to seed from the template. Trades with no budget lines are dropped
+ * (their dependents inherit their predecessors), and each task takes the
+ * vendor on most of its category's lines. With an empty budget the whole
+ * template is used.
+ */
+export function buildScheduleSeed(
+  budgetItems: Pick<BudgetItem, 'category' | 'vendor_id'>[],
+  anchorDate: string,
+  template: ScheduleTemplateTask[] = SCHEDULE_TEMPLATE
+): ScheduleSeedTask[] {
+  const categories = new Set(budgetItems.map((item) => item.category));
+  const included = template.filter(
+    (task) => budgetItems.length === 0 || task.category === null || categories.has(task.category)
+  );
+  const includedKeys = new Set(included.map((task) => task.key));
+  const byKey = new Map(template.map((task) => [task.key, task]));
+
+  // Walk back through dropped tasks to the nearest included ones
+  const resolvePredecessors = (keys: string[]): string[] =>
+    keys.flatMap((key) => {
+      if (includedKeys.has(key)) return [key];
+      return resolvePredecessors(byKey.get(key)?.after ?? []);
+    });
+
+  const vendorFor = (category: BudgetCategory | null): string | null => {
+    if (!category) return null;
+    const counts = new Map<string, number>();
+    budgetItems.forEach((item) => {
+      if (item.category === category && item.vendor_id) {
+        counts.set(item.vendor_id, (counts.get(item.vendor_id) ?? 0) + 1);
+      }
+    });
+    let best: string | null = null;
+    counts.forEach((count, vendorId) => {
+      if (!best || count > counts.get(best)!) best = vendorId;
+    });
+    return best;
+  };
+
+  return included.map((task) => {
+    const predecessorKeys = Array.from(new Set(resolvePredecessors(task.after)));
+    return {
+      key: task.key,
+      name: task.name,
+      category: task.category,
+      vendor_id: vendorFor(task.category),
+      duration_days: task.durationDays,
+      start_date: predecessorKeys.length === 0 ? anchorDate : null,
+      predecessor_keys: predecessorKeys,
+    };
+  });
+}
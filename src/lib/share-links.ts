@@ -0,0 +1,79 @@
+import type { ProjectShareBudgetColumn, ProjectShareSection, SharedProject } from '@/types';
+
+// ============================================================================
+// PROJECT SHARE LINKS
+// Read-only links for investors and lenders outside the workspace. Tokens use
+// the same format and SHA-256 hashing as vendor draw request links
+// (src/lib/draw-requests.ts); only the hash is stored.
+// ============================================================================
+
+export {
+  generateDrawRequestToken as generateShareToken,
+  hashDrawRequestToken as hashShareToken,
+  isWellFormedDrawRequestToken as isWellFormedShareToken,
+  getDrawRequestExpiry as getShareLinkExpiry,
+  getDrawRequestTokenStatus as getShareLinkStatus,
+} from '@/lib/draw-requests';
+
+export type { DrawRequestTokenStatus as ShareLinkStatus } from '@/lib/draw-requests';
+
+export const SHARE_LINK_EXPIRY_OPTIONS = [7, 30, 90, 180] as const;
+export const DEFAULT_SHARE_LINK_EXPIRY_DAYS = 30;
+
+export const PROJECT_SHARE_SECTIONS: ProjectShareSection[] = ['deal_summary', 'budget', 'draws', 'photos'];
+export const PROJECT_SHARE_BUDGET_COLUMNS: ProjectShareBudgetColumn[] = ['underwriting', 'forecast', 'actual'];
+
+// Lenders usually shouldn't see what the deal was underwritten at
+export const DEFAULT_SHARE_BUDGET_COLUMNS: ProjectShareBudgetColumn[] = ['forecast', 'actual'];
+
+/** Signed photo URLs on the share page last as long as a typical visit */
+export const SHARE_PHOTO_URL_TTL_SECONDS = 3600;
+
+export interface ShareLinkInput {
+  label: string;
+  sections: ProjectShareSection[];
+  budgetColumns: ProjectShareBudgetColumn[];
+  photoIds: string[];
+}
+
+/**
+ * Returns an error message for a share link that can't be saved, or null.
+ */
+export function validateShareLinkInput(input: ShareLinkInput): string | null {
+  if (!input.label.trim()) return 'Enter who the link is for';
+  if (input.sections.length === 0) return 'Share at least one section';
+  if (input.sections.includes('budget') && input.budgetColumns.length === 0) {
+    return 'Pick at least one budget column';
+  }
+  if (input.sections.includes('photos') && input.photoIds.length === 0) {
+    return 'Pick the photos to share';
+  }
+  return null;
+}
+
+export function buildShareLinkUrl(origin: string, token: string): string {
+  return `${origin.replace(/\/+$/, '')}/share/${token}`;
+}
+
+// A share link path with a well-formed token and nothing after it
+const SHARE_LINK_PATH_PATTERN = /^\/share\/[A-Za-z0-9_-]{43}\/?$/;
+
+/**
+ * Whether middleware should let a request through without a session. Only
+ * the share page itself qualifies, never anything nested under /share.
+ */
+export function isShareLinkPath(pathname: string): boolean {
+  return SHARE_LINK_PATH_PATTERN.test(pathname);
+}
+
+/**
+ * Column totals for the shared budget, only for the columns it includes.
+ */
+export function getSharedBudgetTotals(
+  budget: NonNullable<SharedProject['budget']>,
+  columns: ProjectShareBudgetColumn[]
+): Partial<Record<ProjectShareBudgetColumn, number>> {
+  return Object.fromEntries(
+    columns.map((column) => [column, budget.reduce((sum, row) => sum + (row[column] ?? 0), 0)])
+  );
+}
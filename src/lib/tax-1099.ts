@@ -0,0 +1,273 @@
+import { toCsv } from '@/lib/csv';
+import {
+  getDrawVendorPayments,
+  getReleasedRetainage,
+  type AllocationAmounts,
+  type DrawRef,
+} from '@/lib/draw-allocations';
+import type { Draw, PaymentMethod, Vendor } from '@/types';
+
+// ============================================================================
+// 1099-NEC VENDOR PAYMENTS
+// Paid draws are the record of what each vendor was paid. For a tax year the
+// report totals what each vendor netted on paid draws over date_paid, across
+// every project the user can see: a draw split across budget lines pays each
+// allocation's vendor its amount less retainage, a final draw also pays out
+// the retainage held from its vendors on earlier draws, and an unsplit draw
+// pays its own vendor the whole amount. Card payments are left out: the card processor
+// reports those on a 1099-K. Vendors paid $600 or more need a 1099-NEC, and
+// a W-9 on file to fill it in.
+// ============================================================================
+
+export const NEC_REPORTING_THRESHOLD = 600;
+
+// Reported by the card network on a 1099-K, not by the payer
+const EXCLUDED_PAYMENT_METHODS: PaymentMethod[] = ['credit_card'];
+
+/** Columns to select from draws, with the project name for statements and the vendor split */
+export const TAX_1099_DRAW_SELECT =
+  'id, project_id, vendor_id, draw_number, milestone, status, amount, date_paid, payment_method, projects(name), draw_allocations(draw_id, budget_item_id, vendor_id, amount, retainage_percent)';
+
+/** Columns to select from the draws of projects with a final draw, to work out the retainage it releases */
+export const TAX_1099_RETAINAGE_DRAW_SELECT =
+  'id, project_id, draw_number, milestone, status, draw_allocations(draw_id, budget_item_id, vendor_id, amount, retainage_percent)';
+
+/** What one vendor was paid on one draw */
+export type Tax1099Payment = Pick<
+  Draw,
+  'id' | 'project_id' | 'vendor_id' | 'draw_number' | 'amount' | 'date_paid' | 'payment_method'
+> & {
+  project_name: string;
+};
+
+/** A draw row selected with TAX_1099_DRAW_SELECT */
+export interface Tax1099DrawRow
+  extends DrawRef,
+    Pick<Draw, 'project_id' | 'vendor_id' | 'amount' | 'date_paid' | 'payment_method'> {
+  projects: { name: string } | null;
+  draw_allocations: AllocationAmounts[] | null;
+}
+
+/** A draw row selected with TAX_1099_RETAINAGE_DRAW_SELECT */
+export interface Tax1099RetainageDrawRow extends DrawRef, Pick<Draw, 'project_id'> {
+  draw_allocations: AllocationAmounts[] | null;
+}
+
+export interface Vendor1099Summary {
+  vendor: Vendor;
+  /** Reportable payments in the tax year, oldest first */
+  payments: Tax1099Payment[];
+  /** Box 1 nonemployee compensation */
+  total: number;
+  /** Paid by card in the tax year and left out of the total */
+  excludedTotal: number;
+  /** At or over the reporting threshold */
+  reportable: boolean;
+  /** Reportable but no W-9 on file */
+  needsW9: boolean;
+}
+
+export interface Tax1099Report {
+  taxYear: number;
+  vendors: Vendor1099Summary[];
+  reportableCount: number;
+  reportableTotal: number;
+  needsW9Count: number;
+}
+
+/**
+ * First and last day of a tax year, as date_paid values.
+ */
+export function getTaxYearDateRange(taxYear: number): { start: string; end: string } {
+  return { start: `${taxYear}-01-01`, end: `${taxYear}-12-31` };
+}
+
+/**
+ * Tax years to offer, newest first. Early in the year the prior year is the
+ * one being filed, so it leads until April.
+ */
+export function getTaxYearOptions(now: Date = new Date(), count = 4): { years: number[]; defaultYear: number } {
+  const current = now.getFullYear();
+  const years = Array.from({ length: count }, (_, i) => current - i);
+  return { years, defaultYear: now.getMonth() < 3 ? current - 1 : current };
+}
+
+/**
+ * Projects whose earlier draws are needed to work out the retainage released
+ * by a final draw among the rows.
+ */
+export function getRetainageProjectIds(rows: Pick<Tax1099DrawRow, 'project_id' | 'milestone'>[]): string[] {
+  return Array.from(new Set(rows.filter((row) => row.milestone === 'final').map((row) => row.project_id)));
+}
+
+/**
+ * Flatten draw rows selected with TAX_1099_DRAW_SELECT into one payment per
+ * vendor paid on each draw. `projectDraws` are every draw of the projects from
+ * getRetainageProjectIds, selected with TAX_1099_RETAINAGE_DRAW_SELECT.
+ */
+export function toTax1099Payments(
+  rows: Tax1099DrawRow[],
+  projectDraws: Tax1099RetainageDrawRow[] = []
+): Tax1099Payment[] {
+  const drawsByProject = new Map<string, Tax1099RetainageDrawRow[]>();
+  projectDraws.forEach((draw) => {
+    drawsByProject.set(draw.project_id, [...(drawsByProject.get(draw.project_id) || []), draw]);
+  });
+
+  return rows.flatMap(({ projects, draw_allocations, milestone, status, ...draw }) => {
+    const siblings = drawsByProject.get(draw.project_id) || [];
+    const released = getReleasedRetainage(
+      { id: draw.id, draw_number: draw.draw_number, milestone, status },
+      siblings,
+      siblings.flatMap((sibling) => sibling.draw_allocations ?? [])
+    );
+
+    return Array.from(getDrawVendorPayments(draw, draw_allocations ?? [], released).entries()).map(
+      ([vendorId, amount]) => ({
+        ...draw,
+        vendor_id: vendorId,
+        amount: roundCents(amount),
+        project_name: projects?.name ?? 'Unknown project',
+      })
+    );
+  });
+}
+
+/**
+ * Total each vendor's paid draws for the tax year. Vendors with nothing paid
+ * in the year are left out; reportable vendors come first, largest total first.
+ */
+export function build1099Report(taxYear: number, payments: Tax1099Payment[], vendors: Vendor[]): Tax1099Report {
+  const { start, end } = getTaxYearDateRange(taxYear);
+  const vendorsById = new Map(vendors.map((vendor) => [vendor.id, vendor]));
+  const byVendor = new Map<string, { payments: Tax1099Payment[]; excludedTotal: number }>();
+
+  payments.forEach((payment) => {
+    if (!payment.vendor_id || !payment.date_paid) return;
+    if (payment.date_paid < start || payment.date_paid > end) return;
+    if (!vendorsById.has(payment.vendor_id)) return;
+
+    const entry = byVendor.get(payment.vendor_id) || { payments: [], excludedTotal: 0 };
+    if (payment.payment_method && EXCLUDED_PAYMENT_METHODS.includes(payment.payment_method)) {
+      entry.excludedTotal += payment.amount;
+    } else {
+      entry.payments.push(payment);
+    }
+    byVendor.set(payment.vendor_id, entry);
+  });
+
+  const summaries: Vendor1099Summary[] = Array.from(byVendor.entries()).map(([vendorId, entry]) => {
+    const vendor = vendorsById.get(vendorId)!;
+    const total = roundCents(entry.payments.reduce((sum, payment) => sum + payment.amount, 0));
+    const reportable = total >= NEC_REPORTING_THRESHOLD;
+
+    return {
+      vendor,
+      payments: [...entry.payments].sort((a, b) => (a.date_paid ?? '').localeCompare(b.date_paid ?? '')),
+      total,
+      excludedTotal: roundCents(entry.excludedTotal),
+      reportable,
+      needsW9: reportable && !vendor.w9_on_file,
+    };
+  });
+
+  summaries.sort(
+    (a, b) =>
+      Number(b.reportable) - Number(a.reportable) || b.total - a.total || a.vendor.name.localeCompare(b.vendor.name)
+  );
+
+  const reportable = summaries.filter((summary) => summary.reportable);
+
+  return {
+    taxYear,
+    vendors: summaries,
+    reportableCount: reportable.length,
+    reportableTotal: roundCents(reportable.reduce((sum, summary) => sum + summary.total, 0)),
+    needsW9Count: reportable.filter((summary) => summary.needsW9).length,
+  };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ============================================================================
+// FILING CSV
+// One row per reportable vendor in the column layout 1099 e-filing services
+// import. The recipient TIN is left blank: the app only keeps the W-9 itself,
+// so the bookkeeper copies the TIN from it when filing.
+// ============================================================================
+
+export const NEC_CSV_COLUMNS = [
+  'Tax Year',
+  'Account Number',
+  'Recipient Name',
+  'Recipient TIN',
+  'Address',
+  'City',
+  'State',
+  'ZIP',
+  'Email',
+  'Box 1 Nonemployee Compensation',
+  'Box 4 Federal Income Tax Withheld',
+] as const;
+
+export interface VendorAddressParts {
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+}
+
+/**
+ * Split a one-line vendor address ("123 Main St, Minneapolis, MN 55401").
+ * Anything that doesn't end in "City, ST 12345" stays whole in street.
+ */
+export function splitVendorAddress(address: string | null): VendorAddressParts {
+  const value = (address ?? '').trim();
+  const match = value.match(/^(.*),\s*([^,]+),\s*([A-Za-z]{2})\s+(\d{5}(?:-\d{4})?)$/);
+  if (!match) return { street: value, city: '', state: '', zip: '' };
+
+  return { street: match[1].trim(), city: match[2].trim(), state: match[3].toUpperCase(), zip: match[4] };
+}
+
+/**
+ * CSV of reportable vendors for the tax year.
+ */
+export function build1099NecCsv(report: Tax1099Report): string {
+  const rows = report.vendors
+    .filter((summary) => summary.reportable)
+    .map(({ vendor, total }) => {
+      const address = splitVendorAddress(vendor.address);
+      return [
+        report.taxYear,
+        vendor.id,
+        vendor.name,
+        '',
+        address.street,
+        address.city,
+        address.state,
+        address.zip,
+        vendor.email ?? '',
+        total.toFixed(2),
+        '0.00',
+      ];
+    });
+
+  return toCsv([NEC_CSV_COLUMNS, ...rows]);
+}
+
+/**
+ * Download name for the filing CSV.
+ */
+export function get1099CsvFilename(taxYear: number): string {
+  return `1099-NEC_${taxYear}.csv`;
+}
+
+/**
+ * Download name for a vendor's payment statement.
+ */
+export function get1099StatementFilename(vendorName: string, taxYear: number): string {
+  const safe = vendorName.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'Vendor';
+  return `${safe}_1099_Statement_${taxYear}.pdf`;
+}
@@ -1,5 +1,7 @@
+import { parseISO } from 'date-fns';
 import type { ProjectSummary } from '@/types';
 import type { TimelineEvent } from '@/types/dashboard';
+import type { ProjectSchedule } from '@/lib/schedule';
 
 /**
  * Transform a project into timeline events
@@ -14,11 +16,7 @@ export function projectToTimelineEvents(project: ProjectSummary): TimelineEvent[
       ? Math.round((project.completed_items / project.total_items) * 100)
       : 0;
 
-  // Calculate ROI
-  const roi =
-    project.total_investment > 0
-      ? (project.gross_profit / project.total_investment) * 100
-      : 0;
+  const roi = Number(project.roi) || 0;
 
   const financials = {
     arv: project.arv || 0,
@@ -92,6 +90,35 @@ export function projectToTimelineEvents(project: ProjectSummary): TimelineEvent[
   return events;
 }
 
+/**
+ * Transform a project's construction schedule into one event per task,
+ * depending on the task's predecessors
+ */
+export function scheduleToTimelineEvents(project: ProjectSummary, schedule: ProjectSchedule): TimelineEvent[] {
+  const financials = {
+    arv: project.arv || 0,
+    budget: project.rehab_budget || 0,
+    actual: project.rehab_actual || 0,
+    roi: Number(project.roi) || 0,
+  };
+
+  return schedule.tasks.map(({ task, start, finish, predecessorIds, isCritical }) => ({
+    id: task.id,
+    projectId: project.id,
+    title: task.name,
+    address: project.address,
+    type: 'task',
+    startDate: parseISO(start),
+    endDate: parseISO(finish),
+    isCompleted: !!task.completed_at,
+    progress: task.completed_at ? 100 : 0,
+    status: project.status,
+    dependencies: predecessorIds,
+    isCritical,
+    financials,
+  }));
+}
+
 /**
  * Get date range for timeline display
  * Returns min and max dates with some padding
@@ -186,6 +213,8 @@ export function getEventColor(type: TimelineEvent['type'], isCompleted: boolean)
       return 'bg-amber-500';
     case 'sale':
       return 'bg-purple-500';
+    case 'task':
+      return 'bg-sky-500';
     default:
       return 'bg-gray-500';
   }
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+// Enum schemas
+export const drawMilestoneSchema = z.enum([
+  'project_start',
+  'demo_complete',
+  'rough_in',
+  'drywall',
+  'finishes',
+  'final',
+]);
+
+export const drawAttachmentTypeSchema = z.enum(['invoice', 'lien_waiver', 'other']);
+
+// Form fields arrive as strings; blank optional fields become undefined
+const blankToUndefined = (val: unknown) =>
+  typeof val === 'string' && val.trim() === '' ? undefined : val;
+
+/**
+ * Fields a vendor submits through the draw request portal.
+ * The vendor and project come from the token, never from the form.
+ */
+export const drawRequestSubmissionSchema = z.object({
+  amount: z.coerce
+    .number({ message: 'Please enter a valid amount' })
+    .positive('Please enter a valid amount')
+    .max(10_000_000, 'Amount is too large'),
+  milestone: z.preprocess(blankToUndefined, drawMilestoneSchema.optional()),
+  percent_complete: z.preprocess(
+    blankToUndefined,
+    z.coerce
+      .number()
+      .int('% complete must be a whole number')
+      .min(0, '% complete must be between 0 and 100')
+      .max(100, '% complete must be between 0 and 100')
+      .optional()
+  ),
+  description: z.preprocess(
+    blankToUndefined,
+    z.string().trim().max(2000, 'Description must be 2000 characters or less').optional()
+  ),
+});
+
+export type DrawRequestSubmission = z.infer<typeof drawRequestSubmissionSchema>;
@@ -173,6 +173,11 @@ export const vendorFormSchema = z.object({
   insured: z.boolean(),
   w9_on_file: z.boolean(),
 
+  // Payment Terms
+  retainage_percent: z.number()
+    .min(0, 'Retainage cannot be negative')
+    .max(100, 'Retainage cannot exceed 100%'),
+
   // Ratings
   rating: z.number()
     .int('Rating must be a whole number (1-5 stars)')
@@ -307,6 +312,7 @@ export const vendorFormDefaults: VendorFormValues = {
   licensed: false,
   insured: false,
   w9_on_file: false,
+  retainage_percent: 0,
   rating: null,
   reliability: null,
   price_level: null,
@@ -384,6 +390,7 @@ export function transformDatabaseToForm(vendor: Vendor): VendorFormValues {
     licensed: vendor.licensed,
     insured: vendor.insured,
     w9_on_file: vendor.w9_on_file,
+    retainage_percent: Number(vendor.retainage_percent) || 0,
     rating: vendor.rating,
     reliability: vendor.reliability,
     price_level: vendor.price_level,
@@ -0,0 +1,195 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Vendor, VendorDocument, VendorDocumentType } from '@/types';
+
+// ============================================================================
+// VENDOR COMPLIANCE
+// Vendors carry uploaded certificates of insurance (COI), W-9s and licenses
+// (vendor_documents). Only the latest document of each type counts; older
+// ones are kept as history. A draw whose vendor, or any vendor its budget
+// line allocations pay, has an expired latest COI cannot be approved or paid
+// without an override reason, which the database enforces in
+// enforce_draw_vendor_compliance().
+// ============================================================================
+
+export const VENDOR_DOCUMENT_BUCKET = 'vendor-documents';
+
+export const VENDOR_DOCUMENT_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+export const MAX_VENDOR_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+/** Documents expiring within this many days are flagged on the expiring-soon report */
+export const EXPIRING_SOON_DAYS = 30;
+
+export type DocumentExpiryStatus = 'current' | 'expiring_soon' | 'expired' | 'no_expiry';
+
+export type VendorInsuranceStatus = 'missing' | 'current' | 'expiring_soon' | 'lapsed';
+
+export interface VendorInsurance {
+  status: VendorInsuranceStatus;
+  /** Expiration of the latest COI, when one is on file */
+  expiresOn: string | null;
+}
+
+export interface ExpiringDocument {
+  document: VendorDocument;
+  vendor: Vendor;
+  status: Extract<DocumentExpiryStatus, 'expiring_soon' | 'expired'>;
+  /** Negative once the document has expired */
+  daysRemaining: number;
+}
+
+/**
+ * Storage path for an uploaded document: <vendor_id>/<id>.<ext>
+ */
+export function buildVendorDocumentPath(vendorId: string, id: string, fileName: string): string {
+  const ext = fileName.split('.').pop()?.toLowerCase() || 'pdf';
+  return `${vendorId}/${id}.${ext}`;
+}
+
+/**
+ * Whole days from asOf until the date, counted as calendar days.
+ */
+export function getDaysUntil(date: string, asOf: Date = new Date()): number {
+  return differenceInCalendarDays(parseISO(date), asOf);
+}
+
+/**
+ * Where a document stands against its expiration date. A document is still
+ * good on the day it expires.
+ */
+export function getDocumentExpiryStatus(
+  document: Pick<VendorDocument, 'expiration_date'>,
+  asOf: Date = new Date(),
+  soonDays: number = EXPIRING_SOON_DAYS
+): DocumentExpiryStatus {
+  if (!document.expiration_date) return 'no_expiry';
+
+  const days = getDaysUntil(document.expiration_date, asOf);
+  if (days < 0) return 'expired';
+  if (days <= soonDays) return 'expiring_soon';
+  return 'current';
+}
+
+/**
+ * The document of each type that counts for a vendor: the one that runs out
+ * last, or the newest upload among documents without an expiration date.
+ */
+export function getLatestVendorDocuments(
+  documents: VendorDocument[]
+): Partial<Record<VendorDocumentType, VendorDocument>> {
+  const latest: Partial<Record<VendorDocumentType, VendorDocument>> = {};
+
+  documents.forEach((document) => {
+    const current = latest[document.document_type];
+    if (!current || compareDocuments(document, current) > 0) {
+      latest[document.document_type] = document;
+    }
+  });
+
+  return latest;
+}
+
+function compareDocuments(a: VendorDocument, b: VendorDocument): number {
+  const aExpires = a.expiration_date ?? '';
+  const bExpires = b.expiration_date ?? '';
+  if (aExpires !== bExpires) return aExpires < bExpires ? -1 : 1;
+  return a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0;
+}
+
+/**
+ * Insurance standing from a vendor's documents (mirrors vendor_insurance_lapsed_on()).
+ */
+export function getVendorInsurance(
+  documents: VendorDocument[],
+  asOf: Date = new Date(),
+  soonDays: number = EXPIRING_SOON_DAYS
+): VendorInsurance {
+  const coi = getLatestVendorDocuments(documents).coi;
+  if (!coi) return { status: 'missing', expiresOn: null };
+
+  const expiry = getDocumentExpiryStatus(coi, asOf, soonDays);
+  return {
+    status: expiry === 'expired' ? 'lapsed' : expiry === 'expiring_soon' ? 'expiring_soon' : 'current',
+    expiresOn: coi.expiration_date,
+  };
+}
+
+/**
+ * Whether a draw to this vendor needs an override before it can be approved.
+ */
+export function isVendorInsuranceLapsed(documents: VendorDocument[], asOf: Date = new Date()): boolean {
+  return getVendorInsurance(documents, asOf).status === 'lapsed';
+}
+
+/**
+ * Expired and soon-to-expire documents across vendors, soonest first.
+ * Documents superseded by a newer one of the same type are left out, as are
+ * vendors marked do-not-use.
+ */
+export function getExpiringDocuments(
+  vendors: Vendor[],
+  documents: VendorDocument[],
+  asOf: Date = new Date(),
+  soonDays: number = EXPIRING_SOON_DAYS
+): ExpiringDocument[] {
+  const vendorsById = new Map(vendors.map((vendor) => [vendor.id, vendor]));
+  const documentsByVendor = new Map<string, VendorDocument[]>();
+  documents.forEach((document) => {
+    const existing = documentsByVendor.get(document.vendor_id) || [];
+    existing.push(document);
+    documentsByVendor.set(document.vendor_id, existing);
+  });
+
+  const rows: ExpiringDocument[] = [];
+
+  documentsByVendor.forEach((vendorDocuments, vendorId) => {
+    const vendor = vendorsById.get(vendorId);
+    if (!vendor || vendor.status === 'do_not_use') return;
+
+    Object.values(getLatestVendorDocuments(vendorDocuments)).forEach((document) => {
+      const status = getDocumentExpiryStatus(document, asOf, soonDays);
+      if (status !== 'expired' && status !== 'expiring_soon') return;
+
+      rows.push({
+        document,
+        vendor,
+        status,
+        daysRemaining: getDaysUntil(document.expiration_date!, asOf),
+      });
+    });
+  });
+
+  return rows.sort((a, b) => a.daysRemaining - b.daysRemaining || a.vendor.name.localeCompare(b.vendor.name));
+}
+
+// ============================================================================
+// DRAW APPROVAL ERRORS
+// enforce_draw_vendor_compliance() raises with HINT 'vendor_insurance_lapsed'
+// when a draw is moved to approved or paid without an override reason.
+// ============================================================================
+
+const VENDOR_INSURANCE_LAPSED_HINT = 'vendor_insurance_lapsed';
+
+/**
+ * Error thrown by `useDrawMutations().updateStatus` when the paying vendor's
+ * insurance has lapsed. Retry with an override reason to approve anyway.
+ */
+export class VendorInsuranceLapsedError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'VendorInsuranceLapsedError';
+  }
+}
+
+/**
+ * Map a Supabase/PostgREST error from a draw status update, passing through
+ * anything that is not the compliance gate.
+ */
+export function toDrawStatusError(error: unknown): unknown {
+  const { hint, message } = (error ?? {}) as { hint?: string | null; message?: string };
+
+  if (hint === VENDOR_INSURANCE_LAPSED_HINT) {
+    return new VendorInsuranceLapsedError(message || 'Vendor insurance has lapsed', error);
+  }
+
+  return error;
+}
@@ -0,0 +1,234 @@
+import { formatPhoneNumber } from '@/lib/validations/vendor';
+import type { Vendor, VendorInput } from '@/types';
+
+// ============================================================================
+// VENDOR DUPLICATES
+// CSV imports leave the same vendor in the directory more than once, under a
+// slightly different name or phone format. Two vendors are treated as
+// duplicates when their phone numbers normalize to the same number, their
+// emails match, or their names are close after dropping punctuation and
+// business suffixes. Matches are chained into groups, so A~B and B~C put all
+// three in one group. Merging is done by merge_vendors() in the database.
+// ============================================================================
+
+/** Minimum name similarity (0-1) to call two vendors duplicates */
+export const NAME_MATCH_THRESHOLD = 0.85;
+
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Same phone',
+  email: 'Same email',
+  name: 'Similar name',
+};
+
+export interface DuplicateGroup {
+  /** Most complete first, so the suggested survivor leads */
+  vendors: Vendor[];
+  reasons: DuplicateReason[];
+}
+
+// Words that don't tell two businesses apart
+const NAME_NOISE_WORDS = new Set(['the', 'llc', 'inc', 'co', 'corp', 'corporation', 'company', 'ltd', 'lp', 'pllc']);
+
+/**
+ * Phone in (XXX) XXX-XXXX form, or null when it isn't a 10-digit number.
+ */
+export function normalizePhone(phone: string | null): string | null {
+  const formatted = formatPhoneNumber(phone);
+  return /^\(\d{3}\) \d{3}-\d{4}$/.test(formatted) ? formatted : null;
+}
+
+export function normalizeEmail(email: string | null): string | null {
+  const value = email?.trim().toLowerCase();
+  return value ? value : null;
+}
+
+/**
+ * Lowercase name without punctuation or business suffixes:
+ * "A.B.C. Plumbing, LLC" → "abc plumbing".
+ */
+export function normalizeVendorName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/(\w)[.'’](?=\w)/g, '$1')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((word) => word && !NAME_NOISE_WORDS.has(word))
+    .join(' ');
+}
+
+function getBigrams(value: string): Map<string, number> {
+  const compact = value.replace(/\s+/g, ' ');
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+}
+
+/**
+ * Dice similarity of two vendor names' letter pairs, after normalizing.
+ * 1 is identical; unrelated names land near 0.
+ */
+export function getNameSimilarity(a: string, b: string): number {
+  const left = normalizeVendorName(a);
+  const right = normalizeVendorName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftBigrams = getBigrams(left);
+  const rightBigrams = getBigrams(right);
+  let shared = 0;
+  leftBigrams.forEach((count, bigram) => {
+    shared += Math.min(count, rightBigrams.get(bigram) ?? 0);
+  });
+
+  return (2 * shared) / (left.length - 1 + (right.length - 1));
+}
+
+/**
+ * Why two vendors look like the same business; empty when they don't.
+ */
+export function getDuplicateReasons(a: Vendor, b: Vendor): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+
+  const phone = normalizePhone(a.phone);
+  if (phone && phone === normalizePhone(b.phone)) reasons.push('phone');
+
+  const email = normalizeEmail(a.email);
+  if (email && email === normalizeEmail(b.email)) reasons.push('email');
+
+  if (getNameSimilarity(a.name, b.name) >= NAME_MATCH_THRESHOLD) reasons.push('name');
+
+  return reasons;
+}
+
+// Filled-in fields, to suggest the most complete record as the survivor
+function getCompleteness(vendor: Vendor): number {
+  return MERGEABLE_VENDOR_FIELDS.filter(({ key }) => !isEmptyValue(vendor[key])).length;
+}
+
+/**
+ * Groups of vendors that look like the same business. The suggested
+ * survivor (most complete, then oldest) leads each group.
+ */
+export function findDuplicateVendors(vendors: Vendor[]): DuplicateGroup[] {
+  const parent = vendors.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const reasonsByRoot = new Map<number, Set<DuplicateReason>>();
+  const pairReasons: [number, number, DuplicateReason[]][] = [];
+
+  for (let i = 0; i < vendors.length; i++) {
+    for (let j = i + 1; j < vendors.length; j++) {
+      const reasons = getDuplicateReasons(vendors[i], vendors[j]);
+      if (reasons.length === 0) continue;
+      pairReasons.push([i, j, reasons]);
+      parent[find(j)] = find(i);
+    }
+  }
+
+  pairReasons.forEach(([i, , reasons]) => {
+    const root = find(i);
+    const set = reasonsByRoot.get(root) || new Set<DuplicateReason>();
+    reasons.forEach((reason) => set.add(reason));
+    reasonsByRoot.set(root, set);
+  });
+
+  const members = new Map<number, Vendor[]>();
+  vendors.forEach((vendor, index) => {
+    const root = find(index);
+    if (!reasonsByRoot.has(root)) return;
+    members.set(root, [...(members.get(root) || []), vendor]);
+  });
+
+  return Array.from(members.entries())
+    .map(([root, group]) => ({
+      vendors: [...group].sort(
+        (a, b) =>
+          getCompleteness(b) - getCompleteness(a) ||
+          a.created_at.localeCompare(b.created_at) ||
+          a.name.localeCompare(b.name)
+      ),
+      reasons: (['phone', 'email', 'name'] as DuplicateReason[]).filter((reason) =>
+        reasonsByRoot.get(root)!.has(reason)
+      ),
+    }))
+    .sort((a, b) => a.vendors[0].name.localeCompare(b.vendors[0].name));
+}
+
+// ============================================================================
+// MERGE FIELDS
+// ============================================================================
+
+export type MergeableVendorField = keyof VendorInput;
+
+export const MERGEABLE_VENDOR_FIELDS: { key: MergeableVendorField; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'trade', label: 'Trade' },
+  { key: 'contact_name', label: 'Contact' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'website', label: 'Website' },
+  { key: 'address', label: 'Address' },
+  { key: 'licensed', label: 'Licensed' },
+  { key: 'insured', label: 'Insured' },
+  { key: 'w9_on_file', label: 'W-9 on File' },
+  { key: 'retainage_percent', label: 'Retainage %' },
+  { key: 'rating', label: 'Rating' },
+  { key: 'reliability', label: 'Reliability' },
+  { key: 'price_level', label: 'Price Level' },
+  { key: 'status', label: 'Status' },
+  { key: 'notes', label: 'Notes' },
+];
+
+/** Which vendor each surviving field value comes from */
+export type VendorFieldPicks = Record<MergeableVendorField, string>;
+
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || value === false;
+}
+
+/**
+ * Default picks: the survivor's value, unless it is empty and another vendor
+ * in the group has one. Yes beats no for the qualification checkboxes.
+ */
+export function getDefaultFieldPicks(vendors: Vendor[], survivorId: string): VendorFieldPicks {
+  const survivor = vendors.find((vendor) => vendor.id === survivorId) ?? vendors[0];
+  const others = vendors.filter((vendor) => vendor.id !== survivor.id);
+
+  return Object.fromEntries(
+    MERGEABLE_VENDOR_FIELDS.map(({ key }) => {
+      if (!isEmptyValue(survivor[key])) return [key, survivor.id];
+      const donor = others.find((vendor) => !isEmptyValue(vendor[key]));
+      return [key, (donor ?? survivor).id];
+    })
+  ) as VendorFieldPicks;
+}
+
+/**
+ * The survivor's fields after the merge, taken from the picked vendors.
+ * The phone is saved in the normalized format.
+ */
+export function buildMergedVendorFields(vendors: Vendor[], picks: VendorFieldPicks): VendorInput {
+  const byId = new Map(vendors.map((vendor) => [vendor.id, vendor]));
+
+  const fields = Object.fromEntries(
+    MERGEABLE_VENDOR_FIELDS.map(({ key }) => {
+      const source = byId.get(picks[key]) ?? vendors[0];
+      return [key, source[key]];
+    })
+  ) as unknown as VendorInput;
+
+  return { ...fields, phone: fields.phone ? formatPhoneNumber(fields.phone) : null };
+}
@@ -0,0 +1,306 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import {
+  getDrawVendorPayments,
+  getReleasedRetainage,
+  type AllocationAmounts,
+  type DrawRef,
+} from '@/lib/draw-allocations';
+import type { BudgetItem, Draw, Vendor, VendorContact, VendorTrade } from '@/types';
+
+// ============================================================================
+// VENDOR SCORECARDS
+// Performance computed from history instead of the hand-entered rating and
+// reliability fields: cost execution on assigned budget items, how often
+// those items finished after the project's target date, how quickly quote
+// requests were answered, and what the vendor has been paid (net of
+// retainage until a final draw releases it, counting draws split across
+// budget lines by allocation vendor).
+// ============================================================================
+
+/** Columns to select from budget_items, with the project's target date */
+export const SCORECARD_ITEM_SELECT =
+  'id, project_id, vendor_id, status, forecast_amount, actual_amount, actual_variance, completed_at, projects(target_complete_date)';
+
+export type ScorecardItem = Pick<
+  BudgetItem,
+  'id' | 'project_id' | 'vendor_id' | 'status' | 'forecast_amount' | 'actual_amount' | 'actual_variance' | 'completed_at'
+> & {
+  target_complete_date: string | null;
+};
+
+/** A budget item row selected with SCORECARD_ITEM_SELECT */
+export interface ScorecardItemRow extends Omit<ScorecardItem, 'target_complete_date'> {
+  projects: { target_complete_date: string | null } | null;
+}
+
+export type ScorecardContact = Pick<VendorContact, 'vendor_id' | 'project_id' | 'contact_type' | 'contact_date'>;
+
+/** Columns to select from draws, with the vendor split. Unpaid draws are needed for the retainage they hold. */
+export const SCORECARD_DRAW_SELECT =
+  'id, project_id, vendor_id, draw_number, milestone, amount, status, draw_allocations(draw_id, budget_item_id, vendor_id, amount, retainage_percent)';
+
+export type ScorecardDraw = DrawRef &
+  Pick<Draw, 'project_id' | 'vendor_id' | 'amount'> & {
+    draw_allocations: AllocationAmounts[] | null;
+  };
+
+export interface VendorScorecard {
+  vendorId: string;
+  itemCount: number;
+  projectCount: number;
+
+  /** Items with an actual cost recorded */
+  costedItemCount: number;
+  /** Sum of actual - forecast on costed items; positive is over budget */
+  actualVariance: number;
+  /** actualVariance as a share of those items' forecast */
+  actualVariancePercent: number | null;
+
+  /** Completed items on projects with a target completion date */
+  scheduledItemCount: number;
+  lateItemCount: number;
+  /** Share of scheduled items finished after the target date */
+  lateRate: number | null;
+
+  /** quote_request → quote_received pairs */
+  quoteResponseCount: number;
+  avgResponseDays: number | null;
+  /** Quote requests with no quote received after them */
+  openQuoteRequests: number;
+
+  totalPaid: number;
+}
+
+/**
+ * Flatten budget item rows selected with SCORECARD_ITEM_SELECT.
+ */
+export function toScorecardItems(rows: ScorecardItemRow[]): ScorecardItem[] {
+  return rows.map(({ projects, ...item }) => ({
+    ...item,
+    forecast_amount: Number(item.forecast_amount),
+    actual_amount: item.actual_amount === null ? null : Number(item.actual_amount),
+    actual_variance: item.actual_variance === null ? null : Number(item.actual_variance),
+    target_complete_date: projects?.target_complete_date ?? null,
+  }));
+}
+
+/**
+ * Whether a completed item finished after its project's target date.
+ * Finishing on the target date counts as on time.
+ */
+export function isItemLate(item: Pick<ScorecardItem, 'completed_at' | 'target_complete_date'>): boolean | null {
+  if (!item.completed_at || !item.target_complete_date) return null;
+  return differenceInCalendarDays(parseISO(item.completed_at), parseISO(item.target_complete_date)) > 0;
+}
+
+/**
+ * Days from each quote request to the next quote received from the same
+ * vendor on the same project (or with no project on either). Requests are
+ * answered oldest first.
+ */
+export function getQuoteResponseTimes(contacts: ScorecardContact[]): {
+  responseDays: number[];
+  openRequests: number;
+} {
+  const sorted = contacts
+    .filter((contact) => contact.contact_type === 'quote_request' || contact.contact_type === 'quote_received')
+    .sort((a, b) => a.contact_date.localeCompare(b.contact_date));
+
+  const waiting = new Map<string, string[]>();
+  const responseDays: number[] = [];
+
+  sorted.forEach((contact) => {
+    const key = contact.project_id ?? '';
+    const queue = waiting.get(key) || [];
+    if (contact.contact_type === 'quote_request') {
+      queue.push(contact.contact_date);
+      waiting.set(key, queue);
+      return;
+    }
+
+    const requestedAt = queue.shift();
+    if (!requestedAt) return;
+    const hours = (parseISO(contact.contact_date).getTime() - parseISO(requestedAt).getTime()) / 3_600_000;
+    responseDays.push(Math.round((hours / 24) * 10) / 10);
+  });
+
+  const openRequests = Array.from(waiting.values()).reduce((sum, queue) => sum + queue.length, 0);
+  return { responseDays, openRequests };
+}
+
+/**
+ * What each vendor was paid across paid draws, including retainage released
+ * on final draws.
+ */
+function getPaidByVendor(draws: ScorecardDraw[]): Map<string, number> {
+  const drawsByProject = new Map<string, ScorecardDraw[]>();
+  draws.forEach((draw) => {
+    drawsByProject.set(draw.project_id, [...(drawsByProject.get(draw.project_id) || []), draw]);
+  });
+
+  const paid = new Map<string, number>();
+  draws
+    .filter((draw) => draw.status === 'paid')
+    .forEach((draw) => {
+      const projectDraws = drawsByProject.get(draw.project_id) || [];
+      const released = getReleasedRetainage(
+        draw,
+        projectDraws,
+        projectDraws.flatMap((d) => d.draw_allocations ?? [])
+      );
+      getDrawVendorPayments(draw, draw.draw_allocations ?? [], released).forEach((amount, vendorId) => {
+        paid.set(vendorId, (paid.get(vendorId) || 0) + amount);
+      });
+    });
+
+  return paid;
+}
+
+/**
+ * Scorecard for every vendor, keyed by vendor id. Vendors with no history
+ * get an empty scorecard.
+ */
+export function buildVendorScorecards(
+  vendors: Pick<Vendor, 'id'>[],
+  items: ScorecardItem[],
+  contacts: ScorecardContact[],
+  draws: ScorecardDraw[]
+): Map<string, VendorScorecard> {
+  const scorecards = new Map<string, VendorScorecard>();
+  const paidByVendor = getPaidByVendor(draws);
+
+  vendors.forEach((vendor) => {
+    const vendorItems = items.filter((item) => item.vendor_id === vendor.id && item.status !== 'cancelled');
+
+    const costed = vendorItems.filter((item) => item.actual_amount !== null);
+    const actualVariance = costed.reduce(
+      (sum, item) => sum + (item.actual_variance ?? (item.actual_amount ?? 0) - item.forecast_amount),
+      0
+    );
+    const costedForecast = costed.reduce((sum, item) => sum + item.forecast_amount, 0);
+
+    const lateness = vendorItems.map(isItemLate).filter((late): late is boolean => late !== null);
+    const lateItemCount = lateness.filter(Boolean).length;
+
+    const { responseDays, openRequests } = getQuoteResponseTimes(
+      contacts.filter((contact) => contact.vendor_id === vendor.id)
+    );
+
+    const totalPaid = paidByVendor.get(vendor.id) ?? 0;
+
+    scorecards.set(vendor.id, {
+      vendorId: vendor.id,
+      itemCount: vendorItems.length,
+      projectCount: new Set(vendorItems.map((item) => item.project_id)).size,
+      costedItemCount: costed.length,
+      actualVariance,
+      actualVariancePercent: costedForecast > 0 ? (actualVariance / costedForecast) * 100 : null,
+      scheduledItemCount: lateness.length,
+      lateItemCount,
+      lateRate: lateness.length > 0 ? (lateItemCount / lateness.length) * 100 : null,
+      quoteResponseCount: responseDays.length,
+      avgResponseDays:
+        responseDays.length > 0
+          ? Math.round((responseDays.reduce((sum, days) => sum + days, 0) / responseDays.length) * 10) / 10
+          : null,
+      openQuoteRequests: openRequests,
+      totalPaid,
+    });
+  });
+
+  return scorecards;
+}
+
+/**
+ * Whether a scorecard has anything to show.
+ */
+export function hasScorecardHistory(scorecard: VendorScorecard | undefined): scorecard is VendorScorecard {
+  return (
+    !!scorecard &&
+    (scorecard.itemCount > 0 ||
+      scorecard.totalPaid > 0 ||
+      scorecard.quoteResponseCount > 0 ||
+      scorecard.openQuoteRequests > 0)
+  );
+}
+
+// ============================================================================
+// TRADE LEADERBOARD
+// ============================================================================
+
+export type ScorecardSortKey = 'name' | 'items' | 'variance' | 'late' | 'response' | 'paid';
+
+export type SortDirection = 'asc' | 'desc';
+
+/** Direction that puts the best vendor first for each column */
+export const SCORECARD_BEST_FIRST: Record<ScorecardSortKey, SortDirection> = {
+  name: 'asc',
+  items: 'desc',
+  variance: 'asc',
+  late: 'asc',
+  response: 'asc',
+  paid: 'desc',
+};
+
+export interface LeaderboardRow {
+  vendor: Vendor;
+  scorecard: VendorScorecard;
+}
+
+function getSortValue(row: LeaderboardRow, key: ScorecardSortKey): string | number | null {
+  switch (key) {
+    case 'name':
+      return row.vendor.name.toLowerCase();
+    case 'items':
+      return row.scorecard.itemCount;
+    case 'variance':
+      return row.scorecard.actualVariancePercent;
+    case 'late':
+      return row.scorecard.lateRate;
+    case 'response':
+      return row.scorecard.avgResponseDays;
+    case 'paid':
+      return row.scorecard.totalPaid;
+  }
+}
+
+/**
+ * Vendors in a trade with any history, sorted by one scorecard column.
+ * Vendors without a value for the column sort last either way.
+ */
+export function getTradeLeaderboard(
+  vendors: Vendor[],
+  scorecards: Map<string, VendorScorecard>,
+  trade: VendorTrade,
+  sortKey: ScorecardSortKey,
+  direction: SortDirection = SCORECARD_BEST_FIRST[sortKey]
+): LeaderboardRow[] {
+  const rows = vendors
+    .filter((vendor) => vendor.trade === trade)
+    .map((vendor) => ({ vendor, scorecard: scorecards.get(vendor.id) }))
+    .filter((row): row is LeaderboardRow => hasScorecardHistory(row.scorecard));
+
+  const sign = direction === 'asc' ? 1 : -1;
+
+  return rows.sort((a, b) => {
+    const left = getSortValue(a, sortKey);
+    const right = getSortValue(b, sortKey);
+    if (left === null || right === null) {
+      if (left === right) return a.vendor.name.localeCompare(b.vendor.name);
+      return left === null ? 1 : -1;
+    }
+    const compared = typeof left === 'string' ? left.localeCompare(right as string) : left - (right as number);
+    return compared * sign || a.vendor.name.localeCompare(b.vendor.name);
+  });
+}
+
+/**
+ * Trades that have at least one vendor with history, for the leaderboard picker.
+ */
+export function getLeaderboardTrades(vendors: Vendor[], scorecards: Map<string, VendorScorecard>): VendorTrade[] {
+  const trades = new Set<VendorTrade>();
+  vendors.forEach((vendor) => {
+    if (hasScorecardHistory(scorecards.get(vendor.id))) trades.add(vendor.trade);
+  });
+  return Array.from(trades);
+}
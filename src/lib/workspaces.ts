@@ -0,0 +1,250 @@
+import type { DrawStatus, WorkspaceInvitation, WorkspaceMembership, WorkspaceRole } from '@/types';
+
+// ============================================================================
+// WORKSPACE ROLES
+// Projects and vendors belong to a workspace; what a member may do there
+// depends on their role. The database enforces this in RLS policies and
+// triggers (workspace_role_can() in the add_workspaces migration). The same
+// matrix is mirrored here so mutation hooks can refuse early with a message
+// that says why, instead of surfacing a bare RLS error.
+// ============================================================================
+
+export type WorkspaceCapability =
+  | 'view_all_projects'
+  | 'view_vendors'
+  | 'edit_projects'
+  | 'approve_draws'
+  | 'manage_draws'
+  | 'manage_vendors'
+  | 'export_reports'
+  | 'manage_members';
+
+/** Keep in sync with workspace_role_can() */
+export const ROLE_CAPABILITIES: Record<WorkspaceRole, readonly WorkspaceCapability[]> = {
+  owner: [
+    'view_all_projects',
+    'view_vendors',
+    'edit_projects',
+    'approve_draws',
+    'manage_draws',
+    'manage_vendors',
+    'export_reports',
+    'manage_members',
+  ],
+  project_manager: [
+    'view_all_projects',
+    'view_vendors',
+    'edit_projects',
+    'approve_draws',
+    'manage_draws',
+    'manage_vendors',
+    'export_reports',
+  ],
+  bookkeeper: ['view_all_projects', 'view_vendors', 'manage_draws', 'manage_vendors', 'export_reports'],
+  investor: [],
+};
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'project_manager', 'bookkeeper', 'investor'];
+
+export const WORKSPACE_ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: 'Full access, including the team and what investors can see.',
+  project_manager: 'Runs projects: underwriting, budgets, bids, vendors and draw approvals.',
+  bookkeeper: 'Vendors, W-9s and draws. Marks approved draws paid; cannot change underwriting or budgets.',
+  investor: 'Read-only access to the projects shared with them.',
+};
+
+const CAPABILITY_DENIED_MESSAGES: Record<WorkspaceCapability, string> = {
+  view_all_projects: 'Your role can only see the projects shared with you.',
+  view_vendors: 'Your role does not have access to the vendor directory.',
+  edit_projects: 'Your role cannot change projects, underwriting or budgets.',
+  approve_draws: 'Your role cannot approve draws or move them back to pending.',
+  manage_draws: 'Your role cannot change draws.',
+  manage_vendors: 'Your role cannot change vendors.',
+  export_reports: 'Your role cannot export reports.',
+  manage_members: 'Only workspace owners can manage the team and project sharing.',
+};
+
+export function hasCapability(role: WorkspaceRole | null, capability: WorkspaceCapability): boolean {
+  return role !== null && ROLE_CAPABILITIES[role].includes(capability);
+}
+
+/**
+ * Error thrown by mutation hooks (and mapped from the database) when the
+ * member's role doesn't allow the change. Nothing was saved.
+ */
+export class WorkspacePermissionError extends Error {
+  readonly capability: WorkspaceCapability | null;
+
+  constructor(message: string, capability: WorkspaceCapability | null = null, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'WorkspacePermissionError';
+    this.capability = capability;
+  }
+}
+
+/**
+ * Throw a `WorkspacePermissionError` unless the role has the capability.
+ */
+export function assertCapability(role: WorkspaceRole | null, capability: WorkspaceCapability): void {
+  if (hasCapability(role, capability)) return;
+  throw new WorkspacePermissionError(
+    role === null ? 'You are not a member of this workspace.' : CAPABILITY_DENIED_MESSAGES[capability],
+    capability
+  );
+}
+
+/**
+ * Approving a draw, or moving it back to pending, needs approve_draws;
+ * marking it paid only needs manage_draws (the database also requires it to
+ * have been approved first for roles that can't approve).
+ */
+export function getDrawStatusCapability(status: DrawStatus): WorkspaceCapability {
+  return status === 'paid' ? 'manage_draws' : 'approve_draws';
+}
+
+/**
+ * Recording an actual cost is bookkeeping; any other budget line change is
+ * editing the budget.
+ */
+export function getBudgetItemUpdateCapability(fields: object): WorkspaceCapability {
+  const keys = Object.keys(fields);
+  return keys.length > 0 && keys.every((key) => key === 'actual_amount') ? 'manage_draws' : 'edit_projects';
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export type WorkspaceErrorCode =
+  | 'last_workspace_owner'
+  | 'invitation_not_found'
+  | 'invitation_expired'
+  | 'invitation_wrong_email';
+
+export const WORKSPACE_ERROR_MESSAGES: Record<WorkspaceErrorCode, string> = {
+  last_workspace_owner: 'A workspace needs at least one owner. Make someone else an owner first.',
+  invitation_not_found: 'This invitation is no longer valid. Ask for a new link.',
+  invitation_expired: 'This invitation has expired. Ask for a new link.',
+  invitation_wrong_email: 'This invitation was sent to a different email address.',
+};
+
+/**
+ * Team and invitation errors the database raises with a HINT.
+ */
+export class WorkspaceError extends Error {
+  readonly code: WorkspaceErrorCode;
+
+  constructor(code: WorkspaceErrorCode, message?: string, cause?: unknown) {
+    super(message || WORKSPACE_ERROR_MESSAGES[code], { cause });
+    this.name = 'WorkspaceError';
+    this.code = code;
+  }
+}
+
+const WORKSPACE_PERMISSION_HINT = 'workspace_permission';
+
+// insufficient_privilege, which PostgREST returns for RLS violations
+const RLS_VIOLATION_CODE = '42501';
+
+function isWorkspaceErrorCode(value: unknown): value is WorkspaceErrorCode {
+  return typeof value === 'string' && value in WORKSPACE_ERROR_MESSAGES;
+}
+
+/**
+ * Map a Supabase/PostgREST error to a `WorkspacePermissionError` or
+ * `WorkspaceError`, passing through anything else.
+ */
+export function toWorkspaceError(error: unknown): unknown {
+  if (error instanceof WorkspacePermissionError || error instanceof WorkspaceError) return error;
+
+  const { code, hint, message } = (error ?? {}) as { code?: string; hint?: string | null; message?: string };
+
+  if (hint === WORKSPACE_PERMISSION_HINT) {
+    return new WorkspacePermissionError(message || 'Your role does not allow this change.', null, error);
+  }
+  if (code === RLS_VIOLATION_CODE) {
+    return new WorkspacePermissionError('Your role does not allow this change.', null, error);
+  }
+  if (isWorkspaceErrorCode(hint)) {
+    // invitation_wrong_email names the invited address
+    return new WorkspaceError(hint, hint === 'invitation_wrong_email' ? message : undefined, error);
+  }
+
+  return error;
+}
+
+/**
+ * What to show for a failed mutation: the reason for role and team errors,
+ * otherwise the hook's own fallback.
+ */
+export function getWorkspaceErrorMessage(error: unknown, fallback: string): string {
+  const mapped = toWorkspaceError(error);
+  return mapped instanceof WorkspacePermissionError || mapped instanceof WorkspaceError ? mapped.message : fallback;
+}
+
+// ============================================================================
+// MEMBERSHIPS
+// ============================================================================
+
+/**
+ * The membership the user is working in. Mirrors current_workspace_id():
+ * the workspace picked in the app, else one they own, else the oldest.
+ */
+export function pickActiveMembership(
+  memberships: WorkspaceMembership[],
+  activeWorkspaceId: string | null
+): WorkspaceMembership | null {
+  return (
+    memberships.find((membership) => membership.workspace_id === activeWorkspaceId) ??
+    [...memberships].sort(
+      (a, b) => Number(b.role === 'owner') - Number(a.role === 'owner') || a.created_at.localeCompare(b.created_at)
+    )[0] ??
+    null
+  );
+}
+
+/**
+ * Owners in a team list; demoting or removing the last one is refused.
+ */
+export function countOwners(members: { role: WorkspaceRole }[]): number {
+  return members.filter((member) => member.role === 'owner').length;
+}
+
+// ============================================================================
+// INVITATIONS
+// Invitation links use the same token format and SHA-256 hashing as vendor
+// draw request links (src/lib/draw-requests.ts); only the hash is stored.
+// ============================================================================
+
+export {
+  generateDrawRequestToken as generateInvitationToken,
+  hashDrawRequestToken as hashInvitationToken,
+  isWellFormedDrawRequestToken as isWellFormedInvitationToken,
+  getDrawRequestExpiry as getInvitationExpiry,
+} from '@/lib/draw-requests';
+
+export const INVITATION_EXPIRY_DAYS = 7;
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export function getInvitationStatus(
+  invitation: Pick<WorkspaceInvitation, 'accepted_at' | 'revoked_at' | 'expires_at'>,
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.accepted_at) return 'accepted';
+  if (invitation.revoked_at) return 'revoked';
+  if (new Date(invitation.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'pending';
+}
+
+export function normalizeInvitationEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidInvitationEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizeInvitationEmail(email));
+}
+
+export function buildInvitationUrl(origin: string, token: string): string {
+  return `${origin.replace(/\/+$/, '')}/invite/${token}`;
+}
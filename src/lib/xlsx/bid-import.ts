@@ -0,0 +1,338 @@
+import { budgetItemMatchKey } from '@/lib/budget-snapshots';
+import {
+  BUDGET_CATEGORIES,
+  UNIT_LABELS,
+  type BudgetCategory,
+  type BudgetItem,
+  type UnitType,
+} from '@/types';
+
+// ============================================================================
+// BID IMPORT (XLSX)
+// Map the rows of a GC's bid spreadsheet (read by read-bid-workbook.ts) onto
+// budget fields and diff them against the current budget. Every bid lays its sheet out
+// differently, so the header row and column mapping are guessed and then
+// confirmed by the user. Imported amounts always land in forecast_amount.
+// ============================================================================
+
+export type BidCellValue = string | number | null;
+
+export interface BidSheet {
+  name: string;
+  rows: BidCellValue[][];
+}
+
+export type BidColumnField = 'category' | 'item' | 'description' | 'qty' | 'unit' | 'rate' | 'amount';
+
+/** Column index (0-based) for each mapped field */
+export type BidColumnMapping = Partial<Record<BidColumnField, number>>;
+
+export const BID_COLUMN_FIELDS: Array<{ field: BidColumnField; label: string; required?: boolean }> = [
+  { field: 'item', label: 'Item', required: true },
+  { field: 'category', label: 'Category' },
+  { field: 'description', label: 'Description' },
+  { field: 'qty', label: 'Qty' },
+  { field: 'unit', label: 'Unit' },
+  { field: 'rate', label: 'Rate' },
+  { field: 'amount', label: 'Amount' },
+];
+
+// Header text that identifies each field, most specific first
+const HEADER_ALIASES: Record<BidColumnField, string[]> = {
+  item: ['item', 'line item', 'scope', 'scope of work', 'work item', 'task', 'work'],
+  category: ['category', 'trade', 'division', 'section', 'phase', 'cost code'],
+  description: ['description', 'details', 'notes', 'spec', 'specification'],
+  qty: ['qty', 'quantity', 'qnty', 'count'],
+  unit: ['unit', 'units', 'uom', 'u/m', 'unit of measure'],
+  rate: ['rate', 'unit price', 'unit cost', 'price/unit', 'cost/unit', 'price per unit'],
+  amount: ['amount', 'total', 'line total', 'extended', 'ext. price', 'bid', 'bid amount', 'cost', 'price'],
+};
+
+// Keywords in free-text trades/sections, checked in order
+const CATEGORY_KEYWORDS: Array<[string, BudgetCategory]> = [
+  ['permit', 'soft_costs'],
+  ['soft cost', 'soft_costs'],
+  ['design', 'soft_costs'],
+  ['demo', 'demo'],
+  ['dumpster', 'demo'],
+  ['framing', 'structural'],
+  ['structural', 'structural'],
+  ['foundation', 'structural'],
+  ['plumb', 'plumbing'],
+  ['hvac', 'hvac'],
+  ['heating', 'hvac'],
+  ['furnace', 'hvac'],
+  ['electric', 'electrical'],
+  ['insulation', 'insulation_drywall'],
+  ['drywall', 'insulation_drywall'],
+  ['paint', 'interior_paint'],
+  ['floor', 'flooring'],
+  ['carpet', 'flooring'],
+  ['tile', 'tile'],
+  ['kitchen', 'kitchen'],
+  ['cabinet', 'kitchen'],
+  ['countertop', 'kitchen'],
+  ['bath', 'bathrooms'],
+  ['window', 'doors_windows'],
+  ['door', 'doors_windows'],
+  ['trim', 'interior_trim'],
+  ['millwork', 'interior_trim'],
+  ['roof', 'exterior'],
+  ['siding', 'exterior'],
+  ['gutter', 'exterior'],
+  ['exterior', 'exterior'],
+  ['landscap', 'landscaping'],
+  ['concrete', 'landscaping'],
+  ['fence', 'landscaping'],
+  ['clean', 'finishing'],
+  ['finish', 'finishing'],
+  ['contingency', 'contingency'],
+];
+
+const UNIT_ALIASES: Record<string, UnitType> = {
+  sqft: 'sf',
+  'sq ft': 'sf',
+  'sq. ft.': 'sf',
+  'square feet': 'sf',
+  lnft: 'lf',
+  'ln ft': 'lf',
+  'linear feet': 'lf',
+  each: 'ea',
+  pc: 'ea',
+  pcs: 'ea',
+  lump: 'ls',
+  'lump sum': 'ls',
+  lot: 'ls',
+  square: 'sq',
+  squares: 'sq',
+  hour: 'hr',
+  hours: 'hr',
+  hrs: 'hr',
+  days: 'day',
+  weeks: 'week',
+  months: 'month',
+  loads: 'load',
+  tons: 'ton',
+  sets: 'set',
+  openings: 'opening',
+};
+
+// Rows that are the bid's own totals rather than line items
+const TOTAL_ROW_PATTERN = /^(sub\s*-?\s*total|total|grand total|bid total)\b/i;
+
+const HEADER_SCAN_ROWS = 20;
+
+const normalize = (value: BidCellValue) =>
+  String(value ?? '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Parse a money or quantity cell: numbers pass through; text may carry `$`,
+ * thousands separators or accounting parentheses for negatives.
+ */
+export function parseBidNumber(value: BidCellValue): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (!value) return null;
+
+  const negative = /^\(.*\)$/.test(value.trim());
+  const cleaned = value.replace(/[$,\s()]/g, '');
+  if (!/^-?\d*\.?\d+$/.test(cleaned)) return null;
+
+  const number = Number(cleaned);
+  return negative ? -number : number;
+}
+
+/**
+ * Map a trade or section name to a budget category, by label or keyword.
+ */
+export function parseBidCategory(value: BidCellValue): BudgetCategory | null {
+  const text = normalize(value);
+  if (!text) return null;
+
+  const exact = BUDGET_CATEGORIES.find(
+    (category) => category.value === text.replace(/[\s/]+/g, '_') || normalize(category.label) === text
+  );
+  if (exact) return exact.value;
+
+  return CATEGORY_KEYWORDS.find(([keyword]) => text.includes(keyword))?.[1] ?? null;
+}
+
+/**
+ * Map a unit of measure to a UnitType; unrecognized units fall back to lump sum.
+ */
+export function parseBidUnit(value: BidCellValue): UnitType {
+  const text = normalize(value).replace(/\.$/, '');
+  if (!text) return 'ls';
+
+  const known = (Object.keys(UNIT_LABELS) as UnitType[]).find(
+    (unit) => unit === text || normalize(UNIT_LABELS[unit]) === text
+  );
+  return known ?? UNIT_ALIASES[text] ?? 'ls';
+}
+
+function matchHeader(text: string): BidColumnField | null {
+  if (!text) return null;
+  for (const field of Object.keys(HEADER_ALIASES) as BidColumnField[]) {
+    if (HEADER_ALIASES[field].includes(text)) return field;
+  }
+  return null;
+}
+
+/**
+ * Index of the first row (within the first 20) that looks like a header:
+ * at least two cells naming a known field. Falls back to the first row.
+ */
+export function detectHeaderRow(rows: BidCellValue[][]): number {
+  const index = rows
+    .slice(0, HEADER_SCAN_ROWS)
+    .findIndex((row) => row.filter((value) => matchHeader(normalize(value))).length >= 2);
+  return Math.max(index, 0);
+}
+
+/**
+ * Guess which column holds each field from the header row. A bid with a
+ * "Description" column but no item column uses it as the item name.
+ */
+export function guessColumnMapping(header: BidCellValue[]): BidColumnMapping {
+  const mapping: BidColumnMapping = {};
+
+  header.forEach((value, index) => {
+    const field = matchHeader(normalize(value));
+    if (field && mapping[field] === undefined) mapping[field] = index;
+  });
+
+  if (mapping.item === undefined && mapping.description !== undefined) {
+    mapping.item = mapping.description;
+    delete mapping.description;
+  }
+
+  return mapping;
+}
+
+export interface BidRow {
+  /** 1-based row number in the sheet, for the preview */
+  rowNumber: number;
+  category: BudgetCategory;
+  item: string;
+  description: string | null;
+  qty: number;
+  unit: UnitType;
+  rate: number;
+  amount: number;
+}
+
+/**
+ * Turn sheet rows below the header into bid lines.
+ *
+ * Category comes from the mapped column, else from the nearest section
+ * heading above (a row with a recognizable trade name and no amounts), else
+ * `defaultCategory`. The amount is the mapped amount, or qty x rate when the
+ * bid has no amount column. Blank lines and the bid's own total rows are skipped.
+ */
+export function parseBidRows(
+  rows: BidCellValue[][],
+  headerRow: number,
+  mapping: BidColumnMapping,
+  defaultCategory: BudgetCategory
+): BidRow[] {
+  if (mapping.item === undefined) return [];
+
+  const read = (row: BidCellValue[], field: BidColumnField) =>
+    mapping[field] === undefined ? null : row[mapping[field]!] ?? null;
+
+  const lines: BidRow[] = [];
+  let sectionCategory: BudgetCategory | null = null;
+
+  rows.slice(headerRow + 1).forEach((row, offset) => {
+    const item = String(read(row, 'item') ?? '').trim();
+    if (!item || TOTAL_ROW_PATTERN.test(item)) return;
+
+    const qty = parseBidNumber(read(row, 'qty'));
+    const rate = parseBidNumber(read(row, 'rate'));
+    const amount = parseBidNumber(read(row, 'amount'));
+
+    if (qty === null && rate === null && amount === null) {
+      // Section heading like "PLUMBING" with nothing priced on the row
+      const section = parseBidCategory(item);
+      if (section) sectionCategory = section;
+      return;
+    }
+
+    const lineQty = qty ?? 1;
+    const lineRate = rate ?? 0;
+
+    lines.push({
+      rowNumber: headerRow + offset + 2,
+      category: parseBidCategory(read(row, 'category')) ?? sectionCategory ?? defaultCategory,
+      item,
+      description: String(read(row, 'description') ?? '').trim() || null,
+      qty: lineQty,
+      unit: parseBidUnit(read(row, 'unit')),
+      rate: lineRate,
+      amount: roundCents(amount ?? lineQty * lineRate),
+    });
+  });
+
+  return lines;
+}
+
+export type BidImportChangeType = 'new' | 'update' | 'unchanged';
+
+export interface BidImportChange {
+  type: BidImportChangeType;
+  row: BidRow;
+  /** Existing line the row updates; absent for new lines */
+  budgetItem: BudgetItem | null;
+  fromForecast: number;
+  toForecast: number;
+  delta: number;
+}
+
+/**
+ * Match bid rows to budget lines by category and item name. A matched row
+ * updates that line's forecast; an unmatched row becomes a new line. Each
+ * budget line is matched at most once.
+ */
+export function diffBidAgainstBudget(rows: BidRow[], budgetItems: BudgetItem[]): BidImportChange[] {
+  const unmatched = new Map<string, BudgetItem[]>();
+  for (const item of budgetItems) {
+    const key = budgetItemMatchKey(item);
+    unmatched.set(key, [...(unmatched.get(key) ?? []), item]);
+  }
+
+  return rows.map((row) => {
+    const candidates = unmatched.get(budgetItemMatchKey(row));
+    const budgetItem = candidates?.shift() ?? null;
+    const fromForecast = budgetItem ? Number(budgetItem.forecast_amount) || 0 : 0;
+    const delta = roundCents(row.amount - fromForecast);
+
+    return {
+      type: !budgetItem ? 'new' : Math.abs(delta) < 0.005 ? 'unchanged' : 'update',
+      row,
+      budgetItem,
+      fromForecast,
+      toForecast: row.amount,
+      delta,
+    };
+  });
+}
+
+/**
+ * Forecast totals before and after applying the given changes.
+ */
+export function summarizeBidImport(changes: BidImportChange[], budgetItems: BudgetItem[]) {
+  const from = roundCents(budgetItems.reduce((sum, item) => sum + (Number(item.forecast_amount) || 0), 0));
+  const delta = roundCents(changes.reduce((sum, change) => sum + change.delta, 0));
+
+  return {
+    newCount: changes.filter((change) => change.type === 'new').length,
+    updateCount: changes.filter((change) => change.type === 'update').length,
+    from,
+    to: roundCents(from + delta),
+    delta,
+  };
+}
@@ -0,0 +1,449 @@
+import ExcelJS from 'exceljs';
+import { analyzeProject, type DealAnalysis } from '@/lib/deal-analysis';
+import {
+  BUDGET_CATEGORIES,
+  PROJECT_STATUS_LABELS,
+  STATUS_LABELS,
+  UNIT_LABELS,
+  VENDOR_TRADE_LABELS,
+  type BudgetItem,
+  type CalculationSettingsInput,
+  type Draw,
+  type DrawMilestone,
+  type DrawStatus,
+  type Project,
+  type Vendor,
+} from '@/types';
+
+// ============================================================================
+// BUDGET WORKBOOK (XLSX EXPORT)
+// A multi-sheet workbook for lenders and GCs: Summary, Budget, Draws and
+// Vendors. Totals are live formulas (SUM / SUMIFS) so edits in Excel flow
+// through; each formula also carries its current value for viewers that
+// don't recalculate. The deal analysis is written as values from
+// analyzeProject() - it is too involved to express as formulas.
+// ============================================================================
+
+export const BUDGET_WORKBOOK_SHEETS = {
+  summary: 'Summary',
+  budget: 'Budget',
+  draws: 'Draws',
+  vendors: 'Vendors',
+} as const;
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MONEY_FORMAT = '"$"#,##0.00;[Red]-"$"#,##0.00';
+const PERCENT_FORMAT = '0.0%';
+const HEADER_FILL: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE5E7EB' } };
+const CATEGORY_FILL: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFF3F4F6' } };
+const TOTAL_BORDER: Partial<ExcelJS.Borders> = { top: { style: 'thin' } };
+
+const MILESTONE_LABELS: Record<DrawMilestone, string> = {
+  project_start: 'Project Start',
+  demo_complete: 'Demo Complete',
+  rough_in: 'Rough-In',
+  drywall: 'Drywall',
+  finishes: 'Finishes',
+  final: 'Final',
+};
+
+const DRAW_STATUS_LABELS: Record<DrawStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  paid: 'Paid',
+};
+
+export interface BudgetWorkbookInput {
+  project: Project;
+  budgetItems: BudgetItem[];
+  draws: Draw[];
+  vendors: Vendor[];
+  settings: CalculationSettingsInput;
+  /** Defaults to now; fixed in tests */
+  exportedAt?: Date;
+}
+
+// Budget sheet columns; formulas below refer to these letters
+const BUDGET_COLUMNS = {
+  category: 'A',
+  item: 'B',
+  description: 'C',
+  qty: 'D',
+  unit: 'E',
+  rate: 'F',
+  underwriting: 'G',
+  forecast: 'H',
+  actual: 'I',
+  forecastVariance: 'J',
+  actualVariance: 'K',
+  vendor: 'L',
+  status: 'M',
+} as const;
+
+const AMOUNT_COLUMNS = ['underwriting', 'forecast', 'actual', 'forecastVariance', 'actualVariance'] as const;
+
+type AmountColumn = (typeof AMOUNT_COLUMNS)[number];
+
+interface BudgetSheetTotals {
+  /** Row of the grand total on the Budget sheet */
+  row: number;
+  values: Record<AmountColumn, number>;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+function styleHeaderRow(row: ExcelJS.Row) {
+  row.font = { bold: true };
+  row.eachCell((cell) => {
+    cell.fill = HEADER_FILL;
+  });
+}
+
+function amountsFor(item: BudgetItem): Record<AmountColumn, number> {
+  const underwriting = Number(item.underwriting_amount) || 0;
+  const forecast = Number(item.forecast_amount) || 0;
+  const actual = Number(item.actual_amount) || 0;
+  return {
+    underwriting,
+    forecast,
+    actual,
+    forecastVariance: forecast - underwriting,
+    actualVariance: item.actual_amount == null ? 0 : actual - forecast,
+  };
+}
+
+function addBudgetSheet(
+  workbook: ExcelJS.Workbook,
+  budgetItems: BudgetItem[],
+  vendorsById: Map<string, Vendor>
+): BudgetSheetTotals {
+  const sheet = workbook.addWorksheet(BUDGET_WORKBOOK_SHEETS.budget, {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  sheet.columns = [
+    { header: 'Category', key: 'category', width: 20 },
+    { header: 'Item', key: 'item', width: 32 },
+    { header: 'Description', key: 'description', width: 32 },
+    { header: 'Qty', key: 'qty', width: 8, style: { numFmt: '#,##0.##' } },
+    { header: 'Unit', key: 'unit', width: 8 },
+    { header: 'Rate', key: 'rate', width: 12, style: { numFmt: MONEY_FORMAT } },
+    { header: 'Underwriting', key: 'underwriting', width: 14, style: { numFmt: MONEY_FORMAT } },
+    { header: 'Forecast', key: 'forecast', width: 14, style: { numFmt: MONEY_FORMAT } },
+    { header: 'Actual', key: 'actual', width: 14, style: { numFmt: MONEY_FORMAT } },
+    { header: 'Forecast Var', key: 'forecastVariance', width: 14, style: { numFmt: MONEY_FORMAT } },
+    { header: 'Actual Var', key: 'actualVariance', width: 14, style: { numFmt: MONEY_FORMAT } },
+    { header: 'Vendor', key: 'vendor', width: 24 },
+    { header: 'Status', key: 'status', width: 14 },
+  ];
+  styleHeaderRow(sheet.getRow(1));
+
+  const subtotals: Array<{ row: number; values: Record<AmountColumn, number> }> = [];
+
+  for (const category of BUDGET_CATEGORIES) {
+    const items = budgetItems
+      .filter((item) => item.category === category.value)
+      .sort((a, b) => a.sort_order - b.sort_order);
+    if (items.length === 0) continue;
+
+    const heading = sheet.addRow({ category: category.label });
+    heading.font = { bold: true };
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      heading.getCell(col).fill = CATEGORY_FILL;
+    }
+
+    const firstRow = heading.number + 1;
+    const itemAmounts = items.map((item) => {
+      const amounts = amountsFor(item);
+      const row = sheet.addRow({
+        category: category.label,
+        item: item.item,
+        description: item.description ?? '',
+        qty: Number(item.qty) || 0,
+        unit: UNIT_LABELS[item.unit] ?? item.unit,
+        rate: Number(item.rate) || 0,
+        underwriting: amounts.underwriting,
+        forecast: amounts.forecast,
+        actual: item.actual_amount == null ? null : amounts.actual,
+        vendor: item.vendor_id ? vendorsById.get(item.vendor_id)?.name ?? '' : '',
+        status: STATUS_LABELS[item.status] ?? item.status,
+      });
+      const r = row.number;
+      const { underwriting, forecast, actual, forecastVariance, actualVariance } = BUDGET_COLUMNS;
+      row.getCell(forecastVariance).value = {
+        formula: `${forecast}${r}-${underwriting}${r}`,
+        result: amounts.forecastVariance,
+      };
+      row.getCell(actualVariance).value = {
+        formula: `IF(${actual}${r}="","",${actual}${r}-${forecast}${r})`,
+        result: item.actual_amount == null ? undefined : amounts.actualVariance,
+      };
+      return amounts;
+    });
+    const lastRow = firstRow + items.length - 1;
+
+    const subtotal = sheet.addRow({ item: `${category.label} Subtotal` });
+    const values = {} as Record<AmountColumn, number>;
+    for (const column of AMOUNT_COLUMNS) {
+      const letter = BUDGET_COLUMNS[column];
+      values[column] = sum(itemAmounts.map((amounts) => amounts[column]));
+      subtotal.getCell(letter).value = {
+        formula: `SUM(${letter}${firstRow}:${letter}${lastRow})`,
+        result: values[column],
+      };
+    }
+    subtotal.font = { bold: true };
+    subtotal.eachCell((cell) => {
+      cell.border = TOTAL_BORDER;
+    });
+    subtotals.push({ row: subtotal.number, values });
+  }
+
+  const totalRow = sheet.addRow({ item: 'Total Rehab Budget' });
+  const totals = {} as Record<AmountColumn, number>;
+  for (const column of AMOUNT_COLUMNS) {
+    const letter = BUDGET_COLUMNS[column];
+    totals[column] = sum(subtotals.map((s) => s.values[column]));
+    totalRow.getCell(letter).value = subtotals.length
+      ? { formula: `SUM(${subtotals.map((s) => `${letter}${s.row}`).join(',')})`, result: totals[column] }
+      : 0;
+  }
+  totalRow.font = { bold: true };
+  totalRow.eachCell((cell) => {
+    cell.border = { top: { style: 'thin' }, bottom: { style: 'double' } };
+  });
+
+  return { row: totalRow.number, values: totals };
+}
+
+function fillSummarySheet(
+  sheet: ExcelJS.Worksheet,
+  { project, budgetItems, settings, exportedAt }: BudgetWorkbookInput,
+  budgetTotals: BudgetSheetTotals
+) {
+  sheet.columns = [{ width: 26 }, { width: 18 }, { width: 18 }, { width: 18 }];
+
+  const title = sheet.addRow([project.name]);
+  title.font = { bold: true, size: 16 };
+  sheet.addRow([[project.address, project.city, project.state, project.zip].filter(Boolean).join(', ')]);
+  sheet.addRow([`Exported ${(exportedAt ?? new Date()).toLocaleDateString('en-US')}`]).font = {
+    italic: true,
+    color: { argb: 'FF6B7280' },
+  };
+  sheet.addRow([]);
+
+  const addSection = (label: string, columns: string[] = []) => {
+    const row = sheet.addRow([label, ...columns]);
+    styleHeaderRow(row);
+  };
+  const addValue = (label: string, value: string | number | null, numFmt?: string) => {
+    const row = sheet.addRow([label, value]);
+    if (numFmt) row.getCell(2).numFmt = numFmt;
+  };
+
+  addSection('Property', ['']);
+  addValue('Status', PROJECT_STATUS_LABELS[project.status] ?? project.status);
+  addValue('Beds / Baths', [project.beds, project.baths].map((v) => v ?? '-').join(' / '));
+  addValue('Square Feet', project.sqft, '#,##0');
+  addValue('Year Built', project.year_built);
+  sheet.addRow([]);
+
+  addSection('Deal', ['']);
+  addValue('ARV', Number(project.arv) || 0, MONEY_FORMAT);
+  addValue('Purchase Price', Number(project.purchase_price) || 0, MONEY_FORMAT);
+  addValue('Closing Costs', Number(project.closing_costs) || 0, MONEY_FORMAT);
+  addValue('Holding Costs / Month', Number(project.holding_costs_monthly) || 0, MONEY_FORMAT);
+  addValue('Hold Months', Number(project.hold_months) || 0);
+  addValue('Selling Costs', (Number(project.selling_cost_percent) || 0) / 100, PERCENT_FORMAT);
+  addValue('Contingency', (Number(project.contingency_percent) || 0) / 100, PERCENT_FORMAT);
+  sheet.addRow([]);
+
+  // Rehab budget pulled live from the Budget sheet
+  addSection('Rehab Budget', ['Underwriting', 'Forecast', 'Actual']);
+  const budgetRow = sheet.addRow(['Budget Total']);
+  (['underwriting', 'forecast', 'actual'] as const).forEach((column, index) => {
+    const cell = budgetRow.getCell(index + 2);
+    cell.value = {
+      formula: `${BUDGET_WORKBOOK_SHEETS.budget}!${BUDGET_COLUMNS[column]}${budgetTotals.row}`,
+      result: budgetTotals.values[column],
+    };
+    cell.numFmt = MONEY_FORMAT;
+  });
+  sheet.addRow([]);
+
+  const analysis = analyzeProject(project, budgetItems, settings);
+  const scenarios: DealAnalysis[] = [analysis.underwriting, analysis.forecast, analysis.actual];
+  addSection('Deal Analysis', ['Underwriting', 'Forecast', 'Actual']);
+  const analysisRows: Array<[string, (deal: DealAnalysis) => number, string]> = [
+    ['Contingency', (deal) => deal.contingency, MONEY_FORMAT],
+    ['Rehab + Contingency', (deal) => deal.rehabWithContingency, MONEY_FORMAT],
+    ['Holding Costs', (deal) => deal.holdingCosts, MONEY_FORMAT],
+    ['Selling Costs', (deal) => deal.sellingCosts, MONEY_FORMAT],
+    ['Total Investment', (deal) => deal.totalInvestment, MONEY_FORMAT],
+    ['Gross Profit', (deal) => deal.grossProfit, MONEY_FORMAT],
+    ['ROI', (deal) => deal.roi / 100, PERCENT_FORMAT],
+    ['MAO', (deal) => deal.mao, MONEY_FORMAT],
+  ];
+  for (const [label, pick, numFmt] of analysisRows) {
+    const row = sheet.addRow([label, ...scenarios.map(pick)]);
+    [2, 3, 4].forEach((col) => {
+      row.getCell(col).numFmt = numFmt;
+    });
+  }
+  const note = sheet.addRow([`Primary scenario: ${analysis.primaryScenario}`]);
+  note.font = { italic: true, color: { argb: 'FF6B7280' } };
+}
+
+function addDrawsSheet(workbook: ExcelJS.Workbook, draws: Draw[], vendorsById: Map<string, Vendor>) {
+  const sheet = workbook.addWorksheet(BUDGET_WORKBOOK_SHEETS.draws, {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  sheet.columns = [
+    { header: 'Draw #', key: 'number', width: 8 },
+    { header: 'Milestone', key: 'milestone', width: 16 },
+    { header: 'Vendor', key: 'vendor', width: 24 },
+    { header: 'Description', key: 'description', width: 32 },
+    { header: '% Complete', key: 'percent', width: 11, style: { numFmt: PERCENT_FORMAT } },
+    { header: 'Requested', key: 'requested', width: 12, style: { numFmt: 'mm/dd/yyyy' } },
+    { header: 'Paid', key: 'paid', width: 12, style: { numFmt: 'mm/dd/yyyy' } },
+    { header: 'Status', key: 'status', width: 10 },
+    { header: 'Amount', key: 'amount', width: 14, style: { numFmt: MONEY_FORMAT } },
+  ];
+  styleHeaderRow(sheet.getRow(1));
+
+  const sorted = [...draws].sort((a, b) => a.draw_number - b.draw_number);
+  for (const draw of sorted) {
+    sheet.addRow({
+      number: draw.draw_number,
+      milestone: draw.milestone ? MILESTONE_LABELS[draw.milestone] : '',
+      vendor: draw.vendor_id ? vendorsById.get(draw.vendor_id)?.name ?? '' : '',
+      description: draw.description ?? '',
+      percent: draw.percent_complete == null ? null : draw.percent_complete / 100,
+      requested: draw.date_requested ? new Date(`${draw.date_requested}T00:00:00Z`) : null,
+      paid: draw.date_paid ? new Date(`${draw.date_paid}T00:00:00Z`) : null,
+      status: DRAW_STATUS_LABELS[draw.status],
+      amount: Number(draw.amount) || 0,
+    });
+  }
+
+  const lastRow = Math.max(sheet.rowCount, 2);
+  const amounts = sorted.map((draw) => Number(draw.amount) || 0);
+  const paid = sum(sorted.filter((draw) => draw.status === 'paid').map((draw) => Number(draw.amount) || 0));
+
+  const total = sheet.addRow({ description: 'Total Draws' });
+  total.getCell('amount').value = { formula: `SUM(I2:I${lastRow})`, result: sum(amounts) };
+  total.font = { bold: true };
+  total.eachCell((cell) => {
+    cell.border = TOTAL_BORDER;
+  });
+
+  const paidRow = sheet.addRow({ description: 'Paid to Date' });
+  paidRow.getCell('amount').value = { formula: `SUMIF(H2:H${lastRow},"Paid",I2:I${lastRow})`, result: paid };
+  paidRow.font = { bold: true };
+}
+
+function addVendorsSheet(
+  workbook: ExcelJS.Workbook,
+  budgetItems: BudgetItem[],
+  draws: Draw[],
+  vendors: Vendor[]
+) {
+  const sheet = workbook.addWorksheet(BUDGET_WORKBOOK_SHEETS.vendors, {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  sheet.columns = [
+    { header: 'Vendor', key: 'name', width: 26 },
+    { header: 'Trade', key: 'trade', width: 20 },
+    { header: 'Contact', key: 'contact', width: 20 },
+    { header: 'Phone', key: 'phone', width: 16 },
+    { header: 'Email', key: 'email', width: 28 },
+    { header: 'Forecast', key: 'forecast', width: 14, style: { numFmt: MONEY_FORMAT } },
+    { header: 'Paid', key: 'paid', width: 14, style: { numFmt: MONEY_FORMAT } },
+  ];
+  styleHeaderRow(sheet.getRow(1));
+
+  // Only vendors on this project
+  const onProject = new Set(
+    [...budgetItems.map((item) => item.vendor_id), ...draws.map((draw) => draw.vendor_id)].filter(Boolean)
+  );
+  const { budget, draws: drawsSheet } = BUDGET_WORKBOOK_SHEETS;
+
+  vendors
+    .filter((vendor) => onProject.has(vendor.id))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach((vendor) => {
+      const row = sheet.addRow({
+        name: vendor.name,
+        trade: VENDOR_TRADE_LABELS[vendor.trade] ?? vendor.trade,
+        contact: vendor.contact_name ?? '',
+        phone: vendor.phone ?? '',
+        email: vendor.email ?? '',
+      });
+      const r = row.number;
+      row.getCell('forecast').value = {
+        formula: `SUMIFS(${budget}!${BUDGET_COLUMNS.forecast}:${BUDGET_COLUMNS.forecast},${budget}!${BUDGET_COLUMNS.vendor}:${BUDGET_COLUMNS.vendor},A${r})`,
+        result: sum(
+          budgetItems.filter((item) => item.vendor_id === vendor.id).map((item) => Number(item.forecast_amount) || 0)
+        ),
+      };
+      row.getCell('paid').value = {
+        formula: `SUMIFS(${drawsSheet}!I:I,${drawsSheet}!C:C,A${r},${drawsSheet}!H:H,"Paid")`,
+        result: sum(
+          draws
+            .filter((draw) => draw.vendor_id === vendor.id && draw.status === 'paid')
+            .map((draw) => Number(draw.amount) || 0)
+        ),
+      };
+    });
+}
+
+/**
+ * Build the project workbook: Summary, Budget (three-column, per category,
+ * with SUM subtotals), Draws and Vendors.
+ */
+export function buildBudgetWorkbook(input: BudgetWorkbookInput): ExcelJS.Workbook {
+  const { project, budgetItems, draws, vendors } = input;
+  const vendorsById = new Map(vendors.map((vendor) => [vendor.id, vendor]));
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Rehab Budget Pro';
+  workbook.created = input.exportedAt ?? new Date();
+  workbook.title = project.name;
+  // Let Excel recompute the formulas on open
+  workbook.calcProperties.fullCalcOnLoad = true;
+
+  // Summary comes first but is filled in once the Budget sheet's total row is known
+  const summary = workbook.addWorksheet(BUDGET_WORKBOOK_SHEETS.summary);
+  const budgetTotals = addBudgetSheet(workbook, budgetItems, vendorsById);
+  fillSummarySheet(summary, input, budgetTotals);
+  addDrawsSheet(workbook, draws, vendorsById);
+  addVendorsSheet(workbook, budgetItems, draws, vendors);
+
+  return workbook;
+}
+
+/**
+ * File name for a project's workbook, e.g. `123_Main_St_Budget.xlsx`.
+ */
+export function getBudgetWorkbookFilename(project: Pick<Project, 'name'>): string {
+  return `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_Budget.xlsx`;
+}
+
+/**
+ * Build the workbook and hand it to the browser as a download.
+ */
+export async function downloadBudgetWorkbook(input: BudgetWorkbookInput): Promise<void> {
+  const buffer = await buildBudgetWorkbook(input).xlsx.writeBuffer();
+  const url = URL.createObjectURL(new Blob([buffer], { type: XLSX_MIME_TYPE }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getBudgetWorkbookFilename(input.project);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
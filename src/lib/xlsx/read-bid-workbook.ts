@@ -0,0 +1,39 @@
+import ExcelJS from 'exceljs';
+import type { BidCellValue, BidSheet } from '@/lib/xlsx/bid-import';
+
+// Kept apart from bid-import.ts so ExcelJS only loads once a file is picked
+
+function cellToBidValue(value: ExcelJS.CellValue): BidCellValue {
+  if (value == null) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if ('result' in value) return cellToBidValue((value.result ?? null) as ExcelJS.CellValue);
+  if ('richText' in value) return value.richText.map((part) => part.text).join('').trim() || null;
+  if ('text' in value) return String(value.text).trim() || null;
+  return null;
+}
+
+/**
+ * Read every worksheet of an .xlsx file into plain rows of strings and numbers.
+ * Formula cells contribute their last calculated value.
+ */
+export async function readBidWorkbook(data: ArrayBuffer): Promise<BidSheet[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  return workbook.worksheets
+    .map((worksheet) => {
+      const rows: BidCellValue[][] = [];
+      worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+        const values: BidCellValue[] = [];
+        for (let col = 1; col <= worksheet.columnCount; col++) {
+          values.push(cellToBidValue(row.getCell(col).value));
+        }
+        rows[rowNumber - 1] = values;
+      });
+      return { name: worksheet.name, rows: Array.from(rows, (row) => row ?? []) };
+    })
+    .filter((sheet) => sheet.rows.some((row) => row.some((value) => value !== null)));
+}
@@ -1,5 +1,6 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
+import { isShareLinkPath } from '@/lib/share-links';
 
 export async function middleware(request: NextRequest) {
   let supabaseResponse = NextResponse.next({
@@ -39,9 +40,12 @@ export async function middleware(request: NextRequest) {
 
   const { pathname } = request.nextUrl;
 
-  // Define public routes that don't require authentication
-  const publicRoutes = ['/auth/login', '/auth/signup', '/auth/callback'];
-  const isPublicRoute = publicRoutes.some((route) => pathname.startsWith(route));
+  // Define public routes that don't require authentication.
+  // /draw-request/[token] is the vendor portal; the token itself is the credential.
+  const publicRoutes = ['/auth/login', '/auth/signup', '/auth/callback', '/draw-request/'];
+  // /share/[token] is the investor/lender view. Matched exactly so nothing else under /share is public.
+  const isShareLink = isShareLinkPath(pathname);
+  const isPublicRoute = isShareLink || publicRoutes.some((route) => pathname.startsWith(route));
 
   // If user is not authenticated and trying to access a protected route
   if (!user && !isPublicRoute) {
@@ -58,6 +62,12 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(url);
   }
 
+  // Keep the token out of Referer headers sent to other sites and out of search engines
+  if (isShareLink) {
+    supabaseResponse.headers.set('Referrer-Policy', 'no-referrer');
+    supabaseResponse.headers.set('X-Robots-Tag', 'noindex, nofollow');
+  }
+
   return supabaseResponse;
 }
 
@@ -93,13 +93,15 @@ export interface TimelineEvent {
   projectId: string;
   title: string;
   address: string | null;
-  type: 'acquisition' | 'rehab' | 'sale';
+  type: 'acquisition' | 'rehab' | 'sale' | 'task';
   startDate: Date | null;
   endDate: Date | null;
   progress: number;
   status: ProjectStatus;
   isCompleted: boolean;
   dependencies: string[];
+  /** Schedule tasks only: on the critical path */
+  isCritical?: boolean;
   financials: {
     arv: number;
     budget: number;
@@ -48,6 +48,16 @@ export type UnitType = 'sf' | 'lf' | 'ea' | 'ls' | 'sq' | 'hr' | 'day' | 'week'
 
 export type PhotoType = 'receipt' | 'progress' | 'before' | 'after' | 'other';
 
+export type ProjectReportType =
+  | 'property-showcase'
+  | 'executive-summary'
+  | 'investment-analysis'
+  | 'detailed-budget'
+  | 'vendor-summary'
+  | 'draw-schedule'
+  | 'draw-packet'
+  | 'post-mortem';
+
 export type CostType = 'labor' | 'materials' | 'both';
 
 export type ItemStatus = 'not_started' | 'in_progress' | 'complete' | 'on_hold' | 'cancelled';
@@ -77,6 +87,8 @@ export type VendorTrade =
 
 export type VendorStatus = 'active' | 'inactive' | 'do_not_use';
 
+export type VendorDocumentType = 'coi' | 'w9' | 'license';
+
 export type DrawStatus = 'pending' | 'approved' | 'paid';
 
 export type DrawMilestone =
@@ -87,6 +99,8 @@ export type DrawMilestone =
   | 'finishes'
   | 'final';
 
+export type DrawAttachmentType = 'invoice' | 'lien_waiver' | 'other';
+
 export type PaymentMethod =
   | 'check'
   | 'zelle'
@@ -109,6 +123,22 @@ export type ContactType =
   | 'payment'
   | 'other';
 
+export type BidRequestStatus = 'open' | 'awarded' | 'cancelled';
+
+export type BidStatus = 'requested' | 'received' | 'declined' | 'awarded' | 'not_awarded';
+
+export type ChangeOrderReason = 'owner_requested' | 'hidden_condition' | 'code_requirement';
+
+export type ChangeOrderStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export type LoanType = 'hard_money' | 'private' | 'heloc' | 'other';
+
+export type LoanInterestBasis = 'drawn_balance' | 'full_balance';
+
+export type CompCondition = 'distressed' | 'dated' | 'average' | 'updated' | 'renovated';
+
+export type WorkspaceRole = 'owner' | 'project_manager' | 'bookkeeper' | 'investor';
+
 export type JournalPageType =
   | 'note'
   | 'meeting'
@@ -117,6 +147,19 @@ export type JournalPageType =
   | 'research'
   | 'site_visit';
 
+export type MaoMethod =
+  | 'seventy_rule'
+  | 'arv_minus_all'
+  | 'gross_margin'
+  | 'custom_percentage'
+  | 'net_profit_target';
+
+export type RoiMethod = 'simple' | 'cash_on_cash' | 'annualized' | 'irr_simplified';
+
+export type ContingencyMethod = 'flat_percent' | 'category_weighted' | 'tiered' | 'scope_based';
+
+export type HoldingCostMethod = 'flat_monthly' | 'percentage_of_loan' | 'itemized' | 'hybrid';
+
 // ============================================================================
 // DATABASE TABLES
 // ============================================================================
@@ -124,6 +167,7 @@ export type JournalPageType =
 export interface Project {
   id: string;
   user_id: string;
+  workspace_id: string | null;
   
   // Property Info
   name: string;
@@ -155,6 +199,15 @@ export interface Project {
   list_date: string | null;
   sale_date: string | null;
   
+  // Calculation profile (null = use the user's default profile)
+  calculation_settings_id: string | null;
+
+  // Comparable sales adjustments
+  comp_sqft_adjustment: number | null; // $ per sqft of size difference; null = half the comps' median $/sqft
+  comp_bed_adjustment: number; // $ per bedroom
+  comp_bath_adjustment: number; // $ per bathroom
+  comp_condition_adjustment: number; // % of the comp's price per condition step below renovated
+
   // Meta
   notes: string | null;
   created_at: string;
@@ -164,6 +217,7 @@ export interface Project {
 export interface Vendor {
   id: string;
   user_id: string;
+  workspace_id: string | null;
   
   // Basic Info
   name: string;
@@ -178,6 +232,10 @@ export interface Vendor {
   licensed: boolean;
   insured: boolean;
   w9_on_file: boolean;
+
+  // Payment Terms
+  /** Default % of each draw held back until the vendor's final draw */
+  retainage_percent: number;
   
   // Ratings
   rating: number | null;
@@ -210,6 +268,8 @@ export interface BudgetItem {
   underwriting_amount: number;  // Pre-deal estimate
   forecast_amount: number;       // Post-walkthrough/bid estimate
   actual_amount: number | null;  // Real spend
+  actual_from_draws: boolean;           // actual_amount rolled up from paid draws
+  manual_actual_amount: number | null;  // Hand-entered actual kept while draws drive it
 
   // Computed Variances (generated columns)
   forecast_variance: number | null;  // Forecast - Underwriting
@@ -220,6 +280,7 @@ export interface BudgetItem {
   cost_type: CostType;
   status: ItemStatus;
   priority: 'high' | 'medium' | 'low';
+  completed_at: string | null;  // Set by trigger when status becomes complete
 
   // Meta
   sort_order: number;
@@ -248,6 +309,13 @@ export interface Draw {
   // Payment Details
   payment_method: PaymentMethod | null;
   reference_number: string | null;
+
+  // Approved despite the vendor's lapsed insurance
+  compliance_override_reason: string | null;
+  compliance_override_at: string | null;
+
+  // Released from this loan's rehab holdback
+  loan_id: string | null;
   
   // Meta
   notes: string | null;
@@ -255,6 +323,197 @@ export interface Draw {
   updated_at: string;
 }
 
+export interface DrawAllocation {
+  id: string;
+  draw_id: string;
+  budget_item_id: string;
+  project_id: string;
+  vendor_id: string | null;
+
+  amount: number;
+  /** % of the amount held back until the vendor's final draw */
+  retainage_percent: number;
+  /** Generated: amount * retainage_percent / 100 */
+  retainage_amount: number;
+  notes: string | null;
+
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DrawRequestToken {
+  id: string;
+  project_id: string;
+  vendor_id: string;
+
+  // Token (only the hash is stored; the raw token lives in the vendor link)
+  token_hash: string;
+  expires_at: string;
+  revoked_at: string | null;
+  last_used_at: string | null;
+
+  created_by: string | null;
+  created_at: string;
+}
+
+// What the public vendor portal sees for a valid token (get_draw_request_invite)
+export interface DrawRequestInvite {
+  project_address: string | null;
+  project_city: string | null;
+  project_state: string | null;
+  vendor_name: string;
+  expires_at: string;
+}
+
+export type ProjectShareSection = 'deal_summary' | 'budget' | 'draws' | 'photos';
+export type ProjectShareBudgetColumn = 'underwriting' | 'forecast' | 'actual';
+
+// Read-only link to /share/[token] for an investor or lender
+export interface ProjectShareLink {
+  id: string;
+  project_id: string;
+  label: string;
+
+  // What the link exposes
+  sections: ProjectShareSection[];
+  budget_columns: ProjectShareBudgetColumn[];
+  photo_ids: string[];
+
+  // Token (only the hash is stored; the raw token lives in the link)
+  token_hash: string;
+  expires_at: string;
+  revoked_at: string | null;
+
+  // View tracking
+  view_count: number;
+  last_viewed_at: string | null;
+
+  created_by: string | null;
+  created_at: string;
+}
+
+// What the public share page sees for a valid token (get_project_share).
+// Sections that were not shared are null; hidden budget columns are absent.
+export interface SharedProject {
+  label: string;
+  expires_at: string;
+  sections: ProjectShareSection[];
+  budget_columns: ProjectShareBudgetColumn[];
+  project: Pick<
+    Project,
+    | 'name'
+    | 'address'
+    | 'city'
+    | 'state'
+    | 'zip'
+    | 'beds'
+    | 'baths'
+    | 'sqft'
+    | 'year_built'
+    | 'property_type'
+    | 'status'
+    | 'rehab_start_date'
+    | 'target_complete_date'
+  >;
+  deal_summary: {
+    arv: number | null;
+    purchase_price: number | null;
+    closing_costs: number;
+    rehab_budget: number;
+    rehab_actual: number;
+    holding_costs_total: number;
+    selling_costs: number;
+    total_investment: number;
+    gross_profit: number;
+    roi: number;
+    hold_months: number;
+  } | null;
+  budget: ({ category: BudgetCategory } & Partial<Record<ProjectShareBudgetColumn, number>>)[] | null;
+  draws:
+    | (Pick<
+        Draw,
+        'draw_number' | 'milestone' | 'description' | 'percent_complete' | 'amount' | 'status' | 'date_requested' | 'date_paid'
+      > & { vendor_name: string | null })[]
+    | null;
+  photos: (Pick<LineItemPhoto, 'id' | 'storage_path' | 'photo_type' | 'caption'> & { taken_at: string })[] | null;
+}
+
+export type AuditTable = 'projects' | 'budget_items' | 'draws' | 'vendors' | 'line_item_photos';
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export interface AuditFieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+// One row of the audit_log, written by the record_audit_log() trigger
+export interface AuditLogEntry {
+  id: string;
+  workspace_id: string | null;
+  project_id: string | null;
+  table_name: AuditTable;
+  record_id: string;
+  record_label: string | null;
+  action: AuditAction;
+  changes: Record<string, AuditFieldChange>;
+  actor_id: string | null;  // null for vendor portal and system writes
+  created_at: string;
+}
+
+/** An audit entry with the name and email of whoever made the change */
+export interface AuditLogEntryWithActor extends AuditLogEntry {
+  actor: { email: string | null; full_name: string | null } | null;
+}
+
+export interface DrawAttachment {
+  id: string;
+  draw_id: string;
+  project_id: string;
+  token_id: string | null;
+
+  // File Storage
+  storage_path: string;
+  file_name: string | null;
+  file_size: number | null;
+  content_type: string | null;
+
+  attachment_type: DrawAttachmentType;
+  created_at: string;
+}
+
+// Project financials frozen with a budget snapshot (what the deal analysis reads)
+export type BudgetSnapshotFinancials = Pick<
+  Project,
+  | 'arv'
+  | 'purchase_price'
+  | 'closing_costs'
+  | 'holding_costs_monthly'
+  | 'hold_months'
+  | 'selling_cost_percent'
+  | 'contingency_percent'
+>;
+
+export interface BudgetSnapshot {
+  id: string;
+  project_id: string;
+
+  name: string;
+  notes: string | null;
+
+  // Frozen data
+  project_financials: BudgetSnapshotFinancials;
+  budget_items: BudgetItem[];
+
+  // Totals at snapshot time
+  underwriting_total: number;
+  forecast_total: number;
+  actual_total: number;
+  item_count: number;
+
+  created_by: string | null;
+  created_at: string;
+}
+
 export interface CostReference {
   id: string;
   category: BudgetCategory;
@@ -297,9 +556,293 @@ export interface BudgetCategoryTemplate {
   created_at: string;
 }
 
+// A user's saved budget scope, created from a project
+export interface BudgetTemplate {
+  id: string;
+  user_id: string;
+  workspace_id: string | null;
+  name: string;
+  description: string | null;
+  source_project_id: string | null;
+  sqft: number | null; // Square footage the SF quantities were measured on
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetTemplateItem {
+  id: string;
+  template_id: string;
+  vendor_id: string | null;
+  category: BudgetCategory;
+  item: string;
+  description: string | null;
+  room_area: string | null;
+  qty: number;
+  unit: UnitType;
+  rate: number;
+  amount: number; // Budgeted amount on the source project
+  cost_type: CostType;
+  priority: 'high' | 'medium' | 'low';
+  sort_order: number;
+  created_at: string;
+}
+
+export interface BudgetTemplateWithItems extends BudgetTemplate {
+  budget_template_items: BudgetTemplateItem[];
+}
+
+export interface ProjectReport {
+  id: string;
+  project_id: string;
+  report_type: ProjectReportType;
+  /** Draw the report covers (draw packets only) */
+  draw_id: string | null;
+
+  title: string;
+
+  // File Storage
+  storage_path: string;
+  file_name: string;
+  file_size: number | null;
+
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface BidRequest {
+  id: string;
+  project_id: string;
+
+  title: string;
+  /** Set when the scope was picked as a whole category */
+  category: BudgetCategory | null;
+  notes: string | null;
+  due_date: string | null;
+
+  status: BidRequestStatus;
+  awarded_bid_id: string | null;
+  awarded_at: string | null;
+
+  created_at: string;
+  updated_at: string;
+}
+
+/** A budget line in a bid request's scope */
+export interface BidRequestItem {
+  id: string;
+  bid_request_id: string;
+  budget_item_id: string;
+  created_at: string;
+}
+
+/** One vendor's bid on a bid request */
+export interface Bid {
+  id: string;
+  bid_request_id: string;
+  vendor_id: string;
+
+  status: BidStatus;
+  /** What the vendor's price leaves out (permits, haul-off, materials...) */
+  exclusions: string | null;
+  notes: string | null;
+  received_at: string | null;
+
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BidLineItem {
+  id: string;
+  bid_id: string;
+  budget_item_id: string;
+  amount: number;
+  notes: string | null;
+}
+
+export interface BidWithLines extends Bid {
+  bid_line_items: BidLineItem[];
+}
+
+export interface BidRequestWithBids extends BidRequest {
+  bid_request_items: BidRequestItem[];
+  bids: BidWithLines[];
+}
+
+export interface ChangeOrder {
+  id: string;
+  project_id: string;
+  /** Sequential per project: CO #1, #2... */
+  number: number;
+
+  title: string;
+  reason_code: ChangeOrderReason;
+  description: string | null;
+  vendor_id: string | null;
+
+  status: ChangeOrderStatus;
+  submitted_at: string | null;
+  decided_at: string | null;
+  decided_by: string | null;
+  rejection_reason: string | null;
+
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A budget line a change order affects */
+export interface ChangeOrderItem {
+  id: string;
+  change_order_id: string;
+  budget_item_id: string;
+  /** Signed change to the line's budgeted amount, applied to forecast_amount on approval */
+  delta: number;
+  notes: string | null;
+}
+
+export interface ChangeOrderWithItems extends ChangeOrder {
+  change_order_items: ChangeOrderItem[];
+}
+
+export interface ScheduleTask {
+  id: string;
+  project_id: string;
+  name: string;
+  category: BudgetCategory | null;
+  vendor_id: string | null;
+  start_date: string | null; // Scheduled start; null until first scheduled
+  duration_days: number; // Calendar days
+  completed_at: string | null;
+  sort_order: number;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Finish-to-start: task_id can't start until predecessor_id finishes */
+export interface ScheduleTaskDependency {
+  task_id: string;
+  predecessor_id: string;
+}
+
+export interface ProjectLoan {
+  id: string;
+  project_id: string;
+
+  lender_name: string;
+  loan_type: LoanType;
+  lien_position: number;
+
+  // Principal
+  purchase_amount: number; // Funded at closing toward the purchase
+  rehab_holdback: number; // Released through draws
+
+  // Terms
+  interest_rate: number; // Annual %, interest-only
+  interest_basis: LoanInterestBasis;
+  points: number; // % of the total loan
+  lender_fees: number;
+  funded_date: string | null; // Null funds on the project's close date
+  term_months: number | null;
+
+  notes: string | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// A recent sale supporting the project's ARV
+export interface ProjectComp {
+  id: string;
+  project_id: string;
+
+  address: string;
+  sale_date: string | null;
+  sale_price: number;
+  sqft: number;
+  beds: number | null;
+  baths: number | null;
+  distance_miles: number | null;
+  condition: CompCondition;
+  is_selected: boolean; // Counts toward the comps-indicated ARV
+
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Settlement statement for a sold project; one per project. Locking stores
+// the realized results next to the underwriting projection they are judged
+// against and marks the project sold.
+export interface ProjectCloseout {
+  id: string;
+  project_id: string;
+
+  // Settlement
+  sale_date: string;
+  sale_price: number;
+  commissions: number;
+  seller_concessions: number;
+  title_transfer_fees: number; // Title, escrow, recording and transfer taxes
+  loan_payoff: number; // Principal plus interest and fees paid to lenders
+
+  // Cost basis
+  purchase_price: number;
+  closing_costs: number;
+  rehab_cost: number;
+  holding_costs_paid: number; // Taxes, insurance, utilities and interest paid during the hold
+  financing_fees: number; // Points and lender fees
+  loan_principal: number; // Drawn principal repaid by the payoff
+
+  notes: string | null;
+
+  // Locked results
+  realized_profit: number | null;
+  realized_roi: number | null;
+  actual_hold_days: number | null;
+  projected_sale_price: number | null;
+  projected_selling_costs: number | null;
+  projected_acquisition_costs: number | null;
+  projected_rehab_cost: number | null;
+  projected_holding_costs: number | null;
+  projected_profit: number | null;
+  projected_roi: number | null;
+  projected_hold_days: number | null;
+  locked_at: string | null;
+  locked_by: string | null;
+
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VendorDocument {
+  id: string;
+  vendor_id: string;
+  document_type: VendorDocumentType;
+
+  // Policy / License
+  document_number: string | null;
+  issuer: string | null;
+  per_occurrence_limit: number | null;
+  aggregate_limit: number | null;
+  effective_date: string | null;
+  expiration_date: string | null;
+  notes: string | null;
+
+  // File Storage
+  storage_path: string;
+  file_name: string | null;
+  file_size: number | null;
+  content_type: string | null;
+
+  created_at: string;
+  updated_at: string;
+}
+
 export interface VendorTag {
   id: string;
   user_id: string;
+  workspace_id: string | null;
   name: string;
   color: string;
   description: string | null;
@@ -337,6 +880,7 @@ export interface VendorContact {
 export interface JournalPage {
   id: string;
   user_id: string;
+  workspace_id: string | null;
   project_id: string | null; // Optional project tag
   
   // Page content
@@ -356,6 +900,142 @@ export interface JournalPage {
   updated_at: string;
 }
 
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  invited_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A teammate with the profile fields shown on the team page */
+export interface WorkspaceMemberWithProfile extends WorkspaceMember {
+  profile: { email: string | null; full_name: string | null } | null;
+}
+
+/** One of the current user's memberships, with its workspace */
+export interface WorkspaceMembership extends WorkspaceMember {
+  workspace: Workspace;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceRole;
+  token_hash: string;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface ProjectInvestor {
+  project_id: string;
+  user_id: string;
+  shared_by: string | null;
+  created_at: string;
+}
+
+export type ContingencyCategoryRates = Record<BudgetCategory, number>;
+
+export interface ContingencyTier {
+  max_budget: number | null; // null = no upper bound
+  percent: number;
+}
+
+export interface HoldingCostItems {
+  taxes: number;
+  insurance: number;
+  utilities: number;
+  loan_interest: number;
+  hoa: number;
+  lawn_care: number;
+  other: number;
+}
+
+export interface CalculationSettings {
+  id: string;
+  user_id: string;
+
+  // Profile Info
+  name: string;
+  description: string | null;
+  is_default: boolean;
+
+  // MAO
+  mao_method: MaoMethod;
+  mao_arv_multiplier: number; // 0.70 = 70%
+  mao_target_profit: number;
+  mao_target_profit_percent: number;
+  mao_include_holding_costs: boolean;
+  mao_include_selling_costs: boolean;
+  mao_include_closing_costs: boolean;
+
+  // ROI
+  roi_method: RoiMethod;
+  roi_annualize: boolean;
+  roi_include_opportunity_cost: boolean;
+  roi_opportunity_rate: number;
+  roi_threshold_excellent: number;
+  roi_threshold_good: number;
+  roi_threshold_fair: number;
+  roi_threshold_poor: number;
+
+  // Contingency
+  contingency_method: ContingencyMethod;
+  contingency_default_percent: number;
+  contingency_category_rates: ContingencyCategoryRates;
+  contingency_tiers: ContingencyTier[];
+
+  // Holding Costs
+  holding_cost_method: HoldingCostMethod;
+  holding_cost_default_monthly: number;
+  holding_cost_loan_rate_annual: number;
+  holding_cost_include_taxes: boolean;
+  holding_cost_include_insurance: boolean;
+  holding_cost_include_utilities: boolean;
+  holding_cost_include_hoa: boolean;
+  holding_cost_items: HoldingCostItems;
+
+  // Selling Costs
+  selling_cost_default_percent: number;
+  selling_cost_agent_commission: number;
+  selling_cost_buyer_concessions: number;
+  selling_cost_closing_percent: number;
+  selling_cost_fixed_amount: number;
+
+  // Profit Thresholds
+  profit_min_acceptable: number;
+  profit_target: number;
+  profit_excellent: number;
+  profit_min_percent: number;
+  profit_target_percent: number;
+  profit_excellent_percent: number;
+
+  // Variance Alerts
+  variance_alert_enabled: boolean;
+  variance_warning_percent: number;
+  variance_critical_percent: number;
+  variance_alert_on_forecast: boolean;
+  variance_alert_on_actual: boolean;
+
+  created_at: string;
+  updated_at: string;
+}
+
 // Extended type with project details for display
 export interface JournalPageWithProject extends JournalPage {
   project?: {
@@ -386,8 +1066,13 @@ export interface ProjectSummary extends Project {
   holding_costs_total: number;
   total_investment: number;
   gross_profit: number;
+  roi: number;
   mao: number;
 
+  // Financing (null without loans)
+  loan_amount: number | null;
+  financing_costs: number | null;
+
   // Progress
   total_items: number;
   completed_items: number;
@@ -425,14 +1110,16 @@ export interface VendorPaymentSummary extends Vendor {
 // FORM/INPUT TYPES
 // ============================================================================
 
-export type ProjectInput = Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
-export type VendorInput = Omit<Vendor, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
-export type BudgetItemInput = Omit<BudgetItem, 'id' | 'created_at' | 'updated_at' | 'forecast_variance' | 'actual_variance' | 'total_variance'>;
+export type ProjectInput = Omit<Project, 'id' | 'user_id' | 'workspace_id' | 'created_at' | 'updated_at'>;
+export type VendorInput = Omit<Vendor, 'id' | 'user_id' | 'workspace_id' | 'created_at' | 'updated_at'>;
+export type BudgetItemInput = Omit<BudgetItem, 'id' | 'created_at' | 'updated_at' | 'forecast_variance' | 'actual_variance' | 'total_variance' | 'completed_at'>;
 export type DrawInput = Omit<Draw, 'id' | 'created_at' | 'updated_at'>;
+export type DrawAllocationInput = Omit<DrawAllocation, 'id' | 'created_at' | 'updated_at' | 'retainage_amount'>;
 export type LineItemPhotoInput = Omit<LineItemPhoto, 'id' | 'created_at'>;
-export type VendorTagInput = Omit<VendorTag, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+export type VendorTagInput = Omit<VendorTag, 'id' | 'user_id' | 'workspace_id' | 'created_at' | 'updated_at'>;
 export type VendorContactInput = Omit<VendorContact, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
-export type JournalPageInput = Omit<JournalPage, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+export type JournalPageInput = Omit<JournalPage, 'id' | 'user_id' | 'workspace_id' | 'created_at' | 'updated_at'>;
+export type CalculationSettingsInput = Omit<CalculationSettings, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
 
 // ============================================================================
 // UTILITY TYPES
@@ -538,6 +1225,120 @@ export const CONTACT_TYPE_LABELS: Record<ContactType, string> = {
   other: 'Other',
 };
 
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  check: 'Check',
+  zelle: 'Zelle',
+  venmo: 'Venmo',
+  wire: 'Wire',
+  cash: 'Cash',
+  credit_card: 'Credit Card',
+  other: 'Other',
+};
+
+export const DRAW_ATTACHMENT_TYPE_LABELS: Record<DrawAttachmentType, string> = {
+  invoice: 'Invoice',
+  lien_waiver: 'Lien Waiver',
+  other: 'Other',
+};
+
+export const BID_REQUEST_STATUS_LABELS: Record<BidRequestStatus, string> = {
+  open: 'Open',
+  awarded: 'Awarded',
+  cancelled: 'Cancelled',
+};
+
+export const BID_STATUS_LABELS: Record<BidStatus, string> = {
+  requested: 'Requested',
+  received: 'Received',
+  declined: 'Declined',
+  awarded: 'Awarded',
+  not_awarded: 'Not Awarded',
+};
+
+export const CHANGE_ORDER_REASON_LABELS: Record<ChangeOrderReason, string> = {
+  owner_requested: 'Owner Requested',
+  hidden_condition: 'Hidden Condition',
+  code_requirement: 'Code Requirement',
+};
+
+export const CHANGE_ORDER_STATUS_LABELS: Record<ChangeOrderStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const LOAN_TYPE_LABELS: Record<LoanType, string> = {
+  hard_money: 'Hard Money',
+  private: 'Private Lender',
+  heloc: 'HELOC',
+  other: 'Other',
+};
+
+export const LOAN_INTEREST_BASIS_LABELS: Record<LoanInterestBasis, string> = {
+  drawn_balance: 'Drawn balance',
+  full_balance: 'Full loan amount',
+};
+
+export const COMP_CONDITION_LABELS: Record<CompCondition, string> = {
+  distressed: 'Distressed',
+  dated: 'Dated',
+  average: 'Average',
+  updated: 'Updated',
+  renovated: 'Renovated',
+};
+
+export const VENDOR_DOCUMENT_TYPE_LABELS: Record<VendorDocumentType, string> = {
+  coi: 'Certificate of Insurance',
+  w9: 'W-9',
+  license: 'License',
+};
+
+export const PROJECT_REPORT_TYPE_LABELS: Record<ProjectReportType, string> = {
+  'property-showcase': 'Property Showcase',
+  'executive-summary': 'Executive Summary',
+  'investment-analysis': 'Investment Analysis',
+  'detailed-budget': 'Detailed Budget',
+  'vendor-summary': 'Vendor Summary',
+  'draw-schedule': 'Draw Schedule',
+  'draw-packet': 'Draw Packet',
+  'post-mortem': 'Post-Mortem',
+};
+
+export const PROJECT_SHARE_SECTION_LABELS: Record<ProjectShareSection, string> = {
+  deal_summary: 'Deal Summary',
+  budget: 'Budget by Category',
+  draws: 'Draw History',
+  photos: 'Photos',
+};
+
+export const PROJECT_SHARE_BUDGET_COLUMN_LABELS: Record<ProjectShareBudgetColumn, string> = {
+  underwriting: 'Underwriting',
+  forecast: 'Forecast',
+  actual: 'Actual',
+};
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  projects: 'Project',
+  budget_items: 'Budget Item',
+  draws: 'Draw',
+  vendors: 'Vendor',
+  line_item_photos: 'Photo',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: 'Added',
+  update: 'Changed',
+  delete: 'Deleted',
+};
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  project_manager: 'Project Manager',
+  bookkeeper: 'Bookkeeper',
+  investor: 'Investor',
+};
+
 export const TAG_COLORS = [
   { value: '#ef4444', label: 'Red' },
   { value: '#f97316', label: 'Orange' },
@@ -568,3 +1369,154 @@ export const JOURNAL_PAGE_TYPES: JournalPageType[] = [
   'research',
   'site_visit',
 ];
+
+// ============================================================================
+// CALCULATION SETTINGS
+// ============================================================================
+
+// Mirrors the column defaults in calculation_settings
+export const DEFAULT_CALCULATION_SETTINGS: CalculationSettingsInput = {
+  name: 'Default',
+  description: null,
+  is_default: true,
+
+  mao_method: 'seventy_rule',
+  mao_arv_multiplier: 0.7,
+  mao_target_profit: 30000,
+  mao_target_profit_percent: 15,
+  mao_include_holding_costs: true,
+  mao_include_selling_costs: true,
+  mao_include_closing_costs: true,
+
+  roi_method: 'simple',
+  roi_annualize: false,
+  roi_include_opportunity_cost: false,
+  roi_opportunity_rate: 5,
+  roi_threshold_excellent: 25,
+  roi_threshold_good: 15,
+  roi_threshold_fair: 10,
+  roi_threshold_poor: 5,
+
+  contingency_method: 'flat_percent',
+  contingency_default_percent: 10,
+  contingency_category_rates: {
+    soft_costs: 5,
+    demo: 10,
+    structural: 15,
+    plumbing: 12,
+    hvac: 12,
+    electrical: 12,
+    insulation_drywall: 10,
+    interior_paint: 8,
+    flooring: 8,
+    tile: 10,
+    kitchen: 10,
+    bathrooms: 12,
+    doors_windows: 8,
+    interior_trim: 8,
+    exterior: 12,
+    landscaping: 8,
+    finishing: 5,
+    contingency: 0,
+  },
+  contingency_tiers: [
+    { max_budget: 25000, percent: 15 },
+    { max_budget: 50000, percent: 12 },
+    { max_budget: 100000, percent: 10 },
+    { max_budget: null, percent: 8 },
+  ],
+
+  holding_cost_method: 'flat_monthly',
+  holding_cost_default_monthly: 1500,
+  holding_cost_loan_rate_annual: 12,
+  holding_cost_include_taxes: true,
+  holding_cost_include_insurance: true,
+  holding_cost_include_utilities: true,
+  holding_cost_include_hoa: false,
+  holding_cost_items: {
+    taxes: 250,
+    insurance: 150,
+    utilities: 200,
+    loan_interest: 800,
+    hoa: 0,
+    lawn_care: 100,
+    other: 0,
+  },
+
+  selling_cost_default_percent: 8,
+  selling_cost_agent_commission: 5,
+  selling_cost_buyer_concessions: 2,
+  selling_cost_closing_percent: 1,
+  selling_cost_fixed_amount: 0,
+
+  profit_min_acceptable: 20000,
+  profit_target: 35000,
+  profit_excellent: 50000,
+  profit_min_percent: 10,
+  profit_target_percent: 15,
+  profit_excellent_percent: 20,
+
+  variance_alert_enabled: true,
+  variance_warning_percent: 5,
+  variance_critical_percent: 10,
+  variance_alert_on_forecast: true,
+  variance_alert_on_actual: true,
+};
+
+export const MAO_METHOD_LABELS: Record<MaoMethod, string> = {
+  seventy_rule: '70% Rule',
+  custom_percentage: 'Custom Percentage',
+  arv_minus_all: 'ARV Minus All Costs',
+  gross_margin: 'Gross Margin',
+  net_profit_target: 'Net Profit Target',
+};
+
+export const MAO_METHOD_DESCRIPTIONS: Record<MaoMethod, string> = {
+  seventy_rule: 'Classic rule: ARV × 70% minus rehab and selected costs',
+  custom_percentage: 'ARV × your own multiplier minus rehab and selected costs',
+  arv_minus_all: 'ARV minus all costs minus a fixed profit target',
+  gross_margin: 'ARV × (1 − target margin) minus rehab and selected costs',
+  net_profit_target: 'Work backward from the net profit you want to make',
+};
+
+export const ROI_METHOD_LABELS: Record<RoiMethod, string> = {
+  simple: 'Simple ROI',
+  cash_on_cash: 'Cash on Cash',
+  annualized: 'Annualized ROI',
+  irr_simplified: 'IRR (Simplified)',
+};
+
+export const ROI_METHOD_DESCRIPTIONS: Record<RoiMethod, string> = {
+  simple: 'Profit divided by total investment',
+  cash_on_cash: 'Annual cash flow divided by cash invested',
+  annualized: 'Simple ROI scaled to a 12-month hold',
+  irr_simplified: 'Approximate internal rate of return over the hold period',
+};
+
+export const CONTINGENCY_METHOD_LABELS: Record<ContingencyMethod, string> = {
+  flat_percent: 'Flat Percentage',
+  category_weighted: 'Category Weighted',
+  tiered: 'Tiered by Budget',
+  scope_based: 'Scope Based',
+};
+
+export const CONTINGENCY_METHOD_DESCRIPTIONS: Record<ContingencyMethod, string> = {
+  flat_percent: 'A single percentage applied to the whole rehab budget',
+  category_weighted: 'Riskier categories (structural, plumbing) carry a higher rate',
+  tiered: 'The rate steps down as the rehab budget grows',
+  scope_based: 'Rate based on the overall project scope',
+};
+
+export const HOLDING_COST_METHOD_LABELS: Record<HoldingCostMethod, string> = {
+  flat_monthly: 'Flat Monthly',
+  percentage_of_loan: 'Percentage of Loan',
+  itemized: 'Itemized',
+  hybrid: 'Hybrid',
+};
+
+export const HOLDING_COST_METHOD_DESCRIPTIONS: Record<HoldingCostMethod, string> = {
+  flat_monthly: 'A fixed amount per month of hold time',
+  percentage_of_loan: 'Monthly interest on the purchase price at the annual loan rate',
+  itemized: 'Sum of taxes, insurance, utilities, interest and other monthly items',
+  hybrid: 'Flat monthly base plus itemized variable costs',
+};
@@ -0,0 +1,339 @@
+-- ============================================================================
+-- UNIFIED DEAL ANALYSIS
+-- project_summary now computes MAO / ROI / profit with the project's
+-- calculation profile, using the same rules as src/lib/deal-analysis.ts.
+--
+-- Semantics (keep in sync with analyzeDeal()):
+--   total_investment = purchase + rehab + contingency + closing + holding
+--   gross_profit     = arv - selling_costs - total_investment
+--   roi              = profile ROI method on gross_profit / total_investment
+--   mao              = profile MAO method on the underwriting budget
+-- Profile resolution: assigned profile -> owner's default -> built-in defaults
+-- ============================================================================
+
+-- ============================================================================
+-- 1. ENGINE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION analyze_deal(
+  p_arv NUMERIC,
+  p_purchase_price NUMERIC,
+  p_rehab_budget NUMERIC,
+  p_closing_costs NUMERIC,
+  p_hold_months NUMERIC,
+  p_category_budgets JSONB,
+  p_contingency_percent NUMERIC,   -- project override for flat/scope-based contingency
+  p_holding_costs_monthly NUMERIC, -- project override for flat/hybrid base holding cost
+  p_selling_cost_percent NUMERIC,  -- project override for % of ARV selling costs
+  p_settings calculation_settings, -- NULL uses the built-in defaults
+  p_include_contingency BOOLEAN DEFAULT TRUE,
+  OUT contingency NUMERIC,
+  OUT rehab_with_contingency NUMERIC,
+  OUT holding_costs NUMERIC,
+  OUT selling_costs NUMERIC,
+  OUT total_investment NUMERIC,
+  OUT gross_profit NUMERIC,
+  OUT roi NUMERIC,
+  OUT mao NUMERIC
+) AS $$
+DECLARE
+  -- Settings with built-in defaults (mirrors DEFAULT_CALCULATION_SETTINGS)
+  v_mao_method mao_method := COALESCE(p_settings.mao_method, 'seventy_rule');
+  v_mao_multiplier NUMERIC := COALESCE(p_settings.mao_arv_multiplier, 0.70);
+  v_mao_target_profit NUMERIC := COALESCE(p_settings.mao_target_profit, 30000);
+  v_mao_target_percent NUMERIC := COALESCE(p_settings.mao_target_profit_percent, 15);
+  v_roi_method roi_method := COALESCE(p_settings.roi_method, 'simple');
+  v_roi_annualize BOOLEAN := COALESCE(p_settings.roi_annualize, FALSE);
+  v_contingency_method contingency_method := COALESCE(p_settings.contingency_method, 'flat_percent');
+  v_contingency_percent NUMERIC := COALESCE(p_contingency_percent, p_settings.contingency_default_percent, 10);
+  v_category_rates JSONB := '{
+    "soft_costs": 5, "demo": 10, "structural": 15, "plumbing": 12, "hvac": 12,
+    "electrical": 12, "insulation_drywall": 10, "interior_paint": 8, "flooring": 8,
+    "tile": 10, "kitchen": 10, "bathrooms": 12, "doors_windows": 8, "interior_trim": 8,
+    "exterior": 12, "landscaping": 8, "finishing": 5, "contingency": 0
+  }'::jsonb || COALESCE(p_settings.contingency_category_rates, '{}'::jsonb);
+  v_tiers JSONB := CASE
+    WHEN jsonb_array_length(COALESCE(p_settings.contingency_tiers, '[]'::jsonb)) > 0
+      THEN p_settings.contingency_tiers
+    ELSE '[
+      {"max_budget": 25000, "percent": 15},
+      {"max_budget": 50000, "percent": 12},
+      {"max_budget": 100000, "percent": 10},
+      {"max_budget": null, "percent": 8}
+    ]'::jsonb
+  END;
+  v_holding_method holding_cost_method := COALESCE(p_settings.holding_cost_method, 'flat_monthly');
+  v_holding_base NUMERIC := COALESCE(p_holding_costs_monthly, p_settings.holding_cost_default_monthly, 1500);
+  v_loan_rate NUMERIC := COALESCE(p_settings.holding_cost_loan_rate_annual, 12);
+  v_items JSONB := '{
+    "taxes": 250, "insurance": 150, "utilities": 200, "loan_interest": 800,
+    "hoa": 0, "lawn_care": 100, "other": 0
+  }'::jsonb || COALESCE(p_settings.holding_cost_items, '{}'::jsonb);
+  v_selling_percent NUMERIC := COALESCE(
+    p_selling_cost_percent,
+    COALESCE(p_settings.selling_cost_agent_commission, 5)
+      + COALESCE(p_settings.selling_cost_buyer_concessions, 2)
+      + COALESCE(p_settings.selling_cost_closing_percent, 1)
+  );
+  v_selling_fixed NUMERIC := COALESCE(p_settings.selling_cost_fixed_amount, 0);
+
+  v_rate NUMERIC;
+  v_itemized_monthly NUMERIC;
+  v_periods_per_year NUMERIC;
+  v_period_return NUMERIC;
+  v_is_annual BOOLEAN;
+  v_mao_costs NUMERIC;
+BEGIN
+  -- Contingency
+  IF NOT p_include_contingency THEN
+    contingency := 0;
+  ELSIF v_contingency_method = 'category_weighted' AND p_category_budgets IS NOT NULL THEN
+    SELECT COALESCE(SUM(b.value::NUMERIC * COALESCE((v_category_rates->>b.key)::NUMERIC, 10) / 100), 0)
+    INTO contingency
+    FROM jsonb_each_text(p_category_budgets) b;
+  ELSIF v_contingency_method = 'tiered' THEN
+    SELECT (t->>'percent')::NUMERIC
+    INTO v_rate
+    FROM jsonb_array_elements(v_tiers) t
+    WHERE t->>'max_budget' IS NULL OR p_rehab_budget <= (t->>'max_budget')::NUMERIC
+    ORDER BY (t->>'max_budget')::NUMERIC ASC NULLS LAST
+    LIMIT 1;
+    contingency := p_rehab_budget * COALESCE(v_rate, 10) / 100;
+  ELSE
+    contingency := p_rehab_budget * v_contingency_percent / 100;
+  END IF;
+
+  rehab_with_contingency := p_rehab_budget + contingency;
+
+  -- Holding costs
+  v_itemized_monthly := (v_items->>'loan_interest')::NUMERIC
+    + (v_items->>'lawn_care')::NUMERIC
+    + (v_items->>'other')::NUMERIC
+    + CASE WHEN COALESCE(p_settings.holding_cost_include_taxes, TRUE) THEN (v_items->>'taxes')::NUMERIC ELSE 0 END
+    + CASE WHEN COALESCE(p_settings.holding_cost_include_insurance, TRUE) THEN (v_items->>'insurance')::NUMERIC ELSE 0 END
+    + CASE WHEN COALESCE(p_settings.holding_cost_include_utilities, TRUE) THEN (v_items->>'utilities')::NUMERIC ELSE 0 END
+    + CASE WHEN COALESCE(p_settings.holding_cost_include_hoa, FALSE) THEN (v_items->>'hoa')::NUMERIC ELSE 0 END;
+
+  holding_costs := CASE v_holding_method
+    WHEN 'itemized' THEN v_itemized_monthly * p_hold_months
+    WHEN 'percentage_of_loan' THEN p_purchase_price * v_loan_rate / 100 / 12 * p_hold_months
+    WHEN 'hybrid' THEN (v_holding_base + v_itemized_monthly) * p_hold_months
+    ELSE v_holding_base * p_hold_months
+  END;
+
+  -- Selling costs
+  selling_costs := p_arv * v_selling_percent / 100 + v_selling_fixed;
+
+  -- Investment and profit
+  total_investment := p_purchase_price + rehab_with_contingency + p_closing_costs + holding_costs;
+  gross_profit := p_arv - selling_costs - total_investment;
+
+  -- ROI (cash invested equals total investment until financing is modelled)
+  IF total_investment <= 0 THEN
+    roi := 0;
+  ELSE
+    v_period_return := gross_profit / total_investment;
+    v_periods_per_year := CASE WHEN p_hold_months > 0 THEN 12 / p_hold_months ELSE 1 END;
+
+    IF v_roi_method = 'annualized' THEN
+      roi := v_period_return * v_periods_per_year * 100;
+      v_is_annual := TRUE;
+    ELSIF v_roi_method = 'irr_simplified' THEN
+      roi := CASE
+        WHEN v_period_return <= -1 THEN -100
+        ELSE (POWER(1 + v_period_return, v_periods_per_year) - 1) * 100
+      END;
+      v_is_annual := TRUE;
+    ELSE
+      roi := v_period_return * 100;
+      v_is_annual := v_roi_annualize;
+      IF v_is_annual THEN
+        roi := roi * v_periods_per_year;
+      END IF;
+    END IF;
+
+    IF COALESCE(p_settings.roi_include_opportunity_cost, FALSE) THEN
+      roi := roi - CASE
+        WHEN v_is_annual THEN COALESCE(p_settings.roi_opportunity_rate, 5)
+        ELSE COALESCE(p_settings.roi_opportunity_rate, 5) / v_periods_per_year
+      END;
+    END IF;
+  END IF;
+
+  -- MAO
+  v_mao_costs := rehab_with_contingency
+    + CASE WHEN COALESCE(p_settings.mao_include_holding_costs, TRUE) THEN holding_costs ELSE 0 END
+    + CASE WHEN COALESCE(p_settings.mao_include_selling_costs, TRUE) THEN selling_costs ELSE 0 END
+    + CASE WHEN COALESCE(p_settings.mao_include_closing_costs, TRUE) THEN p_closing_costs ELSE 0 END;
+
+  mao := CASE v_mao_method
+    WHEN 'seventy_rule' THEN p_arv * v_mao_multiplier - v_mao_costs
+    WHEN 'custom_percentage' THEN p_arv * v_mao_multiplier - v_mao_costs
+    WHEN 'arv_minus_all' THEN p_arv - v_mao_costs - v_mao_target_profit
+    WHEN 'net_profit_target' THEN p_arv - v_mao_costs - v_mao_target_profit
+    WHEN 'gross_margin' THEN p_arv * (1 - v_mao_target_percent / 100) - v_mao_costs
+    ELSE p_arv * 0.70 - v_mao_costs
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION analyze_deal IS 'Deal analysis engine. Mirrors analyzeDeal() in src/lib/deal-analysis.ts';
+
+-- Superseded by analyze_deal()
+DROP FUNCTION IF EXISTS calculate_mao_with_settings(NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC, calculation_settings);
+DROP FUNCTION IF EXISTS calculate_weighted_contingency(UUID, JSONB);
+
+-- ============================================================================
+-- 2. PROJECT SUMMARY
+-- ============================================================================
+
+DROP VIEW IF EXISTS project_summary CASCADE;
+
+CREATE VIEW project_summary
+WITH (security_invoker = true)
+AS
+WITH budget AS (
+  SELECT
+    project_id,
+    COALESCE(SUM(underwriting_amount), 0) AS underwriting_total,
+    COALESCE(SUM(forecast_amount), 0) AS forecast_total,
+    COALESCE(SUM(actual_amount), 0) AS actual_total,
+    COUNT(*) AS total_items,
+    COUNT(*) FILTER (WHERE status = 'complete') AS completed_items,
+    COUNT(*) FILTER (WHERE status = 'in_progress') AS in_progress_items
+  FROM budget_items
+  GROUP BY project_id
+),
+category_budget AS (
+  SELECT
+    project_id,
+    jsonb_object_agg(category, underwriting) AS underwriting_by_category,
+    jsonb_object_agg(category, forecast) AS forecast_by_category
+  FROM (
+    SELECT
+      project_id,
+      category,
+      COALESCE(SUM(underwriting_amount), 0) AS underwriting,
+      COALESCE(SUM(forecast_amount), 0) AS forecast
+    FROM budget_items
+    GROUP BY project_id, category
+  ) c
+  GROUP BY project_id
+),
+settings AS (
+  -- Assigned profile first, then the owner's default
+  SELECT DISTINCT ON (p.id)
+    p.id AS project_id,
+    cs AS settings
+  FROM projects p
+  JOIN calculation_settings cs
+    ON cs.id = p.calculation_settings_id
+    OR (cs.user_id = p.user_id AND cs.is_default)
+  ORDER BY p.id, (cs.id = p.calculation_settings_id) DESC NULLS LAST
+)
+SELECT
+  p.*,
+
+  -- Three-Column Budget Rollups
+  COALESCE(b.underwriting_total, 0) AS underwriting_total,
+  COALESCE(b.forecast_total, 0) AS forecast_total,
+  COALESCE(b.actual_total, 0) AS actual_total,
+
+  -- Primary budget (forecast if set, otherwise underwriting)
+  x.primary_budget AS rehab_budget,
+  COALESCE(b.actual_total, 0) AS rehab_actual,
+  pa.contingency AS contingency_amount,
+  pa.rehab_with_contingency AS rehab_budget_with_contingency,
+
+  -- Calculated Costs (profile-driven)
+  pa.selling_costs,
+  pa.holding_costs AS holding_costs_total,
+  pa.total_investment,
+  pa.gross_profit,
+  pa.roi,
+
+  -- MAO is judged on the pre-deal underwriting budget
+  ua.mao,
+
+  -- Item Counts
+  COALESCE(b.total_items, 0) AS total_items,
+  COALESCE(b.completed_items, 0) AS completed_items,
+  COALESCE(b.in_progress_items, 0) AS in_progress_items
+
+FROM projects p
+LEFT JOIN budget b ON b.project_id = p.id
+LEFT JOIN category_budget cb ON cb.project_id = p.id
+LEFT JOIN settings s ON s.project_id = p.id
+CROSS JOIN LATERAL (
+  SELECT
+    CASE WHEN COALESCE(b.forecast_total, 0) > 0 THEN b.forecast_total ELSE COALESCE(b.underwriting_total, 0) END AS primary_budget,
+    CASE WHEN COALESCE(b.forecast_total, 0) > 0 THEN cb.forecast_by_category ELSE cb.underwriting_by_category END AS primary_by_category,
+    COALESCE(NULLIF(p.hold_months, 0), 4) AS hold_months
+) x
+CROSS JOIN LATERAL analyze_deal(
+  COALESCE(p.arv, 0), COALESCE(p.purchase_price, 0), x.primary_budget, COALESCE(p.closing_costs, 0),
+  x.hold_months, x.primary_by_category,
+  p.contingency_percent, p.holding_costs_monthly, p.selling_cost_percent, s.settings
+) pa
+CROSS JOIN LATERAL analyze_deal(
+  COALESCE(p.arv, 0), COALESCE(p.purchase_price, 0), COALESCE(b.underwriting_total, 0), COALESCE(p.closing_costs, 0),
+  x.hold_months, cb.underwriting_by_category,
+  p.contingency_percent, p.holding_costs_monthly, p.selling_cost_percent, s.settings
+) ua;
+
+COMMENT ON VIEW project_summary IS 'Project data with budget totals and profile-driven deal analysis (analyze_deal). Uses SECURITY INVOKER to respect RLS.';
+
+-- ============================================================================
+-- 3. DEPENDENT VIEWS (dropped by the CASCADE above)
+-- ============================================================================
+
+CREATE OR REPLACE VIEW portfolio_summary AS
+SELECT
+  user_id,
+  COUNT(*)::integer as total_projects,
+  COUNT(*) FILTER (WHERE status NOT IN ('sold', 'dead'))::integer as active_projects,
+  COUNT(*) FILTER (WHERE status = 'lead')::integer as lead_count,
+  COUNT(*) FILTER (WHERE status = 'analyzing')::integer as analyzing_count,
+  COUNT(*) FILTER (WHERE status = 'under_contract')::integer as under_contract_count,
+  COUNT(*) FILTER (WHERE status = 'in_rehab')::integer as in_rehab_count,
+  COUNT(*) FILTER (WHERE status = 'listed')::integer as listed_count,
+  COUNT(*) FILTER (WHERE status = 'sold')::integer as sold_count,
+
+  -- Financial aggregates
+  COALESCE(SUM(arv) FILTER (WHERE status NOT IN ('sold', 'dead')), 0)::numeric as total_arv,
+  COALESCE(SUM(total_investment) FILTER (WHERE status NOT IN ('sold', 'dead')), 0)::numeric as capital_deployed,
+  COALESCE(SUM(gross_profit) FILTER (WHERE status = 'sold'), 0)::numeric as total_profit,
+  COALESCE(AVG(roi) FILTER (WHERE status = 'sold'), 0)::numeric as avg_roi,
+
+  -- Budget aggregates
+  COALESCE(SUM(rehab_budget), 0)::numeric as total_budget,
+  COALESCE(SUM(rehab_actual), 0)::numeric as total_actual,
+
+  -- Risk indicators
+  COUNT(*) FILTER (WHERE rehab_actual > rehab_budget AND status = 'in_rehab')::integer as over_budget_count,
+  COUNT(*) FILTER (WHERE target_complete_date < NOW() AND status = 'in_rehab')::integer as behind_schedule_count
+FROM project_summary
+GROUP BY user_id;
+
+COMMENT ON VIEW portfolio_summary IS 'Aggregated portfolio metrics across all user projects';
+
+CREATE OR REPLACE VIEW projects_with_risks AS
+SELECT
+  ps.*,
+  CASE WHEN rehab_actual > rehab_budget AND status = 'in_rehab' THEN true ELSE false END as is_over_budget,
+  CASE WHEN target_complete_date < NOW() AND status = 'in_rehab' THEN true ELSE false END as is_behind_schedule,
+  CASE WHEN total_investment > 0 AND roi < 10 THEN true ELSE false END as is_low_roi,
+  COALESCE(rehab_actual - rehab_budget, 0)::numeric as budget_variance,
+  CASE
+    WHEN target_complete_date IS NOT NULL AND status = 'in_rehab'
+    THEN GREATEST(0, EXTRACT(DAY FROM NOW() - target_complete_date)::integer)
+    ELSE 0
+  END as days_overdue,
+  CASE
+    WHEN contingency_amount > 0
+    THEN LEAST(100, GREATEST(0, ((rehab_actual - rehab_budget) / contingency_amount * 100)))::numeric
+    ELSE 0
+  END as contingency_used_percent
+FROM project_summary ps;
+
+COMMENT ON VIEW projects_with_risks IS 'Projects with computed risk indicators for alerts';
@@ -0,0 +1,307 @@
+-- ============================================================================
+-- VENDOR DRAW REQUEST PORTAL
+-- Per-vendor, per-project invite tokens for /draw-request/[token].
+--
+-- Only the SHA-256 hash of a token is stored. The raw token lives in the
+-- link handed to the vendor, so a leaked table row cannot be replayed.
+-- Vendors are anonymous: everything they can do goes through the
+-- SECURITY DEFINER functions below, which re-validate the token each call.
+-- Revoking a token sets revoked_at; the row is kept as the revocation list.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. DRAW_REQUEST_TOKENS TABLE
+-- ============================================================================
+
+CREATE TABLE draw_request_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  vendor_id UUID REFERENCES vendors(id) ON DELETE CASCADE NOT NULL,
+
+  -- Token
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+
+  -- Meta
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_draw_request_tokens_project ON draw_request_tokens(project_id);
+CREATE INDEX idx_draw_request_tokens_vendor ON draw_request_tokens(vendor_id);
+
+COMMENT ON COLUMN draw_request_tokens.token_hash IS 'Hex SHA-256 of the raw token in the vendor link';
+COMMENT ON COLUMN draw_request_tokens.revoked_at IS 'Set when the owner revokes the link; revoked rows form the revocation list';
+
+ALTER TABLE draw_request_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "draw_request_tokens_select_policy" ON draw_request_tokens
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = draw_request_tokens.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "draw_request_tokens_insert_policy" ON draw_request_tokens
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = draw_request_tokens.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+    AND EXISTS (
+      SELECT 1 FROM vendors v
+      WHERE v.id = draw_request_tokens.vendor_id
+      AND (auth.uid() = v.user_id OR v.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "draw_request_tokens_update_policy" ON draw_request_tokens
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = draw_request_tokens.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+-- ============================================================================
+-- 2. DRAW_ATTACHMENTS TABLE
+-- ============================================================================
+
+CREATE TABLE draw_attachments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  draw_id UUID REFERENCES draws(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  token_id UUID REFERENCES draw_request_tokens(id) ON DELETE SET NULL,
+
+  -- File Storage
+  storage_path TEXT NOT NULL,
+  file_name TEXT,
+  file_size INTEGER,
+  content_type TEXT,
+
+  -- Classification
+  attachment_type TEXT DEFAULT 'other' CHECK (attachment_type IN ('invoice', 'lien_waiver', 'other')),
+
+  -- Meta
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_draw_attachments_draw ON draw_attachments(draw_id);
+CREATE INDEX idx_draw_attachments_project ON draw_attachments(project_id);
+
+ALTER TABLE draw_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "draw_attachments_select_policy" ON draw_attachments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = draw_attachments.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "draw_attachments_insert_policy" ON draw_attachments
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = draw_attachments.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "draw_attachments_delete_policy" ON draw_attachments
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = draw_attachments.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+-- ============================================================================
+-- 3. TOKEN VALIDATION
+-- ============================================================================
+
+-- Returns the token row when it exists, is not revoked and has not expired
+CREATE OR REPLACE FUNCTION find_active_draw_request_token(p_token_hash TEXT)
+RETURNS draw_request_tokens
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM draw_request_tokens
+  WHERE token_hash = p_token_hash
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+$$;
+
+-- What the vendor portal is allowed to show for a valid link
+CREATE OR REPLACE FUNCTION get_draw_request_invite(p_token_hash TEXT)
+RETURNS TABLE (
+  project_address TEXT,
+  project_city TEXT,
+  project_state TEXT,
+  vendor_name TEXT,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.address, p.city, p.state, v.name, t.expires_at
+  FROM find_active_draw_request_token(p_token_hash) t
+  JOIN projects p ON p.id = t.project_id
+  JOIN vendors v ON v.id = t.vendor_id
+  WHERE t.id IS NOT NULL
+$$;
+
+-- ============================================================================
+-- 4. VENDOR SUBMISSION
+-- Inserts a pending draw for the token's vendor and records any attachments
+-- the server action already uploaded under <token_hash>/ in storage.
+-- p_attachments: [{ storage_path, file_name, file_size, content_type, attachment_type }]
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_vendor_draw_request(
+  p_token_hash TEXT,
+  p_amount NUMERIC,
+  p_milestone draw_milestone DEFAULT NULL,
+  p_percent_complete INTEGER DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_attachments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token draw_request_tokens;
+  v_draw_id UUID;
+  v_draw_number INTEGER;
+  v_attachment JSONB;
+BEGIN
+  v_token := find_active_draw_request_token(p_token_hash);
+  IF v_token.id IS NULL THEN
+    RAISE EXCEPTION 'Draw request link is invalid, expired or revoked'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Serialize draw numbering per project
+  PERFORM 1 FROM projects WHERE id = v_token.project_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(draw_number), 0) + 1 INTO v_draw_number
+  FROM draws
+  WHERE project_id = v_token.project_id;
+
+  INSERT INTO draws (
+    project_id, vendor_id, draw_number, milestone, description,
+    percent_complete, amount, date_requested, status
+  ) VALUES (
+    v_token.project_id, v_token.vendor_id, v_draw_number, p_milestone, NULLIF(TRIM(p_description), ''),
+    p_percent_complete, p_amount, CURRENT_DATE, 'pending'
+  )
+  RETURNING id INTO v_draw_id;
+
+  FOR v_attachment IN SELECT * FROM jsonb_array_elements(COALESCE(p_attachments, '[]'::jsonb))
+  LOOP
+    -- Only accept files stored under this token's folder
+    IF (v_attachment->>'storage_path') NOT LIKE p_token_hash || '/%' THEN
+      RAISE EXCEPTION 'Invalid attachment path' USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO draw_attachments (
+      draw_id, project_id, token_id, storage_path, file_name, file_size, content_type, attachment_type
+    ) VALUES (
+      v_draw_id,
+      v_token.project_id,
+      v_token.id,
+      v_attachment->>'storage_path',
+      v_attachment->>'file_name',
+      (v_attachment->>'file_size')::INTEGER,
+      v_attachment->>'content_type',
+      COALESCE(v_attachment->>'attachment_type', 'other')
+    );
+  END LOOP;
+
+  UPDATE draw_request_tokens SET last_used_at = NOW() WHERE id = v_token.id;
+
+  RETURN v_draw_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION find_active_draw_request_token(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_draw_request_invite(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_vendor_draw_request(TEXT, NUMERIC, draw_milestone, INTEGER, TEXT, JSONB) TO anon, authenticated;
+
+-- ============================================================================
+-- 5. ATTACHMENT STORAGE
+-- Private bucket. Uploads are only accepted into the folder named after an
+-- active token hash; owners read files attached to draws on their projects.
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'draw-attachments',
+  'draw-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION draw_request_token_is_active(p_token_hash TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (find_active_draw_request_token(p_token_hash)).id IS NOT NULL
+$$;
+
+GRANT EXECUTE ON FUNCTION draw_request_token_is_active(TEXT) TO anon, authenticated;
+
+CREATE POLICY "draw_attachments_storage_insert" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'draw-attachments'
+    AND draw_request_token_is_active((storage.foldername(name))[1])
+  );
+
+CREATE POLICY "draw_attachments_storage_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'draw-attachments'
+    AND EXISTS (
+      SELECT 1 FROM draw_attachments a
+      WHERE a.storage_path = storage.objects.name
+    )
+  );
+
+CREATE POLICY "draw_attachments_storage_delete" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'draw-attachments'
+    AND EXISTS (
+      SELECT 1 FROM draw_attachments a
+      WHERE a.storage_path = storage.objects.name
+    )
+  );
+
+-- ============================================================================
+-- 6. REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE draw_request_tokens;
+ALTER PUBLICATION supabase_realtime ADD TABLE draw_attachments;
@@ -0,0 +1,80 @@
+-- ============================================================================
+-- DRAW ALLOCATIONS
+-- Ties each draw to the budget line items it pays for, so a draw packet can
+-- show a schedule of values (budgeted / previously drawn / this draw /
+-- % complete) and the photos for the line items covered.
+-- ============================================================================
+
+CREATE TABLE draw_allocations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  draw_id UUID REFERENCES draws(id) ON DELETE CASCADE NOT NULL,
+  budget_item_id UUID REFERENCES budget_items(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  notes TEXT,
+
+  -- Meta
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (draw_id, budget_item_id)
+);
+
+CREATE INDEX idx_draw_allocations_draw ON draw_allocations(draw_id);
+CREATE INDEX idx_draw_allocations_budget_item ON draw_allocations(budget_item_id);
+CREATE INDEX idx_draw_allocations_project ON draw_allocations(project_id);
+
+COMMENT ON TABLE draw_allocations IS 'Portion of a draw paid against a specific budget line item';
+
+CREATE TRIGGER draw_allocations_updated_at
+  BEFORE UPDATE ON draw_allocations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- RLS (via project ownership)
+-- ============================================================================
+
+ALTER TABLE draw_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "draw_allocations_select_policy" ON draw_allocations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = draw_allocations.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "draw_allocations_insert_policy" ON draw_allocations
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = draw_allocations.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "draw_allocations_update_policy" ON draw_allocations
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = draw_allocations.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "draw_allocations_delete_policy" ON draw_allocations
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = draw_allocations.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE draw_allocations;
@@ -0,0 +1,121 @@
+-- ============================================================================
+-- DRAW RETAINAGE & ACTUALS ROLL-UP
+-- Each draw allocation now names the vendor it pays and the retainage held
+-- back from that vendor. Retainage is released on the vendor's final draw.
+-- Paid allocations drive budget_items.actual_amount, so category variance in
+-- the budget follows the money that has actually gone out.
+-- ============================================================================
+
+-- Default retainage withheld from a vendor's draws (e.g. 10%)
+ALTER TABLE vendors
+  ADD COLUMN retainage_percent DECIMAL(5,2) NOT NULL DEFAULT 0
+    CHECK (retainage_percent >= 0 AND retainage_percent <= 100);
+
+COMMENT ON COLUMN vendors.retainage_percent IS 'Default % of each draw held back until the vendor''s final draw';
+
+-- Vendor and retainage per allocation (percent is snapshotted from the vendor)
+ALTER TABLE draw_allocations
+  ADD COLUMN vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL,
+  ADD COLUMN retainage_percent DECIMAL(5,2) NOT NULL DEFAULT 0
+    CHECK (retainage_percent >= 0 AND retainage_percent <= 100),
+  ADD COLUMN retainage_amount DECIMAL(12,2)
+    GENERATED ALWAYS AS (ROUND(amount * retainage_percent / 100, 2)) STORED;
+
+CREATE INDEX idx_draw_allocations_vendor ON draw_allocations(vendor_id);
+
+COMMENT ON COLUMN draw_allocations.vendor_id IS 'Vendor paid for this line on this draw';
+COMMENT ON COLUMN draw_allocations.retainage_percent IS '% of the allocation held back until the vendor''s final draw';
+COMMENT ON COLUMN draw_allocations.retainage_amount IS 'Amount held back from this allocation';
+
+-- ============================================================================
+-- ACTUALS ROLL-UP
+-- A line with paid draw allocations takes its actual from them (gross of
+-- retainage, since the cost is incurred). Allocations on draws that are not
+-- yet paid leave the line alone. Any actual entered by hand is set aside while
+-- paid draws drive the line and restored once none do.
+-- ============================================================================
+
+ALTER TABLE budget_items
+  ADD COLUMN actual_from_draws BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN manual_actual_amount DECIMAL(12,2);
+
+COMMENT ON COLUMN budget_items.actual_from_draws IS 'actual_amount is rolled up from paid draw allocations';
+COMMENT ON COLUMN budget_items.manual_actual_amount IS 'Hand-entered actual kept while paid draws drive actual_amount';
+
+CREATE OR REPLACE FUNCTION recalculate_budget_item_actuals(p_budget_item_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE budget_items bi
+  SET manual_actual_amount = CASE WHEN bi.actual_from_draws THEN bi.manual_actual_amount ELSE bi.actual_amount END,
+      actual_amount = paid.total,
+      actual_from_draws = TRUE
+  FROM (
+    SELECT a.budget_item_id, SUM(a.amount) AS total
+    FROM draw_allocations a
+    JOIN draws d ON d.id = a.draw_id
+    WHERE d.status = 'paid'
+      AND a.budget_item_id = ANY(p_budget_item_ids)
+    GROUP BY a.budget_item_id
+  ) paid
+  WHERE bi.id = paid.budget_item_id;
+
+  UPDATE budget_items bi
+  SET actual_amount = bi.manual_actual_amount,
+      manual_actual_amount = NULL,
+      actual_from_draws = FALSE
+  WHERE bi.id = ANY(p_budget_item_ids)
+    AND bi.actual_from_draws
+    AND NOT EXISTS (
+      SELECT 1
+      FROM draw_allocations a
+      JOIN draws d ON d.id = a.draw_id
+      WHERE a.budget_item_id = bi.id AND d.status = 'paid'
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION draw_allocations_rollup_actuals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM recalculate_budget_item_actuals(ARRAY[OLD.budget_item_id]);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.budget_item_id IS DISTINCT FROM NEW.budget_item_id THEN
+    PERFORM recalculate_budget_item_actuals(ARRAY[OLD.budget_item_id, NEW.budget_item_id]);
+  ELSE
+    PERFORM recalculate_budget_item_actuals(ARRAY[NEW.budget_item_id]);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER draw_allocations_rollup
+  AFTER INSERT OR UPDATE OF amount, budget_item_id OR DELETE ON draw_allocations
+  FOR EACH ROW EXECUTE FUNCTION draw_allocations_rollup_actuals();
+
+CREATE OR REPLACE FUNCTION draws_rollup_actuals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM recalculate_budget_item_actuals(
+    ARRAY(SELECT budget_item_id FROM draw_allocations WHERE draw_id = NEW.id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER draws_rollup
+  AFTER UPDATE OF status ON draws
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION draws_rollup_actuals();
+
+-- Bring existing allocated lines in line with their paid draws
+SELECT recalculate_budget_item_actuals(ARRAY(SELECT DISTINCT budget_item_id FROM draw_allocations));
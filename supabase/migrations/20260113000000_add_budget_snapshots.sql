@@ -0,0 +1,150 @@
+-- ============================================================================
+-- BUDGET SNAPSHOTS
+-- Named, frozen copies of a project's whole budget ("Offer",
+-- "Post-inspection", "GC bid v2"): every budget_items row plus the project
+-- financials the deal analysis reads, so any two versions can be diffed and
+-- their MAO/ROI compared.
+-- ============================================================================
+
+CREATE TABLE budget_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  name TEXT NOT NULL CHECK (char_length(trim(name)) > 0),
+  notes TEXT,
+
+  -- Frozen data
+  project_financials JSONB NOT NULL,
+  budget_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Totals for listing without unpacking the items
+  underwriting_total DECIMAL(12,2) NOT NULL DEFAULT 0,
+  forecast_total DECIMAL(12,2) NOT NULL DEFAULT 0,
+  actual_total DECIMAL(12,2) NOT NULL DEFAULT 0,
+  item_count INTEGER NOT NULL DEFAULT 0,
+
+  -- Meta
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_budget_snapshots_project ON budget_snapshots(project_id, created_at DESC);
+
+COMMENT ON TABLE budget_snapshots IS 'Named point-in-time copies of a project budget and its financials';
+COMMENT ON COLUMN budget_snapshots.project_financials IS 'arv, purchase_price, closing_costs, holding_costs_monthly, hold_months, selling_cost_percent, contingency_percent at snapshot time';
+COMMENT ON COLUMN budget_snapshots.budget_items IS 'Array of budget_items rows at snapshot time';
+
+-- ============================================================================
+-- CREATE SNAPSHOT
+-- Copies the budget in one statement so the snapshot is consistent. Runs as
+-- the caller, so RLS on projects/budget_items/budget_snapshots applies.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_budget_snapshot(
+  p_project_id UUID,
+  p_name TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS budget_snapshots
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_snapshot budget_snapshots;
+BEGIN
+  INSERT INTO budget_snapshots (
+    project_id, name, notes, project_financials, budget_items,
+    underwriting_total, forecast_total, actual_total, item_count
+  )
+  SELECT
+    p.id,
+    trim(p_name),
+    NULLIF(trim(p_notes), ''),
+    jsonb_build_object(
+      'arv', p.arv,
+      'purchase_price', p.purchase_price,
+      'closing_costs', p.closing_costs,
+      'holding_costs_monthly', p.holding_costs_monthly,
+      'hold_months', p.hold_months,
+      'selling_cost_percent', p.selling_cost_percent,
+      'contingency_percent', p.contingency_percent
+    ),
+    COALESCE(items.rows, '[]'::jsonb),
+    COALESCE(items.underwriting_total, 0),
+    COALESCE(items.forecast_total, 0),
+    COALESCE(items.actual_total, 0),
+    COALESCE(items.item_count, 0)
+  FROM projects p
+  LEFT JOIN LATERAL (
+    SELECT
+      jsonb_agg(to_jsonb(bi) ORDER BY bi.category, bi.sort_order) AS rows,
+      SUM(bi.underwriting_amount) AS underwriting_total,
+      SUM(bi.forecast_amount) AS forecast_total,
+      SUM(bi.actual_amount) AS actual_total,
+      COUNT(*)::INTEGER AS item_count
+    FROM budget_items bi
+    WHERE bi.project_id = p.id
+  ) items ON TRUE
+  WHERE p.id = p_project_id
+  RETURNING * INTO v_snapshot;
+
+  IF v_snapshot.id IS NULL THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  RETURN v_snapshot;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_budget_snapshot(UUID, TEXT, TEXT) TO authenticated;
+
+-- ============================================================================
+-- RLS (via project ownership)
+-- Snapshots are immutable apart from their name and notes.
+-- ============================================================================
+
+ALTER TABLE budget_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "budget_snapshots_select_policy" ON budget_snapshots
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = budget_snapshots.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "budget_snapshots_insert_policy" ON budget_snapshots
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = budget_snapshots.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "budget_snapshots_update_policy" ON budget_snapshots
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = budget_snapshots.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "budget_snapshots_delete_policy" ON budget_snapshots
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = budget_snapshots.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+REVOKE UPDATE ON budget_snapshots FROM authenticated;
+GRANT UPDATE (name, notes) ON budget_snapshots TO authenticated;
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE budget_snapshots;
@@ -0,0 +1,136 @@
+-- ============================================================================
+-- USER BUDGET TEMPLATES
+-- Save any project's budget as a reusable scope ("Cosmetic 1960s rambler",
+-- "Duplex full gut") that keeps quantities, units, rates, cost types and
+-- vendor assignments. New projects can start from one instead of the
+-- zero-dollar budget_category_templates; lines priced per SF scale from the
+-- template's sqft to the new property's.
+-- ============================================================================
+
+CREATE TABLE budget_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+
+  name TEXT NOT NULL CHECK (char_length(trim(name)) > 0),
+  description TEXT,
+
+  -- Where it came from, and the square footage its SF quantities were measured on
+  source_project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  sqft INTEGER CHECK (sqft IS NULL OR sqft > 0),
+
+  -- Meta
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE budget_template_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id UUID REFERENCES budget_templates(id) ON DELETE CASCADE NOT NULL,
+  vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL,
+
+  category budget_category NOT NULL,
+  item TEXT NOT NULL,
+  description TEXT,
+  room_area TEXT,
+
+  qty DECIMAL(10,2) NOT NULL DEFAULT 1,
+  unit unit_type NOT NULL DEFAULT 'ls',
+  rate DECIMAL(10,2) NOT NULL DEFAULT 0,
+  -- Budgeted amount on the source project (used when the line has no rate)
+  amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+  cost_type cost_type NOT NULL DEFAULT 'both',
+  priority TEXT CHECK (priority IN ('high', 'medium', 'low')) DEFAULT 'medium',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_budget_templates_user_id ON budget_templates(user_id);
+CREATE INDEX idx_budget_template_items_template ON budget_template_items(template_id);
+
+COMMENT ON TABLE budget_templates IS 'User-owned budget scopes saved from a project';
+COMMENT ON COLUMN budget_templates.sqft IS 'Square footage the template''s SF quantities were measured on';
+COMMENT ON COLUMN budget_template_items.amount IS 'Budgeted amount on the source project: forecast once set, otherwise underwriting';
+
+CREATE TRIGGER budget_templates_updated_at
+  BEFORE UPDATE ON budget_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- SAVE PROJECT AS TEMPLATE
+-- Copies the project's budget lines in one transaction. Runs as the caller,
+-- so RLS limits it to projects the user can see.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION save_project_as_budget_template(
+  p_project_id UUID,
+  p_name TEXT,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS budget_templates
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_template budget_templates;
+BEGIN
+  INSERT INTO budget_templates (name, description, source_project_id, sqft)
+  SELECT trim(p_name), NULLIF(trim(p_description), ''), p.id, NULLIF(p.sqft, 0)
+  FROM projects p
+  WHERE p.id = p_project_id
+  RETURNING * INTO v_template;
+
+  IF v_template.id IS NULL THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  INSERT INTO budget_template_items (
+    template_id, vendor_id, category, item, description, room_area,
+    qty, unit, rate, amount, cost_type, priority, sort_order
+  )
+  SELECT
+    v_template.id, bi.vendor_id, bi.category, bi.item, bi.description, bi.room_area,
+    bi.qty, bi.unit, bi.rate,
+    CASE WHEN COALESCE(bi.forecast_amount, 0) > 0 THEN bi.forecast_amount ELSE COALESCE(bi.underwriting_amount, 0) END,
+    bi.cost_type, bi.priority, bi.sort_order
+  FROM budget_items bi
+  WHERE bi.project_id = p_project_id;
+
+  RETURN v_template;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_project_as_budget_template(UUID, TEXT, TEXT) TO authenticated;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE budget_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE budget_template_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own budget templates" ON budget_templates
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own budget templates" ON budget_templates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own budget templates" ON budget_templates
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own budget templates" ON budget_templates
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own budget template items" ON budget_template_items
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM budget_templates t WHERE t.id = budget_template_items.template_id AND t.user_id = auth.uid())
+  );
+CREATE POLICY "Users can insert own budget template items" ON budget_template_items
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM budget_templates t WHERE t.id = budget_template_items.template_id AND t.user_id = auth.uid())
+  );
+CREATE POLICY "Users can update own budget template items" ON budget_template_items
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM budget_templates t WHERE t.id = budget_template_items.template_id AND t.user_id = auth.uid())
+  );
+CREATE POLICY "Users can delete own budget template items" ON budget_template_items
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM budget_templates t WHERE t.id = budget_template_items.template_id AND t.user_id = auth.uid())
+  );
@@ -0,0 +1,143 @@
+-- ============================================================================
+-- ATOMIC PROJECT CREATION
+-- create_project_with_budget() replaces the three client calls that used to
+-- insert the project, fetch templates and insert budget items. Everything
+-- happens in one transaction, so a failure never leaves a project without a
+-- budget. It also attaches the user's default calculation settings profile.
+--
+-- Errors the app shows to the user are raised with ERRCODE P0001 and a
+-- machine-readable HINT (see src/lib/project-creation.ts):
+--   invalid_project            - required project fields are missing
+--   budget_template_not_found  - the template is not visible to the caller
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_project_with_budget(
+  p_project JSONB,
+  p_budget_template_id UUID DEFAULT NULL
+)
+RETURNS projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_input projects;
+  v_project projects;
+  v_template budget_templates;
+  v_settings_id UUID;
+  v_scale NUMERIC := 1;
+BEGIN
+  v_input := jsonb_populate_record(NULL::projects, p_project);
+
+  IF COALESCE(trim(v_input.address), '') = '' AND COALESCE(trim(v_input.name), '') = '' THEN
+    RAISE EXCEPTION 'A project needs a name or an address'
+      USING ERRCODE = 'P0001', HINT = 'invalid_project';
+  END IF;
+
+  -- Check the template before creating anything
+  IF p_budget_template_id IS NOT NULL THEN
+    SELECT * INTO v_template FROM budget_templates WHERE id = p_budget_template_id;
+
+    IF v_template.id IS NULL THEN
+      RAISE EXCEPTION 'Budget template not found'
+        USING ERRCODE = 'P0001', HINT = 'budget_template_not_found';
+    END IF;
+  END IF;
+
+  -- Explicit profile wins, otherwise the caller's default
+  v_settings_id := v_input.calculation_settings_id;
+  IF v_settings_id IS NULL AND auth.uid() IS NOT NULL THEN
+    SELECT cs.id INTO v_settings_id
+    FROM calculation_settings cs
+    WHERE cs.user_id = auth.uid() AND cs.is_default
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO projects (
+    user_id, name, address, city, state, zip, beds, baths, sqft, year_built, property_type,
+    arv, purchase_price, closing_costs, holding_costs_monthly, hold_months,
+    selling_cost_percent, contingency_percent,
+    status, contract_date, close_date, rehab_start_date, target_complete_date, list_date, sale_date,
+    notes, calculation_settings_id
+  )
+  VALUES (
+    auth.uid(),
+    COALESCE(NULLIF(trim(v_input.name), ''), trim(v_input.address)),
+    v_input.address,
+    v_input.city,
+    COALESCE(v_input.state, 'MN'),
+    v_input.zip,
+    v_input.beds,
+    v_input.baths,
+    v_input.sqft,
+    v_input.year_built,
+    COALESCE(v_input.property_type, 'sfh'),
+    v_input.arv,
+    v_input.purchase_price,
+    COALESCE(v_input.closing_costs, 0),
+    COALESCE(v_input.holding_costs_monthly, 0),
+    COALESCE(v_input.hold_months, 4),
+    COALESCE(v_input.selling_cost_percent, 8.00),
+    COALESCE(v_input.contingency_percent, 10.00),
+    COALESCE(v_input.status, 'lead'),
+    v_input.contract_date,
+    v_input.close_date,
+    v_input.rehab_start_date,
+    v_input.target_complete_date,
+    v_input.list_date,
+    v_input.sale_date,
+    v_input.notes,
+    v_settings_id
+  )
+  RETURNING * INTO v_project;
+
+  IF v_template.id IS NOT NULL THEN
+    -- Keep the template's quantities, rates, cost types and vendors. Per-SF
+    -- quantities scale by the new property's sqft over the template's; a lump
+    -- line without a rate keeps its amount (scaled too when its unit is SF).
+    IF COALESCE(v_template.sqft, 0) > 0 AND COALESCE(v_project.sqft, 0) > 0 THEN
+      v_scale := v_project.sqft::NUMERIC / v_template.sqft;
+    END IF;
+
+    INSERT INTO budget_items (
+      project_id, vendor_id, category, item, description, room_area,
+      qty, unit, rate, underwriting_amount, forecast_amount,
+      cost_type, status, priority, sort_order
+    )
+    SELECT
+      v_project.id, ti.vendor_id, ti.category, ti.item, ti.description, ti.room_area,
+      s.qty, ti.unit, ti.rate,
+      CASE
+        WHEN ti.rate > 0 THEN ROUND(s.qty * ti.rate, 2)
+        WHEN ti.unit = 'sf' THEN ROUND(ti.amount * v_scale, 2)
+        ELSE ti.amount
+      END,
+      0,
+      ti.cost_type, 'not_started', COALESCE(ti.priority, 'medium'), ti.sort_order
+    FROM budget_template_items ti
+    CROSS JOIN LATERAL (
+      SELECT CASE WHEN ti.unit = 'sf' THEN ROUND(ti.qty * v_scale, 2) ELSE ti.qty END AS qty
+    ) s
+    WHERE ti.template_id = v_template.id
+    ORDER BY ti.sort_order;
+  ELSE
+    -- Zero-dollar lines named by the global category templates
+    INSERT INTO budget_items (
+      project_id, category, item, qty, unit, rate,
+      underwriting_amount, forecast_amount, cost_type, status, priority, sort_order
+    )
+    SELECT
+      v_project.id, t.category, li.item, 1, 'ea', 0,
+      0, 0, 'both', 'not_started', 'medium', t.sort_order * 1000 + (li.ordinality - 1)
+    FROM budget_category_templates t
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(t.default_line_items, '[]'::jsonb))
+      WITH ORDINALITY AS li(item, ordinality)
+    WHERE t.is_active
+    ORDER BY t.sort_order, li.ordinality;
+  END IF;
+
+  RETURN v_project;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_project_with_budget(JSONB, UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION create_project_with_budget IS 'Create a project with its seeded budget and default calculation profile in one transaction';
@@ -0,0 +1,57 @@
+-- ============================================================================
+-- BID IMPORT
+-- Applies a GC's bid spreadsheet (parsed and previewed in the browser, see
+-- src/lib/xlsx/bid-import.ts) to a project's budget in one transaction.
+-- Rows with an id update that line's forecast_amount; rows without one are
+-- added as new lines with the bid amount as their forecast and no
+-- underwriting. Runs as the caller, so RLS limits it to the user's projects.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION import_budget_bid(
+  p_project_id UUID,
+  p_rows JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_updated INTEGER;
+  v_inserted INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM projects WHERE id = p_project_id) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  UPDATE budget_items bi
+  SET forecast_amount = r.forecast_amount
+  FROM jsonb_to_recordset(p_rows) AS r(id UUID, forecast_amount NUMERIC)
+  WHERE r.id IS NOT NULL
+    AND bi.id = r.id
+    AND bi.project_id = p_project_id;
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  INSERT INTO budget_items (
+    project_id, category, item, description, qty, unit, rate,
+    underwriting_amount, forecast_amount, sort_order
+  )
+  SELECT
+    p_project_id, r.category, r.item, r.description, COALESCE(r.qty, 1), COALESCE(r.unit, 'ls'), COALESCE(r.rate, 0),
+    0, r.forecast_amount,
+    -- After the category's existing lines, in sheet order
+    COALESCE((SELECT MAX(bi.sort_order) FROM budget_items bi
+              WHERE bi.project_id = p_project_id AND bi.category = r.category), 0)
+      + ROW_NUMBER() OVER (PARTITION BY r.category ORDER BY r.ordinality)
+  FROM ROWS FROM (
+    jsonb_to_recordset(p_rows) AS (
+      id UUID, category budget_category, item TEXT, description TEXT,
+      qty NUMERIC, unit unit_type, rate NUMERIC, forecast_amount NUMERIC
+    )
+  ) WITH ORDINALITY AS r(id, category, item, description, qty, unit, rate, forecast_amount, ordinality)
+  WHERE r.id IS NULL;
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  RETURN v_updated + v_inserted;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_budget_bid(UUID, JSONB) TO authenticated;
@@ -0,0 +1,122 @@
+-- ============================================================================
+-- PROJECT REPORTS
+-- PDF reports rendered on the server by POST /api/projects/[id]/reports.
+--
+-- Each generated file is stored in the private project-reports bucket at
+-- <project_id>/<report_id>.pdf and recorded here so past reports can be
+-- listed and downloaded again after the data behind them has changed.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. PROJECT_REPORTS TABLE
+-- ============================================================================
+
+CREATE TABLE project_reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  -- Report
+  report_type TEXT NOT NULL CHECK (report_type IN (
+    'property-showcase',
+    'executive-summary',
+    'investment-analysis',
+    'detailed-budget',
+    'vendor-summary',
+    'draw-schedule',
+    'draw-packet'
+  )),
+  draw_id UUID REFERENCES draws(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+
+  -- File Storage
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  file_size INTEGER,
+
+  -- Meta
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_project_reports_project ON project_reports(project_id, created_at DESC);
+
+ALTER TABLE project_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "project_reports_select_policy" ON project_reports
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = project_reports.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "project_reports_insert_policy" ON project_reports
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = project_reports.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "project_reports_delete_policy" ON project_reports
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = project_reports.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+-- ============================================================================
+-- 2. REPORT STORAGE
+-- Private bucket. The first folder of every object is the project id, so
+-- access follows ownership of that project.
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'project-reports',
+  'project-reports',
+  false,
+  52428800,
+  ARRAY['application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "project_reports_storage_insert" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'project-reports'
+    AND EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id::TEXT = (storage.foldername(name))[1]
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "project_reports_storage_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'project-reports'
+    AND EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id::TEXT = (storage.foldername(name))[1]
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "project_reports_storage_delete" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'project-reports'
+    AND EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id::TEXT = (storage.foldername(name))[1]
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+-- ============================================================================
+-- 3. REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE project_reports;
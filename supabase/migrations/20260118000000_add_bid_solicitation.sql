@@ -0,0 +1,388 @@
+-- ============================================================================
+-- BID SOLICITATION
+-- Structured bids in place of free-text quote contacts.
+--
+-- A bid request scopes a set of budget lines (picked one by one or as a
+-- whole category) and is sent to several vendors. Each vendor's bid prices
+-- the scope line by line and records exclusions. Awarding a bid writes its
+-- line amounts to budget_items.forecast_amount and its vendor to
+-- budget_items.vendor_id. Requests, received bids and awards are logged to
+-- vendor_contacts as quote_request / quote_received / job_assigned.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TABLES
+-- ============================================================================
+
+CREATE TABLE bid_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  -- Scope
+  title TEXT NOT NULL,
+  category budget_category,
+  notes TEXT,
+  due_date DATE,
+
+  -- Award
+  status TEXT DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'awarded', 'cancelled')),
+  awarded_bid_id UUID,
+  awarded_at TIMESTAMPTZ,
+
+  -- Meta
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE bid_request_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bid_request_id UUID REFERENCES bid_requests(id) ON DELETE CASCADE NOT NULL,
+  budget_item_id UUID REFERENCES budget_items(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (bid_request_id, budget_item_id)
+);
+
+CREATE TABLE bids (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bid_request_id UUID REFERENCES bid_requests(id) ON DELETE CASCADE NOT NULL,
+  vendor_id UUID REFERENCES vendors(id) ON DELETE CASCADE NOT NULL,
+
+  status TEXT DEFAULT 'requested' NOT NULL
+    CHECK (status IN ('requested', 'received', 'declined', 'awarded', 'not_awarded')),
+  exclusions TEXT,
+  notes TEXT,
+  received_at TIMESTAMPTZ,
+
+  -- Meta
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (bid_request_id, vendor_id)
+);
+
+ALTER TABLE bid_requests
+  ADD CONSTRAINT bid_requests_awarded_bid_id_fkey
+  FOREIGN KEY (awarded_bid_id) REFERENCES bids(id) ON DELETE SET NULL;
+
+CREATE TABLE bid_line_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bid_id UUID REFERENCES bids(id) ON DELETE CASCADE NOT NULL,
+  budget_item_id UUID REFERENCES budget_items(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount >= 0),
+  notes TEXT,
+
+  UNIQUE (bid_id, budget_item_id)
+);
+
+CREATE INDEX idx_bid_requests_project ON bid_requests(project_id);
+CREATE INDEX idx_bid_request_items_request ON bid_request_items(bid_request_id);
+CREATE INDEX idx_bids_request ON bids(bid_request_id);
+CREATE INDEX idx_bids_vendor ON bids(vendor_id);
+CREATE INDEX idx_bid_line_items_bid ON bid_line_items(bid_id);
+
+CREATE TRIGGER bid_requests_updated_at
+  BEFORE UPDATE ON bid_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER bids_updated_at
+  BEFORE UPDATE ON bids
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- Everything follows ownership of the request's project.
+-- ============================================================================
+
+ALTER TABLE bid_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bid_request_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bid_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION owns_bid_request(p_bid_request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM bid_requests br
+    JOIN projects p ON p.id = br.project_id
+    WHERE br.id = p_bid_request_id
+    AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+  );
+$$;
+
+CREATE POLICY "bid_requests_select_policy" ON bid_requests
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = bid_requests.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "bid_requests_insert_policy" ON bid_requests
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = bid_requests.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "bid_requests_update_policy" ON bid_requests
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = bid_requests.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "bid_requests_delete_policy" ON bid_requests
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = bid_requests.project_id
+      AND (auth.uid() = p.user_id OR p.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "bid_request_items_select_policy" ON bid_request_items
+  FOR SELECT USING (owns_bid_request(bid_request_id));
+CREATE POLICY "bid_request_items_insert_policy" ON bid_request_items
+  FOR INSERT WITH CHECK (owns_bid_request(bid_request_id));
+CREATE POLICY "bid_request_items_delete_policy" ON bid_request_items
+  FOR DELETE USING (owns_bid_request(bid_request_id));
+
+CREATE POLICY "bids_select_policy" ON bids
+  FOR SELECT USING (owns_bid_request(bid_request_id));
+CREATE POLICY "bids_insert_policy" ON bids
+  FOR INSERT WITH CHECK (owns_bid_request(bid_request_id));
+CREATE POLICY "bids_update_policy" ON bids
+  FOR UPDATE USING (owns_bid_request(bid_request_id));
+CREATE POLICY "bids_delete_policy" ON bids
+  FOR DELETE USING (owns_bid_request(bid_request_id));
+
+CREATE POLICY "bid_line_items_select_policy" ON bid_line_items
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM bids b WHERE b.id = bid_line_items.bid_id AND owns_bid_request(b.bid_request_id))
+  );
+CREATE POLICY "bid_line_items_insert_policy" ON bid_line_items
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM bids b WHERE b.id = bid_line_items.bid_id AND owns_bid_request(b.bid_request_id))
+  );
+CREATE POLICY "bid_line_items_update_policy" ON bid_line_items
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM bids b WHERE b.id = bid_line_items.bid_id AND owns_bid_request(b.bid_request_id))
+  );
+CREATE POLICY "bid_line_items_delete_policy" ON bid_line_items
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM bids b WHERE b.id = bid_line_items.bid_id AND owns_bid_request(b.bid_request_id))
+  );
+
+-- ============================================================================
+-- 3. CREATE A BID REQUEST
+-- Creates the request, its scope and one 'requested' bid per vendor, and
+-- logs a quote_request contact (follow-up on the due date) for each vendor.
+-- Runs as the caller, so RLS limits it to the user's projects and vendors.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_bid_request(
+  p_project_id UUID,
+  p_title TEXT,
+  p_category budget_category,
+  p_budget_item_ids UUID[],
+  p_vendor_ids UUID[],
+  p_due_date DATE DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM projects WHERE id = p_project_id) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF COALESCE(array_length(p_budget_item_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A bid request needs at least one budget line';
+  END IF;
+
+  IF COALESCE(array_length(p_vendor_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A bid request needs at least one vendor';
+  END IF;
+
+  INSERT INTO bid_requests (project_id, title, category, notes, due_date)
+  VALUES (p_project_id, p_title, p_category, p_notes, p_due_date)
+  RETURNING id INTO v_request_id;
+
+  -- Only lines that belong to the project
+  INSERT INTO bid_request_items (bid_request_id, budget_item_id)
+  SELECT v_request_id, bi.id
+  FROM budget_items bi
+  WHERE bi.project_id = p_project_id
+    AND bi.id = ANY(p_budget_item_ids);
+
+  INSERT INTO bids (bid_request_id, vendor_id)
+  SELECT v_request_id, v.id
+  FROM vendors v
+  WHERE v.id = ANY(p_vendor_ids);
+
+  INSERT INTO vendor_contacts (vendor_id, user_id, project_id, contact_type, subject, notes, follow_up_date)
+  SELECT b.vendor_id, auth.uid(), p_project_id, 'quote_request', 'Bid request: ' || p_title, p_notes, p_due_date
+  FROM bids b
+  WHERE b.bid_request_id = v_request_id;
+
+  RETURN v_request_id;
+END;
+$$;
+
+-- ============================================================================
+-- 4. RECORD A BID
+-- Replaces a bid's line pricing and exclusions and marks it received.
+-- p_lines: [{ budget_item_id, amount, notes }] for lines in the scope.
+-- The first time a bid is received, a quote_received contact is logged and
+-- the quote_request follow-up is closed.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_bid(
+  p_bid_id UUID,
+  p_lines JSONB,
+  p_exclusions TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bid bids%ROWTYPE;
+  v_request bid_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_bid FROM bids WHERE id = p_bid_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid not found';
+  END IF;
+
+  SELECT * INTO v_request FROM bid_requests WHERE id = v_bid.bid_request_id;
+  IF v_request.status <> 'open' THEN
+    RAISE EXCEPTION 'This bid request is no longer open';
+  END IF;
+
+  DELETE FROM bid_line_items WHERE bid_id = p_bid_id;
+
+  INSERT INTO bid_line_items (bid_id, budget_item_id, amount, notes)
+  SELECT p_bid_id, r.budget_item_id, r.amount, r.notes
+  FROM jsonb_to_recordset(p_lines) AS r(budget_item_id UUID, amount NUMERIC, notes TEXT)
+  WHERE r.amount IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM bid_request_items ri
+      WHERE ri.bid_request_id = v_bid.bid_request_id
+      AND ri.budget_item_id = r.budget_item_id
+    );
+
+  UPDATE bids
+  SET status = 'received',
+      exclusions = p_exclusions,
+      notes = p_notes,
+      received_at = COALESCE(received_at, NOW())
+  WHERE id = p_bid_id;
+
+  IF v_bid.received_at IS NULL THEN
+    INSERT INTO vendor_contacts (vendor_id, user_id, project_id, contact_type, subject, notes)
+    VALUES (
+      v_bid.vendor_id, auth.uid(), v_request.project_id, 'quote_received',
+      'Bid received: ' || v_request.title, p_exclusions
+    );
+
+    UPDATE vendor_contacts
+    SET follow_up_completed = TRUE
+    WHERE vendor_id = v_bid.vendor_id
+      AND project_id = v_request.project_id
+      AND contact_type = 'quote_request'
+      AND subject = 'Bid request: ' || v_request.title
+      AND follow_up_completed = FALSE;
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- 5. AWARD A BID
+-- Writes the bid's line amounts to forecast_amount and its vendor to
+-- vendor_id on the scope's budget lines, closes the request (other open
+-- bids become not_awarded) and logs a job_assigned contact.
+-- Returns the number of budget lines updated.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION award_bid(p_bid_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bid bids%ROWTYPE;
+  v_request bid_requests%ROWTYPE;
+  v_updated INTEGER;
+  v_total NUMERIC;
+BEGIN
+  SELECT * INTO v_bid FROM bids WHERE id = p_bid_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid not found';
+  END IF;
+
+  IF v_bid.status <> 'received' THEN
+    RAISE EXCEPTION 'Only received bids can be awarded';
+  END IF;
+
+  SELECT * INTO v_request FROM bid_requests WHERE id = v_bid.bid_request_id FOR UPDATE;
+  IF v_request.status <> 'open' THEN
+    RAISE EXCEPTION 'This bid request is no longer open';
+  END IF;
+
+  UPDATE budget_items bi
+  SET forecast_amount = l.amount,
+      vendor_id = v_bid.vendor_id
+  FROM bid_line_items l
+  WHERE l.bid_id = p_bid_id
+    AND bi.id = l.budget_item_id
+    AND bi.project_id = v_request.project_id;
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE bids SET status = 'awarded' WHERE id = p_bid_id;
+
+  UPDATE bids
+  SET status = 'not_awarded'
+  WHERE bid_request_id = v_request.id
+    AND id <> p_bid_id
+    AND status IN ('requested', 'received');
+
+  UPDATE bid_requests
+  SET status = 'awarded',
+      awarded_bid_id = p_bid_id,
+      awarded_at = NOW()
+  WHERE id = v_request.id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_total FROM bid_line_items WHERE bid_id = p_bid_id;
+
+  INSERT INTO vendor_contacts (vendor_id, user_id, project_id, contact_type, subject, notes)
+  VALUES (
+    v_bid.vendor_id, auth.uid(), v_request.project_id, 'job_assigned',
+    'Awarded: ' || v_request.title,
+    'Bid total ' || to_char(v_total, 'FM$999,999,990.00') || ' across ' || v_updated || ' budget line(s)'
+  );
+
+  RETURN v_updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_bid_request(UUID, TEXT, budget_category, UUID[], UUID[], DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_bid(UUID, JSONB, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION award_bid(UUID) TO authenticated;
+
+-- ============================================================================
+-- 6. REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE bid_requests;
+ALTER PUBLICATION supabase_realtime ADD TABLE bids;
@@ -0,0 +1,222 @@
+-- ============================================================================
+-- VENDOR COMPLIANCE DOCUMENTS
+-- Certificates of insurance, W-9s and licenses uploaded per vendor, with
+-- policy/license numbers, coverage limits and expiration dates.
+--
+-- Lenders will not fund a draw to a vendor whose insurance has lapsed, so
+-- moving a draw to approved or paid is refused while the vendor's latest
+-- certificate of insurance is expired, unless the draw records an override
+-- reason. Vendors with no certificate on file are not blocked; the
+-- vendors.licensed / insured / w9_on_file flags still cover them.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. VENDOR_DOCUMENTS TABLE
+-- ============================================================================
+
+CREATE TABLE vendor_documents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  vendor_id UUID REFERENCES vendors(id) ON DELETE CASCADE NOT NULL,
+
+  document_type TEXT NOT NULL CHECK (document_type IN ('coi', 'w9', 'license')),
+
+  -- Policy / License
+  document_number TEXT,
+  issuer TEXT,
+  per_occurrence_limit DECIMAL(12,2) CHECK (per_occurrence_limit >= 0),
+  aggregate_limit DECIMAL(12,2) CHECK (aggregate_limit >= 0),
+  effective_date DATE,
+  expiration_date DATE,
+  notes TEXT,
+
+  -- File Storage
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT,
+  file_size INTEGER,
+  content_type TEXT,
+
+  -- Meta
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- A certificate of insurance is only useful with the date it runs out
+  CONSTRAINT vendor_documents_coi_expiration CHECK (document_type <> 'coi' OR expiration_date IS NOT NULL),
+  CONSTRAINT vendor_documents_dates CHECK (
+    effective_date IS NULL OR expiration_date IS NULL OR expiration_date >= effective_date
+  )
+);
+
+CREATE INDEX idx_vendor_documents_vendor ON vendor_documents(vendor_id, document_type);
+CREATE INDEX idx_vendor_documents_expiration ON vendor_documents(expiration_date)
+  WHERE expiration_date IS NOT NULL;
+
+CREATE TRIGGER vendor_documents_updated_at
+  BEFORE UPDATE ON vendor_documents
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE vendor_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "vendor_documents_select_policy" ON vendor_documents
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM vendors v
+      WHERE v.id = vendor_documents.vendor_id
+      AND (auth.uid() = v.user_id OR v.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "vendor_documents_insert_policy" ON vendor_documents
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM vendors v
+      WHERE v.id = vendor_documents.vendor_id
+      AND (auth.uid() = v.user_id OR v.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "vendor_documents_update_policy" ON vendor_documents
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM vendors v
+      WHERE v.id = vendor_documents.vendor_id
+      AND (auth.uid() = v.user_id OR v.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "vendor_documents_delete_policy" ON vendor_documents
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM vendors v
+      WHERE v.id = vendor_documents.vendor_id
+      AND (auth.uid() = v.user_id OR v.user_id IS NULL)
+    )
+  );
+
+-- ============================================================================
+-- 2. DOCUMENT STORAGE
+-- Private bucket. The first folder of every object is the vendor id, so
+-- access follows ownership of that vendor.
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'vendor-documents',
+  'vendor-documents',
+  false,
+  10485760,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "vendor_documents_storage_insert" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'vendor-documents'
+    AND EXISTS (
+      SELECT 1 FROM vendors v
+      WHERE v.id::TEXT = (storage.foldername(name))[1]
+      AND (auth.uid() = v.user_id OR v.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "vendor_documents_storage_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'vendor-documents'
+    AND EXISTS (
+      SELECT 1 FROM vendors v
+      WHERE v.id::TEXT = (storage.foldername(name))[1]
+      AND (auth.uid() = v.user_id OR v.user_id IS NULL)
+    )
+  );
+
+CREATE POLICY "vendor_documents_storage_delete" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'vendor-documents'
+    AND EXISTS (
+      SELECT 1 FROM vendors v
+      WHERE v.id::TEXT = (storage.foldername(name))[1]
+      AND (auth.uid() = v.user_id OR v.user_id IS NULL)
+    )
+  );
+
+-- ============================================================================
+-- 3. DRAW APPROVAL GATE
+-- Mirrors getVendorInsuranceStatus() in src/lib/vendor-compliance.ts.
+-- ============================================================================
+
+ALTER TABLE draws
+  ADD COLUMN compliance_override_reason TEXT,
+  ADD COLUMN compliance_override_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN draws.compliance_override_reason IS 'Why the draw was approved while the vendor''s insurance had lapsed';
+
+-- Expiration of the vendor's latest certificate of insurance when it is
+-- before p_as_of; NULL when insurance is current or none is on file
+CREATE OR REPLACE FUNCTION vendor_insurance_lapsed_on(p_vendor_id UUID, p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT latest
+  FROM (
+    SELECT MAX(d.expiration_date) AS latest
+    FROM vendor_documents d
+    WHERE d.vendor_id = p_vendor_id
+    AND d.document_type = 'coi'
+  ) coi
+  WHERE latest < p_as_of;
+$$;
+
+-- Checks the draw's own vendor and every vendor its budget line allocations
+-- pay, since a single draw can cover several subs.
+CREATE OR REPLACE FUNCTION enforce_draw_vendor_compliance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_vendor_id UUID;
+  v_lapsed_on DATE;
+  v_vendor_name TEXT;
+BEGIN
+  IF NEW.status NOT IN ('approved', 'paid') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NULLIF(trim(NEW.compliance_override_reason), '') IS NOT NULL THEN
+    NEW.compliance_override_at := COALESCE(NEW.compliance_override_at, NOW());
+    RETURN NEW;
+  END IF;
+
+  FOR v_vendor_id IN
+    SELECT NEW.vendor_id WHERE NEW.vendor_id IS NOT NULL
+    UNION
+    SELECT a.vendor_id FROM draw_allocations a WHERE a.draw_id = NEW.id AND a.vendor_id IS NOT NULL
+  LOOP
+    v_lapsed_on := vendor_insurance_lapsed_on(v_vendor_id);
+
+    IF v_lapsed_on IS NOT NULL THEN
+      SELECT name INTO v_vendor_name FROM vendors WHERE id = v_vendor_id;
+
+      RAISE EXCEPTION '%''s certificate of insurance expired on %', v_vendor_name, to_char(v_lapsed_on, 'Mon DD, YYYY')
+        USING ERRCODE = 'P0001', HINT = 'vendor_insurance_lapsed';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER draws_enforce_vendor_compliance
+  BEFORE INSERT OR UPDATE OF status ON draws
+  FOR EACH ROW EXECUTE FUNCTION enforce_draw_vendor_compliance();
+
+GRANT EXECUTE ON FUNCTION vendor_insurance_lapsed_on(UUID, DATE) TO authenticated;
+
+-- ============================================================================
+-- 4. REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE vendor_documents;
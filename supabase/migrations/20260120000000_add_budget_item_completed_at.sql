@@ -0,0 +1,42 @@
+-- ============================================================================
+-- BUDGET ITEM COMPLETION DATES
+-- Records when a budget item was marked complete, so vendor scorecards can
+-- tell whether work finished before or after the project's
+-- target_complete_date (see src/lib/vendor-scorecard.ts). The column is kept
+-- by a trigger: set when status moves to 'complete', cleared when it moves
+-- back out.
+-- ============================================================================
+
+ALTER TABLE budget_items
+  ADD COLUMN completed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN budget_items.completed_at IS 'When the item was last marked complete; NULL while it is not complete';
+
+-- Items already complete have no better record than their last edit
+UPDATE budget_items
+SET completed_at = updated_at
+WHERE status = 'complete';
+
+CREATE OR REPLACE FUNCTION set_budget_item_completed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'complete' THEN
+    IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'complete' THEN
+      NEW.completed_at := COALESCE(NEW.completed_at, NOW());
+    END IF;
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER budget_items_set_completed_at
+  BEFORE INSERT OR UPDATE OF status ON budget_items
+  FOR EACH ROW EXECUTE FUNCTION set_budget_item_completed_at();
+
+CREATE INDEX idx_budget_items_vendor_completed ON budget_items(vendor_id, completed_at)
+  WHERE vendor_id IS NOT NULL;
@@ -0,0 +1,154 @@
+-- ============================================================================
+-- VENDOR MERGE
+-- Folds duplicate vendors (usually left behind by CSV imports) into one
+-- surviving vendor. The duplicates are found and the surviving field values
+-- picked in the browser (see src/lib/vendor-duplicates.ts); this applies the
+-- merge in one transaction so no row is left pointing at a deleted vendor.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. DOCUMENT STORAGE
+-- Merged documents keep their files under the duplicate's folder, which no
+-- longer matches a vendor. Reads and deletes are also allowed for any object
+-- recorded in a vendor_documents row the caller can see.
+-- ============================================================================
+
+DROP POLICY IF EXISTS "vendor_documents_storage_select" ON storage.objects;
+DROP POLICY IF EXISTS "vendor_documents_storage_delete" ON storage.objects;
+
+CREATE POLICY "vendor_documents_storage_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'vendor-documents'
+    AND (
+      EXISTS (
+        SELECT 1 FROM vendors v
+        WHERE v.id::TEXT = (storage.foldername(name))[1]
+        AND (auth.uid() = v.user_id OR v.user_id IS NULL)
+      )
+      OR EXISTS (SELECT 1 FROM vendor_documents d WHERE d.storage_path = name)
+    )
+  );
+
+CREATE POLICY "vendor_documents_storage_delete" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'vendor-documents'
+    AND (
+      EXISTS (
+        SELECT 1 FROM vendors v
+        WHERE v.id::TEXT = (storage.foldername(name))[1]
+        AND (auth.uid() = v.user_id OR v.user_id IS NULL)
+      )
+      OR EXISTS (SELECT 1 FROM vendor_documents d WHERE d.storage_path = name)
+    )
+  );
+
+-- ============================================================================
+-- 2. MERGE VENDORS
+-- p_fields: the survivor's final vendor fields (every column the user can
+-- edit). Rows in every table that references the duplicates are re-pointed
+-- to the survivor, then the duplicates are deleted.
+--
+-- Where more than one of the vendors was invited to the same bid request,
+-- the bid that got furthest (awarded, then received) is kept. Tags are the
+-- union of all the vendors' tags. Runs as the caller, so RLS limits it to
+-- the user's vendors.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION merge_vendors(
+  p_survivor_id UUID,
+  p_duplicate_ids UUID[],
+  p_fields JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_duplicate_ids UUID[];
+  v_found INTEGER;
+BEGIN
+  v_duplicate_ids := ARRAY(
+    SELECT DISTINCT d FROM unnest(p_duplicate_ids) AS d WHERE d <> p_survivor_id
+  );
+
+  IF COALESCE(array_length(v_duplicate_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Pick at least one duplicate to merge';
+  END IF;
+
+  SELECT COUNT(*) INTO v_found
+  FROM vendors
+  WHERE id = p_survivor_id OR id = ANY(v_duplicate_ids);
+
+  IF v_found <> array_length(v_duplicate_ids, 1) + 1 THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  -- Surviving field values
+  UPDATE vendors v
+  SET
+    name = COALESCE(NULLIF(trim(f.name), ''), v.name),
+    trade = COALESCE(f.trade, v.trade),
+    contact_name = f.contact_name,
+    phone = f.phone,
+    email = f.email,
+    website = f.website,
+    address = f.address,
+    licensed = COALESCE(f.licensed, v.licensed),
+    insured = COALESCE(f.insured, v.insured),
+    w9_on_file = COALESCE(f.w9_on_file, v.w9_on_file),
+    retainage_percent = COALESCE(f.retainage_percent, v.retainage_percent),
+    rating = f.rating,
+    reliability = f.reliability,
+    price_level = f.price_level,
+    status = COALESCE(f.status, v.status),
+    notes = f.notes
+  FROM jsonb_populate_record(NULL::vendors, p_fields) f
+  WHERE v.id = p_survivor_id;
+
+  -- Budget, payments and history
+  UPDATE budget_items SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE draws SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE draw_allocations SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE draw_request_tokens SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE vendor_contacts SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE vendor_documents SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE budget_template_items SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+
+  -- One bid per vendor per request
+  DELETE FROM bids
+  WHERE id IN (
+    SELECT ranked.id
+    FROM (
+      SELECT
+        b.id,
+        ROW_NUMBER() OVER (
+          PARTITION BY b.bid_request_id
+          ORDER BY
+            CASE b.status
+              WHEN 'awarded' THEN 0
+              WHEN 'received' THEN 1
+              WHEN 'not_awarded' THEN 2
+              WHEN 'requested' THEN 3
+              ELSE 4
+            END,
+            (b.vendor_id = p_survivor_id) DESC,
+            b.created_at
+        ) AS rn
+      FROM bids b
+      WHERE b.vendor_id = p_survivor_id OR b.vendor_id = ANY(v_duplicate_ids)
+    ) ranked
+    WHERE ranked.rn > 1
+  );
+  UPDATE bids SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+
+  -- Union of tags; the duplicates' own assignments go with them
+  INSERT INTO vendor_tag_assignments (vendor_id, tag_id)
+  SELECT DISTINCT p_survivor_id, vta.tag_id
+  FROM vendor_tag_assignments vta
+  WHERE vta.vendor_id = ANY(v_duplicate_ids)
+  ON CONFLICT (vendor_id, tag_id) DO NOTHING;
+
+  DELETE FROM vendors WHERE id = ANY(v_duplicate_ids);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_vendors(UUID, UUID[], JSONB) TO authenticated;
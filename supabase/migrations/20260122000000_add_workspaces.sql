@@ -0,0 +1,1016 @@
+-- ============================================================================
+-- TEAM WORKSPACES
+-- Projects and vendors used to belong to a single login (projects.user_id).
+-- They now belong to a workspace that several people join with a role:
+--
+--   owner            - everything, including members, invitations and
+--                      sharing projects with investors
+--   project_manager  - projects, underwriting, budgets, bids, vendors and
+--                      draws, including approving them
+--   bookkeeper       - vendors and draws (marks approved draws paid, records
+--                      actuals) but not underwriting or budgets
+--   investor         - read-only, and only the projects shared with them
+--
+-- workspace_role_can() below is the capability matrix; ROLE_CAPABILITIES in
+-- src/lib/workspaces.ts mirrors it for the app and must be kept in sync.
+--
+-- Every user has a workspace of their own and sees one workspace at a time:
+-- profiles.active_workspace_id (see current_workspace_id()). Rows that were
+-- never claimed by a user (user_id NULL) stay without a workspace and keep
+-- their old shared access.
+--
+-- Errors the app shows to the user are raised with ERRCODE P0001 and a
+-- machine-readable HINT (see src/lib/workspaces.ts):
+--   workspace_permission     - the caller's role doesn't allow the change
+--   last_workspace_owner     - a workspace must keep at least one owner
+--   invitation_not_found     - unknown, revoked or already used invitation
+--   invitation_expired       - the invitation link has expired
+--   invitation_wrong_email   - signed in as someone other than the invitee
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TABLES
+-- ============================================================================
+
+CREATE TYPE workspace_role AS ENUM ('owner', 'project_manager', 'bookkeeper', 'investor');
+
+CREATE TABLE workspaces (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE workspace_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role workspace_role NOT NULL,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (workspace_id, user_id)
+);
+
+-- The raw token only appears in the invitation link; like vendor draw
+-- request links, only its SHA-256 hash is stored.
+CREATE TABLE workspace_invitations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL,
+  role workspace_role NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Projects an investor member can see
+CREATE TABLE project_investors (
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  shared_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (project_id, user_id)
+);
+
+ALTER TABLE profiles ADD COLUMN active_workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL;
+
+ALTER TABLE projects ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE vendors ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE vendor_tags ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE journal_pages ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE budget_templates ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_workspace_members_user ON workspace_members(user_id);
+CREATE INDEX idx_workspace_invitations_workspace ON workspace_invitations(workspace_id);
+CREATE INDEX idx_project_investors_user ON project_investors(user_id);
+CREATE INDEX idx_projects_workspace ON projects(workspace_id);
+CREATE INDEX idx_vendors_workspace ON vendors(workspace_id);
+CREATE INDEX idx_vendor_tags_workspace ON vendor_tags(workspace_id);
+CREATE INDEX idx_journal_pages_workspace ON journal_pages(workspace_id);
+CREATE INDEX idx_budget_templates_workspace ON budget_templates(workspace_id);
+
+CREATE TRIGGER update_workspaces_updated_at
+  BEFORE UPDATE ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_workspace_members_updated_at
+  BEFORE UPDATE ON workspace_members
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_investors ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 2. ROLES AND CAPABILITIES
+-- SECURITY DEFINER so policies can look up memberships without recursing
+-- into workspace_members' own policies.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION workspace_role_can(p_role workspace_role, p_capability TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'owner' THEN TRUE
+    WHEN 'project_manager' THEN p_capability IN (
+      'view_all_projects', 'view_vendors', 'edit_projects', 'approve_draws',
+      'manage_draws', 'manage_vendors', 'export_reports'
+    )
+    WHEN 'bookkeeper' THEN p_capability IN (
+      'view_all_projects', 'view_vendors', 'manage_draws', 'manage_vendors', 'export_reports'
+    )
+    ELSE FALSE
+  END;
+$$;
+
+-- The workspace the caller is working in: the one picked in the app, or
+-- their own when that membership is gone.
+CREATE OR REPLACE FUNCTION current_workspace_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.workspace_id
+  FROM workspace_members m
+  LEFT JOIN profiles pr ON pr.id = m.user_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY
+    (m.workspace_id = pr.active_workspace_id) DESC NULLS LAST,
+    (m.role = 'owner') DESC,
+    m.created_at
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION workspace_role(p_workspace_id UUID)
+RETURNS workspace_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM workspace_members
+  WHERE workspace_id = p_workspace_id AND user_id = auth.uid();
+$$;
+
+-- Rows without a workspace predate workspaces and keep their shared access
+CREATE OR REPLACE FUNCTION has_workspace_capability(p_workspace_id UUID, p_capability TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_workspace_id IS NULL
+    OR (
+      p_workspace_id = current_workspace_id()
+      AND COALESCE(workspace_role_can(workspace_role(p_workspace_id), p_capability), FALSE)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION has_project_capability(p_project_id UUID, p_capability TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT has_workspace_capability(p.workspace_id, p_capability) FROM projects p WHERE p.id = p_project_id),
+    FALSE
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION has_vendor_capability(p_vendor_id UUID, p_capability TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT has_workspace_capability(v.workspace_id, p_capability) FROM vendors v WHERE v.id = p_vendor_id),
+    FALSE
+  );
+$$;
+
+-- Every member but an investor sees every project; investors only the
+-- projects shared with them.
+CREATE OR REPLACE FUNCTION can_view_project(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects p
+    WHERE p.id = p_project_id
+    AND (
+      has_workspace_capability(p.workspace_id, 'view_all_projects')
+      OR (
+        p.workspace_id = current_workspace_id()
+        AND EXISTS (
+          SELECT 1 FROM project_investors pi
+          WHERE pi.project_id = p.id AND pi.user_id = auth.uid()
+        )
+      )
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION bid_request_project_id(p_bid_request_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT project_id FROM bid_requests WHERE id = p_bid_request_id;
+$$;
+
+CREATE OR REPLACE FUNCTION shares_workspace_with(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM workspace_members mine
+    JOIN workspace_members theirs ON theirs.workspace_id = mine.workspace_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = p_user_id
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION current_workspace_id() TO authenticated;
+
+-- ============================================================================
+-- 3. WORKSPACE TRIGGERS
+-- ============================================================================
+
+-- Whoever creates a workspace owns it
+CREATE OR REPLACE FUNCTION add_workspace_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO workspace_members (workspace_id, user_id, role)
+    VALUES (NEW.id, NEW.created_by, 'owner')
+    ON CONFLICT (workspace_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_workspace_owner
+  AFTER INSERT ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION add_workspace_owner();
+
+-- Demoting or removing the last owner would leave nobody able to manage the
+-- workspace. Deleting the workspace (or the user) itself is still allowed.
+CREATE OR REPLACE FUNCTION ensure_workspace_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.role <> 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF auth.uid() IS NULL OR NOT EXISTS (SELECT 1 FROM workspaces WHERE id = OLD.workspace_id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM workspace_members
+    WHERE workspace_id = OLD.workspace_id AND role = 'owner' AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'A workspace needs at least one owner'
+      USING ERRCODE = 'P0001', HINT = 'last_workspace_owner';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER ensure_workspace_owner
+  BEFORE UPDATE OF role OR DELETE ON workspace_members
+  FOR EACH ROW EXECUTE FUNCTION ensure_workspace_owner();
+
+-- New rows land in the caller's current workspace
+CREATE OR REPLACE FUNCTION set_workspace_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.workspace_id IS NULL THEN
+    NEW.workspace_id := current_workspace_id();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_projects_workspace_id
+  BEFORE INSERT ON projects
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_id();
+
+CREATE TRIGGER set_vendors_workspace_id
+  BEFORE INSERT ON vendors
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_id();
+
+CREATE TRIGGER set_vendor_tags_workspace_id
+  BEFORE INSERT ON vendor_tags
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_id();
+
+CREATE TRIGGER set_journal_pages_workspace_id
+  BEFORE INSERT ON journal_pages
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_id();
+
+CREATE TRIGGER set_budget_templates_workspace_id
+  BEFORE INSERT ON budget_templates
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_id();
+
+-- ============================================================================
+-- 4. PERSONAL WORKSPACES
+-- Every existing user gets a workspace they own, holding everything they
+-- created so far. New users get one at signup.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION personal_workspace_name(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    NULLIF(trim(pr.company_name), ''),
+    NULLIF(trim(pr.full_name), '') || '''s Workspace',
+    'My Workspace'
+  )
+  FROM (SELECT p_user_id AS id) u
+  LEFT JOIN profiles pr ON pr.id = u.id;
+$$;
+
+INSERT INTO workspaces (name, created_by)
+SELECT personal_workspace_name(u.id), u.id
+FROM auth.users u;
+
+UPDATE profiles pr
+SET active_workspace_id = w.id
+FROM workspaces w
+WHERE w.created_by = pr.id;
+
+-- Leave updated_at alone while tagging existing rows
+ALTER TABLE projects DISABLE TRIGGER USER;
+ALTER TABLE vendors DISABLE TRIGGER USER;
+ALTER TABLE vendor_tags DISABLE TRIGGER USER;
+ALTER TABLE journal_pages DISABLE TRIGGER USER;
+ALTER TABLE budget_templates DISABLE TRIGGER USER;
+
+UPDATE projects t SET workspace_id = w.id FROM workspaces w WHERE w.created_by = t.user_id;
+UPDATE vendors t SET workspace_id = w.id FROM workspaces w WHERE w.created_by = t.user_id;
+UPDATE vendor_tags t SET workspace_id = w.id FROM workspaces w WHERE w.created_by = t.user_id;
+UPDATE journal_pages t SET workspace_id = w.id FROM workspaces w WHERE w.created_by = t.user_id;
+UPDATE budget_templates t SET workspace_id = w.id FROM workspaces w WHERE w.created_by = t.user_id;
+
+ALTER TABLE projects ENABLE TRIGGER USER;
+ALTER TABLE vendors ENABLE TRIGGER USER;
+ALTER TABLE vendor_tags ENABLE TRIGGER USER;
+ALTER TABLE journal_pages ENABLE TRIGGER USER;
+ALTER TABLE budget_templates ENABLE TRIGGER USER;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_workspace_id UUID;
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, avatar_url)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'name'),
+    NEW.raw_user_meta_data->>'avatar_url'
+  );
+
+  INSERT INTO public.workspaces (name, created_by)
+  VALUES (public.personal_workspace_name(NEW.id), NEW.id)
+  RETURNING id INTO v_workspace_id;
+
+  UPDATE public.profiles SET active_workspace_id = v_workspace_id WHERE id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. ROLE GUARDS
+-- Bookkeepers update budget lines only through actuals (including the
+-- roll-up when they mark a draw paid), and only pay draws that someone who
+-- can approve them already approved.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_budget_item_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_unguarded TEXT[] := ARRAY[
+    'actual_amount', 'actual_from_draws', 'manual_actual_amount', 'forecast_variance', 'actual_variance',
+    'total_variance', 'updated_at', 'completed_at'
+  ];
+BEGIN
+  IF auth.uid() IS NULL OR has_project_capability(NEW.project_id, 'edit_projects') THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - v_unguarded) IS DISTINCT FROM (to_jsonb(OLD) - v_unguarded) THEN
+    RAISE EXCEPTION 'Your role can only record actual costs on budget items'
+      USING ERRCODE = 'P0001', HINT = 'workspace_permission';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_budget_item_role
+  BEFORE UPDATE ON budget_items
+  FOR EACH ROW EXECUTE FUNCTION enforce_budget_item_role();
+
+CREATE OR REPLACE FUNCTION enforce_draw_approval_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR has_project_capability(NEW.project_id, 'approve_draws') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status <> 'pending' THEN
+    RAISE EXCEPTION 'New draws start as pending until they are approved'
+      USING ERRCODE = 'P0001', HINT = 'workspace_permission';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.status IS DISTINCT FROM OLD.status
+    AND NOT (OLD.status = 'approved' AND NEW.status = 'paid')
+  THEN
+    RAISE EXCEPTION 'Your role can only mark approved draws as paid'
+      USING ERRCODE = 'P0001', HINT = 'workspace_permission';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_draw_approval_role
+  BEFORE INSERT OR UPDATE OF status ON draws
+  FOR EACH ROW EXECUTE FUNCTION enforce_draw_approval_role();
+
+-- ============================================================================
+-- 6. POLICIES
+-- Every earlier policy on these tables keyed on projects.user_id or
+-- vendors.user_id (several migrations added overlapping ones), so all of
+-- them are dropped and replaced with the capability checks above.
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename IN (
+      'projects', 'budget_items', 'draws', 'draw_allocations', 'draw_request_tokens', 'draw_attachments',
+      'line_item_photos', 'budget_snapshots', 'project_reports', 'journal_pages',
+      'bid_requests', 'bid_request_items', 'bids', 'bid_line_items',
+      'vendors', 'vendor_tags', 'vendor_tag_assignments', 'vendor_contacts', 'vendor_documents',
+      'calculation_settings', 'budget_templates', 'budget_template_items'
+    )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END $$;
+
+DROP FUNCTION IF EXISTS owns_bid_request(UUID);
+
+-- Workspaces
+CREATE POLICY "workspaces_select_policy" ON workspaces
+  FOR SELECT USING (workspace_role(id) IS NOT NULL);
+CREATE POLICY "workspaces_insert_policy" ON workspaces
+  FOR INSERT WITH CHECK (created_by = auth.uid());
+CREATE POLICY "workspaces_update_policy" ON workspaces
+  FOR UPDATE USING (workspace_role(id) = 'owner');
+CREATE POLICY "workspaces_delete_policy" ON workspaces
+  FOR DELETE USING (workspace_role(id) = 'owner');
+
+-- Members are added by accept_workspace_invitation() and add_workspace_owner()
+CREATE POLICY "workspace_members_select_policy" ON workspace_members
+  FOR SELECT USING (workspace_role(workspace_id) IS NOT NULL);
+CREATE POLICY "workspace_members_update_policy" ON workspace_members
+  FOR UPDATE USING (workspace_role_can(workspace_role(workspace_id), 'manage_members'));
+CREATE POLICY "workspace_members_delete_policy" ON workspace_members
+  FOR DELETE USING (
+    user_id = auth.uid() OR workspace_role_can(workspace_role(workspace_id), 'manage_members')
+  );
+
+CREATE POLICY "workspace_invitations_select_policy" ON workspace_invitations
+  FOR SELECT USING (workspace_role_can(workspace_role(workspace_id), 'manage_members'));
+CREATE POLICY "workspace_invitations_insert_policy" ON workspace_invitations
+  FOR INSERT WITH CHECK (workspace_role_can(workspace_role(workspace_id), 'manage_members'));
+CREATE POLICY "workspace_invitations_update_policy" ON workspace_invitations
+  FOR UPDATE USING (workspace_role_can(workspace_role(workspace_id), 'manage_members'));
+CREATE POLICY "workspace_invitations_delete_policy" ON workspace_invitations
+  FOR DELETE USING (workspace_role_can(workspace_role(workspace_id), 'manage_members'));
+
+CREATE POLICY "project_investors_select_policy" ON project_investors
+  FOR SELECT USING (user_id = auth.uid() OR has_project_capability(project_id, 'manage_members'));
+CREATE POLICY "project_investors_insert_policy" ON project_investors
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'manage_members'));
+CREATE POLICY "project_investors_delete_policy" ON project_investors
+  FOR DELETE USING (has_project_capability(project_id, 'manage_members'));
+
+-- Teammates see each other's names and emails
+CREATE POLICY "Workspace members can view each other's profiles" ON profiles
+  FOR SELECT USING (shares_workspace_with(id));
+
+-- Projects
+CREATE POLICY "projects_select_policy" ON projects
+  FOR SELECT USING (can_view_project(id));
+CREATE POLICY "projects_insert_policy" ON projects
+  FOR INSERT WITH CHECK (workspace_id IS NOT NULL AND has_workspace_capability(workspace_id, 'edit_projects'));
+CREATE POLICY "projects_update_policy" ON projects
+  FOR UPDATE USING (has_workspace_capability(workspace_id, 'edit_projects'))
+  WITH CHECK (has_workspace_capability(workspace_id, 'edit_projects'));
+CREATE POLICY "projects_delete_policy" ON projects
+  FOR DELETE USING (has_workspace_capability(workspace_id, 'edit_projects'));
+
+-- Budget lines (bookkeepers update actuals; see enforce_budget_item_role())
+CREATE POLICY "budget_items_select_policy" ON budget_items
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "budget_items_insert_policy" ON budget_items
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "budget_items_update_policy" ON budget_items
+  FOR UPDATE USING (
+    has_project_capability(project_id, 'edit_projects') OR has_project_capability(project_id, 'manage_draws')
+  );
+CREATE POLICY "budget_items_delete_policy" ON budget_items
+  FOR DELETE USING (has_project_capability(project_id, 'edit_projects'));
+
+-- Photos (bookkeepers attach receipts)
+CREATE POLICY "line_item_photos_select_policy" ON line_item_photos
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "line_item_photos_insert_policy" ON line_item_photos
+  FOR INSERT WITH CHECK (
+    has_project_capability(project_id, 'edit_projects') OR has_project_capability(project_id, 'manage_draws')
+  );
+CREATE POLICY "line_item_photos_update_policy" ON line_item_photos
+  FOR UPDATE USING (
+    has_project_capability(project_id, 'edit_projects') OR has_project_capability(project_id, 'manage_draws')
+  );
+CREATE POLICY "line_item_photos_delete_policy" ON line_item_photos
+  FOR DELETE USING (
+    has_project_capability(project_id, 'edit_projects') OR has_project_capability(project_id, 'manage_draws')
+  );
+
+CREATE POLICY "budget_snapshots_select_policy" ON budget_snapshots
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "budget_snapshots_insert_policy" ON budget_snapshots
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "budget_snapshots_update_policy" ON budget_snapshots
+  FOR UPDATE USING (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "budget_snapshots_delete_policy" ON budget_snapshots
+  FOR DELETE USING (has_project_capability(project_id, 'edit_projects'));
+
+-- Draws (approval is checked in enforce_draw_approval_role())
+CREATE POLICY "draws_select_policy" ON draws
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "draws_insert_policy" ON draws
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'manage_draws'));
+CREATE POLICY "draws_update_policy" ON draws
+  FOR UPDATE USING (has_project_capability(project_id, 'manage_draws'));
+CREATE POLICY "draws_delete_policy" ON draws
+  FOR DELETE USING (has_project_capability(project_id, 'manage_draws'));
+
+CREATE POLICY "draw_allocations_select_policy" ON draw_allocations
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "draw_allocations_insert_policy" ON draw_allocations
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'manage_draws'));
+CREATE POLICY "draw_allocations_update_policy" ON draw_allocations
+  FOR UPDATE USING (has_project_capability(project_id, 'manage_draws'));
+CREATE POLICY "draw_allocations_delete_policy" ON draw_allocations
+  FOR DELETE USING (has_project_capability(project_id, 'manage_draws'));
+
+CREATE POLICY "draw_request_tokens_select_policy" ON draw_request_tokens
+  FOR SELECT USING (has_project_capability(project_id, 'manage_draws'));
+CREATE POLICY "draw_request_tokens_insert_policy" ON draw_request_tokens
+  FOR INSERT WITH CHECK (
+    has_project_capability(project_id, 'manage_draws') AND has_vendor_capability(vendor_id, 'view_vendors')
+  );
+CREATE POLICY "draw_request_tokens_update_policy" ON draw_request_tokens
+  FOR UPDATE USING (has_project_capability(project_id, 'manage_draws'));
+
+CREATE POLICY "draw_attachments_select_policy" ON draw_attachments
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "draw_attachments_insert_policy" ON draw_attachments
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'manage_draws'));
+CREATE POLICY "draw_attachments_delete_policy" ON draw_attachments
+  FOR DELETE USING (has_project_capability(project_id, 'manage_draws'));
+
+CREATE POLICY "project_reports_select_policy" ON project_reports
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "project_reports_insert_policy" ON project_reports
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'export_reports'));
+CREATE POLICY "project_reports_delete_policy" ON project_reports
+  FOR DELETE USING (has_project_capability(project_id, 'export_reports'));
+
+-- Bids
+CREATE POLICY "bid_requests_select_policy" ON bid_requests
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "bid_requests_insert_policy" ON bid_requests
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "bid_requests_update_policy" ON bid_requests
+  FOR UPDATE USING (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "bid_requests_delete_policy" ON bid_requests
+  FOR DELETE USING (has_project_capability(project_id, 'edit_projects'));
+
+CREATE POLICY "bid_request_items_select_policy" ON bid_request_items
+  FOR SELECT USING (can_view_project(bid_request_project_id(bid_request_id)));
+CREATE POLICY "bid_request_items_insert_policy" ON bid_request_items
+  FOR INSERT WITH CHECK (has_project_capability(bid_request_project_id(bid_request_id), 'edit_projects'));
+CREATE POLICY "bid_request_items_delete_policy" ON bid_request_items
+  FOR DELETE USING (has_project_capability(bid_request_project_id(bid_request_id), 'edit_projects'));
+
+CREATE POLICY "bids_select_policy" ON bids
+  FOR SELECT USING (can_view_project(bid_request_project_id(bid_request_id)));
+CREATE POLICY "bids_insert_policy" ON bids
+  FOR INSERT WITH CHECK (has_project_capability(bid_request_project_id(bid_request_id), 'edit_projects'));
+CREATE POLICY "bids_update_policy" ON bids
+  FOR UPDATE USING (has_project_capability(bid_request_project_id(bid_request_id), 'edit_projects'));
+CREATE POLICY "bids_delete_policy" ON bids
+  FOR DELETE USING (has_project_capability(bid_request_project_id(bid_request_id), 'edit_projects'));
+
+CREATE POLICY "bid_line_items_select_policy" ON bid_line_items
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM bids b WHERE b.id = bid_line_items.bid_id AND can_view_project(bid_request_project_id(b.bid_request_id)))
+  );
+CREATE POLICY "bid_line_items_insert_policy" ON bid_line_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM bids b
+      WHERE b.id = bid_line_items.bid_id
+      AND has_project_capability(bid_request_project_id(b.bid_request_id), 'edit_projects')
+    )
+  );
+CREATE POLICY "bid_line_items_update_policy" ON bid_line_items
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM bids b
+      WHERE b.id = bid_line_items.bid_id
+      AND has_project_capability(bid_request_project_id(b.bid_request_id), 'edit_projects')
+    )
+  );
+CREATE POLICY "bid_line_items_delete_policy" ON bid_line_items
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM bids b
+      WHERE b.id = bid_line_items.bid_id
+      AND has_project_capability(bid_request_project_id(b.bid_request_id), 'edit_projects')
+    )
+  );
+
+-- Journal
+CREATE POLICY "journal_pages_select_policy" ON journal_pages
+  FOR SELECT USING (has_workspace_capability(workspace_id, 'view_all_projects'));
+CREATE POLICY "journal_pages_insert_policy" ON journal_pages
+  FOR INSERT WITH CHECK (workspace_id IS NOT NULL AND has_workspace_capability(workspace_id, 'edit_projects'));
+CREATE POLICY "journal_pages_update_policy" ON journal_pages
+  FOR UPDATE USING (has_workspace_capability(workspace_id, 'edit_projects'));
+CREATE POLICY "journal_pages_delete_policy" ON journal_pages
+  FOR DELETE USING (has_workspace_capability(workspace_id, 'edit_projects'));
+
+-- Vendors
+CREATE POLICY "vendors_select_policy" ON vendors
+  FOR SELECT USING (has_workspace_capability(workspace_id, 'view_vendors'));
+CREATE POLICY "vendors_insert_policy" ON vendors
+  FOR INSERT WITH CHECK (workspace_id IS NOT NULL AND has_workspace_capability(workspace_id, 'manage_vendors'));
+CREATE POLICY "vendors_update_policy" ON vendors
+  FOR UPDATE USING (has_workspace_capability(workspace_id, 'manage_vendors'))
+  WITH CHECK (has_workspace_capability(workspace_id, 'manage_vendors'));
+CREATE POLICY "vendors_delete_policy" ON vendors
+  FOR DELETE USING (has_workspace_capability(workspace_id, 'manage_vendors'));
+
+CREATE POLICY "vendor_tags_select_policy" ON vendor_tags
+  FOR SELECT USING (has_workspace_capability(workspace_id, 'view_vendors'));
+CREATE POLICY "vendor_tags_insert_policy" ON vendor_tags
+  FOR INSERT WITH CHECK (workspace_id IS NOT NULL AND has_workspace_capability(workspace_id, 'manage_vendors'));
+CREATE POLICY "vendor_tags_update_policy" ON vendor_tags
+  FOR UPDATE USING (has_workspace_capability(workspace_id, 'manage_vendors'));
+CREATE POLICY "vendor_tags_delete_policy" ON vendor_tags
+  FOR DELETE USING (has_workspace_capability(workspace_id, 'manage_vendors'));
+
+CREATE POLICY "vendor_tag_assignments_select_policy" ON vendor_tag_assignments
+  FOR SELECT USING (has_vendor_capability(vendor_id, 'view_vendors'));
+CREATE POLICY "vendor_tag_assignments_insert_policy" ON vendor_tag_assignments
+  FOR INSERT WITH CHECK (has_vendor_capability(vendor_id, 'manage_vendors'));
+CREATE POLICY "vendor_tag_assignments_delete_policy" ON vendor_tag_assignments
+  FOR DELETE USING (has_vendor_capability(vendor_id, 'manage_vendors'));
+
+-- Bid requests log contacts for the project manager, so edit_projects counts too
+CREATE POLICY "vendor_contacts_select_policy" ON vendor_contacts
+  FOR SELECT USING (has_vendor_capability(vendor_id, 'view_vendors'));
+CREATE POLICY "vendor_contacts_insert_policy" ON vendor_contacts
+  FOR INSERT WITH CHECK (
+    has_vendor_capability(vendor_id, 'manage_vendors') OR has_vendor_capability(vendor_id, 'edit_projects')
+  );
+CREATE POLICY "vendor_contacts_update_policy" ON vendor_contacts
+  FOR UPDATE USING (has_vendor_capability(vendor_id, 'manage_vendors'));
+CREATE POLICY "vendor_contacts_delete_policy" ON vendor_contacts
+  FOR DELETE USING (has_vendor_capability(vendor_id, 'manage_vendors'));
+
+CREATE POLICY "vendor_documents_select_policy" ON vendor_documents
+  FOR SELECT USING (has_vendor_capability(vendor_id, 'view_vendors'));
+CREATE POLICY "vendor_documents_insert_policy" ON vendor_documents
+  FOR INSERT WITH CHECK (has_vendor_capability(vendor_id, 'manage_vendors'));
+CREATE POLICY "vendor_documents_update_policy" ON vendor_documents
+  FOR UPDATE USING (has_vendor_capability(vendor_id, 'manage_vendors'));
+CREATE POLICY "vendor_documents_delete_policy" ON vendor_documents
+  FOR DELETE USING (has_vendor_capability(vendor_id, 'manage_vendors'));
+
+-- Calculation profiles stay personal, but teammates can read the profile a
+-- project they can see is analyzed with: the assigned one, or the owner's
+-- default when none is assigned. project_summary, useProjectCalculationSettings
+-- and the PDF renderer all resolve in that order, so every member sees the
+-- same MAO and ROI.
+CREATE POLICY "calculation_settings_select_policy" ON calculation_settings
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.calculation_settings_id = calculation_settings.id
+      AND can_view_project(p.id)
+    )
+    OR (
+      is_default
+      AND EXISTS (
+        SELECT 1 FROM projects p
+        WHERE p.user_id = calculation_settings.user_id
+        AND p.calculation_settings_id IS NULL
+        AND can_view_project(p.id)
+      )
+    )
+  );
+CREATE POLICY "calculation_settings_insert_policy" ON calculation_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "calculation_settings_update_policy" ON calculation_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "calculation_settings_delete_policy" ON calculation_settings
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Budget templates belong to the workspace, like the vendors their lines name
+CREATE POLICY "budget_templates_select_policy" ON budget_templates
+  FOR SELECT USING (has_workspace_capability(workspace_id, 'edit_projects'));
+CREATE POLICY "budget_templates_insert_policy" ON budget_templates
+  FOR INSERT WITH CHECK (workspace_id IS NOT NULL AND has_workspace_capability(workspace_id, 'edit_projects'));
+CREATE POLICY "budget_templates_update_policy" ON budget_templates
+  FOR UPDATE USING (has_workspace_capability(workspace_id, 'edit_projects'));
+CREATE POLICY "budget_templates_delete_policy" ON budget_templates
+  FOR DELETE USING (has_workspace_capability(workspace_id, 'edit_projects'));
+
+CREATE POLICY "budget_template_items_select_policy" ON budget_template_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM budget_templates t
+      WHERE t.id = budget_template_items.template_id
+      AND has_workspace_capability(t.workspace_id, 'edit_projects')
+    )
+  );
+CREATE POLICY "budget_template_items_insert_policy" ON budget_template_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM budget_templates t
+      WHERE t.id = budget_template_items.template_id
+      AND has_workspace_capability(t.workspace_id, 'edit_projects')
+    )
+  );
+CREATE POLICY "budget_template_items_update_policy" ON budget_template_items
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM budget_templates t
+      WHERE t.id = budget_template_items.template_id
+      AND has_workspace_capability(t.workspace_id, 'edit_projects')
+    )
+  );
+CREATE POLICY "budget_template_items_delete_policy" ON budget_template_items
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM budget_templates t
+      WHERE t.id = budget_template_items.template_id
+      AND has_workspace_capability(t.workspace_id, 'edit_projects')
+    )
+  );
+
+-- ============================================================================
+-- 7. STORAGE
+-- ============================================================================
+
+DROP POLICY IF EXISTS "project_reports_storage_insert" ON storage.objects;
+DROP POLICY IF EXISTS "project_reports_storage_select" ON storage.objects;
+DROP POLICY IF EXISTS "project_reports_storage_delete" ON storage.objects;
+DROP POLICY IF EXISTS "vendor_documents_storage_insert" ON storage.objects;
+DROP POLICY IF EXISTS "vendor_documents_storage_select" ON storage.objects;
+DROP POLICY IF EXISTS "vendor_documents_storage_delete" ON storage.objects;
+-- project-photos policies from supabase/storage-setup.md
+DROP POLICY IF EXISTS "Users can upload photos to own projects" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view photos from own projects" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete photos from own projects" ON storage.objects;
+DROP POLICY IF EXISTS "project_photos_storage_insert" ON storage.objects;
+DROP POLICY IF EXISTS "project_photos_storage_select" ON storage.objects;
+DROP POLICY IF EXISTS "project_photos_storage_delete" ON storage.objects;
+
+-- Same access as the line_item_photos rows (bookkeepers attach receipts)
+CREATE POLICY "project_photos_storage_insert" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'project-photos'
+    AND EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id::TEXT = (storage.foldername(name))[1]
+      AND (has_project_capability(p.id, 'edit_projects') OR has_project_capability(p.id, 'manage_draws'))
+    )
+  );
+
+CREATE POLICY "project_photos_storage_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'project-photos'
+    AND EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id::TEXT = (storage.foldername(name))[1]
+      AND can_view_project(p.id)
+    )
+  );
+
+CREATE POLICY "project_photos_storage_delete" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'project-photos'
+    AND EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id::TEXT = (storage.foldername(name))[1]
+      AND (has_project_capability(p.id, 'edit_projects') OR has_project_capability(p.id, 'manage_draws'))
+    )
+  );
+
+CREATE POLICY "project_reports_storage_insert" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'project-reports'
+    AND EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id::TEXT = (storage.foldername(name))[1]
+      AND has_project_capability(p.id, 'export_reports')
+    )
+  );
+
+CREATE POLICY "project_reports_storage_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'project-reports'
+    AND EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id::TEXT = (storage.foldername(name))[1]
+      AND can_view_project(p.id)
+    )
+  );
+
+CREATE POLICY "project_reports_storage_delete" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'project-reports'
+    AND EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id::TEXT = (storage.foldername(name))[1]
+      AND has_project_capability(p.id, 'export_reports')
+    )
+  );
+
+-- Merged vendors' documents keep the duplicate's folder (see vendor merge),
+-- so reads and deletes also go through the vendor_documents row.
+CREATE POLICY "vendor_documents_storage_insert" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'vendor-documents'
+    AND EXISTS (
+      SELECT 1 FROM vendors v
+      WHERE v.id::TEXT = (storage.foldername(name))[1]
+      AND has_vendor_capability(v.id, 'manage_vendors')
+    )
+  );
+
+CREATE POLICY "vendor_documents_storage_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'vendor-documents'
+    AND EXISTS (
+      SELECT 1 FROM vendor_documents d
+      WHERE d.storage_path = name
+      AND has_vendor_capability(d.vendor_id, 'view_vendors')
+    )
+  );
+
+CREATE POLICY "vendor_documents_storage_delete" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'vendor-documents'
+    AND EXISTS (
+      SELECT 1 FROM vendor_documents d
+      WHERE d.storage_path = name
+      AND has_vendor_capability(d.vendor_id, 'manage_vendors')
+    )
+  );
+
+-- ============================================================================
+-- 8. VIEWS
+-- The dashboard views ran as their owner, which skipped RLS. Now that
+-- investors share a workspace they must only total what the caller can see.
+-- ============================================================================
+
+ALTER VIEW portfolio_summary SET (security_invoker = true);
+ALTER VIEW projects_with_risks SET (security_invoker = true);
+ALTER VIEW category_totals SET (security_invoker = true);
+ALTER VIEW vendor_with_tags SET (security_invoker = true);
+ALTER VIEW vendor_contact_summary SET (security_invoker = true);
+
+-- ============================================================================
+-- 9. INVITATIONS
+-- The invitee isn't a member yet, so accepting runs as definer and checks
+-- the token and the signed-in email itself.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION accept_workspace_invitation(p_token_hash TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation workspace_invitations;
+  v_email TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept the invitation'
+      USING ERRCODE = 'P0001', HINT = 'invitation_not_found';
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM workspace_invitations
+  WHERE token_hash = p_token_hash
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+  FOR UPDATE;
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'This invitation is no longer valid'
+      USING ERRCODE = 'P0001', HINT = 'invitation_not_found';
+  END IF;
+
+  IF v_invitation.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This invitation has expired'
+      USING ERRCODE = 'P0001', HINT = 'invitation_expired';
+  END IF;
+
+  SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+  IF lower(trim(v_email)) IS DISTINCT FROM lower(trim(v_invitation.email)) THEN
+    RAISE EXCEPTION 'This invitation was sent to %', v_invitation.email
+      USING ERRCODE = 'P0001', HINT = 'invitation_wrong_email';
+  END IF;
+
+  -- Joining again keeps the existing membership; the invitation can only add
+  INSERT INTO workspace_members (workspace_id, user_id, role, invited_by)
+  VALUES (v_invitation.workspace_id, auth.uid(), v_invitation.role, v_invitation.invited_by)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  UPDATE workspace_invitations
+  SET accepted_at = NOW(), accepted_by = auth.uid()
+  WHERE id = v_invitation.id;
+
+  UPDATE profiles SET active_workspace_id = v_invitation.workspace_id WHERE id = auth.uid();
+
+  RETURN v_invitation.workspace_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_workspace_invitation(TEXT) TO authenticated;
+
+-- ============================================================================
+-- 10. REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE workspace_members;
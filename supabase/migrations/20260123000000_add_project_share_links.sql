@@ -0,0 +1,277 @@
+-- ============================================================================
+-- PROJECT SHARE LINKS
+-- Read-only, expiring links to /share/[token] for investors and lenders who
+-- are not members of the workspace.
+--
+-- Tokens work like vendor draw request links: only the SHA-256 hash is
+-- stored, viewers are anonymous, and get_project_share() re-validates the
+-- token on every view. The owner picks which sections (and which budget
+-- columns) a link exposes; get_project_share() leaves everything else out
+-- of its result, since anyone holding the token can call it directly.
+-- Revoking sets revoked_at; the row is kept as the revocation list.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. PROJECT_SHARE_LINKS TABLE
+-- ============================================================================
+
+CREATE TABLE project_share_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  -- Who the link is for, e.g. "First Street Capital"
+  label TEXT NOT NULL CHECK (LENGTH(TRIM(label)) > 0),
+
+  -- What the link exposes
+  sections TEXT[] NOT NULL DEFAULT ARRAY['deal_summary', 'budget', 'draws', 'photos']
+    CHECK (sections <@ ARRAY['deal_summary', 'budget', 'draws', 'photos'] AND CARDINALITY(sections) > 0),
+  budget_columns TEXT[] NOT NULL DEFAULT ARRAY['forecast', 'actual']
+    CHECK (budget_columns <@ ARRAY['underwriting', 'forecast', 'actual']),
+  photo_ids UUID[] NOT NULL DEFAULT '{}',
+
+  -- Token
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+
+  -- View tracking
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+
+  -- Meta
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_project_share_links_project ON project_share_links(project_id);
+
+COMMENT ON COLUMN project_share_links.token_hash IS 'Hex SHA-256 of the raw token in the share link';
+COMMENT ON COLUMN project_share_links.photo_ids IS 'Curated line_item_photos shown when the photos section is shared';
+
+CREATE TABLE project_share_link_views (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  link_id UUID REFERENCES project_share_links(id) ON DELETE CASCADE NOT NULL,
+  viewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  user_agent TEXT
+);
+
+CREATE INDEX idx_project_share_link_views_link ON project_share_link_views(link_id, viewed_at DESC);
+
+ALTER TABLE project_share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_share_link_views ENABLE ROW LEVEL SECURITY;
+
+-- Sharing a project outside the team is treated like exporting a report
+CREATE POLICY "project_share_links_select_policy" ON project_share_links
+  FOR SELECT USING (has_project_capability(project_id, 'export_reports'));
+CREATE POLICY "project_share_links_insert_policy" ON project_share_links
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'export_reports'));
+CREATE POLICY "project_share_links_update_policy" ON project_share_links
+  FOR UPDATE USING (has_project_capability(project_id, 'export_reports'));
+
+-- Views are only written by get_project_share()
+CREATE POLICY "project_share_link_views_select_policy" ON project_share_link_views
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM project_share_links l
+      WHERE l.id = project_share_link_views.link_id
+      AND has_project_capability(l.project_id, 'export_reports')
+    )
+  );
+
+-- ============================================================================
+-- 2. TOKEN VALIDATION
+-- ============================================================================
+
+-- Returns the link row when it exists, is not revoked and has not expired
+CREATE OR REPLACE FUNCTION find_active_project_share_link(p_token_hash TEXT)
+RETURNS project_share_links
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM project_share_links
+  WHERE token_hash = p_token_hash
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+$$;
+
+-- ============================================================================
+-- 3. SHARED PROJECT
+-- Everything the read-only page shows for a valid link, as JSON. Sections
+-- that are not shared are NULL and hidden budget columns are left out of
+-- each category row. Records the view.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_project_share(p_token_hash TEXT, p_user_agent TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link project_share_links;
+  v_hidden_columns TEXT[];
+  v_result JSONB;
+BEGIN
+  v_link := find_active_project_share_link(p_token_hash);
+  IF v_link.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT ARRAY(
+    SELECT c FROM unnest(ARRAY['underwriting', 'forecast', 'actual']) c
+    WHERE c <> ALL (v_link.budget_columns)
+  ) INTO v_hidden_columns;
+
+  SELECT jsonb_build_object(
+    'label', v_link.label,
+    'expires_at', v_link.expires_at,
+    'sections', to_jsonb(v_link.sections),
+    'budget_columns', to_jsonb(v_link.budget_columns),
+    'project', jsonb_build_object(
+      'name', p.name,
+      'address', p.address,
+      'city', p.city,
+      'state', p.state,
+      'zip', p.zip,
+      'beds', p.beds,
+      'baths', p.baths,
+      'sqft', p.sqft,
+      'year_built', p.year_built,
+      'property_type', p.property_type,
+      'status', p.status,
+      'rehab_start_date', p.rehab_start_date,
+      'target_complete_date', p.target_complete_date
+    ),
+    'deal_summary', CASE WHEN 'deal_summary' = ANY (v_link.sections) THEN (
+      SELECT jsonb_build_object(
+        'arv', s.arv,
+        'purchase_price', s.purchase_price,
+        'closing_costs', s.closing_costs,
+        'rehab_budget', s.rehab_budget,
+        'rehab_actual', s.rehab_actual,
+        'holding_costs_total', s.holding_costs_total,
+        'selling_costs', s.selling_costs,
+        'total_investment', s.total_investment,
+        'gross_profit', s.gross_profit,
+        'roi', s.roi,
+        'hold_months', s.hold_months
+      )
+      FROM project_summary s
+      WHERE s.id = p.id
+    ) END,
+    'budget', CASE WHEN 'budget' = ANY (v_link.sections) THEN (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'category', b.category,
+          'underwriting', b.underwriting,
+          'forecast', b.forecast,
+          'actual', b.actual
+        ) - v_hidden_columns
+        ORDER BY b.category
+      ), '[]'::jsonb)
+      FROM (
+        SELECT
+          category,
+          COALESCE(SUM(underwriting_amount), 0) AS underwriting,
+          COALESCE(SUM(forecast_amount), 0) AS forecast,
+          COALESCE(SUM(actual_amount), 0) AS actual
+        FROM budget_items
+        WHERE project_id = p.id
+        GROUP BY category
+      ) b
+    ) END,
+    'draws', CASE WHEN 'draws' = ANY (v_link.sections) THEN (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'draw_number', d.draw_number,
+          'milestone', d.milestone,
+          'description', d.description,
+          'percent_complete', d.percent_complete,
+          'amount', d.amount,
+          'status', d.status,
+          'date_requested', d.date_requested,
+          'date_paid', d.date_paid,
+          'vendor_name', v.name
+        )
+        ORDER BY d.draw_number
+      ), '[]'::jsonb)
+      FROM draws d
+      LEFT JOIN vendors v ON v.id = d.vendor_id
+      WHERE d.project_id = p.id
+    ) END,
+    'photos', CASE WHEN 'photos' = ANY (v_link.sections) THEN (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', ph.id,
+          'storage_path', ph.storage_path,
+          'photo_type', ph.photo_type,
+          'caption', ph.caption,
+          'taken_at', COALESCE(ph.taken_at, ph.created_at)
+        )
+        ORDER BY COALESCE(ph.taken_at, ph.created_at)
+      ), '[]'::jsonb)
+      FROM line_item_photos ph
+      WHERE ph.project_id = p.id
+        AND ph.id = ANY (v_link.photo_ids)
+    ) END
+  )
+  INTO v_result
+  FROM projects p
+  WHERE p.id = v_link.project_id;
+
+  INSERT INTO project_share_link_views (link_id, user_agent)
+  VALUES (v_link.id, LEFT(p_user_agent, 500));
+
+  UPDATE project_share_links
+  SET view_count = view_count + 1, last_viewed_at = NOW()
+  WHERE id = v_link.id;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION find_active_project_share_link(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_project_share(TEXT, TEXT) TO anon, authenticated;
+
+-- ============================================================================
+-- 4. SHARED PHOTOS
+-- project-photos is private and its policies only cover the team. A photo
+-- curated into an active link that shares photos can also be read, so the
+-- share page can sign URLs for it without a session.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION project_photo_is_shared(p_storage_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM line_item_photos ph
+    JOIN project_share_links l ON l.project_id = ph.project_id
+    WHERE ph.storage_path = p_storage_path
+      AND ph.id = ANY (l.photo_ids)
+      AND 'photos' = ANY (l.sections)
+      AND l.revoked_at IS NULL
+      AND l.expires_at > NOW()
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION project_photo_is_shared(TEXT) TO anon, authenticated;
+
+CREATE POLICY "project_photos_shared_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'project-photos'
+    AND project_photo_is_shared(name)
+  );
+
+-- ============================================================================
+-- 5. REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE project_share_links;
@@ -0,0 +1,154 @@
+-- ============================================================================
+-- AUDIT LOG
+-- Database-level change capture for projects, budget_items, draws, vendors
+-- and line_item_photos. Every insert, update and delete records who made it
+-- (auth.uid(), NULL for the vendor portal and other system writes), when,
+-- and field-level before/after values.
+--
+-- Rows are written only by the record_audit_log() trigger and are never
+-- updated or deleted. project_id and record_id deliberately have no foreign
+-- keys so history outlives the rows it describes (and cascading deletes can
+-- still be logged).
+-- ============================================================================
+
+-- ============================================================================
+-- 1. AUDIT_LOG TABLE
+-- ============================================================================
+
+CREATE TABLE audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+  -- Scope, used by RLS and the per-project feed
+  workspace_id UUID,
+  project_id UUID,
+
+  -- What changed
+  table_name TEXT NOT NULL
+    CHECK (table_name IN ('projects', 'budget_items', 'draws', 'vendors', 'line_item_photos')),
+  record_id UUID NOT NULL,
+  record_label TEXT,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+
+  -- { "<column>": { "old": <value>, "new": <value> } }
+  changes JSONB NOT NULL DEFAULT '{}',
+
+  -- Who and when
+  actor_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_audit_log_project ON audit_log(project_id, created_at DESC);
+CREATE INDEX idx_audit_log_record ON audit_log(table_name, record_id, created_at DESC);
+
+COMMENT ON COLUMN audit_log.record_label IS 'Name of the row when it changed (item, vendor name, draw number), kept for deleted rows';
+COMMENT ON COLUMN audit_log.actor_id IS 'auth.uid() of the user who made the change; NULL for vendor portal and system writes';
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Whoever can see the project (or the workspace's vendors) can see its
+-- history. There are no insert, update or delete policies.
+CREATE POLICY "audit_log_select_policy" ON audit_log
+  FOR SELECT USING (
+    (project_id IS NOT NULL AND can_view_project(project_id))
+    OR (table_name = 'vendors' AND has_workspace_capability(workspace_id, 'view_vendors'))
+  );
+
+-- ============================================================================
+-- 2. CHANGE CAPTURE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Bookkeeping and generated columns that would only add noise
+  v_ignored TEXT[] := ARRAY[
+    'id', 'user_id', 'workspace_id', 'created_at', 'updated_at', 'sort_order',
+    'forecast_variance', 'actual_variance', 'total_variance'
+  ];
+  v_old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_project_id UUID;
+  v_workspace_id UUID;
+  v_label TEXT;
+  v_changes JSONB;
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'projects' THEN
+      v_project_id := (v_row->>'id')::UUID;
+      v_workspace_id := (v_row->>'workspace_id')::UUID;
+      v_label := v_row->>'name';
+    WHEN 'vendors' THEN
+      v_workspace_id := (v_row->>'workspace_id')::UUID;
+      v_label := v_row->>'name';
+    ELSE
+      v_project_id := (v_row->>'project_id')::UUID;
+      SELECT workspace_id INTO v_workspace_id FROM projects WHERE id = v_project_id;
+      v_label := CASE TG_TABLE_NAME
+        WHEN 'budget_items' THEN v_row->>'item'
+        WHEN 'draws' THEN 'Draw #' || (v_row->>'draw_number')
+        ELSE COALESCE(NULLIF(v_row->>'caption', ''), v_row->>'file_name')
+      END;
+  END CASE;
+
+  SELECT COALESCE(
+    jsonb_object_agg(k, jsonb_build_object('old', v_old->k, 'new', v_new->k)),
+    '{}'::jsonb
+  )
+  INTO v_changes
+  FROM jsonb_object_keys(v_row) AS k
+  WHERE k <> ALL (v_ignored)
+    AND (v_old->k) IS DISTINCT FROM (v_new->k)
+    -- Inserts and deletes only record the fields that had a value
+    AND (TG_OP = 'UPDATE' OR jsonb_typeof(v_row->k) <> 'null');
+
+  -- Updates that only touched ignored columns (e.g. reordering) aren't history
+  IF TG_OP = 'UPDATE' AND v_changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (workspace_id, project_id, table_name, record_id, record_label, action, changes, actor_id)
+  VALUES (
+    v_workspace_id,
+    v_project_id,
+    TG_TABLE_NAME,
+    (v_row->>'id')::UUID,
+    v_label,
+    LOWER(TG_OP),
+    v_changes,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_projects
+  AFTER INSERT OR UPDATE OR DELETE ON projects
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_budget_items
+  AFTER INSERT OR UPDATE OR DELETE ON budget_items
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_draws
+  AFTER INSERT OR UPDATE OR DELETE ON draws
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_vendors
+  AFTER INSERT OR UPDATE OR DELETE ON vendors
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_line_item_photos
+  AFTER INSERT OR UPDATE OR DELETE ON line_item_photos
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- ============================================================================
+-- 3. REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE audit_log;
@@ -0,0 +1,394 @@
+-- ============================================================================
+-- CHANGE ORDERS
+-- Scope changes as first-class records instead of silent forecast edits.
+--
+-- A change order is numbered per project (CO #1, #2...), carries a reason
+-- code and the vendor doing the work, and lists the budget lines it affects
+-- with a signed delta for each. It moves draft -> submitted -> approved or
+-- rejected. Lines can only be edited while it is a draft; approved and
+-- rejected change orders are final.
+--
+-- Approval adds each delta to the line's budgeted amount (forecast, else
+-- underwriting) in the same transaction, whichever way the status is set.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TABLES
+-- ============================================================================
+
+CREATE TABLE change_orders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  number INTEGER NOT NULL CHECK (number > 0),
+
+  -- Scope
+  title TEXT NOT NULL,
+  reason_code TEXT NOT NULL
+    CHECK (reason_code IN ('owner_requested', 'hidden_condition', 'code_requirement')),
+  description TEXT,
+  vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL,
+
+  -- Workflow
+  status TEXT DEFAULT 'draft' NOT NULL CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+  submitted_at TIMESTAMPTZ,
+  decided_at TIMESTAMPTZ,
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  rejection_reason TEXT,
+
+  -- Meta
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (project_id, number)
+);
+
+CREATE TABLE change_order_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  change_order_id UUID REFERENCES change_orders(id) ON DELETE CASCADE NOT NULL,
+  budget_item_id UUID REFERENCES budget_items(id) ON DELETE CASCADE NOT NULL,
+  delta NUMERIC(12,2) NOT NULL CHECK (delta <> 0),
+  notes TEXT,
+
+  UNIQUE (change_order_id, budget_item_id)
+);
+
+CREATE INDEX idx_change_orders_project ON change_orders(project_id, number);
+CREATE INDEX idx_change_orders_vendor ON change_orders(vendor_id);
+CREATE INDEX idx_change_order_items_change_order ON change_order_items(change_order_id);
+CREATE INDEX idx_change_order_items_budget_item ON change_order_items(budget_item_id);
+
+COMMENT ON COLUMN change_order_items.delta IS 'Signed change to the line''s budgeted amount, applied to forecast_amount on approval';
+
+CREATE TRIGGER change_orders_updated_at
+  BEFORE UPDATE ON change_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- Anyone who can see the project sees its change orders; editing follows
+-- edit_projects. Lines (and deletes) are limited to drafts.
+-- ============================================================================
+
+ALTER TABLE change_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE change_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION change_order_project_id(p_change_order_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT project_id FROM change_orders WHERE id = p_change_order_id;
+$$;
+
+CREATE OR REPLACE FUNCTION is_draft_change_order(p_change_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM change_orders WHERE id = p_change_order_id AND status = 'draft');
+$$;
+
+CREATE POLICY "change_orders_select_policy" ON change_orders
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "change_orders_insert_policy" ON change_orders
+  FOR INSERT WITH CHECK (status = 'draft' AND has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "change_orders_update_policy" ON change_orders
+  FOR UPDATE USING (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "change_orders_delete_policy" ON change_orders
+  FOR DELETE USING (status = 'draft' AND has_project_capability(project_id, 'edit_projects'));
+
+CREATE POLICY "change_order_items_select_policy" ON change_order_items
+  FOR SELECT USING (can_view_project(change_order_project_id(change_order_id)));
+CREATE POLICY "change_order_items_insert_policy" ON change_order_items
+  FOR INSERT WITH CHECK (
+    is_draft_change_order(change_order_id)
+    AND has_project_capability(change_order_project_id(change_order_id), 'edit_projects')
+  );
+CREATE POLICY "change_order_items_update_policy" ON change_order_items
+  FOR UPDATE USING (
+    is_draft_change_order(change_order_id)
+    AND has_project_capability(change_order_project_id(change_order_id), 'edit_projects')
+  );
+CREATE POLICY "change_order_items_delete_policy" ON change_order_items
+  FOR DELETE USING (
+    is_draft_change_order(change_order_id)
+    AND has_project_capability(change_order_project_id(change_order_id), 'edit_projects')
+  );
+
+-- ============================================================================
+-- 3. WORKFLOW
+-- draft -> submitted, submitted -> draft (withdrawn), submitted -> approved
+-- or rejected. Stamps the submit and decision times; approval applies the
+-- deltas to the budget.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_change_order_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Change order #% is % and can no longer be changed', OLD.number, OLD.status;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    IF OLD.status <> 'draft' THEN
+      RAISE EXCEPTION 'Only draft change orders can be edited';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'draft' AND NEW.status = 'submitted')
+    OR (OLD.status = 'submitted' AND NEW.status IN ('draft', 'approved', 'rejected'))
+  ) THEN
+    RAISE EXCEPTION 'A % change order cannot be marked %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'submitted' THEN
+    IF NOT EXISTS (SELECT 1 FROM change_order_items WHERE change_order_id = NEW.id) THEN
+      RAISE EXCEPTION 'A change order needs at least one budget line';
+    END IF;
+    NEW.submitted_at := NOW();
+  ELSIF NEW.status = 'draft' THEN
+    NEW.submitted_at := NULL;
+  ELSE
+    NEW.decided_at := NOW();
+    NEW.decided_by := auth.uid();
+  END IF;
+
+  IF NEW.status <> 'rejected' THEN
+    NEW.rejection_reason := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_change_order_workflow
+  BEFORE UPDATE ON change_orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_change_order_workflow();
+
+-- Runs as the approver, so enforce_budget_item_role() and the audit log see
+-- who changed the forecast.
+CREATE OR REPLACE FUNCTION apply_change_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_item TEXT;
+BEGIN
+  SELECT bi.item INTO v_item
+  FROM change_order_items coi
+  JOIN budget_items bi ON bi.id = coi.budget_item_id
+  WHERE coi.change_order_id = NEW.id
+    AND CASE WHEN COALESCE(bi.forecast_amount, 0) > 0 THEN bi.forecast_amount ELSE COALESCE(bi.underwriting_amount, 0) END
+      + coi.delta < 0
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Change order #% would take "%" below zero', NEW.number, v_item;
+  END IF;
+
+  UPDATE budget_items bi
+  SET forecast_amount =
+    CASE WHEN COALESCE(bi.forecast_amount, 0) > 0 THEN bi.forecast_amount ELSE COALESCE(bi.underwriting_amount, 0) END
+    + coi.delta
+  FROM change_order_items coi
+  WHERE coi.change_order_id = NEW.id
+    AND bi.id = coi.budget_item_id
+    AND bi.project_id = NEW.project_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_change_order
+  AFTER UPDATE OF status ON change_orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'approved' AND OLD.status <> 'approved')
+  EXECUTE FUNCTION apply_change_order();
+
+-- ============================================================================
+-- 4. SAVE A DRAFT
+-- Creates a change order (p_change_order_id NULL) with the project's next
+-- number, or updates a draft, and replaces its lines.
+-- p_lines: [{ budget_item_id, delta, notes }] for lines on the project.
+-- Runs as the caller, so RLS limits it to drafts on editable projects.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION save_change_order(
+  p_change_order_id UUID,
+  p_project_id UUID,
+  p_title TEXT,
+  p_reason_code TEXT,
+  p_vendor_id UUID,
+  p_description TEXT,
+  p_lines JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id UUID := p_change_order_id;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM projects WHERE id = p_project_id) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF v_id IS NULL THEN
+    -- Serialize numbering per project
+    PERFORM pg_advisory_xact_lock(hashtext('change_orders:' || p_project_id::TEXT));
+
+    INSERT INTO change_orders (project_id, number, title, reason_code, vendor_id, description)
+    SELECT p_project_id, COALESCE(MAX(number), 0) + 1, p_title, p_reason_code, p_vendor_id, p_description
+    FROM change_orders
+    WHERE project_id = p_project_id
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE change_orders
+    SET title = p_title,
+        reason_code = p_reason_code,
+        vendor_id = p_vendor_id,
+        description = p_description
+    WHERE id = v_id
+      AND project_id = p_project_id
+      AND status = 'draft';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Only draft change orders can be edited';
+    END IF;
+
+    DELETE FROM change_order_items WHERE change_order_id = v_id;
+  END IF;
+
+  INSERT INTO change_order_items (change_order_id, budget_item_id, delta, notes)
+  SELECT v_id, r.budget_item_id, r.delta, r.notes
+  FROM jsonb_to_recordset(p_lines) AS r(budget_item_id UUID, delta NUMERIC, notes TEXT)
+  WHERE COALESCE(r.delta, 0) <> 0
+    AND EXISTS (
+      SELECT 1 FROM budget_items bi
+      WHERE bi.id = r.budget_item_id
+      AND bi.project_id = p_project_id
+    );
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_change_order(UUID, UUID, TEXT, TEXT, UUID, TEXT, JSONB) TO authenticated;
+
+-- ============================================================================
+-- 5. VENDOR MERGE
+-- Same as 20260121000000_add_vendor_merge.sql, now also re-pointing change
+-- orders so a merge doesn't leave them without a vendor.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION merge_vendors(
+  p_survivor_id UUID,
+  p_duplicate_ids UUID[],
+  p_fields JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_duplicate_ids UUID[];
+  v_found INTEGER;
+BEGIN
+  v_duplicate_ids := ARRAY(
+    SELECT DISTINCT d FROM unnest(p_duplicate_ids) AS d WHERE d <> p_survivor_id
+  );
+
+  IF COALESCE(array_length(v_duplicate_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Pick at least one duplicate to merge';
+  END IF;
+
+  SELECT COUNT(*) INTO v_found
+  FROM vendors
+  WHERE id = p_survivor_id OR id = ANY(v_duplicate_ids);
+
+  IF v_found <> array_length(v_duplicate_ids, 1) + 1 THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  -- Surviving field values
+  UPDATE vendors v
+  SET
+    name = COALESCE(NULLIF(trim(f.name), ''), v.name),
+    trade = COALESCE(f.trade, v.trade),
+    contact_name = f.contact_name,
+    phone = f.phone,
+    email = f.email,
+    website = f.website,
+    address = f.address,
+    licensed = COALESCE(f.licensed, v.licensed),
+    insured = COALESCE(f.insured, v.insured),
+    w9_on_file = COALESCE(f.w9_on_file, v.w9_on_file),
+    retainage_percent = COALESCE(f.retainage_percent, v.retainage_percent),
+    rating = f.rating,
+    reliability = f.reliability,
+    price_level = f.price_level,
+    status = COALESCE(f.status, v.status),
+    notes = f.notes
+  FROM jsonb_populate_record(NULL::vendors, p_fields) f
+  WHERE v.id = p_survivor_id;
+
+  -- Budget, payments and history
+  UPDATE budget_items SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE draws SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE draw_allocations SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE draw_request_tokens SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE vendor_contacts SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE vendor_documents SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE budget_template_items SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE change_orders SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+
+  -- One bid per vendor per request
+  DELETE FROM bids
+  WHERE id IN (
+    SELECT ranked.id
+    FROM (
+      SELECT
+        b.id,
+        ROW_NUMBER() OVER (
+          PARTITION BY b.bid_request_id
+          ORDER BY
+            CASE b.status
+              WHEN 'awarded' THEN 0
+              WHEN 'received' THEN 1
+              WHEN 'not_awarded' THEN 2
+              WHEN 'requested' THEN 3
+              ELSE 4
+            END,
+            (b.vendor_id = p_survivor_id) DESC,
+            b.created_at
+        ) AS rn
+      FROM bids b
+      WHERE b.vendor_id = p_survivor_id OR b.vendor_id = ANY(v_duplicate_ids)
+    ) ranked
+    WHERE ranked.rn > 1
+  );
+  UPDATE bids SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+
+  -- Union of tags; the duplicates' own assignments go with them
+  INSERT INTO vendor_tag_assignments (vendor_id, tag_id)
+  SELECT DISTINCT p_survivor_id, vta.tag_id
+  FROM vendor_tag_assignments vta
+  WHERE vta.vendor_id = ANY(v_duplicate_ids)
+  ON CONFLICT (vendor_id, tag_id) DO NOTHING;
+
+  DELETE FROM vendors WHERE id = ANY(v_duplicate_ids);
+END;
+$$;
+
+-- ============================================================================
+-- 6. REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE change_orders;
@@ -0,0 +1,321 @@
+-- ============================================================================
+-- CONSTRUCTION SCHEDULE
+-- Per-project trade tasks (demo -> rough-ins -> inspection -> drywall ->
+-- paint -> flooring...) tied to a budget category and vendor, with
+-- durations in calendar days and finish-to-start dependencies.
+--
+-- start_date is the scheduled start; a task never starts before all of its
+-- predecessors have finished. The app computes the schedule and critical
+-- path (src/lib/schedule.ts) and saves rescheduled dates, along with the
+-- project's target_complete_date, through reschedule_project_tasks().
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TABLES
+-- ============================================================================
+
+CREATE TABLE schedule_tasks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  name TEXT NOT NULL,
+  category budget_category,
+  vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL,
+
+  start_date DATE,
+  duration_days INTEGER NOT NULL DEFAULT 1 CHECK (duration_days > 0),
+  completed_at TIMESTAMPTZ,
+
+  sort_order INTEGER DEFAULT 0,
+  notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Finish-to-start: task_id starts after predecessor_id finishes
+CREATE TABLE schedule_task_dependencies (
+  task_id UUID REFERENCES schedule_tasks(id) ON DELETE CASCADE NOT NULL,
+  predecessor_id UUID REFERENCES schedule_tasks(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (task_id, predecessor_id),
+  CHECK (task_id <> predecessor_id)
+);
+
+CREATE INDEX idx_schedule_tasks_project ON schedule_tasks(project_id, sort_order);
+CREATE INDEX idx_schedule_tasks_vendor ON schedule_tasks(vendor_id);
+CREATE INDEX idx_schedule_task_dependencies_predecessor ON schedule_task_dependencies(predecessor_id);
+
+CREATE TRIGGER schedule_tasks_updated_at
+  BEFORE UPDATE ON schedule_tasks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- 2. DEPENDENCY GUARD
+-- Both tasks must be on the same project, and the new link must not close a
+-- loop (walking the predecessor's own predecessors never reaches the task).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION check_schedule_task_dependency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (SELECT project_id FROM schedule_tasks WHERE id = NEW.task_id)
+    IS DISTINCT FROM (SELECT project_id FROM schedule_tasks WHERE id = NEW.predecessor_id)
+  THEN
+    RAISE EXCEPTION 'Dependent tasks must be on the same project';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE upstream(id) AS (
+      SELECT NEW.predecessor_id
+      UNION
+      SELECT d.predecessor_id
+      FROM schedule_task_dependencies d
+      JOIN upstream u ON d.task_id = u.id
+    )
+    SELECT 1 FROM upstream WHERE id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'That dependency would create a loop in the schedule';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_schedule_task_dependency
+  BEFORE INSERT OR UPDATE ON schedule_task_dependencies
+  FOR EACH ROW EXECUTE FUNCTION check_schedule_task_dependency();
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE schedule_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_task_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION schedule_task_project_id(p_task_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT project_id FROM schedule_tasks WHERE id = p_task_id;
+$$;
+
+CREATE POLICY "schedule_tasks_select_policy" ON schedule_tasks
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "schedule_tasks_insert_policy" ON schedule_tasks
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "schedule_tasks_update_policy" ON schedule_tasks
+  FOR UPDATE USING (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "schedule_tasks_delete_policy" ON schedule_tasks
+  FOR DELETE USING (has_project_capability(project_id, 'edit_projects'));
+
+CREATE POLICY "schedule_task_dependencies_select_policy" ON schedule_task_dependencies
+  FOR SELECT USING (can_view_project(schedule_task_project_id(task_id)));
+CREATE POLICY "schedule_task_dependencies_insert_policy" ON schedule_task_dependencies
+  FOR INSERT WITH CHECK (has_project_capability(schedule_task_project_id(task_id), 'edit_projects'));
+CREATE POLICY "schedule_task_dependencies_delete_policy" ON schedule_task_dependencies
+  FOR DELETE USING (has_project_capability(schedule_task_project_id(task_id), 'edit_projects'));
+
+-- ============================================================================
+-- 4. SEED FROM A TEMPLATE
+-- p_tasks: [{ key, name, category, vendor_id, duration_days, start_date,
+-- predecessor_keys: [key...] }] in order. Keys only link the tasks within
+-- the call. Runs as the caller, so RLS limits it to editable projects.
+-- Returns the number of tasks created.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION seed_project_schedule(p_project_id UUID, p_tasks JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_task JSONB;
+  v_ids JSONB := '{}';
+  v_id UUID;
+  v_order INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM projects WHERE id = p_project_id) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  FOR v_task IN SELECT * FROM jsonb_array_elements(p_tasks) LOOP
+    INSERT INTO schedule_tasks (project_id, name, category, vendor_id, duration_days, start_date, sort_order)
+    VALUES (
+      p_project_id,
+      v_task->>'name',
+      (v_task->>'category')::budget_category,
+      (v_task->>'vendor_id')::UUID,
+      COALESCE((v_task->>'duration_days')::INTEGER, 1),
+      (v_task->>'start_date')::DATE,
+      v_order
+    )
+    RETURNING id INTO v_id;
+
+    v_ids := v_ids || jsonb_build_object(v_task->>'key', v_id);
+    v_order := v_order + 1;
+
+    INSERT INTO schedule_task_dependencies (task_id, predecessor_id)
+    SELECT v_id, (v_ids->>k)::UUID
+    FROM jsonb_array_elements_text(COALESCE(v_task->'predecessor_keys', '[]')) AS k
+    WHERE v_ids ? k;
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$;
+
+-- ============================================================================
+-- 5. RESCHEDULE
+-- Saves the computed start dates (p_dates: [{ id, start_date }]) and moves
+-- the project's target_complete_date to the schedule's last finish day.
+-- Returns that date.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION reschedule_project_tasks(p_project_id UUID, p_dates JSONB)
+RETURNS DATE
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_finish DATE;
+BEGIN
+  UPDATE schedule_tasks t
+  SET start_date = r.start_date
+  FROM jsonb_to_recordset(p_dates) AS r(id UUID, start_date DATE)
+  WHERE t.id = r.id
+    AND t.project_id = p_project_id
+    AND t.start_date IS DISTINCT FROM r.start_date;
+
+  SELECT MAX(start_date + duration_days - 1) INTO v_finish
+  FROM schedule_tasks
+  WHERE project_id = p_project_id AND start_date IS NOT NULL;
+
+  IF v_finish IS NOT NULL THEN
+    UPDATE projects
+    SET target_complete_date = v_finish
+    WHERE id = p_project_id
+      AND target_complete_date IS DISTINCT FROM v_finish;
+  END IF;
+
+  RETURN v_finish;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION seed_project_schedule(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_project_tasks(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- 6. VENDOR MERGE
+-- Same as 20260125000000_add_change_orders.sql, now also re-pointing schedule
+-- tasks so a merge doesn't leave them without a vendor.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION merge_vendors(
+  p_survivor_id UUID,
+  p_duplicate_ids UUID[],
+  p_fields JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_duplicate_ids UUID[];
+  v_found INTEGER;
+BEGIN
+  v_duplicate_ids := ARRAY(
+    SELECT DISTINCT d FROM unnest(p_duplicate_ids) AS d WHERE d <> p_survivor_id
+  );
+
+  IF COALESCE(array_length(v_duplicate_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Pick at least one duplicate to merge';
+  END IF;
+
+  SELECT COUNT(*) INTO v_found
+  FROM vendors
+  WHERE id = p_survivor_id OR id = ANY(v_duplicate_ids);
+
+  IF v_found <> array_length(v_duplicate_ids, 1) + 1 THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  -- Surviving field values
+  UPDATE vendors v
+  SET
+    name = COALESCE(NULLIF(trim(f.name), ''), v.name),
+    trade = COALESCE(f.trade, v.trade),
+    contact_name = f.contact_name,
+    phone = f.phone,
+    email = f.email,
+    website = f.website,
+    address = f.address,
+    licensed = COALESCE(f.licensed, v.licensed),
+    insured = COALESCE(f.insured, v.insured),
+    w9_on_file = COALESCE(f.w9_on_file, v.w9_on_file),
+    retainage_percent = COALESCE(f.retainage_percent, v.retainage_percent),
+    rating = f.rating,
+    reliability = f.reliability,
+    price_level = f.price_level,
+    status = COALESCE(f.status, v.status),
+    notes = f.notes
+  FROM jsonb_populate_record(NULL::vendors, p_fields) f
+  WHERE v.id = p_survivor_id;
+
+  -- Budget, payments and history
+  UPDATE budget_items SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE draws SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE draw_allocations SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE draw_request_tokens SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE vendor_contacts SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE vendor_documents SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE budget_template_items SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE change_orders SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+  UPDATE schedule_tasks SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+
+  -- One bid per vendor per request
+  DELETE FROM bids
+  WHERE id IN (
+    SELECT ranked.id
+    FROM (
+      SELECT
+        b.id,
+        ROW_NUMBER() OVER (
+          PARTITION BY b.bid_request_id
+          ORDER BY
+            CASE b.status
+              WHEN 'awarded' THEN 0
+              WHEN 'received' THEN 1
+              WHEN 'not_awarded' THEN 2
+              WHEN 'requested' THEN 3
+              ELSE 4
+            END,
+            (b.vendor_id = p_survivor_id) DESC,
+            b.created_at
+        ) AS rn
+      FROM bids b
+      WHERE b.vendor_id = p_survivor_id OR b.vendor_id = ANY(v_duplicate_ids)
+    ) ranked
+    WHERE ranked.rn > 1
+  );
+  UPDATE bids SET vendor_id = p_survivor_id WHERE vendor_id = ANY(v_duplicate_ids);
+
+  -- Union of tags; the duplicates' own assignments go with them
+  INSERT INTO vendor_tag_assignments (vendor_id, tag_id)
+  SELECT DISTINCT p_survivor_id, vta.tag_id
+  FROM vendor_tag_assignments vta
+  WHERE vta.vendor_id = ANY(v_duplicate_ids)
+  ON CONFLICT (vendor_id, tag_id) DO NOTHING;
+
+  DELETE FROM vendors WHERE id = ANY(v_duplicate_ids);
+END;
+$$;
+
+-- ============================================================================
+-- 7. REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE schedule_tasks;
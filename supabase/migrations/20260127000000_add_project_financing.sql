@@ -0,0 +1,500 @@
+-- ============================================================================
+-- PROJECT FINANCING
+-- Loans attached to a project: hard money, private lenders and HELOCs, each
+-- with points, lender fees, an annual rate and interest-only payments. Part
+-- of a loan funds the purchase at closing; the rehab holdback is released
+-- through draws (draws.loan_id).
+--
+-- Interest accrues day by day (actual/365) from funding to payoff (the sale
+-- date, or close date + hold months). On a drawn-balance loan each paid draw
+-- adds to the balance from its paid date, and the undrawn holdback is
+-- assumed to be released evenly between today and payoff. Full-balance
+-- ("Dutch") loans charge interest on the whole loan from funding.
+--
+-- The cost of capital (points + fees + interest) replaces the profile's
+-- assumed loan interest in analyze_deal(), so it feeds MAO and ROI; loan
+-- principal is left out of cash invested. Mirrors src/lib/financing.ts.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TABLES
+-- ============================================================================
+
+CREATE TYPE loan_type AS ENUM ('hard_money', 'private', 'heloc', 'other');
+CREATE TYPE loan_interest_basis AS ENUM ('drawn_balance', 'full_balance');
+
+CREATE TABLE project_loans (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  lender_name TEXT NOT NULL,
+  loan_type loan_type NOT NULL DEFAULT 'hard_money',
+  lien_position INTEGER NOT NULL DEFAULT 1 CHECK (lien_position > 0),
+
+  -- Principal
+  purchase_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (purchase_amount >= 0),
+  rehab_holdback NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (rehab_holdback >= 0),
+
+  -- Terms
+  interest_rate NUMERIC(6,3) NOT NULL DEFAULT 0 CHECK (interest_rate >= 0),
+  interest_basis loan_interest_basis NOT NULL DEFAULT 'drawn_balance',
+  points NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (points >= 0),
+  lender_fees NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (lender_fees >= 0),
+  funded_date DATE, -- NULL funds on the project's close date
+  term_months INTEGER CHECK (term_months > 0),
+
+  notes TEXT,
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (purchase_amount + rehab_holdback > 0)
+);
+
+CREATE INDEX idx_project_loans_project ON project_loans(project_id, sort_order);
+
+CREATE TRIGGER project_loans_updated_at
+  BEFORE UPDATE ON project_loans
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- The loan whose holdback funds a draw
+ALTER TABLE draws ADD COLUMN loan_id UUID REFERENCES project_loans(id) ON DELETE SET NULL;
+CREATE INDEX idx_draws_loan ON draws(loan_id);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE project_loans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "project_loans_select_policy" ON project_loans
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "project_loans_insert_policy" ON project_loans
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "project_loans_update_policy" ON project_loans
+  FOR UPDATE USING (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "project_loans_delete_policy" ON project_loans
+  FOR DELETE USING (has_project_capability(project_id, 'edit_projects'));
+
+-- ============================================================================
+-- 3. COST OF CAPITAL
+-- Total principal and points + fees + interest across a project's loans;
+-- both NULL when the project has no loans. Mirrors calculateProjectFinancing().
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION project_financing(
+  p_project_id UUID,
+  OUT loan_amount NUMERIC,
+  OUT financing_costs NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_project projects;
+  v_loan project_loans;
+  v_draw RECORD;
+  v_amount NUMERIC;
+  v_funded DATE;
+  v_payoff DATE;
+  v_projected_from DATE;
+  v_drawn NUMERIC;
+  v_released NUMERIC;
+  v_balance_days NUMERIC;
+BEGIN
+  SELECT * INTO v_project FROM projects WHERE id = p_project_id;
+
+  FOR v_loan IN SELECT * FROM project_loans WHERE project_id = p_project_id LOOP
+    v_amount := v_loan.purchase_amount + v_loan.rehab_holdback;
+    v_funded := COALESCE(v_loan.funded_date, v_project.close_date, CURRENT_DATE);
+    v_payoff := GREATEST(v_funded, COALESCE(
+      v_project.sale_date,
+      COALESCE(v_project.close_date, CURRENT_DATE)
+        + ROUND(COALESCE(NULLIF(v_project.hold_months, 0), 4) * 365 / 12)::INTEGER
+    ));
+
+    IF v_loan.interest_basis = 'full_balance' THEN
+      v_balance_days := v_amount * (v_payoff - v_funded);
+    ELSE
+      v_balance_days := v_loan.purchase_amount * (v_payoff - v_funded);
+      v_drawn := 0;
+
+      -- Paid draws, capped at the holdback
+      FOR v_draw IN
+        SELECT amount, date_paid FROM draws
+        WHERE loan_id = v_loan.id AND status = 'paid' AND date_paid IS NOT NULL
+        ORDER BY date_paid, id
+      LOOP
+        v_released := LEAST(v_draw.amount, GREATEST(v_loan.rehab_holdback - v_drawn, 0));
+        v_drawn := v_drawn + v_released;
+        v_balance_days := v_balance_days + v_released * GREATEST(v_payoff - GREATEST(v_draw.date_paid, v_funded), 0);
+      END LOOP;
+
+      -- The rest of the holdback, released evenly through payoff
+      v_projected_from := LEAST(GREATEST(CURRENT_DATE, v_funded), v_payoff);
+      v_balance_days := v_balance_days + (v_loan.rehab_holdback - v_drawn) * (v_payoff - v_projected_from) / 2.0;
+    END IF;
+
+    loan_amount := COALESCE(loan_amount, 0) + v_amount;
+    financing_costs := COALESCE(financing_costs, 0)
+      + v_amount * v_loan.points / 100
+      + v_loan.lender_fees
+      + v_balance_days * v_loan.interest_rate / 100 / 365;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- 4. ENGINE
+-- analyze_deal() gains the cost of capital and loan principal. The old
+-- signature is dropped with the views that call it.
+-- ============================================================================
+
+DROP VIEW IF EXISTS project_summary CASCADE;
+DROP FUNCTION IF EXISTS analyze_deal(
+  NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC, JSONB, NUMERIC, NUMERIC, NUMERIC, calculation_settings, BOOLEAN
+);
+
+CREATE OR REPLACE FUNCTION analyze_deal(
+  p_arv NUMERIC,
+  p_purchase_price NUMERIC,
+  p_rehab_budget NUMERIC,
+  p_closing_costs NUMERIC,
+  p_hold_months NUMERIC,
+  p_category_budgets JSONB,
+  p_contingency_percent NUMERIC,   -- project override for flat/scope-based contingency
+  p_holding_costs_monthly NUMERIC, -- project override for flat/hybrid base holding cost
+  p_selling_cost_percent NUMERIC,  -- project override for % of ARV selling costs
+  p_settings calculation_settings, -- NULL uses the built-in defaults
+  p_include_contingency BOOLEAN DEFAULT TRUE,
+  p_financing_costs NUMERIC DEFAULT NULL, -- project loans: points, fees and interest (NULL = no loans)
+  p_loan_amount NUMERIC DEFAULT NULL,     -- project loans: total principal, for cash invested
+  OUT contingency NUMERIC,
+  OUT rehab_with_contingency NUMERIC,
+  OUT holding_costs NUMERIC,
+  OUT selling_costs NUMERIC,
+  OUT total_investment NUMERIC,
+  OUT gross_profit NUMERIC,
+  OUT roi NUMERIC,
+  OUT mao NUMERIC
+) AS $$
+DECLARE
+  -- Settings with built-in defaults (mirrors DEFAULT_CALCULATION_SETTINGS)
+  v_mao_method mao_method := COALESCE(p_settings.mao_method, 'seventy_rule');
+  v_mao_multiplier NUMERIC := COALESCE(p_settings.mao_arv_multiplier, 0.70);
+  v_mao_target_profit NUMERIC := COALESCE(p_settings.mao_target_profit, 30000);
+  v_mao_target_percent NUMERIC := COALESCE(p_settings.mao_target_profit_percent, 15);
+  v_roi_method roi_method := COALESCE(p_settings.roi_method, 'simple');
+  v_roi_annualize BOOLEAN := COALESCE(p_settings.roi_annualize, FALSE);
+  v_contingency_method contingency_method := COALESCE(p_settings.contingency_method, 'flat_percent');
+  v_contingency_percent NUMERIC := COALESCE(p_contingency_percent, p_settings.contingency_default_percent, 10);
+  v_category_rates JSONB := '{
+    "soft_costs": 5, "demo": 10, "structural": 15, "plumbing": 12, "hvac": 12,
+    "electrical": 12, "insulation_drywall": 10, "interior_paint": 8, "flooring": 8,
+    "tile": 10, "kitchen": 10, "bathrooms": 12, "doors_windows": 8, "interior_trim": 8,
+    "exterior": 12, "landscaping": 8, "finishing": 5, "contingency": 0
+  }'::jsonb || COALESCE(p_settings.contingency_category_rates, '{}'::jsonb);
+  v_tiers JSONB := CASE
+    WHEN jsonb_array_length(COALESCE(p_settings.contingency_tiers, '[]'::jsonb)) > 0
+      THEN p_settings.contingency_tiers
+    ELSE '[
+      {"max_budget": 25000, "percent": 15},
+      {"max_budget": 50000, "percent": 12},
+      {"max_budget": 100000, "percent": 10},
+      {"max_budget": null, "percent": 8}
+    ]'::jsonb
+  END;
+  v_holding_method holding_cost_method := COALESCE(p_settings.holding_cost_method, 'flat_monthly');
+  v_holding_base NUMERIC := COALESCE(p_holding_costs_monthly, p_settings.holding_cost_default_monthly, 1500);
+  v_loan_rate NUMERIC := COALESCE(p_settings.holding_cost_loan_rate_annual, 12);
+  v_items JSONB := '{
+    "taxes": 250, "insurance": 150, "utilities": 200, "loan_interest": 800,
+    "hoa": 0, "lawn_care": 100, "other": 0
+  }'::jsonb || COALESCE(p_settings.holding_cost_items, '{}'::jsonb);
+  v_selling_percent NUMERIC := COALESCE(
+    p_selling_cost_percent,
+    COALESCE(p_settings.selling_cost_agent_commission, 5)
+      + COALESCE(p_settings.selling_cost_buyer_concessions, 2)
+      + COALESCE(p_settings.selling_cost_closing_percent, 1)
+  );
+  v_selling_fixed NUMERIC := COALESCE(p_settings.selling_cost_fixed_amount, 0);
+
+  v_rate NUMERIC;
+  v_itemized_monthly NUMERIC;
+  v_periods_per_year NUMERIC;
+  v_period_return NUMERIC;
+  v_is_annual BOOLEAN;
+  v_mao_costs NUMERIC;
+  v_cash_invested NUMERIC;
+  v_basis NUMERIC;
+BEGIN
+  -- Contingency
+  IF NOT p_include_contingency THEN
+    contingency := 0;
+  ELSIF v_contingency_method = 'category_weighted' AND p_category_budgets IS NOT NULL THEN
+    SELECT COALESCE(SUM(b.value::NUMERIC * COALESCE((v_category_rates->>b.key)::NUMERIC, 10) / 100), 0)
+    INTO contingency
+    FROM jsonb_each_text(p_category_budgets) b;
+  ELSIF v_contingency_method = 'tiered' THEN
+    SELECT (t->>'percent')::NUMERIC
+    INTO v_rate
+    FROM jsonb_array_elements(v_tiers) t
+    WHERE t->>'max_budget' IS NULL OR p_rehab_budget <= (t->>'max_budget')::NUMERIC
+    ORDER BY (t->>'max_budget')::NUMERIC ASC NULLS LAST
+    LIMIT 1;
+    contingency := p_rehab_budget * COALESCE(v_rate, 10) / 100;
+  ELSE
+    contingency := p_rehab_budget * v_contingency_percent / 100;
+  END IF;
+
+  rehab_with_contingency := p_rehab_budget + contingency;
+
+  -- Holding costs. With project loans, their cost replaces the profile's
+  -- assumed loan interest (the loan_interest item and percentage_of_loan)
+  v_itemized_monthly := CASE WHEN p_financing_costs IS NULL THEN (v_items->>'loan_interest')::NUMERIC ELSE 0 END
+    + (v_items->>'lawn_care')::NUMERIC
+    + (v_items->>'other')::NUMERIC
+    + CASE WHEN COALESCE(p_settings.holding_cost_include_taxes, TRUE) THEN (v_items->>'taxes')::NUMERIC ELSE 0 END
+    + CASE WHEN COALESCE(p_settings.holding_cost_include_insurance, TRUE) THEN (v_items->>'insurance')::NUMERIC ELSE 0 END
+    + CASE WHEN COALESCE(p_settings.holding_cost_include_utilities, TRUE) THEN (v_items->>'utilities')::NUMERIC ELSE 0 END
+    + CASE WHEN COALESCE(p_settings.holding_cost_include_hoa, FALSE) THEN (v_items->>'hoa')::NUMERIC ELSE 0 END;
+
+  holding_costs := CASE v_holding_method
+    WHEN 'itemized' THEN v_itemized_monthly * p_hold_months
+    WHEN 'percentage_of_loan' THEN
+      CASE WHEN p_financing_costs IS NULL THEN p_purchase_price * v_loan_rate / 100 / 12 * p_hold_months ELSE 0 END
+    WHEN 'hybrid' THEN (v_holding_base + v_itemized_monthly) * p_hold_months
+    ELSE v_holding_base * p_hold_months
+  END + COALESCE(p_financing_costs, 0);
+
+  -- Selling costs
+  selling_costs := p_arv * v_selling_percent / 100 + v_selling_fixed;
+
+  -- Investment and profit
+  total_investment := p_purchase_price + rehab_with_contingency + p_closing_costs + holding_costs;
+  gross_profit := p_arv - selling_costs - total_investment;
+
+  -- ROI. Loan principal isn't the investor's cash, so cash-on-cash uses the rest
+  v_cash_invested := CASE
+    WHEN p_loan_amount IS NULL THEN total_investment
+    ELSE GREATEST(total_investment - p_loan_amount, 0)
+  END;
+  v_basis := CASE WHEN v_roi_method = 'cash_on_cash' THEN v_cash_invested ELSE total_investment END;
+
+  IF v_basis <= 0 THEN
+    roi := 0;
+  ELSE
+    v_period_return := gross_profit / v_basis;
+    v_periods_per_year := CASE WHEN p_hold_months > 0 THEN 12 / p_hold_months ELSE 1 END;
+
+    IF v_roi_method = 'annualized' THEN
+      roi := v_period_return * v_periods_per_year * 100;
+      v_is_annual := TRUE;
+    ELSIF v_roi_method = 'irr_simplified' THEN
+      roi := CASE
+        WHEN v_period_return <= -1 THEN -100
+        ELSE (POWER(1 + v_period_return, v_periods_per_year) - 1) * 100
+      END;
+      v_is_annual := TRUE;
+    ELSE
+      roi := v_period_return * 100;
+      v_is_annual := v_roi_annualize;
+      IF v_is_annual THEN
+        roi := roi * v_periods_per_year;
+      END IF;
+    END IF;
+
+    IF COALESCE(p_settings.roi_include_opportunity_cost, FALSE) THEN
+      roi := roi - CASE
+        WHEN v_is_annual THEN COALESCE(p_settings.roi_opportunity_rate, 5)
+        ELSE COALESCE(p_settings.roi_opportunity_rate, 5) / v_periods_per_year
+      END;
+    END IF;
+  END IF;
+
+  -- MAO
+  v_mao_costs := rehab_with_contingency
+    + CASE WHEN COALESCE(p_settings.mao_include_holding_costs, TRUE) THEN holding_costs ELSE 0 END
+    + CASE WHEN COALESCE(p_settings.mao_include_selling_costs, TRUE) THEN selling_costs ELSE 0 END
+    + CASE WHEN COALESCE(p_settings.mao_include_closing_costs, TRUE) THEN p_closing_costs ELSE 0 END;
+
+  mao := CASE v_mao_method
+    WHEN 'seventy_rule' THEN p_arv * v_mao_multiplier - v_mao_costs
+    WHEN 'custom_percentage' THEN p_arv * v_mao_multiplier - v_mao_costs
+    WHEN 'arv_minus_all' THEN p_arv - v_mao_costs - v_mao_target_profit
+    WHEN 'net_profit_target' THEN p_arv - v_mao_costs - v_mao_target_profit
+    WHEN 'gross_margin' THEN p_arv * (1 - v_mao_target_percent / 100) - v_mao_costs
+    ELSE p_arv * 0.70 - v_mao_costs
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION analyze_deal IS 'Deal analysis engine. Mirrors analyzeDeal() in src/lib/deal-analysis.ts';
+
+-- ============================================================================
+-- 5. PROJECT SUMMARY
+-- ============================================================================
+
+CREATE VIEW project_summary
+WITH (security_invoker = true)
+AS
+WITH budget AS (
+  SELECT
+    project_id,
+    COALESCE(SUM(underwriting_amount), 0) AS underwriting_total,
+    COALESCE(SUM(forecast_amount), 0) AS forecast_total,
+    COALESCE(SUM(actual_amount), 0) AS actual_total,
+    COUNT(*) AS total_items,
+    COUNT(*) FILTER (WHERE status = 'complete') AS completed_items,
+    COUNT(*) FILTER (WHERE status = 'in_progress') AS in_progress_items
+  FROM budget_items
+  GROUP BY project_id
+),
+category_budget AS (
+  SELECT
+    project_id,
+    jsonb_object_agg(category, underwriting) AS underwriting_by_category,
+    jsonb_object_agg(category, forecast) AS forecast_by_category
+  FROM (
+    SELECT
+      project_id,
+      category,
+      COALESCE(SUM(underwriting_amount), 0) AS underwriting,
+      COALESCE(SUM(forecast_amount), 0) AS forecast
+    FROM budget_items
+    GROUP BY project_id, category
+  ) c
+  GROUP BY project_id
+),
+settings AS (
+  -- Assigned profile first, then the owner's default
+  SELECT DISTINCT ON (p.id)
+    p.id AS project_id,
+    cs AS settings
+  FROM projects p
+  JOIN calculation_settings cs
+    ON cs.id = p.calculation_settings_id
+    OR (cs.user_id = p.user_id AND cs.is_default)
+  ORDER BY p.id, (cs.id = p.calculation_settings_id) DESC NULLS LAST
+)
+SELECT
+  p.*,
+
+  -- Three-Column Budget Rollups
+  COALESCE(b.underwriting_total, 0) AS underwriting_total,
+  COALESCE(b.forecast_total, 0) AS forecast_total,
+  COALESCE(b.actual_total, 0) AS actual_total,
+
+  -- Primary budget (forecast if set, otherwise underwriting)
+  x.primary_budget AS rehab_budget,
+  COALESCE(b.actual_total, 0) AS rehab_actual,
+  pa.contingency AS contingency_amount,
+  pa.rehab_with_contingency AS rehab_budget_with_contingency,
+
+  -- Calculated Costs (profile-driven)
+  pa.selling_costs,
+  pa.holding_costs AS holding_costs_total,
+  pa.total_investment,
+  pa.gross_profit,
+  pa.roi,
+  f.loan_amount,
+  f.financing_costs,
+
+  -- MAO is judged on the pre-deal underwriting budget
+  ua.mao,
+
+  -- Item Counts
+  COALESCE(b.total_items, 0) AS total_items,
+  COALESCE(b.completed_items, 0) AS completed_items,
+  COALESCE(b.in_progress_items, 0) AS in_progress_items
+
+FROM projects p
+LEFT JOIN budget b ON b.project_id = p.id
+LEFT JOIN category_budget cb ON cb.project_id = p.id
+LEFT JOIN settings s ON s.project_id = p.id
+CROSS JOIN LATERAL project_financing(p.id) f
+CROSS JOIN LATERAL (
+  SELECT
+    CASE WHEN COALESCE(b.forecast_total, 0) > 0 THEN b.forecast_total ELSE COALESCE(b.underwriting_total, 0) END AS primary_budget,
+    CASE WHEN COALESCE(b.forecast_total, 0) > 0 THEN cb.forecast_by_category ELSE cb.underwriting_by_category END AS primary_by_category,
+    COALESCE(NULLIF(p.hold_months, 0), 4) AS hold_months
+) x
+CROSS JOIN LATERAL analyze_deal(
+  COALESCE(p.arv, 0), COALESCE(p.purchase_price, 0), x.primary_budget, COALESCE(p.closing_costs, 0),
+  x.hold_months, x.primary_by_category,
+  p.contingency_percent, p.holding_costs_monthly, p.selling_cost_percent, s.settings,
+  TRUE, f.financing_costs, f.loan_amount
+) pa
+CROSS JOIN LATERAL analyze_deal(
+  COALESCE(p.arv, 0), COALESCE(p.purchase_price, 0), COALESCE(b.underwriting_total, 0), COALESCE(p.closing_costs, 0),
+  x.hold_months, cb.underwriting_by_category,
+  p.contingency_percent, p.holding_costs_monthly, p.selling_cost_percent, s.settings,
+  TRUE, f.financing_costs, f.loan_amount
+) ua;
+
+COMMENT ON VIEW project_summary IS 'Project data with budget totals, loans and profile-driven deal analysis (analyze_deal). Uses SECURITY INVOKER to respect RLS.';
+
+-- ============================================================================
+-- 6. DEPENDENT VIEWS (dropped by the CASCADE above)
+-- ============================================================================
+
+CREATE OR REPLACE VIEW portfolio_summary
+WITH (security_invoker = true)
+AS
+SELECT
+  user_id,
+  COUNT(*)::integer as total_projects,
+  COUNT(*) FILTER (WHERE status NOT IN ('sold', 'dead'))::integer as active_projects,
+  COUNT(*) FILTER (WHERE status = 'lead')::integer as lead_count,
+  COUNT(*) FILTER (WHERE status = 'analyzing')::integer as analyzing_count,
+  COUNT(*) FILTER (WHERE status = 'under_contract')::integer as under_contract_count,
+  COUNT(*) FILTER (WHERE status = 'in_rehab')::integer as in_rehab_count,
+  COUNT(*) FILTER (WHERE status = 'listed')::integer as listed_count,
+  COUNT(*) FILTER (WHERE status = 'sold')::integer as sold_count,
+
+  -- Financial aggregates
+  COALESCE(SUM(arv) FILTER (WHERE status NOT IN ('sold', 'dead')), 0)::numeric as total_arv,
+  COALESCE(SUM(total_investment) FILTER (WHERE status NOT IN ('sold', 'dead')), 0)::numeric as capital_deployed,
+  COALESCE(SUM(gross_profit) FILTER (WHERE status = 'sold'), 0)::numeric as total_profit,
+  COALESCE(AVG(roi) FILTER (WHERE status = 'sold'), 0)::numeric as avg_roi,
+
+  -- Budget aggregates
+  COALESCE(SUM(rehab_budget), 0)::numeric as total_budget,
+  COALESCE(SUM(rehab_actual), 0)::numeric as total_actual,
+
+  -- Risk indicators
+  COUNT(*) FILTER (WHERE rehab_actual > rehab_budget AND status = 'in_rehab')::integer as over_budget_count,
+  COUNT(*) FILTER (WHERE target_complete_date < NOW() AND status = 'in_rehab')::integer as behind_schedule_count
+FROM project_summary
+GROUP BY user_id;
+
+COMMENT ON VIEW portfolio_summary IS 'Aggregated portfolio metrics across all user projects';
+
+CREATE OR REPLACE VIEW projects_with_risks
+WITH (security_invoker = true)
+AS
+SELECT
+  ps.*,
+  CASE WHEN rehab_actual > rehab_budget AND status = 'in_rehab' THEN true ELSE false END as is_over_budget,
+  CASE WHEN target_complete_date < NOW() AND status = 'in_rehab' THEN true ELSE false END as is_behind_schedule,
+  CASE WHEN total_investment > 0 AND roi < 10 THEN true ELSE false END as is_low_roi,
+  COALESCE(rehab_actual - rehab_budget, 0)::numeric as budget_variance,
+  CASE
+    WHEN target_complete_date IS NOT NULL AND status = 'in_rehab'
+    THEN GREATEST(0, EXTRACT(DAY FROM NOW() - target_complete_date)::integer)
+    ELSE 0
+  END as days_overdue,
+  CASE
+    WHEN contingency_amount > 0
+    THEN LEAST(100, GREATEST(0, ((rehab_actual - rehab_budget) / contingency_amount * 100)))::numeric
+    ELSE 0
+  END as contingency_used_percent
+FROM project_summary ps;
+
+COMMENT ON VIEW projects_with_risks IS 'Projects with computed risk indicators for alerts';
+
+-- ============================================================================
+-- 7. REALTIME
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE project_loans;
@@ -0,0 +1,142 @@
+-- ============================================================================
+-- PROJECT CLOSEOUTS
+-- The sale settlement statement for a project: sale price, commissions,
+-- seller concessions, title/transfer fees and loan payoff, with the cost
+-- basis and holding costs actually paid. One per project.
+--
+-- Realized profit, ROI and hold days are calculated in src/lib/closeout.ts.
+-- Locking stores them with the underwriting projection they are judged
+-- against, marks the project sold on the settlement date and freezes the
+-- closeout; the post-mortem report is rendered from the locked row.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TABLE
+-- ============================================================================
+
+CREATE TABLE project_closeouts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL UNIQUE,
+
+  -- Settlement
+  sale_date DATE NOT NULL,
+  sale_price NUMERIC(12,2) NOT NULL CHECK (sale_price > 0),
+  commissions NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (commissions >= 0),
+  seller_concessions NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (seller_concessions >= 0),
+  title_transfer_fees NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (title_transfer_fees >= 0),
+  loan_payoff NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (loan_payoff >= 0),
+
+  -- Cost basis
+  purchase_price NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (purchase_price >= 0),
+  closing_costs NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (closing_costs >= 0),
+  rehab_cost NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (rehab_cost >= 0),
+  holding_costs_paid NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (holding_costs_paid >= 0),
+  financing_fees NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (financing_fees >= 0),
+  loan_principal NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (loan_principal >= 0),
+
+  notes TEXT,
+
+  -- Locked results
+  realized_profit NUMERIC(12,2),
+  realized_roi NUMERIC(8,2),
+  actual_hold_days INTEGER,
+  projected_sale_price NUMERIC(12,2),
+  projected_selling_costs NUMERIC(12,2),
+  projected_acquisition_costs NUMERIC(12,2),
+  projected_rehab_cost NUMERIC(12,2),
+  projected_holding_costs NUMERIC(12,2),
+  projected_profit NUMERIC(12,2),
+  projected_roi NUMERIC(8,2),
+  projected_hold_days INTEGER,
+  locked_at TIMESTAMPTZ,
+  locked_by UUID REFERENCES auth.users(id),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (loan_payoff >= loan_principal),
+  CHECK (locked_at IS NULL OR (realized_profit IS NOT NULL AND projected_profit IS NOT NULL))
+);
+
+CREATE TRIGGER project_closeouts_updated_at
+  BEFORE UPDATE ON project_closeouts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE project_closeouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "project_closeouts_select_policy" ON project_closeouts
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "project_closeouts_insert_policy" ON project_closeouts
+  FOR INSERT WITH CHECK (locked_at IS NULL AND has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "project_closeouts_update_policy" ON project_closeouts
+  FOR UPDATE USING (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "project_closeouts_delete_policy" ON project_closeouts
+  FOR DELETE USING (locked_at IS NULL AND has_project_capability(project_id, 'edit_projects'));
+
+-- ============================================================================
+-- 3. LOCKING
+-- A locked closeout can no longer change. Locking stamps who and when, and
+-- marks the project sold on the settlement date; runs as the caller, so the
+-- project update is checked and audited as theirs.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_closeout_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.locked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This closeout is locked and can no longer be changed';
+  END IF;
+
+  IF NEW.locked_at IS NOT NULL THEN
+    NEW.locked_at := NOW();
+    NEW.locked_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_closeout_lock
+  BEFORE UPDATE ON project_closeouts
+  FOR EACH ROW EXECUTE FUNCTION enforce_closeout_lock();
+
+CREATE OR REPLACE FUNCTION mark_project_sold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE projects
+  SET status = 'sold', sale_date = NEW.sale_date
+  WHERE id = NEW.project_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_project_sold
+  AFTER UPDATE OF locked_at ON project_closeouts
+  FOR EACH ROW
+  WHEN (NEW.locked_at IS NOT NULL AND OLD.locked_at IS NULL)
+  EXECUTE FUNCTION mark_project_sold();
+
+-- ============================================================================
+-- 4. POST-MORTEM REPORT
+-- ============================================================================
+
+ALTER TABLE project_reports DROP CONSTRAINT project_reports_report_type_check;
+ALTER TABLE project_reports ADD CONSTRAINT project_reports_report_type_check CHECK (report_type IN (
+  'property-showcase',
+  'executive-summary',
+  'investment-analysis',
+  'detailed-budget',
+  'vendor-summary',
+  'draw-schedule',
+  'draw-packet',
+  'post-mortem'
+));
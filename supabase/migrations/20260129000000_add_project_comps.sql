@@ -0,0 +1,68 @@
+-- ============================================================================
+-- COMPARABLE SALES
+-- Recent sales near a project that support its ARV, entered by hand or
+-- imported from an MLS export. Each selected comp's price is adjusted to the
+-- subject for size, beds, baths and condition (the subject is valued in
+-- renovated condition); the mean adjusted $/sqft times the subject's sqft is
+-- the comps-indicated ARV, with one standard deviation either side as the
+-- range. The valuation is computed in src/lib/comps.ts.
+--
+-- Adjustment rates are per project. A NULL sqft rate uses half the selected
+-- comps' median $/sqft.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TABLES
+-- ============================================================================
+
+CREATE TYPE comp_condition AS ENUM ('distressed', 'dated', 'average', 'updated', 'renovated');
+
+CREATE TABLE project_comps (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  address TEXT NOT NULL,
+  sale_date DATE,
+  sale_price NUMERIC(12,2) NOT NULL CHECK (sale_price > 0),
+  sqft INTEGER NOT NULL CHECK (sqft > 0),
+  beds INTEGER CHECK (beds >= 0),
+  baths NUMERIC(3,1) CHECK (baths >= 0),
+  distance_miles NUMERIC(5,2) CHECK (distance_miles >= 0),
+  condition comp_condition NOT NULL DEFAULT 'average',
+
+  -- Unselected comps stay on file but don't count toward the ARV
+  is_selected BOOLEAN NOT NULL DEFAULT TRUE,
+
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_project_comps_project ON project_comps(project_id, sale_date DESC);
+
+CREATE TRIGGER project_comps_updated_at
+  BEFORE UPDATE ON project_comps
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Adjustment rates, in dollars per unit of difference from the subject
+ALTER TABLE projects
+  ADD COLUMN comp_sqft_adjustment NUMERIC(10,2) CHECK (comp_sqft_adjustment >= 0),
+  ADD COLUMN comp_bed_adjustment NUMERIC(10,2) NOT NULL DEFAULT 5000 CHECK (comp_bed_adjustment >= 0),
+  ADD COLUMN comp_bath_adjustment NUMERIC(10,2) NOT NULL DEFAULT 7500 CHECK (comp_bath_adjustment >= 0),
+  -- % of the comp's price per condition step below renovated
+  ADD COLUMN comp_condition_adjustment NUMERIC(5,2) NOT NULL DEFAULT 5 CHECK (comp_condition_adjustment >= 0);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE project_comps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "project_comps_select_policy" ON project_comps
+  FOR SELECT USING (can_view_project(project_id));
+CREATE POLICY "project_comps_insert_policy" ON project_comps
+  FOR INSERT WITH CHECK (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "project_comps_update_policy" ON project_comps
+  FOR UPDATE USING (has_project_capability(project_id, 'edit_projects'));
+CREATE POLICY "project_comps_delete_policy" ON project_comps
+  FOR DELETE USING (has_project_capability(project_id, 'edit_projects'));